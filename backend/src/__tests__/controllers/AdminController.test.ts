@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Response } from 'express';
+import { AdminController } from '../../controllers/AdminController';
+import { Database } from '../../database/connection';
+import { SubmissionRepository } from '../../models/SubmissionRepository';
+import { RegistrationRepository } from '../../models/RegistrationRepository';
+import { UserRepository } from '../../models/UserRepository';
+import { PresentationProposalRepository } from '../../models/PresentationProposalRepository';
+import { presentationProposalService } from '../../services/PresentationProposalService';
+import { AuthenticatedRequest } from '../../middleware/auth';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+jest.mock('../../models/SubmissionRepository', () => ({
+  SubmissionRepository: { findById: jest.fn() }
+}));
+jest.mock('../../models/RegistrationRepository', () => ({
+  RegistrationRepository: { updatePaymentStatus: jest.fn() }
+}));
+jest.mock('../../models/UserRepository', () => ({
+  UserRepository: {
+    mapRowToUser: jest.fn((row: any) => ({ id: row.id })),
+    mapUserToResponse: jest.fn((user: any, sessions: string[]) => ({ ...user, selectedSessions: sessions })),
+    getUserSessions: jest.fn(),
+    findByIdWithSessions: jest.fn()
+  }
+}));
+jest.mock('../../models/PresentationProposalRepository', () => ({
+  PresentationProposalRepository: { findPendingBySubmission: jest.fn() }
+}));
+jest.mock('../../services/PresentationProposalService', () => ({
+  presentationProposalService: { propose: jest.fn() }
+}));
+jest.mock('../../services/EmailService', () => ({ EmailService: jest.fn(() => ({})) }));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+const mockedSubmissionRepository = SubmissionRepository as jest.Mocked<typeof SubmissionRepository>;
+const mockedRegistrationRepository = RegistrationRepository as jest.Mocked<typeof RegistrationRepository>;
+const mockedUserRepository = UserRepository as jest.Mocked<typeof UserRepository>;
+const mockedProposalRepository = PresentationProposalRepository as jest.Mocked<typeof PresentationProposalRepository>;
+const mockedProposalService = presentationProposalService as jest.Mocked<typeof presentationProposalService>;
+
+describe('AdminController', () => {
+  let mockRes: Partial<Response>;
+
+  const pastEditionId = 'conference-2025';
+
+  const adminRequest = (params: Record<string, string>, body: unknown = {}, query: Record<string, string> = {}) => ({
+    params,
+    body,
+    query,
+    conferenceId: pastEditionId,
+    user: { userId: 'admin-123', email: 'admin@example.com', role: 'admin', participantType: 'regular_participant' }
+  }) as unknown as AuthenticatedRequest;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRes = {
+      status: jest.fn().mockReturnThis() as any,
+      json: jest.fn().mockReturnThis() as any
+    };
+  });
+
+  describe('proposePresentationType', () => {
+    const submission = (overrides: Record<string, unknown> = {}) => ({
+      id: 'submission-123',
+      userId: 'author-123',
+      status: 'accepted',
+      presentationType: 'oral',
+      ...overrides
+    });
+
+    it('should propose another type for an accepted submission', async () => {
+      mockedSubmissionRepository.findById.mockResolvedValue(submission() as never);
+      mockedProposalRepository.findPendingBySubmission.mockResolvedValue(null as never);
+      mockedProposalService.propose.mockResolvedValue({ id: 'proposal-123', status: 'pending' } as never);
+
+      await AdminController.proposePresentationType(
+        adminRequest({ submissionId: 'submission-123' }, { proposedType: 'poster', adminNotes: 'Too many talks in the track' }),
+        mockRes as Response
+      );
+
+      expect(mockedProposalService.propose).toHaveBeenCalledWith(submission(), {
+        proposedType: 'poster',
+        proposedBy: 'admin-123',
+        adminNotes: 'Too many talks in the track'
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+    });
+
+    it.each(['submitted', 'under_review', 'rejected', 'withdrawn'])(
+      'should not propose a type when the submission is %s',
+      async (status) => {
+        mockedSubmissionRepository.findById.mockResolvedValue(submission({ status }) as never);
+
+        await AdminController.proposePresentationType(
+          adminRequest({ submissionId: 'submission-123' }, { proposedType: 'poster' }),
+          mockRes as Response
+        );
+
+        expect(mockRes.status).toHaveBeenCalledWith(400);
+        expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+          error: expect.objectContaining({ code: 'SUBMISSION_NOT_ACCEPTED' })
+        }));
+        expect(mockedProposalService.propose).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should not propose the type the submission already has', async () => {
+      mockedSubmissionRepository.findById.mockResolvedValue(submission() as never);
+
+      await AdminController.proposePresentationType(
+        adminRequest({ submissionId: 'submission-123' }, { proposedType: 'oral' }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'SAME_PRESENTATION_TYPE' })
+      }));
+    });
+
+    it('should wait for the authors to answer the previous proposal', async () => {
+      mockedSubmissionRepository.findById.mockResolvedValue(submission() as never);
+      mockedProposalRepository.findPendingBySubmission.mockResolvedValue({ id: 'proposal-122', status: 'pending' } as never);
+
+      await AdminController.proposePresentationType(
+        adminRequest({ submissionId: 'submission-123' }, { proposedType: 'poster' }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(409);
+      expect(mockedProposalService.propose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllUsers', () => {
+    beforeEach(() => {
+      mockedDatabase.query
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'user-123' }] });
+      mockedUserRepository.getUserSessions.mockResolvedValue(['symposium']);
+    });
+
+    it('should join the registrations of the managed edition', async () => {
+      await AdminController.getAllUsers(adminRequest({}), mockRes as Response);
+
+      const [[countQuery], [usersQuery, usersValues]] = mockedDatabase.query.mock.calls;
+      expect(countQuery).toContain('LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = $1');
+      expect(usersQuery).toContain('LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = $1');
+      expect(usersValues).toEqual([pastEditionId, 20, 0]);
+      expect(mockedUserRepository.getUserSessions).toHaveBeenCalledWith('user-123', pastEditionId);
+    });
+
+    it('should count users without a registration as not paid when filtering by payment status', async () => {
+      await AdminController.getAllUsers(
+        adminRequest({}, {}, { paymentStatus: 'not_paid', registered: 'false' }),
+        mockRes as Response
+      );
+
+      const [usersQuery, usersValues] = mockedDatabase.query.mock.calls[1];
+      expect(usersQuery).toContain("COALESCE(r.payment_status, 'not_paid') = $2");
+      expect(usersQuery).toContain('r.id IS NULL');
+      expect(usersValues).toEqual([pastEditionId, 'not_paid', 20, 0]);
+    });
+  });
+
+  describe('updateUserPaymentStatus', () => {
+    it('should update the payment of the managed edition', async () => {
+      mockedRegistrationRepository.updatePaymentStatus.mockResolvedValue({ id: 'registration-123' } as never);
+      mockedUserRepository.findByIdWithSessions.mockResolvedValue({ id: 'user-123' } as never);
+
+      await AdminController.updateUserPaymentStatus(
+        adminRequest({ userId: 'user-123' }, { paymentStatus: 'payment_verified' }),
+        mockRes as Response
+      );
+
+      expect(mockedRegistrationRepository.updatePaymentStatus).toHaveBeenCalledWith(
+        pastEditionId,
+        'user-123',
+        'payment_verified'
+      );
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should refuse a user who is not registered for the managed edition', async () => {
+      mockedRegistrationRepository.updatePaymentStatus.mockResolvedValue(null as never);
+
+      await AdminController.updateUserPaymentStatus(
+        adminRequest({ userId: 'user-123' }, { paymentStatus: 'payment_verified' }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'REGISTRATION_NOT_FOUND' })
+      }));
+    });
+
+    it('should reject an unknown payment status', async () => {
+      await AdminController.updateUserPaymentStatus(
+        adminRequest({ userId: 'user-123' }, { paymentStatus: 'refunded' }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockedRegistrationRepository.updatePaymentStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUserStatistics', () => {
+    it('should scope every registration figure to the managed edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [{ total: '3', registered: '2' }] });
+
+      await AdminController.getUserStatistics(adminRequest({}), mockRes as Response);
+
+      const [roleStats, ...editionStats] = mockedDatabase.query.mock.calls;
+      expect(roleStats[1]).toBeUndefined();
+      expect(editionStats).toHaveLength(5);
+      for (const [, values] of editionStats) {
+        expect(values).toEqual([pastEditionId]);
+      }
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ totalUsers: 3, registeredUsers: 2 })
+      }));
+    });
+  });
+});
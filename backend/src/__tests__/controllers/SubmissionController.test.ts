@@ -0,0 +1,503 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Response } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SubmissionController } from '../../controllers/SubmissionController';
+import { SubmissionRepository } from '../../models/SubmissionRepository';
+import { ManuscriptVersionRepository } from '../../models/ManuscriptVersionRepository';
+import { ReviewRepository } from '../../models/ReviewRepository';
+import { ConferenceRepository } from '../../models/ConferenceRepository';
+import { SubmissionFileRepository } from '../../models/SubmissionFileRepository';
+import { PresentationProposalRepository } from '../../models/PresentationProposalRepository';
+import { AuthenticatedRequest } from '../../types/index';
+
+const mockSubmissionRepository = {
+  findById: jest.fn<any>(),
+  findByIdWithAuthors: jest.fn<any>(),
+  getSubmissionAuthors: jest.fn<any>(),
+  requestRevision: jest.fn<any>(),
+  submitRevision: jest.fn<any>(),
+  findStatusHistory: jest.fn<any>()
+};
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+jest.mock('../../models/SubmissionRepository', () => ({
+  SubmissionRepository: Object.assign(jest.fn(() => mockSubmissionRepository), { updateStatus: jest.fn() })
+}));
+jest.mock('../../models/UserRepository', () => ({
+  UserRepository: Object.assign(jest.fn(() => ({ findById: jest.fn() })), { findById: jest.fn() })
+}));
+jest.mock('../../models/ReviewRepository', () => ({
+  ReviewRepository: {
+    findBySubmissionId: jest.fn(),
+    getAssignedManuscriptVersionId: jest.fn(),
+    getSubmissionReviewers: jest.fn()
+  }
+}));
+jest.mock('../../models/ManuscriptVersionRepository', () => ({
+  ManuscriptVersionRepository: { findById: jest.fn(), findBySubmissionId: jest.fn() }
+}));
+jest.mock('../../models/ConferenceRepository', () => ({
+  ConferenceRepository: { findReviewModeForSubmission: jest.fn() }
+}));
+jest.mock('../../models/SubmissionFileRepository', () => ({
+  SubmissionFileRepository: { findBySubmission: jest.fn(), findById: jest.fn() }
+}));
+jest.mock('../../models/PresentationProposalRepository', () => ({
+  PresentationProposalRepository: { findPendingBySubmission: jest.fn(), respond: jest.fn() }
+}));
+jest.mock('../../services/EmailService', () => ({
+  EmailService: jest.fn(() => ({
+    sendRevisionRequestEmail: jest.fn(),
+    sendSubmissionStatusUpdate: jest.fn()
+  }))
+}));
+jest.mock('../../services/FileService', () => ({ FileService: jest.fn() }));
+
+const mockedSubmissionRepository = SubmissionRepository as unknown as { updateStatus: jest.Mock<any> };
+const mockedVersionRepository = ManuscriptVersionRepository as jest.Mocked<typeof ManuscriptVersionRepository>;
+const mockedReviewRepository = ReviewRepository as jest.Mocked<typeof ReviewRepository>;
+const mockedProposalRepository = PresentationProposalRepository as jest.Mocked<typeof PresentationProposalRepository>;
+const mockedConferenceRepository = ConferenceRepository as jest.Mocked<typeof ConferenceRepository>;
+const mockedFileRepository = SubmissionFileRepository as jest.Mocked<typeof SubmissionFileRepository>;
+
+describe('SubmissionController', () => {
+  let controller: SubmissionController;
+  let mockRes: Partial<Response>;
+
+  const submission = (overrides: Record<string, unknown> = {}) => ({
+    id: 'submission-123',
+    userId: 'author-123',
+    title: 'Perovskite thin films',
+    status: 'under_review',
+    revisionRound: 1,
+    authors: [],
+    ...overrides
+  });
+
+  const request = (
+    user: { id: string; role: string },
+    body: unknown = {},
+    params: Record<string, string> = { id: 'submission-123' }
+  ): AuthenticatedRequest => ({
+    params,
+    user: { ...user, userId: user.id, email: `${user.id}@example.com`, participantType: 'regular_participant' },
+    body
+  }) as unknown as AuthenticatedRequest;
+
+  const admin = { id: 'admin-123', role: 'admin' };
+  const author = { id: 'author-123', role: 'participant' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    controller = new SubmissionController();
+    mockRes = {
+      status: jest.fn().mockReturnThis() as any,
+      json: jest.fn().mockReturnThis() as any
+    };
+  });
+
+  describe('requestRevision', () => {
+    const body = { revisionType: 'major', deadline: '2026-12-01T00:00:00.000Z', adminNotes: 'Address reviewer 2' };
+
+    it.each(['submitted', 'revision_requested', 'revised', 'accepted'])(
+      'should not request a revision when the submission is %s',
+      async (status) => {
+        mockSubmissionRepository.findByIdWithAuthors.mockResolvedValue(submission({ status }));
+
+        await controller.requestRevision(request(admin, body), mockRes as Response);
+
+        expect(mockRes.status).toHaveBeenCalledWith(400);
+        expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+          success: false,
+          error: expect.objectContaining({ code: 'INVALID_SUBMISSION_STATUS' })
+        }));
+        expect(mockSubmissionRepository.requestRevision).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should request a revision for the current round of a submission under review', async () => {
+      mockSubmissionRepository.findByIdWithAuthors.mockResolvedValue(submission({ revisionRound: 2 }));
+      mockSubmissionRepository.requestRevision.mockResolvedValue({ round: 2, deadline: new Date(body.deadline) });
+
+      await controller.requestRevision(request(admin, body), mockRes as Response);
+
+      expect(mockSubmissionRepository.requestRevision).toHaveBeenCalledWith('submission-123', {
+        round: 2,
+        revisionType: 'major',
+        deadline: new Date(body.deadline),
+        requestedBy: 'admin-123',
+        requestNotes: 'Address reviewer 2'
+      });
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+  });
+
+  describe('submitRevision', () => {
+    const body = { responseLetter: 'We addressed every comment of both reviewers.' };
+
+    it.each(['submitted', 'under_review', 'revised', 'accepted', 'rejected'])(
+      'should reject a revision when the submission is %s',
+      async (status) => {
+        mockSubmissionRepository.findById.mockResolvedValue(submission({ status }));
+
+        await controller.submitRevision(request(author, body), mockRes as Response);
+
+        expect(mockRes.status).toHaveBeenCalledWith(400);
+        expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+          success: false,
+          error: expect.objectContaining({ code: 'REVISION_NOT_REQUESTED' })
+        }));
+        expect(mockSubmissionRepository.submitRevision).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should reject a revision after its deadline', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({
+        status: 'revision_requested',
+        revisionDeadline: new Date(Date.now() - 24 * 60 * 60 * 1000)
+      }));
+
+      await controller.submitRevision(request(author, body), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'REVISION_DEADLINE_PASSED' })
+      }));
+      expect(mockSubmissionRepository.submitRevision).not.toHaveBeenCalled();
+    });
+
+    it('should not let someone without edit rights revise the submission', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'revision_requested' }));
+      mockSubmissionRepository.getSubmissionAuthors.mockResolvedValue([]);
+
+      await controller.submitRevision(request({ id: 'other-123', role: 'participant' }, body), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockSubmissionRepository.submitRevision).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSubmissionStatus', () => {
+    it('should not decide a submission while the authors are revising it', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'revision_requested' }));
+
+      await controller.updateSubmissionStatus(request(admin, { status: 'accepted' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'INVALID_STATUS_TRANSITION' })
+      }));
+      expect(mockedSubmissionRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should send a revised submission back into review', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'revised' }));
+      mockedSubmissionRepository.updateStatus.mockResolvedValue(submission({ status: 'under_review' }));
+
+      await controller.updateSubmissionStatus(request(admin, { status: 'under_review' }), mockRes as Response);
+
+      expect(mockedSubmissionRepository.updateStatus).toHaveBeenCalledWith('submission-123', 'under_review', expect.objectContaining({
+        changedBy: 'admin-123'
+      }));
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should not move a submission into revision through a status override', async () => {
+      await controller.updateSubmissionStatus(request(admin, { status: 'revision_requested' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'INVALID_STATUS' })
+      }));
+      expect(mockSubmissionRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadManuscriptVersion', () => {
+    const params = { submissionId: 'submission-123', versionId: 'version-2' };
+
+    it('should not let a participant download a version of someone else\'s submission', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission());
+      mockSubmissionRepository.getSubmissionAuthors.mockResolvedValue([]);
+
+      await controller.downloadManuscriptVersion(
+        request({ id: 'other-123', role: 'participant' }, {}, params),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'ACCESS_DENIED' })
+      }));
+      expect(mockedVersionRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should not let a reviewer download a version they were not assigned', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission());
+      mockSubmissionRepository.getSubmissionAuthors.mockResolvedValue([]);
+      mockedVersionRepository.findById.mockResolvedValue({
+        id: 'version-2',
+        submissionId: 'submission-123',
+        versionNumber: 2,
+        filePath: 'uploads/manuscripts/v2.pdf',
+        originalName: 'manuscript.pdf'
+      } as never);
+      mockedReviewRepository.getAssignedManuscriptVersionId.mockResolvedValue('version-1' as never);
+
+      await controller.downloadManuscriptVersion(
+        request({ id: 'reviewer-123', role: 'reviewer' }, {}, params),
+        mockRes as Response
+      );
+
+      expect(mockedReviewRepository.getAssignedManuscriptVersionId).toHaveBeenCalledWith('submission-123', 'reviewer-123');
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ message: 'Reviewers can only download the version they were assigned' })
+      }));
+    });
+
+    it('should report a version of another submission as not found', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission());
+      mockedVersionRepository.findById.mockResolvedValue(null as never);
+
+      await controller.downloadManuscriptVersion(request(author, {}, params), mockRes as Response);
+
+      expect(mockedVersionRepository.findById).toHaveBeenCalledWith('submission-123', 'version-2');
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('respondToPresentationProposal', () => {
+    const pending = {
+      id: 'proposal-123',
+      submissionId: 'submission-123',
+      currentType: 'oral',
+      proposedType: 'poster',
+      status: 'pending',
+      proposedBy: 'admin-123'
+    };
+
+    beforeEach(() => {
+      mockSubmissionRepository.getSubmissionAuthors.mockResolvedValue([]);
+      mockedProposalRepository.findPendingBySubmission.mockResolvedValue(pending as never);
+    });
+
+    it('should apply an accepted proposal without revealing who proposed it', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'accepted' }));
+      mockedProposalRepository.respond.mockResolvedValue({ ...pending, status: 'accepted' } as never);
+
+      await controller.respondToPresentationProposal(request(author, { decision: 'accept' }), mockRes as Response);
+
+      expect(mockedProposalRepository.respond).toHaveBeenCalledWith('proposal-123', {
+        decision: 'accept',
+        respondedBy: 'author-123',
+        comment: undefined
+      });
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: true,
+        data: expect.objectContaining({ status: 'accepted', proposedBy: undefined }),
+        message: 'Your submission will be presented as poster'
+      }));
+    });
+
+    it('should pass the trimmed comment on when the author declines', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'accepted' }));
+      mockedProposalRepository.respond.mockResolvedValue({ ...pending, status: 'declined' } as never);
+
+      await controller.respondToPresentationProposal(
+        request(author, { decision: 'decline', comment: '  Our results need the full talk  ' }),
+        mockRes as Response
+      );
+
+      expect(mockedProposalRepository.respond).toHaveBeenCalledWith('proposal-123', {
+        decision: 'decline',
+        respondedBy: 'author-123',
+        comment: 'Our results need the full talk'
+      });
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Your answer has been sent to the program committee'
+      }));
+    });
+
+    it('should refuse a second answer to the same proposal', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'accepted' }));
+      mockedProposalRepository.respond.mockResolvedValue(null as never);
+
+      await controller.respondToPresentationProposal(request(author, { decision: 'accept' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(409);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'PROPOSAL_ALREADY_ANSWERED' })
+      }));
+    });
+
+    it('should not apply a proposal once the submission is no longer accepted', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'withdrawn' }));
+
+      await controller.respondToPresentationProposal(request(author, { decision: 'accept' }), mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'SUBMISSION_NOT_ACCEPTED' })
+      }));
+      expect(mockedProposalRepository.respond).not.toHaveBeenCalled();
+    });
+
+    it('should only let the submitting or corresponding author answer', async () => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission({ status: 'accepted' }));
+
+      await controller.respondToPresentationProposal(
+        request({ id: 'other-123', role: 'participant' }, { decision: 'accept' }),
+        mockRes as Response
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockedProposalRepository.respond).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('double-blind review', () => {
+    const reviewer = { id: 'reviewer-123', role: 'reviewer' };
+
+    const assignReviewer = (reviewMode: string) => {
+      mockSubmissionRepository.findById.mockResolvedValue(submission());
+      mockSubmissionRepository.getSubmissionAuthors.mockResolvedValue([]);
+      mockedReviewRepository.getSubmissionReviewers.mockResolvedValue([{ reviewerId: 'reviewer-123' }] as never);
+      mockedConferenceRepository.findReviewModeForSubmission.mockResolvedValue(reviewMode as never);
+    };
+
+    const responseData = () => (mockRes.json as jest.Mock).mock.calls[0][0] as { data: any };
+
+    describe('getStatusHistory', () => {
+      const history = [
+        {
+          id: 'history-1',
+          submissionId: 'submission-123',
+          fromStatus: 'under_review',
+          toStatus: 'revised',
+          changedBy: 'author-123',
+          changedByName: 'Jane Doe',
+          changedByRole: 'participant',
+          createdAt: new Date('2026-05-01T00:00:00.000Z')
+        }
+      ];
+
+      it('should not show the history to a reviewer who was not assigned', async () => {
+        assignReviewer('single_blind');
+        mockedReviewRepository.getSubmissionReviewers.mockResolvedValue([{ reviewerId: 'reviewer-456' }] as never);
+
+        await controller.getStatusHistory(request(reviewer), mockRes as Response);
+
+        expect(mockRes.status).toHaveBeenCalledWith(403);
+        expect(mockSubmissionRepository.findStatusHistory).not.toHaveBeenCalled();
+      });
+
+      it('should hide who changed the status from a double-blind reviewer', async () => {
+        assignReviewer('double_blind');
+        mockSubmissionRepository.findStatusHistory.mockResolvedValue(history);
+
+        await controller.getStatusHistory(request(reviewer), mockRes as Response);
+
+        const [entry] = responseData().data.history;
+        expect(entry.changedBy).toBeUndefined();
+        expect(entry.changedByName).toBeUndefined();
+        expect(entry.toStatus).toBe('revised');
+        expect(JSON.stringify(responseData())).not.toMatch(/author-123|Jane Doe/);
+      });
+
+      it('should show who changed the status to a single-blind reviewer', async () => {
+        assignReviewer('single_blind');
+        mockSubmissionRepository.findStatusHistory.mockResolvedValue(history);
+
+        await controller.getStatusHistory(request(reviewer), mockRes as Response);
+
+        expect(responseData().data.history[0]).toEqual(expect.objectContaining({
+          changedBy: 'author-123',
+          changedByName: 'Jane Doe'
+        }));
+      });
+    });
+
+    describe('getManuscriptVersions', () => {
+      it('should hide the uploader and the file name from a double-blind reviewer', async () => {
+        assignReviewer('double_blind');
+        mockedReviewRepository.getAssignedManuscriptVersionId.mockResolvedValue('version-1' as never);
+        mockedVersionRepository.findBySubmissionId.mockResolvedValue([{
+          id: 'version-1',
+          submissionId: 'submission-123',
+          versionNumber: 1,
+          filePath: 'uploads/manuscripts/v1.pdf',
+          originalName: 'Doe_Jane_final.pdf',
+          uploadedBy: 'author-123',
+          isCameraReady: false
+        }] as never);
+
+        await controller.getManuscriptVersions(
+          request(reviewer, {}, { submissionId: 'submission-123' }),
+          mockRes as Response
+        );
+
+        const [version] = responseData().data;
+        expect(version.originalName).toBe('submission-submissi.pdf');
+        expect(version).not.toHaveProperty('uploadedBy');
+      });
+    });
+
+    describe('submission files', () => {
+      const file = {
+        id: 'file-1234567',
+        submissionId: 'submission-123',
+        slot: 'supplementary',
+        originalName: 'Doe lab raw data.pdf',
+        filePath: 'uploads/files/data.pdf',
+        fileSize: 64,
+        mimeType: 'application/pdf',
+        sha256: 'a'.repeat(64),
+        visibility: 'reviewers',
+        uploadedBy: 'author-123'
+      };
+
+      it('should list the files of a double-blind review without the uploader or the file name', async () => {
+        assignReviewer('double_blind');
+        mockedFileRepository.findBySubmission.mockResolvedValue([file] as never);
+
+        await controller.getSubmissionFiles(request(reviewer), mockRes as Response);
+
+        const [listed] = responseData().data.files;
+        expect(listed.originalName).toBe('submission-submissi-supplementary-file-123.pdf');
+        expect(listed).not.toHaveProperty('uploadedBy');
+        expect(listed).not.toHaveProperty('filePath');
+      });
+
+      it('should serve a double-blind reviewer a copy without the PDF author metadata', async () => {
+        assignReviewer('double_blind');
+        mockedFileRepository.findById.mockResolvedValue(file as never);
+
+        const storedPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'submission-files-')), 'data.pdf');
+        fs.writeFileSync(storedPath, '%PDF-1.7\n<< /Author (Jane Doe) >>\n%%EOF\n', 'latin1');
+        (controller as any).fileService = {
+          getAbsolutePath: () => storedPath,
+          getFileInfo: async () => ({ exists: true, mimetype: 'application/pdf' })
+        };
+        const downloadRes = { ...mockRes, setHeader: jest.fn(), end: jest.fn() };
+
+        await controller.downloadSubmissionFile(
+          request(reviewer, {}, { id: 'submission-123', fileId: 'file-1234567' }),
+          downloadRes as unknown as Response
+        );
+
+        expect(downloadRes.setHeader).toHaveBeenCalledWith(
+          'Content-Disposition',
+          'attachment; filename="submission-submissi-supplementary-file-123.pdf"'
+        );
+        const served = ((downloadRes.end as jest.Mock).mock.calls[0][0] as Buffer).toString('latin1');
+        expect(served).not.toContain('Jane Doe');
+        fs.rmSync(path.dirname(storedPath), { recursive: true, force: true });
+      });
+    });
+  });
+});
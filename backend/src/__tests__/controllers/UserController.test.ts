@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Request, Response } from 'express';
+import { UserController } from '../../controllers/UserController';
+import { UserRepository } from '../../models/UserRepository';
+import { TrackRepository } from '../../models/TrackRepository';
+
+jest.mock('../../models/UserRepository', () => ({
+  UserRepository: { update: jest.fn() }
+}));
+jest.mock('../../models/TrackRepository', () => ({
+  TrackRepository: { findUnknownCodes: jest.fn() }
+}));
+jest.mock('../../models/RegistrationRepository', () => ({ RegistrationRepository: {} }));
+jest.mock('../../models/ConferenceRepository', () => ({ ConferenceRepository: {} }));
+
+const mockedUserRepository = UserRepository as jest.Mocked<typeof UserRepository>;
+const mockedTrackRepository = TrackRepository as jest.Mocked<typeof TrackRepository>;
+
+describe('UserController', () => {
+  let mockRes: Partial<Response>;
+
+  const request = (selectedSessions: unknown): Partial<Request> => ({
+    user: { userId: 'user-123', email: 'test@example.com', role: 'participant', participantType: 'regular_participant' },
+    body: { selectedSessions }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRes = {
+      status: jest.fn().mockReturnThis() as any,
+      json: jest.fn().mockReturnThis() as any
+    };
+  });
+
+  describe('updateSessions', () => {
+    it('should reject a well-formed track code missing from the catalogue', async () => {
+      mockedTrackRepository.findUnknownCodes.mockResolvedValue(['QUA'] as never);
+
+      await UserController.updateSessions(request(['CHE', 'QUA']) as Request, mockRes as Response);
+
+      expect(mockedTrackRepository.findUnknownCodes).toHaveBeenCalledWith(['CHE', 'QUA']);
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        error: expect.objectContaining({ code: 'INVALID_SESSION_TYPES', message: 'Invalid session types: QUA' })
+      }));
+      expect(mockedUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should store tracks that are in the catalogue', async () => {
+      mockedTrackRepository.findUnknownCodes.mockResolvedValue([] as never);
+      mockedUserRepository.update.mockResolvedValue({ id: 'user-123', selectedSessions: ['CHE'] } as never);
+
+      await UserController.updateSessions(request(['CHE']) as Request, mockRes as Response);
+
+      expect(mockedUserRepository.update).toHaveBeenCalledWith('user-123', { selectedSessions: ['CHE'] });
+      expect(mockRes.status).not.toHaveBeenCalledWith(400);
+    });
+  });
+});
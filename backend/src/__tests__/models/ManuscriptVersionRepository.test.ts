@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ManuscriptVersionRepository } from '../../models/ManuscriptVersionRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('ManuscriptVersionRepository', () => {
+  const client = { query: jest.fn<any>() };
+
+  const versionRow = (versionNumber: number) => ({
+    id: `version-${versionNumber}`,
+    submission_id: 'submission-123',
+    version_number: versionNumber,
+    file_path: `uploads/manuscripts/v${versionNumber}.pdf`,
+    original_name: 'manuscript.pdf',
+    file_size: '2048',
+    sha256: 'a'.repeat(64),
+    uploaded_by: 'author-123',
+    change_note: null,
+    is_camera_ready: false,
+    created_at: new Date('2026-05-01T00:00:00.000Z')
+  });
+
+  const versionData = {
+    submissionId: 'submission-123',
+    filePath: 'uploads/manuscripts/v3.pdf',
+    originalName: 'manuscript.pdf',
+    fileSize: 2048,
+    sha256: 'a'.repeat(64),
+    uploadedBy: 'author-123'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDatabase.transaction.mockImplementation((callback: any) => callback(client));
+  });
+
+  describe('create', () => {
+    it('should lock the submission before numbering the new version', async () => {
+      client.query.mockResolvedValue({ rows: [versionRow(3)] });
+
+      await ManuscriptVersionRepository.create(versionData);
+
+      const [lock, insert] = client.query.mock.calls;
+      expect(lock[0]).toMatch(/FROM submissions WHERE id = \$1 FOR UPDATE/);
+      expect(lock[1]).toEqual(['submission-123']);
+      expect(insert[0]).toMatch(/INSERT INTO manuscript_versions/);
+    });
+
+    it('should number the version one past the highest of the submission', async () => {
+      client.query.mockResolvedValue({ rows: [versionRow(3)] });
+
+      const version = await ManuscriptVersionRepository.create(versionData);
+
+      const insert = client.query.mock.calls[1][0] as string;
+      expect(insert).toContain('COALESCE(MAX(version_number), 0) + 1 FROM manuscript_versions WHERE submission_id = $1');
+      expect(version.versionNumber).toBe(3);
+      expect(version.fileSize).toBe(2048);
+    });
+
+    it('should make the new version the current manuscript in the same transaction', async () => {
+      client.query.mockResolvedValue({ rows: [versionRow(1)] });
+
+      await ManuscriptVersionRepository.create({ ...versionData, changeNote: 'First upload' });
+
+      expect(client.query.mock.calls[1][1]).toEqual([
+        'submission-123',
+        'uploads/manuscripts/v3.pdf',
+        'manuscript.pdf',
+        2048,
+        'a'.repeat(64),
+        'author-123',
+        'First upload'
+      ]);
+      expect(client.query).toHaveBeenLastCalledWith(
+        'UPDATE submissions SET manuscript_path = $1 WHERE id = $2',
+        ['uploads/manuscripts/v3.pdf', 'submission-123']
+      );
+      expect(mockedDatabase.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById', () => {
+    it('should only find a version within its own submission', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [] });
+
+      const version = await ManuscriptVersionRepository.findById('submission-456', 'version-1');
+
+      expect(mockedDatabase.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = $1 AND submission_id = $2'),
+        ['version-1', 'submission-456']
+      );
+      expect(version).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PresentationProposalRepository } from '../../models/PresentationProposalRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('PresentationProposalRepository', () => {
+  const client = { query: jest.fn<any>() };
+
+  const proposalRow = (status: string, authorComment: string | null = null) => ({
+    id: 'proposal-123',
+    submission_id: 'submission-123',
+    current_type: 'oral',
+    proposed_type: 'poster',
+    status,
+    proposed_by: 'admin-123',
+    admin_notes: null,
+    responded_by: 'author-123',
+    responded_at: new Date('2026-06-01T00:00:00.000Z'),
+    author_comment: authorComment,
+    created_at: new Date('2026-05-20T00:00:00.000Z'),
+    updated_at: new Date('2026-06-01T00:00:00.000Z')
+  });
+
+  // Answers the proposal update with the given rows and the submission lock with an accepted submission
+  const answerQueries = (proposalRows: any[]) => {
+    client.query.mockImplementation(async (query: string) => {
+      if (query.includes('UPDATE presentation_type_proposals')) {
+        return { rows: proposalRows };
+      }
+      if (query.includes('FOR UPDATE')) {
+        return { rows: [{ status: 'accepted' }] };
+      }
+      return { rows: [] };
+    });
+  };
+
+  const queriesMatching = (pattern: string) =>
+    client.query.mock.calls.filter(call => (call[0] as string).includes(pattern));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDatabase.transaction.mockImplementation((callback: any) => callback(client));
+  });
+
+  describe('respond', () => {
+    it('should switch the presentation type and record the change when the author accepts', async () => {
+      answerQueries([proposalRow('accepted')]);
+
+      const proposal = await PresentationProposalRepository.respond('proposal-123', {
+        decision: 'accept',
+        respondedBy: 'author-123'
+      });
+
+      expect(proposal).toEqual(expect.objectContaining({ status: 'accepted', proposedType: 'poster' }));
+      expect(queriesMatching('UPDATE presentation_type_proposals')[0][1]).toEqual(['accepted', 'author-123', null, 'proposal-123']);
+      expect(queriesMatching('UPDATE submissions SET presentation_type')[0][1]).toEqual(['poster', 'submission-123']);
+
+      const [history] = queriesMatching('INSERT INTO submission_status_history');
+      expect(history[1]).toEqual([
+        'submission-123',
+        'accepted',
+        'accepted',
+        'author-123',
+        'Author accepted presenting as poster instead of oral',
+        null
+      ]);
+    });
+
+    it('should keep the presentation type and record the comment when the author declines', async () => {
+      answerQueries([proposalRow('declined', 'Our results need the full talk')]);
+
+      const proposal = await PresentationProposalRepository.respond('proposal-123', {
+        decision: 'decline',
+        respondedBy: 'author-123',
+        comment: 'Our results need the full talk'
+      });
+
+      expect(proposal).toEqual(expect.objectContaining({
+        status: 'declined',
+        authorComment: 'Our results need the full talk'
+      }));
+      expect(queriesMatching('UPDATE presentation_type_proposals')[0][1]).toEqual([
+        'declined',
+        'author-123',
+        'Our results need the full talk',
+        'proposal-123'
+      ]);
+      expect(queriesMatching('UPDATE submissions SET presentation_type')).toHaveLength(0);
+
+      const [history] = queriesMatching('INSERT INTO submission_status_history');
+      expect(history[1][4]).toBe('Author declined presenting as poster; kept oral: Our results need the full talk');
+    });
+
+    it('should only answer a pending proposal once', async () => {
+      answerQueries([]);
+
+      const proposal = await PresentationProposalRepository.respond('proposal-123', {
+        decision: 'accept',
+        respondedBy: 'author-123'
+      });
+
+      expect(proposal).toBeNull();
+      expect(queriesMatching('UPDATE presentation_type_proposals')[0][0]).toContain("status = 'pending'");
+      expect(queriesMatching('UPDATE submissions SET presentation_type')).toHaveLength(0);
+      expect(queriesMatching('INSERT INTO submission_status_history')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { RegistrationRepository } from '../../models/RegistrationRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('RegistrationRepository', () => {
+  const registrationRow = {
+    id: 'registration-123',
+    conference_id: 'conference-2025',
+    user_id: 'user-123',
+    participant_type: 'student',
+    payment_status: 'payment_verified',
+    registration_fee: '150.00',
+    registered_at: new Date('2025-03-01T00:00:00.000Z'),
+    created_at: new Date('2025-03-01T00:00:00.000Z'),
+    updated_at: new Date('2025-04-01T00:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updatePaymentStatus', () => {
+    it('should only update the registration for the given edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [registrationRow] });
+
+      const registration = await RegistrationRepository.updatePaymentStatus(
+        'conference-2025',
+        'user-123',
+        'payment_verified'
+      );
+
+      const [query, values] = mockedDatabase.query.mock.calls[0];
+      expect(query).toContain('WHERE conference_id = $2 AND user_id = $3');
+      expect(values).toEqual(['payment_verified', 'conference-2025', 'user-123']);
+      expect(registration).toEqual(expect.objectContaining({
+        conferenceId: 'conference-2025',
+        paymentStatus: 'payment_verified',
+        registrationFee: 150
+      }));
+    });
+
+    it('should return null when the user is not registered for the edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [] });
+
+      const registration = await RegistrationRepository.updatePaymentStatus(
+        'conference-2026',
+        'user-123',
+        'payment_verified'
+      );
+
+      expect(registration).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { ReviewRepository } from '../../models/ReviewRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('ReviewRepository', () => {
+  const client = { query: jest.fn<any>() };
+
+  const reviewRow = {
+    id: 'review-123',
+    submission_id: 'submission-123',
+    reviewer_id: 'reviewer-123',
+    round: 1,
+    is_completed: false,
+    created_at: new Date('2026-05-01T00:00:00.000Z'),
+    updated_at: new Date('2026-05-01T00:00:00.000Z')
+  };
+
+  const overrideRow = {
+    id: 'override-123',
+    submission_id: 'submission-123',
+    reviewer_id: 'reviewer-123',
+    review_id: 'review-123',
+    conflicts: [{ type: 'declared', detail: 'Former PhD advisor' }],
+    reason: 'Only expert on the method',
+    overridden_by: 'admin-123',
+    created_at: new Date('2026-05-01T00:00:00.000Z')
+  };
+
+  const conflictOverride = {
+    conflicts: overrideRow.conflicts as any,
+    reason: 'Only expert on the method',
+    overriddenBy: 'admin-123'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDatabase.transaction.mockImplementation((callback: any) => callback(client));
+  });
+
+  describe('assignReviewer', () => {
+    it('should record an overridden conflict in the same transaction as the assignment', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [reviewRow] })
+        .mockResolvedValueOnce({ rows: [overrideRow] });
+
+      const { assignment, override } = await ReviewRepository.assignReviewer(
+        'submission-123',
+        'reviewer-123',
+        1,
+        conflictOverride
+      );
+
+      expect(mockedDatabase.transaction).toHaveBeenCalledTimes(1);
+      expect(mockedDatabase.query).not.toHaveBeenCalled();
+      expect(client.query.mock.calls[0][0]).toContain('INSERT INTO reviews');
+      expect(client.query.mock.calls[1][0]).toContain('INSERT INTO conflict_overrides');
+      expect(client.query.mock.calls[1][1]).toEqual([
+        'submission-123',
+        'reviewer-123',
+        'review-123',
+        JSON.stringify(conflictOverride.conflicts),
+        'Only expert on the method',
+        'admin-123'
+      ]);
+      expect(assignment.id).toBe('review-123');
+      expect(override).toEqual(expect.objectContaining({ id: 'override-123', reviewId: 'review-123' }));
+    });
+
+    it('should fail the assignment when the override cannot be recorded', async () => {
+      client.query
+        .mockResolvedValueOnce({ rows: [reviewRow] })
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(ReviewRepository.assignReviewer('submission-123', 'reviewer-123', 1, conflictOverride))
+        .rejects.toThrow('connection lost');
+    });
+
+    it('should not record an override for a conflict-free assignment', async () => {
+      client.query.mockResolvedValueOnce({ rows: [reviewRow] });
+
+      const { override } = await ReviewRepository.assignReviewer('submission-123', 'reviewer-123', 2);
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][1]).toEqual(['submission-123', 'reviewer-123', 2]);
+      expect(override).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SessionPolicyRepository } from '../../models/SessionPolicyRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('SessionPolicyRepository', () => {
+  const pastEditionId = '7d4c1f0e-2b3a-4c5d-8e9f-0a1b2c3d4e5f';
+
+  const policyRow = {
+    id: 'policy-123',
+    session_type: 'symposium',
+    min_abstract_words: 100,
+    max_abstract_words: 250,
+    min_keywords: 3,
+    max_keywords: 6,
+    allowed_presentation_types: '{oral}',
+    updated_by: 'admin-123',
+    created_at: new Date('2026-05-01T00:00:00.000Z'),
+    updated_at: new Date('2026-05-01T00:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should list the policies of the requested edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [policyRow] });
+
+      const policies = await SessionPolicyRepository.findAll(pastEditionId);
+
+      expect(mockedDatabase.query).toHaveBeenCalledWith(
+        expect.stringContaining('sp.conference_id = COALESCE($1::uuid, active_conference_id())'),
+        [pastEditionId]
+      );
+      expect(policies[0].allowedPresentationTypes).toEqual(['oral']);
+    });
+
+    it('should fall back to the active conference without an edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [] });
+
+      await SessionPolicyRepository.findAll();
+
+      expect(mockedDatabase.query.mock.calls[0][1]).toEqual([null]);
+    });
+  });
+
+  describe('upsert', () => {
+    it('should merge the stored rules and write the policy of the requested edition', async () => {
+      mockedDatabase.query
+        .mockResolvedValueOnce({ rows: [policyRow] })
+        .mockResolvedValueOnce({ rows: [{ ...policyRow, max_abstract_words: 300 }] });
+
+      const policy = await SessionPolicyRepository.upsert(
+        'symposium',
+        { maxAbstractWords: 300 },
+        'admin-123',
+        pastEditionId
+      );
+
+      const [lookup, upsert] = mockedDatabase.query.mock.calls;
+      expect(lookup[1]).toEqual(['symposium', pastEditionId]);
+      expect(upsert[0]).toContain('COALESCE($8::uuid, active_conference_id())');
+      expect(upsert[1]).toEqual(['symposium', 100, 300, 3, 6, ['oral'], 'admin-123', pastEditionId]);
+      expect(policy.maxAbstractWords).toBe(300);
+    });
+  });
+});
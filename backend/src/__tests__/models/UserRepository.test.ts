@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { UserRepository } from '../../models/UserRepository';
+import { Database } from '../../database/connection';
+
+jest.mock('../../database/connection', () => ({
+  Database: { query: jest.fn(), transaction: jest.fn() }
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+
+describe('UserRepository', () => {
+  const userRow = {
+    id: 'user-123',
+    email: 'ada@example.com',
+    password_hash: 'hash',
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    affiliation: 'Analytical Society',
+    country: 'GB',
+    participant_type: 'regular_participant',
+    role: 'participant',
+    is_active: true,
+    expertise: null,
+    created_at: new Date('2026-01-01T00:00:00.000Z'),
+    updated_at: new Date('2026-01-01T00:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findById', () => {
+    it('should read the registration of the current edition', async () => {
+      mockedDatabase.query.mockResolvedValue({ rows: [] });
+
+      await UserRepository.findById('user-123');
+
+      expect(mockedDatabase.query.mock.calls[0][0]).toContain(
+        'LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = active_conference_id()'
+      );
+    });
+
+    it('should treat a user without a registration for the edition as not paid', async () => {
+      mockedDatabase.query.mockResolvedValue({
+        rows: [{ ...userRow, payment_status: null, registration_fee: null, is_registered: false }]
+      });
+
+      const user = await UserRepository.findById('user-123');
+
+      expect(user).toEqual(expect.objectContaining({
+        isRegistered: false,
+        paymentStatus: 'not_paid',
+        registrationFee: 0
+      }));
+    });
+
+    it('should take the payment status from the registration', async () => {
+      mockedDatabase.query.mockResolvedValue({
+        rows: [{ ...userRow, payment_status: 'payment_submitted', registration_fee: '80.50', is_registered: true }]
+      });
+
+      const user = await UserRepository.findById('user-123');
+
+      expect(user).toEqual(expect.objectContaining({
+        isRegistered: true,
+        paymentStatus: 'payment_submitted',
+        registrationFee: 80.5
+      }));
+    });
+  });
+});
@@ -70,7 +70,7 @@ describe('Validation Models', () => {
     });
 
     it('should reject invalid session types', () => {
-      const invalidData = { ...validUserData, selectedSessions: ['INVALID'] };
+      const invalidData = { ...validUserData, selectedSessions: ['NOT A TRACK'] };
       const result = validateUserData(invalidData);
       
       expect(result.isValid).toBe(false);
@@ -122,8 +122,8 @@ These findings show promising applications in various domains.`,
       expect(result.errors).toBeDefined();
     });
 
-    it('should reject invalid session type', () => {
-      const invalidData = { ...validSubmissionData, sessionType: 'INVALID' };
+    it('should reject malformed session codes', () => {
+      const invalidData = { ...validSubmissionData, sessionType: 'NOT A TRACK' };
       const result = validateSubmissionData(invalidData);
       
       expect(result.isValid).toBe(false);
@@ -308,7 +308,7 @@ These findings show promising applications in various domains.`,
     });
 
     it('should reject invalid session type', () => {
-      const invalidData = { ...validSessionData, type: 'INVALID' };
+      const invalidData = { ...validSessionData, type: '9XYZ' };
       const result = validateSessionData(invalidData);
       
       expect(result.isValid).toBe(false);
@@ -423,6 +423,32 @@ These findings show promising applications in various domains.`,
       });
     });
 
+    describe('submissionValidation.saveDraft', () => {
+      it('should accept an incomplete draft', () => {
+        const draftData = {
+          title: 'Work in',
+          abstract: '',
+          keywords: ['ml'],
+          sessionType: null,
+          authors: [{ name: 'John Doe', affiliation: '', email: '', authorOrder: 1 }]
+        };
+
+        const { error, value } = submissionValidation.saveDraft.validate(draftData);
+        expect(error).toBeUndefined();
+        expect(value.authors[0].isCorresponding).toBe(false);
+      });
+
+      it('should accept an empty draft', () => {
+        const { error } = submissionValidation.saveDraft.validate({});
+        expect(error).toBeUndefined();
+      });
+
+      it('should still reject malformed session codes', () => {
+        const { error } = submissionValidation.saveDraft.validate({ sessionType: '9XYZ' });
+        expect(error).toBeDefined();
+      });
+    });
+
     describe('fileValidation', () => {
       it('should have correct manuscript validation rules', () => {
         expect(fileValidation.manuscript.allowedTypes).toContain('application/pdf');
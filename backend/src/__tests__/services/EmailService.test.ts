@@ -122,8 +122,13 @@ describe('EmailService', () => {
   });
 
   describe('sendWelcomeEmail', () => {
+    const mockTracks = [
+      { code: 'CHE', name: 'Computational Chemistry' },
+      { code: 'CSE', name: 'High Performance Computing/Computer Science/Engineering' }
+    ];
+
     it('should send welcome email with conference information', async () => {
-      const jobId = await emailService.sendWelcomeEmail(mockUser);
+      const jobId = await emailService.sendWelcomeEmail(mockUser, mockTracks);
 
       expect(jobId).toBeTruthy();
       expect(mockTransporter.sendMail).toHaveBeenCalledWith(
@@ -137,7 +142,7 @@ describe('EmailService', () => {
     });
 
     it('should include session information in welcome email', async () => {
-      await emailService.sendWelcomeEmail(mockUser);
+      await emailService.sendWelcomeEmail(mockUser, mockTracks);
 
       const sendMailCall = mockTransporter.sendMail.mock.calls[0][0];
       expect(sendMailCall.html).toContain('Computational Chemistry');
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { WithdrawalService } from '../../services/WithdrawalService';
+import { Database } from '../../database/connection';
+import { SubmissionRepository } from '../../models/SubmissionRepository';
+import { ReviewRepository } from '../../models/ReviewRepository';
+
+jest.mock('../../database/connection', () => ({
+  Database: { transaction: jest.fn() }
+}));
+jest.mock('../../models/SubmissionRepository', () => ({
+  SubmissionRepository: { transitionStatus: jest.fn() }
+}));
+jest.mock('../../models/ReviewRepository', () => ({
+  ReviewRepository: { closePendingAssignments: jest.fn(), getSubmissionReviewers: jest.fn() }
+}));
+jest.mock('../../services/EmailService', () => ({
+  EmailService: jest.fn(() => ({ sendSubmissionWithdrawnEmail: jest.fn() }))
+}));
+
+const mockedDatabase = Database as jest.Mocked<typeof Database>;
+const mockedSubmissionRepository = SubmissionRepository as jest.Mocked<typeof SubmissionRepository>;
+const mockedReviewRepository = ReviewRepository as jest.Mocked<typeof ReviewRepository>;
+
+describe('WithdrawalService', () => {
+  const client = { query: jest.fn() };
+  const change = { changedBy: 'author-123', reason: 'Results could not be reproduced' };
+  let service: WithdrawalService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedDatabase.transaction.mockImplementation((callback: any) => callback(client));
+    mockedReviewRepository.getSubmissionReviewers.mockResolvedValue([]);
+    service = new WithdrawalService();
+  });
+
+  it('should withdraw the submission and close its open assignments in one transaction', async () => {
+    mockedSubmissionRepository.transitionStatus.mockResolvedValue({ id: 'submission-123', status: 'withdrawn' } as never);
+    mockedReviewRepository.closePendingAssignments.mockResolvedValue(2);
+
+    const submission = await service.withdraw('submission-123', change);
+
+    expect(mockedDatabase.transaction).toHaveBeenCalledTimes(1);
+    expect(mockedSubmissionRepository.transitionStatus).toHaveBeenCalledWith(client, 'submission-123', 'withdrawn', change);
+    expect(mockedReviewRepository.closePendingAssignments).toHaveBeenCalledWith(client, 'submission-123');
+    expect(submission).toEqual({ id: 'submission-123', status: 'withdrawn' });
+  });
+
+  it('should fail the withdrawal when the assignments cannot be closed', async () => {
+    mockedSubmissionRepository.transitionStatus.mockResolvedValue({ id: 'submission-123', status: 'withdrawn' } as never);
+    mockedReviewRepository.closePendingAssignments.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.withdraw('submission-123', change)).rejects.toThrow('connection lost');
+    expect(mockedReviewRepository.getSubmissionReviewers).not.toHaveBeenCalled();
+  });
+
+  it('should leave the assignments alone when the submission does not exist', async () => {
+    mockedSubmissionRepository.transitionStatus.mockResolvedValue(null as never);
+
+    await expect(service.withdraw('missing-123', change)).resolves.toBeNull();
+    expect(mockedReviewRepository.closePendingAssignments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+import { ABSTRACT_FIGURE_RULES, readImageDimensions, fitImage } from '../../utils/abstractFigures';
+
+const pngHeader = (width: number, height: number): Buffer => {
+  const buffer = Buffer.alloc(33);
+  Buffer.from('89504e470d0a1a0a', 'hex').copy(buffer, 0);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+};
+
+const jpegHeader = (width: number, height: number): Buffer => {
+  const app0 = Buffer.from('ffe000104a46494600010100000100010000', 'hex');
+  const sof0 = Buffer.alloc(19);
+  sof0.writeUInt16BE(0xffc0, 0);
+  sof0.writeUInt16BE(17, 2);
+  sof0[4] = 8;
+  sof0.writeUInt16BE(height, 5);
+  sof0.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from('ffd8', 'hex'), app0, sof0]);
+};
+
+describe('Abstract Figure Utils', () => {
+  describe('ABSTRACT_FIGURE_RULES', () => {
+    it('should only accept PNG and JPEG images', () => {
+      expect(ABSTRACT_FIGURE_RULES.extensions).toEqual(['.png', '.jpg', '.jpeg']);
+      expect(ABSTRACT_FIGURE_RULES.mimeTypes).toEqual(['image/png', 'image/jpeg']);
+    });
+  });
+
+  describe('readImageDimensions', () => {
+    it('should read PNG dimensions from the IHDR chunk', () => {
+      expect(readImageDimensions(pngHeader(800, 600))).toEqual({ width: 800, height: 600 });
+    });
+
+    it('should read JPEG dimensions from the start-of-frame segment', () => {
+      expect(readImageDimensions(jpegHeader(1024, 768))).toEqual({ width: 1024, height: 768 });
+    });
+
+    it('should return null for other data', () => {
+      expect(readImageDimensions(Buffer.from('%PDF-1.7 not an image'))).toBeNull();
+      expect(readImageDimensions(Buffer.from('ffd8ff', 'hex'))).toBeNull();
+    });
+  });
+
+  describe('fitImage', () => {
+    it('should scale large images down keeping the aspect ratio', () => {
+      expect(fitImage({ width: 2000, height: 1000 }, 500, 500)).toEqual({ width: 500, height: 250 });
+      expect(fitImage({ width: 1000, height: 2000 }, 500, 500)).toEqual({ width: 250, height: 500 });
+    });
+
+    it('should never enlarge small images', () => {
+      expect(fitImage({ width: 200, height: 100 }, 500, 500)).toEqual({ width: 200, height: 100 });
+    });
+  });
+});
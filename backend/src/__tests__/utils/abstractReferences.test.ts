@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_ABSTRACT_REFERENCES,
+  normalizeDoi,
+  normalizeReferences,
+  formatReference,
+  referencesToHtml
+} from '../../utils/abstractReferences';
+
+describe('Abstract Reference Utils', () => {
+  describe('normalizeDoi', () => {
+    it('should accept DOIs as links, labels or plain text', () => {
+      expect(normalizeDoi('https://doi.org/10.1021/ja00001a001')).toBe('10.1021/ja00001a001');
+      expect(normalizeDoi('http://dx.doi.org/10.1021/ja00001a001')).toBe('10.1021/ja00001a001');
+      expect(normalizeDoi('doi: 10.1021/ja00001a001')).toBe('10.1021/ja00001a001');
+      expect(normalizeDoi(' 10.1021/ja00001a001 ')).toBe('10.1021/ja00001a001');
+    });
+
+    it('should reject values that are not DOIs', () => {
+      expect(normalizeDoi('not a doi')).toBeUndefined();
+      expect(normalizeDoi('11.1021/abc')).toBeUndefined();
+      expect(normalizeDoi(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeReferences', () => {
+    it('should tidy entries and drop those without a title', () => {
+      const references = normalizeReferences([
+        { authors: ' Smith,  J. ', title: ' A   study ', source: 'J. Chem. ', year: 2020, doi: 'doi:10.1000/xyz', url: '' },
+        { authors: 'Doe, A.', title: '   ' },
+        { authors: 'Lee, K.', title: 'Web page', url: 'javascript:alert(1)' }
+      ]);
+
+      expect(references).toEqual([
+        { authors: 'Smith, J.', title: 'A study', source: 'J. Chem.', year: 2020, doi: '10.1000/xyz' },
+        { authors: 'Lee, K.', title: 'Web page' }
+      ]);
+    });
+
+    it('should cap the number of references', () => {
+      const many = Array.from({ length: MAX_ABSTRACT_REFERENCES + 5 }, (_, i) => ({ authors: 'A.', title: `Work ${i}` }));
+      expect(normalizeReferences(many)).toHaveLength(MAX_ABSTRACT_REFERENCES);
+      expect(normalizeReferences(null)).toEqual([]);
+    });
+  });
+
+  describe('formatReference', () => {
+    it('should format a full citation with the DOI link', () => {
+      expect(formatReference({
+        authors: 'Smith, J.; Doe, A.',
+        title: 'Catalysis at scale.',
+        source: 'Nature Chemistry',
+        year: 2021,
+        doi: '10.1038/nchem.1234'
+      })).toBe('Smith, J.; Doe, A. (2021). Catalysis at scale. Nature Chemistry. https://doi.org/10.1038/nchem.1234');
+    });
+
+    it('should leave out missing parts and fall back to the URL', () => {
+      expect(formatReference({ authors: '', title: 'Dataset', url: 'https://example.org/data' }))
+        .toBe('Dataset. https://example.org/data');
+    });
+  });
+
+  describe('referencesToHtml', () => {
+    it('should render a numbered list with escaped text and links', () => {
+      const html = referencesToHtml([
+        { authors: 'Smith, J.', title: 'Na<sup>+</sup> & K+ channels', source: 'Cell', year: 2019, doi: '10.1016/j.cell.2019.01.001' }
+      ]);
+
+      expect(html.startsWith('<ol class="abstract-references"><li>')).toBe(true);
+      expect(html).toContain('Na&lt;sup&gt;+&lt;/sup&gt; &amp; K+ channels.');
+      expect(html).toContain('<em>Cell</em>.');
+      expect(html).toContain('<a href="https://doi.org/10.1016/j.cell.2019.01.001">');
+    });
+
+    it('should render nothing for an empty list', () => {
+      expect(referencesToHtml([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatAffiliation,
+  getAffiliationLabel,
+  numberAffiliations
+} from '../../utils/affiliations';
+
+describe('Affiliation Utils', () => {
+  describe('formatAffiliation', () => {
+    it('should join the parts that are present', () => {
+      expect(formatAffiliation({
+        department: 'School of Chemistry',
+        institution: 'Suranaree University of Technology',
+        country: 'Thailand'
+      })).toBe('School of Chemistry, Suranaree University of Technology, Thailand');
+    });
+  });
+
+  describe('getAffiliationLabel', () => {
+    it('should prefer the curated organization name', () => {
+      expect(getAffiliationLabel({
+        affiliation: 'SUT',
+        institution: 'SUT',
+        organizationId: 'org-1',
+        organizationName: 'Suranaree University of Technology'
+      })).toBe('Suranaree University of Technology');
+    });
+
+    it('should fall back to the free-text affiliation', () => {
+      expect(getAffiliationLabel({ affiliation: ' Kasetsart University ' })).toBe('Kasetsart University');
+    });
+  });
+
+  describe('numberAffiliations', () => {
+    it('should give authors of the same organization the same number', () => {
+      const result = numberAffiliations([
+        { affiliation: 'SUT', organizationId: 'org-1', organizationName: 'Suranaree University of Technology' },
+        { affiliation: 'Mahidol University' },
+        { affiliation: 'Suranaree University of Technology', organizationId: 'org-1', organizationName: 'Suranaree University of Technology' }
+      ]);
+
+      expect(result.affiliations).toEqual(['Suranaree University of Technology', 'Mahidol University']);
+      expect(result.authorAffiliations).toEqual([1, 2, 1]);
+    });
+
+    it('should treat different departments of one organization as separate affiliations', () => {
+      const result = numberAffiliations([
+        { affiliation: '', organizationId: 'org-1', organizationName: 'SUT', department: 'Chemistry' },
+        { affiliation: '', organizationId: 'org-1', organizationName: 'SUT', department: 'Physics' }
+      ]);
+
+      expect(result.authorAffiliations).toEqual([1, 2]);
+    });
+
+    it('should match free-text affiliations ignoring case and spacing', () => {
+      const result = numberAffiliations([
+        { affiliation: 'Chulalongkorn University' },
+        { affiliation: 'chulalongkorn  university.' }
+      ]);
+
+      expect(result.affiliations).toHaveLength(1);
+      expect(result.authorAffiliations).toEqual([1, 1]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildAffinityMatrix, inverseDocumentFrequency, AFFINITY_TERMS_LIMIT } from '../../utils/affinity';
+
+const doc = (id: string, text: string) => ({ id, tokens: text.split(' ') });
+
+const scoreOf = (entries: ReturnType<typeof buildAffinityMatrix>, submissionId: string, reviewerId: string) =>
+  entries.find(entry => entry.submissionId === submissionId && entry.reviewerId === reviewerId)?.score ?? 0;
+
+describe('Affinity Utils', () => {
+  describe('inverseDocumentFrequency', () => {
+    it('should weigh rare terms above common ones', () => {
+      const idf = inverseDocumentFrequency([
+        new Map([['protein', 1], ['model', 1]]),
+        new Map([['model', 2]]),
+        new Map([['model', 1]])
+      ]);
+
+      expect(idf.get('protein')!).toBeGreaterThan(idf.get('model')!);
+      expect(idf.get('model')).toBe(1);
+    });
+  });
+
+  describe('buildAffinityMatrix', () => {
+    it('should rank the reviewer whose profile shares the submission topic highest', () => {
+      const entries = buildAffinityMatrix(
+        [doc('p1', 'protein folding simulation on gpu clusters')],
+        [
+          doc('r1', 'molecular dynamics of protein folding on gpu'),
+          doc('r2', 'gpu clusters for weather simulation'),
+          doc('r3', 'corrosion of steel alloys')
+        ]
+      );
+
+      expect(scoreOf(entries, 'p1', 'r1')).toBeGreaterThan(scoreOf(entries, 'p1', 'r2'));
+      expect(scoreOf(entries, 'p1', 'r2')).toBeGreaterThan(0);
+      expect(entries.some(entry => entry.reviewerId === 'r3')).toBe(false);
+    });
+
+    it('should score identical texts 1 and stay within [0, 1]', () => {
+      const entries = buildAffinityMatrix(
+        [doc('p1', 'graph neural networks'), doc('p2', 'neural networks for control')],
+        [doc('r1', 'graph neural networks'), doc('r2', 'optimal control')]
+      );
+
+      expect(scoreOf(entries, 'p1', 'r1')).toBe(1);
+      for (const entry of entries) {
+        expect(entry.score).toBeGreaterThan(0);
+        expect(entry.score).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should explain a score with the strongest shared terms first', () => {
+      const [entry] = buildAffinityMatrix(
+        [doc('p1', 'catalysis catalysis zeolite model')],
+        [doc('r1', 'zeolite catalysis model'), doc('r2', 'model')]
+      ).filter(candidate => candidate.reviewerId === 'r1');
+
+      expect(entry.terms).toEqual(['catalysis', 'zeolite', 'model']);
+    });
+
+    it('should report a limited number of terms', () => {
+      const text = 'alpha beta gamma delta epsilon zeta theta';
+      const [entry] = buildAffinityMatrix([doc('p1', text)], [doc('r1', text)]);
+
+      expect(entry.terms).toHaveLength(AFFINITY_TERMS_LIMIT);
+    });
+
+    it('should ignore single letters and bare numbers', () => {
+      expect(buildAffinityMatrix([doc('p1', 'a 2024 x')], [doc('r1', 'a 2024 x')])).toEqual([]);
+    });
+  });
+});
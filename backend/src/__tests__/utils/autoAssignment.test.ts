@@ -0,0 +1,156 @@
+import { describe, it, expect } from '@jest/globals';
+import { scoreMatch, planAssignments, checkCommit, pairKey } from '../../utils/autoAssignment';
+
+const submission = (id: string, sessionType: string, keywords: string[], assignedReviewerIds: string[] = []) => ({
+  id,
+  sessionType,
+  keywords,
+  assignedReviewerIds
+});
+
+const reviewer = (id: string, expertise: string[], currentLoad = 0) => ({ id, expertise, currentLoad });
+
+const options = { reviewersPerPaper: 1, maxLoad: 5, requireSessionExpertise: false };
+
+const assignedTo = (plan: ReturnType<typeof planAssignments>, submissionId: string) =>
+  plan.pairs.filter(pair => pair.submissionId === submissionId).map(pair => pair.reviewerId).sort();
+
+describe('Auto Assignment Utils', () => {
+  describe('scoreMatch', () => {
+    it('should weigh the track and the share of matching keywords', () => {
+      const paper = submission('p1', 'BIO', ['Protein Folding', 'GPU', 'molecular dynamics', 'gpu']);
+
+      expect(scoreMatch(reviewer('r1', ['bio', 'protein folding', 'gpu']), paper)).toEqual({
+        quality: 0.8,
+        sessionMatch: true,
+        matchedKeywords: ['protein folding', 'gpu']
+      });
+      expect(scoreMatch(reviewer('r2', ['CHE']), paper).quality).toBe(0);
+    });
+
+    it('should use the text affinity in place of the keyword share when given', () => {
+      const paper = submission('p1', 'BIO', ['gpu']);
+
+      expect(scoreMatch(reviewer('r1', ['bio', 'gpu']), paper, 0.5).quality).toBe(0.7);
+      expect(scoreMatch(reviewer('r2', ['CHE']), paper, 0.5).quality).toBe(0.3);
+    });
+  });
+
+  describe('planAssignments', () => {
+    it('should maximize total quality rather than assigning greedily', () => {
+      // Going one submission at a time would give r1 to p1 (0.6 vs 0.4) and leave p2 with r2 at 0
+      const papers = [submission('p1', 'BIO', ['a']), submission('p2', 'CHE', ['b'])];
+      const reviewers = [reviewer('r1', ['a', 'b', 'CHE']), reviewer('r2', ['BIO'])];
+      const plan = planAssignments(papers, reviewers, { ...options, maxLoad: 1 });
+
+      expect(assignedTo(plan, 'p1')).toEqual(['r2']);
+      expect(assignedTo(plan, 'p2')).toEqual(['r1']);
+      expect(plan.totalQuality).toBe(1.4);
+    });
+
+    it('should fill the reviewers per paper without exceeding any reviewer load', () => {
+      const papers = ['p1', 'p2', 'p3'].map(id => submission(id, 'BIO', ['a']));
+      const reviewers = [reviewer('r1', ['BIO', 'a'], 1), reviewer('r2', ['BIO']), reviewer('r3', ['a'])];
+      const plan = planAssignments(papers, reviewers, { ...options, reviewersPerPaper: 2, maxLoad: 2 });
+
+      expect(plan.pairs).toHaveLength(5);
+      expect(plan.unfilled).toEqual([{ submissionId: expect.any(String), missing: 1 }]);
+      expect(plan.pairs.filter(pair => pair.reviewerId === 'r1')).toHaveLength(1);
+      expect(plan.pairs.filter(pair => pair.reviewerId === 'r2')).toHaveLength(2);
+    });
+
+    it('should spread equally good assignments across reviewers', () => {
+      const papers = ['p1', 'p2', 'p3', 'p4'].map(id => submission(id, 'BIO', ['a']));
+      const plan = planAssignments(papers, [reviewer('r1', ['BIO']), reviewer('r2', ['BIO'])], options);
+
+      expect(plan.pairs.filter(pair => pair.reviewerId === 'r1')).toHaveLength(2);
+      expect(plan.pairs.filter(pair => pair.reviewerId === 'r2')).toHaveLength(2);
+    });
+
+    it('should never propose conflicted pairs or reviewers already on the submission', () => {
+      const papers = [submission('p1', 'BIO', ['a'], ['r1'])];
+      const reviewers = [reviewer('r1', ['BIO', 'a']), reviewer('r2', ['BIO', 'a']), reviewer('r3', ['BIO'])];
+      const plan = planAssignments(papers, reviewers, { ...options, reviewersPerPaper: 3 }, new Set([pairKey('p1', 'r2')]));
+
+      expect(assignedTo(plan, 'p1')).toEqual(['r3']);
+      expect(plan.unfilled).toEqual([{ submissionId: 'p1', missing: 1 }]);
+    });
+
+    it('should only use reviewers with expertise in the track when required', () => {
+      const papers = [submission('p1', 'BIO', ['a'])];
+      const reviewers = [reviewer('r1', ['a']), reviewer('r2', ['bio'])];
+
+      expect(assignedTo(planAssignments(papers, reviewers, options), 'p1')).toEqual(['r1']);
+      expect(assignedTo(planAssignments(papers, reviewers, { ...options, requireSessionExpertise: true }), 'p1')).toEqual(['r2']);
+    });
+
+    it('should prefer the reviewer with the higher text affinity', () => {
+      const papers = [submission('p1', 'BIO', ['a'])];
+      const reviewers = [reviewer('r1', ['BIO', 'a']), reviewer('r2', ['BIO'])];
+      const affinities = new Map([[pairKey('p1', 'r2'), 0.9]]);
+
+      expect(assignedTo(planAssignments(papers, reviewers, options, new Set(), affinities), 'p1')).toEqual(['r2']);
+    });
+
+    it('should leave fully reviewed submissions alone', () => {
+      const plan = planAssignments([submission('p1', 'BIO', [], ['r1', 'r2'])], [reviewer('r3', ['BIO'])], { ...options, reviewersPerPaper: 2 });
+
+      expect(plan).toEqual({ pairs: [], unfilled: [], totalQuality: 0 });
+    });
+  });
+
+  describe('checkCommit', () => {
+    const limits = { reviewersPerPaper: 2, maxLoad: 2 };
+    const pair = (submissionId: string, reviewerId: string) => ({ submissionId, reviewerId });
+
+    it('should accept pairs within the limits', () => {
+      const result = checkCommit(
+        [pair('p1', 'r1'), pair('p1', 'r2')],
+        [submission('p1', 'BIO', [])],
+        [reviewer('r1', []), reviewer('r2', [], 1)],
+        limits
+      );
+
+      expect(result).toEqual({ accepted: [pair('p1', 'r1'), pair('p1', 'r2')], skipped: [] });
+    });
+
+    it('should not let an edited proposal exceed the reviewer load', () => {
+      const papers = ['p1', 'p2', 'p3'].map(id => submission(id, 'BIO', []));
+      const result = checkCommit([pair('p1', 'r1'), pair('p2', 'r1'), pair('p3', 'r1')], papers, [reviewer('r1', [], 1)], limits);
+
+      expect(result.accepted).toEqual([pair('p1', 'r1')]);
+      expect(result.skipped.map(skipped => skipped.submissionId)).toEqual(['p2', 'p3']);
+      expect(result.skipped[0].reason).toMatch(/open assignment/);
+    });
+
+    it('should not give a submission more reviewers than requested', () => {
+      const result = checkCommit(
+        [pair('p1', 'r2'), pair('p1', 'r3')],
+        [submission('p1', 'BIO', [], ['r1'])],
+        [reviewer('r1', []), reviewer('r2', []), reviewer('r3', [])],
+        limits
+      );
+
+      expect(result.accepted).toEqual([pair('p1', 'r2')]);
+      expect(result.skipped).toEqual([{ ...pair('p1', 'r3'), reason: 'Submission already has 2 reviewer(s)' }]);
+    });
+
+    it('should skip conflicted, existing, unknown and repeated pairs', () => {
+      const result = checkCommit(
+        [pair('p1', 'r1'), pair('p1', 'r2'), pair('p2', 'r3'), pair('p1', 'r4'), pair('p1', 'r3'), pair('p1', 'r3')],
+        [submission('p1', 'BIO', [], ['r1'])],
+        [reviewer('r1', []), reviewer('r2', []), reviewer('r3', [])],
+        { ...limits, reviewersPerPaper: 5 },
+        new Set([pairKey('p1', 'r2')])
+      );
+
+      expect(result.accepted).toEqual([pair('p1', 'r3')]);
+      expect(result.skipped.map(skipped => skipped.reason)).toEqual([
+        'Reviewer is already assigned to this submission',
+        'Reviewer has a conflict of interest with this submission',
+        'Submission is not open for reviewer assignment in this edition',
+        'Reviewer not found or inactive'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  hidesAuthorsFromReviewers,
+  anonymizeSubmission,
+  anonymousManuscriptName,
+  anonymousSubmissionFileName
+} from '../../utils/blindReview';
+
+const submission = {
+  id: '3f2b9c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e',
+  userId: 'user-1',
+  title: 'Protein folding on GPUs',
+  abstract: 'We fold proteins.',
+  correspondingAuthor: 'jane@example.org',
+  authors: [{ name: 'Jane Doe', affiliation: 'Example University', email: 'jane@example.org' }],
+  conflicts: { individuals: [{ name: 'John Roe' }] },
+  sessionType: 'BIO'
+};
+
+describe('Blind Review Utils', () => {
+  describe('review modes', () => {
+    it('should hide authors from reviewers only in double-blind review', () => {
+      expect(hidesAuthorsFromReviewers('double_blind')).toBe(true);
+      expect(hidesAuthorsFromReviewers('single_blind')).toBe(false);
+      expect(hidesAuthorsFromReviewers('none')).toBe(false);
+    });
+  });
+
+  describe('anonymizeSubmission', () => {
+    it('should drop every field that identifies the authors', () => {
+      const anonymized = anonymizeSubmission(submission);
+
+      expect(anonymized).not.toHaveProperty('userId');
+      expect(anonymized).not.toHaveProperty('correspondingAuthor');
+      expect(anonymized).not.toHaveProperty('conflicts');
+      expect(anonymized.authors).toEqual([]);
+      expect(JSON.stringify(anonymized)).not.toMatch(/Jane|Example University|John Roe/);
+    });
+
+    it('should keep the content reviewers assess', () => {
+      expect(anonymizeSubmission(submission)).toEqual({
+        id: submission.id,
+        title: 'Protein folding on GPUs',
+        abstract: 'We fold proteins.',
+        sessionType: 'BIO',
+        authors: [],
+        isAnonymized: true
+      });
+    });
+  });
+
+  describe('anonymousManuscriptName', () => {
+    it('should name the file after the submission and keep its extension', () => {
+      expect(anonymousManuscriptName(submission.id, 'Doe_Jane_final.PDF')).toBe('submission-3f2b9c1e.pdf');
+    });
+
+    it('should cope with files without an extension', () => {
+      expect(anonymousManuscriptName(submission.id, 'manuscript')).toBe('submission-3f2b9c1e');
+    });
+  });
+
+  describe('anonymousSubmissionFileName', () => {
+    it('should name the file after the submission, its slot and its id', () => {
+      expect(anonymousSubmissionFileName({
+        id: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+        submissionId: submission.id,
+        slot: 'supplementary',
+        originalName: 'Doe lab raw data.CSV'
+      })).toBe('submission-3f2b9c1e-supplementary-9a8b7c6d.csv');
+    });
+  });
+});
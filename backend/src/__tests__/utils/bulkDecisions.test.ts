@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getRecommendationConsensus,
+  matchesDecisionCriteria
+} from '../../utils/bulkDecisions';
+
+describe('Bulk Decision Utils', () => {
+  describe('getRecommendationConsensus', () => {
+    it('should report no consensus without completed reviews', () => {
+      expect(getRecommendationConsensus([])).toBe('none');
+    });
+
+    it('should report a unanimous recommendation', () => {
+      expect(getRecommendationConsensus(['accept', 'accept'])).toBe('accept');
+      expect(getRecommendationConsensus(['reject'])).toBe('reject');
+    });
+
+    it('should treat minor and major revisions as the same recommendation', () => {
+      expect(getRecommendationConsensus(['minor_revision', 'major_revision'])).toBe('revision');
+    });
+
+    it('should report a split committee', () => {
+      expect(getRecommendationConsensus(['accept', 'minor_revision'])).toBe('split');
+    });
+  });
+
+  describe('matchesDecisionCriteria', () => {
+    const candidate = {
+      sessionType: 'CHE' as const,
+      status: 'under_review' as const,
+      averageScore: 7.5,
+      completedReviews: 3,
+      recommendations: ['accept' as const, 'accept' as const, 'accept' as const]
+    };
+
+    it('should match everything with an empty filter', () => {
+      expect(matchesDecisionCriteria(candidate, {})).toBe(true);
+    });
+
+    it('should filter by session and status', () => {
+      expect(matchesDecisionCriteria(candidate, { sessionTypes: ['CHE', 'BIO'] })).toBe(true);
+      expect(matchesDecisionCriteria(candidate, { sessionTypes: ['BIO'] })).toBe(false);
+      expect(matchesDecisionCriteria(candidate, { statuses: ['revised'] })).toBe(false);
+    });
+
+    it('should treat score bounds as inclusive', () => {
+      expect(matchesDecisionCriteria(candidate, { minAverageScore: 7.5, maxAverageScore: 7.5 })).toBe(true);
+      expect(matchesDecisionCriteria(candidate, { minAverageScore: 8 })).toBe(false);
+      expect(matchesDecisionCriteria(candidate, { maxAverageScore: 5 })).toBe(false);
+    });
+
+    it('should not match unscored submissions when a score range is set', () => {
+      const unscored = { ...candidate, averageScore: null, completedReviews: 0, recommendations: [] };
+
+      expect(matchesDecisionCriteria(unscored, { minAverageScore: 1 })).toBe(false);
+      expect(matchesDecisionCriteria(unscored, { consensus: ['none'] })).toBe(true);
+    });
+
+    it('should require a minimum number of completed reviews', () => {
+      expect(matchesDecisionCriteria(candidate, { minCompletedReviews: 3 })).toBe(true);
+      expect(matchesDecisionCriteria(candidate, { minCompletedReviews: 4 })).toBe(false);
+    });
+
+    it('should filter by recommendation consensus', () => {
+      expect(matchesDecisionCriteria(candidate, { consensus: ['accept'] })).toBe(true);
+      expect(matchesDecisionCriteria(candidate, { consensus: ['split', 'reject'] })).toBe(false);
+    });
+  });
+});
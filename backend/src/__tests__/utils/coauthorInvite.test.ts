@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import { generateCoAuthorInviteToken, verifyCoAuthorInviteToken } from '../../utils/coauthorInvite';
+
+describe('Co-author Invite Utils', () => {
+  describe('verifyCoAuthorInviteToken', () => {
+    it('should return the invited submission and email for a valid token', () => {
+      const token = generateCoAuthorInviteToken('submission-1', 'coauthor@example.com');
+
+      expect(verifyCoAuthorInviteToken(token)).toEqual({ submissionId: 'submission-1', email: 'coauthor@example.com' });
+    });
+
+    it('should reject tokens issued for another purpose', () => {
+      const token = jwt.sign({ type: 'email_verification', timestamp: Date.now() }, process.env.JWT_SECRET!);
+
+      expect(verifyCoAuthorInviteToken(token)).toBeNull();
+    });
+
+    it('should reject tokens signed with another secret', () => {
+      const token = jwt.sign({ type: 'coauthor_invite', submissionId: 'submission-1', email: 'x@example.com' }, 'other-secret');
+
+      expect(verifyCoAuthorInviteToken(token)).toBeNull();
+    });
+
+    it('should reject expired tokens', () => {
+      const token = jwt.sign(
+        { type: 'coauthor_invite', submissionId: 'submission-1', email: 'x@example.com' },
+        process.env.JWT_SECRET!,
+        { expiresIn: -1 }
+      );
+
+      expect(verifyCoAuthorInviteToken(token)).toBeNull();
+    });
+
+    it('should return null for malformed tokens', () => {
+      expect(verifyCoAuthorInviteToken('invalid.token')).toBeNull();
+    });
+  });
+});
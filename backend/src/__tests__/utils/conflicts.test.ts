@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeConflicts,
+  hasConflictDeclarations,
+  findConflicts,
+  detectAuthorConflicts
+} from '../../utils/conflicts';
+
+describe('Conflict of Interest Utils', () => {
+  describe('normalizeConflicts', () => {
+    it('should return an empty declaration when none was given', () => {
+      expect(normalizeConflicts(undefined)).toEqual({ people: [], institutions: [], emailDomains: [] });
+      expect(hasConflictDeclarations(normalizeConflicts(null))).toBe(false);
+    });
+
+    it('should trim, lowercase and deduplicate entries', () => {
+      const declaration = normalizeConflicts({
+        people: [
+          { name: '  Jane   Doe ', email: 'Jane.Doe@Example.org ' },
+          { name: 'J. Doe', email: 'jane.doe@example.org' },
+          { name: '', email: '' },
+          { name: 'John Smith' }
+        ],
+        institutions: ['Mahidol University', ' mahidol   university', ''],
+        emailDomains: ['@Example.ORG', '*.mit.edu', 'example.org', 'localhost']
+      });
+
+      expect(declaration.people).toEqual([
+        { name: 'Jane Doe', email: 'jane.doe@example.org' },
+        { name: 'John Smith' }
+      ]);
+      expect(declaration.institutions).toEqual(['Mahidol University']);
+      expect(declaration.emailDomains).toEqual(['example.org', 'mit.edu']);
+    });
+  });
+
+  describe('findConflicts', () => {
+    const reviewer = {
+      email: 'somchai@chula.ac.th',
+      firstName: 'Somchai',
+      lastName: 'Wongsa',
+      affiliation: 'Department of Chemistry, Chulalongkorn University, Bangkok',
+      organizationNames: ['Chulalongkorn University', 'CU']
+    };
+
+    it('should find nothing without declarations', () => {
+      expect(findConflicts(reviewer, normalizeConflicts({}))).toEqual([]);
+    });
+
+    it('should match declared people by email or by name', () => {
+      const byEmail = findConflicts(reviewer, normalizeConflicts({ people: [{ name: 'S. W.', email: 'SOMCHAI@chula.ac.th' }] }));
+      expect(byEmail).toHaveLength(1);
+      expect(byEmail[0].type).toBe('person');
+
+      const byName = findConflicts(reviewer, normalizeConflicts({ people: [{ name: 'wongsa, somchai' }] }));
+      expect(byName).toHaveLength(1);
+
+      expect(findConflicts(reviewer, normalizeConflicts({ people: [{ name: 'Somchai Other' }] }))).toEqual([]);
+    });
+
+    it('should match institutions by organization name or as whole words of the affiliation', () => {
+      expect(findConflicts(reviewer, normalizeConflicts({ institutions: ['CU'] }))[0].type).toBe('institution');
+      expect(findConflicts(reviewer, normalizeConflicts({ institutions: ['chulalongkorn university'] }))).toHaveLength(1);
+      expect(findConflicts(reviewer, normalizeConflicts({ institutions: ['Chula'] }))).toEqual([]);
+    });
+
+    it('should ignore accents and punctuation when comparing names', () => {
+      const declaration = normalizeConflicts({ people: [{ name: 'José Núñez' }], institutions: ['Universidad de São Paulo'] });
+      const candidate = {
+        email: 'jnunez@usp.br',
+        firstName: 'Jose',
+        lastName: 'Nunez',
+        affiliation: 'Universidad de Sao Paulo.'
+      };
+
+      expect(findConflicts(candidate, declaration).map(match => match.type)).toEqual(['person', 'institution']);
+    });
+
+    it('should match email domains and their subdomains only', () => {
+      expect(findConflicts(reviewer, normalizeConflicts({ emailDomains: ['chula.ac.th'] }))).toHaveLength(1);
+      expect(findConflicts(reviewer, normalizeConflicts({ emailDomains: ['ac.th'] }))).toHaveLength(1);
+      expect(findConflicts(reviewer, normalizeConflicts({ emailDomains: ['ula.ac.th'] }))).toEqual([]);
+    });
+  });
+
+  describe('detectAuthorConflicts', () => {
+    const reviewer = {
+      id: 'reviewer-1',
+      email: 'somchai@chem.chula.ac.th',
+      firstName: 'Somchai',
+      lastName: 'Wongsa',
+      affiliation: 'Department of Chemistry, Chulalongkorn University, Bangkok',
+      organizationId: 'org-cu',
+      organizationNames: ['Chulalongkorn University', 'CU']
+    };
+
+    const outsider = { name: 'Anna Berg', email: 'anna@kth.se', institution: 'KTH Royal Institute of Technology' };
+
+    it('should find nothing for unrelated authors', () => {
+      expect(detectAuthorConflicts(reviewer, [outsider])).toEqual([]);
+    });
+
+    it('should flag a reviewer listed as an author by account, email or name', () => {
+      expect(detectAuthorConflicts(reviewer, [{ name: 'S. Wongsa', userId: 'reviewer-1' }])[0].type).toBe('authorship');
+      expect(detectAuthorConflicts(reviewer, [{ name: 'S. W.', email: 'SOMCHAI@chem.chula.ac.th' }])[0].type).toBe('authorship');
+      expect(detectAuthorConflicts(reviewer, [{ name: 'Wongsa Somchai' }])[0].type).toBe('authorship');
+    });
+
+    it('should flag authors from the same institution', () => {
+      const byOrganization = detectAuthorConflicts(reviewer, [{ name: 'Jane Doe', organizationId: 'org-cu' }]);
+      expect(byOrganization.map(match => match.type)).toEqual(['shared_affiliation']);
+
+      const byName = detectAuthorConflicts(reviewer, [{ name: 'Jane Doe', institution: 'chulalongkorn university' }]);
+      expect(byName[0].reason).toContain('Jane Doe');
+    });
+
+    it('should flag institutional email domains but not public mail providers', () => {
+      const sameDomain = detectAuthorConflicts(reviewer, [{ name: 'Jane Doe', email: 'jane@chula.ac.th' }]);
+      expect(sameDomain).toEqual([expect.objectContaining({ type: 'shared_email_domain', value: 'chula.ac.th' })]);
+
+      const gmailReviewer = { ...reviewer, email: 'somchai@gmail.com', organizationId: undefined, organizationNames: [], affiliation: '' };
+      expect(detectAuthorConflicts(gmailReviewer, [{ name: 'Jane Doe', email: 'jane@gmail.com' }])).toEqual([]);
+    });
+
+    it('should flag authors the reviewer has co-written other submissions with', () => {
+      const coauthors = [{ name: 'Anna Berg', email: 'ANNA@kth.se' }, { name: 'Someone Else' }];
+      const matches = detectAuthorConflicts(reviewer, [outsider], coauthors);
+
+      expect(matches).toEqual([expect.objectContaining({ type: 'coauthorship', value: 'Anna Berg' })]);
+    });
+
+    it('should report each conflict once', () => {
+      const authors = [
+        { name: 'Jane Doe', email: 'jane@chula.ac.th', institution: 'Chulalongkorn University' },
+        { name: 'John Roe', email: 'john@chula.ac.th', institution: 'Chulalongkorn University' }
+      ];
+
+      expect(detectAuthorConflicts(reviewer, authors).map(match => match.type)).toEqual(['shared_affiliation', 'shared_email_domain']);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkSubmissionDeadline } from '../../utils/deadlines';
+
+const deadline = new Date('2025-03-01T23:59:00Z');
+const minutesAfter = (minutes: number) => new Date(deadline.getTime() + minutes * 60 * 1000);
+
+describe('Deadline Utils', () => {
+  describe('checkSubmissionDeadline', () => {
+    it('should accept changes before the deadline', () => {
+      const result = checkSubmissionDeadline(deadline, 0, [], minutesAfter(-1));
+
+      expect(result.status).toBe('open');
+      expect(result.allowed).toBe(true);
+      expect(result.pastDeadline).toBe(false);
+    });
+
+    it('should reject changes after the deadline without grace or extensions', () => {
+      const result = checkSubmissionDeadline(deadline, 0, [], minutesAfter(1));
+
+      expect(result.status).toBe('closed');
+      expect(result.allowed).toBe(false);
+      expect(result.pastDeadline).toBe(true);
+    });
+
+    it('should accept changes within the grace period', () => {
+      const result = checkSubmissionDeadline(deadline, 30, [], minutesAfter(30));
+
+      expect(result.status).toBe('grace');
+      expect(result.allowed).toBe(true);
+      expect(result.effectiveDeadline).toEqual(minutesAfter(30));
+    });
+
+    it('should use the latest extension', () => {
+      const result = checkSubmissionDeadline(deadline, 30, [minutesAfter(60), minutesAfter(24 * 60)], minutesAfter(120));
+
+      expect(result.status).toBe('extended');
+      expect(result.effectiveDeadline).toEqual(minutesAfter(24 * 60));
+    });
+
+    it('should ignore extensions shorter than the grace period', () => {
+      const result = checkSubmissionDeadline(deadline, 60, [minutesAfter(10)], minutesAfter(61));
+
+      expect(result.status).toBe('closed');
+      expect(result.effectiveDeadline).toEqual(minutesAfter(60));
+    });
+
+    it('should accept ISO strings from the database', () => {
+      const result = checkSubmissionDeadline(deadline.toISOString(), 0, [minutesAfter(5).toISOString()], minutesAfter(2));
+
+      expect(result.status).toBe('extended');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  shiftTimestamp,
+  shiftCalendarDate,
+  buildClonePlan,
+  EditionCloneSource
+} from '../../utils/editionClone';
+
+const createdAt = new Date('2024-01-01T00:00:00Z');
+
+const source: EditionCloneSource = {
+  conference: {
+    id: 'conf-2025',
+    name: 'International Conference 2025',
+    description: 'Annual meeting',
+    startDate: new Date(2025, 10, 20),
+    endDate: new Date(2025, 10, 22),
+    venue: 'Main Hall',
+    registrationDeadline: new Date('2025-10-31T16:59:00Z'),
+    submissionDeadline: new Date('2025-09-30T16:59:00Z'),
+    submissionGraceMinutes: 30,
+    isActive: true,
+    reviewMode: 'double_blind',
+    emailSettings: { fromName: 'Conference Office', replyTo: 'office@example.org' },
+    abstractBookTemplate: { title: 'Book of Abstracts' },
+    createdAt
+  },
+  tracks: [{
+    id: 'track-1',
+    conferenceId: 'conf-2025',
+    code: 'CHE',
+    name: 'Computational Chemistry',
+    color: '#1976d2',
+    chairs: [{ name: 'Dr. Chair', email: 'chair@example.org' }],
+    sortOrder: 1,
+    isActive: false,
+    createdAt
+  }],
+  sessions: [{
+    id: 'session-1',
+    type: 'CHE',
+    name: 'Chemistry I',
+    schedules: [{
+      id: 'schedule-1',
+      startTime: new Date('2025-11-20T02:00:00Z'),
+      endTime: new Date('2025-11-20T04:00:00Z'),
+      location: 'Room A'
+    }]
+  }],
+  registrationFees: [{
+    id: 'fee-1',
+    participantType: 'regular_participant',
+    earlyBirdFee: 100,
+    regularFee: 150,
+    lateFee: 200,
+    currency: 'USD',
+    earlyBirdDeadline: new Date('2025-08-31T16:59:00Z'),
+    lateRegistrationStart: new Date('2025-10-01T00:00:00Z')
+  }],
+  paymentInstructions: {
+    id: 'pi-1',
+    bankName: 'Bank',
+    accountName: 'Conference',
+    accountNumber: '123',
+    acceptedMethods: ['bank_transfer'],
+    instructions: 'Transfer the fee'
+  },
+  sessionPolicies: [{
+    id: 'policy-1',
+    sessionType: 'CHE',
+    minAbstractWords: 100,
+    maxAbstractWords: 300,
+    minKeywords: 3,
+    maxKeywords: 6,
+    allowedPresentationTypes: ['oral'],
+    createdAt
+  }],
+  reviewRubrics: [{
+    id: 'rubric-1',
+    conferenceId: 'conf-2025',
+    name: 'Default rubric',
+    criteria: [{ key: 'originality', label: 'Originality', weight: 60 }, { key: 'clarity', label: 'Clarity', weight: 40 }],
+    createdAt
+  }]
+};
+
+describe('Edition Clone Utils', () => {
+  describe('shiftTimestamp', () => {
+    it('should move a timestamp by whole days', () => {
+      expect(shiftTimestamp('2025-11-20T02:00:00Z', 364)).toEqual(new Date('2026-11-19T02:00:00Z'));
+    });
+
+    it('should move a timestamp back for negative offsets', () => {
+      expect(shiftTimestamp(new Date('2025-03-01T00:00:00Z'), -1)).toEqual(new Date('2025-02-28T00:00:00Z'));
+    });
+  });
+
+  describe('shiftCalendarDate', () => {
+    it('should keep the calendar day of dates read as local midnight', () => {
+      expect(shiftCalendarDate(new Date(2025, 10, 20), 365)).toBe('2026-11-20');
+    });
+
+    it('should accept plain date strings', () => {
+      expect(shiftCalendarDate('2028-02-28', 1)).toBe('2028-02-29');
+    });
+  });
+
+  describe('buildClonePlan', () => {
+    const plan = buildClonePlan(source, { name: 'International Conference 2026', dateOffsetDays: 364 });
+
+    it('should take the new name and keep the rest of the edition details', () => {
+      expect(plan.sourceConferenceId).toBe('conf-2025');
+      expect(plan.conference.name).toBe('International Conference 2026');
+      expect(plan.conference.description).toBe('Annual meeting');
+      expect(plan.conference.venue).toBe('Main Hall');
+      expect(plan.conference.submissionGraceMinutes).toBe(30);
+      expect(plan.conference.reviewMode).toBe('double_blind');
+    });
+
+    it('should shift every date by the offset', () => {
+      expect(plan.conference.startDate).toBe('2026-11-19');
+      expect(plan.conference.endDate).toBe('2026-11-21');
+      expect(plan.conference.submissionDeadline).toEqual(new Date('2026-09-29T16:59:00Z'));
+      expect(plan.sessions[0].schedules[0].startTime).toEqual(new Date('2026-11-19T02:00:00Z'));
+      expect(plan.registrationFees[0].earlyBirdDeadline).toEqual(new Date('2026-08-30T16:59:00Z'));
+    });
+
+    it('should copy tracks, policies, rubrics, fees, payment instructions, email settings and the template', () => {
+      expect(plan.tracks).toEqual([expect.objectContaining({ code: 'CHE', isActive: false, chairs: [{ name: 'Dr. Chair', email: 'chair@example.org' }] })]);
+      expect(plan.sessionPolicies[0]).toEqual(expect.objectContaining({ sessionType: 'CHE', allowedPresentationTypes: ['oral'] }));
+      expect(plan.reviewRubrics).toEqual([{ sessionType: undefined, name: 'Default rubric', criteria: source.reviewRubrics[0].criteria }]);
+      expect(plan.registrationFees[0].regularFee).toBe(150);
+      expect(plan.paymentInstructions?.bankName).toBe('Bank');
+      expect(plan.conference.emailSettings).toEqual({ fromName: 'Conference Office', replyTo: 'office@example.org' });
+      expect(plan.conference.abstractBookTemplate).toEqual({ title: 'Book of Abstracts' });
+    });
+
+    it('should not carry over row ids', () => {
+      expect(plan.tracks[0]).not.toHaveProperty('id');
+      expect(plan.sessions[0].schedules[0]).not.toHaveProperty('id');
+      expect(plan.registrationFees[0]).not.toHaveProperty('id');
+      expect(plan.paymentInstructions).not.toHaveProperty('id');
+      expect(plan.reviewRubrics[0]).not.toHaveProperty('id');
+    });
+
+    it('should let the clone override the description and venue', () => {
+      const moved = buildClonePlan(source, { name: 'Conference 2026', description: '', venue: 'New Venue', dateOffsetDays: 0 });
+
+      expect(moved.conference.description).toBe('');
+      expect(moved.conference.venue).toBe('New Venue');
+    });
+  });
+});
@@ -4,6 +4,8 @@ import {
   sanitizeMarkdown,
   markdownToPlainText,
   validateAbstractMarkdown,
+  findMathErrors,
+  countAbstractWords,
   generatePreview,
   processMarkdownForStorage
 } from '../../utils/markdown';
@@ -45,6 +47,30 @@ describe('Markdown Utils', () => {
       expect(result).toContain('<pre>');
       expect(result).toContain('<code');
     });
+
+    it('should render inline and display math to MathML', () => {
+      const result = markdownToHtml('Energy $E = mc^2$ holds.\n\n$$\n\\int_0^1 x\\,dx\n$$');
+
+      expect(result).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML">');
+      expect(result).toContain('<msup><mi>c</mi><mn>2</mn></msup>');
+      expect(result).toContain('display="block"');
+      expect(result).toContain('class="katex-display"');
+    });
+
+    it('should render chemistry written with mhchem', () => {
+      const result = markdownToHtml('Water is $\\ce{H2O}$.');
+
+      expect(result).toContain('<annotation encoding="application/x-tex">\\ce{H2O}</annotation>');
+      expect(result).not.toContain('katex-error');
+    });
+
+    it('should leave prices, escaped dollars and code untouched', () => {
+      const result = markdownToHtml('It costs $5 and $10, or \\$x\\$, see `$y$`.');
+
+      expect(result).not.toContain('katex');
+      expect(result).toContain('$5 and $10');
+      expect(result).toContain('<code>$y$</code>');
+    });
   });
 
   describe('sanitizeMarkdown', () => {
@@ -123,6 +149,30 @@ describe('Markdown Utils', () => {
     });
   });
 
+  describe('countAbstractWords', () => {
+    it('should count rendered words, not markdown syntax', () => {
+      expect(countAbstractWords('# Title\n\n**Bold** and *italic* text')).toBe(5);
+    });
+
+    it('should count a formula once rather than its rendered copies', () => {
+      expect(markdownToPlainText('We measure $\\ce{CO2}$ levels').trim()).toBe('We measure CO2 levels');
+      expect(countAbstractWords('Energy is $E = mc^2$')).toBe(3);
+    });
+  });
+
+  describe('findMathErrors', () => {
+    it('should report TeX that does not parse', () => {
+      const errors = findMathErrors('Valid $x^2$ but broken $\\frac{1}{$ here');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('\\frac{1}{');
+    });
+
+    it('should accept valid math', () => {
+      expect(findMathErrors('$$\\sqrt{2}$$ and $\\ce{NaCl}$')).toEqual([]);
+    });
+  });
+
   describe('validateAbstractMarkdown', () => {
     it('should validate a good abstract', () => {
       const markdown = `
@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { computeOrcidCheckDigit, normalizeOrcid, isValidOrcid } from '../../utils/orcid';
+
+describe('ORCID Utils', () => {
+  describe('computeOrcidCheckDigit', () => {
+    it('should compute numeric check digits', () => {
+      expect(computeOrcidCheckDigit('000000021825009')).toBe('7');
+    });
+
+    it('should use X for a remainder of 10', () => {
+      expect(computeOrcidCheckDigit('000000021694233')).toBe('X');
+    });
+  });
+
+  describe('normalizeOrcid', () => {
+    it('should accept hyphenated iDs', () => {
+      expect(normalizeOrcid('0000-0002-1825-0097')).toBe('0000-0002-1825-0097');
+    });
+
+    it('should accept orcid.org URLs and bare digits', () => {
+      expect(normalizeOrcid('https://orcid.org/0000-0002-1825-0097')).toBe('0000-0002-1825-0097');
+      expect(normalizeOrcid('0000000218250097')).toBe('0000-0002-1825-0097');
+    });
+
+    it('should upper-case a trailing x check character', () => {
+      expect(normalizeOrcid('0000-0002-1694-233x')).toBe('0000-0002-1694-233X');
+    });
+
+    it('should reject iDs with a wrong checksum', () => {
+      expect(normalizeOrcid('0000-0002-1825-0098')).toBeNull();
+    });
+
+    it('should reject malformed values', () => {
+      expect(normalizeOrcid('0000-0002-1825')).toBeNull();
+      expect(normalizeOrcid('abcd-0002-1825-0097')).toBeNull();
+      expect(normalizeOrcid('')).toBeNull();
+    });
+  });
+
+  describe('isValidOrcid', () => {
+    it('should validate checksums', () => {
+      expect(isValidOrcid('0000-0001-5109-3700')).toBe(true);
+      expect(isValidOrcid('0000-0001-5109-3701')).toBe(false);
+    });
+  });
+});
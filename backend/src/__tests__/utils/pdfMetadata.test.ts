@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { stripPdfAuthorMetadata, isPdf } from '../../utils/pdfMetadata';
+
+const pdf = (body: string) => Buffer.from(`%PDF-1.7\n${body}\n%%EOF\n`, 'latin1');
+
+const strip = (body: string) => stripPdfAuthorMetadata(pdf(body)).toString('latin1');
+
+describe('PDF Metadata Utils', () => {
+  describe('stripPdfAuthorMetadata', () => {
+    it('should blank the Author and Creator entries of the information dictionary', () => {
+      const result = strip('5 0 obj\n<< /Title (Protein folding) /Author (Jane Doe) /Creator (Microsoft Word) >>\nendobj');
+
+      expect(result).toContain('/Title (Protein folding)');
+      expect(result).toContain(`/Author (${' '.repeat(8)})`);
+      expect(result).toContain(`/Creator (${' '.repeat(14)})`);
+      expect(result).not.toContain('Jane Doe');
+    });
+
+    it('should handle escaped and nested parentheses', () => {
+      const result = strip('<< /Author (Doe \\(J.\\) and (Roe)) /Producer (pdfTeX) >>');
+
+      expect(result).not.toMatch(/Doe|Roe/);
+      expect(result).toContain('/Producer (pdfTeX)');
+    });
+
+    it('should blank hex string values', () => {
+      const result = strip('<</Author <FEFF004A0061006E0065>/Creator<4C61546558>>>');
+
+      expect(result).toContain('/Author <20202020202020202020>');
+      expect(result).toContain('/Creator<2020202020>');
+    });
+
+    it('should blank XMP author and creator tool properties', () => {
+      const result = strip([
+        '<x:xmpmeta><rdf:RDF><rdf:Description xmp:CreatorTool="LaTeX">',
+        '<dc:creator><rdf:Seq><rdf:li>Jane Doe</rdf:li></rdf:Seq></dc:creator>',
+        '<pdf:Author>Jane Doe</pdf:Author>',
+        '<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Protein folding</rdf:li></rdf:Alt></dc:title>',
+        '</rdf:Description></rdf:RDF></x:xmpmeta>'
+      ].join('\n'));
+
+      expect(result).not.toMatch(/Jane Doe|LaTeX/);
+      expect(result).toContain('<rdf:li xml:lang="x-default">Protein folding</rdf:li>');
+      expect(result).toContain('<rdf:li>        </rdf:li>');
+    });
+
+    it('should keep the file length so cross-reference offsets stay valid', () => {
+      const original = pdf('<< /Author (Jane Doe) >>\n<pdf:Author>Jane Doe</pdf:Author>\nstream\nâãÏÓ\nendstream');
+      const stripped = stripPdfAuthorMetadata(original);
+
+      expect(stripped.length).toBe(original.length);
+      expect(stripped.subarray(-30)).toEqual(original.subarray(-30));
+    });
+
+    it('should leave documents without author metadata unchanged', () => {
+      const original = pdf('<< /Title (Protein folding) /Producer (pdfTeX) >>');
+
+      expect(stripPdfAuthorMetadata(original)).toEqual(original);
+    });
+  });
+
+  describe('isPdf', () => {
+    it('should recognise the PDF header', () => {
+      expect(isPdf(pdf(''))).toBe(true);
+      expect(isPdf(Buffer.from('PK\u0003\u0004', 'latin1'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateCriteriaScores, scoreReview } from '../../utils/reviewRubric';
+import { RubricCriterion } from '../../types/index';
+
+const criteria: RubricCriterion[] = [
+  { key: 'originality', label: 'Originality', weight: 30 },
+  { key: 'soundness', label: 'Technical soundness', weight: 40 },
+  { key: 'relevance', label: 'Relevance to the session', weight: 20 },
+  { key: 'clarity', label: 'Clarity', weight: 10 }
+];
+
+describe('Review Rubric Utils', () => {
+  describe('validateCriteriaScores', () => {
+    it('should accept a whole score for every criterion', () => {
+      expect(validateCriteriaScores(criteria, { originality: 8, soundness: 7, relevance: 10, clarity: 1 })).toEqual([]);
+    });
+
+    it('should require every criterion', () => {
+      expect(validateCriteriaScores(criteria, { originality: 8, soundness: 7, relevance: 9 }))
+        .toEqual(['Clarity must be scored']);
+    });
+
+    it('should reject scores off the scale', () => {
+      const errors = validateCriteriaScores(criteria, { originality: 0, soundness: 11, relevance: 7.5, clarity: '5' });
+
+      expect(errors).toHaveLength(4);
+      expect(errors[0]).toBe('Originality must be a whole number between 1 and 10');
+    });
+
+    it('should reject keys that are not in the rubric', () => {
+      expect(validateCriteriaScores(criteria, { originality: 8, soundness: 7, relevance: 9, clarity: 6, impact: 5 }))
+        .toEqual(['"impact" is not a criterion of this rubric']);
+    });
+
+    it('should require an object of scores', () => {
+      expect(validateCriteriaScores(criteria, undefined)).toEqual(['A score for every rubric criterion is required']);
+      expect(validateCriteriaScores(criteria, [8, 7, 9, 6])).toEqual(['A score for every rubric criterion is required']);
+    });
+  });
+
+  describe('scoreReview', () => {
+    it('should take the weighted mean of the criterion scores', () => {
+      // (30 * 8 + 40 * 7 + 20 * 9 + 10 * 6) / 100
+      expect(scoreReview(criteria, { originality: 8, soundness: 7, relevance: 9, clarity: 6 }))
+        .toEqual({ weightedScore: 7.6, score: 8 });
+    });
+
+    it('should treat weights as relative', () => {
+      const equal = criteria.map(criterion => ({ ...criterion, weight: 1 }));
+
+      expect(scoreReview(equal, { originality: 10, soundness: 5, relevance: 5, clarity: 5 }))
+        .toEqual({ weightedScore: 6.25, score: 6 });
+    });
+
+    it('should round the weighted score to two decimals', () => {
+      const thirds: RubricCriterion[] = [
+        { key: 'a', label: 'A', weight: 1 },
+        { key: 'b', label: 'B', weight: 1 },
+        { key: 'c', label: 'C', weight: 1 }
+      ];
+
+      expect(scoreReview(thirds, { a: 10, b: 10, c: 9 }).weightedScore).toBe(9.67);
+    });
+  });
+});
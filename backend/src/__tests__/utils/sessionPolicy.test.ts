@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { checkSessionPolicy, DEFAULT_SESSION_POLICY } from '../../utils/sessionPolicy';
+import { SessionPolicyRules } from '../../types';
+
+const oralOnly: SessionPolicyRules = {
+  minAbstractWords: 0,
+  maxAbstractWords: 300,
+  minKeywords: 3,
+  maxKeywords: 5,
+  allowedPresentationTypes: ['oral']
+};
+
+describe('Session Policy Utils', () => {
+  describe('checkSessionPolicy', () => {
+    it('should accept a submission within the limits', () => {
+      const violations = checkSessionPolicy('PFD', oralOnly, {
+        abstractWords: 300,
+        keywords: ['flow', 'turbulence', 'cfd'],
+        presentationType: 'oral'
+      });
+
+      expect(violations).toEqual([]);
+    });
+
+    it('should name the session and rule that failed', () => {
+      const violations = checkSessionPolicy('PFD', oralOnly, {
+        abstractWords: 301,
+        presentationType: 'poster'
+      });
+
+      expect(violations.map(violation => violation.rule)).toEqual(['maxAbstractWords', 'allowedPresentationTypes']);
+      expect(violations[0].message).toBe('PFD session rule: abstract must be at most 300 words (currently 301)');
+      expect(violations[1].message).toBe('PFD session rule: only oral presentations are accepted');
+    });
+
+    it('should check keyword counts', () => {
+      const tooMany = checkSessionPolicy('MST', oralOnly, { keywords: ['a1', 'b2', 'c3', 'd4', 'e5', 'f6'] });
+      const tooFew = checkSessionPolicy('MST', oralOnly, { keywords: ['a1'] });
+
+      expect(tooMany[0].rule).toBe('maxKeywords');
+      expect(tooFew[0].rule).toBe('minKeywords');
+    });
+
+    it('should skip fields that are not provided', () => {
+      expect(checkSessionPolicy('PFD', oralOnly, {})).toEqual([]);
+    });
+
+    it('should allow both presentation types by default', () => {
+      expect(checkSessionPolicy('BIO', DEFAULT_SESSION_POLICY, { presentationType: 'poster' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  tokenize,
+  shingle,
+  minhash,
+  estimateJaccard,
+  jaccard,
+  combineScores,
+  diffText
+} from '../../utils/similarity';
+
+const abstract = 'We present a density functional theory study of water adsorption on titanium dioxide ' +
+  'surfaces and compare binding energies across anatase and rutile facets using hybrid functionals.';
+
+const reworded = 'We report a density functional theory study of water adsorption on titanium dioxide ' +
+  'surfaces and compare adsorption energies across anatase and rutile facets using hybrid functionals.';
+
+const unrelated = 'Molecular dynamics simulations reveal how protein folding pathways depend on ' +
+  'solvent viscosity in crowded cellular environments.';
+
+describe('Similarity Utils', () => {
+  describe('tokenize', () => {
+    it('should drop markdown syntax, punctuation and stopwords', () => {
+      expect(tokenize('**Water** on the [TiO2](http://example.com) surface.')).toEqual(['water', 'tio2', 'surface']);
+    });
+  });
+
+  describe('shingle', () => {
+    it('should build overlapping word pairs', () => {
+      expect(Array.from(shingle(['a', 'b', 'c']))).toEqual(['a b', 'b c']);
+    });
+
+    it('should keep short texts as a single shingle', () => {
+      expect(Array.from(shingle(['solo']))).toEqual(['solo']);
+    });
+  });
+
+  describe('jaccard and minhash', () => {
+    const original = shingle(tokenize(abstract));
+    const copy = shingle(tokenize(reworded));
+    const other = shingle(tokenize(unrelated));
+
+    it('should score lightly reworded text as highly similar', () => {
+      expect(jaccard(original, copy)).toBeGreaterThan(0.6);
+    });
+
+    it('should score unrelated text near zero', () => {
+      expect(jaccard(original, other)).toBeLessThan(0.1);
+    });
+
+    it('should estimate jaccard from signatures', () => {
+      expect(estimateJaccard(minhash(original), minhash(original))).toBe(1);
+      expect(estimateJaccard(minhash(original), minhash(copy))).toBeGreaterThan(0.4);
+      expect(estimateJaccard(minhash(original), minhash(other))).toBeLessThan(0.2);
+    });
+  });
+
+  describe('combineScores', () => {
+    it('should weight the abstract more than the title', () => {
+      expect(combineScores(1, 0).score).toBeCloseTo(0.2);
+      expect(combineScores(0, 1).score).toBeCloseTo(0.8);
+    });
+  });
+
+  describe('diffText', () => {
+    it('should mark replaced words', () => {
+      expect(diffText('compare binding energies', 'compare adsorption energies')).toEqual([
+        { type: 'equal', text: 'compare' },
+        { type: 'removed', text: 'binding' },
+        { type: 'added', text: 'adsorption' },
+        { type: 'equal', text: 'energies' }
+      ]);
+    });
+
+    it('should ignore case and punctuation when matching words', () => {
+      expect(diffText('Water adsorption.', 'water adsorption')).toEqual([
+        { type: 'equal', text: 'Water adsorption.' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getSubmissionAccess,
+  canEditSubmission,
+  canManageAuthors
+} from '../../utils/submissionAccess';
+
+describe('Submission Access', () => {
+  const submission = { userId: 'owner-1', status: 'submitted' as const };
+  const authors = [
+    { userId: 'owner-1', isCorresponding: false, canEdit: false },
+    { userId: 'corresponding-1', isCorresponding: true, canEdit: true },
+    { userId: 'coauthor-1', isCorresponding: false, canEdit: false },
+    { isCorresponding: false, canEdit: true }
+  ];
+
+  describe('getSubmissionAccess', () => {
+    it('should give the submitting user owner access', () => {
+      expect(getSubmissionAccess(submission, authors, 'owner-1')).toBe('owner');
+    });
+
+    it('should give linked co-authors read-only access by default', () => {
+      expect(getSubmissionAccess(submission, authors, 'coauthor-1')).toBe('viewer');
+    });
+
+    it('should give co-authors with edit rights editor access', () => {
+      expect(getSubmissionAccess(submission, authors, 'corresponding-1')).toBe('editor');
+    });
+
+    it('should deny users who are not linked to the submission', () => {
+      expect(getSubmissionAccess(submission, authors, 'stranger')).toBeNull();
+    });
+
+    it('should keep drafts private to the submitting user', () => {
+      const draft = { ...submission, status: 'draft' as const };
+      expect(getSubmissionAccess(draft, authors, 'owner-1')).toBe('owner');
+      expect(getSubmissionAccess(draft, authors, 'corresponding-1')).toBeNull();
+    });
+  });
+
+  describe('canEditSubmission', () => {
+    it('should allow owners and editors only', () => {
+      expect(canEditSubmission('owner')).toBe(true);
+      expect(canEditSubmission('editor')).toBe(true);
+      expect(canEditSubmission('viewer')).toBe(false);
+      expect(canEditSubmission(null)).toBe(false);
+    });
+  });
+
+  describe('canManageAuthors', () => {
+    it('should allow the submitting user and the linked corresponding author', () => {
+      expect(canManageAuthors(submission, authors, 'owner-1')).toBe(true);
+      expect(canManageAuthors(submission, authors, 'corresponding-1')).toBe(true);
+    });
+
+    it('should not allow other co-authors', () => {
+      expect(canManageAuthors(submission, authors, 'coauthor-1')).toBe(false);
+    });
+  });
+});
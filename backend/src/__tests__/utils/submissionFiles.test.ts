@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SUBMISSION_FILE_SLOTS,
+  MAX_SUBMISSION_FILE_SIZE,
+  validateSlotFile,
+  getExpectedSignature,
+  matchesFileSignature,
+  canViewSubmissionFile
+} from '../../utils/submissionFiles';
+
+const MB = 1024 * 1024;
+
+describe('Submission File Utils', () => {
+  describe('SUBMISSION_FILE_SLOTS', () => {
+    it('should keep the manuscript slot to a single reviewer-only PDF', () => {
+      const manuscript = SUBMISSION_FILE_SLOTS.manuscript;
+      expect(manuscript.extensions).toEqual(['.pdf']);
+      expect(manuscript.maxSize).toBe(10 * MB);
+      expect(manuscript.maxFiles).toBe(1);
+      expect(manuscript.allowedVisibilities).toEqual(['reviewers']);
+    });
+
+    it('should only collect posters and slides after acceptance', () => {
+      expect(SUBMISSION_FILE_SLOTS.poster.requiresAcceptance).toBe(true);
+      expect(SUBMISSION_FILE_SLOTS.slides.requiresAcceptance).toBe(true);
+      expect(SUBMISSION_FILE_SLOTS.supplementary.requiresAcceptance).toBe(false);
+    });
+
+    it('should offer each slot its default visibility', () => {
+      Object.values(SUBMISSION_FILE_SLOTS).forEach(rule => {
+        expect(rule.allowedVisibilities).toContain(rule.defaultVisibility);
+      });
+    });
+
+    it('should use the largest slot limit as the upload limit', () => {
+      expect(MAX_SUBMISSION_FILE_SIZE).toBe(SUBMISSION_FILE_SLOTS.supplementary.maxSize);
+    });
+  });
+
+  describe('validateSlotFile', () => {
+    it('should accept a PDF poster within the size limit', () => {
+      expect(validateSlotFile('poster', {
+        originalName: 'Poster.PDF',
+        mimeType: 'application/pdf',
+        size: 5 * MB
+      })).toBeNull();
+    });
+
+    it('should accept PowerPoint slides', () => {
+      expect(validateSlotFile('slides', {
+        originalName: 'talk.pptx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+      })).toBeNull();
+    });
+
+    it('should reject extensions the slot does not allow', () => {
+      const result = validateSlotFile('poster', { originalName: 'poster.png', mimeType: 'image/png' });
+      expect(result?.code).toBe('INVALID_FILE_TYPE');
+    });
+
+    it('should reject files without an extension', () => {
+      const result = validateSlotFile('supplementary', { originalName: 'dataset', mimeType: 'text/csv' });
+      expect(result?.code).toBe('INVALID_FILE_TYPE');
+    });
+
+    it('should reject a MIME type that does not fit the slot', () => {
+      const result = validateSlotFile('supplementary', { originalName: 'data.csv', mimeType: 'application/x-msdownload' });
+      expect(result?.code).toBe('INVALID_MIME_TYPE');
+    });
+
+    it('should apply the slot size limit', () => {
+      const result = validateSlotFile('poster', {
+        originalName: 'poster.pdf',
+        mimeType: 'application/pdf',
+        size: 30 * MB
+      });
+      expect(result?.code).toBe('FILE_TOO_LARGE');
+      expect(result?.message).toContain('25MB');
+    });
+  });
+
+  describe('matchesFileSignature', () => {
+    it('should recognise a PDF header', () => {
+      expect(matchesFileSignature('.pdf', Buffer.from('%PDF-1.7\n'))).toBe(true);
+      expect(matchesFileSignature('.pdf', Buffer.from('<html>'))).toBe(false);
+    });
+
+    it('should recognise PNG and JPEG headers', () => {
+      expect(matchesFileSignature('.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe(true);
+      expect(matchesFileSignature('.JPG', Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(true);
+      expect(matchesFileSignature('.jpeg', Buffer.from([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+    });
+
+    it('should treat Office documents as ZIP containers', () => {
+      const zipHeader = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+      expect(matchesFileSignature('.xlsx', zipHeader)).toBe(true);
+      expect(matchesFileSignature('.pptx', zipHeader)).toBe(true);
+    });
+
+    it('should look for the MP4 box type after the box size', () => {
+      const header = Buffer.concat([Buffer.from([0x00, 0x00, 0x00, 0x20]), Buffer.from('ftypisom')]);
+      expect(matchesFileSignature('.mp4', header)).toBe(true);
+      expect(matchesFileSignature('.mp4', Buffer.from('ftypisom'))).toBe(false);
+    });
+
+    it('should reject headers that are too short', () => {
+      expect(matchesFileSignature('.pdf', Buffer.from('%P'))).toBe(false);
+    });
+
+    it('should accept any content for plain-text formats', () => {
+      expect(matchesFileSignature('.csv', Buffer.from('a,b,c'))).toBe(true);
+      expect(getExpectedSignature('.csv')).toBeUndefined();
+      expect(getExpectedSignature('.ZIP')).toBe('504b0304');
+    });
+  });
+
+  describe('canViewSubmissionFile', () => {
+    const stranger = { isAuthor: false, role: 'participant' as const, isAssignedReviewer: false };
+
+    it('should show every file to authors and organizers', () => {
+      expect(canViewSubmissionFile('organizers', { ...stranger, isAuthor: true })).toBe(true);
+      expect(canViewSubmissionFile('organizers', { ...stranger, role: 'admin' })).toBe(true);
+      expect(canViewSubmissionFile('reviewers', { ...stranger, role: 'organizer' })).toBe(true);
+    });
+
+    it('should show reviewer files only to assigned reviewers', () => {
+      expect(canViewSubmissionFile('reviewers', { ...stranger, role: 'reviewer', isAssignedReviewer: true })).toBe(true);
+      expect(canViewSubmissionFile('reviewers', { ...stranger, role: 'reviewer' })).toBe(false);
+      expect(canViewSubmissionFile('reviewers', stranger)).toBe(false);
+    });
+
+    it('should hide organizer files from reviewers', () => {
+      expect(canViewSubmissionFile('organizers', { ...stranger, role: 'reviewer', isAssignedReviewer: true })).toBe(false);
+    });
+
+    it('should show public files to anyone', () => {
+      expect(canViewSubmissionFile('public', stranger)).toBe(true);
+      expect(canViewSubmissionFile('public', { isAuthor: false, isAssignedReviewer: false })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseListParam,
+  parseSearchParams,
+  buildSearchConditions,
+  getSearchOrder
+} from '../../utils/submissionSearch';
+
+describe('Submission Search Utils', () => {
+  describe('parseListParam', () => {
+    it('should split comma-separated values and trim them', () => {
+      expect(parseListParam('CHE, BIO ,,CSE')).toEqual(['CHE', 'BIO', 'CSE']);
+    });
+
+    it('should accept repeated parameters and drop duplicates', () => {
+      expect(parseListParam(['oral', 'oral', 'poster'])).toEqual(['oral', 'poster']);
+    });
+
+    it('should drop values outside the allowed list', () => {
+      expect(parseListParam('CHE,XYZ', ['CHE', 'CSE'])).toEqual(['CHE']);
+    });
+
+    it('should return an empty list for missing values', () => {
+      expect(parseListParam(undefined)).toEqual([]);
+    });
+  });
+
+  describe('parseSearchParams', () => {
+    it('should apply defaults', () => {
+      const params = parseSearchParams({});
+
+      expect(params.q).toBeUndefined();
+      expect(params.sort).toBe('relevance');
+      expect(params.page).toBe(1);
+      expect(params.limit).toBe(20);
+    });
+
+    it('should never search drafts', () => {
+      expect(parseSearchParams({ status: 'draft,accepted' }).status).toEqual(['accepted']);
+    });
+
+    it('should treat a blank query as no query', () => {
+      expect(parseSearchParams({ q: '   ' }).q).toBeUndefined();
+    });
+
+    it('should clamp paging values', () => {
+      const params = parseSearchParams({ page: '0', limit: '500' });
+
+      expect(params.page).toBe(1);
+      expect(params.limit).toBe(100);
+    });
+  });
+
+  describe('buildSearchConditions', () => {
+    it('should exclude drafts without any filters', () => {
+      const { where, values } = buildSearchConditions(parseSearchParams({}));
+
+      expect(where).toBe("WHERE s.status <> 'draft'");
+      expect(values).toEqual([]);
+    });
+
+    it('should put the text query first and match the indexed title and abstract vectors', () => {
+      const { where, values } = buildSearchConditions(parseSearchParams({ q: 'protein folding', sessionType: 'BIO' }));
+
+      expect(values[0]).toBe('protein folding');
+      expect(where).toContain("to_tsvector('english', s.title) @@ websearch_to_tsquery('english', $1)");
+      expect(where).toContain("to_tsvector('english', s.abstract) @@ websearch_to_tsquery('english', $1)");
+      expect(where).toContain('s.session_type = ANY($2::text[])');
+      expect(values[1]).toEqual(['BIO']);
+    });
+
+    it('should require every selected keyword', () => {
+      const { where, values } = buildSearchConditions(parseSearchParams({ keywords: 'DFT,catalysis' }));
+
+      expect(where).toContain('s.keywords @> $1::text[]');
+      expect(values).toEqual([['DFT', 'catalysis']]);
+    });
+
+    it('should leave out the excluded facet so its counts cover every value', () => {
+      const params = parseSearchParams({ status: 'accepted', presentationType: 'poster' });
+      const { where, values } = buildSearchConditions(params, 'status');
+
+      expect(where).not.toContain('s.status = ANY');
+      expect(where).toContain('s.presentation_type = ANY($1::presentation_type[])');
+      expect(values).toEqual([['poster']]);
+    });
+
+    it('should limit the search to the given edition after the text query', () => {
+      const params = { ...parseSearchParams({ q: 'graphene' }), conferenceId: 'conf-2025' };
+      const { where, values } = buildSearchConditions(params);
+
+      expect(where).toContain('s.conference_id = $2');
+      expect(values).toEqual(['graphene', 'conf-2025']);
+    });
+
+    it('should not read the edition from the query string', () => {
+      expect(parseSearchParams({ conferenceId: 'conf-2025' }).conferenceId).toBeUndefined();
+    });
+  });
+
+  describe('getSearchOrder', () => {
+    it('should rank by relevance only when there is a text query', () => {
+      expect(getSearchOrder(parseSearchParams({ q: 'graphene' }))).toBe('rank DESC, s.created_at DESC');
+      expect(getSearchOrder(parseSearchParams({}))).toBe('s.created_at DESC');
+    });
+
+    it('should sort by title on request', () => {
+      expect(getSearchOrder(parseSearchParams({ q: 'graphene', sort: 'title' }))).toBe('s.title ASC, s.created_at DESC');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  SUBMISSION_STATUS_TRANSITIONS,
+  canTransition,
+  getAllowedTransitions,
+  withdrawalNeedsConfirmation
+} from '../../utils/submissionStatus';
+
+describe('Submission Status Transitions', () => {
+  describe('canTransition', () => {
+    it('should allow moving a new submission into review or to a decision', () => {
+      expect(canTransition('submitted', 'under_review')).toBe(true);
+      expect(canTransition('submitted', 'accepted')).toBe(true);
+      expect(canTransition('submitted', 'rejected')).toBe(true);
+    });
+
+    it('should only request revisions for submissions under review', () => {
+      expect(canTransition('under_review', 'revision_requested')).toBe(true);
+      expect(canTransition('submitted', 'revision_requested')).toBe(false);
+      expect(canTransition('revised', 'revision_requested')).toBe(false);
+    });
+
+    it('should follow the resubmission cycle', () => {
+      expect(canTransition('revision_requested', 'revised')).toBe(true);
+      expect(canTransition('revised', 'under_review')).toBe(true);
+      expect(canTransition('revision_requested', 'accepted')).toBe(false);
+    });
+
+    it('should treat accepted and rejected as final', () => {
+      expect(canTransition('rejected', 'submitted')).toBe(false);
+      expect(canTransition('rejected', 'accepted')).toBe(false);
+      expect(canTransition('accepted', 'rejected')).toBe(false);
+      expect(canTransition('accepted', 'under_review')).toBe(false);
+    });
+
+    it('should not allow staying in the same status', () => {
+      Object.keys(SUBMISSION_STATUS_TRANSITIONS).forEach(status => {
+        const current = status as keyof typeof SUBMISSION_STATUS_TRANSITIONS;
+        expect(canTransition(current, current)).toBe(false);
+      });
+    });
+
+    it('should only reach submitted by finalizing a draft', () => {
+      Object.entries(SUBMISSION_STATUS_TRANSITIONS).forEach(([from, targets]) => {
+        expect(targets.includes('submitted')).toBe(from === 'draft');
+      });
+    });
+
+    it('should never move a submission back to draft', () => {
+      Object.values(SUBMISSION_STATUS_TRANSITIONS).forEach(targets => {
+        expect(targets).not.toContain('draft');
+      });
+    });
+
+    it('should not let a draft skip straight to review or a decision', () => {
+      expect(canTransition('draft', 'submitted')).toBe(true);
+      expect(canTransition('draft', 'under_review')).toBe(false);
+      expect(canTransition('draft', 'accepted')).toBe(false);
+    });
+
+    it('should allow withdrawing finalized submissions until they are rejected', () => {
+      expect(canTransition('submitted', 'withdrawn')).toBe(true);
+      expect(canTransition('under_review', 'withdrawn')).toBe(true);
+      expect(canTransition('accepted', 'withdrawn')).toBe(true);
+      expect(canTransition('draft', 'withdrawn')).toBe(false);
+      expect(canTransition('rejected', 'withdrawn')).toBe(false);
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('should return no transitions for final statuses', () => {
+      expect(getAllowedTransitions('rejected')).toEqual([]);
+      expect(getAllowedTransitions('withdrawn')).toEqual([]);
+    });
+
+    it('should only allow withdrawing an accepted submission', () => {
+      expect(getAllowedTransitions('accepted')).toEqual(['withdrawn']);
+    });
+
+    it('should return an empty list for unknown statuses', () => {
+      expect(getAllowedTransitions('unknown' as any)).toEqual([]);
+    });
+  });
+
+  describe('withdrawalNeedsConfirmation', () => {
+    it('should withdraw immediately before review starts', () => {
+      expect(withdrawalNeedsConfirmation('submitted', 0)).toBe(false);
+    });
+
+    it('should require confirmation once reviewers are assigned', () => {
+      expect(withdrawalNeedsConfirmation('submitted', 1)).toBe(true);
+    });
+
+    it('should require confirmation for submissions past the submitted status', () => {
+      expect(withdrawalNeedsConfirmation('under_review', 0)).toBe(true);
+      expect(withdrawalNeedsConfirmation('accepted', 0)).toBe(true);
+    });
+  });
+});
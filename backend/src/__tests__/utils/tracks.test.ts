@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_TRACK_CHAIRS,
+  normalizeTrackCode,
+  isTrackCode,
+  normalizeTrackChairs,
+  getTrackName
+} from '../../utils/tracks';
+
+describe('Track Utils', () => {
+  describe('isTrackCode', () => {
+    it('should accept short upper-case codes', () => {
+      expect(isTrackCode('CHE')).toBe(true);
+      expect(isTrackCode('HPC-AI')).toBe(true);
+      expect(isTrackCode('ML_2')).toBe(true);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(isTrackCode('che')).toBe(false);
+      expect(isTrackCode('C')).toBe(false);
+      expect(isTrackCode('2BIO')).toBe(false);
+      expect(isTrackCode('BIO CHEM')).toBe(false);
+      expect(isTrackCode('A'.repeat(21))).toBe(false);
+      expect(isTrackCode(undefined)).toBe(false);
+    });
+  });
+
+  describe('normalizeTrackCode', () => {
+    it('should trim and upper-case codes', () => {
+      expect(normalizeTrackCode(' hpc-ai ')).toBe('HPC-AI');
+    });
+  });
+
+  describe('normalizeTrackChairs', () => {
+    it('should tidy chairs and drop those without a name', () => {
+      const chairs = normalizeTrackChairs([
+        { name: ' Jane   Smith ', email: ' Jane@Example.ORG ', affiliation: ' MIT ' },
+        { name: '  ', email: 'nobody@example.org' },
+        { name: 'Ken Lee' }
+      ]);
+
+      expect(chairs).toEqual([
+        { name: 'Jane Smith', email: 'jane@example.org', affiliation: 'MIT' },
+        { name: 'Ken Lee' }
+      ]);
+    });
+
+    it('should cap the number of chairs', () => {
+      const chairs = Array.from({ length: MAX_TRACK_CHAIRS + 3 }, (_, i) => ({ name: `Chair ${i}` }));
+      expect(normalizeTrackChairs(chairs)).toHaveLength(MAX_TRACK_CHAIRS);
+    });
+
+    it('should handle a missing list', () => {
+      expect(normalizeTrackChairs(null)).toEqual([]);
+    });
+  });
+
+  describe('getTrackName', () => {
+    const tracks = [
+      { code: 'CHE', name: 'Computational Chemistry' },
+      { code: 'BIO', name: 'Computational Biology' }
+    ];
+
+    it('should look up the track name by code', () => {
+      expect(getTrackName(tracks, 'BIO')).toBe('Computational Biology');
+    });
+
+    it('should fall back to the code for unknown tracks', () => {
+      expect(getTrackName(tracks, 'OLD')).toBe('OLD');
+      expect(getTrackName(tracks, null)).toBe('');
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { Response } from 'express';
 import { AbstractBookService, AbstractBookFilters, AbstractBookTemplate } from '../services/AbstractBookService.js';
 import { AuthenticatedRequest } from '../types/index.js';
 import { SessionType, PresentationType, SubmissionStatus } from '../types/database.js';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { isTrackCode } from '../utils/tracks.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -30,7 +32,7 @@ export class AbstractBookController {
       const filters = this.parseFilters(req.query);
 
       // Collect abstract data
-      const abstractBookData = await this.abstractBookService.collectAbstracts(filters);
+      const abstractBookData = await this.abstractBookService.collectAbstracts(filters, req.conferenceId);
 
       res.json({
         success: true,
@@ -84,7 +86,7 @@ export class AbstractBookController {
       const filters = this.parseFilters(req.body.filters || {});
 
       // Collect abstract data
-      const abstractBookData = await this.abstractBookService.collectAbstracts(filters);
+      const abstractBookData = await this.abstractBookService.collectAbstracts(filters, req.conferenceId);
 
       if (abstractBookData.metadata.totalAbstracts === 0) {
         res.status(400).json({
@@ -99,7 +101,7 @@ export class AbstractBookController {
       if (customTemplate) {
         template = customTemplate;
       } else {
-        template = await this.abstractBookService.createDefaultTemplate();
+        template = await this.abstractBookService.createDefaultTemplate(req.conferenceId);
       }
 
       // Generate HTML
@@ -156,7 +158,7 @@ export class AbstractBookController {
         return;
       }
 
-      const template = await this.abstractBookService.createDefaultTemplate();
+      const template = await this.abstractBookService.createDefaultTemplate(req.conferenceId);
 
       res.json({
         success: true,
@@ -172,6 +174,45 @@ export class AbstractBookController {
     }
   }
 
+  /**
+   * Save the edition's template; a null template restores the default
+   */
+  async saveTemplate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Validate user permissions (admin only)
+      if (req.user?.role !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Admin access required' }
+        });
+        return;
+      }
+
+      const { template } = req.body;
+      if (template !== null && (typeof template !== 'object' || Array.isArray(template))) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_TEMPLATE', message: 'Template must be an object or null' }
+        });
+        return;
+      }
+
+      await this.abstractBookService.saveTemplate(template, req.conferenceId);
+
+      res.json({
+        success: true,
+        data: await this.abstractBookService.createDefaultTemplate(req.conferenceId)
+      });
+
+    } catch (error) {
+      console.error('Error saving template:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to save template' }
+      });
+    }
+  }
+
   /**
    * Get available filter options
    */
@@ -186,13 +227,12 @@ export class AbstractBookController {
         return;
       }
 
-      const sessionTypes: { value: SessionType; label: string }[] = [
-        { value: 'CHE', label: 'Computational Chemistry' },
-        { value: 'CSE', label: 'High Performance Computing/Computer Science/Engineering' },
-        { value: 'BIO', label: 'Computational Biology/Bioinformatics/Biochemistry/Biophysics' },
-        { value: 'MST', label: 'Mathematics and Statistics' },
-        { value: 'PFD', label: 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics' }
-      ];
+      const tracks = await TrackRepository.findByConference(req.conferenceId!, true);
+      const sessionTypes: { value: SessionType; label: string; color: string }[] = tracks.map(track => ({
+        value: track.code,
+        label: track.name,
+        color: track.color
+      }));
 
       const presentationTypes: { value: PresentationType; label: string }[] = [
         { value: 'oral', label: 'Oral Presentation' },
@@ -240,14 +280,10 @@ export class AbstractBookController {
     // Parse session types
     if (params.sessionTypes) {
       if (Array.isArray(params.sessionTypes)) {
-        filters.sessionTypes = params.sessionTypes.filter((type: string) => 
-          ['CHE', 'CSE', 'BIO', 'MST', 'PFD'].includes(type)
-        );
+        filters.sessionTypes = params.sessionTypes.filter(isTrackCode);
       } else if (typeof params.sessionTypes === 'string') {
         const types = params.sessionTypes.split(',').map((s: string) => s.trim());
-        filters.sessionTypes = types.filter((type: string) => 
-          ['CHE', 'CSE', 'BIO', 'MST', 'PFD'].includes(type)
-        );
+        filters.sessionTypes = types.filter(isTrackCode);
       }
     }
 
@@ -308,7 +344,7 @@ export class AbstractBookController {
       const filters = this.parseFilters(req.body.filters || {});
 
       // Collect abstract data
-      const abstractBookData = await this.abstractBookService.collectAbstracts(filters);
+      const abstractBookData = await this.abstractBookService.collectAbstracts(filters, req.conferenceId);
 
       if (abstractBookData.metadata.totalAbstracts === 0) {
         res.status(400).json({
@@ -323,7 +359,7 @@ export class AbstractBookController {
       if (customTemplate) {
         template = customTemplate;
       } else {
-        template = await this.abstractBookService.createDefaultTemplate();
+        template = await this.abstractBookService.createDefaultTemplate(req.conferenceId);
       }
 
       // Generate HTML
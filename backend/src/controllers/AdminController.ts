@@ -3,14 +3,43 @@ import { Database } from '../database/connection.js';
 import { UserRepository } from '../models/UserRepository.js';
 import { SubmissionRepository } from '../models/SubmissionRepository.js';
 import { ReviewRepository } from '../models/ReviewRepository.js';
+import { SimilarityRepository } from '../models/SimilarityRepository.js';
+import { ConferenceRepository } from '../models/ConferenceRepository.js';
+import { DeadlineExtensionRepository } from '../models/DeadlineExtensionRepository.js';
+import { WithdrawalRepository } from '../models/WithdrawalRepository.js';
+import { DecisionRepository } from '../models/DecisionRepository.js';
+import { PresentationProposalRepository } from '../models/PresentationProposalRepository.js';
+import { RegistrationRepository } from '../models/RegistrationRepository.js';
+import {
+  conferenceValidation,
+  decisionValidation,
+  deadlineExtensionValidation,
+  enumValidation,
+  presentationProposalValidation,
+  withdrawalValidation
+} from '../models/validation.js';
 import { EmailService } from '../services/EmailService.js';
+import { similarityService, DEFAULT_SIMILARITY_THRESHOLD } from '../services/SimilarityService.js';
+import { auditService } from '../services/AuditService.js';
+import { withdrawalService } from '../services/WithdrawalService.js';
+import { decisionService } from '../services/DecisionService.js';
+import { presentationProposalService } from '../services/PresentationProposalService.js';
+import { canTransition } from '../utils/submissionStatus.js';
+import { getRecommendationConsensus, matchesDecisionCriteria } from '../utils/bulkDecisions.js';
 import { AuthenticatedRequest } from '../middleware/auth.js';
 import { 
   UserRole, 
   PaymentStatus,
   UserResponse,
   SessionType,
-  SubmissionStatus 
+  SubmissionStatus,
+  SimilarityFlagStatus,
+  WithdrawalStatus,
+  ReviewWithdrawalRequest,
+  CreateDecisionBatchRequest,
+  DecisionCriteria,
+  CreatePresentationProposalRequest,
+  PresentationProposalStatus
 } from '../types/index.js';
 
 export class AdminController {
@@ -27,6 +56,7 @@ export class AdminController {
         role, 
         participantType, 
         paymentStatus,
+        registered,
         search 
       } = req.query;
 
@@ -34,52 +64,61 @@ export class AdminController {
       const limitNum = parseInt(limit as string);
       const offset = (pageNum - 1) * limitNum;
 
-      // Build query conditions
-      const conditions: string[] = ['is_active = true'];
-      const values: any[] = [];
-      let paramCount = 1;
+      // Build query conditions; registration columns come from the edition being managed
+      const conditions: string[] = ['u.is_active = true'];
+      const values: any[] = [req.conferenceId];
+      let paramCount = 2;
 
       if (role) {
-        conditions.push(`role = $${paramCount}`);
+        conditions.push(`u.role = $${paramCount}`);
         values.push(role);
         paramCount++;
       }
 
       if (participantType) {
-        conditions.push(`participant_type = $${paramCount}`);
+        conditions.push(`COALESCE(r.participant_type, u.participant_type) = $${paramCount}`);
         values.push(participantType);
         paramCount++;
       }
 
       if (paymentStatus) {
-        conditions.push(`payment_status = $${paramCount}`);
+        conditions.push(`COALESCE(r.payment_status, 'not_paid') = $${paramCount}`);
         values.push(paymentStatus);
         paramCount++;
       }
 
+      if (registered === 'true' || registered === 'false') {
+        conditions.push(registered === 'true' ? 'r.id IS NOT NULL' : 'r.id IS NULL');
+      }
+
       if (search) {
         conditions.push(`(
-          LOWER(first_name) LIKE LOWER($${paramCount}) OR 
-          LOWER(last_name) LIKE LOWER($${paramCount}) OR 
-          LOWER(email) LIKE LOWER($${paramCount}) OR 
-          LOWER(affiliation) LIKE LOWER($${paramCount})
+          LOWER(u.first_name) LIKE LOWER($${paramCount}) OR 
+          LOWER(u.last_name) LIKE LOWER($${paramCount}) OR 
+          LOWER(u.email) LIKE LOWER($${paramCount}) OR 
+          LOWER(u.affiliation) LIKE LOWER($${paramCount})
         )`);
         values.push(`%${search}%`);
         paramCount++;
       }
 
       const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const fromClause = `
+        FROM users u
+        LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = $1
+      `;
 
       // Get total count
-      const countQuery = `SELECT COUNT(*) FROM users ${whereClause}`;
+      const countQuery = `SELECT COUNT(*) ${fromClause} ${whereClause}`;
       const countResult = await Database.query(countQuery, values);
       const totalUsers = parseInt(countResult.rows[0].count);
 
       // Get users with pagination
       const usersQuery = `
-        SELECT * FROM users 
+        SELECT u.*, r.payment_status, r.registration_fee, r.id IS NOT NULL AS is_registered
+        ${fromClause}
         ${whereClause}
-        ORDER BY created_at DESC
+        ORDER BY u.created_at DESC
         LIMIT $${paramCount} OFFSET $${paramCount + 1}
       `;
       values.push(limitNum, offset);
@@ -90,7 +129,7 @@ export class AdminController {
       // Get sessions for each user
       const usersWithSessions: UserResponse[] = [];
       for (const user of users) {
-        const sessions = await UserRepository.getUserSessions(user.id);
+        const sessions = await UserRepository.getUserSessions(user.id, req.conferenceId);
         usersWithSessions.push(UserRepository.mapUserToResponse(user, sessions));
       }
 
@@ -203,14 +242,14 @@ export class AdminController {
         return;
       }
 
-      const updatedUser = await UserRepository.updatePaymentStatus(userId, paymentStatus);
+      const registration = await RegistrationRepository.updatePaymentStatus(req.conferenceId!, userId, paymentStatus);
       
-      if (!updatedUser) {
+      if (!registration) {
         res.status(404).json({
           success: false,
           error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found'
+            code: 'REGISTRATION_NOT_FOUND',
+            message: 'User is not registered for this conference'
           },
           timestamp: new Date().toISOString()
         });
@@ -300,8 +339,10 @@ export class AdminController {
    * Get user statistics and analytics
    * GET /api/admin/users/statistics
    */
-  static async getUserStatistics(_req: Request, res: Response): Promise<void> {
+  static async getUserStatistics(req: Request, res: Response): Promise<void> {
     try {
+      const conferenceId = req.conferenceId;
+
       // Get user counts by role
       const roleStatsQuery = `
         SELECT role, COUNT(*) as count 
@@ -315,14 +356,15 @@ export class AdminController {
         return acc;
       }, {});
 
-      // Get user counts by participant type
+      // Get registration counts by participant type
       const participantStatsQuery = `
-        SELECT participant_type, COUNT(*) as count 
-        FROM users 
-        WHERE is_active = true 
-        GROUP BY participant_type
+        SELECT r.participant_type, COUNT(*) as count 
+        FROM conference_registrations r
+        JOIN users u ON u.id = r.user_id
+        WHERE u.is_active = true AND r.conference_id = $1
+        GROUP BY r.participant_type
       `;
-      const participantStatsResult = await Database.query(participantStatsQuery);
+      const participantStatsResult = await Database.query(participantStatsQuery, [conferenceId]);
       const participantStats = participantStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.participant_type] = parseInt(row.count);
         return acc;
@@ -330,12 +372,13 @@ export class AdminController {
 
       // Get payment status statistics
       const paymentStatsQuery = `
-        SELECT payment_status, COUNT(*) as count 
-        FROM users 
-        WHERE is_active = true 
-        GROUP BY payment_status
+        SELECT r.payment_status, COUNT(*) as count 
+        FROM conference_registrations r
+        JOIN users u ON u.id = r.user_id
+        WHERE u.is_active = true AND r.conference_id = $1
+        GROUP BY r.payment_status
       `;
-      const paymentStatsResult = await Database.query(paymentStatsQuery);
+      const paymentStatsResult = await Database.query(paymentStatsQuery, [conferenceId]);
       const paymentStats = paymentStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.payment_status] = parseInt(row.count);
         return acc;
@@ -343,14 +386,16 @@ export class AdminController {
 
       // Get registration timeline (last 30 days)
       const timelineQuery = `
-        SELECT DATE(created_at) as date, COUNT(*) as registrations
-        FROM users 
-        WHERE is_active = true 
-          AND created_at >= CURRENT_DATE - INTERVAL '30 days'
-        GROUP BY DATE(created_at)
+        SELECT DATE(r.registered_at) as date, COUNT(*) as registrations
+        FROM conference_registrations r
+        JOIN users u ON u.id = r.user_id
+        WHERE u.is_active = true 
+          AND r.conference_id = $1
+          AND r.registered_at >= CURRENT_DATE - INTERVAL '30 days'
+        GROUP BY DATE(r.registered_at)
         ORDER BY date
       `;
-      const timelineResult = await Database.query(timelineQuery);
+      const timelineResult = await Database.query(timelineQuery, [conferenceId]);
       const registrationTimeline = timelineResult.rows;
 
       // Get session popularity
@@ -358,22 +403,31 @@ export class AdminController {
         SELECT session_type, COUNT(*) as count
         FROM user_sessions us
         JOIN users u ON us.user_id = u.id
-        WHERE u.is_active = true
+        WHERE u.is_active = true AND us.conference_id = $1
         GROUP BY session_type
         ORDER BY count DESC
       `;
-      const sessionStatsResult = await Database.query(sessionStatsQuery);
+      const sessionStatsResult = await Database.query(sessionStatsQuery, [conferenceId]);
       const sessionStats = sessionStatsResult.rows;
 
       // Get total counts
-      const totalUsersQuery = 'SELECT COUNT(*) as total FROM users WHERE is_active = true';
-      const totalUsersResult = await Database.query(totalUsersQuery);
+      const totalUsersQuery = `
+        SELECT
+          COUNT(*) as total,
+          COUNT(r.id) as registered
+        FROM users u
+        LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = $1
+        WHERE u.is_active = true
+      `;
+      const totalUsersResult = await Database.query(totalUsersQuery, [conferenceId]);
       const totalUsers = parseInt(totalUsersResult.rows[0].total);
+      const registeredUsers = parseInt(totalUsersResult.rows[0].registered);
 
       res.json({
         success: true,
         data: {
           totalUsers,
+          registeredUsers,
           roleDistribution: roleStats,
           participantTypeDistribution: participantStats,
           paymentStatusDistribution: paymentStats,
@@ -400,15 +454,18 @@ export class AdminController {
    * Get submission statistics and monitoring data
    * GET /api/admin/submissions/statistics
    */
-  static async getSubmissionStatistics(_req: Request, res: Response): Promise<void> {
+  static async getSubmissionStatistics(req: Request, res: Response): Promise<void> {
     try {
+      const conferenceId = req.conferenceId;
+
       // Get submission counts by status
       const statusStatsQuery = `
         SELECT status, COUNT(*) as count 
         FROM submissions 
+        WHERE conference_id = $1 AND status <> 'draft'
         GROUP BY status
       `;
-      const statusStatsResult = await Database.query(statusStatsQuery);
+      const statusStatsResult = await Database.query(statusStatsQuery, [conferenceId]);
       const statusStats = statusStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.status] = parseInt(row.count);
         return acc;
@@ -418,9 +475,10 @@ export class AdminController {
       const sessionStatsQuery = `
         SELECT session_type, COUNT(*) as count 
         FROM submissions 
+        WHERE conference_id = $1 AND status <> 'draft'
         GROUP BY session_type
       `;
-      const sessionStatsResult = await Database.query(sessionStatsQuery);
+      const sessionStatsResult = await Database.query(sessionStatsQuery, [conferenceId]);
       const sessionStats = sessionStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.session_type] = parseInt(row.count);
         return acc;
@@ -430,28 +488,29 @@ export class AdminController {
       const timelineQuery = `
         SELECT DATE(created_at) as date, COUNT(*) as submissions
         FROM submissions 
-        WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'
+        WHERE conference_id = $1 AND created_at >= CURRENT_DATE - INTERVAL '30 days' AND status <> 'draft'
         GROUP BY DATE(created_at)
         ORDER BY date
       `;
-      const timelineResult = await Database.query(timelineQuery);
+      const timelineResult = await Database.query(timelineQuery, [conferenceId]);
       const submissionTimeline = timelineResult.rows;
 
       // Get presentation type distribution
       const presentationStatsQuery = `
         SELECT presentation_type, COUNT(*) as count 
         FROM submissions 
+        WHERE conference_id = $1 AND status <> 'draft'
         GROUP BY presentation_type
       `;
-      const presentationStatsResult = await Database.query(presentationStatsQuery);
+      const presentationStatsResult = await Database.query(presentationStatsQuery, [conferenceId]);
       const presentationStats = presentationStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.presentation_type] = parseInt(row.count);
         return acc;
       }, {});
 
       // Get total submissions
-      const totalSubmissionsQuery = 'SELECT COUNT(*) as total FROM submissions';
-      const totalSubmissionsResult = await Database.query(totalSubmissionsQuery);
+      const totalSubmissionsQuery = "SELECT COUNT(*) as total FROM submissions WHERE conference_id = $1 AND status <> 'draft'";
+      const totalSubmissionsResult = await Database.query(totalSubmissionsQuery, [conferenceId]);
       const totalSubmissions = parseInt(totalSubmissionsResult.rows[0].total);
 
       res.json({
@@ -483,27 +542,32 @@ export class AdminController {
    * Get review progress and monitoring data
    * GET /api/admin/reviews/progress
    */
-  static async getReviewProgress(_req: Request, res: Response): Promise<void> {
+  static async getReviewProgress(req: Request, res: Response): Promise<void> {
     try {
+      const conferenceId = req.conferenceId;
+
       // Get review completion statistics
       const reviewStatsQuery = `
         SELECT 
           COUNT(*) as total_reviews,
-          COUNT(CASE WHEN is_completed = true THEN 1 END) as completed_reviews,
-          COUNT(CASE WHEN is_completed = false THEN 1 END) as pending_reviews
-        FROM reviews
+          COUNT(CASE WHEN r.is_completed = true THEN 1 END) as completed_reviews,
+          COUNT(CASE WHEN r.is_completed = false THEN 1 END) as pending_reviews
+        FROM reviews r
+        JOIN submissions s ON s.id = r.submission_id
+        WHERE s.conference_id = $1
       `;
-      const reviewStatsResult = await Database.query(reviewStatsQuery);
+      const reviewStatsResult = await Database.query(reviewStatsQuery, [conferenceId]);
       const reviewStats = reviewStatsResult.rows[0];
 
       // Get reviews by recommendation
       const recommendationStatsQuery = `
-        SELECT recommendation, COUNT(*) as count 
-        FROM reviews 
-        WHERE is_completed = true
-        GROUP BY recommendation
+        SELECT r.recommendation, COUNT(*) as count 
+        FROM reviews r
+        JOIN submissions s ON s.id = r.submission_id
+        WHERE r.is_completed = true AND s.conference_id = $1
+        GROUP BY r.recommendation
       `;
-      const recommendationStatsResult = await Database.query(recommendationStatsQuery);
+      const recommendationStatsResult = await Database.query(recommendationStatsQuery, [conferenceId]);
       const recommendationStats = recommendationStatsResult.rows.reduce((acc: Record<string, number>, row: any) => {
         acc[row.recommendation] = parseInt(row.count);
         return acc;
@@ -520,11 +584,12 @@ export class AdminController {
           COUNT(CASE WHEN r.is_completed = false THEN 1 END) as pending
         FROM users u
         LEFT JOIN reviews r ON u.id = r.reviewer_id
+          AND r.submission_id IN (SELECT id FROM submissions WHERE conference_id = $1)
         WHERE u.role IN ('reviewer', 'admin', 'organizer')
         GROUP BY u.id, u.first_name, u.last_name, u.email
         ORDER BY total_assigned DESC
       `;
-      const workloadResult = await Database.query(workloadQuery);
+      const workloadResult = await Database.query(workloadQuery, [conferenceId]);
       const reviewerWorkload = workloadResult.rows;
 
       // Get submissions needing reviews
@@ -538,12 +603,12 @@ export class AdminController {
           ARRAY_AGG(r.reviewer_id) FILTER (WHERE r.reviewer_id IS NOT NULL) as assigned_reviewers
         FROM submissions s
         LEFT JOIN reviews r ON s.id = r.submission_id
-        WHERE s.status IN ('submitted', 'under_review')
+        WHERE s.conference_id = $1 AND s.status IN ('submitted', 'under_review')
         GROUP BY s.id, s.title, s.session_type, s.status
         HAVING COUNT(r.id) < 3
         ORDER BY s.created_at ASC
       `;
-      const needsReviewResult = await Database.query(needsReviewQuery);
+      const needsReviewResult = await Database.query(needsReviewQuery, [conferenceId]);
       const submissionsNeedingReview = needsReviewResult.rows;
 
       res.json({
@@ -613,10 +678,11 @@ export class AdminController {
         JOIN submissions s ON r.submission_id = s.id
         WHERE r.reviewer_id = ANY($1) 
           AND r.is_completed = false
+          AND s.conference_id = $2
         ORDER BY r.created_at ASC
       `;
       
-      const pendingReviewsResult = await Database.query(pendingReviewsQuery, [reviewerIds]);
+      const pendingReviewsResult = await Database.query(pendingReviewsQuery, [reviewerIds, req.conferenceId]);
       const pendingReviews = pendingReviewsResult.rows;
 
       if (pendingReviews.length === 0) {
@@ -709,8 +775,10 @@ export class AdminController {
    * Get detailed submission and review monitoring dashboard
    * GET /api/admin/monitoring/dashboard
    */
-  static async getMonitoringDashboard(_req: Request, res: Response): Promise<void> {
+  static async getMonitoringDashboard(req: Request, res: Response): Promise<void> {
     try {
+      const conferenceId = req.conferenceId;
+
       // Get submissions by status and session
       const submissionOverviewQuery = `
         SELECT 
@@ -718,10 +786,11 @@ export class AdminController {
           status,
           COUNT(*) as count
         FROM submissions
+        WHERE conference_id = $1
         GROUP BY session_type, status
         ORDER BY session_type, status
       `;
-      const submissionOverviewResult = await Database.query(submissionOverviewQuery);
+      const submissionOverviewResult = await Database.query(submissionOverviewQuery, [conferenceId]);
       
       // Transform data for easier frontend consumption
       const submissionOverview: Record<string, Record<string, number>> = {};
@@ -743,6 +812,7 @@ export class AdminController {
             s.status as status
           FROM submissions s
           JOIN users u ON s.user_id = u.id
+          WHERE s.conference_id = $1
           ORDER BY s.created_at DESC
           LIMIT 10
         )
@@ -757,13 +827,14 @@ export class AdminController {
           FROM reviews r
           JOIN submissions s ON r.submission_id = s.id
           JOIN users u ON r.reviewer_id = u.id
+          WHERE s.conference_id = $1
           ORDER BY r.updated_at DESC
           LIMIT 10
         )
         ORDER BY timestamp DESC
         LIMIT 20
       `;
-      const recentActivityResult = await Database.query(recentActivityQuery);
+      const recentActivityResult = await Database.query(recentActivityQuery, [conferenceId]);
       const recentActivity = recentActivityResult.rows;
 
       // Get overdue reviews (reviews assigned more than 14 days ago and not completed)
@@ -780,10 +851,11 @@ export class AdminController {
         JOIN submissions s ON r.submission_id = s.id
         JOIN users u ON r.reviewer_id = u.id
         WHERE r.is_completed = false 
+          AND s.conference_id = $1
           AND r.created_at < CURRENT_TIMESTAMP - INTERVAL '14 days'
         ORDER BY r.created_at ASC
       `;
-      const overdueReviewsResult = await Database.query(overdueReviewsQuery);
+      const overdueReviewsResult = await Database.query(overdueReviewsQuery, [conferenceId]);
       const overdueReviews = overdueReviewsResult.rows;
 
       res.json({
@@ -816,81 +888,92 @@ export class AdminController {
   }
 
   /**
-   * Get system health and status information
-   * GET /api/admin/system/health
+   * Get flagged near-duplicate submission pairs
+   * GET /api/admin/submissions/similarity
    */
-  static async getSystemHealth(_req: Request, res: Response): Promise<void> {
+  static async getSimilarityFlags(req: Request, res: Response): Promise<void> {
     try {
-      // Check database connection
-      const dbHealthQuery = 'SELECT NOW() as current_time, version() as db_version';
-      const dbHealthResult = await Database.query(dbHealthQuery);
-      const dbHealth = {
-        status: 'healthy',
-        currentTime: dbHealthResult.rows[0].current_time,
-        version: dbHealthResult.rows[0].db_version,
-        responseTime: Date.now()
-      };
+      const { status, minScore } = req.query;
 
-      // Get database statistics
-      const dbStatsQuery = `
-        SELECT 
-          schemaname,
-          tablename,
-          n_tup_ins as inserts,
-          n_tup_upd as updates,
-          n_tup_del as deletes,
-          n_live_tup as live_tuples,
-          n_dead_tup as dead_tuples
-        FROM pg_stat_user_tables
-        ORDER BY schemaname, tablename
-      `;
-      const dbStatsResult = await Database.query(dbStatsQuery);
-      const databaseStats = dbStatsResult.rows;
+      if (status && !['open', 'dismissed', 'confirmed'].includes(status as string)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: 'Status must be one of open, dismissed or confirmed'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
 
-      // Get system metrics
-      const systemMetrics = {
-        uptime: process.uptime(),
-        memoryUsage: process.memoryUsage(),
-        nodeVersion: process.version,
-        platform: process.platform,
-        arch: process.arch,
-        pid: process.pid
-      };
+      const flags = await SimilarityRepository.findFlags({
+        status: status as SimilarityFlagStatus | undefined,
+        minScore: minScore !== undefined ? parseFloat(minScore as string) : undefined
+      });
 
-      // Get application statistics
-      const appStatsQueries = await Promise.all([
-        Database.query('SELECT COUNT(*) as count FROM users WHERE is_active = true'),
-        Database.query('SELECT COUNT(*) as count FROM submissions'),
-        Database.query('SELECT COUNT(*) as count FROM reviews'),
-        Database.query('SELECT COUNT(*) as count FROM payment_records')
-      ]);
+      res.json({
+        success: true,
+        data: {
+          flags,
+          threshold: DEFAULT_SIMILARITY_THRESHOLD
+        },
+        timestamp: new Date().toISOString()
+      });
 
-      const applicationStats = {
-        activeUsers: parseInt(appStatsQueries[0].rows[0].count),
-        totalSubmissions: parseInt(appStatsQueries[1].rows[0].count),
-        totalReviews: parseInt(appStatsQueries[2].rows[0].count),
-        totalPayments: parseInt(appStatsQueries[3].rows[0].count)
-      };
+    } catch (error) {
+      console.error('Get similarity flags error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_SIMILARITY_FLAGS_FAILED',
+          message: 'Failed to fetch similarity flags'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Rescan all finalized submissions for near duplicates
+   * POST /api/admin/submissions/similarity/scan
+   */
+  static async scanSimilarity(req: Request, res: Response): Promise<void> {
+    try {
+      const threshold = req.body?.threshold !== undefined
+        ? parseFloat(req.body.threshold)
+        : DEFAULT_SIMILARITY_THRESHOLD;
+
+      if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_THRESHOLD',
+            message: 'Threshold must be a number between 0 and 1'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const result = await similarityService.scanAll(threshold);
 
       res.json({
         success: true,
         data: {
-          database: dbHealth,
-          databaseStats,
-          system: systemMetrics,
-          application: applicationStats,
-          timestamp: new Date().toISOString()
+          ...result,
+          threshold
         },
         timestamp: new Date().toISOString()
       });
 
     } catch (error) {
-      console.error('Get system health error:', error);
+      console.error('Scan similarity error:', error);
       res.status(500).json({
         success: false,
         error: {
-          code: 'SYSTEM_HEALTH_CHECK_FAILED',
-          message: 'Failed to check system health'
+          code: 'SCAN_SIMILARITY_FAILED',
+          message: 'Failed to scan submissions for similarity'
         },
         timestamp: new Date().toISOString()
       });
@@ -898,93 +981,104 @@ export class AdminController {
   }
 
   /**
-   * Get system configuration settings
-   * GET /api/admin/system/config
+   * Side-by-side diff of two submissions
+   * GET /api/admin/submissions/similarity/diff?left=:id&right=:id
    */
-  static async getSystemConfig(_req: Request, res: Response): Promise<void> {
+  static async getSimilarityDiff(req: Request, res: Response): Promise<void> {
     try {
-      // Get conference configuration
-      const conferenceQuery = `
-        SELECT 
-          id,
-          name,
-          description,
-          start_date,
-          end_date,
-          venue,
-          registration_deadline,
-          submission_deadline,
-          created_at,
-          updated_at
-        FROM conferences 
-        ORDER BY created_at DESC 
-        LIMIT 1
-      `;
-      const conferenceResult = await Database.query(conferenceQuery);
-      const conference = conferenceResult.rows[0] || null;
-
-      // Get session configuration
-      const sessionsQuery = `
-        SELECT 
-          id,
-          conference_id,
-          type,
-          name,
-          description,
-          created_at
-        FROM sessions
-        ORDER BY type
-      `;
-      const sessionsResult = await Database.query(sessionsQuery);
-      const sessions = sessionsResult.rows;
+      const { left, right } = req.query;
 
-      // Get payment instructions
-      const paymentQuery = `
-        SELECT 
-          id,
-          conference_id,
-          bank_name,
-          account_name,
-          account_number,
-          swift_code,
-          routing_number,
-          instructions,
-          support_contact,
-          created_at,
-          updated_at
-        FROM payment_instructions
-        ORDER BY created_at DESC
-        LIMIT 1
-      `;
-      const paymentResult = await Database.query(paymentQuery);
-      const paymentInstructions = paymentResult.rows[0] || null;
+      if (typeof left !== 'string' || typeof right !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SUBMISSION_IDS',
+            message: 'Both left and right submission IDs are required'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
 
-      // Get environment configuration (safe values only)
-      const environmentConfig = {
-        nodeEnv: process.env.NODE_ENV || 'development',
-        port: process.env.PORT || '5000',
-        frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-        // Don't expose sensitive values like database credentials
-      };
+      const diff = await similarityService.getDiff(left, right);
+      if (!diff) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_FOUND',
+            message: 'Submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
 
       res.json({
         success: true,
-        data: {
-          conference,
-          sessions,
-          paymentInstructions,
-          environment: environmentConfig
+        data: diff,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get similarity diff error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_SIMILARITY_DIFF_FAILED',
+          message: 'Failed to compare submissions'
         },
         timestamp: new Date().toISOString()
       });
+    }
+  }
+
+  /**
+   * Dismiss or confirm a flagged pair
+   * PATCH /api/admin/submissions/similarity/:flagId
+   */
+  static async reviewSimilarityFlag(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { flagId } = req.params;
+      const { status } = req.body;
+
+      if (!['open', 'dismissed', 'confirmed'].includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: 'Status must be one of open, dismissed or confirmed'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const flag = await SimilarityRepository.updateFlagStatus(flagId, status, req.user.userId);
+      if (!flag) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'FLAG_NOT_FOUND',
+            message: 'Similarity flag not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: flag,
+        timestamp: new Date().toISOString()
+      });
 
     } catch (error) {
-      console.error('Get system config error:', error);
+      console.error('Review similarity flag error:', error);
       res.status(500).json({
         success: false,
         error: {
-          code: 'GET_SYSTEM_CONFIG_FAILED',
-          message: 'Failed to fetch system configuration'
+          code: 'REVIEW_SIMILARITY_FLAG_FAILED',
+          message: 'Failed to update similarity flag'
         },
         timestamp: new Date().toISOString()
       });
@@ -992,15 +1086,941 @@ export class AdminController {
   }
 
   /**
-   * Update system configuration
-   * PUT /api/admin/system/config
+   * List submission withdrawal requests
+   * GET /api/admin/submissions/withdrawals
    */
-  static async updateSystemConfig(req: AuthenticatedRequest, res: Response): Promise<void> {
+  static async getWithdrawals(req: Request, res: Response): Promise<void> {
     try {
-      const { conference, paymentInstructions } = req.body;
+      const { status } = req.query;
+
+      if (status && !['pending', 'confirmed', 'rejected'].includes(status as string)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: 'Status must be one of pending, confirmed or rejected'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const withdrawals = await WithdrawalRepository.findAll(req.conferenceId!, status as WithdrawalStatus | undefined);
+
+      res.json({
+        success: true,
+        data: withdrawals,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get withdrawals error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_WITHDRAWALS_FAILED',
+          message: 'Failed to fetch withdrawal requests'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Confirm or reject a pending withdrawal request
+   * PATCH /api/admin/submissions/withdrawals/:withdrawalId
+   */
+  static async reviewWithdrawal(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { withdrawalId } = req.params;
+
+      const { error, value } = withdrawalValidation.reviewWithdrawal.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid withdrawal decision',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { decision, adminNotes }: ReviewWithdrawalRequest = value;
+
+      const pending = await WithdrawalRepository.findById(withdrawalId);
+      if (!pending || pending.status !== 'pending') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'WITHDRAWAL_NOT_FOUND',
+            message: 'Pending withdrawal request not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const submission = await SubmissionRepository.findById(pending.submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_FOUND',
+            message: 'Submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // The submission may have been rejected while the request was waiting
+      if (decision === 'confirmed' && !canTransition(submission.status, 'withdrawn')) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_WITHDRAWABLE',
+            message: `Cannot withdraw a submission that is ${submission.status}`
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const withdrawal = await WithdrawalRepository.resolve(withdrawalId, decision, req.user.userId, adminNotes);
+      if (!withdrawal) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'WITHDRAWAL_ALREADY_RESOLVED',
+            message: 'Withdrawal request was already resolved'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (decision === 'confirmed') {
+        await withdrawalService.withdraw(submission.id, {
+          changedBy: req.user.userId,
+          reason: withdrawal.reason,
+          adminNotes
+        });
+
+        try {
+          const author = await UserRepository.findById(submission.userId);
+          if (author) {
+            await this.emailService.sendSubmissionStatusUpdate(
+              author.email,
+              `${author.firstName} ${author.lastName}`,
+              submission,
+              'withdrawn',
+              adminNotes
+            );
+          }
+        } catch (emailError) {
+          console.error('Failed to send withdrawal confirmation email:', emailError);
+        }
+      }
+
+      res.json({
+        success: true,
+        data: withdrawal,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Review withdrawal error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REVIEW_WITHDRAWAL_FAILED',
+          message: 'Failed to update withdrawal request'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * List presentation type proposals; declined ones carry the author's comment
+   * GET /api/admin/submissions/presentation-proposals
+   */
+  static async getPresentationProposals(req: Request, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+
+      if (status && !['pending', 'accepted', 'declined'].includes(status as string)) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_STATUS',
+            message: 'Status must be one of pending, accepted or declined'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const proposals = await PresentationProposalRepository.findAll(req.conferenceId!, status as PresentationProposalStatus | undefined);
+
+      res.json({
+        success: true,
+        data: proposals,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get presentation proposals error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_PRESENTATION_PROPOSALS_FAILED',
+          message: 'Failed to fetch presentation type proposals'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Propose another presentation type for an accepted submission and ask the author to consent
+   * POST /api/admin/submissions/:submissionId/presentation-proposal
+   */
+  static async proposePresentationType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+
+      const { error, value } = presentationProposalValidation.createProposal.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid presentation type proposal',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { proposedType, adminNotes }: CreatePresentationProposalRequest = value;
+
+      const submission = await SubmissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_FOUND',
+            message: 'Submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (submission.status !== 'accepted') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_ACCEPTED',
+            message: 'A presentation type can only be proposed for accepted submissions'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (submission.presentationType === proposedType) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'SAME_PRESENTATION_TYPE',
+            message: `Submission is already a ${proposedType} presentation`
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (await PresentationProposalRepository.findPendingBySubmission(submissionId)) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'PROPOSAL_ALREADY_PENDING',
+            message: 'The authors have not answered the previous proposal yet'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const proposal = await presentationProposalService.propose(submission, {
+        proposedType,
+        proposedBy: req.user.userId,
+        adminNotes: adminNotes || undefined
+      });
+
+      res.status(201).json({
+        success: true,
+        data: proposal,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Propose presentation type error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PROPOSE_PRESENTATION_TYPE_FAILED',
+          message: 'Failed to propose presentation type'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * List submissions awaiting a decision that match the committee's filter
+   * POST /api/admin/decisions/candidates
+   */
+  static async getDecisionCandidates(req: Request, res: Response): Promise<void> {
+    try {
+      const { error, value } = decisionValidation.criteria.validate(req.body || {}, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid decision filter',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const criteria: DecisionCriteria = value;
+      const candidates = (await DecisionRepository.findCandidates(req.conferenceId!))
+        .filter(candidate => matchesDecisionCriteria(candidate, criteria))
+        .map(candidate => ({
+          ...candidate,
+          consensus: getRecommendationConsensus(candidate.recommendations)
+        }));
+
+      res.json({
+        success: true,
+        data: candidates,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get decision candidates error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_DECISION_CANDIDATES_FAILED',
+          message: 'Failed to retrieve decision candidates'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * List decision batches with their notification progress
+   * GET /api/admin/decisions/batches
+   */
+  static async getDecisionBatches(req: Request, res: Response): Promise<void> {
+    try {
+      const batches = await DecisionRepository.findBatches(req.conferenceId!);
+
+      res.json({
+        success: true,
+        data: batches,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get decision batches error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_DECISION_BATCHES_FAILED',
+          message: 'Failed to retrieve decision batches'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Accept or reject the selected submissions, holding author emails until release
+   * POST /api/admin/decisions/batches
+   */
+  static async createDecisionBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = decisionValidation.createBatch.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid decision data',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const request: CreateDecisionBatchRequest = value;
+      const { batch, skipped } = await decisionService.applyDecision(req.conferenceId!, request, req.user.userId);
+      if (!batch) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'NO_DECIDABLE_SUBMISSIONS',
+            message: `None of the selected submissions can be ${request.decision}`,
+            details: skipped
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      await auditService.logDecisionBatch(
+        req.user.userId,
+        req.user.email,
+        batch.id,
+        'apply',
+        {
+          decision: batch.decision,
+          submissionCount: batch.itemCount,
+          skippedCount: skipped.length,
+          criteria: batch.criteria
+        },
+        req.ip || 'unknown'
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { batch, skipped },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Create decision batch error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'CREATE_DECISION_BATCH_FAILED',
+          message: 'Failed to apply decisions'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Preview every author email a decision batch will send
+   * GET /api/admin/decisions/batches/:batchId/preview
+   */
+  static async previewDecisionBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { batchId } = req.params;
+
+      const batch = await DecisionRepository.findBatchById(batchId);
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'DECISION_BATCH_NOT_FOUND',
+            message: 'Decision batch not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const items = await DecisionRepository.findBatchItems(batchId);
+
+      res.json({
+        success: true,
+        data: {
+          batch,
+          emails: decisionService.previewBatch(batch, items)
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Preview decision batch error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'PREVIEW_DECISION_BATCH_FAILED',
+          message: 'Failed to preview decision emails'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Send the held author emails of a decision batch
+   * POST /api/admin/decisions/batches/:batchId/release
+   */
+  static async releaseDecisionBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { batchId } = req.params;
+
+      const batch = await DecisionRepository.findBatchById(batchId);
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'DECISION_BATCH_NOT_FOUND',
+            message: 'Decision batch not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const items = await DecisionRepository.findBatchItems(batchId);
+      if (batch.releasedAt && items.every(item => item.notifiedAt || !item.authorEmail)) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'DECISION_BATCH_ALREADY_RELEASED',
+            message: 'Decision emails for this batch were already sent'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const result = await decisionService.releaseBatch(batch, items, req.user.userId);
+
+      await auditService.logDecisionBatch(
+        req.user.userId,
+        req.user.email,
+        batch.id,
+        'release',
+        { decision: batch.decision, ...result },
+        req.ip || 'unknown'
+      );
+
+      res.json({
+        success: true,
+        data: {
+          batch: await DecisionRepository.findBatchById(batchId),
+          ...result
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Release decision batch error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'RELEASE_DECISION_BATCH_FAILED',
+          message: 'Failed to release decision emails'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * List deadline extensions for the managed conference edition
+   * GET /api/admin/deadlines/extensions
+   */
+  static async getDeadlineExtensions(req: Request, res: Response): Promise<void> {
+    try {
+      const conference = await ConferenceRepository.findByIdWithDetails(req.conferenceId!);
+      if (!conference) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONFERENCE_NOT_FOUND',
+            message: 'Conference not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const extensions = await DeadlineExtensionRepository.findByConference(conference.id);
+
+      res.json({
+        success: true,
+        data: {
+          submissionDeadline: conference.submissionDeadline,
+          submissionGraceMinutes: conference.submissionGraceMinutes,
+          extensions
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get deadline extensions error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_DEADLINE_EXTENSIONS_FAILED',
+          message: 'Failed to fetch deadline extensions'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Grant a deadline extension to a user or a single submission
+   * POST /api/admin/deadlines/extensions
+   */
+  static async grantDeadlineExtension(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { error, value } = deadlineExtensionValidation.createExtension.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid extension data',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const extension = await DeadlineExtensionRepository.create(req.conferenceId!, value, req.user.userId);
+
+      await auditService.logDeadlineExtension(
+        req.user.userId,
+        req.user.email,
+        extension.id,
+        'grant',
+        {
+          userId: extension.userId,
+          submissionId: extension.submissionId,
+          extendedUntil: extension.extendedUntil,
+          reason: extension.reason
+        },
+        req.ip || 'unknown'
+      );
+
+      res.status(201).json({
+        success: true,
+        data: extension,
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error: any) {
+      // Unknown user or submission
+      if (error?.code === '23503') {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'EXTENSION_TARGET_NOT_FOUND',
+            message: 'User or submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      console.error('Grant deadline extension error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GRANT_DEADLINE_EXTENSION_FAILED',
+          message: 'Failed to grant deadline extension'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Revoke a deadline extension
+   * DELETE /api/admin/deadlines/extensions/:extensionId
+   */
+  static async revokeDeadlineExtension(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const extension = await DeadlineExtensionRepository.delete(req.params.extensionId);
+      if (!extension) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'EXTENSION_NOT_FOUND',
+            message: 'Deadline extension not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      await auditService.logDeadlineExtension(
+        req.user.userId,
+        req.user.email,
+        extension.id,
+        'revoke',
+        { userId: extension.userId, submissionId: extension.submissionId },
+        req.ip || 'unknown'
+      );
+
+      res.json({
+        success: true,
+        data: {
+          message: 'Deadline extension revoked'
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Revoke deadline extension error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REVOKE_DEADLINE_EXTENSION_FAILED',
+          message: 'Failed to revoke deadline extension'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Get system health and status information
+   * GET /api/admin/system/health
+   */
+  static async getSystemHealth(_req: Request, res: Response): Promise<void> {
+    try {
+      // Check database connection
+      const dbHealthQuery = 'SELECT NOW() as current_time, version() as db_version';
+      const dbHealthResult = await Database.query(dbHealthQuery);
+      const dbHealth = {
+        status: 'healthy',
+        currentTime: dbHealthResult.rows[0].current_time,
+        version: dbHealthResult.rows[0].db_version,
+        responseTime: Date.now()
+      };
+
+      // Get database statistics
+      const dbStatsQuery = `
+        SELECT 
+          schemaname,
+          tablename,
+          n_tup_ins as inserts,
+          n_tup_upd as updates,
+          n_tup_del as deletes,
+          n_live_tup as live_tuples,
+          n_dead_tup as dead_tuples
+        FROM pg_stat_user_tables
+        ORDER BY schemaname, tablename
+      `;
+      const dbStatsResult = await Database.query(dbStatsQuery);
+      const databaseStats = dbStatsResult.rows;
+
+      // Get system metrics
+      const systemMetrics = {
+        uptime: process.uptime(),
+        memoryUsage: process.memoryUsage(),
+        nodeVersion: process.version,
+        platform: process.platform,
+        arch: process.arch,
+        pid: process.pid
+      };
+
+      // Get application statistics
+      const appStatsQueries = await Promise.all([
+        Database.query('SELECT COUNT(*) as count FROM users WHERE is_active = true'),
+        Database.query('SELECT COUNT(*) as count FROM submissions'),
+        Database.query('SELECT COUNT(*) as count FROM reviews'),
+        Database.query('SELECT COUNT(*) as count FROM payment_records')
+      ]);
+
+      const applicationStats = {
+        activeUsers: parseInt(appStatsQueries[0].rows[0].count),
+        totalSubmissions: parseInt(appStatsQueries[1].rows[0].count),
+        totalReviews: parseInt(appStatsQueries[2].rows[0].count),
+        totalPayments: parseInt(appStatsQueries[3].rows[0].count)
+      };
+
+      res.json({
+        success: true,
+        data: {
+          database: dbHealth,
+          databaseStats,
+          system: systemMetrics,
+          application: applicationStats,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get system health error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SYSTEM_HEALTH_CHECK_FAILED',
+          message: 'Failed to check system health'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Get system configuration settings
+   * GET /api/admin/system/config
+   */
+  static async getSystemConfig(req: Request, res: Response): Promise<void> {
+    try {
+      const conferenceId = req.conferenceId;
+
+      // Get conference configuration
+      const conferenceQuery = `
+        SELECT 
+          id,
+          name,
+          description,
+          start_date,
+          end_date,
+          venue,
+          registration_deadline,
+          submission_deadline,
+          submission_grace_minutes,
+          email_settings,
+          review_mode,
+          is_active,
+          created_at,
+          updated_at
+        FROM conferences 
+        WHERE id = $1
+      `;
+      const conferenceResult = await Database.query(conferenceQuery, [conferenceId]);
+      const conference = conferenceResult.rows[0] || null;
+
+      // Get session configuration
+      const sessionsQuery = `
+        SELECT 
+          id,
+          conference_id,
+          type,
+          name,
+          description,
+          created_at
+        FROM sessions
+        WHERE conference_id = $1
+        ORDER BY type
+      `;
+      const sessionsResult = await Database.query(sessionsQuery, [conferenceId]);
+      const sessions = sessionsResult.rows;
+
+      // Get payment instructions
+      const paymentQuery = `
+        SELECT 
+          id,
+          conference_id,
+          bank_name,
+          account_name,
+          account_number,
+          swift_code,
+          routing_number,
+          instructions,
+          support_contact,
+          created_at,
+          updated_at
+        FROM payment_instructions
+        WHERE conference_id = $1
+      `;
+      const paymentResult = await Database.query(paymentQuery, [conferenceId]);
+      const paymentInstructions = paymentResult.rows[0] || null;
+
+      // Get environment configuration (safe values only)
+      const environmentConfig = {
+        nodeEnv: process.env.NODE_ENV || 'development',
+        port: process.env.PORT || '5000',
+        frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+        // Don't expose sensitive values like database credentials
+      };
+
+      res.json({
+        success: true,
+        data: {
+          conference,
+          sessions,
+          paymentInstructions,
+          environment: environmentConfig
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get system config error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_SYSTEM_CONFIG_FAILED',
+          message: 'Failed to fetch system configuration'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Update system configuration
+   * PUT /api/admin/system/config
+   */
+  static async updateSystemConfig(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conference, paymentInstructions, emailSettings } = req.body;
+
+      if (emailSettings) {
+        const { error, value } = conferenceValidation.emailSettings.validate(emailSettings);
+        if (error) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: error.details[0].message
+            },
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        await ConferenceRepository.updateEmailSettings(req.conferenceId!, value);
+      }
+
+      // Update conference configuration if provided
+      if (conference) {
+        if (conference.reviewMode !== undefined) {
+          const { error } = enumValidation.reviewMode.validate(conference.reviewMode);
+          if (error) {
+            res.status(400).json({
+              success: false,
+              error: {
+                code: 'VALIDATION_ERROR',
+                message: error.details[0].message
+              },
+              timestamp: new Date().toISOString()
+            });
+            return;
+          }
+        }
 
-      // Update conference configuration if provided
-      if (conference) {
         const updateConferenceQuery = `
           UPDATE conferences 
           SET 
@@ -1011,8 +2031,10 @@ export class AdminController {
             venue = COALESCE($5, venue),
             registration_deadline = COALESCE($6, registration_deadline),
             submission_deadline = COALESCE($7, submission_deadline),
+            submission_grace_minutes = COALESCE($8, submission_grace_minutes),
+            review_mode = COALESCE($9::review_mode, review_mode),
             updated_at = CURRENT_TIMESTAMP
-          WHERE id = (SELECT id FROM conferences ORDER BY created_at DESC LIMIT 1)
+          WHERE id = $10
           RETURNING *
         `;
 
@@ -1023,7 +2045,10 @@ export class AdminController {
           conference.endDate,
           conference.venue,
           conference.registrationDeadline,
-          conference.submissionDeadline
+          conference.submissionDeadline,
+          conference.submissionGraceMinutes,
+          conference.reviewMode,
+          req.conferenceId
         ]);
       }
 
@@ -1040,7 +2065,7 @@ export class AdminController {
             instructions = COALESCE($6, instructions),
             support_contact = COALESCE($7, support_contact),
             updated_at = CURRENT_TIMESTAMP
-          WHERE id = (SELECT id FROM payment_instructions ORDER BY created_at DESC LIMIT 1)
+          WHERE conference_id = $8
           RETURNING *
         `;
 
@@ -1051,7 +2076,8 @@ export class AdminController {
           paymentInstructions.swiftCode,
           paymentInstructions.routingNumber,
           paymentInstructions.instructions,
-          paymentInstructions.supportContact
+          paymentInstructions.supportContact,
+          req.conferenceId
         ]);
       }
 
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { UserRepository } from '../models/UserRepository.js';
+import { SubmissionRepository } from '../models/SubmissionRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
 import { EmailService } from '../services/EmailService.js';
 import { AuthUtils } from '../utils/auth.js';
 import { userValidation } from '../models/validation.js';
@@ -36,6 +38,19 @@ export class AuthController {
 
       const userData: CreateUserRequest = value;
 
+      const invalidSessions = await TrackRepository.findUnknownCodes(userData.selectedSessions);
+      if (invalidSessions.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SESSION_TYPES',
+            message: `Invalid session types: ${invalidSessions.join(', ')}`
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
       // Check if user already exists
       const existingUser = await UserRepository.findByEmail(userData.email);
       if (existingUser) {
@@ -67,6 +82,13 @@ export class AuthController {
         throw new Error('Failed to create user');
       }
 
+      // Link any submissions that already list this email as an author
+      try {
+        await SubmissionRepository.linkAuthorsToUser(updatedUser.id, updatedUser.email);
+      } catch (linkError) {
+        console.error('Failed to link co-authored submissions:', linkError);
+      }
+
       // Generate verification token
       const verificationToken = AuthUtils.generateVerificationToken();
 
@@ -157,7 +179,7 @@ export class AuthController {
       // Send registration confirmation and welcome emails
       try {
         await this.emailService.sendRegistrationConfirmation(user);
-        await this.emailService.sendWelcomeEmail(user);
+        await this.emailService.sendWelcomeEmail(user, await TrackRepository.findForActiveConference());
       } catch (emailError) {
         console.error('Failed to send confirmation emails:', emailError);
       }
@@ -3,13 +3,36 @@ import { ConferenceRepository } from '../models/ConferenceRepository.js';
 import { 
   CreateConferenceRequest, 
   UpdateConferenceRequest,
+  CloneConferenceRequest,
   ParticipantType
 } from '../types/index.js';
-import { validateConferenceData, validateRegistrationFeeData } from '../models/validation.js';
+import { conferenceValidation, validateConferenceData, validateRegistrationFeeData } from '../models/validation.js';
+import { buildClonePlan } from '../utils/editionClone.js';
 import { CacheService } from '../services/CacheService.js';
 import { CacheInvalidator } from '../middleware/cache.js';
 
 export class ConferenceController {
+  // List every conference edition, newest first
+  static async getConferences(_req: Request, res: Response) {
+    try {
+      const conferences = await ConferenceRepository.findAll();
+
+      return res.json({
+        success: true,
+        data: conferences
+      });
+    } catch (error) {
+      console.error('Error fetching conferences:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch conferences'
+        }
+      });
+    }
+  }
+
   // Get active conference with all details
   static async getActiveConference(_req: Request, res: Response) {
     try {
@@ -62,7 +85,7 @@ export class ConferenceController {
   static async getConferenceById(req: Request, res: Response) {
     try {
       const { id } = req.params;
-      const conference = await ConferenceRepository.findById(id);
+      const conference = await ConferenceRepository.findByIdWithDetails(id);
       
       if (!conference) {
         return res.status(404).json({
@@ -144,6 +167,8 @@ export class ConferenceController {
         });
       }
 
+      await CacheInvalidator.invalidateConference(id);
+
       return res.json({
         success: true,
         data: conference
@@ -160,6 +185,96 @@ export class ConferenceController {
     }
   }
 
+  // Make an edition the current one; registrations, submissions and payments move to it
+  static async activateConference(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const conference = await ConferenceRepository.activate(id);
+
+      if (!conference) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONFERENCE_NOT_FOUND',
+            message: 'Conference not found'
+          }
+        });
+      }
+
+      await CacheInvalidator.invalidateConference(id);
+      await CacheInvalidator.invalidateAbstractBook();
+
+      return res.json({
+        success: true,
+        data: conference
+      });
+    } catch (error) {
+      console.error('Error activating conference:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to activate conference'
+        }
+      });
+    }
+  }
+
+  // Clone an edition's configuration with every date shifted (admin only); dryRun only returns the plan
+  static async cloneConference(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { error, value } = conferenceValidation.cloneConference.validate(req.body, { abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid clone request',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+      }
+
+      const source = await ConferenceRepository.findCloneSource(id);
+      if (!source) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONFERENCE_NOT_FOUND',
+            message: 'Conference not found'
+          }
+        });
+      }
+
+      const request: CloneConferenceRequest = value;
+      const plan = buildClonePlan(source, request);
+
+      if (request.dryRun) {
+        return res.json({
+          success: true,
+          data: { plan }
+        });
+      }
+
+      const conference = await ConferenceRepository.createFromClonePlan(plan);
+
+      return res.status(201).json({
+        success: true,
+        data: { conference, plan }
+      });
+    } catch (error) {
+      console.error('Error cloning conference:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to clone conference'
+        }
+      });
+    }
+  }
+
   // Get conference sessions
   static async getConferenceSessions(req: Request, res: Response) {
     try {
@@ -0,0 +1,134 @@
+import { Request, Response } from 'express';
+import { OrganizationRepository } from '../models/OrganizationRepository.js';
+
+export class OrganizationController {
+  // List organizations for the affiliation picker
+  static async getOrganizations(req: Request, res: Response) {
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+      const organizations = await OrganizationRepository.findAll(search || undefined);
+
+      return res.json({
+        success: true,
+        data: organizations
+      });
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch organizations'
+        }
+      });
+    }
+  }
+
+  // Create an organization and link existing authors whose affiliation matches it
+  static async createOrganization(req: Request, res: Response) {
+    try {
+      const organization = await OrganizationRepository.create(req.body);
+      const linkedAuthors = await OrganizationRepository.linkMatchingAuthors(organization.id);
+
+      return res.status(201).json({
+        success: true,
+        data: { ...organization, linkedAuthors }
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'ORGANIZATION_EXISTS',
+            message: 'An organization with this name already exists'
+          }
+        });
+      }
+
+      console.error('Error creating organization:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create organization'
+        }
+      });
+    }
+  }
+
+  // Update an organization; new aliases may match more authors
+  static async updateOrganization(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const organization = await OrganizationRepository.update(id, req.body);
+
+      if (!organization) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found'
+          }
+        });
+      }
+
+      const linkedAuthors = await OrganizationRepository.linkMatchingAuthors(organization.id);
+
+      return res.json({
+        success: true,
+        data: { ...organization, linkedAuthors }
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'ORGANIZATION_EXISTS',
+            message: 'An organization with this name already exists'
+          }
+        });
+      }
+
+      console.error('Error updating organization:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update organization'
+        }
+      });
+    }
+  }
+
+  // Delete an organization
+  static async deleteOrganization(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const deleted = await OrganizationRepository.delete(id);
+
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'ORGANIZATION_NOT_FOUND',
+            message: 'Organization not found'
+          }
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Organization deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting organization:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete organization'
+        }
+      });
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { PaymentRepository } from '../models/PaymentRepository.js';
 import { PaymentInstructionsRepository } from '../models/PaymentInstructionsRepository.js';
 import { UserRepository } from '../models/UserRepository.js';
+import { RegistrationRepository } from '../models/RegistrationRepository.js';
 import { FileService } from '../services/FileService.js';
 import { EmailService } from '../services/EmailService.js';
 import path from 'path';
@@ -34,8 +35,11 @@ export class PaymentController {
         });
       }
 
-      // Get payment instructions (assuming there's one active conference)
-      const paymentInstructions = await PaymentInstructionsRepository.getActive();
+      const conferenceId = req.conferenceId!;
+      const registration = await RegistrationRepository.findForConference(conferenceId, userId);
+
+      // Get payment instructions for the conference edition
+      const paymentInstructions = await PaymentInstructionsRepository.findByConferenceId(conferenceId);
       if (!paymentInstructions) {
         return res.status(404).json({
           success: false,
@@ -47,8 +51,8 @@ export class PaymentController {
       }
 
       // Get user's payment records
-      const paymentRecords = await PaymentRepository.findByUserId(userId);
-      const latestPayment = await PaymentRepository.getLatestByUserId(userId);
+      const paymentRecords = await PaymentRepository.findByUserId(userId, conferenceId);
+      const latestPayment = await PaymentRepository.getLatestByUserId(userId, conferenceId);
 
       return res.json({
         success: true,
@@ -58,9 +62,10 @@ export class PaymentController {
             firstName: user.firstName,
             lastName: user.lastName,
             email: user.email,
-            participantType: user.participantType,
-            registrationFee: user.registrationFee,
-            paymentStatus: user.paymentStatus
+            participantType: registration?.participantType || user.participantType,
+            isRegistered: !!registration,
+            registrationFee: registration?.registrationFee ?? 0,
+            paymentStatus: registration?.paymentStatus || 'not_paid'
           },
           paymentInstructions: {
             bankDetails: {
@@ -147,25 +152,26 @@ export class PaymentController {
         });
       }
 
-      // Get user to validate registration fee
-      const user = await UserRepository.findById(userId);
-      if (!user) {
-        return res.status(404).json({
+      // Payments are made against the user's registration for this edition
+      const conferenceId = req.conferenceId!;
+      const registration = await RegistrationRepository.findForConference(conferenceId, userId);
+      if (!registration) {
+        return res.status(409).json({
           success: false,
           error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found'
+            code: 'NOT_REGISTERED',
+            message: 'Register for this conference before submitting a payment'
           }
         });
       }
 
       // Validate amount matches registration fee
-      if (parseFloat(amount) !== user.registrationFee) {
+      if (parseFloat(amount) !== registration.registrationFee) {
         return res.status(400).json({
           success: false,
           error: {
             code: 'INVALID_AMOUNT',
-            message: `Payment amount must match registration fee of ${user.registrationFee} ${currency || 'USD'}`
+            message: `Payment amount must match registration fee of ${registration.registrationFee} ${currency || 'USD'}`
           }
         });
       }
@@ -178,7 +184,7 @@ export class PaymentController {
         transactionReference
       };
 
-      const payment = await PaymentRepository.create(userId, paymentData);
+      const payment = await PaymentRepository.create(conferenceId, userId, paymentData);
 
       // Save proof of payment file
       const fileExtension = path.extname(file.originalname);
@@ -188,8 +194,8 @@ export class PaymentController {
       // Update payment record with file path
       const updatedPayment = await PaymentRepository.updateProofPath(payment.id, filePath);
 
-      // Update user payment status
-      await UserRepository.updatePaymentStatus(userId, 'payment_submitted');
+      // Update registration payment status
+      await RegistrationRepository.updatePaymentStatus(conferenceId, userId, 'payment_submitted');
 
       return res.json({
         success: true,
@@ -222,28 +228,22 @@ export class PaymentController {
         });
       }
 
-      const user = await UserRepository.findById(userId);
-      if (!user) {
-        return res.status(404).json({
-          success: false,
-          error: {
-            code: 'USER_NOT_FOUND',
-            message: 'User not found'
-          }
-        });
-      }
+      const conferenceId = req.conferenceId!;
+      const registration = await RegistrationRepository.findForConference(conferenceId, userId);
+      const paymentStatus = registration?.paymentStatus || 'not_paid';
 
-      const paymentRecords = await PaymentRepository.findByUserId(userId);
-      const latestPayment = await PaymentRepository.getLatestByUserId(userId);
+      const paymentRecords = await PaymentRepository.findByUserId(userId, conferenceId);
+      const latestPayment = await PaymentRepository.getLatestByUserId(userId, conferenceId);
 
       return res.json({
         success: true,
         data: {
-          paymentStatus: user.paymentStatus,
-          registrationFee: user.registrationFee,
+          isRegistered: !!registration,
+          paymentStatus,
+          registrationFee: registration?.registrationFee ?? 0,
           paymentRecords,
           latestPayment,
-          canSubmitPayment: user.paymentStatus === 'not_paid' || user.paymentStatus === 'payment_rejected'
+          canSubmitPayment: !!registration && (paymentStatus === 'not_paid' || paymentStatus === 'payment_rejected')
         }
       });
     } catch (error) {
@@ -327,7 +327,7 @@ export class PaymentController {
   // Get all pending payments for admin review
   static async getPendingPayments(req: Request, res: Response) {
     try {
-      const pendingPayments = await PaymentRepository.getPendingPayments();
+      const pendingPayments = await PaymentRepository.getPendingPayments(req.conferenceId!);
 
       return res.json({
         success: true,
@@ -392,8 +392,8 @@ export class PaymentController {
         });
       }
 
-      // Update user payment status to verified
-      await UserRepository.updatePaymentStatus(payment.userId, 'payment_verified');
+      // Update the registration the payment was made for
+      await RegistrationRepository.updatePaymentStatus(payment.conferenceId, payment.userId, 'payment_verified');
 
       // Send payment verification email
       try {
@@ -483,8 +483,8 @@ export class PaymentController {
         });
       }
 
-      // Update user payment status to rejected
-      await UserRepository.updatePaymentStatus(payment.userId, 'payment_rejected');
+      // Update the registration the payment was made for
+      await RegistrationRepository.updatePaymentStatus(payment.conferenceId, payment.userId, 'payment_rejected');
 
       // Send payment rejection email
       try {
@@ -519,9 +519,9 @@ export class PaymentController {
   }
 
   // Get payment statistics for admin dashboard
-  static async getPaymentStatistics(_req: Request, res: Response) {
+  static async getPaymentStatistics(req: Request, res: Response) {
     try {
-      const stats = await PaymentRepository.getPaymentStats();
+      const stats = await PaymentRepository.getPaymentStats(req.conferenceId!);
 
       return res.json({
         success: true,
@@ -543,16 +543,17 @@ export class PaymentController {
   static async getAllPayments(req: Request, res: Response) {
     try {
       const { status } = req.query;
+      const conferenceId = req.conferenceId!;
 
       let payments;
       if (status && typeof status === 'string') {
-        payments = await PaymentRepository.findByStatus(status as any);
+        payments = await PaymentRepository.findByStatus(status as any, conferenceId);
       } else {
         // Get all payments - we'll need to add this method to PaymentRepository
         const [pending, verified, rejected] = await Promise.all([
-          PaymentRepository.findByStatus('pending'),
-          PaymentRepository.findByStatus('verified'),
-          PaymentRepository.findByStatus('rejected')
+          PaymentRepository.findByStatus('pending', conferenceId),
+          PaymentRepository.findByStatus('verified', conferenceId),
+          PaymentRepository.findByStatus('rejected', conferenceId)
         ]);
         payments = [...pending, ...verified, ...rejected].sort(
           (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { PaymentInstructionsRepository } from '../models/PaymentInstructionsRepository.js';
+import { CacheInvalidator } from '../middleware/cache.js';
 
 export class PaymentInstructionsController {
   // Create or update payment instructions for a conference
@@ -9,6 +10,7 @@ export class PaymentInstructionsController {
       const instructionsData = req.body;
       
       const instructions = await PaymentInstructionsRepository.upsert(conferenceId, instructionsData);
+      await CacheInvalidator.invalidateConference(conferenceId);
       
       return res.json({
         success: true,
@@ -32,6 +34,7 @@ export class PaymentInstructionsController {
       const { conferenceId } = req.params;
       
       const deleted = await PaymentInstructionsRepository.delete(conferenceId);
+      await CacheInvalidator.invalidateConference(conferenceId);
       
       if (!deleted) {
         return res.status(404).json({
@@ -2,8 +2,25 @@ import { Request, Response } from 'express';
 import { ReviewRepository } from '../models/ReviewRepository.js';
 import { SubmissionRepository } from '../models/SubmissionRepository.js';
 import { UserRepository } from '../models/UserRepository.js';
+import { ReviewRubricRepository } from '../models/ReviewRubricRepository.js';
+import { AffinityRepository } from '../models/AffinityRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { reviewValidation } from '../models/validation.js';
 import { EmailService } from '../services/EmailService.js';
-import { ReviewAssignmentRequest } from '../types/index.js';
+import { affinityService } from '../services/AffinityService.js';
+import { autoAssignmentService } from '../services/AutoAssignmentService.js';
+import { auditService } from '../services/AuditService.js';
+import {
+  ReviewAssignmentRequest,
+  SubmitReviewRequest,
+  UpdateReviewRequest,
+  AutoAssignmentRequest,
+  AutoAssignmentProposal,
+  CommitAutoAssignmentRequest
+} from '../types/index.js';
+import { validateCriteriaScores, scoreReview } from '../utils/reviewRubric.js';
+import { hidesAuthorsFromReviewers } from '../utils/blindReview.js';
+import { planAssignments, pairKey } from '../utils/autoAssignment.js';
 
 export class ReviewController {
   private static emailService = new EmailService();
@@ -31,9 +48,9 @@ export class ReviewController {
   }
 
   // Get submissions available for review assignment
-  static async getSubmissionsForAssignment(_req: Request, res: Response) {
+  static async getSubmissionsForAssignment(req: Request, res: Response) {
     try {
-      const submissions = await SubmissionRepository.findByStatus('submitted');
+      const submissions = await SubmissionRepository.findByStatus('submitted', req.conferenceId);
       
       res.json({
         success: true,
@@ -56,7 +73,7 @@ export class ReviewController {
   // Assign reviewer to submission
   static async assignReviewer(req: Request, res: Response) {
     try {
-      const { submissionId, reviewerId }: ReviewAssignmentRequest = req.body;
+      const { submissionId, reviewerId, overrideConflict }: ReviewAssignmentRequest = req.body;
 
       if (!submissionId || !reviewerId) {
         return res.status(400).json({
@@ -69,27 +86,51 @@ export class ReviewController {
         });
       }
 
-      // Check if reviewer is already assigned to this submission
-      const isAlreadyAssigned = await ReviewRepository.isReviewerAssigned(submissionId, reviewerId);
-      if (isAlreadyAssigned) {
+      // Verify submission exists
+      const submission = await SubmissionRepository.findById(submissionId);
+      if (!submission) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_FOUND',
+            message: 'Submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Drafts are not part of the reviewer pool until the author finalizes them
+      if (submission.status === 'draft') {
         return res.status(400).json({
           success: false,
           error: {
-            code: 'REVIEWER_ALREADY_ASSIGNED',
-            message: 'Reviewer is already assigned to this submission'
+            code: 'SUBMISSION_NOT_FINALIZED',
+            message: 'Draft submissions cannot be assigned to reviewers'
           },
           timestamp: new Date().toISOString()
         });
       }
 
-      // Verify submission exists
-      const submission = await SubmissionRepository.findById(submissionId);
-      if (!submission) {
-        return res.status(404).json({
+      if (submission.status === 'withdrawn') {
+        return res.status(400).json({
           success: false,
           error: {
-            code: 'SUBMISSION_NOT_FOUND',
-            message: 'Submission not found'
+            code: 'SUBMISSION_WITHDRAWN',
+            message: 'Withdrawn submissions cannot be assigned to reviewers'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Check if reviewer is already assigned to the current review round
+      const round = submission.revisionRound || 1;
+      const isAlreadyAssigned = await ReviewRepository.isReviewerAssigned(submissionId, reviewerId, round);
+      if (isAlreadyAssigned) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'REVIEWER_ALREADY_ASSIGNED',
+            message: 'Reviewer is already assigned to this submission'
           },
           timestamp: new Date().toISOString()
         });
@@ -108,8 +149,66 @@ export class ReviewController {
         });
       }
 
-      // Assign reviewer
-      const assignment = await ReviewRepository.assignReviewer(submissionId, reviewerId);
+      // Declared and detected conflicts; only admins may override them, with a reason
+      const conflicts = await ReviewRepository.findAssignmentConflicts(submissionId, reviewerId);
+
+      // Nobody reviews their own submission, override or not
+      if (conflicts.some(conflict => conflict.type === 'authorship')) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'REVIEWER_IS_AUTHOR',
+            message: 'The reviewer is an author of this submission',
+            details: conflicts
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (conflicts.length > 0) {
+        if (!overrideConflict) {
+          return res.status(409).json({
+            success: false,
+            error: {
+              code: 'CONFLICT_OF_INTEREST',
+              message: 'The reviewer has a conflict of interest with this submission',
+              details: conflicts
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        if (req.user?.role !== 'admin') {
+          return res.status(403).json({
+            success: false,
+            error: {
+              code: 'CONFLICT_OVERRIDE_FORBIDDEN',
+              message: 'Only administrators can override a conflict of interest'
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+      }
+
+      // Assign reviewer, recording an admin override together with the assignment
+      const { assignment, override } = await ReviewRepository.assignReviewer(
+        submissionId,
+        reviewerId,
+        round,
+        conflicts.length > 0 && overrideConflict
+          ? { conflicts, reason: overrideConflict.reason, overriddenBy: req.user?.userId }
+          : undefined
+      );
+
+      if (override && req.user) {
+        await auditService.logConflictOverride(
+          req.user.userId,
+          req.user.email,
+          override.id,
+          { submissionId, reviewerId, conflicts, reason: override.reason },
+          req.ip || 'unknown'
+        );
+      }
 
       // Send review assignment email
       try {
@@ -164,9 +263,16 @@ export class ReviewController {
 
       const assignments = await ReviewRepository.getReviewerAssignments(reviewerId);
 
+      // Reviewers do not learn who wrote submissions under double-blind review
+      const blinded = req.user?.role === 'reviewer';
+
       res.json({
         success: true,
-        data: assignments,
+        data: assignments.map(assignment => (
+          blinded && hidesAuthorsFromReviewers(assignment.reviewMode)
+            ? { ...assignment, authorName: undefined }
+            : assignment
+        )),
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -183,9 +289,9 @@ export class ReviewController {
   }
 
   // Get all review assignments (admin view)
-  static async getAllAssignments(_req: Request, res: Response) {
+  static async getAllAssignments(req: Request, res: Response) {
     try {
-      const assignments = await ReviewRepository.getAllAssignments();
+      const assignments = await ReviewRepository.getAllAssignments(req.conferenceId!);
 
       res.json({
         success: true,
@@ -275,6 +381,102 @@ export class ReviewController {
     }
   }
 
+  // Propose reviewers for every submission of the edition at once; nothing is stored
+  static async proposeAutoAssignment(req: Request, res: Response) {
+    try {
+      const settings: AutoAssignmentRequest = req.body;
+      const [pool, affinities] = await Promise.all([
+        ReviewRepository.getAutoAssignmentPool(req.conferenceId!),
+        affinityService.getAffinityMap(req.conferenceId!)
+      ]);
+      const plan = planAssignments(
+        pool.submissions,
+        pool.reviewers,
+        settings,
+        pool.conflictedPairs,
+        new Map(Array.from(affinities, ([key, entry]) => [key, entry.score]))
+      );
+
+      const submissions = new Map(pool.submissions.map(submission => [submission.id, submission]));
+      const reviewers = new Map(pool.reviewers.map(reviewer => [reviewer.id, reviewer]));
+
+      const proposedLoads = new Map<string, number>();
+      for (const pair of plan.pairs) {
+        proposedLoads.set(pair.reviewerId, (proposedLoads.get(pair.reviewerId) || 0) + 1);
+      }
+
+      const proposal: AutoAssignmentProposal = {
+        settings,
+        assignments: plan.pairs.map(pair => ({
+          submissionId: pair.submissionId,
+          submissionTitle: submissions.get(pair.submissionId)!.title,
+          sessionType: submissions.get(pair.submissionId)!.sessionType,
+          reviewerId: pair.reviewerId,
+          reviewerName: reviewers.get(pair.reviewerId)!.name,
+          matchQuality: pair.quality,
+          matchReason: this.describeAutoMatch(
+            pair.sessionMatch,
+            affinities.get(pairKey(pair.submissionId, pair.reviewerId))?.terms || []
+          )
+        })),
+        unfilled: plan.unfilled.map(entry => ({
+          ...entry,
+          submissionTitle: submissions.get(entry.submissionId)!.title
+        })),
+        reviewerLoads: pool.reviewers
+          .filter(reviewer => proposedLoads.has(reviewer.id))
+          .map(reviewer => ({
+            reviewerId: reviewer.id,
+            name: reviewer.name,
+            currentLoad: reviewer.currentLoad,
+            proposedLoad: reviewer.currentLoad + proposedLoads.get(reviewer.id)!
+          })),
+        totalQuality: plan.totalQuality
+      };
+
+      res.json({
+        success: true,
+        data: proposal,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error proposing automatic assignment:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTO_ASSIGNMENT_ERROR',
+          message: 'Failed to compute the automatic assignment'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Store the assignments of a proposal as the admin edited it; pairs that no longer fit are skipped
+  static async commitAutoAssignment(req: Request, res: Response) {
+    try {
+      const request: CommitAutoAssignmentRequest = req.body;
+      const result = await autoAssignmentService.commit(req.conferenceId!, request);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `${result.assigned.length} reviewer assignment(s) created`,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error committing automatic assignment:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTO_ASSIGNMENT_COMMIT_ERROR',
+          message: 'Failed to store the reviewer assignments'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
   // Get expertise-based assignment suggestions
   static async getAssignmentSuggestions(req: Request, res: Response) {
     try {
@@ -291,6 +493,20 @@ export class ReviewController {
         });
       }
 
+      const conferenceId = await AffinityRepository.findSubmissionConference(submissionId);
+      if (!conferenceId) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SUBMISSION_NOT_FOUND',
+            message: 'Submission not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Suggestions use the cached matrix; a stale one is refreshed for the next request
+      await affinityService.refreshInBackground(conferenceId);
       const suggestions = await ReviewRepository.getAssignmentSuggestions(submissionId);
 
       res.json({
@@ -311,11 +527,57 @@ export class ReviewController {
     }
   }
 
-  // Submit a review
+  // Reviewer-submission text affinities of the managed edition, recomputed first when stale
+  static async getAffinityMatrix(req: Request, res: Response) {
+    try {
+      const matrix = await affinityService.getMatrix(req.conferenceId!);
+
+      res.json({
+        success: true,
+        data: matrix,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error fetching reviewer affinities:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_AFFINITY_ERROR',
+          message: 'Failed to fetch reviewer affinities'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Recompute the text affinities of the managed edition, e.g. after reviewers updated their profiles
+  static async recomputeAffinity(req: Request, res: Response) {
+    try {
+      const run = await affinityService.recompute(req.conferenceId!);
+
+      res.json({
+        success: true,
+        data: run,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error recomputing reviewer affinities:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'RECOMPUTE_AFFINITY_ERROR',
+          message: 'Failed to recompute reviewer affinities'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Submit a review; with a rubric the overall score is the weighted mean of the criterion scores
   static async submitReview(req: Request, res: Response) {
     try {
       const { reviewId } = req.params;
-      const { score, comments, recommendation } = req.body;
+      const { score, criteriaScores, comments, recommendation }: SubmitReviewRequest = req.body;
 
       if (!reviewId) {
         return res.status(400).json({
@@ -328,23 +590,12 @@ export class ReviewController {
         });
       }
 
-      if (!score || !comments || !recommendation) {
+      if (!comments || !recommendation) {
         return res.status(400).json({
           success: false,
           error: {
             code: 'MISSING_FIELDS',
-            message: 'Score, comments, and recommendation are required'
-          },
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      if (score < 1 || score > 10) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'INVALID_SCORE',
-            message: 'Score must be between 1 and 10'
+            message: 'Comments and recommendation are required'
           },
           timestamp: new Date().toISOString()
         });
@@ -374,9 +625,67 @@ export class ReviewController {
         });
       }
 
+      if (existingReview.closedAt) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'REVIEW_CLOSED',
+            message: 'This review assignment was closed because the submission was withdrawn'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      let scoring: UpdateReviewRequest;
+      const rubric = await ReviewRubricRepository.findForSubmission(existingReview.submissionId);
+      if (rubric) {
+        const errors = validateCriteriaScores(rubric.criteria, criteriaScores);
+        if (errors.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_CRITERIA_SCORES',
+              message: 'Every rubric criterion needs a score between 1 and 10',
+              details: errors
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        scoring = {
+          ...scoreReview(rubric.criteria, criteriaScores!),
+          rubricId: rubric.id,
+          criteriaScores
+        };
+      } else {
+        if (!score) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'MISSING_FIELDS',
+              message: 'Score, comments, and recommendation are required'
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        if (score < 1 || score > 10) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_SCORE',
+              message: 'Score must be between 1 and 10'
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        scoring = { score };
+      }
+
       // Update the review
       const updatedReview = await ReviewRepository.update(reviewId, {
-        score,
+        ...scoring,
         comments,
         recommendation
       });
@@ -392,10 +701,16 @@ export class ReviewController {
         });
       }
 
-      // Update submission status to under_review if this is the first completed review
-      const submissionStats = await ReviewRepository.getSubmissionReviewStats(existingReview.submissionId);
+      // Update submission status to under_review if this is the first completed review of the round
+      const submissionStats = await ReviewRepository.getSubmissionReviewStats(existingReview.submissionId, existingReview.round);
       if (submissionStats.completedReviews === 1) {
-        await SubmissionRepository.updateStatus(existingReview.submissionId, 'under_review');
+        const submission = await SubmissionRepository.findById(existingReview.submissionId);
+        if (submission && ['submitted', 'revised'].includes(submission.status)) {
+          await SubmissionRepository.updateStatus(existingReview.submissionId, 'under_review', {
+            changedBy: existingReview.reviewerId,
+            reason: `First review completed for round ${existingReview.round}`
+          });
+        }
       }
 
       res.json({
@@ -445,9 +760,14 @@ export class ReviewController {
         });
       }
 
+      // The form is built from the rubric the review was scored with, or the one that applies now
+      const rubric = review.rubricId
+        ? await ReviewRubricRepository.findById(review.rubricId)
+        : await ReviewRubricRepository.findForSubmission(review.submissionId);
+
       res.json({
         success: true,
-        data: review,
+        data: { ...review, rubric },
         timestamp: new Date().toISOString()
       });
     } catch (error) {
@@ -466,7 +786,7 @@ export class ReviewController {
   // Get review progress for admin monitoring
   static async getReviewProgress(req: Request, res: Response) {
     try {
-      const progress = await ReviewRepository.getReviewProgress();
+      const progress = await ReviewRepository.getReviewProgress(req.conferenceId!);
 
       res.json({
         success: true,
@@ -525,4 +845,134 @@ export class ReviewController {
       });
     }
   }
-}
\ No newline at end of file
+
+  // List the review rubrics of an edition (admin view)
+  static async getRubrics(req: Request, res: Response) {
+    try {
+      const rubrics = await ReviewRubricRepository.findByConference(req.conferenceId!);
+
+      res.json({
+        success: true,
+        data: rubrics,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error fetching review rubrics:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'FETCH_RUBRICS_ERROR',
+          message: 'Failed to fetch review rubrics'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Save the conference-wide rubric or a track's rubric; later reviews are scored with it
+  static async saveRubric(req: Request, res: Response) {
+    try {
+      const { error, value } = reviewValidation.saveRubric.validate(req.body, { abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rubric',
+            details: error.details.map(detail => detail.message)
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (value.sessionType) {
+        const tracks = await TrackRepository.findByConference(req.conferenceId!, true);
+        if (!tracks.some(track => track.code === value.sessionType)) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_SESSION_TYPE',
+              message: `${value.sessionType} is not a track of this conference`
+            },
+            timestamp: new Date().toISOString()
+          });
+        }
+      }
+
+      const rubric = await ReviewRubricRepository.upsert(req.conferenceId!, value, req.user!.userId);
+
+      return res.json({
+        success: true,
+        data: rubric,
+        message: 'Review rubric saved successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error saving review rubric:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'SAVE_RUBRIC_ERROR',
+          message: 'Failed to save review rubric'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Delete a rubric no review was scored with
+  static async deleteRubric(req: Request, res: Response) {
+    try {
+      const { rubricId } = req.params;
+
+      const usage = await ReviewRubricRepository.countUsage(rubricId);
+      if (usage > 0) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'RUBRIC_IN_USE',
+            message: `${usage} completed review(s) were scored with this rubric; edit it instead of deleting it`
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const deleted = await ReviewRubricRepository.delete(rubricId);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'RUBRIC_NOT_FOUND',
+            message: 'Review rubric not found'
+          },
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Review rubric deleted successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Error deleting review rubric:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'DELETE_RUBRIC_ERROR',
+          message: 'Failed to delete review rubric'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Why the optimizer paired a reviewer with a submission
+  private static describeAutoMatch(sessionMatch: boolean, affinityTerms: string[]): string {
+    const reasons = [
+      ...(sessionMatch ? ['Expertise covers the track'] : []),
+      ...(affinityTerms.length > 0 ? [`Profile shares: ${affinityTerms.join(', ')}`] : [])
+    ];
+    return reasons.join('; ') || 'No expertise match';
+  }
+}
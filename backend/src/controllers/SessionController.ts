@@ -1,6 +1,10 @@
 import { Request, Response } from 'express';
 import { SessionRepository } from '../models/SessionRepository.js';
-import { validateSessionData } from '../models/validation.js';
+import { SessionPolicyRepository } from '../models/SessionPolicyRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { validateSessionData, sessionPolicyValidation } from '../models/validation.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { SessionType } from '../types/index.js';
 
 export class SessionController {
   // Create a new session for a conference
@@ -22,6 +26,17 @@ export class SessionController {
         });
       }
 
+      const tracks = await TrackRepository.findByConference(conferenceId, true);
+      if (!tracks.some(track => track.code === sessionData.type)) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'TRACK_NOT_FOUND',
+            message: `The conference has no track ${sessionData.type}`
+          }
+        });
+      }
+
       const session = await SessionRepository.create(conferenceId, sessionData);
       
       return res.status(201).json({
@@ -45,7 +60,21 @@ export class SessionController {
     try {
       const { id } = req.params;
       const updateData = req.body;
-      
+
+      if (updateData.type !== undefined) {
+        const existing = await SessionRepository.findById(id);
+        const tracks = existing ? await TrackRepository.findByConference(existing.conferenceId, true) : [];
+        if (existing && !tracks.some(track => track.code === updateData.type)) {
+          return res.status(400).json({
+            success: false,
+            error: {
+              code: 'TRACK_NOT_FOUND',
+              message: `The conference has no track ${updateData.type}`
+            }
+          });
+        }
+      }
+
       const session = await SessionRepository.update(id, updateData);
       
       if (!session) {
@@ -197,4 +226,81 @@ export class SessionController {
       });
     }
   }
-}
\ No newline at end of file
+
+  // List submission policies for all sessions of the edition
+  static async getSessionPolicies(req: Request, res: Response) {
+    try {
+      const policies = await SessionPolicyRepository.findAll(req.conferenceId);
+
+      return res.json({
+        success: true,
+        data: policies
+      });
+    } catch (error) {
+      console.error('Error fetching session policies:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch session policies'
+        }
+      });
+    }
+  }
+
+  // Update the submission policy of a session
+  static async updateSessionPolicy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const sessionType = req.params.sessionType as SessionType;
+      if (!(await TrackRepository.findByCode(sessionType, req.conferenceId))) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: `Unknown session type ${req.params.sessionType}`
+          }
+        });
+      }
+
+      const { error, value } = sessionPolicyValidation.updateSessionPolicy.validate(req.body, { abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid session policy',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+      }
+
+      // Ranges are checked against the stored values for fields left unchanged
+      const rules = { ...(await SessionPolicyRepository.getRules(sessionType, req.conferenceId)), ...value };
+      if (rules.minAbstractWords > rules.maxAbstractWords || rules.minKeywords > rules.maxKeywords) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Minimum limits cannot exceed maximum limits'
+          }
+        });
+      }
+
+      const policy = await SessionPolicyRepository.upsert(sessionType, value, req.user.userId, req.conferenceId);
+
+      return res.json({
+        success: true,
+        data: policy
+      });
+    } catch (error) {
+      console.error('Error updating session policy:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update session policy'
+        }
+      });
+    }
+  }
+}
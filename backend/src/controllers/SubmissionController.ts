@@ -1,13 +1,61 @@
 import { Request, Response } from 'express';
 import { SubmissionRepository } from '../models/SubmissionRepository.js';
 import { UserRepository } from '../models/UserRepository.js';
+import { ReviewRepository } from '../models/ReviewRepository.js';
+import { ManuscriptVersionRepository } from '../models/ManuscriptVersionRepository.js';
 import { ConferenceRepository } from '../models/ConferenceRepository.js';
 import { EmailService } from '../services/EmailService.js';
 import { FileService } from '../services/FileService.js';
-import { submissionValidation } from '../models/validation.js';
-import { processMarkdownForStorage } from '../utils/markdown.js';
-import { CreateSubmissionRequest, UpdateSubmissionRequest, SubmissionResponse } from '../types/submission.js';
-import { AuthenticatedRequest } from '../types/index.js';
+import { similarityService } from '../services/SimilarityService.js';
+import { withdrawalService } from '../services/WithdrawalService.js';
+import { WithdrawalRepository } from '../models/WithdrawalRepository.js';
+import { PresentationProposalRepository } from '../models/PresentationProposalRepository.js';
+import { presentationProposalService } from '../services/PresentationProposalService.js';
+import { submissionValidation, withdrawalValidation } from '../models/validation.js';
+import { processMarkdownForStorage, validateAbstractMarkdown, countAbstractWords } from '../utils/markdown.js';
+import { canTransition, getAllowedTransitions, withdrawalNeedsConfirmation } from '../utils/submissionStatus.js';
+import { getSubmissionAccess, canEditSubmission, canManageAuthors } from '../utils/submissionAccess.js';
+import { generateCoAuthorInviteToken, verifyCoAuthorInviteToken } from '../utils/coauthorInvite.js';
+import { checkSessionPolicy } from '../utils/sessionPolicy.js';
+import { SessionPolicyRepository } from '../models/SessionPolicyRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { DeadlineExtensionRepository } from '../models/DeadlineExtensionRepository.js';
+import { auditService } from '../services/AuditService.js';
+import { checkSubmissionDeadline } from '../utils/deadlines.js';
+import { SubmissionFileRepository } from '../models/SubmissionFileRepository.js';
+import { ABSTRACT_FIGURE_RULES } from '../utils/abstractFigures.js';
+import { parseSearchParams } from '../utils/submissionSearch.js';
+import {
+  hidesAuthorsFromReviewers,
+  anonymizeSubmission,
+  anonymousManuscriptName,
+  anonymousSubmissionFileName
+} from '../utils/blindReview.js';
+import { stripPdfAuthorMetadata, isPdf } from '../utils/pdfMetadata.js';
+import {
+  SUBMISSION_FILE_SLOTS,
+  SUBMISSION_FILE_SLOT_NAMES,
+  canViewSubmissionFile,
+  getExpectedSignature
+} from '../utils/submissionFiles.js';
+import { 
+  CreateSubmissionRequest, 
+  UpdateSubmissionRequest, 
+  SubmissionResponse, 
+  RequestRevisionRequest, 
+  SubmitRevisionRequest,
+  UpdateSubmissionStatusRequest,
+  SaveDraftRequest,
+  RequestWithdrawalRequest,
+  RespondPresentationProposalRequest,
+  Submission,
+  SubmissionAccessLevel,
+  SubmissionFile,
+  SubmissionFileSlot,
+  FileVisibility,
+  UpdateSubmissionFileRequest
+} from '../types/submission.js';
+import { AuthenticatedRequest, SessionType, PresentationType, ConferenceResponse, UserRole } from '../types/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs/promises';
@@ -15,14 +63,12 @@ import fs from 'fs/promises';
 export class SubmissionController {
   private submissionRepository: SubmissionRepository;
   private userRepository: UserRepository;
-  private conferenceRepository: ConferenceRepository;
   private emailService: EmailService;
   private fileService: FileService;
 
   constructor() {
     this.submissionRepository = new SubmissionRepository();
     this.userRepository = new UserRepository();
-    this.conferenceRepository = new ConferenceRepository();
     this.emailService = new EmailService();
     this.fileService = new FileService();
   }
@@ -54,6 +100,14 @@ export class SubmissionController {
 
       const submissionData: CreateSubmissionRequest = value;
 
+      if (!(await this.enforceOpenTrack(res, submissionData.sessionType))) {
+        return;
+      }
+
+      if (!(await this.enforceSessionPolicy(res, submissionData.sessionType, submissionData))) {
+        return;
+      }
+
       // Check if user exists and has appropriate permissions
       const user = await this.userRepository.findById(userId);
       if (!user) {
@@ -77,7 +131,7 @@ export class SubmissionController {
       }
 
       // Check submission deadline
-      const conference = await this.conferenceRepository.getActiveConference();
+      const conference = await ConferenceRepository.findActiveConference();
       if (!conference) {
         res.status(400).json({
           success: false,
@@ -86,14 +140,7 @@ export class SubmissionController {
         return;
       }
 
-      if (new Date() > conference.submissionDeadline) {
-        res.status(400).json({
-          success: false,
-          error: { 
-            code: 'SUBMISSION_DEADLINE_PASSED', 
-            message: 'Submission deadline has passed' 
-          }
-        });
+      if (!(await this.enforceSubmissionDeadline(req, res, conference, 'create'))) {
         return;
       }
 
@@ -132,6 +179,8 @@ export class SubmissionController {
         status: 'submitted',
         submissionDate: new Date(),
         correspondingAuthor: submissionData.correspondingAuthor,
+        conflicts: submissionData.conflicts,
+        abstractReferences: submissionData.abstractReferences,
         createdAt: new Date()
       });
 
@@ -145,6 +194,12 @@ export class SubmissionController {
           email: authorData.email,
           isCorresponding: authorData.isCorresponding,
           authorOrder: authorData.authorOrder,
+          orcid: authorData.orcid || undefined,
+          organizationId: authorData.organizationId || undefined,
+          institution: authorData.institution,
+          department: authorData.department,
+          city: authorData.city,
+          country: authorData.country,
           createdAt: new Date()
         });
       }
@@ -167,6 +222,8 @@ export class SubmissionController {
         // Don't fail the submission if email fails
       }
 
+      await this.flagSimilarSubmissions(submission.id);
+
       res.status(201).json({
         success: true,
         data: completeSubmission,
@@ -182,39 +239,11 @@ export class SubmissionController {
     }
   }
 
-  async getUserSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.id;
-      if (!userId) {
-        res.status(401).json({ 
-          success: false, 
-          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
-        });
-        return;
-      }
-
-      const submissions = await this.submissionRepository.findByUserId(userId);
-
-      res.json({
-        success: true,
-        data: submissions
-      });
-
-    } catch (error) {
-      console.error('Error fetching user submissions:', error);
-      res.status(500).json({
-        success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submissions' }
-      });
-    }
-  }
+  // Draft methods
 
-  async getSubmissionById(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async createDraft(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
-
       if (!userId) {
         res.status(401).json({ 
           success: false, 
@@ -223,39 +252,45 @@ export class SubmissionController {
         return;
       }
 
-      const submission = await this.submissionRepository.findByIdWithAuthors(id);
-      if (!submission) {
-        res.status(404).json({
+      const { error, value } = submissionValidation.saveDraft.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
           success: false,
-          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid draft data',
+            details: error.details.map(detail => detail.message)
+          }
         });
         return;
       }
 
-      // Check permissions: user must own the submission or be admin/reviewer
-      if (submission.userId !== userId && !['admin', 'reviewer'].includes(userRole || '')) {
-        res.status(403).json({
-          success: false,
-          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
-        });
+      const draftData: SaveDraftRequest = value;
+
+      if (!(await this.enforceOpenTrack(res, draftData.sessionType))) {
         return;
       }
 
-      res.json({
+      // Drafts ignore the submission deadline; it is enforced on finalize
+      const draft = await this.submissionRepository.createDraft(userId, draftData);
+      const completeDraft = await this.submissionRepository.findByIdWithAuthors(draft.id);
+
+      res.status(201).json({
         success: true,
-        data: submission
+        data: completeDraft,
+        message: 'Draft saved successfully'
       });
 
     } catch (error) {
-      console.error('Error fetching submission:', error);
+      console.error('Error creating draft:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submission' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to save draft' }
       });
     }
   }
 
-  async updateSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async saveDraft(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
@@ -268,23 +303,21 @@ export class SubmissionController {
         return;
       }
 
-      // Validate request data
-      const { error, value } = submissionValidation.updateSubmission.validate(req.body, { abortEarly: false });
+      const { error, value } = submissionValidation.saveDraft.validate(req.body, { abortEarly: false });
       if (error) {
         res.status(400).json({
           success: false,
           error: {
             code: 'VALIDATION_ERROR',
-            message: 'Invalid submission data',
+            message: 'Invalid draft data',
             details: error.details.map(detail => detail.message)
           }
         });
         return;
       }
 
-      const updateData: UpdateSubmissionRequest = value;
+      const draftData: SaveDraftRequest = value;
 
-      // Check if submission exists and user owns it
       const existingSubmission = await this.submissionRepository.findById(id);
       if (!existingSubmission) {
         res.status(404).json({
@@ -302,84 +335,42 @@ export class SubmissionController {
         return;
       }
 
-      // Check if submission is still editable
-      if (existingSubmission.status !== 'submitted') {
-        res.status(400).json({
-          success: false,
-          error: { 
-            code: 'SUBMISSION_NOT_EDITABLE', 
-            message: 'Submission cannot be edited in its current status' 
-          }
-        });
+      // A draft already filed under a track that has since closed can still be autosaved
+      if (draftData.sessionType !== existingSubmission.sessionType
+        && !(await this.enforceOpenTrack(res, draftData.sessionType))) {
         return;
       }
 
-      // Check submission deadline
-      const conference = await this.conferenceRepository.getActiveConference();
-      if (conference && new Date() > conference.submissionDeadline) {
+      const savedDraft = existingSubmission.status === 'draft'
+        ? await this.submissionRepository.saveDraft(id, draftData)
+        : null;
+
+      if (!savedDraft) {
         res.status(400).json({
           success: false,
-          error: { 
-            code: 'SUBMISSION_DEADLINE_PASSED', 
-            message: 'Submission deadline has passed' 
-          }
+          error: { code: 'SUBMISSION_NOT_DRAFT', message: 'Only draft submissions can be autosaved' }
         });
         return;
       }
 
-      // Process markdown if abstract is being updated
-      let processedData: any = { ...updateData };
-      if (updateData.abstract) {
-        const { sanitizedMarkdown, html } = processMarkdownForStorage(updateData.abstract);
-        processedData.abstract = sanitizedMarkdown;
-        processedData.abstractHtml = html;
-      }
-
-      // Update submission
-      const updatedSubmission = await this.submissionRepository.update(id, {
-        ...processedData,
-        updatedAt: new Date()
-      });
-
-      // Update authors if provided
-      if (updateData.authors) {
-        // Delete existing authors
-        await this.submissionRepository.deleteAuthorsBySubmissionId(id);
-        
-        // Create new authors
-        for (const authorData of updateData.authors) {
-          await this.submissionRepository.createAuthor({
-            id: uuidv4(),
-            submissionId: id,
-            name: authorData.name,
-            affiliation: authorData.affiliation,
-            email: authorData.email,
-            isCorresponding: authorData.isCorresponding,
-            authorOrder: authorData.authorOrder,
-            createdAt: new Date()
-          });
-        }
-      }
-
-      // Get complete updated submission
-      const completeSubmission = await this.submissionRepository.findByIdWithAuthors(id);
+      const completeDraft = await this.submissionRepository.findByIdWithAuthors(id);
 
       res.json({
         success: true,
-        data: completeSubmission,
-        message: 'Submission updated successfully'
+        data: completeDraft,
+        message: 'Draft saved successfully'
       });
 
     } catch (error) {
-      console.error('Error updating submission:', error);
+      console.error('Error saving draft:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to update submission' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to save draft' }
       });
     }
   }
 
-  async deleteSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async finalizeSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
       const userId = req.user?.id;
@@ -392,9 +383,8 @@ export class SubmissionController {
         return;
       }
 
-      // Check if submission exists and user owns it
-      const submission = await this.submissionRepository.findById(id);
-      if (!submission) {
+      const draft = await this.submissionRepository.findByIdWithAuthors(id);
+      if (!draft) {
         res.status(404).json({
           success: false,
           error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
@@ -402,63 +392,202 @@ export class SubmissionController {
         return;
       }
 
-      if (submission.userId !== userId) {
+      if (draft.userId !== userId) {
         res.status(403).json({
           success: false,
-          error: { code: 'ACCESS_DENIED', message: 'You can only delete your own submissions' }
+          error: { code: 'ACCESS_DENIED', message: 'You can only finalize your own submissions' }
         });
         return;
       }
 
-      // Check if submission can be deleted (only if not under review or accepted)
-      if (['under_review', 'accepted'].includes(submission.status)) {
+      if (draft.status !== 'draft') {
         res.status(400).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_DRAFT', message: 'Submission has already been finalized' }
+        });
+        return;
+      }
+
+      const user = await UserRepository.findById(userId);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'USER_NOT_FOUND', message: 'User not found' }
+        });
+        return;
+      }
+
+      // Check if user's payment is verified (requirement for submission)
+      if (user.paymentStatus !== 'payment_verified') {
+        res.status(403).json({
           success: false,
           error: { 
-            code: 'SUBMISSION_NOT_DELETABLE', 
-            message: 'Cannot delete submission that is under review or accepted' 
+            code: 'PAYMENT_NOT_VERIFIED', 
+            message: 'Payment must be verified before submitting abstracts' 
           }
         });
         return;
       }
 
-      await this.submissionRepository.delete(id);
+      // Check submission deadline
+      const conference = await ConferenceRepository.findActiveConference();
+      if (!conference) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'NO_ACTIVE_CONFERENCE', message: 'No active conference found' }
+        });
+        return;
+      }
+
+      if (!(await this.enforceSubmissionDeadline(req, res, conference, 'finalize', id))) {
+        return;
+      }
+
+      const abstractValidation = validateAbstractMarkdown(draft.abstract);
+      if (!abstractValidation.isValid) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_ABSTRACT',
+            message: 'Abstract is not ready for submission',
+            details: abstractValidation.errors
+          }
+        });
+        return;
+      }
+
+      // The draft must now satisfy the full submission rules
+      const { error, value } = submissionValidation.createSubmission.validate({
+        title: draft.title,
+        abstract: draft.abstract,
+        keywords: draft.keywords,
+        sessionType: draft.sessionType,
+        presentationType: draft.presentationType,
+        authors: draft.authors.map(author => ({
+          name: author.name,
+          affiliation: author.affiliation,
+          email: author.email,
+          isCorresponding: author.isCorresponding,
+          authorOrder: author.authorOrder,
+          orcid: author.orcid,
+          organizationId: author.organizationId,
+          institution: author.institution,
+          department: author.department,
+          city: author.city,
+          country: author.country
+        })),
+        correspondingAuthor: draft.correspondingAuthor
+      }, { abortEarly: false });
+
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Draft is incomplete',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+        return;
+      }
+
+      const submissionData: CreateSubmissionRequest = value;
+
+      if (!(await this.enforceOpenTrack(res, submissionData.sessionType))) {
+        return;
+      }
+
+      if (!(await this.enforceSessionPolicy(res, submissionData.sessionType, submissionData))) {
+        return;
+      }
+
+      const correspondingAuthorExists = submissionData.authors.some(
+        author => author.email === submissionData.correspondingAuthor && author.isCorresponding
+      );
+
+      if (!correspondingAuthorExists) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CORRESPONDING_AUTHOR',
+            message: 'Corresponding author must be included in the authors list and marked as corresponding'
+          }
+        });
+        return;
+      }
+
+      const { sanitizedMarkdown, html } = processMarkdownForStorage(submissionData.abstract);
+
+      const finalized = await this.submissionRepository.finalizeDraft(id, {
+        abstract: sanitizedMarkdown,
+        abstractHtml: html,
+        finalizedBy: userId
+      });
+
+      if (!finalized) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_DRAFT', message: 'Submission has already been finalized' }
+        });
+        return;
+      }
+
+      const completeSubmission = await this.submissionRepository.findByIdWithAuthors(id);
+      if (!completeSubmission) {
+        throw new Error('Failed to retrieve finalized submission');
+      }
+
+      // Confirmation is only sent once the draft becomes a real submission
+      try {
+        await this.emailService.sendSubmissionConfirmation(
+          user.email,
+          user.firstName,
+          completeSubmission
+        );
+      } catch (emailError) {
+        console.error('Failed to send confirmation email:', emailError);
+      }
+
+      await this.flagSimilarSubmissions(id);
 
       res.json({
         success: true,
-        message: 'Submission deleted successfully'
+        data: completeSubmission,
+        message: 'Submission finalized successfully'
       });
 
     } catch (error) {
-      console.error('Error deleting submission:', error);
+      console.error('Error finalizing submission:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete submission' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to finalize submission' }
       });
     }
   }
 
-  async getAllSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async getUserSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { page = 1, limit = 20, sessionType, status } = req.query;
-      
-      const filters: any = {};
-      if (sessionType) filters.sessionType = sessionType;
-      if (status) filters.status = status;
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
 
-      const submissions = await this.submissionRepository.findAll({
-        page: Number(page),
-        limit: Number(limit),
-        filters
-      });
+      const submissions = await this.submissionRepository.findByUserId(userId);
 
       res.json({
         success: true,
-        data: submissions
+        data: submissions.map(submission => ({
+          ...submission,
+          accessLevel: getSubmissionAccess(submission, submission.authors, userId) || undefined
+        }))
       });
 
     } catch (error) {
-      console.error('Error fetching all submissions:', error);
+      console.error('Error fetching user submissions:', error);
       res.status(500).json({
         success: false,
         error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submissions' }
@@ -466,20 +595,21 @@ export class SubmissionController {
     }
   }
 
-  async updateSubmissionStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async getSubmissionById(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { status, adminNotes } = req.body;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
 
-      if (!['submitted', 'under_review', 'accepted', 'rejected'].includes(status)) {
-        res.status(400).json({
-          success: false,
-          error: { code: 'INVALID_STATUS', message: 'Invalid submission status' }
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
         });
         return;
       }
 
-      const submission = await this.submissionRepository.findById(id);
+      const submission = await this.submissionRepository.findByIdWithAuthors(id);
       if (!submission) {
         res.status(404).json({
           success: false,
@@ -488,98 +618,242 @@ export class SubmissionController {
         return;
       }
 
-      const updatedSubmission = await this.submissionRepository.update(id, {
-        status,
-        updatedAt: new Date()
-      });
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
 
-      // Send notification email to author about status change
-      try {
-        const user = await this.userRepository.findById(submission.userId);
-        if (user) {
-          await this.emailService.sendSubmissionStatusUpdate(
-            user.email,
-            user.firstName,
-            submission,
-            status,
-            adminNotes
-          );
-        }
-      } catch (emailError) {
-        console.error('Failed to send status update email:', emailError);
+      // Drafts stay private to their author until finalized
+      if (submission.status === 'draft' && submission.userId !== userId && userRole !== 'admin') {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Double-blind reviewers see the work, not who wrote it
+      if (await this.isBlindedReviewer(submission.id, userRole, accessLevel)) {
+        res.json({
+          success: true,
+          data: anonymizeSubmission(submission)
+        });
+        return;
       }
 
+      // Conflict declarations are for the authors and the program committee, not for reviewers
+      const { conflicts, ...visibleSubmission } = submission;
       res.json({
         success: true,
-        data: updatedSubmission,
-        message: 'Submission status updated successfully'
+        data: {
+          ...(accessLevel || userRole === 'admin' ? submission : visibleSubmission),
+          accessLevel: accessLevel || undefined
+        }
       });
 
     } catch (error) {
-      console.error('Error updating submission status:', error);
+      console.error('Error fetching submission:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to update submission status' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submission' }
       });
     }
   }
 
-  async getSubmissionsBySession(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async updateSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { sessionType } = req.params;
-      const { page = 1, limit = 20 } = req.query;
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
 
-      if (!['CHE', 'CSE', 'BIO', 'MST', 'PFD'].includes(sessionType)) {
+      // Validate request data
+      const { error, value } = submissionValidation.updateSubmission.validate(req.body, { abortEarly: false });
+      if (error) {
         res.status(400).json({
           success: false,
-          error: { code: 'INVALID_SESSION_TYPE', message: 'Invalid session type' }
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid submission data',
+            details: error.details.map(detail => detail.message)
+          }
         });
         return;
       }
 
-      const submissions = await this.submissionRepository.findAll({
-        page: Number(page),
-        limit: Number(limit),
-        filters: { sessionType }
+      const updateData: UpdateSubmissionRequest = value;
+
+      // Check if submission exists and user owns it
+      const existingSubmission = await this.submissionRepository.findById(id);
+      if (!existingSubmission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(existingSubmission, userId))) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      // Check if submission is still editable
+      if (existingSubmission.status !== 'submitted') {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'SUBMISSION_NOT_EDITABLE', 
+            message: 'Submission cannot be edited in its current status' 
+          }
+        });
+        return;
+      }
+
+      // Moving to another session re-checks every field against that session's policy
+      const targetSessionType = updateData.sessionType || existingSubmission.sessionType;
+      if (targetSessionType !== existingSubmission.sessionType
+        && !(await this.enforceOpenTrack(res, targetSessionType))) {
+        return;
+      }
+      const policyData = targetSessionType !== existingSubmission.sessionType
+        ? {
+            abstract: updateData.abstract ?? existingSubmission.abstract,
+            keywords: updateData.keywords ?? existingSubmission.keywords,
+            presentationType: updateData.presentationType ?? existingSubmission.presentationType
+          }
+        : updateData;
+      if (!(await this.enforceSessionPolicy(res, targetSessionType, policyData))) {
+        return;
+      }
+
+      // Check submission deadline
+      const conference = await ConferenceRepository.findActiveConference();
+      if (!(await this.enforceSubmissionDeadline(req, res, conference, 'update', id))) {
+        return;
+      }
+
+      // Process markdown if abstract is being updated; authors are stored separately
+      const { authors: updatedAuthors, ...submissionFields } = updateData;
+      let processedData: any = { ...submissionFields };
+      if (updateData.abstract) {
+        const { sanitizedMarkdown, html } = processMarkdownForStorage(updateData.abstract);
+        processedData.abstract = sanitizedMarkdown;
+        processedData.abstractHtml = html;
+      }
+      if (updateData.abstractReferences) {
+        processedData.abstractReferences = JSON.stringify(updateData.abstractReferences);
+      }
+
+      // Update submission
+      const updatedSubmission = await this.submissionRepository.update(id, {
+        ...processedData,
+        updatedAt: new Date()
       });
 
+      // Update authors if provided, keeping co-author account links and edit rights
+      if (updatedAuthors) {
+        await this.submissionRepository.replaceSubmissionAuthors(id, updatedAuthors);
+      }
+
+      if (updateData.title || updateData.abstract) {
+        await this.flagSimilarSubmissions(id);
+      }
+
+      // Get complete updated submission
+      const completeSubmission = await this.submissionRepository.findByIdWithAuthors(id);
+
       res.json({
         success: true,
-        data: submissions
+        data: completeSubmission,
+        message: 'Submission updated successfully'
       });
 
     } catch (error) {
-      console.error('Error fetching submissions by session:', error);
+      console.error('Error updating submission:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submissions' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update submission' }
       });
     }
   }
 
-  async getSubmissionStatistics(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async deleteSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const stats = await this.submissionRepository.getStatistics();
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Check if submission exists and user owns it
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (submission.userId !== userId) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You can only delete your own submissions' }
+        });
+        return;
+      }
+
+      // Only drafts are deleted; finalized submissions are withdrawn so reviews and statistics are kept
+      if (submission.status !== 'draft') {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'SUBMISSION_NOT_DELETABLE', 
+            message: 'Only drafts can be deleted; request a withdrawal instead' 
+          }
+        });
+        return;
+      }
+
+      await this.submissionRepository.delete(id);
 
       res.json({
         success: true,
-        data: stats
+        message: 'Submission deleted successfully'
       });
 
     } catch (error) {
-      console.error('Error fetching submission statistics:', error);
+      console.error('Error deleting submission:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch statistics' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete submission' }
       });
     }
   }
 
-  // Manuscript upload methods
-
-  async uploadManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async withdrawSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { submissionId } = req.params;
+      const { id } = req.params;
       const userId = req.user?.id;
 
       if (!userId) {
@@ -590,8 +864,23 @@ export class SubmissionController {
         return;
       }
 
-      // Check if submission exists and user owns it
-      const submission = await this.submissionRepository.findById(submissionId);
+      // Validate request data
+      const { error, value } = withdrawalValidation.requestWithdrawal.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid withdrawal request',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+        return;
+      }
+
+      const withdrawalData: RequestWithdrawalRequest = value;
+
+      const submission = await this.submissionRepository.findById(id);
       if (!submission) {
         res.status(404).json({
           success: false,
@@ -600,39 +889,2054 @@ export class SubmissionController {
         return;
       }
 
-      if (submission.userId !== userId) {
+      const authors = await this.submissionRepository.getSubmissionAuthors(id);
+      if (!canManageAuthors(submission, authors, userId)) {
         res.status(403).json({
           success: false,
-          error: { code: 'ACCESS_DENIED', message: 'You can only upload manuscripts for your own submissions' }
+          error: { 
+            code: 'ACCESS_DENIED', 
+            message: 'Only the submitting user or the corresponding author can withdraw this submission' 
+          }
         });
         return;
       }
 
-      // Check if submission is in a state that allows manuscript upload
-      if (!['submitted', 'under_review'].includes(submission.status)) {
+      if (!canTransition(submission.status, 'withdrawn')) {
         res.status(400).json({
           success: false,
           error: { 
-            code: 'INVALID_SUBMISSION_STATUS', 
-            message: 'Manuscript can only be uploaded for submitted or under review submissions' 
+            code: 'SUBMISSION_NOT_WITHDRAWABLE', 
+            message: submission.status === 'draft'
+              ? 'Drafts are deleted rather than withdrawn'
+              : `Cannot withdraw a submission that is ${submission.status}`
           }
         });
         return;
       }
 
-      // Check if file was uploaded
-      if (!req.file) {
-        res.status(400).json({
+      if (await WithdrawalRepository.findPendingBySubmission(id)) {
+        res.status(409).json({
           success: false,
-          error: { code: 'NO_FILE_UPLOADED', message: 'No manuscript file was uploaded' }
+          error: { 
+            code: 'WITHDRAWAL_ALREADY_REQUESTED', 
+            message: 'A withdrawal request for this submission is already awaiting confirmation' 
+          }
+        });
+        return;
+      }
+
+      const reviewers = await ReviewRepository.getSubmissionReviewers(id);
+      const needsConfirmation = withdrawalNeedsConfirmation(submission.status, reviewers.length);
+
+      const withdrawal = await WithdrawalRepository.create({
+        submissionId: id,
+        requestedBy: userId,
+        reason: withdrawalData.reason,
+        status: needsConfirmation ? 'pending' : 'confirmed',
+        submissionStatus: submission.status
+      });
+
+      if (needsConfirmation) {
+        res.status(202).json({
+          success: true,
+          data: { withdrawal },
+          message: 'Withdrawal requested; an administrator will confirm it because review has started'
+        });
+        return;
+      }
+
+      const updatedSubmission = await withdrawalService.withdraw(id, {
+        changedBy: userId,
+        reason: withdrawalData.reason
+      });
+
+      res.json({
+        success: true,
+        data: { withdrawal, submission: updatedSubmission },
+        message: 'Submission withdrawn successfully'
+      });
+
+    } catch (error) {
+      console.error('Error withdrawing submission:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to withdraw submission' }
+      });
+    }
+  }
+
+  async getWithdrawal(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && userRole !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      const withdrawal = await WithdrawalRepository.findLatestBySubmission(id);
+
+      res.json({
+        success: true,
+        data: withdrawal && userRole !== 'admin' ? { ...withdrawal, reviewedBy: undefined } : withdrawal
+      });
+
+    } catch (error) {
+      console.error('Error fetching withdrawal:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch withdrawal request' }
+      });
+    }
+  }
+
+  async getPresentationProposal(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && userRole !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      const proposal = await PresentationProposalRepository.findLatestBySubmission(id);
+
+      res.json({
+        success: true,
+        data: proposal && userRole !== 'admin' ? { ...proposal, proposedBy: undefined } : proposal
+      });
+
+    } catch (error) {
+      console.error('Error fetching presentation proposal:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch presentation type proposal' }
+      });
+    }
+  }
+
+  async respondToPresentationProposal(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { decision, comment }: RespondPresentationProposalRequest = req.body;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const authors = await this.submissionRepository.getSubmissionAuthors(id);
+      if (!canManageAuthors(submission, authors, userId)) {
+        res.status(403).json({
+          success: false,
+          error: { 
+            code: 'ACCESS_DENIED', 
+            message: 'Only the submitting user or the corresponding author can answer this proposal' 
+          }
+        });
+        return;
+      }
+
+      const pending = await PresentationProposalRepository.findPendingBySubmission(id);
+      if (!pending) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'PROPOSAL_NOT_FOUND', message: 'There is no open presentation type proposal for this submission' }
+        });
+        return;
+      }
+
+      // A proposal only makes sense while the submission stays accepted
+      if (submission.status !== 'accepted') {
+        res.status(400).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_ACCEPTED', message: `Cannot change the presentation type of a submission that is ${submission.status}` }
+        });
+        return;
+      }
+
+      const proposal = await PresentationProposalRepository.respond(pending.id, {
+        decision,
+        respondedBy: userId,
+        comment: comment?.trim() || undefined
+      });
+      if (!proposal) {
+        res.status(409).json({
+          success: false,
+          error: { code: 'PROPOSAL_ALREADY_ANSWERED', message: 'This proposal was already answered' }
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { ...proposal, proposedBy: undefined },
+        message: decision === 'accept'
+          ? `Your submission will be presented as ${proposal.proposedType}`
+          : 'Your answer has been sent to the program committee'
+      });
+
+    } catch (error) {
+      console.error('Error responding to presentation proposal:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to answer presentation type proposal' }
+      });
+    }
+  }
+
+  async searchSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const results = await this.submissionRepository.search({
+        ...parseSearchParams(req.query),
+        conferenceId: req.conferenceId
+      });
+
+      res.json({
+        success: true,
+        data: await this.isBlindedListing(req)
+          ? { ...results, submissions: results.submissions.map(hit => this.anonymizeForReviewer(hit, req.user!.id)) }
+          : results
+      });
+
+    } catch (error) {
+      console.error('Error searching submissions:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to search submissions' }
+      });
+    }
+  }
+
+  async getAllSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, sessionType, status } = req.query;
+      
+      const filters: any = { conferenceId: req.conferenceId };
+      if (sessionType) filters.sessionType = sessionType;
+      if (status) filters.status = status;
+
+      const submissions = await this.submissionRepository.findAll({
+        page: Number(page),
+        limit: Number(limit),
+        filters
+      });
+
+      res.json({
+        success: true,
+        data: await this.isBlindedListing(req)
+          ? { ...submissions, submissions: submissions.submissions.map(submission => this.anonymizeForReviewer(submission, req.user!.id)) }
+          : submissions
+      });
+
+    } catch (error) {
+      console.error('Error fetching all submissions:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submissions' }
+      });
+    }
+  }
+
+  async updateSubmissionStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, reason, adminNotes, proposedPresentationType }: UpdateSubmissionStatusRequest = req.body;
+
+      // Drafts are finalized by their authors, never by a status override
+      if (!['under_review', 'accepted', 'rejected'].includes(status)) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_STATUS', message: 'Invalid submission status' }
+        });
+        return;
+      }
+
+      if (proposedPresentationType && status !== 'accepted') {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_PRESENTATION_PROPOSAL', message: 'A presentation type can only be proposed on acceptance' }
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canTransition(submission.status, status)) {
+        const allowed = getAllowedTransitions(submission.status);
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'INVALID_STATUS_TRANSITION', 
+            message: allowed.length > 0
+              ? `Cannot change status from ${submission.status} to ${status}. Allowed: ${allowed.join(', ')}`
+              : `Cannot change status of a ${submission.status} submission`
+          }
+        });
+        return;
+      }
+
+      const updatedSubmission = await SubmissionRepository.updateStatus(id, status, {
+        changedBy: req.user?.id,
+        reason,
+        adminNotes
+      });
+
+      // Send notification email to author about status change
+      try {
+        const user = await this.userRepository.findById(submission.userId);
+        if (user) {
+          await this.emailService.sendSubmissionStatusUpdate(
+            user.email,
+            user.firstName,
+            submission,
+            status,
+            adminNotes
+          );
+        }
+      } catch (emailError) {
+        console.error('Failed to send status update email:', emailError);
+      }
+
+      // The authors decide whether to take the proposed format; the submitted one stays until then
+      const presentationProposal = updatedSubmission && proposedPresentationType && proposedPresentationType !== submission.presentationType
+        ? await presentationProposalService.propose(updatedSubmission, {
+            proposedType: proposedPresentationType,
+            proposedBy: req.user?.id,
+            adminNotes
+          })
+        : null;
+
+      res.json({
+        success: true,
+        data: presentationProposal ? { ...updatedSubmission, presentationProposal } : updatedSubmission,
+        message: 'Submission status updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error updating submission status:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update submission status' }
+      });
+    }
+  }
+
+  // Revision cycle methods
+
+  async requestRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const adminId = req.user?.id;
+      const { revisionType, deadline, adminNotes }: RequestRevisionRequest = req.body;
+
+      if (!adminId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findByIdWithAuthors(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Revisions are requested on the outcome of a review round
+      if (submission.status !== 'under_review') {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'INVALID_SUBMISSION_STATUS', 
+            message: 'Revisions can only be requested for submissions under review' 
+          }
+        });
+        return;
+      }
+
+      const round = submission.revisionRound || 1;
+      const revision = await this.submissionRepository.requestRevision(id, {
+        round,
+        revisionType,
+        deadline: new Date(deadline),
+        requestedBy: adminId,
+        requestNotes: adminNotes
+      });
+
+      // Send the reviewers' comments for this round to the author
+      try {
+        const user = await UserRepository.findById(submission.userId);
+        if (user) {
+          const roundReviews = (await ReviewRepository.findBySubmissionId(id))
+            .filter(review => review.round === round && review.isCompleted && review.comments);
+
+          await this.emailService.sendRevisionRequestEmail(
+            user.email,
+            user.firstName,
+            submission,
+            revisionType,
+            revision.deadline,
+            roundReviews.map(review => review.comments as string),
+            adminNotes
+          );
+        }
+      } catch (emailError) {
+        console.error('Failed to send revision request email:', emailError);
+      }
+
+      const updatedSubmission = await this.submissionRepository.findByIdWithAuthors(id);
+
+      res.json({
+        success: true,
+        data: { submission: updatedSubmission, revision },
+        message: 'Revision requested successfully'
+      });
+
+    } catch (error) {
+      console.error('Error requesting revision:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to request revision' }
+      });
+    }
+  }
+
+  async submitRevision(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Validate request data
+      const { error, value } = submissionValidation.submitRevision.validate(req.body, { abortEarly: false });
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid revision data',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+        return;
+      }
+
+      const revisionData: SubmitRevisionRequest = value;
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId))) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      if (submission.status !== 'revision_requested') {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'REVISION_NOT_REQUESTED', 
+            message: 'No revision has been requested for this submission' 
+          }
+        });
+        return;
+      }
+
+      if (submission.revisionDeadline && new Date() > new Date(submission.revisionDeadline)) {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'REVISION_DEADLINE_PASSED', 
+            message: 'Revision deadline has passed' 
+          }
+        });
+        return;
+      }
+
+      if (!(await this.enforceSessionPolicy(res, submission.sessionType, revisionData))) {
+        return;
+      }
+
+      // Process markdown if abstract is being revised
+      let abstract: string | undefined;
+      let abstractHtml: string | undefined;
+      if (revisionData.abstract) {
+        const { sanitizedMarkdown, html } = processMarkdownForStorage(revisionData.abstract);
+        abstract = sanitizedMarkdown;
+        abstractHtml = html;
+      }
+
+      const round = submission.revisionRound || 1;
+      const { revision, reviewerIds } = await this.submissionRepository.submitRevision(id, round, {
+        title: revisionData.title,
+        abstract,
+        abstractHtml,
+        keywords: revisionData.keywords,
+        responseLetter: revisionData.responseLetter,
+        submittedBy: userId
+      });
+
+      const completeSubmission = await this.submissionRepository.findByIdWithAuthors(id);
+
+      // Re-notify the reviewers of the previous round
+      const reviewDeadline = new Date();
+      reviewDeadline.setDate(reviewDeadline.getDate() + 14);
+
+      for (const reviewerId of reviewerIds) {
+        try {
+          const reviewer = await UserRepository.findById(reviewerId);
+          if (reviewer) {
+            await this.emailService.sendRevisionReviewRequestEmail(
+              reviewer.email,
+              `${reviewer.firstName} ${reviewer.lastName}`,
+              completeSubmission,
+              round + 1,
+              revisionData.responseLetter,
+              reviewDeadline
+            );
+          }
+        } catch (emailError) {
+          console.error('Failed to send revision review request email:', emailError);
+        }
+      }
+
+      res.json({
+        success: true,
+        data: { submission: completeSubmission, revision },
+        message: 'Revision submitted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error submitting revision:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to submit revision' }
+      });
+    }
+  }
+
+  async getRevisions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      const revisions = await this.submissionRepository.findRevisions(id);
+
+      res.json({
+        success: true,
+        data: {
+          currentRound: submission.revisionRound || 1,
+          revisionDeadline: submission.revisionDeadline,
+          revisions
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch revisions' }
+      });
+    }
+  }
+
+  async getStatusHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, be admin, or review it
+      const accessLevel = await this.resolveAccess(submission, userId);
+      const isPrivileged = userRole === 'admin'
+        || (!accessLevel && userRole === 'reviewer' && await this.isAssignedReviewer(id, userId));
+      if (!accessLevel && !isPrivileged) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      let history = await this.submissionRepository.findStatusHistory(id);
+
+      // Admin notes are shared with the author by email; actor identities stay internal
+      if (!isPrivileged) {
+        history = history.map(entry => ({
+          ...entry,
+          changedBy: undefined,
+          changedByName: entry.changedBy === submission.userId ? entry.changedByName : undefined
+        }));
+      } else if (await this.isBlindedReviewer(id, userRole, accessLevel)) {
+        // The authors withdraw and revise their own work, so any actor could name them
+        history = history.map(entry => ({ ...entry, changedBy: undefined, changedByName: undefined }));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          currentStatus: submission.status,
+          allowedTransitions: isPrivileged ? getAllowedTransitions(submission.status) : undefined,
+          history
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch status history' }
+      });
+    }
+  }
+
+  // Grant or revoke a co-author's edit rights (submitting user or corresponding author only)
+  async setAuthorEditPermission(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, authorId } = req.params;
+      const { canEdit } = req.body as { canEdit: boolean };
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const authors = await this.submissionRepository.getSubmissionAuthors(id);
+      if (!canManageAuthors(submission, authors, userId)) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Only the corresponding author can change co-author permissions' }
+        });
+        return;
+      }
+
+      const author = authors.find(a => a.id === authorId);
+      if (!author) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'AUTHOR_NOT_FOUND', message: 'Author not found' }
+        });
+        return;
+      }
+
+      if (canEdit && !author.userId) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'AUTHOR_NOT_LINKED', message: 'Edit rights can only be granted to authors with a registered account' }
+        });
+        return;
+      }
+
+      const updatedAuthor = await this.submissionRepository.setAuthorEditPermission(id, authorId, canEdit);
+
+      res.json({
+        success: true,
+        data: updatedAuthor,
+        message: canEdit ? 'Edit rights granted' : 'Edit rights revoked'
+      });
+
+    } catch (error) {
+      console.error('Error updating author permissions:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update author permissions' }
+      });
+    }
+  }
+
+  // Email a co-author a link that attaches the submission to their account
+  async inviteAuthor(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, authorId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const authors = await this.submissionRepository.getSubmissionAuthors(id);
+      if (!canManageAuthors(submission, authors, userId)) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Only the corresponding author can invite co-authors' }
+        });
+        return;
+      }
+
+      const author = authors.find(a => a.id === authorId);
+      if (!author) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'AUTHOR_NOT_FOUND', message: 'Author not found' }
+        });
+        return;
+      }
+
+      if (author.userId) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'AUTHOR_ALREADY_LINKED', message: 'This author is already linked to an account' }
+        });
+        return;
+      }
+
+      const inviter = await UserRepository.findById(userId);
+      const inviterName = inviter ? `${inviter.firstName} ${inviter.lastName}` : 'A co-author';
+      const inviteToken = generateCoAuthorInviteToken(id, author.email);
+
+      await this.emailService.sendCoAuthorInvitationEmail(
+        author.email,
+        author.name,
+        inviterName,
+        submission,
+        inviteToken
+      );
+      await this.submissionRepository.markAuthorInvited(id, authorId);
+
+      res.json({
+        success: true,
+        message: `Invitation sent to ${author.email}`
+      });
+
+    } catch (error) {
+      console.error('Error inviting author:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to send invitation' }
+      });
+    }
+  }
+
+  // Link the current user to the author row named in a co-author invitation
+  async acceptAuthorInvite(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { token } = req.body as { token: string };
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const invite = verifyCoAuthorInviteToken(token);
+      if (!invite) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_INVITE', message: 'Invitation link is invalid or has expired' }
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(invite.submissionId);
+      if (!submission || submission.status === 'draft') {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const linkedAuthors = await this.submissionRepository.linkInvitedAuthor(invite.submissionId, invite.email, userId);
+      if (linkedAuthors.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_INVITE', message: 'You are no longer listed as an author on this submission' }
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { submissionId: submission.id, title: submission.title },
+        message: 'Submission added to your account'
+      });
+
+    } catch (error) {
+      console.error('Error accepting author invite:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to accept invitation' }
+      });
+    }
+  }
+
+  async getSubmissionsBySession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { sessionType } = req.params;
+      const { page = 1, limit = 20 } = req.query;
+
+      const submissions = await this.submissionRepository.findAll({
+        page: Number(page),
+        limit: Number(limit),
+        filters: { conferenceId: req.conferenceId, sessionType }
+      });
+
+      res.json({
+        success: true,
+        data: await this.isBlindedListing(req)
+          ? { ...submissions, submissions: submissions.submissions.map(submission => this.anonymizeForReviewer(submission, req.user!.id)) }
+          : submissions
+      });
+
+    } catch (error) {
+      console.error('Error fetching submissions by session:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submissions' }
+      });
+    }
+  }
+
+  async getSubmissionStatistics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const stats = await this.submissionRepository.getStatistics(req.conferenceId!);
+
+      res.json({
+        success: true,
+        data: stats
+      });
+
+    } catch (error) {
+      console.error('Error fetching submission statistics:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch statistics' }
+      });
+    }
+  }
+
+  // Manuscript upload methods
+
+  async uploadManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Check if submission exists and user owns it
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId))) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      // Check if submission is in a state that allows manuscript upload
+      if (!['draft', 'submitted', 'under_review', 'revision_requested'].includes(submission.status)) {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'INVALID_SUBMISSION_STATUS', 
+            message: 'Manuscript can only be uploaded for draft, submitted, under review or revision requested submissions' 
+          }
+        });
+        return;
+      }
+
+      // Revisions follow their own deadline; the submission deadline covers initial manuscripts
+      if (['draft', 'submitted'].includes(submission.status)) {
+        const conference = await ConferenceRepository.findActiveConference();
+        if (!(await this.enforceSubmissionDeadline(req, res, conference, 'manuscript_upload', submissionId))) {
+          if (req.file) {
+            await this.fileService.deleteFile(req.file.path);
+          }
+          return;
+        }
+      }
+
+      // Check if file was uploaded
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'NO_FILE_UPLOADED', message: 'No manuscript file was uploaded' }
+        });
+        return;
+      }
+
+      // Validate uploaded file
+      const validationError = await this.fileService.validateUploadedFile(req.file.path);
+      if (validationError) {
+        // Clean up invalid file
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: validationError.code, message: validationError.message }
+        });
+        return;
+      }
+
+      // Scan for viruses
+      const scanResult = await this.fileService.scanForViruses(req.file.path);
+      if (!scanResult.clean) {
+        // Clean up infected file
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'VIRUS_DETECTED', 
+            message: `File rejected: ${scanResult.threat || 'Security threat detected'}` 
+          }
+        });
+        return;
+      }
+
+      // Checksum the file as uploaded, before it is moved and possibly compressed
+      const sha256 = await this.fileService.calculateChecksum(req.file.path);
+
+      // Organize file in proper directory structure; earlier versions are kept
+      const organizedPath = await this.fileService.organizeFile(
+        req.file.path, 
+        submissionId, 
+        req.file.originalname
+      );
+
+      // Get relative path for database storage
+      const relativePath = this.fileService.getRelativePath(organizedPath);
+
+      // Record the new version and make it the current manuscript
+      let version;
+      try {
+        version = await ManuscriptVersionRepository.create({
+          submissionId,
+          filePath: relativePath,
+          originalName: req.file.originalname,
+          fileSize: req.file.size,
+          sha256,
+          uploadedBy: userId,
+          changeNote: typeof req.body?.changeNote === 'string'
+            ? req.body.changeNote.trim().slice(0, 1000) || undefined
+            : undefined
+        });
+      } catch (dbError) {
+        // Clean up file if database update failed
+        console.error('Failed to record manuscript version:', dbError);
+        await this.fileService.deleteFile(organizedPath);
+        res.status(500).json({
+          success: false,
+          error: { code: 'DATABASE_ERROR', message: 'Failed to record manuscript version' }
+        });
+        return;
+      }
+
+      // Send notification email
+      try {
+        const user = await this.userRepository.findById(userId);
+        if (user) {
+          await this.emailService.sendManuscriptUploadConfirmation(
+            user.email,
+            user.firstName,
+            submission,
+            req.file.originalname
+          );
+        }
+      } catch (emailError) {
+        console.error('Failed to send manuscript upload confirmation email:', emailError);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          submissionId,
+          manuscriptPath: relativePath,
+          originalName: req.file.originalname,
+          size: req.file.size,
+          uploadDate: version.createdAt,
+          version
+        },
+        message: 'Manuscript uploaded successfully'
+      });
+
+    } catch (error) {
+      console.error('Error uploading manuscript:', error);
+      
+      // Clean up file if it exists
+      if (req.file?.path) {
+        await this.fileService.deleteFile(req.file.path);
+      }
+
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to upload manuscript' }
+      });
+    }
+  }
+
+  async downloadManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Get submission
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      // Reviewers always get the version that was current when they were assigned
+      let manuscriptPath = submission.manuscriptPath;
+      if (userRole === 'reviewer') {
+        const versionId = await ReviewRepository.getAssignedManuscriptVersionId(submissionId, userId);
+        const version = versionId ? await ManuscriptVersionRepository.findById(submissionId, versionId) : null;
+        if (version) {
+          manuscriptPath = version.filePath;
+        }
+      }
+
+      // Check if manuscript exists
+      if (!manuscriptPath) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'MANUSCRIPT_NOT_FOUND', message: 'No manuscript found for this submission' }
+        });
+        return;
+      }
+
+      if (await this.isBlindedReviewer(submissionId, userRole, accessLevel)) {
+        await this.sendAnonymizedCopy(res, manuscriptPath, anonymousManuscriptName(submissionId, path.basename(manuscriptPath)));
+        return;
+      }
+
+      await this.streamManuscriptFile(res, manuscriptPath);
+
+    } catch (error) {
+      console.error('Error downloading manuscript:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: 'Failed to download manuscript' }
+        });
+      }
+    }
+  }
+
+  async deleteManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Get submission
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own the submission or hold edit rights
+      if (!canEditSubmission(await this.resolveAccess(submission, userId))) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      // Check if submission allows manuscript deletion
+      if (['accepted', 'rejected'].includes(submission.status)) {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'INVALID_SUBMISSION_STATUS', 
+            message: 'Cannot delete manuscript for accepted or rejected submissions' 
+          }
+        });
+        return;
+      }
+
+      if (['draft', 'submitted'].includes(submission.status)) {
+        const conference = await ConferenceRepository.findActiveConference();
+        if (!(await this.enforceSubmissionDeadline(req, res, conference, 'manuscript_delete', submissionId))) {
+          return;
+        }
+      }
+
+      // Check if manuscript exists
+      if (!submission.manuscriptPath) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'MANUSCRIPT_NOT_FOUND', message: 'No manuscript found for this submission' }
+        });
+        return;
+      }
+
+      // Detach the current manuscript; the file stays available as an immutable version
+      await this.submissionRepository.update(submissionId, {
+        manuscriptPath: null,
+        updatedAt: new Date()
+      });
+
+      res.json({
+        success: true,
+        message: 'Manuscript removed from submission. Previous versions remain in the version history'
+      });
+
+    } catch (error) {
+      console.error('Error deleting manuscript:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete manuscript' }
+      });
+    }
+  }
+
+  async getManuscriptInfo(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      // Get submission
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      // Check if manuscript exists
+      if (!submission.manuscriptPath) {
+        res.json({
+          success: true,
+          data: {
+            hasManuscript: false,
+            submissionId
+          }
+        });
+        return;
+      }
+
+      const filePath = this.fileService.getAbsolutePath(submission.manuscriptPath);
+      const fileInfo = await this.fileService.getFileInfo(filePath);
+      const currentVersion = await ManuscriptVersionRepository.findByFilePath(submissionId, submission.manuscriptPath);
+      const filename = currentVersion?.originalName || fileInfo.filename;
+
+      res.json({
+        success: true,
+        data: {
+          hasManuscript: fileInfo.exists,
+          submissionId,
+          filename: await this.isBlindedReviewer(submissionId, userRole, accessLevel)
+            ? anonymousManuscriptName(submissionId, path.basename(submission.manuscriptPath))
+            : filename,
+          size: fileInfo.size,
+          mimetype: fileInfo.mimetype,
+          uploadDate: currentVersion?.createdAt || submission.updatedAt || submission.createdAt,
+          versionId: currentVersion?.id,
+          versionNumber: currentVersion?.versionNumber,
+          sha256: currentVersion?.sha256,
+          isCameraReady: currentVersion?.isCameraReady || false
+        }
+      });
+
+    } catch (error) {
+      console.error('Error getting manuscript info:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to get manuscript information' }
+      });
+    }
+  }
+
+  async getManuscriptVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      let versions = await ManuscriptVersionRepository.findBySubmissionId(submissionId);
+
+      // Reviewers only see the version they were assigned
+      if (userRole === 'reviewer' && submission.userId !== userId) {
+        const assignedVersionId = await ReviewRepository.getAssignedManuscriptVersionId(submissionId, userId);
+        versions = versions.filter(version => version.id === assignedVersionId);
+      }
+
+      // Double-blind reviewers get the version without the uploader or the author-chosen file name
+      const isBlinded = await this.isBlindedReviewer(submissionId, userRole, accessLevel);
+
+      res.json({
+        success: true,
+        data: versions.map(({ uploadedBy, ...version }) => ({
+          ...version,
+          ...(isBlinded
+            ? { originalName: anonymousManuscriptName(submissionId, version.originalName) }
+            : { uploadedBy }),
+          isCurrent: version.filePath === submission.manuscriptPath
+        }))
+      });
+
+    } catch (error) {
+      console.error('Error fetching manuscript versions:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch manuscript versions' }
+      });
+    }
+  }
+
+  async downloadManuscriptVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId, versionId } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      // Check permissions: user must own or co-author the submission, or be admin/reviewer
+      const accessLevel = await this.resolveAccess(submission, userId);
+      if (!accessLevel && !['admin', 'reviewer'].includes(userRole || '')) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      const version = await ManuscriptVersionRepository.findById(submissionId, versionId);
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'VERSION_NOT_FOUND', message: 'Manuscript version not found' }
+        });
+        return;
+      }
+
+      if (userRole === 'reviewer' && submission.userId !== userId) {
+        const assignedVersionId = await ReviewRepository.getAssignedManuscriptVersionId(submissionId, userId);
+        if (assignedVersionId !== version.id) {
+          res.status(403).json({
+            success: false,
+            error: { code: 'ACCESS_DENIED', message: 'Reviewers can only download the version they were assigned' }
+          });
+          return;
+        }
+      }
+
+      if (await this.isBlindedReviewer(submissionId, userRole, accessLevel)) {
+        await this.sendAnonymizedCopy(res, version.filePath, anonymousManuscriptName(submissionId, path.basename(version.filePath)));
+        return;
+      }
+
+      await this.streamManuscriptFile(res, version.filePath, version.originalName);
+
+    } catch (error) {
+      console.error('Error downloading manuscript version:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: 'Failed to download manuscript version' }
+        });
+      }
+    }
+  }
+
+  async markCameraReady(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { submissionId, versionId } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(submissionId);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId)) && userRole !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You can only mark versions of submissions you can edit' }
+        });
+        return;
+      }
+
+      if (submission.status !== 'accepted') {
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'INVALID_SUBMISSION_STATUS', 
+            message: 'Only accepted submissions can have a camera-ready version' 
+          }
+        });
+        return;
+      }
+
+      const version = await ManuscriptVersionRepository.markCameraReady(submissionId, versionId);
+      if (!version) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'VERSION_NOT_FOUND', message: 'Manuscript version not found' }
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: version,
+        message: `Version ${version.versionNumber} marked as camera-ready`
+      });
+
+    } catch (error) {
+      console.error('Error marking camera-ready version:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to mark camera-ready version' }
+      });
+    }
+  }
+
+  // Supplementary files (poster, slides, supplementary material)
+
+  async getSubmissionFiles(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const viewer = await this.resolveFileViewer(submission, userId, req.user?.role as UserRole);
+      const files = (await SubmissionFileRepository.findBySubmission(id))
+        .filter(file => canViewSubmissionFile(file.visibility, viewer));
+      const isBlinded = !viewer.isAuthor && await this.isBlindedReviewer(id, viewer.role, null);
+
+      res.json({
+        success: true,
+        data: {
+          files: files.map(({ filePath, uploadedBy, ...file }) => isBlinded
+            ? { ...file, originalName: anonymousSubmissionFileName(file) }
+            : { ...file, uploadedBy }),
+          slots: Object.fromEntries(
+            SUBMISSION_FILE_SLOT_NAMES.filter(slot => slot !== 'manuscript').map(slot => [slot, SUBMISSION_FILE_SLOTS[slot]])
+          )
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching submission files:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch submission files' }
+      });
+    }
+  }
+
+  async uploadSubmissionFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const slot = req.params.slot as SubmissionFileSlot;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'NO_FILE_UPLOADED', message: 'No file was uploaded' }
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId)) && req.user?.role !== 'admin') {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      const rule = SUBMISSION_FILE_SLOTS[slot];
+      if (['withdrawn', 'rejected'].includes(submission.status)) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_SUBMISSION_STATUS', message: 'Files cannot be added to a withdrawn or rejected submission' }
+        });
+        return;
+      }
+
+      if (rule.requiresAcceptance && submission.status !== 'accepted') {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_ACCEPTED', message: `${rule.label} can only be uploaded once the submission is accepted` }
+        });
+        return;
+      }
+
+      const visibility: FileVisibility = req.body.visibility || rule.defaultVisibility;
+      if (!rule.allowedVisibilities.includes(visibility)) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_VISIBILITY', message: `${rule.label} cannot be shared with ${visibility}` }
+        });
+        return;
+      }
+
+      // Single-file slots are replaced; multi-file slots are capped
+      const existing = await SubmissionFileRepository.findBySubmission(id, slot);
+      if (rule.maxFiles > 1 && existing.length >= rule.maxFiles) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: 'FILE_LIMIT_REACHED', message: `At most ${rule.maxFiles} ${rule.label.toLowerCase()} files can be attached` }
+        });
+        return;
+      }
+
+      const validationError = await this.fileService.validateUploadedSlotFile(req.file.path, slot, req.file.originalname);
+      if (validationError) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: validationError.code, message: validationError.message }
+        });
+        return;
+      }
+
+      const extension = path.extname(req.file.originalname).toLowerCase();
+      const expectedSignature = getExpectedSignature(extension);
+      const scanResult = await this.fileService.scanForViruses(req.file.path, expectedSignature ? [expectedSignature] : []);
+      if (!scanResult.clean) {
+        await this.fileService.quarantineFile(req.file.path, `${scanResult.threat} (submission ${id}, ${slot})`);
+        res.status(400).json({
+          success: false,
+          error: { 
+            code: 'SECURITY_THREAT_DETECTED', 
+            message: `File failed security scan: ${scanResult.threat}` 
+          }
+        });
+        return;
+      }
+
+      const sha256 = await this.fileService.calculateChecksum(req.file.path);
+      const organizedPath = await this.fileService.organizeSubmissionFile(req.file.path, id, slot, req.file.originalname);
+
+      let file;
+      try {
+        file = await SubmissionFileRepository.create({
+          submissionId: id,
+          slot,
+          originalName: req.file.originalname,
+          filePath: this.fileService.getRelativePath(organizedPath),
+          fileSize: req.file.size,
+          mimeType: req.file.mimetype,
+          sha256,
+          visibility,
+          description: req.body.description?.slice(0, 500) || undefined,
+          uploadedBy: userId
+        });
+      } catch (dbError) {
+        console.error('Error recording submission file:', dbError);
+        await this.fileService.deleteFile(organizedPath);
+        res.status(500).json({
+          success: false,
+          error: { code: 'DATABASE_ERROR', message: 'Failed to record uploaded file' }
+        });
+        return;
+      }
+
+      if (rule.maxFiles === 1) {
+        for (const previous of existing) {
+          await SubmissionFileRepository.delete(id, previous.id);
+          await this.fileService.deleteFile(this.fileService.getAbsolutePath(previous.filePath));
+        }
+      }
+
+      const { filePath, ...fileData } = file;
+      res.status(201).json({
+        success: true,
+        data: fileData,
+        message: `${rule.label} uploaded successfully`
+      });
+
+    } catch (error) {
+      console.error('Error uploading submission file:', error);
+
+      if (req.file) {
+        await this.fileService.deleteFile(req.file.path);
+      }
+
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to upload file' }
+      });
+    }
+  }
+
+  async updateSubmissionFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, fileId } = req.params;
+      const userId = req.user?.id;
+      const updates: UpdateSubmissionFileRequest = req.body;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId)) && req.user?.role !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      const file = await SubmissionFileRepository.findById(id, fileId);
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found' }
+        });
+        return;
+      }
+
+      const rule = SUBMISSION_FILE_SLOTS[file.slot];
+      if (updates.visibility && !rule.allowedVisibilities.includes(updates.visibility)) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_VISIBILITY', message: `${rule.label} cannot be shared with ${updates.visibility}` }
+        });
+        return;
+      }
+
+      const updated = await SubmissionFileRepository.update(id, fileId, updates);
+      if (!updated) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found' }
+        });
+        return;
+      }
+
+      const { filePath, ...fileData } = updated;
+      res.json({
+        success: true,
+        data: fileData,
+        message: 'File updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error updating submission file:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update file' }
+      });
+    }
+  }
+
+  async deleteSubmissionFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, fileId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      if (!canEditSubmission(await this.resolveAccess(submission, userId)) && req.user?.role !== 'admin') {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+        });
+        return;
+      }
+
+      const file = await SubmissionFileRepository.findById(id, fileId);
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found' }
+        });
+        return;
+      }
+
+      await SubmissionFileRepository.delete(id, fileId);
+      await this.fileService.deleteFile(this.fileService.getAbsolutePath(file.filePath));
+
+      res.json({
+        success: true,
+        message: 'File deleted successfully'
+      });
+
+    } catch (error) {
+      console.error('Error deleting submission file:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete file' }
+      });
+    }
+  }
+
+  async downloadSubmissionFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, fileId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      const file = submission ? await SubmissionFileRepository.findById(id, fileId) : null;
+      if (!submission || !file) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found' }
+        });
+        return;
+      }
+
+      const viewer = await this.resolveFileViewer(submission, userId, req.user?.role as UserRole);
+      if (!canViewSubmissionFile(file.visibility, viewer)) {
+        res.status(403).json({
+          success: false,
+          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+        });
+        return;
+      }
+
+      if (!viewer.isAuthor && await this.isBlindedReviewer(id, viewer.role, null)) {
+        await this.sendAnonymizedCopy(res, file.filePath, anonymousSubmissionFileName(file), file.mimeType);
+        return;
+      }
+
+      await this.streamSubmissionFile(res, file);
+
+    } catch (error) {
+      console.error('Error downloading submission file:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: 'Failed to download file' }
+        });
+      }
+    }
+  }
+
+  // Public files (e.g. posters and slides) of active submissions can be downloaded without an account
+  async downloadPublicSubmissionFile(req: Request, res: Response): Promise<void> {
+    try {
+      const file = await SubmissionFileRepository.findPublicById(req.params.fileId);
+      if (!file) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found' }
+        });
+        return;
+      }
+
+      await this.streamSubmissionFile(res, file);
+
+    } catch (error) {
+      console.error('Error downloading public submission file:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: 'Failed to download file' }
+        });
+      }
+    }
+  }
+
+  // Abstract figure (one captioned PNG/JPEG image shown with the abstract)
+
+  async uploadAbstractFigure(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ 
+          success: false, 
+          error: { code: 'UNAUTHORIZED', message: 'User not authenticated' } 
+        });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          error: { code: 'NO_FILE_UPLOADED', message: 'No file was uploaded' }
+        });
+        return;
+      }
+
+      const submission = await this.submissionRepository.findById(id);
+      if (!submission) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(404).json({
+          success: false,
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+        });
+        return;
+      }
+
+      const editError = await this.checkAbstractFigureEdit(submission, userId, req.user?.role as UserRole);
+      if (editError) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(editError.status).json({ success: false, error: editError.error });
+        return;
+      }
+
+      const caption = typeof req.body.caption === 'string' ? req.body.caption.trim() : '';
+      if (caption.length > ABSTRACT_FIGURE_RULES.maxCaptionLength) {
+        await this.fileService.deleteFile(req.file.path);
+        res.status(400).json({
+          success: false,
+          error: { code: 'CAPTION_TOO_LONG', message: `Figure captions may be at most ${ABSTRACT_FIGURE_RULES.maxCaptionLength} characters` }
         });
         return;
       }
 
-      // Validate uploaded file
-      const validationError = await this.fileService.validateUploadedFile(req.file.path);
+      const validationError = await this.fileService.validateUploadedAbstractFigure(req.file.path);
       if (validationError) {
-        // Clean up invalid file
         await this.fileService.deleteFile(req.file.path);
         res.status(400).json({
           success: false,
@@ -641,100 +2945,68 @@ export class SubmissionController {
         return;
       }
 
-      // Scan for viruses
-      const scanResult = await this.fileService.scanForViruses(req.file.path);
+      const expectedSignature = getExpectedSignature(path.extname(req.file.originalname));
+      const scanResult = await this.fileService.scanForViruses(req.file.path, expectedSignature ? [expectedSignature] : []);
       if (!scanResult.clean) {
-        // Clean up infected file
-        await this.fileService.deleteFile(req.file.path);
+        await this.fileService.quarantineFile(req.file.path, `${scanResult.threat} (submission ${id}, abstract figure)`);
         res.status(400).json({
           success: false,
           error: { 
-            code: 'VIRUS_DETECTED', 
-            message: `File rejected: ${scanResult.threat || 'Security threat detected'}` 
+            code: 'SECURITY_THREAT_DETECTED', 
+            message: `File failed security scan: ${scanResult.threat}` 
           }
         });
         return;
       }
 
-      // Delete old manuscript if exists
-      if (submission.manuscriptPath) {
-        const oldPath = this.fileService.getAbsolutePath(submission.manuscriptPath);
-        await this.fileService.deleteFile(oldPath);
-      }
-
-      // Organize file in proper directory structure
-      const organizedPath = await this.fileService.organizeFile(
-        req.file.path, 
-        submissionId, 
-        req.file.originalname
-      );
-
-      // Get relative path for database storage
-      const relativePath = this.fileService.getRelativePath(organizedPath);
-
-      // Update submission with manuscript path
-      const updatedSubmission = await this.submissionRepository.update(submissionId, {
-        manuscriptPath: relativePath,
-        updatedAt: new Date()
+      const organizedPath = await this.fileService.organizeAbstractFigure(req.file.path, id);
+      const updated = await SubmissionRepository.updateAbstractFigure(id, {
+        path: this.fileService.getRelativePath(organizedPath),
+        mimeType: req.file.mimetype,
+        caption: caption || undefined
       });
-
-      if (!updatedSubmission) {
-        // Clean up file if database update failed
+      if (!updated) {
         await this.fileService.deleteFile(organizedPath);
-        res.status(500).json({
+        res.status(404).json({
           success: false,
-          error: { code: 'DATABASE_ERROR', message: 'Failed to update submission with manuscript path' }
+          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
         });
         return;
       }
 
-      // Send notification email
-      try {
-        const user = await this.userRepository.findById(userId);
-        if (user) {
-          await this.emailService.sendManuscriptUploadConfirmation(
-            user.email,
-            user.firstName,
-            submission,
-            req.file.originalname
-          );
-        }
-      } catch (emailError) {
-        console.error('Failed to send manuscript upload confirmation email:', emailError);
+      // A new figure replaces the previous one
+      if (submission.abstractFigurePath) {
+        await this.fileService.deleteFile(this.fileService.getAbsolutePath(submission.abstractFigurePath));
       }
 
-      res.json({
+      res.status(201).json({
         success: true,
         data: {
-          submissionId,
-          manuscriptPath: relativePath,
-          originalName: req.file.originalname,
-          size: req.file.size,
-          uploadDate: new Date()
+          abstractFigurePath: updated.abstractFigurePath,
+          abstractFigureMimeType: updated.abstractFigureMimeType,
+          abstractFigureCaption: updated.abstractFigureCaption
         },
-        message: 'Manuscript uploaded successfully'
+        message: 'Figure uploaded successfully'
       });
 
     } catch (error) {
-      console.error('Error uploading manuscript:', error);
-      
-      // Clean up file if it exists
-      if (req.file?.path) {
+      console.error('Error uploading abstract figure:', error);
+
+      if (req.file) {
         await this.fileService.deleteFile(req.file.path);
       }
 
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to upload manuscript' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to upload figure' }
       });
     }
   }
 
-  async downloadManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async updateAbstractFigureCaption(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { submissionId } = req.params;
+      const { id } = req.params;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
 
       if (!userId) {
         res.status(401).json({ 
@@ -744,8 +3016,7 @@ export class SubmissionController {
         return;
       }
 
-      // Get submission
-      const submission = await this.submissionRepository.findById(submissionId);
+      const submission = await this.submissionRepository.findById(id);
       if (!submission) {
         res.status(404).json({
           success: false,
@@ -754,75 +3025,43 @@ export class SubmissionController {
         return;
       }
 
-      // Check permissions: user must own the submission or be admin/reviewer
-      if (submission.userId !== userId && !['admin', 'reviewer'].includes(userRole || '')) {
-        res.status(403).json({
-          success: false,
-          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
-        });
-        return;
-      }
-
-      // Check if manuscript exists
-      if (!submission.manuscriptPath) {
-        res.status(404).json({
-          success: false,
-          error: { code: 'MANUSCRIPT_NOT_FOUND', message: 'No manuscript found for this submission' }
-        });
+      const editError = await this.checkAbstractFigureEdit(submission, userId, req.user?.role as UserRole);
+      if (editError) {
+        res.status(editError.status).json({ success: false, error: editError.error });
         return;
       }
 
-      const filePath = this.fileService.getAbsolutePath(submission.manuscriptPath);
-      const fileInfo = await this.fileService.getFileInfo(filePath);
-
-      if (!fileInfo.exists) {
+      const updated = await SubmissionRepository.updateAbstractFigureCaption(id, req.body.caption.trim());
+      if (!updated) {
         res.status(404).json({
           success: false,
-          error: { code: 'FILE_NOT_FOUND', message: 'Manuscript file not found on server' }
+          error: { code: 'FIGURE_NOT_FOUND', message: 'This abstract has no figure' }
         });
         return;
       }
 
-      // Set appropriate headers for file download
-      res.setHeader('Content-Type', fileInfo.mimetype || 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${fileInfo.filename}"`);
-      res.setHeader('Content-Length', fileInfo.size?.toString() || '0');
-
-      // Stream file to response
-      const fileStream = await fs.open(filePath, 'r');
-      const readStream = fileStream.createReadStream();
-      
-      readStream.pipe(res);
-      
-      readStream.on('end', async () => {
-        await fileStream.close();
-      });
-
-      readStream.on('error', async (error) => {
-        console.error('Error streaming file:', error);
-        await fileStream.close();
-        if (!res.headersSent) {
-          res.status(500).json({
-            success: false,
-            error: { code: 'FILE_STREAM_ERROR', message: 'Error downloading file' }
-          });
-        }
+      res.json({
+        success: true,
+        data: {
+          abstractFigurePath: updated.abstractFigurePath,
+          abstractFigureMimeType: updated.abstractFigureMimeType,
+          abstractFigureCaption: updated.abstractFigureCaption
+        },
+        message: 'Figure caption updated successfully'
       });
 
     } catch (error) {
-      console.error('Error downloading manuscript:', error);
-      if (!res.headersSent) {
-        res.status(500).json({
-          success: false,
-          error: { code: 'INTERNAL_ERROR', message: 'Failed to download manuscript' }
-        });
-      }
+      console.error('Error updating abstract figure caption:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update figure caption' }
+      });
     }
   }
 
-  async deleteManuscript(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async deleteAbstractFigure(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { submissionId } = req.params;
+      const { id } = req.params;
       const userId = req.user?.id;
 
       if (!userId) {
@@ -833,8 +3072,7 @@ export class SubmissionController {
         return;
       }
 
-      // Get submission
-      const submission = await this.submissionRepository.findById(submissionId);
+      const submission = await this.submissionRepository.findById(id);
       if (!submission) {
         res.status(404).json({
           success: false,
@@ -843,63 +3081,41 @@ export class SubmissionController {
         return;
       }
 
-      // Check permissions: user must own the submission
-      if (submission.userId !== userId) {
-        res.status(403).json({
-          success: false,
-          error: { code: 'ACCESS_DENIED', message: 'You can only delete manuscripts for your own submissions' }
-        });
-        return;
-      }
-
-      // Check if submission allows manuscript deletion
-      if (['accepted', 'rejected'].includes(submission.status)) {
-        res.status(400).json({
-          success: false,
-          error: { 
-            code: 'INVALID_SUBMISSION_STATUS', 
-            message: 'Cannot delete manuscript for accepted or rejected submissions' 
-          }
-        });
+      const editError = await this.checkAbstractFigureEdit(submission, userId, req.user?.role as UserRole);
+      if (editError) {
+        res.status(editError.status).json({ success: false, error: editError.error });
         return;
       }
 
-      // Check if manuscript exists
-      if (!submission.manuscriptPath) {
+      if (!submission.abstractFigurePath) {
         res.status(404).json({
           success: false,
-          error: { code: 'MANUSCRIPT_NOT_FOUND', message: 'No manuscript found for this submission' }
+          error: { code: 'FIGURE_NOT_FOUND', message: 'This abstract has no figure' }
         });
         return;
       }
 
-      // Delete file from filesystem
-      const filePath = this.fileService.getAbsolutePath(submission.manuscriptPath);
-      await this.fileService.deleteFile(filePath);
-
-      // Update submission to remove manuscript path
-      await this.submissionRepository.update(submissionId, {
-        manuscriptPath: null,
-        updatedAt: new Date()
-      });
+      await SubmissionRepository.updateAbstractFigure(id, null);
+      await this.fileService.deleteFile(this.fileService.getAbsolutePath(submission.abstractFigurePath));
 
       res.json({
         success: true,
-        message: 'Manuscript deleted successfully'
+        message: 'Figure removed successfully'
       });
 
     } catch (error) {
-      console.error('Error deleting manuscript:', error);
+      console.error('Error deleting abstract figure:', error);
       res.status(500).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to delete manuscript' }
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to remove figure' }
       });
     }
   }
 
-  async getManuscriptInfo(req: AuthenticatedRequest, res: Response): Promise<void> {
+  // The figure is visible to everyone who may read the abstract
+  async getAbstractFigure(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { submissionId } = req.params;
+      const { id } = req.params;
       const userId = req.user?.id;
       const userRole = req.user?.role;
 
@@ -911,63 +3127,353 @@ export class SubmissionController {
         return;
       }
 
-      // Get submission
-      const submission = await this.submissionRepository.findById(submissionId);
-      if (!submission) {
+      const submission = await this.submissionRepository.findById(id);
+      const accessLevel = submission ? await this.resolveAccess(submission, userId) : null;
+      const canView = submission
+        && (accessLevel || ['admin', 'reviewer'].includes(userRole || ''))
+        && (submission.status !== 'draft' || submission.userId === userId || userRole === 'admin');
+      if (!submission || !canView || !submission.abstractFigurePath) {
         res.status(404).json({
           success: false,
-          error: { code: 'SUBMISSION_NOT_FOUND', message: 'Submission not found' }
+          error: { code: 'FIGURE_NOT_FOUND', message: 'Figure not found' }
         });
         return;
       }
 
-      // Check permissions: user must own the submission or be admin/reviewer
-      if (submission.userId !== userId && !['admin', 'reviewer'].includes(userRole || '')) {
-        res.status(403).json({
+      const figure = await this.fileService.readAbstractFigure(submission.abstractFigurePath);
+      if (!figure) {
+        res.status(404).json({
           success: false,
-          error: { code: 'ACCESS_DENIED', message: 'Access denied' }
+          error: { code: 'FILE_NOT_FOUND', message: 'File not found on server' }
         });
         return;
       }
 
-      // Check if manuscript exists
-      if (!submission.manuscriptPath) {
-        res.json({
-          success: true,
-          data: {
-            hasManuscript: false,
-            submissionId
-          }
+      res.setHeader('Content-Type', submission.abstractFigureMimeType || 'application/octet-stream');
+      res.setHeader('Content-Disposition', 'inline');
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.send(figure);
+
+    } catch (error) {
+      console.error('Error fetching abstract figure:', error);
+      res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch figure' }
+      });
+    }
+  }
+
+  // Apply the conference deadline, grace period and any extensions; late attempts are audited
+  private async enforceSubmissionDeadline(
+    req: AuthenticatedRequest,
+    res: Response,
+    conference: ConferenceResponse | null,
+    action: string,
+    submissionId?: string
+  ): Promise<boolean> {
+    if (!conference || req.user.role === 'admin') {
+      return true;
+    }
+
+    const extensions = await DeadlineExtensionRepository.findApplicable(conference.id, req.user.id, submissionId);
+    const check = checkSubmissionDeadline(
+      conference.submissionDeadline,
+      conference.submissionGraceMinutes,
+      extensions
+    );
+
+    if (check.pastDeadline) {
+      await auditService.logLateSubmissionAttempt(
+        req.user.id,
+        req.user.email,
+        action,
+        submissionId,
+        check,
+        req.ip || 'unknown'
+      );
+    }
+
+    if (check.allowed) {
+      return true;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'SUBMISSION_DEADLINE_PASSED',
+        message: 'Submission deadline has passed'
+      }
+    });
+    return false;
+  }
+
+  // New work can only be filed under an open track of the active conference
+  private async enforceOpenTrack(res: Response, sessionType: SessionType | null | undefined): Promise<boolean> {
+    if (!sessionType) {
+      return true;
+    }
+
+    const unknownCodes = await TrackRepository.findUnknownCodes([sessionType]);
+    if (unknownCodes.length === 0) {
+      return true;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_SESSION_TYPE',
+        message: `${sessionType} is not an open track of this conference`
+      }
+    });
+    return false;
+  }
+
+  // Check submission fields against the session's policy, responding with the failed rules
+  private async enforceSessionPolicy(
+    res: Response,
+    sessionType: SessionType,
+    data: { abstract?: string; keywords?: string[]; presentationType?: PresentationType | null }
+  ): Promise<boolean> {
+    const rules = await SessionPolicyRepository.getRules(sessionType);
+    const violations = checkSessionPolicy(sessionType, rules, {
+      abstractWords: data.abstract !== undefined ? countAbstractWords(data.abstract) : undefined,
+      keywords: data.keywords,
+      presentationType: data.presentationType
+    });
+    if (violations.length === 0) {
+      return true;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'SESSION_POLICY_VIOLATION',
+        message: violations.map(violation => violation.message).join('; '),
+        details: violations.map(violation => violation.message)
+      }
+    });
+    return false;
+  }
+
+  // Near-duplicate detection never blocks the author; flags are reviewed by admins
+  private async flagSimilarSubmissions(submissionId: string): Promise<void> {
+    try {
+      const matches = await similarityService.checkSubmission(submissionId);
+      if (matches.length > 0) {
+        console.warn(`Submission ${submissionId} flagged as similar to ${matches.length} other submission(s)`);
+      }
+    } catch (similarityError) {
+      console.error('Failed to check submission similarity:', similarityError);
+    }
+  }
+
+  // Resolve the requesting user's access through ownership or a linked author row
+  private async resolveAccess(
+    submission: Submission | SubmissionResponse,
+    userId: string
+  ): Promise<SubmissionAccessLevel | null> {
+    if (submission.userId === userId) {
+      return 'owner';
+    }
+
+    const authors = 'authors' in submission
+      ? submission.authors
+      : await this.submissionRepository.getSubmissionAuthors(submission.id);
+
+    return getSubmissionAccess(submission, authors, userId);
+  }
+
+  // The figure belongs to the abstract, so it can only change while the abstract can
+  private async checkAbstractFigureEdit(
+    submission: Submission,
+    userId: string,
+    role: UserRole
+  ): Promise<{ status: number; error: { code: string; message: string } } | null> {
+    if (role === 'admin') {
+      return null;
+    }
+
+    if (!canEditSubmission(await this.resolveAccess(submission, userId))) {
+      return {
+        status: 403,
+        error: { code: 'ACCESS_DENIED', message: 'You do not have edit rights for this submission' }
+      };
+    }
+
+    if (!['draft', 'submitted'].includes(submission.status)) {
+      return {
+        status: 400,
+        error: { code: 'SUBMISSION_NOT_EDITABLE', message: 'The abstract cannot be edited in its current status' }
+      };
+    }
+
+    return null;
+  }
+
+  // Reviewers who are not among the authors are blinded when the edition runs double-blind review
+  private async isBlindedReviewer(
+    submissionId: string,
+    role: string | undefined,
+    accessLevel: SubmissionAccessLevel | null
+  ): Promise<boolean> {
+    if (role !== 'reviewer' || accessLevel) {
+      return false;
+    }
+
+    return hidesAuthorsFromReviewers(await ConferenceRepository.findReviewModeForSubmission(submissionId));
+  }
+
+  // Listings cover a single edition, so its review mode decides for every row
+  private async isBlindedListing(req: AuthenticatedRequest): Promise<boolean> {
+    if (req.user?.role !== 'reviewer' || !req.conferenceId) {
+      return false;
+    }
+
+    const conference = await ConferenceRepository.findById(req.conferenceId);
+    return Boolean(conference && hidesAuthorsFromReviewers(conference.reviewMode));
+  }
+
+  // A reviewer still sees their own submissions in full
+  private anonymizeForReviewer<T extends SubmissionResponse>(submission: T, userId: string) {
+    return submission.userId === userId ? submission : anonymizeSubmission(submission);
+  }
+
+  // Describe the requesting user for file visibility checks
+  private async resolveFileViewer(
+    submission: Submission,
+    userId: string,
+    role: UserRole
+  ): Promise<{ isAuthor: boolean; role: UserRole; isAssignedReviewer: boolean }> {
+    const isAuthor = Boolean(await this.resolveAccess(submission, userId));
+    const isAssignedReviewer = !isAuthor && role === 'reviewer' && await this.isAssignedReviewer(submission.id, userId);
+
+    return { isAuthor, role, isAssignedReviewer };
+  }
+
+  // Whether the user holds a review assignment for the submission
+  private async isAssignedReviewer(submissionId: string, userId: string): Promise<boolean> {
+    const reviewers = await ReviewRepository.getSubmissionReviewers(submissionId);
+    return reviewers.some(reviewer => reviewer.reviewerId === userId);
+  }
+
+  // Stream a stored supplementary file under its original name
+  private async streamSubmissionFile(res: Response, file: SubmissionFile): Promise<void> {
+    const filePath = this.fileService.getAbsolutePath(file.filePath);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      res.status(404).json({
+        success: false,
+        error: { code: 'FILE_NOT_FOUND', message: 'File not found on server' }
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.originalName.replace(/"/g, '')}"`);
+    res.setHeader('Content-Length', file.fileSize.toString());
+
+    const fileHandle = await fs.open(filePath, 'r');
+    const readStream = fileHandle.createReadStream();
+
+    readStream.pipe(res);
+
+    readStream.on('end', async () => {
+      await fileHandle.close();
+    });
+
+    readStream.on('error', async (error) => {
+      console.error('Error streaming file:', error);
+      await fileHandle.close();
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'FILE_STREAM_ERROR', message: 'Error downloading file' }
         });
-        return;
       }
+    });
+  }
 
-      const filePath = this.fileService.getAbsolutePath(submission.manuscriptPath);
-      const fileInfo = await this.fileService.getFileInfo(filePath);
+  // Stream a stored manuscript file to the response
+  private async streamManuscriptFile(res: Response, relativePath: string, downloadName?: string): Promise<void> {
+    const filePath = this.fileService.getAbsolutePath(relativePath);
+    const fileInfo = await this.fileService.getFileInfo(filePath);
 
-      res.json({
-        success: true,
-        data: {
-          hasManuscript: fileInfo.exists,
-          submissionId,
-          filename: fileInfo.filename,
-          size: fileInfo.size,
-          mimetype: fileInfo.mimetype,
-          uploadDate: submission.updatedAt || submission.createdAt
-        }
+    if (!fileInfo.exists) {
+      res.status(404).json({
+        success: false,
+        error: { code: 'FILE_NOT_FOUND', message: 'Manuscript file not found on server' }
       });
+      return;
+    }
 
-    } catch (error) {
-      console.error('Error getting manuscript info:', error);
-      res.status(500).json({
+    // Set appropriate headers for file download
+    res.setHeader('Content-Type', fileInfo.mimetype || 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${downloadName || fileInfo.filename}"`);
+    res.setHeader('Content-Length', fileInfo.size?.toString() || '0');
+
+    // Stream file to response
+    const fileStream = await fs.open(filePath, 'r');
+    const readStream = fileStream.createReadStream();
+    
+    readStream.pipe(res);
+    
+    readStream.on('end', async () => {
+      await fileStream.close();
+    });
+
+    readStream.on('error', async (error) => {
+      console.error('Error streaming file:', error);
+      await fileStream.close();
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { code: 'FILE_STREAM_ERROR', message: 'Error downloading file' }
+        });
+      }
+    });
+  }
+
+  // Serve a copy without the PDF author metadata under a name that does not identify the authors
+  private async sendAnonymizedCopy(
+    res: Response,
+    relativePath: string,
+    downloadName: string,
+    mimeType?: string
+  ): Promise<void> {
+    const filePath = this.fileService.getAbsolutePath(relativePath);
+    const fileInfo = await this.fileService.getFileInfo(filePath);
+
+    if (!fileInfo.exists) {
+      res.status(404).json({
         success: false,
-        error: { code: 'INTERNAL_ERROR', message: 'Failed to get manuscript information' }
+        error: { code: 'FILE_NOT_FOUND', message: 'File not found on server' }
       });
+      return;
     }
+
+    const content = await fs.readFile(filePath);
+    const copy = isPdf(content) ? stripPdfAuthorMetadata(content) : content;
+
+    res.setHeader('Content-Type', mimeType || fileInfo.mimetype || 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${downloadName}"`);
+    res.setHeader('Content-Length', copy.length.toString());
+    res.end(copy);
   }
 
   // Get multer middleware for file uploads
   public getUploadMiddleware() {
     return this.fileService.getMulterConfig().single('manuscript');
   }
+
+  // Get multer middleware for supplementary file uploads
+  public getSubmissionFileUploadMiddleware() {
+    return this.fileService.getSubmissionFileMulterConfig().single('file');
+  }
+
+  // Get multer middleware for abstract figure uploads
+  public getAbstractFigureUploadMiddleware() {
+    return this.fileService.getAbstractFigureMulterConfig().single('figure');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { Request, Response } from 'express';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { ConferenceRepository } from '../models/ConferenceRepository.js';
+import { trackValidation } from '../models/validation.js';
+import { CacheInvalidator } from '../middleware/cache.js';
+
+// Postgres unique_violation, raised when a code is already used in the conference
+const UNIQUE_VIOLATION = '23505';
+
+export class TrackController {
+  // List the tracks of the active conference; closed ones are included so existing
+  // submissions keep their names and colours
+  static async getTracks(_req: Request, res: Response) {
+    try {
+      const tracks = await TrackRepository.findForActiveConference(true);
+
+      return res.json({
+        success: true,
+        data: tracks
+      });
+    } catch (error) {
+      console.error('Error fetching tracks:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch tracks'
+        }
+      });
+    }
+  }
+
+  // List every track of a conference, including closed ones
+  static async getConferenceTracks(req: Request, res: Response) {
+    try {
+      const { conferenceId } = req.params;
+      const tracks = await TrackRepository.findByConference(conferenceId, true);
+
+      return res.json({
+        success: true,
+        data: tracks
+      });
+    } catch (error) {
+      console.error('Error fetching conference tracks:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch tracks'
+        }
+      });
+    }
+  }
+
+  // Add a track to a conference
+  static async createTrack(req: Request, res: Response) {
+    try {
+      const { conferenceId } = req.params;
+
+      const { error, value } = trackValidation.createTrack.validate(req.body, { abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid track data',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+      }
+
+      const conference = await ConferenceRepository.findById(conferenceId);
+      if (!conference) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONFERENCE_NOT_FOUND',
+            message: 'Conference not found'
+          }
+        });
+      }
+
+      const track = await TrackRepository.create(conferenceId, value);
+      await TrackController.invalidateCaches();
+
+      return res.status(201).json({
+        success: true,
+        data: track
+      });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'TRACK_EXISTS',
+            message: 'The conference already has a track with this code'
+          }
+        });
+      }
+      console.error('Error creating track:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create track'
+        }
+      });
+    }
+  }
+
+  // Update a track; renaming its code moves everything filed under it
+  static async updateTrack(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const { error, value } = trackValidation.updateTrack.validate(req.body, { abortEarly: false });
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid track data',
+            details: error.details.map(detail => detail.message)
+          }
+        });
+      }
+
+      const track = await TrackRepository.update(id, value);
+      if (!track) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'TRACK_NOT_FOUND',
+            message: 'Track not found'
+          }
+        });
+      }
+
+      await TrackController.invalidateCaches();
+
+      return res.json({
+        success: true,
+        data: track
+      });
+    } catch (error: any) {
+      if (error?.code === UNIQUE_VIOLATION) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'TRACK_EXISTS',
+            message: 'The conference already has a track with this code'
+          }
+        });
+      }
+      console.error('Error updating track:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update track'
+        }
+      });
+    }
+  }
+
+  // Delete a track nothing is filed under; tracks in use can only be closed
+  static async deleteTrack(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const usage = await TrackRepository.countUsage(id);
+      if (usage > 0) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'TRACK_IN_USE',
+            message: 'Submissions, sessions or registrations use this track; close it instead of deleting it'
+          }
+        });
+      }
+
+      const deleted = await TrackRepository.delete(id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'TRACK_NOT_FOUND',
+            message: 'Track not found'
+          }
+        });
+      }
+
+      await TrackController.invalidateCaches();
+
+      return res.json({
+        success: true,
+        message: 'Track deleted successfully'
+      });
+    } catch (error) {
+      console.error('Error deleting track:', error);
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete track'
+        }
+      });
+    }
+  }
+
+  // Track names appear in the cached conference and abstract books
+  private static async invalidateCaches(): Promise<void> {
+    await CacheInvalidator.invalidateConference();
+    await CacheInvalidator.invalidateAbstractBook();
+  }
+}
@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { UserRepository } from '../models/UserRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
+import { RegistrationRepository } from '../models/RegistrationRepository.js';
+import { ConferenceRepository } from '../models/ConferenceRepository.js';
 import { userValidation } from '../models/validation.js';
 import { 
   UpdateUserRequest,
+  RegisterForConferenceRequest,
   SessionType,
   ParticipantType 
 } from '../types/index.js';
@@ -199,10 +203,7 @@ export class UserController {
         return;
       }
 
-      const validSessions: SessionType[] = ['CHE', 'CSE', 'BIO', 'MST', 'PFD'];
-      const invalidSessions = selectedSessions.filter((session: string) => 
-        !validSessions.includes(session as SessionType)
-      );
+      const invalidSessions = await TrackRepository.findUnknownCodes(selectedSessions as SessionType[]);
 
       if (invalidSessions.length > 0) {
         res.status(400).json({
@@ -407,38 +408,20 @@ export class UserController {
   }
 
   /**
-   * Get available session types with descriptions
+   * Get the open tracks of the active conference with descriptions
    * GET /api/users/session-types
    */
   static async getSessionTypes(_req: Request, res: Response): Promise<void> {
     try {
-      const sessionTypes = [
-        {
-          value: 'CHE' as SessionType,
-          label: 'Computational Chemistry',
-          description: 'Research in computational methods for chemistry, molecular modeling, and chemical simulations'
-        },
-        {
-          value: 'CSE' as SessionType,
-          label: 'High Performance Computing/Computer Science/Engineering',
-          description: 'High-performance computing, computer science research, and computational engineering'
-        },
-        {
-          value: 'BIO' as SessionType,
-          label: 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
-          description: 'Computational biology, bioinformatics, biochemistry, and biophysics research'
-        },
-        {
-          value: 'MST' as SessionType,
-          label: 'Mathematics and Statistics',
-          description: 'Mathematical modeling, statistical analysis, and computational mathematics'
-        },
-        {
-          value: 'PFD' as SessionType,
-          label: 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics',
-          description: 'Computational physics, fluid dynamics simulations, and solid mechanics modeling'
-        }
-      ];
+      const tracks = await TrackRepository.findForActiveConference();
+      const sessionTypes = tracks.map(track => ({
+        value: track.code,
+        label: track.name,
+        description: track.description || '',
+        guidelines: track.guidelines,
+        color: track.color,
+        chairs: track.chairs
+      }));
 
       res.json({
         success: true,
@@ -499,6 +482,7 @@ export class UserController {
         role: user.role,
         bio: user.bio,
         expertise: user.expertise,
+        isRegistered: user.isRegistered,
         paymentStatus: user.paymentStatus,
         registrationFee: user.registrationFee
       };
@@ -521,4 +505,146 @@ export class UserController {
       });
     }
   }
+
+  /**
+   * Get the conference editions the user registered for
+   * GET /api/users/registrations
+   */
+  static async getRegistrations(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const registrations = await RegistrationRepository.findByUser(userId);
+
+      res.json({
+        success: true,
+        data: { registrations },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Get registrations error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'GET_REGISTRATIONS_FAILED',
+          message: 'Failed to fetch conference registrations'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Register a returning user for the current conference edition
+   * POST /api/users/registrations
+   */
+  static async registerForConference(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User not authenticated'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      // Validate request body
+      const { error, value } = userValidation.registerForConference.validate(req.body);
+      if (error) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.details[0].message,
+            details: error.details
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { participantType, selectedSessions }: RegisterForConferenceRequest = value;
+
+      const conferenceId = await ConferenceRepository.findCurrentId();
+      if (!conferenceId) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NO_ACTIVE_CONFERENCE',
+            message: 'No active conference found'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (await RegistrationRepository.findForConference(conferenceId, userId)) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'ALREADY_REGISTERED',
+            message: 'You are already registered for this conference'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const invalidSessions = await TrackRepository.findUnknownCodes(selectedSessions);
+      if (invalidSessions.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SESSION_TYPES',
+            message: `Invalid session types: ${invalidSessions.join(', ')}`
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const registration = await UserRepository.registerForCurrentEdition(userId, participantType, selectedSessions);
+      const userResponse = await UserRepository.findByIdWithSessions(userId);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          registration,
+          user: userResponse,
+          message: 'Registered for the conference successfully'
+        },
+        timestamp: new Date().toISOString()
+      });
+
+    } catch (error) {
+      console.error('Register for conference error:', error);
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'REGISTRATION_FAILED',
+          message: 'Failed to register for the conference'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Submission revision cycle
+-- Migration 003: Add revision statuses, review rounds and revision history
+
+-- New lifecycle states for minor/major revision requests
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'revision_requested';
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'revised';
+
+-- Current review round and the author's deadline for an open revision request
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS revision_round INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS revision_deadline TIMESTAMP WITH TIME ZONE;
+
+-- Reviews belong to a round; the same reviewer reviews once per round
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS round INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_submission_id_reviewer_id_key;
+ALTER TABLE reviews ADD CONSTRAINT reviews_submission_reviewer_round_key UNIQUE (submission_id, reviewer_id, round);
+
+-- One row per revision request, completed when the author resubmits
+CREATE TABLE submission_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    round INTEGER NOT NULL,
+    revision_type review_recommendation NOT NULL CHECK (revision_type IN ('minor_revision', 'major_revision')),
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    request_notes TEXT,
+    deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    reviewed_title VARCHAR(500) NOT NULL,
+    reviewed_abstract TEXT NOT NULL,
+    reviewed_manuscript_path VARCHAR(500),
+    response_letter TEXT,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(submission_id, round)
+);
+
+CREATE INDEX idx_submission_revisions_submission_id ON submission_revisions(submission_id);
+CREATE INDEX idx_reviews_submission_round ON reviews(submission_id, round);
+
+CREATE TRIGGER update_submission_revisions_updated_at BEFORE UPDATE ON submission_revisions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
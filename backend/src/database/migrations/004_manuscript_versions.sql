@@ -0,0 +1,56 @@
+-- Versioned manuscript history
+-- Migration 004: Keep every manuscript upload as an immutable version
+
+CREATE TABLE manuscript_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    original_name VARCHAR(255) NOT NULL,
+    file_size BIGINT,
+    sha256 CHAR(64),
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    change_note TEXT,
+    is_camera_ready BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(submission_id, version_number)
+);
+
+CREATE INDEX idx_manuscript_versions_submission_id ON manuscript_versions(submission_id);
+
+-- Only one camera-ready version per submission
+CREATE UNIQUE INDEX idx_manuscript_versions_camera_ready ON manuscript_versions(submission_id) WHERE is_camera_ready = true;
+
+-- Version contents are immutable; only the camera-ready flag (and uploader, via ON DELETE SET NULL) may change
+CREATE OR REPLACE FUNCTION prevent_manuscript_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.submission_id IS DISTINCT FROM OLD.submission_id
+        OR NEW.version_number IS DISTINCT FROM OLD.version_number
+        OR NEW.file_path IS DISTINCT FROM OLD.file_path
+        OR NEW.original_name IS DISTINCT FROM OLD.original_name
+        OR NEW.file_size IS DISTINCT FROM OLD.file_size
+        OR NEW.sha256 IS DISTINCT FROM OLD.sha256
+        OR NEW.change_note IS DISTINCT FROM OLD.change_note
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Manuscript versions are immutable';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_manuscript_version_changes BEFORE UPDATE ON manuscript_versions FOR EACH ROW EXECUTE FUNCTION prevent_manuscript_version_changes();
+
+-- Import existing single-file manuscripts as version 1 (checksum and size unknown)
+INSERT INTO manuscript_versions (submission_id, version_number, file_path, original_name, uploaded_by, change_note, created_at)
+SELECT id, 1, manuscript_path, regexp_replace(manuscript_path, '^.*/', ''), user_id, 'Imported from single manuscript upload', COALESCE(updated_at, created_at)
+FROM submissions
+WHERE manuscript_path IS NOT NULL;
+
+-- Reviewers are pinned to the version that was current when they were assigned
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS manuscript_version_id UUID REFERENCES manuscript_versions(id) ON DELETE SET NULL;
+
+UPDATE reviews r
+SET manuscript_version_id = mv.id
+FROM manuscript_versions mv
+WHERE mv.submission_id = r.submission_id AND mv.version_number = 1;
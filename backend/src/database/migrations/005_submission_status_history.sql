@@ -0,0 +1,25 @@
+-- Submission status history
+-- Migration 005: Record every submission status change with actor, reason and admin notes
+
+CREATE TABLE submission_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    from_status submission_status,
+    to_status submission_status NOT NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    admin_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_submission_status_history_submission_id ON submission_status_history(submission_id, created_at);
+
+-- Seed history for existing submissions: the original submission, then the current status if it has moved on
+INSERT INTO submission_status_history (submission_id, from_status, to_status, changed_by, reason, created_at)
+SELECT id, NULL, 'submitted', user_id, 'Submission created', COALESCE(submission_date, created_at)
+FROM submissions;
+
+INSERT INTO submission_status_history (submission_id, from_status, to_status, reason, created_at)
+SELECT id, 'submitted', status, 'Imported from existing submission status', COALESCE(updated_at, created_at)
+FROM submissions
+WHERE status <> 'submitted';
@@ -0,0 +1,15 @@
+-- Draft submissions
+-- Migration 006: Let authors autosave incomplete submissions before finalizing them
+
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'draft';
+
+-- Drafts may not have chosen a session or presentation type yet
+ALTER TABLE submissions ALTER COLUMN session_type DROP NOT NULL;
+ALTER TABLE submissions ALTER COLUMN presentation_type DROP NOT NULL;
+
+-- Drafts are inserted without a submission date; it is set when the draft is finalized.
+-- Compare as text: the new enum value cannot be referenced before this migration commits
+ALTER TABLE submissions ADD CONSTRAINT submissions_complete_unless_draft CHECK (
+    status::text = 'draft'
+    OR (session_type IS NOT NULL AND presentation_type IS NOT NULL AND submission_date IS NOT NULL)
+);
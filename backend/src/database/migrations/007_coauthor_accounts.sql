@@ -0,0 +1,14 @@
+-- Co-author accounts
+-- Migration 007: Link author rows to registered users and allow delegated edit rights
+
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS can_edit BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS invited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_authors_user_id ON authors(user_id);
+
+-- Link existing authors whose email matches a registered account
+UPDATE authors a
+SET user_id = u.id
+FROM users u
+WHERE a.user_id IS NULL AND LOWER(a.email) = LOWER(u.email);
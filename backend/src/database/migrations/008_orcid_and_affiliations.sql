@@ -0,0 +1,43 @@
+-- ORCID iDs and structured affiliations
+-- Migration 008: Admin-curated organizations, ORCID iDs and structured affiliations for users and authors
+
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    short_name VARCHAR(50),
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    city VARCHAR(100),
+    country VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_organizations_name ON organizations(LOWER(name));
+CREATE TRIGGER update_organizations_updated_at BEFORE UPDATE ON organizations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Resolve a free-text institution to a curated organization by name, short name or alias
+CREATE OR REPLACE FUNCTION match_organization(institution TEXT)
+RETURNS UUID AS $$
+    SELECT o.id
+    FROM organizations o
+    WHERE LOWER(o.name) = LOWER(TRIM(institution))
+       OR LOWER(o.short_name) = LOWER(TRIM(institution))
+       OR EXISTS (SELECT 1 FROM unnest(o.aliases) alias WHERE LOWER(alias) = LOWER(TRIM(institution)))
+    ORDER BY o.name
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS orcid VARCHAR(19);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS department VARCHAR(255);
+
+CREATE UNIQUE INDEX idx_users_orcid ON users(orcid) WHERE orcid IS NOT NULL;
+
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS orcid VARCHAR(19);
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS institution VARCHAR(255);
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS department VARCHAR(255);
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS city VARCHAR(100);
+ALTER TABLE authors ADD COLUMN IF NOT EXISTS country VARCHAR(100);
+
+CREATE INDEX idx_authors_organization_id ON authors(organization_id);
@@ -0,0 +1,21 @@
+-- Near-duplicate detection
+-- Migration 009: Store pairs of submissions whose title/abstract similarity exceeds the threshold
+
+CREATE TABLE submission_similarity_flags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    similar_submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    score NUMERIC(5,4) NOT NULL,
+    title_score NUMERIC(5,4) NOT NULL,
+    abstract_score NUMERIC(5,4) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'confirmed')),
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    -- Each pair is stored once, lower id first
+    CHECK (submission_id < similar_submission_id),
+    UNIQUE (submission_id, similar_submission_id)
+);
+
+CREATE INDEX idx_similarity_flags_status ON submission_similarity_flags(status, score DESC);
+CREATE INDEX idx_similarity_flags_similar ON submission_similarity_flags(similar_submission_id);
@@ -0,0 +1,25 @@
+-- Per-session submission policies
+-- Migration 010: Word limits, keyword counts and allowed presentation types for each session
+
+CREATE TABLE session_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_type session_type NOT NULL UNIQUE,
+    min_abstract_words INTEGER NOT NULL DEFAULT 0 CHECK (min_abstract_words >= 0),
+    max_abstract_words INTEGER NOT NULL DEFAULT 500 CHECK (max_abstract_words > 0),
+    min_keywords INTEGER NOT NULL DEFAULT 3 CHECK (min_keywords >= 0),
+    max_keywords INTEGER NOT NULL DEFAULT 10 CHECK (max_keywords > 0),
+    allowed_presentation_types presentation_type[] NOT NULL DEFAULT ARRAY['oral', 'poster']::presentation_type[],
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (min_abstract_words <= max_abstract_words),
+    CHECK (min_keywords <= max_keywords),
+    CHECK (cardinality(allowed_presentation_types) > 0)
+);
+
+CREATE TRIGGER update_session_policies_updated_at BEFORE UPDATE ON session_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every session starts with the previous global limits
+INSERT INTO session_policies (session_type)
+SELECT unnest(enum_range(NULL::session_type))
+ON CONFLICT (session_type) DO NOTHING;
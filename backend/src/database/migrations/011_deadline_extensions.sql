@@ -0,0 +1,20 @@
+-- Submission deadline enforcement
+-- Migration 011: Grace period on the conference deadline and per-user or per-submission extensions
+
+ALTER TABLE conferences ADD COLUMN submission_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (submission_grace_minutes >= 0);
+
+CREATE TABLE deadline_extensions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conference_id UUID NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    submission_id UUID REFERENCES submissions(id) ON DELETE CASCADE,
+    extended_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    reason TEXT NOT NULL,
+    granted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    -- An extension covers either everything a user submits or one submission
+    CHECK ((user_id IS NULL) <> (submission_id IS NULL))
+);
+
+CREATE INDEX idx_deadline_extensions_user ON deadline_extensions(conference_id, user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX idx_deadline_extensions_submission ON deadline_extensions(submission_id) WHERE submission_id IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Author-initiated submission withdrawal
+-- Migration 012: Withdrawn status, withdrawal requests awaiting admin confirmation and closed review assignments
+
+ALTER TYPE submission_status ADD VALUE IF NOT EXISTS 'withdrawn';
+
+CREATE TYPE withdrawal_status AS ENUM ('pending', 'confirmed', 'rejected');
+
+CREATE TABLE submission_withdrawals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL,
+    status withdrawal_status NOT NULL DEFAULT 'pending',
+    -- Status the submission had when the author asked to withdraw it
+    submission_status submission_status NOT NULL,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    admin_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- At most one open request per submission
+CREATE UNIQUE INDEX idx_submission_withdrawals_pending ON submission_withdrawals(submission_id) WHERE status = 'pending';
+CREATE INDEX idx_submission_withdrawals_status ON submission_withdrawals(status, created_at);
+
+CREATE TRIGGER update_submission_withdrawals_updated_at BEFORE UPDATE ON submission_withdrawals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Pending review assignments of a withdrawn submission are closed rather than deleted
+ALTER TABLE reviews ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,25 @@
+-- Supplementary submission files
+-- Migration 013: Typed file slots (poster, slides, supplementary) with per-file visibility
+
+CREATE TYPE submission_file_slot AS ENUM ('manuscript', 'poster', 'slides', 'supplementary');
+CREATE TYPE file_visibility AS ENUM ('reviewers', 'public', 'organizers');
+
+CREATE TABLE submission_files (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    slot submission_file_slot NOT NULL,
+    original_name VARCHAR(255) NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    file_size BIGINT NOT NULL,
+    mime_type VARCHAR(150) NOT NULL,
+    sha256 CHAR(64) NOT NULL,
+    visibility file_visibility NOT NULL,
+    description TEXT,
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_submission_files_submission_slot ON submission_files(submission_id, slot);
+
+CREATE TRIGGER update_submission_files_updated_at BEFORE UPDATE ON submission_files FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,29 @@
+-- Bulk program committee decisions
+-- Migration 014: Decisions applied in batches; author emails are held until the batch is released
+
+CREATE TABLE decision_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    decision submission_status NOT NULL CHECK (decision IN ('accepted', 'rejected')),
+    criteria JSONB NOT NULL DEFAULT '{}',
+    admin_notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    released_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One held author notification per decided submission
+CREATE TABLE decision_batch_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES decision_batches(id) ON DELETE CASCADE,
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    previous_status submission_status NOT NULL,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(batch_id, submission_id)
+);
+
+CREATE INDEX idx_decision_batch_items_batch ON decision_batch_items(batch_id);
+
+CREATE TRIGGER update_decision_batches_updated_at BEFORE UPDATE ON decision_batches FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
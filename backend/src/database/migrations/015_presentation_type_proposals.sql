@@ -0,0 +1,27 @@
+-- Presentation type proposals
+-- Migration 015: Committee-proposed oral/poster reassignment awaiting the author's consent
+
+CREATE TYPE presentation_proposal_status AS ENUM ('pending', 'accepted', 'declined');
+
+CREATE TABLE presentation_type_proposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    -- Presentation type the authors submitted with
+    current_type presentation_type NOT NULL,
+    proposed_type presentation_type NOT NULL,
+    status presentation_proposal_status NOT NULL DEFAULT 'pending',
+    proposed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    admin_notes TEXT,
+    responded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    author_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (proposed_type <> current_type)
+);
+
+-- At most one open proposal per submission
+CREATE UNIQUE INDEX idx_presentation_type_proposals_pending ON presentation_type_proposals(submission_id) WHERE status = 'pending';
+CREATE INDEX idx_presentation_type_proposals_status ON presentation_type_proposals(status, created_at);
+
+CREATE TRIGGER update_presentation_type_proposals_updated_at BEFORE UPDATE ON presentation_type_proposals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+-- Conflict-of-interest declarations
+-- Migration 016: Authors list people, institutions and email domains that must not review their submission
+
+ALTER TABLE submissions
+    ADD COLUMN conflicts JSONB NOT NULL DEFAULT '{"people": [], "institutions": [], "emailDomains": []}';
+
+-- Admin assignments made despite a declared conflict, with the reason given
+CREATE TABLE conflict_overrides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    review_id UUID REFERENCES reviews(id) ON DELETE SET NULL,
+    conflicts JSONB NOT NULL DEFAULT '[]',
+    reason TEXT NOT NULL,
+    overridden_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_conflict_overrides_submission ON conflict_overrides(submission_id);
@@ -0,0 +1,8 @@
+-- Abstract figures and references
+-- Migration 017: One optional captioned figure and a structured reference list per abstract
+
+ALTER TABLE submissions
+    ADD COLUMN abstract_references JSONB NOT NULL DEFAULT '[]',
+    ADD COLUMN abstract_figure_path VARCHAR(500),
+    ADD COLUMN abstract_figure_mime_type VARCHAR(50),
+    ADD COLUMN abstract_figure_caption TEXT;
@@ -0,0 +1,122 @@
+-- Conference tracks
+-- Migration 018: Per-conference track catalogue replacing the hard-coded session_type enum
+
+CREATE TABLE tracks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conference_id UUID NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+    code VARCHAR(20) NOT NULL CHECK (code ~ '^[A-Z][A-Z0-9_-]{1,19}$'),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    guidelines TEXT,
+    color VARCHAR(7) NOT NULL DEFAULT '#1976d2' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+    -- [{ "name": ..., "email": ..., "affiliation": ... }]
+    chairs JSONB NOT NULL DEFAULT '[]',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    -- Inactive tracks keep their submissions but accept no new ones
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (conference_id, code)
+);
+
+CREATE INDEX idx_tracks_conference ON tracks(conference_id, sort_order);
+
+CREATE TRIGGER update_tracks_updated_at BEFORE UPDATE ON tracks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The conference new submissions, registrations and policies belong to
+CREATE OR REPLACE FUNCTION active_conference_id()
+RETURNS UUID AS $$
+    SELECT id FROM conferences WHERE is_active = true ORDER BY created_at DESC LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Every existing conference gets the five tracks the enum used to define
+INSERT INTO tracks (conference_id, code, name, description, guidelines, color, sort_order)
+SELECT c.id, t.code, t.name, t.description, t.guidelines, t.color, t.sort_order
+FROM conferences c
+CROSS JOIN (VALUES
+    ('CHE', 'Computational Chemistry',
+     'Research in computational methods for chemical systems, molecular modeling, and quantum chemistry.',
+     'Focus on computational approaches to chemical problems, including molecular dynamics, quantum calculations, and chemical informatics.',
+     '#1976d2', 1),
+    ('CSE', 'High Performance Computing/Computer Science/Engineering',
+     'Research in high-performance computing, computer science algorithms, and computational engineering.',
+     'Include work on parallel computing, algorithms, software engineering, and computational methods in engineering.',
+     '#7b1fa2', 2),
+    ('BIO', 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
+     'Research in computational biology, bioinformatics tools, and computational approaches to biological systems.',
+     'Cover computational methods in biology, genomics, proteomics, systems biology, and biophysical modeling.',
+     '#2e7d32', 3),
+    ('MST', 'Mathematics and Statistics',
+     'Research in mathematical modeling, statistical methods, and computational mathematics.',
+     'Include mathematical modeling, statistical analysis, numerical methods, and applied mathematics.',
+     '#ed6c02', 4),
+    ('PFD', 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics',
+     'Research in computational physics, fluid dynamics simulations, and solid mechanics modeling.',
+     'Focus on computational methods in physics, CFD simulations, finite element analysis, and materials modeling.',
+     '#d32f2f', 5)
+) AS t(code, name, description, guidelines, color, sort_order)
+ON CONFLICT (conference_id, code) DO NOTHING;
+
+-- The statistics view and function from migration 002 are typed on the enum
+DROP FUNCTION IF EXISTS get_submission_statistics();
+DROP MATERIALIZED VIEW IF EXISTS submission_stats;
+
+-- Enum columns become track codes
+ALTER TABLE submissions ALTER COLUMN session_type TYPE VARCHAR(20) USING session_type::text;
+ALTER TABLE user_sessions ALTER COLUMN session_type TYPE VARCHAR(20) USING session_type::text;
+ALTER TABLE sessions ALTER COLUMN type TYPE VARCHAR(20) USING type::text;
+ALTER TABLE session_policies ALTER COLUMN session_type TYPE VARCHAR(20) USING session_type::text;
+
+DROP TYPE session_type;
+
+-- A code only means something within its conference, so rows that carry a track say which conference.
+-- Existing rows belong to the active conference, which is also the default for new ones.
+ALTER TABLE submissions ADD COLUMN conference_id UUID DEFAULT active_conference_id() REFERENCES conferences(id) ON DELETE CASCADE;
+ALTER TABLE user_sessions ADD COLUMN conference_id UUID DEFAULT active_conference_id() REFERENCES conferences(id) ON DELETE CASCADE;
+ALTER TABLE session_policies ADD COLUMN conference_id UUID DEFAULT active_conference_id() REFERENCES conferences(id) ON DELETE CASCADE;
+
+ALTER TABLE session_policies DROP CONSTRAINT session_policies_session_type_key;
+ALTER TABLE session_policies ADD CONSTRAINT session_policies_conference_session_key UNIQUE (conference_id, session_type);
+
+-- Renaming a track code carries over to everything filed under it; tracks in use cannot be deleted
+ALTER TABLE submissions ADD CONSTRAINT submissions_track_fkey
+    FOREIGN KEY (conference_id, session_type) REFERENCES tracks(conference_id, code) ON UPDATE CASCADE;
+ALTER TABLE user_sessions ADD CONSTRAINT user_sessions_track_fkey
+    FOREIGN KEY (conference_id, session_type) REFERENCES tracks(conference_id, code) ON UPDATE CASCADE;
+ALTER TABLE sessions ADD CONSTRAINT sessions_track_fkey
+    FOREIGN KEY (conference_id, type) REFERENCES tracks(conference_id, code) ON UPDATE CASCADE;
+ALTER TABLE session_policies ADD CONSTRAINT session_policies_track_fkey
+    FOREIGN KEY (conference_id, session_type) REFERENCES tracks(conference_id, code) ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX idx_submissions_conference ON submissions(conference_id);
+
+-- Recreate the statistics view and function on the code column
+CREATE MATERIALIZED VIEW IF NOT EXISTS submission_stats AS
+SELECT
+    session_type,
+    status,
+    presentation_type,
+    COUNT(*) as count,
+    AVG(CASE WHEN r.score IS NOT NULL THEN r.score END) as avg_score
+FROM submissions s
+LEFT JOIN reviews r ON s.id = r.submission_id AND r.is_completed = true
+GROUP BY session_type, status, presentation_type;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_submission_stats_unique
+    ON submission_stats(session_type, status, presentation_type);
+
+CREATE OR REPLACE FUNCTION get_submission_statistics()
+RETURNS TABLE(
+    session_type VARCHAR(20),
+    status submission_status,
+    presentation_type presentation_type,
+    count bigint,
+    avg_score numeric
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT s.session_type, s.status, s.presentation_type, s.count, s.avg_score
+    FROM submission_stats s
+    ORDER BY s.session_type, s.status, s.presentation_type;
+END;
+$$ LANGUAGE plpgsql;
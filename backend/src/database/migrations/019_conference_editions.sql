@@ -0,0 +1,93 @@
+-- Conference editions
+-- Migration 019: Registrations, payments and decisions belong to a conference so past editions stay browsable
+
+-- A user's registration for one edition; the account itself is shared across editions
+CREATE TABLE conference_registrations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conference_id UUID NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    participant_type participant_type NOT NULL,
+    payment_status payment_status NOT NULL DEFAULT 'not_paid',
+    registration_fee DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+    registered_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (conference_id, user_id)
+);
+
+CREATE INDEX idx_conference_registrations_user ON conference_registrations(user_id);
+CREATE INDEX idx_conference_registrations_payment ON conference_registrations(conference_id, payment_status);
+
+CREATE TRIGGER update_conference_registrations_updated_at BEFORE UPDATE ON conference_registrations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing accounts were registered for the active conference
+INSERT INTO conference_registrations (conference_id, user_id, participant_type, payment_status, registration_fee, registered_at)
+SELECT active_conference_id(), u.id, u.participant_type, u.payment_status, u.registration_fee, u.registration_date
+FROM users u
+WHERE active_conference_id() IS NOT NULL;
+
+-- Payment state now lives on the registration; drop what migration 002 built on the user columns
+DROP FUNCTION IF EXISTS get_user_statistics();
+DROP MATERIALIZED VIEW IF EXISTS user_stats;
+DROP INDEX IF EXISTS idx_users_profile_covering;
+DROP INDEX IF EXISTS idx_users_payment_status;
+
+ALTER TABLE users DROP COLUMN payment_status;
+ALTER TABLE users DROP COLUMN registration_fee;
+
+CREATE INDEX IF NOT EXISTS idx_users_profile_covering ON users(id)
+    INCLUDE (email, first_name, last_name, participant_type, role);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS user_stats AS
+SELECT
+    r.conference_id,
+    r.participant_type,
+    u.role,
+    r.payment_status,
+    u.country,
+    COUNT(*) as count,
+    DATE_TRUNC('day', r.registered_at) as registration_day
+FROM conference_registrations r
+JOIN users u ON u.id = r.user_id
+WHERE u.is_active = true
+GROUP BY r.conference_id, r.participant_type, u.role, r.payment_status, u.country, DATE_TRUNC('day', r.registered_at);
+
+CREATE INDEX IF NOT EXISTS idx_user_stats_type_role ON user_stats(conference_id, participant_type, role);
+CREATE INDEX IF NOT EXISTS idx_user_stats_payment ON user_stats(conference_id, payment_status);
+CREATE INDEX IF NOT EXISTS idx_user_stats_date ON user_stats(registration_day);
+
+CREATE OR REPLACE FUNCTION get_user_statistics(edition UUID)
+RETURNS TABLE(
+    participant_type participant_type,
+    role user_role,
+    payment_status payment_status,
+    country text,
+    count bigint,
+    registration_day date
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT u.participant_type, u.role, u.payment_status, u.country::text, u.count, u.registration_day::date
+    FROM user_stats u
+    WHERE u.conference_id = edition
+    ORDER BY u.registration_day DESC, u.participant_type;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Payments and decision batches belong to the edition they were made for
+ALTER TABLE payment_records ADD COLUMN conference_id UUID DEFAULT active_conference_id() REFERENCES conferences(id) ON DELETE CASCADE;
+ALTER TABLE decision_batches ADD COLUMN conference_id UUID DEFAULT active_conference_id() REFERENCES conferences(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_payment_records_conference ON payment_records(conference_id, status);
+CREATE INDEX idx_decision_batches_conference ON decision_batches(conference_id);
+
+-- Session picks are made per edition
+ALTER TABLE user_sessions DROP CONSTRAINT user_sessions_user_id_session_type_key;
+ALTER TABLE user_sessions ADD CONSTRAINT user_sessions_user_conference_session_key UNIQUE (user_id, conference_id, session_type);
+
+-- Migration 018 backfilled these from the active conference; from here on every row names its edition
+ALTER TABLE submissions ALTER COLUMN conference_id SET NOT NULL;
+ALTER TABLE user_sessions ALTER COLUMN conference_id SET NOT NULL;
+ALTER TABLE session_policies ALTER COLUMN conference_id SET NOT NULL;
+ALTER TABLE payment_records ALTER COLUMN conference_id SET NOT NULL;
+ALTER TABLE decision_batches ALTER COLUMN conference_id SET NOT NULL;
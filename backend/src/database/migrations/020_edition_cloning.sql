@@ -0,0 +1,10 @@
+-- Edition cloning
+-- Migration 020: Per-edition email settings and abstract book template, and where a cloned edition came from
+
+-- Sender name and reply-to address of outgoing emails; missing keys fall back to the server defaults
+ALTER TABLE conferences ADD COLUMN email_settings JSONB NOT NULL DEFAULT '{}';
+
+-- Saved abstract book template; NULL uses the built-in default
+ALTER TABLE conferences ADD COLUMN abstract_book_template JSONB;
+
+ALTER TABLE conferences ADD COLUMN cloned_from UUID REFERENCES conferences(id) ON DELETE SET NULL;
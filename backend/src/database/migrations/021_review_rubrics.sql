@@ -0,0 +1,28 @@
+-- Review rubrics
+-- Migration 021: Weighted review criteria per conference or per track, and the criterion scores of each review
+
+CREATE TABLE review_rubrics (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conference_id UUID NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+    -- Track code the rubric applies to; NULL is the conference-wide rubric
+    session_type VARCHAR(20),
+    name VARCHAR(255) NOT NULL,
+    -- [{ "key": ..., "label": ..., "description": ..., "weight": ... }]
+    criteria JSONB NOT NULL CHECK (jsonb_typeof(criteria) = 'array' AND jsonb_array_length(criteria) > 0),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One rubric per track and one conference-wide rubric per conference
+CREATE UNIQUE INDEX idx_review_rubrics_scope ON review_rubrics(conference_id, COALESCE(session_type, ''));
+
+CREATE TRIGGER update_review_rubrics_updated_at BEFORE UPDATE ON review_rubrics FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The rubric a review was scored with and its score per criterion key; score keeps the rounded
+-- weighted result so everything reading the 1-10 score still works
+ALTER TABLE reviews ADD COLUMN rubric_id UUID REFERENCES review_rubrics(id);
+ALTER TABLE reviews ADD COLUMN criteria_scores JSONB;
+ALTER TABLE reviews ADD COLUMN weighted_score NUMERIC(4,2) CHECK (weighted_score >= 1 AND weighted_score <= 10);
+
+CREATE INDEX idx_reviews_rubric ON reviews(rubric_id) WHERE rubric_id IS NOT NULL;
@@ -0,0 +1,10 @@
+-- Blind review
+-- Migration 022: Per-conference review mode deciding who sees whose identity
+
+-- none: open review, nothing is anonymized
+-- single_blind: reviewers see the authors, authors never see the reviewers
+-- double_blind: neither side sees the other; reviewers get anonymized submissions and manuscripts
+CREATE TYPE review_mode AS ENUM ('none', 'single_blind', 'double_blind');
+
+-- Existing conferences keep the previous behaviour
+ALTER TABLE conferences ADD COLUMN review_mode review_mode NOT NULL DEFAULT 'single_blind';
@@ -0,0 +1,57 @@
+-- Reviewer affinity
+-- Migration 023: Cached text-similarity scores between reviewers and the submissions of a conference
+
+-- One row per conference whose matrix was computed. computed_at is when its inputs were read;
+-- the matrix is stale once invalidated_at is later
+CREATE TABLE reviewer_affinity_runs (
+    conference_id UUID PRIMARY KEY REFERENCES conferences(id) ON DELETE CASCADE,
+    submission_count INTEGER NOT NULL,
+    reviewer_count INTEGER NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    invalidated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only pairs sharing at least one term are stored; a missing pair scores 0
+CREATE TABLE reviewer_affinities (
+    conference_id UUID NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+    submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    score NUMERIC(5,4) NOT NULL CHECK (score > 0 AND score <= 1),
+    terms TEXT[] NOT NULL DEFAULT '{}',
+    PRIMARY KEY (submission_id, reviewer_id)
+);
+
+CREATE INDEX idx_reviewer_affinities_conference ON reviewer_affinities(conference_id);
+
+-- A reviewer profile feeds every edition, and a submission also feeds its authors' profiles in
+-- other editions, so any change to what the matrix reads marks every matrix stale
+CREATE OR REPLACE FUNCTION invalidate_reviewer_affinities()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE reviewer_affinity_runs SET invalidated_at = clock_timestamp();
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+-- Logins and other profile edits leave the matrix alone
+CREATE TRIGGER invalidate_affinities_on_reviewer_insert AFTER INSERT ON users
+    FOR EACH ROW WHEN (NEW.role = 'reviewer') EXECUTE FUNCTION invalidate_reviewer_affinities();
+CREATE TRIGGER invalidate_affinities_on_reviewer_update AFTER UPDATE ON users
+    FOR EACH ROW WHEN (
+        OLD.bio IS DISTINCT FROM NEW.bio
+        OR OLD.expertise IS DISTINCT FROM NEW.expertise
+        OR OLD.role IS DISTINCT FROM NEW.role
+        OR OLD.is_active IS DISTINCT FROM NEW.is_active
+    ) EXECUTE FUNCTION invalidate_reviewer_affinities();
+
+-- Drafts are not part of the matrix
+CREATE TRIGGER invalidate_affinities_on_submission_insert AFTER INSERT ON submissions
+    FOR EACH ROW WHEN (NEW.status <> 'draft') EXECUTE FUNCTION invalidate_reviewer_affinities();
+CREATE TRIGGER invalidate_affinities_on_submission_update AFTER UPDATE ON submissions
+    FOR EACH ROW WHEN (
+        OLD.title IS DISTINCT FROM NEW.title
+        OR OLD.abstract IS DISTINCT FROM NEW.abstract
+        OR OLD.keywords IS DISTINCT FROM NEW.keywords
+        OR OLD.conference_id IS DISTINCT FROM NEW.conference_id
+        OR (OLD.status = 'draft') IS DISTINCT FROM (NEW.status = 'draft')
+    ) EXECUTE FUNCTION invalidate_reviewer_affinities();
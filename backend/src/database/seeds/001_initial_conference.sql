@@ -1,5 +1,5 @@
 -- Seed data for initial conference setup
--- This creates a sample conference with sessions and registration fees
+-- This creates a sample conference with tracks, sessions and registration fees
 
 -- Insert initial conference
 INSERT INTO conferences (
@@ -31,6 +31,30 @@ DECLARE
 BEGIN
     SELECT id INTO conf_id FROM conferences WHERE name = 'International Academic Conference 2024' LIMIT 1;
     
+    -- Insert tracks
+    INSERT INTO tracks (conference_id, code, name, description, guidelines, color, sort_order) VALUES
+    (conf_id, 'CHE', 'Computational Chemistry',
+     'Research in computational methods for chemical systems, molecular modeling, and quantum chemistry.',
+     'Focus on computational approaches to chemical problems, including molecular dynamics, quantum calculations, and chemical informatics.',
+     '#1976d2', 1),
+    (conf_id, 'CSE', 'High Performance Computing/Computer Science/Engineering',
+     'Research in high-performance computing, computer science algorithms, and computational engineering.',
+     'Include work on parallel computing, algorithms, software engineering, and computational methods in engineering.',
+     '#7b1fa2', 2),
+    (conf_id, 'BIO', 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
+     'Research in computational biology, bioinformatics tools, and computational approaches to biological systems.',
+     'Cover computational methods in biology, genomics, proteomics, systems biology, and biophysical modeling.',
+     '#2e7d32', 3),
+    (conf_id, 'MST', 'Mathematics and Statistics',
+     'Research in mathematical modeling, statistical methods, and computational mathematics.',
+     'Include mathematical modeling, statistical analysis, numerical methods, and applied mathematics.',
+     '#ed6c02', 4),
+    (conf_id, 'PFD', 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics',
+     'Research in computational physics, fluid dynamics simulations, and solid mechanics modeling.',
+     'Focus on computational methods in physics, CFD simulations, finite element analysis, and materials modeling.',
+     '#d32f2f', 5)
+    ON CONFLICT DO NOTHING;
+
     -- Insert sessions
     INSERT INTO sessions (conference_id, type, name, description) VALUES
     (conf_id, 'CHE', 'Computational Chemistry', 'Advanced computational methods in chemistry research'),
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { CacheService } from '../services/CacheService.js';
+import { TrackRepository } from '../models/TrackRepository.js';
 
 interface CacheOptions {
   ttl?: number;
@@ -66,6 +67,12 @@ export const conferenceCache = cacheMiddleware({
   keyGenerator: (req) => CacheService.keys.conference(),
 });
 
+// Each edition's details, sessions and fees are cached under their own key
+export const conferenceEditionCache = (section?: string) => cacheMiddleware({
+  ttl: CacheService.TTL.LONG,
+  keyGenerator: (req) => CacheService.keys.conference(req.params.id, section),
+});
+
 export const sessionsCache = cacheMiddleware({
   ttl: CacheService.TTL.LONG,
   keyGenerator: (req) => CacheService.keys.sessions(),
@@ -84,7 +91,7 @@ export const submissionStatsCache = cacheMiddleware({
 
 export const paymentInstructionsCache = cacheMiddleware({
   ttl: CacheService.TTL.VERY_LONG,
-  keyGenerator: () => CacheService.keys.paymentInstructions(),
+  keyGenerator: (req) => CacheService.keys.paymentInstructions(req.params.id),
 });
 
 // Cache invalidation helper
@@ -96,9 +103,16 @@ export class CacheInvalidator {
     await this.cache.del(CacheService.keys.submissions(userId));
   }
 
-  static async invalidateConference(): Promise<void> {
+  static async invalidateConference(conferenceId?: string): Promise<void> {
     await this.cache.del(CacheService.keys.conference());
     await this.cache.del(CacheService.keys.sessions());
+
+    if (conferenceId) {
+      for (const section of [undefined, 'sessions', 'fees']) {
+        await this.cache.del(CacheService.keys.conference(conferenceId, section));
+      }
+      await this.cache.del(CacheService.keys.paymentInstructions(conferenceId));
+    }
   }
 
   static async invalidateStats(): Promise<void> {
@@ -109,12 +123,12 @@ export class CacheInvalidator {
   static async invalidateAbstractBook(): Promise<void> {
     // Invalidate all abstract book formats
     const formats = ['pdf', 'html', 'docx'];
-    const sessionTypes = ['CHE', 'CSE', 'BIO', 'MST', 'PFD'];
+    const tracks = await TrackRepository.findForActiveConference(true);
     
     for (const format of formats) {
       await this.cache.del(CacheService.keys.abstractBook(format));
-      for (const sessionType of sessionTypes) {
-        await this.cache.del(CacheService.keys.abstractBook(format, sessionType));
+      for (const track of tracks) {
+        await this.cache.del(CacheService.keys.abstractBook(format, track.code));
       }
     }
   }
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { ConferenceRepository } from '../models/ConferenceRepository.js';
+
+// Extend Express Request interface with the conference edition being worked on
+declare global {
+  namespace Express {
+    interface Request {
+      conferenceId?: string;
+    }
+  }
+}
+
+export interface ConferenceScopedRequest extends Request {
+  conferenceId: string;
+}
+
+// Header staff send to manage an edition other than the current one
+export const CONFERENCE_HEADER = 'X-Conference-Id';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Middleware to resolve the conference edition a request works on.
+ * Admins and organizers may pick any edition with the X-Conference-Id header;
+ * everyone else always works on the current edition.
+ */
+export const resolveConference = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const requested = req.get(CONFERENCE_HEADER);
+    const isStaff = req.user?.role === 'admin' || req.user?.role === 'organizer';
+
+    if (requested && isStaff) {
+      if (!UUID_PATTERN.test(requested) || !(await ConferenceRepository.findById(requested))) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CONFERENCE_NOT_FOUND',
+            message: 'The selected conference edition does not exist'
+          },
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      req.conferenceId = requested;
+      next();
+      return;
+    }
+
+    const currentId = await ConferenceRepository.findCurrentId();
+    if (!currentId) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'NO_ACTIVE_CONFERENCE',
+          message: 'No active conference found'
+        },
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    req.conferenceId = currentId;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -95,7 +95,7 @@ function sanitizeString(input: string): string {
 }
 
 // File upload validation middleware
-export function validateFileUpload(fileType: 'manuscript' | 'paymentProof') {
+export function validateFileUpload(fileType: 'manuscript' | 'paymentProof' | 'abstractFigure') {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.file) {
       return res.status(400).json({
@@ -0,0 +1,165 @@
+import { PoolClient } from 'pg';
+import { Database } from '../database/connection.js';
+import type { AffinityEntry } from '../utils/affinity.js';
+
+export interface AffinitySubmissionText {
+  id: string;
+  title: string;
+  abstract: string;
+  keywords: string[];
+}
+
+export interface AffinityReviewerProfile {
+  id: string;
+  bio: string;
+  expertise: string[];
+  // Titles and abstracts the reviewer authored for other editions
+  pastAbstracts: string;
+}
+
+export interface AffinityRun {
+  conferenceId: string;
+  submissionCount: number;
+  reviewerCount: number;
+  // When the inputs of the matrix were read
+  computedAt: Date;
+  // A reviewer profile or submission changed since
+  isStale: boolean;
+}
+
+export class AffinityRepository {
+  // The edition a submission belongs to
+  static async findSubmissionConference(submissionId: string): Promise<string | null> {
+    const result = await Database.query('SELECT conference_id FROM submissions WHERE id = $1', [submissionId]);
+    return result.rows.length > 0 ? result.rows[0].conference_id : null;
+  }
+
+  // Finalized submissions of an edition
+  static async findSubmissionTexts(conferenceId: string): Promise<AffinitySubmissionText[]> {
+    const query = `
+      SELECT id, title, abstract, keywords
+      FROM submissions
+      WHERE conference_id = $1 AND status <> 'draft'
+      ORDER BY created_at
+    `;
+    const result = await Database.query(query, [conferenceId]);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      title: row.title,
+      abstract: row.abstract,
+      keywords: row.keywords || []
+    }));
+  }
+
+  // Active reviewers with their bio, expertise and what they authored for other editions
+  static async findReviewerProfiles(conferenceId: string): Promise<AffinityReviewerProfile[]> {
+    const query = `
+      SELECT u.id, u.bio, u.expertise,
+        (SELECT STRING_AGG(s.title || ' ' || s.abstract, ' ')
+          FROM submissions s
+          WHERE s.status <> 'draft' AND s.conference_id <> $1
+            AND (s.user_id = u.id OR EXISTS (
+              SELECT 1 FROM authors a
+              WHERE a.submission_id = s.id AND (a.user_id = u.id OR LOWER(a.email) = LOWER(u.email))
+            ))
+        ) as past_abstracts
+      FROM users u
+      WHERE u.role = 'reviewer' AND u.is_active = true
+      ORDER BY u.id
+    `;
+    const result = await Database.query(query, [conferenceId]);
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      bio: row.bio || '',
+      expertise: row.expertise || [],
+      pastAbstracts: row.past_abstracts || ''
+    }));
+  }
+
+  // When the matrix of an edition was last computed
+  static async findRun(conferenceId: string): Promise<AffinityRun | null> {
+    const result = await Database.query('SELECT * FROM reviewer_affinity_runs WHERE conference_id = $1', [conferenceId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRun(result.rows[0]);
+  }
+
+  // Database time, taken before the inputs of a matrix are read
+  static async readClock(): Promise<Date> {
+    const result = await Database.query('SELECT clock_timestamp() as now');
+    return result.rows[0].now;
+  }
+
+  // Replace the cached matrix of an edition
+  static async replaceMatrix(
+    conferenceId: string,
+    entries: AffinityEntry[],
+    counts: { submissionCount: number; reviewerCount: number },
+    computedAt: Date
+  ): Promise<AffinityRun> {
+    return Database.transaction(async (client: PoolClient) => {
+      // Two recomputations of the same edition would otherwise interleave their rows
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [conferenceId]);
+      await client.query('DELETE FROM reviewer_affinities WHERE conference_id = $1', [conferenceId]);
+
+      if (entries.length > 0) {
+        const insertQuery = `
+          INSERT INTO reviewer_affinities (conference_id, submission_id, reviewer_id, score, terms)
+          SELECT $1, e.submission_id, e.reviewer_id, e.score, e.terms
+          FROM jsonb_to_recordset($2::jsonb) AS e(submission_id uuid, reviewer_id uuid, score numeric, terms text[])
+        `;
+        await client.query(insertQuery, [
+          conferenceId,
+          JSON.stringify(entries.map(entry => ({
+            submission_id: entry.submissionId,
+            reviewer_id: entry.reviewerId,
+            score: entry.score,
+            terms: entry.terms
+          })))
+        ]);
+      }
+
+      const runQuery = `
+        INSERT INTO reviewer_affinity_runs (conference_id, submission_count, reviewer_count, computed_at)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (conference_id) DO UPDATE SET
+          submission_count = EXCLUDED.submission_count,
+          reviewer_count = EXCLUDED.reviewer_count,
+          computed_at = EXCLUDED.computed_at
+        RETURNING *
+      `;
+      const run = await client.query(runQuery, [conferenceId, counts.submissionCount, counts.reviewerCount, computedAt]);
+      return this.mapRowToRun(run.rows[0]);
+    });
+  }
+
+  // Cached matrix of an edition, strongest pairs first
+  static async findMatrix(conferenceId: string): Promise<AffinityEntry[]> {
+    const query = `
+      SELECT submission_id, reviewer_id, score, terms
+      FROM reviewer_affinities
+      WHERE conference_id = $1
+      ORDER BY submission_id, score DESC
+    `;
+    const result = await Database.query(query, [conferenceId]);
+    return result.rows.map((row: any) => ({
+      submissionId: row.submission_id,
+      reviewerId: row.reviewer_id,
+      score: parseFloat(row.score),
+      terms: row.terms || []
+    }));
+  }
+
+  private static mapRowToRun(row: any): AffinityRun {
+    return {
+      conferenceId: row.conference_id,
+      submissionCount: row.submission_count,
+      reviewerCount: row.reviewer_count,
+      computedAt: row.computed_at,
+      isStale: row.invalidated_at !== null && row.invalidated_at > row.computed_at
+    };
+  }
+}
@@ -1,14 +1,23 @@
 import { Database } from '../database/connection.js';
+import { TrackRepository } from './TrackRepository.js';
+import { SessionPolicyRepository } from './SessionPolicyRepository.js';
+import { ReviewRubricRepository } from './ReviewRubricRepository.js';
+import { EditionCloneSource } from '../utils/editionClone.js';
 import { 
   Conference, 
   Session, 
   CreateConferenceRequest, 
   UpdateConferenceRequest, 
   ConferenceResponse,
+  ConferenceSummary,
+  ConferenceClonePlan,
+  EmailSettings,
   SessionResponse,
   RegistrationFeeResponse,
   PaymentInstructionsResponse,
-  ParticipantType
+  ParticipantType,
+  ReviewMode,
+  Track
 } from '../types/index.js';
 
 export class ConferenceRepository {
@@ -35,7 +44,7 @@ export class ConferenceRepository {
     const result = await Database.query(query, values);
     const conference = this.mapRowToConference(result.rows[0]);
     
-    return this.mapConferenceToResponse(conference, [], [], null);
+    return this.mapConferenceToResponse(conference, [], [], [], null);
   }
 
   // Find conference by ID
@@ -50,21 +59,211 @@ export class ConferenceRepository {
     return this.mapRowToConference(result.rows[0]);
   }
 
-  // Find active conference with all related data
+  // Find the current edition with all related data
   static async findActiveConference(): Promise<ConferenceResponse | null> {
-    const query = 'SELECT * FROM conferences WHERE is_active = true ORDER BY created_at DESC LIMIT 1';
+    const currentId = await this.findCurrentId();
+    return currentId ? this.findByIdWithDetails(currentId) : null;
+  }
+
+  // ID of the current edition, which new registrations and submissions go to
+  static async findCurrentId(): Promise<string | null> {
+    const result = await Database.query('SELECT active_conference_id() AS id');
+    return result.rows[0]?.id || null;
+  }
+
+  // List every edition, newest first
+  static async findAll(): Promise<ConferenceSummary[]> {
+    const query = `
+      SELECT id, name, start_date, end_date, venue, is_active,
+        id = active_conference_id() AS is_current
+      FROM conferences
+      ORDER BY start_date DESC, created_at DESC
+    `;
     const result = await Database.query(query);
-    
-    if (result.rows.length === 0) {
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      venue: row.venue,
+      isActive: row.is_active,
+      isCurrent: row.is_current,
+    }));
+  }
+
+  // Make an edition the current one; every other edition is closed
+  static async activate(id: string): Promise<ConferenceResponse | null> {
+    if (!(await this.findById(id))) {
       return null;
     }
 
-    const conference = this.mapRowToConference(result.rows[0]);
-    const sessions = await this.getConferenceSessions(conference.id);
-    const registrationFees = await this.getRegistrationFees(conference.id);
-    const paymentInstructions = await this.getPaymentInstructions(conference.id);
+    await Database.query(
+      'UPDATE conferences SET is_active = (id = $1) WHERE is_active IS DISTINCT FROM (id = $1)',
+      [id]
+    );
+
+    return this.findByIdWithDetails(id);
+  }
+
+  // Load the configuration a clone copies
+  static async findCloneSource(id: string): Promise<EditionCloneSource | null> {
+    const conference = await this.findById(id);
+    if (!conference) {
+      return null;
+    }
+
+    return {
+      conference,
+      tracks: await TrackRepository.findByConference(id, true),
+      sessions: await this.getConferenceSessions(id),
+      registrationFees: await this.getRegistrationFees(id),
+      paymentInstructions: await this.getPaymentInstructions(id),
+      sessionPolicies: await SessionPolicyRepository.findByConference(id),
+      reviewRubrics: await ReviewRubricRepository.findByConference(id),
+    };
+  }
+
+  // Create a new, inactive edition from a clone plan
+  static async createFromClonePlan(plan: ConferenceClonePlan): Promise<ConferenceResponse> {
+    const conferenceId = await Database.transaction(async (client) => {
+      const { conference } = plan;
+      const conferenceResult = await client.query(
+        `INSERT INTO conferences (
+          name, description, start_date, end_date, venue, registration_deadline, submission_deadline,
+          submission_grace_minutes, review_mode, email_settings, abstract_book_template, cloned_from, is_active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, false)
+        RETURNING id`,
+        [
+          conference.name,
+          conference.description || null,
+          conference.startDate,
+          conference.endDate,
+          conference.venue,
+          conference.registrationDeadline,
+          conference.submissionDeadline,
+          conference.submissionGraceMinutes,
+          conference.reviewMode,
+          JSON.stringify(conference.emailSettings),
+          conference.abstractBookTemplate ? JSON.stringify(conference.abstractBookTemplate) : null,
+          plan.sourceConferenceId
+        ]
+      );
+      const id: string = conferenceResult.rows[0].id;
+
+      // Tracks first: sessions and policies reference them by code
+      for (const track of plan.tracks) {
+        await client.query(
+          `INSERT INTO tracks (conference_id, code, name, description, guidelines, color, chairs, sort_order, is_active)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            id, track.code, track.name, track.description || null, track.guidelines || null,
+            track.color, JSON.stringify(track.chairs), track.sortOrder, track.isActive
+          ]
+        );
+      }
+
+      for (const session of plan.sessions) {
+        const sessionResult = await client.query(
+          'INSERT INTO sessions (conference_id, type, name, description) VALUES ($1, $2, $3, $4) RETURNING id',
+          [id, session.type, session.name, session.description || null]
+        );
+        for (const schedule of session.schedules) {
+          await client.query(
+            `INSERT INTO session_schedules (session_id, start_time, end_time, location, description)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [sessionResult.rows[0].id, schedule.startTime, schedule.endTime, schedule.location || null, schedule.description || null]
+          );
+        }
+      }
+
+      for (const fee of plan.registrationFees) {
+        await client.query(
+          `INSERT INTO registration_fees (
+            conference_id, participant_type, early_bird_fee, regular_fee, late_fee,
+            currency, early_bird_deadline, late_registration_start
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+          [
+            id, fee.participantType, fee.earlyBirdFee, fee.regularFee, fee.lateFee,
+            fee.currency, fee.earlyBirdDeadline, fee.lateRegistrationStart
+          ]
+        );
+      }
+
+      for (const policy of plan.sessionPolicies) {
+        await client.query(
+          `INSERT INTO session_policies (
+            conference_id, session_type, min_abstract_words, max_abstract_words,
+            min_keywords, max_keywords, allowed_presentation_types
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7::presentation_type[])`,
+          [
+            id, policy.sessionType, policy.minAbstractWords, policy.maxAbstractWords,
+            policy.minKeywords, policy.maxKeywords, policy.allowedPresentationTypes
+          ]
+        );
+      }
+
+      if (plan.paymentInstructions) {
+        const instructions = plan.paymentInstructions;
+        await client.query(
+          `INSERT INTO payment_instructions (
+            conference_id, bank_name, account_name, account_number, swift_code,
+            routing_number, accepted_methods, instructions, support_contact
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            id, instructions.bankName, instructions.accountName, instructions.accountNumber,
+            instructions.swiftCode || null, instructions.routingNumber || null,
+            instructions.acceptedMethods, instructions.instructions, instructions.supportContact || null
+          ]
+        );
+      }
+
+      for (const rubric of plan.reviewRubrics) {
+        await client.query(
+          `INSERT INTO review_rubrics (conference_id, session_type, name, criteria)
+           VALUES ($1, $2, $3, $4::jsonb)`,
+          [id, rubric.sessionType || null, rubric.name, JSON.stringify(rubric.criteria)]
+        );
+      }
 
-    return this.mapConferenceToResponse(conference, sessions, registrationFees, paymentInstructions);
+      return id;
+    });
+
+    const created = await this.findByIdWithDetails(conferenceId);
+    return created as ConferenceResponse;
+  }
+
+  // Email settings of the current edition
+  static async getEmailSettings(): Promise<EmailSettings> {
+    const result = await Database.query('SELECT email_settings FROM conferences WHERE id = active_conference_id()');
+    return result.rows[0]?.email_settings || {};
+  }
+
+  // Review mode of the edition a submission belongs to
+  static async findReviewModeForSubmission(submissionId: string): Promise<ReviewMode> {
+    const query = `
+      SELECT c.review_mode FROM conferences c
+      JOIN submissions s ON s.conference_id = c.id
+      WHERE s.id = $1
+    `;
+    const result = await Database.query(query, [submissionId]);
+    return result.rows[0]?.review_mode || 'single_blind';
+  }
+
+  // Replace an edition's email settings
+  static async updateEmailSettings(id: string, settings: EmailSettings): Promise<void> {
+    await Database.query(
+      'UPDATE conferences SET email_settings = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [JSON.stringify(settings), id]
+    );
+  }
+
+  // Save an edition's abstract book template; null goes back to the default
+  static async updateAbstractBookTemplate(id: string, template: Record<string, any> | null): Promise<void> {
+    await Database.query(
+      'UPDATE conferences SET abstract_book_template = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [template ? JSON.stringify(template) : null, id]
+    );
   }
 
   // Update conference
@@ -100,16 +299,22 @@ export class ConferenceRepository {
     }
 
     const conference = this.mapRowToConference(result.rows[0]);
+    const tracks = await TrackRepository.findByConference(conference.id);
     const sessions = await this.getConferenceSessions(conference.id);
     const registrationFees = await this.getRegistrationFees(conference.id);
     const paymentInstructions = await this.getPaymentInstructions(conference.id);
 
-    return this.mapConferenceToResponse(conference, sessions, registrationFees, paymentInstructions);
+    return this.mapConferenceToResponse(conference, tracks, sessions, registrationFees, paymentInstructions);
   }
 
   // Get conference sessions
   static async getConferenceSessions(conferenceId: string): Promise<SessionResponse[]> {
-    const query = 'SELECT * FROM sessions WHERE conference_id = $1 ORDER BY type';
+    const query = `
+      SELECT se.* FROM sessions se
+      LEFT JOIN tracks t ON t.conference_id = se.conference_id AND t.code = se.type
+      WHERE se.conference_id = $1
+      ORDER BY t.sort_order, se.type, se.name
+    `;
     const result = await Database.query(query, [conferenceId]);
     
     const sessions: SessionResponse[] = [];
@@ -216,20 +421,22 @@ export class ConferenceRepository {
     return this.mapRowToRegistrationFee(result.rows[0]);
   }
 
-  // Helper methods
-  private static async findByIdWithDetails(id: string): Promise<ConferenceResponse | null> {
+  // Find a conference with all related data
+  static async findByIdWithDetails(id: string): Promise<ConferenceResponse | null> {
     const conference = await this.findById(id);
     if (!conference) {
       return null;
     }
 
+    const tracks = await TrackRepository.findByConference(conference.id);
     const sessions = await this.getConferenceSessions(conference.id);
     const registrationFees = await this.getRegistrationFees(conference.id);
     const paymentInstructions = await this.getPaymentInstructions(conference.id);
 
-    return this.mapConferenceToResponse(conference, sessions, registrationFees, paymentInstructions);
+    return this.mapConferenceToResponse(conference, tracks, sessions, registrationFees, paymentInstructions);
   }
 
+  // Helper methods
   private static mapRowToConference(row: any): Conference {
     return {
       id: row.id,
@@ -240,7 +447,12 @@ export class ConferenceRepository {
       venue: row.venue,
       registrationDeadline: row.registration_deadline,
       submissionDeadline: row.submission_deadline,
+      submissionGraceMinutes: row.submission_grace_minutes ?? 0,
       isActive: row.is_active,
+      reviewMode: row.review_mode || 'single_blind',
+      emailSettings: row.email_settings || {},
+      abstractBookTemplate: row.abstract_book_template || undefined,
+      clonedFrom: row.cloned_from || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -287,6 +499,7 @@ export class ConferenceRepository {
 
   private static mapConferenceToResponse(
     conference: Conference,
+    tracks: Track[],
     sessions: SessionResponse[],
     registrationFees: RegistrationFeeResponse[],
     paymentInstructions: PaymentInstructionsResponse | null
@@ -300,7 +513,11 @@ export class ConferenceRepository {
       venue: conference.venue,
       registrationDeadline: conference.registrationDeadline,
       submissionDeadline: conference.submissionDeadline,
+      submissionGraceMinutes: conference.submissionGraceMinutes,
       isActive: conference.isActive,
+      reviewMode: conference.reviewMode,
+      clonedFrom: conference.clonedFrom,
+      tracks,
       sessions,
       registrationFees,
       paymentInstructions: paymentInstructions || undefined,
@@ -0,0 +1,86 @@
+import { Database } from '../database/connection.js';
+import { CreateDeadlineExtensionRequest, DeadlineExtension } from '../types/index.js';
+
+export class DeadlineExtensionRepository {
+  // Extension end dates covering a user, optionally including one of their submissions
+  static async findApplicable(conferenceId: string, userId: string, submissionId?: string): Promise<Date[]> {
+    const query = `
+      SELECT extended_until
+      FROM deadline_extensions
+      WHERE conference_id = $1
+        AND (user_id = $2 OR ($3::uuid IS NOT NULL AND submission_id = $3::uuid))
+    `;
+    const result = await Database.query(query, [conferenceId, userId, submissionId || null]);
+
+    return result.rows.map((row: any) => row.extended_until);
+  }
+
+  // List extensions granted for a conference
+  static async findByConference(conferenceId: string): Promise<DeadlineExtension[]> {
+    const query = `
+      SELECT e.*,
+        COALESCE(u.first_name, su.first_name) || ' ' || COALESCE(u.last_name, su.last_name) AS user_name,
+        COALESCE(u.email, su.email) AS user_email,
+        s.title AS submission_title
+      FROM deadline_extensions e
+      LEFT JOIN users u ON e.user_id = u.id
+      LEFT JOIN submissions s ON e.submission_id = s.id
+      LEFT JOIN users su ON s.user_id = su.id
+      WHERE e.conference_id = $1
+      ORDER BY e.extended_until DESC
+    `;
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map(this.mapRowToExtension);
+  }
+
+  // Grant an extension
+  static async create(
+    conferenceId: string,
+    data: CreateDeadlineExtensionRequest,
+    grantedBy: string
+  ): Promise<DeadlineExtension> {
+    const query = `
+      INSERT INTO deadline_extensions (conference_id, user_id, submission_id, extended_until, reason, granted_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+    const result = await Database.query(query, [
+      conferenceId,
+      data.userId || null,
+      data.submissionId || null,
+      data.extendedUntil,
+      data.reason,
+      grantedBy
+    ]);
+
+    return this.mapRowToExtension(result.rows[0]);
+  }
+
+  // Revoke an extension
+  static async delete(id: string): Promise<DeadlineExtension | null> {
+    const result = await Database.query('DELETE FROM deadline_extensions WHERE id = $1 RETURNING *', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToExtension(result.rows[0]);
+  }
+
+  private static mapRowToExtension(row: any): DeadlineExtension {
+    return {
+      id: row.id,
+      conferenceId: row.conference_id,
+      userId: row.user_id || undefined,
+      submissionId: row.submission_id || undefined,
+      extendedUntil: row.extended_until,
+      reason: row.reason,
+      grantedBy: row.granted_by || undefined,
+      createdAt: row.created_at,
+      userName: row.user_name || undefined,
+      userEmail: row.user_email || undefined,
+      submissionTitle: row.submission_title || undefined,
+    };
+  }
+}
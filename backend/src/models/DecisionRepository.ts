@@ -0,0 +1,191 @@
+import { PoolClient } from 'pg';
+import { Database } from '../database/connection.js';
+import {
+  DecisionBatch,
+  DecisionBatchItem,
+  DecisionCandidate,
+  DecisionCriteria,
+  DecisionStatus,
+  SubmissionStatus
+} from '../types/index.js';
+
+export class DecisionRepository {
+  // Submissions of an edition still awaiting a decision, with their completed review scores and recommendations
+  static async findCandidates(conferenceId: string): Promise<DecisionCandidate[]> {
+    const query = `
+      SELECT s.id, s.title, s.session_type, s.status,
+        AVG(COALESCE(r.weighted_score, r.score)) FILTER (WHERE r.is_completed = true) AS average_score,
+        COUNT(r.id) FILTER (WHERE r.is_completed = true) AS completed_reviews,
+        COALESCE(
+          array_agg(r.recommendation::text) FILTER (WHERE r.is_completed = true AND r.recommendation IS NOT NULL),
+          '{}'
+        ) AS recommendations
+      FROM submissions s
+      LEFT JOIN reviews r ON r.submission_id = s.id
+      WHERE s.conference_id = $1 AND s.status IN ('submitted', 'under_review', 'revision_requested', 'revised')
+      GROUP BY s.id
+      ORDER BY average_score DESC NULLS LAST, s.title
+    `;
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      title: row.title,
+      sessionType: row.session_type,
+      status: row.status,
+      averageScore: row.average_score !== null ? parseFloat(row.average_score) : null,
+      completedReviews: parseInt(row.completed_reviews),
+      recommendations: row.recommendations
+    }));
+  }
+
+  // Lock the selected submissions of an edition for a decision and return their current status
+  static async lockSubmissions(
+    client: PoolClient,
+    conferenceId: string,
+    ids: string[]
+  ): Promise<Array<{ id: string; title: string; status: SubmissionStatus }>> {
+    const result = await client.query(
+      'SELECT id, title, status FROM submissions WHERE id = ANY($1::uuid[]) AND conference_id = $2 FOR UPDATE',
+      [ids, conferenceId]
+    );
+
+    return result.rows.map((row: any) => ({ id: row.id, title: row.title, status: row.status }));
+  }
+
+  // Record a batch and the submissions it decided, in the caller's transaction
+  static async createBatch(
+    client: PoolClient,
+    data: {
+      conferenceId: string;
+      decision: DecisionStatus;
+      criteria: DecisionCriteria;
+      adminNotes?: string;
+      createdBy: string;
+      items: Array<{ submissionId: string; previousStatus: SubmissionStatus }>;
+    }
+  ): Promise<DecisionBatch> {
+    const batchResult = await client.query(
+      `INSERT INTO decision_batches (conference_id, decision, criteria, admin_notes, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.conferenceId, data.decision, JSON.stringify(data.criteria), data.adminNotes || null, data.createdBy]
+    );
+    const batch = this.mapRowToBatch(batchResult.rows[0]);
+
+    for (const item of data.items) {
+      await client.query(
+        `INSERT INTO decision_batch_items (batch_id, submission_id, previous_status)
+         VALUES ($1, $2, $3)`,
+        [batch.id, item.submissionId, item.previousStatus]
+      );
+    }
+
+    return { ...batch, itemCount: data.items.length, notifiedCount: 0 };
+  }
+
+  // List the batches of an edition, newest first, with notification progress
+  static async findBatches(conferenceId: string): Promise<DecisionBatch[]> {
+    const query = `
+      SELECT b.*,
+        u.first_name || ' ' || u.last_name AS created_by_name,
+        COUNT(i.id) AS item_count,
+        COUNT(i.notified_at) AS notified_count
+      FROM decision_batches b
+      LEFT JOIN users u ON b.created_by = u.id
+      LEFT JOIN decision_batch_items i ON i.batch_id = b.id
+      WHERE b.conference_id = $1
+      GROUP BY b.id, u.first_name, u.last_name
+      ORDER BY b.created_at DESC
+    `;
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map(this.mapRowToBatch);
+  }
+
+  // Find a single batch
+  static async findBatchById(id: string): Promise<DecisionBatch | null> {
+    const result = await Database.query('SELECT * FROM decision_batches WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToBatch(result.rows[0]);
+  }
+
+  // Items of a batch with the submitting author's contact details
+  static async findBatchItems(batchId: string): Promise<DecisionBatchItem[]> {
+    const query = `
+      SELECT i.*,
+        s.title AS submission_title,
+        u.email AS author_email,
+        u.first_name AS author_name
+      FROM decision_batch_items i
+      JOIN submissions s ON i.submission_id = s.id
+      LEFT JOIN users u ON s.user_id = u.id
+      WHERE i.batch_id = $1
+      ORDER BY s.title
+    `;
+    const result = await Database.query(query, [batchId]);
+
+    return result.rows.map(this.mapRowToItem);
+  }
+
+  // Mark an author notification as sent
+  static async markItemNotified(itemId: string): Promise<void> {
+    await Database.query(
+      'UPDATE decision_batch_items SET notified_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [itemId]
+    );
+  }
+
+  // Claim a held batch for release; returns null when it was already released
+  static async markReleased(id: string, releasedBy: string): Promise<DecisionBatch | null> {
+    const query = `
+      UPDATE decision_batches
+      SET released_by = $1, released_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND released_at IS NULL
+      RETURNING *
+    `;
+    const result = await Database.query(query, [releasedBy, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToBatch(result.rows[0]);
+  }
+
+  private static mapRowToBatch(row: any): DecisionBatch {
+    return {
+      id: row.id,
+      conferenceId: row.conference_id,
+      decision: row.decision,
+      criteria: row.criteria || {},
+      adminNotes: row.admin_notes || undefined,
+      createdBy: row.created_by || undefined,
+      releasedBy: row.released_by || undefined,
+      releasedAt: row.released_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      createdByName: row.created_by_name || undefined,
+      itemCount: row.item_count !== undefined ? parseInt(row.item_count) : undefined,
+      notifiedCount: row.notified_count !== undefined ? parseInt(row.notified_count) : undefined,
+    };
+  }
+
+  private static mapRowToItem(row: any): DecisionBatchItem {
+    return {
+      id: row.id,
+      batchId: row.batch_id,
+      submissionId: row.submission_id,
+      previousStatus: row.previous_status,
+      notifiedAt: row.notified_at || undefined,
+      createdAt: row.created_at,
+      submissionTitle: row.submission_title || undefined,
+      authorEmail: row.author_email || undefined,
+      authorName: row.author_name || undefined,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { PoolClient } from 'pg';
+import { Database } from '../database/connection.js';
+import { ManuscriptVersion } from '../types/index.js';
+
+export class ManuscriptVersionRepository {
+  // Record a new immutable version and make it the submission's current manuscript
+  static async create(versionData: {
+    submissionId: string;
+    filePath: string;
+    originalName: string;
+    fileSize: number;
+    sha256: string;
+    uploadedBy: string;
+    changeNote?: string;
+  }): Promise<ManuscriptVersion> {
+    return Database.transaction(async (client: PoolClient) => {
+      // Serialize version numbering per submission
+      await client.query('SELECT id FROM submissions WHERE id = $1 FOR UPDATE', [versionData.submissionId]);
+
+      const query = `
+        INSERT INTO manuscript_versions (
+          submission_id, version_number, file_path, original_name,
+          file_size, sha256, uploaded_by, change_note
+        ) VALUES (
+          $1,
+          (SELECT COALESCE(MAX(version_number), 0) + 1 FROM manuscript_versions WHERE submission_id = $1),
+          $2, $3, $4, $5, $6, $7
+        )
+        RETURNING *
+      `;
+
+      const result = await client.query(query, [
+        versionData.submissionId,
+        versionData.filePath,
+        versionData.originalName,
+        versionData.fileSize,
+        versionData.sha256,
+        versionData.uploadedBy,
+        versionData.changeNote || null
+      ]);
+
+      await client.query(
+        'UPDATE submissions SET manuscript_path = $1 WHERE id = $2',
+        [versionData.filePath, versionData.submissionId]
+      );
+
+      return this.mapRowToVersion(result.rows[0]);
+    });
+  }
+
+  // Find version by ID within a submission
+  static async findById(submissionId: string, versionId: string): Promise<ManuscriptVersion | null> {
+    const query = 'SELECT * FROM manuscript_versions WHERE id = $1 AND submission_id = $2';
+    const result = await Database.query(query, [versionId, submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToVersion(result.rows[0]);
+  }
+
+  // Find all versions of a submission, newest first
+  static async findBySubmissionId(submissionId: string): Promise<ManuscriptVersion[]> {
+    const query = `
+      SELECT * FROM manuscript_versions
+      WHERE submission_id = $1
+      ORDER BY version_number DESC
+    `;
+    const result = await Database.query(query, [submissionId]);
+    return result.rows.map(this.mapRowToVersion);
+  }
+
+  // Find the version backing the submission's current manuscript path
+  static async findByFilePath(submissionId: string, filePath: string): Promise<ManuscriptVersion | null> {
+    const query = 'SELECT * FROM manuscript_versions WHERE submission_id = $1 AND file_path = $2';
+    const result = await Database.query(query, [submissionId, filePath]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToVersion(result.rows[0]);
+  }
+
+  // Mark one version as camera-ready, clearing the flag on any other version
+  static async markCameraReady(submissionId: string, versionId: string): Promise<ManuscriptVersion | null> {
+    return Database.transaction(async (client: PoolClient) => {
+      await client.query(`
+        UPDATE manuscript_versions
+        SET is_camera_ready = false
+        WHERE submission_id = $1 AND is_camera_ready = true AND id <> $2
+      `, [submissionId, versionId]);
+
+      const result = await client.query(`
+        UPDATE manuscript_versions
+        SET is_camera_ready = true
+        WHERE submission_id = $1 AND id = $2
+        RETURNING *
+      `, [submissionId, versionId]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToVersion(result.rows[0]);
+    });
+  }
+
+  private static mapRowToVersion(row: any): ManuscriptVersion {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      versionNumber: row.version_number,
+      filePath: row.file_path,
+      originalName: row.original_name,
+      fileSize: row.file_size !== null && row.file_size !== undefined ? parseInt(row.file_size) : undefined,
+      sha256: row.sha256 ? row.sha256.trim() : undefined,
+      uploadedBy: row.uploaded_by,
+      changeNote: row.change_note,
+      isCameraReady: row.is_camera_ready,
+      createdAt: row.created_at,
+    };
+  }
+}
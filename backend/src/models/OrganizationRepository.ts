@@ -0,0 +1,128 @@
+import { Database } from '../database/connection.js';
+import {
+  Organization,
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest
+} from '../types/index.js';
+
+export class OrganizationRepository {
+  // List organizations, optionally filtered by name, short name or alias
+  static async findAll(search?: string, limit: number = 50): Promise<Organization[]> {
+    if (!search) {
+      const result = await Database.query('SELECT * FROM organizations ORDER BY name LIMIT $1', [limit]);
+      return result.rows.map(this.mapRowToOrganization);
+    }
+
+    const query = `
+      SELECT * FROM organizations
+      WHERE name ILIKE $1
+         OR short_name ILIKE $1
+         OR EXISTS (SELECT 1 FROM unnest(aliases) alias WHERE alias ILIKE $1)
+      ORDER BY name
+      LIMIT $2
+    `;
+    const result = await Database.query(query, [`%${search}%`, limit]);
+    return result.rows.map(this.mapRowToOrganization);
+  }
+
+  // Find organization by ID
+  static async findById(id: string): Promise<Organization | null> {
+    const result = await Database.query('SELECT * FROM organizations WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToOrganization(result.rows[0]);
+  }
+
+  // Create a new organization
+  static async create(data: CreateOrganizationRequest): Promise<Organization> {
+    const query = `
+      INSERT INTO organizations (name, short_name, aliases, city, country)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const values = [
+      data.name,
+      data.shortName || null,
+      data.aliases || [],
+      data.city || null,
+      data.country || null
+    ];
+
+    const result = await Database.query(query, values);
+    return this.mapRowToOrganization(result.rows[0]);
+  }
+
+  // Update organization
+  static async update(id: string, updateData: UpdateOrganizationRequest): Promise<Organization | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        const dbField = this.camelToSnakeCase(key);
+        fields.push(`${dbField} = $${paramCount}`);
+        values.push(value === '' ? null : value);
+        paramCount++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const query = `
+      UPDATE organizations
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+    values.push(id);
+
+    const result = await Database.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToOrganization(result.rows[0]);
+  }
+
+  // Delete organization; linked authors and users keep their free-text affiliation
+  static async delete(id: string): Promise<boolean> {
+    const result = await Database.query('DELETE FROM organizations WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Link existing authors whose free-text affiliation matches the organization
+  static async linkMatchingAuthors(id: string): Promise<number> {
+    const query = `
+      UPDATE authors
+      SET organization_id = $1
+      WHERE organization_id IS NULL
+        AND match_organization(COALESCE(NULLIF(institution, ''), affiliation)) = $1
+    `;
+    const result = await Database.query(query, [id]);
+    return result.rowCount ?? 0;
+  }
+
+  private static mapRowToOrganization(row: any): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      shortName: row.short_name || undefined,
+      aliases: row.aliases || [],
+      city: row.city || undefined,
+      country: row.country || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static camelToSnakeCase(str: string): string {
+    return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  }
+}
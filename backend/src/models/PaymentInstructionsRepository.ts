@@ -60,23 +60,6 @@ export class PaymentInstructionsRepository {
     return this.mapRowToPaymentInstructions(result.rows[0]);
   }
 
-  // Get active payment instructions (from active conference)
-  static async getActive(): Promise<PaymentInstructionsResponse | null> {
-    const query = `
-      SELECT pi.* FROM payment_instructions pi
-      JOIN conferences c ON pi.conference_id = c.id
-      WHERE c.is_active = true
-      LIMIT 1
-    `;
-    const result = await Database.query(query);
-    
-    if (result.rows.length === 0) {
-      return null;
-    }
-
-    return this.mapRowToPaymentInstructions(result.rows[0]);
-  }
-
   // Delete payment instructions
   static async delete(conferenceId: string): Promise<boolean> {
     const query = 'DELETE FROM payment_instructions WHERE conference_id = $1';
@@ -7,16 +7,17 @@ import {
 } from '../types/index.js';
 
 export class PaymentRepository {
-  // Create a new payment record
-  static async create(userId: string, paymentData: CreatePaymentRequest): Promise<PaymentResponse> {
+  // Create a new payment record for a conference edition
+  static async create(conferenceId: string, userId: string, paymentData: CreatePaymentRequest): Promise<PaymentResponse> {
     const query = `
       INSERT INTO payment_records (
-        user_id, amount, currency, payment_method, transaction_reference
-      ) VALUES ($1, $2, $3, $4, $5)
+        conference_id, user_id, amount, currency, payment_method, transaction_reference
+      ) VALUES ($1, $2, $3, $4, $5, $6)
       RETURNING *
     `;
     
     const values = [
+      conferenceId,
       userId,
       paymentData.amount,
       paymentData.currency,
@@ -40,17 +41,17 @@ export class PaymentRepository {
     return this.mapRowToPayment(result.rows[0]);
   }
 
-  // Find payments by user ID
-  static async findByUserId(userId: string): Promise<PaymentResponse[]> {
-    const query = 'SELECT * FROM payment_records WHERE user_id = $1 ORDER BY created_at DESC';
-    const result = await Database.query(query, [userId]);
+  // Find a user's payments for a conference edition
+  static async findByUserId(userId: string, conferenceId: string): Promise<PaymentResponse[]> {
+    const query = 'SELECT * FROM payment_records WHERE user_id = $1 AND conference_id = $2 ORDER BY created_at DESC';
+    const result = await Database.query(query, [userId, conferenceId]);
     return result.rows.map(this.mapRowToPaymentResponse);
   }
 
-  // Find payments by status
-  static async findByStatus(status: PaymentRecordStatus): Promise<PaymentResponse[]> {
-    const query = 'SELECT * FROM payment_records WHERE status = $1 ORDER BY created_at DESC';
-    const result = await Database.query(query, [status]);
+  // Find payments of a conference edition by status
+  static async findByStatus(status: PaymentRecordStatus, conferenceId: string): Promise<PaymentResponse[]> {
+    const query = 'SELECT * FROM payment_records WHERE status = $1 AND conference_id = $2 ORDER BY created_at DESC';
+    const result = await Database.query(query, [status, conferenceId]);
     return result.rows.map(this.mapRowToPaymentResponse);
   }
 
@@ -98,15 +99,15 @@ export class PaymentRepository {
     return this.mapRowToPaymentResponse(result.rows[0]);
   }
 
-  // Get latest payment for user
-  static async getLatestByUserId(userId: string): Promise<PaymentResponse | null> {
+  // Get a user's latest payment for a conference edition
+  static async getLatestByUserId(userId: string, conferenceId: string): Promise<PaymentResponse | null> {
     const query = `
       SELECT * FROM payment_records 
-      WHERE user_id = $1 
+      WHERE user_id = $1 AND conference_id = $2
       ORDER BY created_at DESC 
       LIMIT 1
     `;
-    const result = await Database.query(query, [userId]);
+    const result = await Database.query(query, [userId, conferenceId]);
     
     if (result.rows.length === 0) {
       return null;
@@ -115,16 +116,16 @@ export class PaymentRepository {
     return this.mapRowToPaymentResponse(result.rows[0]);
   }
 
-  // Get pending payments for admin review
-  static async getPendingPayments(): Promise<PaymentResponse[]> {
+  // Get pending payments of a conference edition for admin review
+  static async getPendingPayments(conferenceId: string): Promise<PaymentResponse[]> {
     const query = `
       SELECT pr.*, u.first_name, u.last_name, u.email, u.participant_type
       FROM payment_records pr
       JOIN users u ON pr.user_id = u.id
-      WHERE pr.status = 'pending'
+      WHERE pr.status = 'pending' AND pr.conference_id = $1
       ORDER BY pr.created_at ASC
     `;
-    const result = await Database.query(query);
+    const result = await Database.query(query, [conferenceId]);
     return result.rows.map((row: any) => ({
       ...this.mapRowToPaymentResponse(row),
       userInfo: {
@@ -150,8 +151,8 @@ export class PaymentRepository {
     return parseInt(result.rows[0].count);
   }
 
-  // Get payment statistics
-  static async getPaymentStats(): Promise<{
+  // Get payment statistics for a conference edition
+  static async getPaymentStats(conferenceId: string): Promise<{
     totalPayments: number;
     pendingPayments: number;
     verifiedPayments: number;
@@ -166,8 +167,9 @@ export class PaymentRepository {
         COUNT(CASE WHEN status = 'rejected' THEN 1 END) as rejected_payments,
         COALESCE(SUM(CASE WHEN status = 'verified' THEN amount ELSE 0 END), 0) as total_amount
       FROM payment_records
+      WHERE conference_id = $1
     `;
-    const result = await Database.query(query);
+    const result = await Database.query(query, [conferenceId]);
     const row = result.rows[0];
 
     return {
@@ -190,6 +192,7 @@ export class PaymentRepository {
   private static mapRowToPayment(row: any): PaymentRecord {
     return {
       id: row.id,
+      conferenceId: row.conference_id,
       userId: row.user_id,
       amount: parseFloat(row.amount),
       currency: row.currency,
@@ -209,6 +212,7 @@ export class PaymentRepository {
   private static mapRowToPaymentResponse(row: any): PaymentResponse {
     return {
       id: row.id,
+      conferenceId: row.conference_id,
       userId: row.user_id,
       amount: parseFloat(row.amount),
       currency: row.currency,
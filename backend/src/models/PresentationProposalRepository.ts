@@ -0,0 +1,159 @@
+import { PoolClient } from 'pg';
+import { Database } from '../database/connection.js';
+import { SubmissionRepository } from './SubmissionRepository.js';
+import {
+  PresentationProposalStatus,
+  PresentationType,
+  PresentationTypeProposal
+} from '../types/index.js';
+
+export class PresentationProposalRepository {
+  // Record a proposal to move an accepted submission to another presentation type
+  static async create(data: {
+    submissionId: string;
+    currentType: PresentationType;
+    proposedType: PresentationType;
+    proposedBy?: string;
+    adminNotes?: string;
+  }): Promise<PresentationTypeProposal> {
+    const query = `
+      INSERT INTO presentation_type_proposals (submission_id, current_type, proposed_type, proposed_by, admin_notes)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    const result = await Database.query(query, [
+      data.submissionId,
+      data.currentType,
+      data.proposedType,
+      data.proposedBy || null,
+      data.adminNotes || null
+    ]);
+
+    return this.mapRowToProposal(result.rows[0]);
+  }
+
+  // Find the open proposal for a submission, if any
+  static async findPendingBySubmission(submissionId: string): Promise<PresentationTypeProposal | null> {
+    const query = `
+      SELECT * FROM presentation_type_proposals
+      WHERE submission_id = $1 AND status = 'pending'
+    `;
+    const result = await Database.query(query, [submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToProposal(result.rows[0]);
+  }
+
+  // Most recent proposal for a submission, whatever its outcome
+  static async findLatestBySubmission(submissionId: string): Promise<PresentationTypeProposal | null> {
+    const query = `
+      SELECT * FROM presentation_type_proposals
+      WHERE submission_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const result = await Database.query(query, [submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToProposal(result.rows[0]);
+  }
+
+  // List an edition's proposals with submission titles and submitting authors
+  static async findAll(conferenceId: string, status?: PresentationProposalStatus): Promise<PresentationTypeProposal[]> {
+    const query = `
+      SELECT p.*,
+        s.title AS submission_title,
+        s.session_type,
+        u.first_name || ' ' || u.last_name AS author_name,
+        u.email AS author_email
+      FROM presentation_type_proposals p
+      JOIN submissions s ON p.submission_id = s.id
+      LEFT JOIN users u ON s.user_id = u.id
+      WHERE s.conference_id = $1 ${status ? 'AND p.status = $2' : ''}
+      ORDER BY COALESCE(p.responded_at, p.created_at) DESC
+    `;
+    const result = await Database.query(query, status ? [conferenceId, status] : [conferenceId]);
+
+    return result.rows.map(this.mapRowToProposal);
+  }
+
+  // Record the author's answer; an acceptance changes the submission's presentation type.
+  // Either way the outcome is appended to the submission's status history.
+  static async respond(id: string, response: {
+    decision: 'accept' | 'decline';
+    respondedBy: string;
+    comment?: string;
+  }): Promise<PresentationTypeProposal | null> {
+    return Database.transaction(async (client: PoolClient) => {
+      const status: PresentationProposalStatus = response.decision === 'accept' ? 'accepted' : 'declined';
+      const result = await client.query(`
+        UPDATE presentation_type_proposals
+        SET status = $1, responded_by = $2, responded_at = CURRENT_TIMESTAMP, author_comment = $3
+        WHERE id = $4 AND status = 'pending'
+        RETURNING *
+      `, [status, response.respondedBy, response.comment || null, id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const proposal = this.mapRowToProposal(result.rows[0]);
+
+      const submission = await client.query(
+        'SELECT status FROM submissions WHERE id = $1 FOR UPDATE',
+        [proposal.submissionId]
+      );
+
+      if (status === 'accepted') {
+        await client.query(
+          'UPDATE submissions SET presentation_type = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+          [proposal.proposedType, proposal.submissionId]
+        );
+      }
+
+      const reason = status === 'accepted'
+        ? `Author accepted presenting as ${proposal.proposedType} instead of ${proposal.currentType}`
+        : `Author declined presenting as ${proposal.proposedType}; kept ${proposal.currentType}`;
+
+      await SubmissionRepository.insertStatusHistory(
+        client,
+        proposal.submissionId,
+        submission.rows[0].status,
+        submission.rows[0].status,
+        {
+          changedBy: response.respondedBy,
+          reason: response.comment ? `${reason}: ${response.comment}` : reason
+        }
+      );
+
+      return proposal;
+    });
+  }
+
+  private static mapRowToProposal(row: any): PresentationTypeProposal {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      currentType: row.current_type,
+      proposedType: row.proposed_type,
+      status: row.status,
+      proposedBy: row.proposed_by || undefined,
+      adminNotes: row.admin_notes || undefined,
+      respondedBy: row.responded_by || undefined,
+      respondedAt: row.responded_at || undefined,
+      authorComment: row.author_comment || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      submissionTitle: row.submission_title || undefined,
+      sessionType: row.session_type || undefined,
+      authorName: row.author_name || undefined,
+      authorEmail: row.author_email || undefined,
+    };
+  }
+}
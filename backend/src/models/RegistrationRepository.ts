@@ -0,0 +1,94 @@
+import { PoolClient } from 'pg';
+import { Database } from '../database/connection.js';
+import {
+  ConferenceRegistration,
+  ParticipantType,
+  PaymentStatus
+} from '../types/index.js';
+
+export class RegistrationRepository {
+  // Register a user for a conference edition
+  static async create(
+    conferenceId: string,
+    userId: string,
+    participantType: ParticipantType,
+    client?: PoolClient
+  ): Promise<ConferenceRegistration> {
+    const query = `
+      INSERT INTO conference_registrations (conference_id, user_id, participant_type, registration_fee)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    // Fee is calculated based on participant type and conference fees
+    const values = [conferenceId, userId, participantType, 0];
+    const result = client ? await client.query(query, values) : await Database.query(query, values);
+
+    return this.mapRowToRegistration(result.rows[0]);
+  }
+
+  // Find a user's registration for one edition
+  static async findForConference(conferenceId: string, userId: string): Promise<ConferenceRegistration | null> {
+    const query = 'SELECT * FROM conference_registrations WHERE conference_id = $1 AND user_id = $2';
+    const result = await Database.query(query, [conferenceId, userId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRegistration(result.rows[0]);
+  }
+
+  // List every edition a user registered for, newest first
+  static async findByUser(userId: string): Promise<ConferenceRegistration[]> {
+    const query = `
+      SELECT r.*, c.name AS conference_name, c.start_date AS conference_start_date, c.end_date AS conference_end_date
+      FROM conference_registrations r
+      JOIN conferences c ON c.id = r.conference_id
+      WHERE r.user_id = $1
+      ORDER BY c.start_date DESC
+    `;
+    const result = await Database.query(query, [userId]);
+
+    return result.rows.map((row: any) => this.mapRowToRegistration(row));
+  }
+
+  // Update the payment status of a user's registration for one edition
+  static async updatePaymentStatus(
+    conferenceId: string,
+    userId: string,
+    paymentStatus: PaymentStatus
+  ): Promise<ConferenceRegistration | null> {
+    const query = `
+      UPDATE conference_registrations
+      SET payment_status = $1
+      WHERE conference_id = $2 AND user_id = $3
+      RETURNING *
+    `;
+    const result = await Database.query(query, [paymentStatus, conferenceId, userId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRegistration(result.rows[0]);
+  }
+
+  // Helper methods
+  static mapRowToRegistration(row: any): ConferenceRegistration {
+    return {
+      id: row.id,
+      conferenceId: row.conference_id,
+      userId: row.user_id,
+      participantType: row.participant_type,
+      paymentStatus: row.payment_status,
+      registrationFee: parseFloat(row.registration_fee),
+      registeredAt: row.registered_at,
+      conferenceName: row.conference_name || undefined,
+      conferenceStartDate: row.conference_start_date || undefined,
+      conferenceEndDate: row.conference_end_date || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -5,8 +5,13 @@ import {
   CreateReviewRequest, 
   UpdateReviewRequest, 
   ReviewResponse,
-  ReviewRecommendation
+  ReviewRecommendation,
+  ConflictMatch,
+  ConflictOverride,
+  SubmissionReviewStats
 } from '../types/index.js';
+import { ConflictAuthor, ConflictCandidate, findConflicts, detectAuthorConflicts } from '../utils/conflicts.js';
+import { AutoAssignmentReviewer, AutoAssignmentSubmission, pairKey } from '../utils/autoAssignment.js';
 
 export class ReviewRepository {
   // Create a new review
@@ -45,7 +50,7 @@ export class ReviewRepository {
 
   // Find reviews by submission ID
   static async findBySubmissionId(submissionId: string): Promise<ReviewResponse[]> {
-    const query = 'SELECT * FROM reviews WHERE submission_id = $1 ORDER BY created_at DESC';
+    const query = 'SELECT * FROM reviews WHERE submission_id = $1 ORDER BY round DESC, created_at DESC';
     const result = await Database.query(query, [submissionId]);
     return result.rows.map(this.mapRowToReviewResponse);
   }
@@ -67,7 +72,7 @@ export class ReviewRepository {
       if (value !== undefined) {
         const dbField = this.camelToSnakeCase(key);
         fields.push(`${dbField} = $${paramCount}`);
-        values.push(value);
+        values.push(key === 'criteriaScores' ? JSON.stringify(value) : value);
         paramCount++;
       }
     });
@@ -95,29 +100,86 @@ export class ReviewRepository {
     return this.mapRowToReviewResponse(result.rows[0]);
   }
 
-  // Check if reviewer is assigned to submission
-  static async isReviewerAssigned(submissionId: string, reviewerId: string): Promise<boolean> {
-    const query = 'SELECT id FROM reviews WHERE submission_id = $1 AND reviewer_id = $2';
-    const result = await Database.query(query, [submissionId, reviewerId]);
+  // Check if reviewer is assigned to submission in the given review round
+  static async isReviewerAssigned(submissionId: string, reviewerId: string, round: number = 1): Promise<boolean> {
+    const query = 'SELECT id FROM reviews WHERE submission_id = $1 AND reviewer_id = $2 AND round = $3';
+    const result = await Database.query(query, [submissionId, reviewerId, round]);
     return result.rows.length > 0;
   }
 
-  // Assign reviewer to submission (create empty review)
-  static async assignReviewer(submissionId: string, reviewerId: string): Promise<ReviewResponse> {
+  // Assign reviewer to submission (create empty review pinned to the current manuscript version).
+  // An overridden conflict is recorded in the same transaction, so the assignment never exists
+  // without the reason it was allowed.
+  static async assignReviewer(
+    submissionId: string,
+    reviewerId: string,
+    round: number = 1,
+    conflictOverride?: { conflicts: ConflictMatch[]; reason: string; overriddenBy?: string }
+  ): Promise<{ assignment: ReviewResponse; override: ConflictOverride | null }> {
     const query = `
-      INSERT INTO reviews (submission_id, reviewer_id, is_completed)
-      VALUES ($1, $2, false)
+      INSERT INTO reviews (submission_id, reviewer_id, is_completed, round, manuscript_version_id)
+      VALUES ($1, $2, false, $3, (
+        SELECT mv.id FROM manuscript_versions mv
+        JOIN submissions s ON s.id = mv.submission_id AND s.manuscript_path = mv.file_path
+        WHERE mv.submission_id = $1
+      ))
       RETURNING *
     `;
 
-    const result = await Database.query(query, [submissionId, reviewerId]);
-    return this.mapRowToReviewResponse(result.rows[0]);
+    return Database.transaction(async (client: PoolClient) => {
+      const result = await client.query(query, [submissionId, reviewerId, round]);
+      const assignment = this.mapRowToReviewResponse(result.rows[0]);
+
+      const override = conflictOverride
+        ? await this.recordConflictOverride(client, {
+            ...conflictOverride,
+            submissionId,
+            reviewerId,
+            reviewId: assignment.id
+          })
+        : null;
+
+      return { assignment, override };
+    });
+  }
+
+  // Create many assignments with one statement, each reviewing the submission's current manuscript
+  static async assignReviewers(
+    client: PoolClient,
+    assignments: Array<{ submissionId: string; reviewerId: string; round: number }>
+  ): Promise<ReviewResponse[]> {
+    if (assignments.length === 0) {
+      return [];
+    }
+
+    const query = `
+      INSERT INTO reviews (submission_id, reviewer_id, is_completed, round, manuscript_version_id)
+      SELECT p.submission_id, p.reviewer_id, false, p.round, (
+        SELECT mv.id FROM manuscript_versions mv
+        JOIN submissions s ON s.id = mv.submission_id AND s.manuscript_path = mv.file_path
+        WHERE mv.submission_id = p.submission_id
+      )
+      FROM UNNEST($1::uuid[], $2::uuid[], $3::int[]) AS p(submission_id, reviewer_id, round)
+      RETURNING *
+    `;
+
+    const result = await client.query(query, [
+      assignments.map(assignment => assignment.submissionId),
+      assignments.map(assignment => assignment.reviewerId),
+      assignments.map(assignment => assignment.round)
+    ]);
+    return result.rows.map((row: any) => this.mapRowToReviewResponse(row));
+  }
+
+  // Serialize batch assignments of an edition until the transaction ends
+  static async lockAutoAssignment(client: PoolClient, conferenceId: string): Promise<void> {
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext('auto-assignment:' || $1))`, [conferenceId]);
   }
 
-  // Get average score for submission
+  // Get average score for submission; rubric reviews count with their exact weighted score
   static async getAverageScore(submissionId: string): Promise<number | null> {
     const query = `
-      SELECT AVG(score) as average_score 
+      SELECT AVG(COALESCE(weighted_score, score)) as average_score 
       FROM reviews 
       WHERE submission_id = $1 AND is_completed = true AND score IS NOT NULL
     `;
@@ -127,27 +189,47 @@ export class ReviewRepository {
     return avgScore ? parseFloat(avgScore) : null;
   }
 
-  // Get review statistics for submission
-  static async getSubmissionReviewStats(submissionId: string): Promise<{
-    totalReviews: number;
-    completedReviews: number;
-    averageScore: number | null;
-  }> {
+  // Get review statistics for submission, optionally limited to one review round
+  static async getSubmissionReviewStats(submissionId: string, round?: number): Promise<SubmissionReviewStats> {
     const query = `
       SELECT 
         COUNT(*) as total_reviews,
         COUNT(CASE WHEN is_completed = true THEN 1 END) as completed_reviews,
-        AVG(CASE WHEN is_completed = true THEN score END) as average_score
+        AVG(CASE WHEN is_completed = true THEN COALESCE(weighted_score, score) END) as average_score
       FROM reviews 
-      WHERE submission_id = $1
+      WHERE submission_id = $1 AND ($2::integer IS NULL OR round = $2)
     `;
-    const result = await Database.query(query, [submissionId]);
+    const result = await Database.query(query, [submissionId, round ?? null]);
     const row = result.rows[0];
 
+    // Criteria in rubric order, labelled by the rubric each review was scored with
+    const criteriaQuery = `
+      SELECT 
+        c.criterion->>'key' as key,
+        c.criterion->>'label' as label,
+        (c.criterion->>'weight')::numeric as weight,
+        AVG((r.criteria_scores->>(c.criterion->>'key'))::numeric) as average_score,
+        COUNT(r.criteria_scores->(c.criterion->>'key')) as review_count
+      FROM reviews r
+      JOIN review_rubrics rr ON rr.id = r.rubric_id
+      CROSS JOIN LATERAL jsonb_array_elements(rr.criteria) WITH ORDINALITY AS c(criterion, position)
+      WHERE r.submission_id = $1 AND r.is_completed = true AND ($2::integer IS NULL OR r.round = $2)
+      GROUP BY 1, 2, 3
+      ORDER BY MIN(c.position)
+    `;
+    const criteriaResult = await Database.query(criteriaQuery, [submissionId, round ?? null]);
+
     return {
       totalReviews: parseInt(row.total_reviews),
       completedReviews: parseInt(row.completed_reviews),
       averageScore: row.average_score ? parseFloat(row.average_score) : null,
+      criteria: criteriaResult.rows.map((criterion: any) => ({
+        key: criterion.key,
+        label: criterion.label,
+        weight: parseFloat(criterion.weight),
+        averageScore: criterion.average_score ? parseFloat(criterion.average_score) : null,
+        reviewCount: parseInt(criterion.review_count)
+      })),
     };
   }
 
@@ -158,15 +240,19 @@ export class ReviewRepository {
         r.id as review_id,
         r.submission_id,
         r.is_completed,
+        r.closed_at,
+        r.round,
         r.created_at as assigned_date,
         s.title as submission_title,
         s.session_type,
         s.presentation_type,
         s.status as submission_status,
-        u.first_name || ' ' || u.last_name as author_name
+        u.first_name || ' ' || u.last_name as author_name,
+        c.review_mode
       FROM reviews r
       JOIN submissions s ON r.submission_id = s.id
       JOIN users u ON s.user_id = u.id
+      JOIN conferences c ON s.conference_id = c.id
       WHERE r.reviewer_id = $1
       ORDER BY r.created_at DESC
     `;
@@ -180,19 +266,24 @@ export class ReviewRepository {
       presentationType: row.presentation_type,
       submissionStatus: row.submission_status,
       authorName: row.author_name,
+      reviewMode: row.review_mode,
       assignedDate: row.assigned_date,
-      isCompleted: row.is_completed
+      isCompleted: row.is_completed,
+      isClosed: Boolean(row.closed_at),
+      round: row.round
     }));
   }
 
-  // Get all assignments (admin view)
-  static async getAllAssignments(): Promise<any[]> {
+  // Get all assignments of an edition (admin view)
+  static async getAllAssignments(conferenceId: string): Promise<any[]> {
     const query = `
       SELECT 
         r.id as review_id,
         r.submission_id,
         r.reviewer_id,
         r.is_completed,
+        r.closed_at,
+        r.round,
         r.created_at as assigned_date,
         s.title as submission_title,
         s.session_type,
@@ -205,10 +296,11 @@ export class ReviewRepository {
       JOIN submissions s ON r.submission_id = s.id
       JOIN users reviewer ON r.reviewer_id = reviewer.id
       JOIN users author ON s.user_id = author.id
+      WHERE s.conference_id = $1
       ORDER BY r.created_at DESC
     `;
     
-    const result = await Database.query(query);
+    const result = await Database.query(query, [conferenceId]);
     return result.rows.map(row => ({
       reviewId: row.review_id,
       submissionId: row.submission_id,
@@ -221,11 +313,13 @@ export class ReviewRepository {
       reviewerExpertise: row.expertise,
       authorName: row.author_name,
       assignedDate: row.assigned_date,
-      isCompleted: row.is_completed
+      isCompleted: row.is_completed,
+      isClosed: Boolean(row.closed_at),
+      round: row.round
     }));
   }
 
-  // Get assignment suggestions based on expertise
+  // Get assignment suggestions ranked by the cached text affinity of reviewer profiles
   static async getAssignmentSuggestions(submissionId: string): Promise<any[]> {
     const query = `
       SELECT 
@@ -233,59 +327,155 @@ export class ReviewRepository {
         u.first_name || ' ' || u.last_name as name,
         u.expertise,
         u.affiliation,
+        u.email,
+        u.first_name,
+        u.last_name,
+        u.organization_id,
+        ARRAY_REMOVE(ARRAY_CAT(ARRAY[o.name, o.short_name], o.aliases), NULL) as organization_names,
         s.session_type,
         s.keywords,
-        CASE 
-          WHEN u.expertise && s.keywords THEN 3
-          WHEN u.expertise && ARRAY[s.session_type::text] THEN 2
-          ELSE 1
-        END as match_score,
+        s.conflicts,
+        COALESCE(ra.score, 0) as affinity,
+        COALESCE(ra.terms, '{}') as affinity_terms,
+        COALESCE(u.expertise && ARRAY[s.session_type::text], false) as session_match,
         COUNT(r.id) as current_assignments
       FROM users u
       CROSS JOIN submissions s
-      LEFT JOIN reviews r ON u.id = r.reviewer_id AND r.is_completed = false
+      LEFT JOIN organizations o ON u.organization_id = o.id
+      LEFT JOIN reviewer_affinities ra ON ra.submission_id = s.id AND ra.reviewer_id = u.id
+      LEFT JOIN reviews r ON u.id = r.reviewer_id AND r.is_completed = false AND r.closed_at IS NULL
       WHERE u.role = 'reviewer' 
         AND u.is_active = true
         AND s.id = $1
+        AND s.status <> 'draft'
         AND NOT EXISTS (
           SELECT 1 FROM reviews existing_r 
           WHERE existing_r.reviewer_id = u.id 
           AND existing_r.submission_id = $1
         )
-      GROUP BY u.id, u.first_name, u.last_name, u.expertise, u.affiliation, s.session_type, s.keywords
-      ORDER BY match_score DESC, current_assignments ASC, u.first_name
-      LIMIT 10
+      GROUP BY u.id, u.first_name, u.last_name, u.expertise, u.affiliation, u.email, u.organization_id,
+        o.name, o.short_name, o.aliases, s.session_type, s.keywords, s.conflicts, ra.score, ra.terms
+      ORDER BY affinity DESC, session_match DESC, current_assignments ASC, u.first_name
     `;
     
     const result = await Database.query(query, [submissionId]);
-    return result.rows.map(row => ({
+    const authors = (await this.getConflictAuthors([submissionId])).get(submissionId) || [];
+    const coauthors = await this.getCoauthorsOfReviewers(result.rows.map((row: any) => row.id), submissionId);
+
+    // Conflicted reviewers are listed with their reasons after every reviewer without a conflict
+    const candidates: Array<{ row: any; conflicts: ConflictMatch[] }> = result.rows.map((row: any) => {
+      const candidate = this.mapRowToConflictCandidate(row);
+      return {
+        row,
+        conflicts: [
+          ...findConflicts(candidate, row.conflicts),
+          ...detectAuthorConflicts(candidate, authors, coauthors.get(row.id))
+        ]
+      };
+    });
+    const ranked = [
+      ...candidates.filter(candidate => candidate.conflicts.length === 0),
+      ...candidates.filter(candidate => candidate.conflicts.length > 0)
+    ];
+
+    return ranked.slice(0, 10).map(({ row, conflicts }) => ({
       reviewerId: row.id,
       name: row.name,
       expertise: row.expertise,
       affiliation: row.affiliation,
-      matchScore: row.match_score,
+      affinity: parseFloat(row.affinity),
+      affinityTerms: row.affinity_terms,
       currentAssignments: parseInt(row.current_assignments),
-      matchReason: this.getMatchReason(row.match_score)
+      matchReason: this.getMatchReason(row.affinity_terms, row.session_match),
+      conflicts
     }));
   }
 
+  // Submissions of an edition still open for reviewers, active reviewers and the pairs in conflict;
+  // with a client the current assignments are read inside its transaction
+  static async getAutoAssignmentPool(conferenceId: string, client?: PoolClient): Promise<{
+    submissions: Array<AutoAssignmentSubmission & { title: string; presentationType: string; revisionRound: number }>;
+    reviewers: Array<AutoAssignmentReviewer & { name: string; email: string }>;
+    conflictedPairs: Set<string>;
+  }> {
+    const run = (text: string, params: any[]) => client ? client.query(text, params) : Database.query(text, params);
+    const submissionsQuery = `
+      SELECT s.id, s.title, s.session_type, s.presentation_type, s.revision_round, s.keywords, s.conflicts,
+        ARRAY_REMOVE(ARRAY_AGG(r.reviewer_id), NULL) as assigned_reviewer_ids
+      FROM submissions s
+      LEFT JOIN reviews r ON r.submission_id = s.id AND r.round = COALESCE(s.revision_round, 1)
+      WHERE s.conference_id = $1 AND s.status IN ('submitted', 'under_review')
+      GROUP BY s.id
+      ORDER BY s.created_at
+    `;
+    const reviewersQuery = `
+      SELECT u.id, u.email, u.first_name, u.last_name, u.affiliation, u.organization_id, u.expertise,
+        ARRAY_REMOVE(ARRAY_CAT(ARRAY[o.name, o.short_name], o.aliases), NULL) as organization_names,
+        (SELECT COUNT(*) FROM reviews r
+          WHERE r.reviewer_id = u.id AND r.is_completed = false AND r.closed_at IS NULL) as current_load
+      FROM users u
+      LEFT JOIN organizations o ON u.organization_id = o.id
+      WHERE u.role = 'reviewer' AND u.is_active = true
+      ORDER BY u.last_name, u.first_name
+    `;
+    const submissionRows = (await run(submissionsQuery, [conferenceId])).rows;
+    const reviewerRows = (await run(reviewersQuery, [])).rows;
+
+    const authors = await this.getConflictAuthors(submissionRows.map((row: any) => row.id));
+    const coauthors = await this.getCoauthorsOfReviewers(reviewerRows.map((row: any) => row.id), null);
+
+    const conflictedPairs = new Set<string>();
+    for (const reviewerRow of reviewerRows) {
+      const candidate = this.mapRowToConflictCandidate(reviewerRow);
+      for (const submissionRow of submissionRows) {
+        const conflicted = findConflicts(candidate, submissionRow.conflicts).length > 0
+          || detectAuthorConflicts(candidate, authors.get(submissionRow.id) || [], coauthors.get(reviewerRow.id)).length > 0;
+        if (conflicted) {
+          conflictedPairs.add(pairKey(submissionRow.id, reviewerRow.id));
+        }
+      }
+    }
+
+    return {
+      submissions: submissionRows.map((row: any) => ({
+        id: row.id,
+        title: row.title,
+        sessionType: row.session_type,
+        presentationType: row.presentation_type,
+        revisionRound: row.revision_round || 1,
+        keywords: row.keywords || [],
+        assignedReviewerIds: row.assigned_reviewer_ids || []
+      })),
+      reviewers: reviewerRows.map((row: any) => ({
+        id: row.id,
+        name: `${row.first_name} ${row.last_name}`,
+        email: row.email,
+        expertise: row.expertise || [],
+        currentLoad: parseInt(row.current_load)
+      })),
+      conflictedPairs
+    };
+  }
+
   // Get review progress for admin monitoring
-  static async getReviewProgress(): Promise<any> {
+  static async getReviewProgress(conferenceId: string): Promise<any> {
     const query = `
       SELECT 
         COUNT(*) as total_assignments,
-        COUNT(CASE WHEN is_completed = true THEN 1 END) as completed_reviews,
-        COUNT(CASE WHEN is_completed = false THEN 1 END) as pending_reviews,
+        COUNT(CASE WHEN r.is_completed = true THEN 1 END) as completed_reviews,
+        COUNT(CASE WHEN r.is_completed = false AND r.closed_at IS NULL THEN 1 END) as pending_reviews,
         ROUND(
-          (COUNT(CASE WHEN is_completed = true THEN 1 END)::decimal / COUNT(*)) * 100, 
+          (COUNT(CASE WHEN r.is_completed = true THEN 1 END)::decimal / NULLIF(COUNT(*), 0)) * 100, 
           2
         ) as completion_percentage,
-        COUNT(DISTINCT submission_id) as submissions_under_review,
-        COUNT(DISTINCT reviewer_id) as active_reviewers
-      FROM reviews
+        COUNT(DISTINCT r.submission_id) as submissions_under_review,
+        COUNT(DISTINCT r.reviewer_id) as active_reviewers
+      FROM reviews r
+      JOIN submissions s ON s.id = r.submission_id
+      WHERE s.conference_id = $1
     `;
     
-    const result = await Database.query(query);
+    const result = await Database.query(query, [conferenceId]);
     const stats = result.rows[0];
 
     // Get submissions by review status
@@ -294,11 +484,11 @@ export class ReviewRepository {
         s.status,
         COUNT(*) as count
       FROM submissions s
-      WHERE s.status IN ('submitted', 'under_review')
+      WHERE s.conference_id = $1 AND s.status IN ('submitted', 'under_review', 'revised')
       GROUP BY s.status
     `;
     
-    const statusResult = await Database.query(submissionStatusQuery);
+    const statusResult = await Database.query(submissionStatusQuery, [conferenceId]);
     const submissionsByStatus: Record<string, number> = {};
     statusResult.rows.forEach((row: any) => {
       submissionsByStatus[row.status] = parseInt(row.count);
@@ -310,14 +500,16 @@ export class ReviewRepository {
         u.first_name || ' ' || u.last_name as reviewer_name,
         COUNT(*) as total_assignments,
         COUNT(CASE WHEN r.is_completed = true THEN 1 END) as completed_reviews,
-        COUNT(CASE WHEN r.is_completed = false THEN 1 END) as pending_reviews
+        COUNT(CASE WHEN r.is_completed = false AND r.closed_at IS NULL THEN 1 END) as pending_reviews
       FROM reviews r
       JOIN users u ON r.reviewer_id = u.id
+      JOIN submissions s ON s.id = r.submission_id
+      WHERE s.conference_id = $1
       GROUP BY u.id, u.first_name, u.last_name
       ORDER BY total_assignments DESC
     `;
     
-    const workloadResult = await Database.query(workloadQuery);
+    const workloadResult = await Database.query(workloadQuery, [conferenceId]);
     const reviewerWorkload = workloadResult.rows.map((row: any) => ({
       reviewerName: row.reviewer_name,
       totalAssignments: parseInt(row.total_assignments),
@@ -339,6 +531,53 @@ export class ReviewRepository {
     };
   }
 
+  // Get the manuscript version a reviewer was assigned, from their latest round
+  static async getAssignedManuscriptVersionId(submissionId: string, reviewerId: string): Promise<string | null> {
+    const query = `
+      SELECT manuscript_version_id FROM reviews 
+      WHERE submission_id = $1 AND reviewer_id = $2 
+      ORDER BY round DESC 
+      LIMIT 1
+    `;
+    const result = await Database.query(query, [submissionId, reviewerId]);
+    return result.rows[0]?.manuscript_version_id || null;
+  }
+
+  // Reviewers assigned to a submission in any round, with contact details
+  static async getSubmissionReviewers(submissionId: string): Promise<Array<{
+    reviewerId: string;
+    email: string;
+    name: string;
+    isCompleted: boolean;
+  }>> {
+    const query = `
+      SELECT DISTINCT ON (r.reviewer_id)
+        r.reviewer_id, r.is_completed, u.email, u.first_name || ' ' || u.last_name as name
+      FROM reviews r
+      JOIN users u ON r.reviewer_id = u.id
+      WHERE r.submission_id = $1
+      ORDER BY r.reviewer_id, r.round DESC
+    `;
+    const result = await Database.query(query, [submissionId]);
+    return result.rows.map((row: any) => ({
+      reviewerId: row.reviewer_id,
+      email: row.email,
+      name: row.name,
+      isCompleted: row.is_completed
+    }));
+  }
+
+  // Close every unfinished assignment of a submission within the caller's transaction, keeping completed reviews
+  static async closePendingAssignments(client: PoolClient, submissionId: string): Promise<number> {
+    const query = `
+      UPDATE reviews 
+      SET closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE submission_id = $1 AND is_completed = false AND closed_at IS NULL
+    `;
+    const result = await client.query(query, [submissionId]);
+    return result.rowCount ?? 0;
+  }
+
   // Delete review
   static async delete(id: string): Promise<boolean> {
     const query = 'DELETE FROM reviews WHERE id = $1';
@@ -362,6 +601,12 @@ export class ReviewRepository {
       recommendation: row.recommendation,
       reviewDate: row.review_date,
       isCompleted: row.is_completed,
+      round: row.round,
+      manuscriptVersionId: row.manuscript_version_id,
+      closedAt: row.closed_at || undefined,
+      rubricId: row.rubric_id || undefined,
+      criteriaScores: row.criteria_scores || undefined,
+      weightedScore: row.weighted_score !== null && row.weighted_score !== undefined ? parseFloat(row.weighted_score) : undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -377,6 +622,12 @@ export class ReviewRepository {
       recommendation: row.recommendation,
       reviewDate: row.review_date,
       isCompleted: row.is_completed,
+      round: row.round,
+      manuscriptVersionId: row.manuscript_version_id,
+      closedAt: row.closed_at || undefined,
+      rubricId: row.rubric_id || undefined,
+      criteriaScores: row.criteria_scores || undefined,
+      weightedScore: row.weighted_score !== null && row.weighted_score !== undefined ? parseFloat(row.weighted_score) : undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -392,20 +643,159 @@ export class ReviewRepository {
       recommendation: review.recommendation,
       reviewDate: review.reviewDate,
       isCompleted: review.isCompleted,
+      round: review.round,
+      manuscriptVersionId: review.manuscriptVersionId,
+      rubricId: review.rubricId,
+      criteriaScores: review.criteriaScores,
+      weightedScore: review.weightedScore,
       createdAt: review.createdAt,
       updatedAt: review.updatedAt,
     };
   }
 
-  private static getMatchReason(score: number): string {
-    switch (score) {
-      case 3:
-        return 'Expertise matches submission keywords';
-      case 2:
-        return 'Expertise matches session type';
-      default:
-        return 'Available reviewer';
+  // Conflicts between a reviewer and a submission: those the authors declared and those detected from the authors
+  static async findAssignmentConflicts(submissionId: string, reviewerId: string): Promise<ConflictMatch[]> {
+    const query = `
+      SELECT u.id, u.email, u.first_name, u.last_name, u.affiliation, u.organization_id,
+        ARRAY_REMOVE(ARRAY_CAT(ARRAY[o.name, o.short_name], o.aliases), NULL) as organization_names,
+        s.conflicts
+      FROM users u
+      CROSS JOIN submissions s
+      LEFT JOIN organizations o ON u.organization_id = o.id
+      WHERE u.id = $1 AND s.id = $2
+    `;
+    const result = await Database.query(query, [reviewerId, submissionId]);
+
+    if (result.rows.length === 0) {
+      return [];
+    }
+
+    const candidate = this.mapRowToConflictCandidate(result.rows[0]);
+    const authors = (await this.getConflictAuthors([submissionId])).get(submissionId) || [];
+    const coauthors = await this.getCoauthorsOfReviewers([reviewerId], submissionId);
+
+    return [
+      ...findConflicts(candidate, result.rows[0].conflicts),
+      ...detectAuthorConflicts(candidate, authors, coauthors.get(reviewerId))
+    ];
+  }
+
+  // Authors of each submission, and the account that submitted it, as compared with reviewers
+  private static async getConflictAuthors(submissionIds: string[]): Promise<Map<string, ConflictAuthor[]>> {
+    const query = `
+      SELECT a.submission_id, a.name, a.email, a.user_id, a.organization_id,
+        COALESCE(NULLIF(a.institution, ''), o.name) as institution
+      FROM authors a
+      LEFT JOIN organizations o ON a.organization_id = o.id
+      WHERE a.submission_id = ANY($1)
+      UNION ALL
+      SELECT s.id, u.first_name || ' ' || u.last_name, u.email, u.id, u.organization_id, o.name
+      FROM submissions s
+      JOIN users u ON s.user_id = u.id
+      LEFT JOIN organizations o ON u.organization_id = o.id
+      WHERE s.id = ANY($1)
+    `;
+    const result = await Database.query(query, [submissionIds]);
+
+    const authors = new Map<string, ConflictAuthor[]>();
+    for (const row of result.rows) {
+      const list = authors.get(row.submission_id) || [];
+      list.push(this.mapRowToConflictAuthor(row));
+      authors.set(row.submission_id, list);
+    }
+
+    return authors;
+  }
+
+  // Co-authors of each reviewer on their other finalized submissions, keyed by reviewer
+  private static async getCoauthorsOfReviewers(reviewerIds: string[], excludeSubmissionId: string | null): Promise<Map<string, ConflictAuthor[]>> {
+    const coauthors = new Map<string, ConflictAuthor[]>();
+    if (reviewerIds.length === 0) {
+      return coauthors;
+    }
+
+    const query = `
+      SELECT DISTINCT u.id as reviewer_id, co.name, co.email, co.user_id
+      FROM users u
+      JOIN authors mine ON mine.user_id = u.id OR LOWER(mine.email) = LOWER(u.email)
+      JOIN submissions other ON other.id = mine.submission_id AND other.status <> 'draft'
+      JOIN authors co ON co.submission_id = mine.submission_id AND co.id <> mine.id
+      WHERE u.id = ANY($1) AND ($2::uuid IS NULL OR mine.submission_id <> $2)
+    `;
+    const result = await Database.query(query, [reviewerIds, excludeSubmissionId]);
+
+    for (const row of result.rows) {
+      const list = coauthors.get(row.reviewer_id) || [];
+      list.push(this.mapRowToConflictAuthor(row));
+      coauthors.set(row.reviewer_id, list);
+    }
+
+    return coauthors;
+  }
+
+  // Record an admin assignment made despite declared conflicts within the caller's transaction
+  static async recordConflictOverride(client: PoolClient, override: {
+    submissionId: string;
+    reviewerId: string;
+    reviewId?: string;
+    conflicts: ConflictMatch[];
+    reason: string;
+    overriddenBy?: string;
+  }): Promise<ConflictOverride> {
+    const query = `
+      INSERT INTO conflict_overrides (submission_id, reviewer_id, review_id, conflicts, reason, overridden_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+    const result = await client.query(query, [
+      override.submissionId,
+      override.reviewerId,
+      override.reviewId || null,
+      JSON.stringify(override.conflicts),
+      override.reason,
+      override.overriddenBy || null
+    ]);
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      reviewerId: row.reviewer_id,
+      reviewId: row.review_id || undefined,
+      conflicts: row.conflicts,
+      reason: row.reason,
+      overriddenBy: row.overridden_by || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private static mapRowToConflictCandidate(row: any): ConflictCandidate {
+    return {
+      id: row.id,
+      email: row.email,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      affiliation: row.affiliation || undefined,
+      organizationId: row.organization_id || undefined,
+      organizationNames: row.organization_names || []
+    };
+  }
+
+  private static mapRowToConflictAuthor(row: any): ConflictAuthor {
+    return {
+      name: row.name,
+      email: row.email || undefined,
+      userId: row.user_id || undefined,
+      organizationId: row.organization_id || undefined,
+      institution: row.institution || undefined
+    };
+  }
+
+  private static getMatchReason(affinityTerms: string[], sessionMatch: boolean): string {
+    if (affinityTerms.length > 0) {
+      return `Profile shares: ${affinityTerms.join(', ')}`;
     }
+    return sessionMatch ? 'Expertise matches session type' : 'Available reviewer';
   }
 
   private static camelToSnakeCase(str: string): string {
@@ -0,0 +1,101 @@
+import { Database } from '../database/connection.js';
+import { ReviewRubric, SaveReviewRubricRequest } from '../types/index.js';
+
+export class ReviewRubricRepository {
+  // List the rubrics of a conference, the conference-wide one first
+  static async findByConference(conferenceId: string): Promise<ReviewRubric[]> {
+    const query = `
+      SELECT * FROM review_rubrics
+      WHERE conference_id = $1
+      ORDER BY session_type NULLS FIRST
+    `;
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map((row: any) => this.mapRowToRubric(row));
+  }
+
+  // Find rubric by ID
+  static async findById(id: string): Promise<ReviewRubric | null> {
+    const query = 'SELECT * FROM review_rubrics WHERE id = $1';
+    const result = await Database.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRubric(result.rows[0]);
+  }
+
+  // Rubric a submission is reviewed with: its track's rubric, else the conference-wide one
+  static async findForSubmission(submissionId: string): Promise<ReviewRubric | null> {
+    const query = `
+      SELECT rr.* FROM review_rubrics rr
+      JOIN submissions s ON s.conference_id = rr.conference_id
+      WHERE s.id = $1 AND (rr.session_type = s.session_type OR rr.session_type IS NULL)
+      ORDER BY rr.session_type NULLS LAST
+      LIMIT 1
+    `;
+    const result = await Database.query(query, [submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRubric(result.rows[0]);
+  }
+
+  // Create a rubric or replace the one with the same scope
+  static async upsert(conferenceId: string, rubricData: SaveReviewRubricRequest, updatedBy: string): Promise<ReviewRubric> {
+    const query = `
+      INSERT INTO review_rubrics (conference_id, session_type, name, criteria, updated_by)
+      VALUES ($1, $2, $3, $4::jsonb, $5)
+      ON CONFLICT (conference_id, COALESCE(session_type, '')) DO UPDATE SET
+        name = EXCLUDED.name,
+        criteria = EXCLUDED.criteria,
+        updated_by = EXCLUDED.updated_by
+      RETURNING *
+    `;
+
+    const result = await Database.query(query, [
+      conferenceId,
+      rubricData.sessionType || null,
+      rubricData.name,
+      JSON.stringify(rubricData.criteria),
+      updatedBy
+    ]);
+
+    return this.mapRowToRubric(result.rows[0]);
+  }
+
+  // Number of reviews scored with a rubric
+  static async countUsage(id: string): Promise<number> {
+    const query = 'SELECT COUNT(*) as usage FROM reviews WHERE rubric_id = $1';
+    const result = await Database.query(query, [id]);
+
+    return parseInt(result.rows[0].usage);
+  }
+
+  // Delete a rubric no review was scored with
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM review_rubrics WHERE id = $1';
+    const result = await Database.query(query, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private static mapRowToRubric(row: any): ReviewRubric {
+    return {
+      id: row.id,
+      conferenceId: row.conference_id,
+      sessionType: row.session_type || undefined,
+      name: row.name,
+      criteria: (row.criteria || []).map((criterion: any) => ({
+        ...criterion,
+        weight: Number(criterion.weight)
+      })),
+      updatedBy: row.updated_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Database } from '../database/connection.js';
+import {
+  SessionPolicy,
+  SessionPolicyRules,
+  SessionType,
+  UpdateSessionPolicyRequest
+} from '../types/index.js';
+import { DEFAULT_SESSION_POLICY } from '../utils/sessionPolicy.js';
+
+export class SessionPolicyRepository {
+  // List the policy of every track of an edition, the active conference by default
+  static async findAll(conferenceId?: string): Promise<SessionPolicy[]> {
+    const query = `
+      SELECT sp.* FROM session_policies sp
+      JOIN tracks t ON t.conference_id = sp.conference_id AND t.code = sp.session_type
+      WHERE sp.conference_id = COALESCE($1::uuid, active_conference_id())
+      ORDER BY t.sort_order, t.code
+    `;
+    const result = await Database.query(query, [conferenceId || null]);
+
+    return result.rows.map((row: any) => this.mapRowToSessionPolicy(row));
+  }
+
+  // List the saved policies of one edition
+  static async findByConference(conferenceId: string): Promise<SessionPolicy[]> {
+    const query = 'SELECT * FROM session_policies WHERE conference_id = $1 ORDER BY session_type';
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map((row: any) => this.mapRowToSessionPolicy(row));
+  }
+
+  // Find the policy for a track of an edition, the active conference by default
+  static async findBySessionType(sessionType: SessionType, conferenceId?: string): Promise<SessionPolicy | null> {
+    const query = `
+      SELECT * FROM session_policies
+      WHERE conference_id = COALESCE($2::uuid, active_conference_id()) AND session_type = $1
+    `;
+    const result = await Database.query(query, [sessionType, conferenceId || null]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSessionPolicy(result.rows[0]);
+  }
+
+  // Rules to enforce for a session; sessions without a row fall back to the global limits
+  static async getRules(sessionType: SessionType, conferenceId?: string): Promise<SessionPolicyRules> {
+    const policy = await this.findBySessionType(sessionType, conferenceId);
+    return policy || DEFAULT_SESSION_POLICY;
+  }
+
+  // Create or update the policy for a session of an edition, the active conference by default
+  static async upsert(
+    sessionType: SessionType,
+    updateData: UpdateSessionPolicyRequest,
+    updatedBy: string,
+    conferenceId?: string
+  ): Promise<SessionPolicy> {
+    const rules = { ...(await this.getRules(sessionType, conferenceId)), ...updateData };
+    const query = `
+      INSERT INTO session_policies (
+        conference_id, session_type, min_abstract_words, max_abstract_words,
+        min_keywords, max_keywords, allowed_presentation_types, updated_by
+      ) VALUES (COALESCE($8::uuid, active_conference_id()), $1, $2, $3, $4, $5, $6::presentation_type[], $7)
+      ON CONFLICT (conference_id, session_type) DO UPDATE SET
+        min_abstract_words = EXCLUDED.min_abstract_words,
+        max_abstract_words = EXCLUDED.max_abstract_words,
+        min_keywords = EXCLUDED.min_keywords,
+        max_keywords = EXCLUDED.max_keywords,
+        allowed_presentation_types = EXCLUDED.allowed_presentation_types,
+        updated_by = EXCLUDED.updated_by
+      RETURNING *
+    `;
+
+    const result = await Database.query(query, [
+      sessionType,
+      rules.minAbstractWords,
+      rules.maxAbstractWords,
+      rules.minKeywords,
+      rules.maxKeywords,
+      rules.allowedPresentationTypes,
+      updatedBy,
+      conferenceId || null
+    ]);
+
+    return this.mapRowToSessionPolicy(result.rows[0]);
+  }
+
+  private static mapRowToSessionPolicy(row: any): SessionPolicy {
+    return {
+      id: row.id,
+      sessionType: row.session_type,
+      minAbstractWords: row.min_abstract_words,
+      maxAbstractWords: row.max_abstract_words,
+      minKeywords: row.min_keywords,
+      maxKeywords: row.max_keywords,
+      allowedPresentationTypes: this.parseEnumArray(row.allowed_presentation_types),
+      updatedBy: row.updated_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  // node-postgres returns arrays of custom enums as '{oral,poster}' strings
+  private static parseEnumArray(value: any): any[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return value.replace(/^\{|\}$/g, '').split(',').filter(item => item.length > 0);
+    }
+    return [];
+  }
+}
@@ -198,7 +198,12 @@ export class SessionRepository {
 
   // Find sessions by conference ID
   static async findByConferenceId(conferenceId: string): Promise<SessionResponse[]> {
-    const query = 'SELECT * FROM sessions WHERE conference_id = $1 ORDER BY type';
+    const query = `
+      SELECT se.* FROM sessions se
+      LEFT JOIN tracks t ON t.conference_id = se.conference_id AND t.code = se.type
+      WHERE se.conference_id = $1
+      ORDER BY t.sort_order, se.type, se.name
+    `;
     const result = await Database.query(query, [conferenceId]);
     
     const sessions: SessionResponse[] = [];
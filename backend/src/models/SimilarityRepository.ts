@@ -0,0 +1,187 @@
+import { Database } from '../database/connection.js';
+import {
+  SimilarityFlag,
+  SimilarityFlagStatus,
+  SessionType,
+  SubmissionStatus
+} from '../types/index.js';
+
+export interface SimilarityCorpusEntry {
+  id: string;
+  title: string;
+  abstract: string;
+  sessionType: SessionType;
+  status: SubmissionStatus;
+  userId: string;
+  createdAt: Date;
+}
+
+export class SimilarityRepository {
+  // Every finalized submission, across sessions and earlier editions
+  static async findCorpus(): Promise<SimilarityCorpusEntry[]> {
+    const query = `
+      SELECT id, title, abstract, session_type, status, user_id, created_at
+      FROM submissions
+      WHERE status <> 'draft'
+      ORDER BY created_at
+    `;
+    const result = await Database.query(query);
+    return result.rows.map(this.mapRowToCorpusEntry);
+  }
+
+  // Find a single corpus entry
+  static async findCorpusEntry(id: string): Promise<SimilarityCorpusEntry | null> {
+    const query = `
+      SELECT id, title, abstract, session_type, status, user_id, created_at
+      FROM submissions
+      WHERE id = $1
+    `;
+    const result = await Database.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToCorpusEntry(result.rows[0]);
+  }
+
+  // Record or refresh a flagged pair; a reviewed pair keeps its decision
+  static async upsertFlag(
+    firstId: string,
+    secondId: string,
+    scores: { score: number; titleScore: number; abstractScore: number }
+  ): Promise<void> {
+    const [submissionId, similarSubmissionId] = firstId < secondId ? [firstId, secondId] : [secondId, firstId];
+    const query = `
+      INSERT INTO submission_similarity_flags (
+        submission_id, similar_submission_id, score, title_score, abstract_score
+      ) VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (submission_id, similar_submission_id) DO UPDATE SET
+        score = EXCLUDED.score,
+        title_score = EXCLUDED.title_score,
+        abstract_score = EXCLUDED.abstract_score,
+        detected_at = CURRENT_TIMESTAMP
+    `;
+    await Database.query(query, [
+      submissionId,
+      similarSubmissionId,
+      scores.score.toFixed(4),
+      scores.titleScore.toFixed(4),
+      scores.abstractScore.toFixed(4)
+    ]);
+  }
+
+  // Drop open flags for a submission that no longer reach the threshold
+  static async clearOpenFlags(submissionId: string, keepPairedWith: string[]): Promise<void> {
+    const query = `
+      DELETE FROM submission_similarity_flags
+      WHERE status = 'open'
+        AND (submission_id = $1 OR similar_submission_id = $1)
+        AND NOT (submission_id = ANY($2::uuid[]) OR similar_submission_id = ANY($2::uuid[]))
+    `;
+    await Database.query(query, [submissionId, keepPairedWith]);
+  }
+
+  // List flagged pairs with both submissions' titles and submitters
+  static async findFlags(filters: { status?: SimilarityFlagStatus; minScore?: number } = {}): Promise<SimilarityFlag[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`f.status = $${values.length}`);
+    }
+    if (filters.minScore !== undefined) {
+      values.push(filters.minScore);
+      conditions.push(`f.score >= $${values.length}`);
+    }
+
+    const query = `
+      SELECT f.*,
+        a.title AS a_title, a.session_type AS a_session_type, a.status AS a_status, a.created_at AS a_created_at,
+        ua.first_name || ' ' || ua.last_name AS a_submitter_name,
+        b.title AS b_title, b.session_type AS b_session_type, b.status AS b_status, b.created_at AS b_created_at,
+        ub.first_name || ' ' || ub.last_name AS b_submitter_name
+      FROM submission_similarity_flags f
+      JOIN submissions a ON f.submission_id = a.id
+      JOIN submissions b ON f.similar_submission_id = b.id
+      JOIN users ua ON a.user_id = ua.id
+      JOIN users ub ON b.user_id = ub.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY f.score DESC, f.detected_at DESC
+    `;
+    const result = await Database.query(query, values);
+    return result.rows.map(this.mapRowToFlag);
+  }
+
+  // Find a single flag
+  static async findFlagById(id: string): Promise<SimilarityFlag | null> {
+    const result = await Database.query('SELECT * FROM submission_similarity_flags WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFlag(result.rows[0]);
+  }
+
+  // Record an admin's decision on a flagged pair
+  static async updateFlagStatus(id: string, status: SimilarityFlagStatus, reviewedBy: string): Promise<SimilarityFlag | null> {
+    const query = `
+      UPDATE submission_similarity_flags
+      SET status = $1, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = $3
+      RETURNING *
+    `;
+    const result = await Database.query(query, [status, reviewedBy, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFlag(result.rows[0]);
+  }
+
+  private static mapRowToCorpusEntry(row: any): SimilarityCorpusEntry {
+    return {
+      id: row.id,
+      title: row.title || '',
+      abstract: row.abstract || '',
+      sessionType: row.session_type,
+      status: row.status,
+      userId: row.user_id,
+      createdAt: row.created_at,
+    };
+  }
+
+  private static mapRowToFlag(row: any): SimilarityFlag {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      similarSubmissionId: row.similar_submission_id,
+      score: parseFloat(row.score),
+      titleScore: parseFloat(row.title_score),
+      abstractScore: parseFloat(row.abstract_score),
+      status: row.status,
+      detectedAt: row.detected_at,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at || undefined,
+      submission: row.a_title !== undefined ? {
+        id: row.submission_id,
+        title: row.a_title,
+        sessionType: row.a_session_type,
+        status: row.a_status,
+        submitterName: row.a_submitter_name,
+        createdAt: row.a_created_at,
+      } : undefined,
+      similarSubmission: row.b_title !== undefined ? {
+        id: row.similar_submission_id,
+        title: row.b_title,
+        sessionType: row.b_session_type,
+        status: row.b_status,
+        submitterName: row.b_submitter_name,
+        createdAt: row.b_created_at,
+      } : undefined,
+    };
+  }
+}
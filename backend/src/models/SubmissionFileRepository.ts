@@ -0,0 +1,136 @@
+import { Database } from '../database/connection.js';
+import {
+  FileVisibility,
+  SubmissionFile,
+  SubmissionFileSlot,
+  UpdateSubmissionFileRequest
+} from '../types/index.js';
+
+export class SubmissionFileRepository {
+  // Record an uploaded file in one of the submission's slots
+  static async create(fileData: {
+    submissionId: string;
+    slot: SubmissionFileSlot;
+    originalName: string;
+    filePath: string;
+    fileSize: number;
+    mimeType: string;
+    sha256: string;
+    visibility: FileVisibility;
+    description?: string;
+    uploadedBy: string;
+  }): Promise<SubmissionFile> {
+    const query = `
+      INSERT INTO submission_files (
+        submission_id, slot, original_name, file_path, file_size,
+        mime_type, sha256, visibility, description, uploaded_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+    const result = await Database.query(query, [
+      fileData.submissionId,
+      fileData.slot,
+      fileData.originalName,
+      fileData.filePath,
+      fileData.fileSize,
+      fileData.mimeType,
+      fileData.sha256,
+      fileData.visibility,
+      fileData.description || null,
+      fileData.uploadedBy
+    ]);
+
+    return this.mapRowToFile(result.rows[0]);
+  }
+
+  // Find a file by ID within a submission
+  static async findById(submissionId: string, fileId: string): Promise<SubmissionFile | null> {
+    const query = 'SELECT * FROM submission_files WHERE id = $1 AND submission_id = $2';
+    const result = await Database.query(query, [fileId, submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFile(result.rows[0]);
+  }
+
+  // Find a public file whose submission has not been withdrawn or rejected
+  static async findPublicById(fileId: string): Promise<SubmissionFile | null> {
+    const query = `
+      SELECT f.* FROM submission_files f
+      JOIN submissions s ON f.submission_id = s.id
+      WHERE f.id = $1 AND f.visibility = 'public' AND s.status NOT IN ('draft', 'withdrawn', 'rejected')
+    `;
+    const result = await Database.query(query, [fileId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFile(result.rows[0]);
+  }
+
+  // List a submission's files, grouped by slot
+  static async findBySubmission(submissionId: string, slot?: SubmissionFileSlot): Promise<SubmissionFile[]> {
+    const query = `
+      SELECT * FROM submission_files
+      WHERE submission_id = $1 ${slot ? 'AND slot = $2' : ''}
+      ORDER BY slot, created_at
+    `;
+    const result = await Database.query(query, slot ? [submissionId, slot] : [submissionId]);
+
+    return result.rows.map(this.mapRowToFile);
+  }
+
+  // Change a file's visibility or description
+  static async update(submissionId: string, fileId: string, updates: UpdateSubmissionFileRequest): Promise<SubmissionFile | null> {
+    const query = `
+      UPDATE submission_files
+      SET visibility = COALESCE($1, visibility),
+          description = COALESCE($2, description)
+      WHERE id = $3 AND submission_id = $4
+      RETURNING *
+    `;
+    const result = await Database.query(query, [
+      updates.visibility || null,
+      updates.description ?? null,
+      fileId,
+      submissionId
+    ]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToFile(result.rows[0]);
+  }
+
+  // Remove a file record
+  static async delete(submissionId: string, fileId: string): Promise<boolean> {
+    const result = await Database.query(
+      'DELETE FROM submission_files WHERE id = $1 AND submission_id = $2',
+      [fileId, submissionId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private static mapRowToFile(row: any): SubmissionFile {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      slot: row.slot,
+      originalName: row.original_name,
+      filePath: row.file_path,
+      fileSize: parseInt(row.file_size),
+      mimeType: row.mime_type,
+      sha256: row.sha256.trim(),
+      visibility: row.visibility,
+      description: row.description || undefined,
+      uploadedBy: row.uploaded_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
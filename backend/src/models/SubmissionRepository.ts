@@ -9,8 +9,29 @@ import {
   AuthorResponse,
   SessionType,
   PresentationType,
-  SubmissionStatus
+  SubmissionStatus,
+  SubmissionRevision,
+  SubmissionStatusHistoryEntry,
+  SaveDraftRequest,
+  CreateAuthorRequest,
+  RevisionType,
+  SubmissionSearchResult,
+  SearchFacetCount
 } from '../types/index.js';
+import { canTransition } from '../utils/submissionStatus.js';
+import {
+  SubmissionSearchParams,
+  SearchFacet,
+  TITLE_VECTOR,
+  ABSTRACT_VECTOR,
+  TITLE_HEADLINE_OPTIONS,
+  ABSTRACT_HEADLINE_OPTIONS,
+  buildSearchConditions,
+  getSearchOrder
+} from '../utils/submissionSearch.js';
+import { normalizeOrcid } from '../utils/orcid.js';
+import { normalizeConflicts } from '../utils/conflicts.js';
+import { normalizeReferences } from '../utils/abstractReferences.js';
 
 export class SubmissionRepository {
   // Create a new submission
@@ -19,8 +40,8 @@ export class SubmissionRepository {
       INSERT INTO submissions (
         id, user_id, title, abstract, abstract_html, keywords, 
         session_type, presentation_type, status, submission_date,
-        corresponding_author, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        corresponding_author, created_at, conflicts, abstract_references
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       RETURNING *
     `;
     
@@ -36,11 +57,22 @@ export class SubmissionRepository {
       submissionData.status,
       submissionData.submissionDate,
       submissionData.correspondingAuthor,
-      submissionData.createdAt
+      submissionData.createdAt,
+      JSON.stringify(normalizeConflicts(submissionData.conflicts)),
+      JSON.stringify(normalizeReferences(submissionData.abstractReferences))
     ];
 
-    const result = await Database.query(query, values);
-    return this.mapRowToSubmission(result.rows[0]);
+    return Database.transaction(async (client: PoolClient) => {
+      const result = await client.query(query, values);
+      const submission = this.mapRowToSubmission(result.rows[0]);
+
+      await SubmissionRepository.insertStatusHistory(client, submission.id, null, submission.status, {
+        changedBy: submission.userId,
+        reason: 'Submission created'
+      });
+
+      return submission;
+    });
   }
 
   // Create author
@@ -48,8 +80,12 @@ export class SubmissionRepository {
     const query = `
       INSERT INTO authors (
         id, submission_id, name, affiliation, email, 
-        is_corresponding, author_order, created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        is_corresponding, author_order, created_at, user_id,
+        orcid, organization_id, institution, department, city, country
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, (SELECT id FROM users WHERE LOWER(email) = LOWER($5)),
+        $9, COALESCE($10::uuid, match_organization(COALESCE(NULLIF($11, ''), $4))), $11, $12, $13, $14
+      )
       RETURNING *
     `;
     
@@ -61,7 +97,8 @@ export class SubmissionRepository {
       authorData.email,
       authorData.isCorresponding,
       authorData.authorOrder,
-      authorData.createdAt
+      authorData.createdAt,
+      ...SubmissionRepository.authorAffiliationValues(authorData)
     ];
 
     const result = await Database.query(query, values);
@@ -75,8 +112,8 @@ export class SubmissionRepository {
       const submissionQuery = `
         INSERT INTO submissions (
           user_id, title, abstract, keywords, session_type, 
-          presentation_type, corresponding_author
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          presentation_type, corresponding_author, conflicts, abstract_references
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING *
       `;
       
@@ -87,12 +124,19 @@ export class SubmissionRepository {
         submissionData.keywords,
         submissionData.sessionType,
         submissionData.presentationType,
-        submissionData.correspondingAuthor
+        submissionData.correspondingAuthor,
+        JSON.stringify(normalizeConflicts(submissionData.conflicts)),
+        JSON.stringify(normalizeReferences(submissionData.abstractReferences))
       ];
 
       const submissionResult = await client.query(submissionQuery, submissionValues);
       const submission = this.mapRowToSubmission(submissionResult.rows[0]);
 
+      await this.insertStatusHistory(client, submission.id, null, submission.status, {
+        changedBy: userId,
+        reason: 'Submission created'
+      });
+
       // Insert authors
       const authors = await this.createAuthors(client, submission.id, submissionData.authors);
 
@@ -146,9 +190,14 @@ export class SubmissionRepository {
     return this.mapSubmissionToResponse(submission, authors);
   }
 
-  // Find submissions by user ID
+  // Find submissions by user ID, including finalized submissions the user co-authors
   async findByUserId(userId: string): Promise<SubmissionResponse[]> {
-    const query = 'SELECT * FROM submissions WHERE user_id = $1 ORDER BY created_at DESC';
+    const query = `
+      SELECT * FROM submissions 
+      WHERE user_id = $1
+         OR (status <> 'draft' AND id IN (SELECT submission_id FROM authors WHERE user_id = $1))
+      ORDER BY created_at DESC
+    `;
     const result = await Database.query(query, [userId]);
     
     const submissions = result.rows.map(row => this.mapRowToSubmission(row));
@@ -179,9 +228,13 @@ export class SubmissionRepository {
   }
 
   // Find submissions by session type
-  static async findBySessionType(sessionType: SessionType): Promise<SubmissionResponse[]> {
-    const query = 'SELECT * FROM submissions WHERE session_type = $1 ORDER BY created_at DESC';
-    const result = await Database.query(query, [sessionType]);
+  static async findBySessionType(sessionType: SessionType, conferenceId?: string): Promise<SubmissionResponse[]> {
+    const query = `
+      SELECT * FROM submissions
+      WHERE session_type = $1 AND status <> 'draft' AND conference_id = COALESCE($2::uuid, active_conference_id())
+      ORDER BY created_at DESC
+    `;
+    const result = await Database.query(query, [sessionType, conferenceId || null]);
     
     const submissions = result.rows.map(this.mapRowToSubmission);
     const submissionResponses: SubmissionResponse[] = [];
@@ -195,9 +248,13 @@ export class SubmissionRepository {
   }
 
   // Find submissions by status
-  static async findByStatus(status: SubmissionStatus): Promise<SubmissionResponse[]> {
-    const query = 'SELECT * FROM submissions WHERE status = $1 ORDER BY created_at DESC';
-    const result = await Database.query(query, [status]);
+  static async findByStatus(status: SubmissionStatus, conferenceId?: string): Promise<SubmissionResponse[]> {
+    const query = `
+      SELECT * FROM submissions
+      WHERE status = $1 AND conference_id = COALESCE($2::uuid, active_conference_id())
+      ORDER BY created_at DESC
+    `;
+    const result = await Database.query(query, [status, conferenceId || null]);
     
     const submissions = result.rows.map(this.mapRowToSubmission);
     const submissionResponses: SubmissionResponse[] = [];
@@ -256,7 +313,7 @@ export class SubmissionRepository {
   async findAll(options: {
     page: number;
     limit: number;
-    filters?: { sessionType?: string; status?: string };
+    filters?: { conferenceId?: string; sessionType?: string; status?: string };
   }): Promise<{
     submissions: SubmissionResponse[];
     total: number;
@@ -266,11 +323,17 @@ export class SubmissionRepository {
     const { page, limit, filters = {} } = options;
     const offset = (page - 1) * limit;
 
-    // Build WHERE clause
-    const whereConditions: string[] = [];
+    // Build WHERE clause; drafts are private to their authors
+    const whereConditions: string[] = ["status <> 'draft'"];
     const values: any[] = [];
     let paramCount = 1;
 
+    if (filters.conferenceId) {
+      whereConditions.push(`conference_id = $${paramCount}`);
+      values.push(filters.conferenceId);
+      paramCount++;
+    }
+
     if (filters.sessionType) {
       whereConditions.push(`session_type = $${paramCount}`);
       values.push(filters.sessionType);
@@ -283,7 +346,7 @@ export class SubmissionRepository {
       paramCount++;
     }
 
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    const whereClause = `WHERE ${whereConditions.join(' AND ')}`;
 
     // Get total count
     const countQuery = `SELECT COUNT(*) as count FROM submissions ${whereClause}`;
@@ -316,6 +379,86 @@ export class SubmissionRepository {
     };
   }
 
+  // Ranked full-text search over title and abstract with facet counts and highlighted snippets
+  async search(params: SubmissionSearchParams): Promise<SubmissionSearchResult> {
+    const { where, values } = buildSearchConditions(params);
+    const offset = (params.page - 1) * params.limit;
+    const textQuery = params.q ? "websearch_to_tsquery('english', $1)" : null;
+
+    const countResult = await Database.query(`SELECT COUNT(*) as count FROM submissions s ${where}`, values);
+    const total = parseInt(countResult.rows[0].count);
+
+    // Rank and page first so ts_headline only runs on the returned rows
+    const rank = textQuery
+      ? `ts_rank(setweight(${TITLE_VECTOR}, 'A') || setweight(${ABSTRACT_VECTOR}, 'B'), ${textQuery})`
+      : '0';
+    const query = `
+      WITH page AS (
+        SELECT s.*, ${rank} AS rank
+        FROM submissions s
+        ${where}
+        ORDER BY ${getSearchOrder(params)}
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      )
+      SELECT s.*,
+        ${textQuery ? `ts_headline('english', s.title, ${textQuery}, '${TITLE_HEADLINE_OPTIONS}')` : 's.title'} AS title_highlight,
+        ${textQuery ? `ts_headline('english', s.abstract, ${textQuery}, '${ABSTRACT_HEADLINE_OPTIONS}')` : 'left(s.abstract, 300)'} AS abstract_highlight
+      FROM page s
+      ORDER BY ${getSearchOrder(params)}
+    `;
+    const result = await Database.query(query, [...values, params.limit, offset]);
+
+    const submissions = [];
+    for (const row of result.rows) {
+      const submission = this.mapRowToSubmission(row);
+      const authors = await this.getSubmissionAuthors(submission.id);
+      submissions.push({
+        ...this.mapSubmissionToResponse(submission, authors),
+        rank: parseFloat(row.rank),
+        highlights: {
+          title: row.title_highlight,
+          abstract: row.abstract_highlight
+        }
+      });
+    }
+
+    const [keywords, sessionType, status, presentationType] = await Promise.all([
+      this.getSearchFacet(params, 'keywords', 'k', 'CROSS JOIN LATERAL unnest(s.keywords) AS k'),
+      this.getSearchFacet(params, 'sessionType', 's.session_type'),
+      this.getSearchFacet(params, 'status', 's.status'),
+      this.getSearchFacet(params, 'presentationType', 's.presentation_type')
+    ]);
+
+    return {
+      submissions,
+      total,
+      page: params.page,
+      limit: params.limit,
+      facets: { keywords, sessionType, status, presentationType }
+    };
+  }
+
+  // Count matches per facet value, ignoring the facet's own selection
+  private async getSearchFacet(
+    params: SubmissionSearchParams,
+    facet: SearchFacet,
+    column: string,
+    join: string = ''
+  ): Promise<SearchFacetCount[]> {
+    const { where, values } = buildSearchConditions(params, facet);
+    const query = `
+      SELECT ${column}::text AS value, COUNT(*) AS count
+      FROM submissions s ${join}
+      ${where}
+      GROUP BY 1
+      ORDER BY count DESC, value
+      LIMIT 25
+    `;
+    const result = await Database.query(query, values);
+
+    return result.rows.map((row: any) => ({ value: row.value, count: parseInt(row.count) }));
+  }
+
   // Delete submission
   async delete(id: string): Promise<boolean> {
     return Database.transaction(async (client: PoolClient) => {
@@ -328,23 +471,24 @@ export class SubmissionRepository {
     });
   }
 
-  // Get submission statistics
-  async getStatistics(): Promise<{
+  // Get submission statistics for an edition
+  async getStatistics(conferenceId: string): Promise<{
     totalSubmissions: number;
     submissionsByStatus: Record<string, number>;
     submissionsBySession: Record<string, number>;
     submissionsByPresentationType: Record<string, number>;
   }> {
-    const totalQuery = 'SELECT COUNT(*) as count FROM submissions';
-    const totalResult = await Database.query(totalQuery);
+    const totalQuery = "SELECT COUNT(*) as count FROM submissions WHERE conference_id = $1 AND status <> 'draft'";
+    const totalResult = await Database.query(totalQuery, [conferenceId]);
     const totalSubmissions = parseInt(totalResult.rows[0].count);
 
     const statusQuery = `
       SELECT status, COUNT(*) as count 
       FROM submissions 
+      WHERE conference_id = $1 AND status <> 'draft'
       GROUP BY status
     `;
-    const statusResult = await Database.query(statusQuery);
+    const statusResult = await Database.query(statusQuery, [conferenceId]);
     const submissionsByStatus: Record<string, number> = {};
     statusResult.rows.forEach(row => {
       submissionsByStatus[row.status] = parseInt(row.count);
@@ -353,9 +497,10 @@ export class SubmissionRepository {
     const sessionQuery = `
       SELECT session_type, COUNT(*) as count 
       FROM submissions 
+      WHERE conference_id = $1 AND status <> 'draft'
       GROUP BY session_type
     `;
-    const sessionResult = await Database.query(sessionQuery);
+    const sessionResult = await Database.query(sessionQuery, [conferenceId]);
     const submissionsBySession: Record<string, number> = {};
     sessionResult.rows.forEach(row => {
       submissionsBySession[row.session_type] = parseInt(row.count);
@@ -364,9 +509,10 @@ export class SubmissionRepository {
     const presentationQuery = `
       SELECT presentation_type, COUNT(*) as count 
       FROM submissions 
+      WHERE conference_id = $1 AND status <> 'draft'
       GROUP BY presentation_type
     `;
-    const presentationResult = await Database.query(presentationQuery);
+    const presentationResult = await Database.query(presentationQuery, [conferenceId]);
     const submissionsByPresentationType: Record<string, number> = {};
     presentationResult.rows.forEach(row => {
       submissionsByPresentationType[row.presentation_type] = parseInt(row.count);
@@ -380,12 +526,357 @@ export class SubmissionRepository {
     };
   }
 
+  // Create a draft submission; drafts get no submission date until finalized
+  async createDraft(userId: string, draft: SaveDraftRequest): Promise<Submission> {
+    return Database.transaction(async (client: PoolClient) => {
+      const result = await client.query(`
+        INSERT INTO submissions (
+          user_id, title, abstract, keywords, session_type,
+          presentation_type, corresponding_author, conflicts, abstract_references, status, submission_date
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'draft', NULL)
+        RETURNING *
+      `, [
+        userId,
+        draft.title || '',
+        draft.abstract || '',
+        draft.keywords || [],
+        draft.sessionType || null,
+        draft.presentationType || null,
+        draft.correspondingAuthor || '',
+        JSON.stringify(normalizeConflicts(draft.conflicts)),
+        JSON.stringify(normalizeReferences(draft.abstractReferences))
+      ]);
+      const submission = this.mapRowToSubmission(result.rows[0]);
+
+      if (draft.authors) {
+        await this.replaceAuthors(client, submission.id, draft.authors);
+      }
+
+      await SubmissionRepository.insertStatusHistory(client, submission.id, null, 'draft', {
+        changedBy: userId,
+        reason: 'Draft created'
+      });
+
+      return submission;
+    });
+  }
+
+  // Autosave a draft; only touches fields present in the payload
+  async saveDraft(id: string, draft: SaveDraftRequest): Promise<Submission | null> {
+    return Database.transaction(async (client: PoolClient) => {
+      const result = await client.query(`
+        UPDATE submissions 
+        SET title = COALESCE($1, title),
+            abstract = COALESCE($2, abstract),
+            keywords = COALESCE($3, keywords),
+            session_type = CASE WHEN $4::boolean THEN $5::varchar ELSE session_type END,
+            presentation_type = CASE WHEN $6::boolean THEN $7::presentation_type ELSE presentation_type END,
+            corresponding_author = COALESCE($8, corresponding_author),
+            conflicts = COALESCE($9::jsonb, conflicts),
+            abstract_references = COALESCE($10::jsonb, abstract_references),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $11 AND status = 'draft'
+        RETURNING *
+      `, [
+        draft.title ?? null,
+        draft.abstract ?? null,
+        draft.keywords ?? null,
+        draft.sessionType !== undefined,
+        draft.sessionType || null,
+        draft.presentationType !== undefined,
+        draft.presentationType || null,
+        draft.correspondingAuthor ?? null,
+        draft.conflicts ? JSON.stringify(normalizeConflicts(draft.conflicts)) : null,
+        draft.abstractReferences ? JSON.stringify(normalizeReferences(draft.abstractReferences)) : null,
+        id
+      ]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      if (draft.authors) {
+        await this.replaceAuthors(client, id, draft.authors);
+      }
+
+      return this.mapRowToSubmission(result.rows[0]);
+    });
+  }
+
+  // Turn a draft into a submitted abstract with its processed markdown
+  async finalizeDraft(id: string, finalized: {
+    abstract: string;
+    abstractHtml: string;
+    finalizedBy: string;
+  }): Promise<Submission | null> {
+    return Database.transaction(async (client: PoolClient) => {
+      const result = await client.query(`
+        UPDATE submissions 
+        SET status = 'submitted',
+            abstract = $1,
+            abstract_html = $2,
+            submission_date = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $3 AND status = 'draft'
+        RETURNING *
+      `, [finalized.abstract, finalized.abstractHtml, id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      await SubmissionRepository.insertStatusHistory(client, id, 'draft', 'submitted', {
+        changedBy: finalized.finalizedBy,
+        reason: 'Draft finalized'
+      });
+
+      return this.mapRowToSubmission(result.rows[0]);
+    });
+  }
+
+  // Replace a submission's author list, keeping account links and edit rights by email
+  async replaceSubmissionAuthors(submissionId: string, authors: CreateAuthorRequest[]): Promise<void> {
+    await Database.transaction(async (client: PoolClient) => {
+      await this.replaceAuthors(client, submissionId, authors);
+    });
+  }
+
+  // Replace a submission's author list inside an open transaction
+  private async replaceAuthors(client: PoolClient, submissionId: string, authors: CreateAuthorRequest[] = []): Promise<void> {
+    const previous = await client.query(
+      'SELECT email, user_id, can_edit, invited_at FROM authors WHERE submission_id = $1',
+      [submissionId]
+    );
+    const previousByEmail = new Map<string, any>(
+      previous.rows.map((row: any) => [row.email.toLowerCase(), row])
+    );
+
+    await client.query('DELETE FROM authors WHERE submission_id = $1', [submissionId]);
+
+    for (const author of authors) {
+      const kept = previousByEmail.get((author.email || '').toLowerCase());
+      await client.query(`
+        INSERT INTO authors (
+          submission_id, name, affiliation, email, is_corresponding, author_order,
+          user_id, can_edit, invited_at,
+          orcid, organization_id, institution, department, city, country
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6,
+          COALESCE($7, (SELECT id FROM users WHERE LOWER(email) = LOWER($4) AND $4 <> '')), $8, $9,
+          $10, COALESCE($11::uuid, match_organization(COALESCE(NULLIF($12, ''), NULLIF($3, '')))), $12, $13, $14, $15
+        )
+      `, [
+        submissionId,
+        author.name,
+        author.affiliation,
+        author.email,
+        author.isCorresponding,
+        author.authorOrder,
+        kept?.user_id || null,
+        kept?.can_edit || false,
+        kept?.invited_at || null,
+        ...SubmissionRepository.authorAffiliationValues(author)
+      ]);
+    }
+  }
+
+  // Find a single author row of a submission
+  async findAuthorById(submissionId: string, authorId: string): Promise<AuthorResponse | null> {
+    const query = 'SELECT * FROM authors WHERE id = $1 AND submission_id = $2';
+    const result = await Database.query(query, [authorId, submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToAuthor(result.rows[0]);
+  }
+
+  // Grant or revoke a co-author's right to edit the submission
+  async setAuthorEditPermission(submissionId: string, authorId: string, canEdit: boolean): Promise<AuthorResponse | null> {
+    const query = `
+      UPDATE authors SET can_edit = $1
+      WHERE id = $2 AND submission_id = $3
+      RETURNING *
+    `;
+    const result = await Database.query(query, [canEdit, authorId, submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToAuthor(result.rows[0]);
+  }
+
+  // Record that an account invitation was sent to an author
+  async markAuthorInvited(submissionId: string, authorId: string): Promise<void> {
+    const query = 'UPDATE authors SET invited_at = CURRENT_TIMESTAMP WHERE id = $1 AND submission_id = $2';
+    await Database.query(query, [authorId, submissionId]);
+  }
+
+  // Link every author row with the invited email on a submission to the accepting user
+  async linkInvitedAuthor(submissionId: string, email: string, userId: string): Promise<AuthorResponse[]> {
+    const query = `
+      UPDATE authors SET user_id = $1
+      WHERE submission_id = $2 AND LOWER(email) = LOWER($3)
+      RETURNING *
+    `;
+    const result = await Database.query(query, [userId, submissionId, email]);
+    return result.rows.map((row: any) => this.mapRowToAuthor(row));
+  }
+
+  // Link author rows across all submissions to a newly registered account
+  static async linkAuthorsToUser(userId: string, email: string): Promise<number> {
+    const query = `
+      UPDATE authors SET user_id = $1
+      WHERE user_id IS NULL AND LOWER(email) = LOWER($2)
+    `;
+    const result = await Database.query(query, [userId, email]);
+    return result.rowCount || 0;
+  }
+
+  // Open a revision request for the current review round
+  async requestRevision(id: string, request: {
+    round: number;
+    revisionType: RevisionType;
+    deadline: Date;
+    requestedBy: string;
+    requestNotes?: string;
+  }): Promise<SubmissionRevision> {
+    return Database.transaction(async (client: PoolClient) => {
+      // Snapshot what the reviewers saw so the round stays intact after resubmission
+      const revisionQuery = `
+        INSERT INTO submission_revisions (
+          submission_id, round, revision_type, requested_by, request_notes, deadline,
+          reviewed_title, reviewed_abstract, reviewed_manuscript_path
+        )
+        SELECT id, $2, $3, $4, $5, $6, title, abstract, manuscript_path
+        FROM submissions
+        WHERE id = $1
+        RETURNING *
+      `;
+      const revisionResult = await client.query(revisionQuery, [
+        id,
+        request.round,
+        request.revisionType,
+        request.requestedBy,
+        request.requestNotes,
+        request.deadline
+      ]);
+
+      const previous = await client.query('SELECT status FROM submissions WHERE id = $1 FOR UPDATE', [id]);
+
+      await client.query(`
+        UPDATE submissions 
+        SET status = 'revision_requested', revision_deadline = $1
+        WHERE id = $2
+      `, [request.deadline, id]);
+
+      await SubmissionRepository.insertStatusHistory(client, id, previous.rows[0].status, 'revision_requested', {
+        changedBy: request.requestedBy,
+        reason: `${request.revisionType === 'major_revision' ? 'Major' : 'Minor'} revision requested (round ${request.round})`,
+        adminNotes: request.requestNotes
+      });
+
+      return this.mapRowToRevision(revisionResult.rows[0]);
+    });
+  }
+
+  // Store the author's revision, open the next round and re-assign the previous round's reviewers
+  async submitRevision(id: string, round: number, revision: {
+    title?: string;
+    abstract?: string;
+    abstractHtml?: string;
+    keywords?: string[];
+    responseLetter: string;
+    submittedBy: string;
+  }): Promise<{ revision: SubmissionRevision; reviewerIds: string[] }> {
+    return Database.transaction(async (client: PoolClient) => {
+      const revisionResult = await client.query(`
+        UPDATE submission_revisions 
+        SET response_letter = $1, submitted_at = CURRENT_TIMESTAMP
+        WHERE submission_id = $2 AND round = $3
+        RETURNING *
+      `, [revision.responseLetter, id, round]);
+
+      if (revisionResult.rows.length === 0) {
+        throw new Error('Revision request not found');
+      }
+
+      await client.query(`
+        UPDATE submissions 
+        SET title = COALESCE($1, title),
+            abstract = COALESCE($2, abstract),
+            abstract_html = COALESCE($3, abstract_html),
+            keywords = COALESCE($4, keywords),
+            status = 'revised',
+            revision_round = $5,
+            revision_deadline = NULL
+        WHERE id = $6
+      `, [
+        revision.title ?? null,
+        revision.abstract ?? null,
+        revision.abstractHtml ?? null,
+        revision.keywords ?? null,
+        round + 1,
+        id
+      ]);
+
+      await SubmissionRepository.insertStatusHistory(client, id, 'revision_requested', 'revised', {
+        changedBy: revision.submittedBy,
+        reason: `Revision submitted for round ${round + 1}`
+      });
+
+      const reviewersResult = await client.query(`
+        INSERT INTO reviews (submission_id, reviewer_id, is_completed, round, manuscript_version_id)
+        SELECT r.submission_id, r.reviewer_id, false, $2, mv.id
+        FROM reviews r
+        JOIN submissions s ON s.id = r.submission_id
+        LEFT JOIN manuscript_versions mv ON mv.submission_id = s.id AND mv.file_path = s.manuscript_path
+        WHERE r.submission_id = $1 AND r.round = $3
+        ON CONFLICT (submission_id, reviewer_id, round) DO NOTHING
+        RETURNING reviewer_id
+      `, [id, round + 1, round]);
+
+      return {
+        revision: this.mapRowToRevision(revisionResult.rows[0]),
+        reviewerIds: reviewersResult.rows.map((row: any) => row.reviewer_id)
+      };
+    });
+  }
+
+  // Get revision history for a submission
+  async findRevisions(submissionId: string): Promise<SubmissionRevision[]> {
+    const query = `
+      SELECT * FROM submission_revisions 
+      WHERE submission_id = $1 
+      ORDER BY round ASC
+    `;
+    const result = await Database.query(query, [submissionId]);
+    return result.rows.map((row: any) => this.mapRowToRevision(row));
+  }
+
+  // Get status history for a submission, oldest first
+  async findStatusHistory(submissionId: string): Promise<SubmissionStatusHistoryEntry[]> {
+    const query = `
+      SELECT h.*, u.first_name, u.last_name, u.role AS changed_by_role
+      FROM submission_status_history h
+      LEFT JOIN users u ON u.id = h.changed_by
+      WHERE h.submission_id = $1
+      ORDER BY h.created_at ASC
+    `;
+    const result = await Database.query(query, [submissionId]);
+    return result.rows.map((row: any) => this.mapRowToStatusHistory(row));
+  }
+
   // Get submission authors
   async getSubmissionAuthors(submissionId: string): Promise<AuthorResponse[]> {
     const query = `
-      SELECT * FROM authors 
-      WHERE submission_id = $1 
-      ORDER BY author_order ASC
+      SELECT a.*, o.name AS organization_name
+      FROM authors a
+      LEFT JOIN organizations o ON a.organization_id = o.id
+      WHERE a.submission_id = $1 
+      ORDER BY a.author_order ASC
     `;
     const result = await Database.query(query, [submissionId]);
     return result.rows.map(row => this.mapRowToAuthor(row));
@@ -449,23 +940,66 @@ export class SubmissionRepository {
     });
   }
 
-  // Update submission status
-  static async updateStatus(id: string, status: SubmissionStatus): Promise<Submission | null> {
+  // Update submission status, enforcing the transition table and recording history
+  static async updateStatus(id: string, status: SubmissionStatus, change: {
+    changedBy?: string;
+    reason?: string;
+    adminNotes?: string;
+  } = {}): Promise<Submission | null> {
+    return Database.transaction((client: PoolClient) => this.transitionStatus(client, id, status, change));
+  }
+
+  // Change submission status and record history within the caller's transaction
+  static async transitionStatus(client: PoolClient, id: string, status: SubmissionStatus, change: {
+    changedBy?: string;
+    reason?: string;
+    adminNotes?: string;
+  } = {}): Promise<Submission | null> {
+    const current = await client.query('SELECT status FROM submissions WHERE id = $1 FOR UPDATE', [id]);
+    if (current.rows.length === 0) {
+      return null;
+    }
+
+    const fromStatus: SubmissionStatus = current.rows[0].status;
+    if (!canTransition(fromStatus, status)) {
+      throw new Error(`Invalid submission status transition from ${fromStatus} to ${status}`);
+    }
+
     const query = `
       UPDATE submissions 
       SET status = $1, updated_at = CURRENT_TIMESTAMP
       WHERE id = $2
       RETURNING *
     `;
+    const result = await client.query(query, [status, id]);
 
-    const result = await Database.query(query, [status, id]);
-    if (result.rows.length === 0) {
-      return null;
-    }
+    await this.insertStatusHistory(client, id, fromStatus, status, change);
 
     return this.mapRowToSubmission(result.rows[0]);
   }
 
+  // Append a status change to the submission's history
+  static async insertStatusHistory(
+    client: PoolClient,
+    submissionId: string,
+    fromStatus: SubmissionStatus | null,
+    toStatus: SubmissionStatus,
+    change: { changedBy?: string; reason?: string; adminNotes?: string }
+  ): Promise<void> {
+    await client.query(`
+      INSERT INTO submission_status_history (
+        submission_id, from_status, to_status, changed_by, reason, admin_notes
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+    `, [
+      submissionId,
+      fromStatus,
+      toStatus,
+      change.changedBy || null,
+      change.reason || null,
+      change.adminNotes || null
+    ]);
+  }
+
   // Update manuscript path
   static async updateManuscriptPath(id: string, manuscriptPath: string): Promise<Submission | null> {
     const query = `
@@ -500,6 +1034,52 @@ export class SubmissionRepository {
     return this.mapRowToSubmission(result.rows[0]);
   }
 
+  // Set or clear the abstract figure; the caller removes the previous file
+  static async updateAbstractFigure(id: string, figure: {
+    path: string;
+    mimeType: string;
+    caption?: string;
+  } | null): Promise<Submission | null> {
+    const query = `
+      UPDATE submissions 
+      SET abstract_figure_path = $1,
+          abstract_figure_mime_type = $2,
+          abstract_figure_caption = $3,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4
+      RETURNING *
+    `;
+
+    const result = await Database.query(query, [
+      figure?.path || null,
+      figure?.mimeType || null,
+      figure?.caption || null,
+      id
+    ]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSubmission(result.rows[0]);
+  }
+
+  // Change the caption of the abstract figure
+  static async updateAbstractFigureCaption(id: string, caption: string): Promise<Submission | null> {
+    const query = `
+      UPDATE submissions 
+      SET abstract_figure_caption = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND abstract_figure_path IS NOT NULL
+      RETURNING *
+    `;
+
+    const result = await Database.query(query, [caption || null, id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSubmission(result.rows[0]);
+  }
+
   // Delete submission
   static async delete(id: string): Promise<boolean> {
     return Database.transaction(async (client: PoolClient) => {
@@ -515,9 +1095,11 @@ export class SubmissionRepository {
   // Get submission authors
   static async getSubmissionAuthors(submissionId: string): Promise<AuthorResponse[]> {
     const query = `
-      SELECT * FROM authors 
-      WHERE submission_id = $1 
-      ORDER BY author_order ASC
+      SELECT a.*, o.name AS organization_name
+      FROM authors a
+      LEFT JOIN organizations o ON a.organization_id = o.id
+      WHERE a.submission_id = $1 
+      ORDER BY a.author_order ASC
     `;
     const result = await Database.query(query, [submissionId]);
     return result.rows.map(this.mapRowToAuthor);
@@ -528,28 +1110,44 @@ export class SubmissionRepository {
     if (authorsData.length === 0) return [];
 
     const values = authorsData.map((author, index) => {
-      const baseIndex = index * 6;
-      return `($1, $${baseIndex + 2}, $${baseIndex + 3}, $${baseIndex + 4}, $${baseIndex + 5}, $${baseIndex + 6})`;
+      const baseIndex = index * 11;
+      const param = (offset: number) => `$${baseIndex + offset}`;
+      return `($1, ${param(2)}, ${param(3)}, ${param(4)}, ${param(5)}, ${param(6)}, ${param(7)}, ` +
+        `COALESCE(${param(8)}::uuid, match_organization(COALESCE(NULLIF(${param(9)}, ''), ${param(3)}))), ` +
+        `${param(9)}, ${param(10)}, ${param(11)}, ${param(12)})`;
     }).join(', ');
 
-    const flatValues = [submissionId];
+    const flatValues: any[] = [submissionId];
     authorsData.forEach(author => {
       flatValues.push(
         author.name,
         author.affiliation,
         author.email,
         author.isCorresponding,
-        author.authorOrder
+        author.authorOrder,
+        ...this.authorAffiliationValues(author)
       );
     });
 
     const query = `
-      INSERT INTO authors (submission_id, name, affiliation, email, is_corresponding, author_order)
+      INSERT INTO authors (
+        submission_id, name, affiliation, email, is_corresponding, author_order,
+        orcid, organization_id, institution, department, city, country
+      )
       VALUES ${values}
       RETURNING *
     `;
 
     const result = await client.query(query, flatValues);
+
+    // Link authors that already have an account
+    await client.query(`
+      UPDATE authors a
+      SET user_id = u.id
+      FROM users u
+      WHERE a.submission_id = $1 AND a.user_id IS NULL AND LOWER(a.email) = LOWER(u.email)
+    `, [submissionId]);
+
     return result.rows.map(this.mapRowToAuthor);
   }
 
@@ -557,6 +1155,7 @@ export class SubmissionRepository {
   static async findAll(limit: number = 50, offset: number = 0): Promise<SubmissionResponse[]> {
     const query = `
       SELECT * FROM submissions 
+      WHERE status <> 'draft'
       ORDER BY created_at DESC 
       LIMIT $1 OFFSET $2
     `;
@@ -581,6 +1180,8 @@ export class SubmissionRepository {
     if (status) {
       query += ' WHERE status = $1';
       values.push(status);
+    } else {
+      query += " WHERE status <> 'draft'";
     }
 
     const result = await Database.query(query, values);
@@ -602,11 +1203,53 @@ export class SubmissionRepository {
       submissionDate: row.submission_date,
       manuscriptPath: row.manuscript_path,
       correspondingAuthor: row.corresponding_author,
+      revisionRound: row.revision_round,
+      revisionDeadline: row.revision_deadline,
+      conflicts: normalizeConflicts(row.conflicts),
+      abstractReferences: normalizeReferences(row.abstract_references),
+      abstractFigurePath: row.abstract_figure_path || undefined,
+      abstractFigureMimeType: row.abstract_figure_mime_type || undefined,
+      abstractFigureCaption: row.abstract_figure_caption || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  private mapRowToRevision(row: any): SubmissionRevision {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      round: row.round,
+      revisionType: row.revision_type,
+      requestedBy: row.requested_by,
+      requestNotes: row.request_notes,
+      deadline: row.deadline,
+      requestedAt: row.requested_at,
+      reviewedTitle: row.reviewed_title,
+      reviewedAbstract: row.reviewed_abstract,
+      reviewedManuscriptPath: row.reviewed_manuscript_path,
+      responseLetter: row.response_letter,
+      submittedAt: row.submitted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToStatusHistory(row: any): SubmissionStatusHistoryEntry {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      fromStatus: row.from_status || undefined,
+      toStatus: row.to_status,
+      changedBy: row.changed_by || undefined,
+      changedByName: row.first_name ? `${row.first_name} ${row.last_name}` : undefined,
+      changedByRole: row.changed_by_role || undefined,
+      reason: row.reason || undefined,
+      adminNotes: row.admin_notes || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
   private mapRowToAuthor(row: any): AuthorResponse {
     return {
       id: row.id,
@@ -615,6 +1258,16 @@ export class SubmissionRepository {
       email: row.email,
       isCorresponding: row.is_corresponding,
       authorOrder: row.author_order,
+      userId: row.user_id || undefined,
+      canEdit: row.can_edit || false,
+      invitedAt: row.invited_at || undefined,
+      orcid: row.orcid || undefined,
+      organizationId: row.organization_id || undefined,
+      organizationName: row.organization_name || undefined,
+      institution: row.institution || undefined,
+      department: row.department || undefined,
+      city: row.city || undefined,
+      country: row.country || undefined,
     };
   }
 
@@ -632,7 +1285,14 @@ export class SubmissionRepository {
       submissionDate: submission.submissionDate,
       manuscriptPath: submission.manuscriptPath,
       correspondingAuthor: submission.correspondingAuthor,
+      revisionRound: submission.revisionRound,
+      revisionDeadline: submission.revisionDeadline,
       authors: authors,
+      conflicts: submission.conflicts,
+      abstractReferences: submission.abstractReferences,
+      abstractFigurePath: submission.abstractFigurePath,
+      abstractFigureMimeType: submission.abstractFigureMimeType,
+      abstractFigureCaption: submission.abstractFigureCaption,
       createdAt: submission.createdAt,
       updatedAt: submission.updatedAt,
     };
@@ -657,11 +1317,29 @@ export class SubmissionRepository {
       submissionDate: row.submission_date,
       manuscriptPath: row.manuscript_path,
       correspondingAuthor: row.corresponding_author,
+      revisionRound: row.revision_round,
+      revisionDeadline: row.revision_deadline,
+      abstractReferences: normalizeReferences(row.abstract_references),
+      abstractFigurePath: row.abstract_figure_path || undefined,
+      abstractFigureMimeType: row.abstract_figure_mime_type || undefined,
+      abstractFigureCaption: row.abstract_figure_caption || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
+  // Values for the orcid, organization_id, institution, department, city and country columns
+  private static authorAffiliationValues(author: Partial<CreateAuthorRequest>): (string | null)[] {
+    return [
+      author.orcid ? normalizeOrcid(author.orcid) || author.orcid : null,
+      author.organizationId || null,
+      author.institution || null,
+      author.department || null,
+      author.city || null,
+      author.country || null
+    ];
+  }
+
   private static mapRowToAuthor(row: any): AuthorResponse {
     return {
       id: row.id,
@@ -670,6 +1348,16 @@ export class SubmissionRepository {
       email: row.email,
       isCorresponding: row.is_corresponding,
       authorOrder: row.author_order,
+      userId: row.user_id || undefined,
+      canEdit: row.can_edit || false,
+      invitedAt: row.invited_at || undefined,
+      orcid: row.orcid || undefined,
+      organizationId: row.organization_id || undefined,
+      organizationName: row.organization_name || undefined,
+      institution: row.institution || undefined,
+      department: row.department || undefined,
+      city: row.city || undefined,
+      country: row.country || undefined,
     };
   }
 
@@ -687,7 +1375,13 @@ export class SubmissionRepository {
       submissionDate: submission.submissionDate,
       manuscriptPath: submission.manuscriptPath,
       correspondingAuthor: submission.correspondingAuthor,
+      revisionRound: submission.revisionRound,
+      revisionDeadline: submission.revisionDeadline,
       authors: authors,
+      abstractReferences: submission.abstractReferences,
+      abstractFigurePath: submission.abstractFigurePath,
+      abstractFigureMimeType: submission.abstractFigureMimeType,
+      abstractFigureCaption: submission.abstractFigureCaption,
       createdAt: submission.createdAt,
       updatedAt: submission.updatedAt,
     };
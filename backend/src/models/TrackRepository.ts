@@ -0,0 +1,183 @@
+import { Database } from '../database/connection.js';
+import {
+  Track,
+  SessionType,
+  CreateTrackRequest,
+  UpdateTrackRequest
+} from '../types/index.js';
+import { DEFAULT_TRACK_COLOR } from '../utils/tracks.js';
+
+export class TrackRepository {
+  // List the tracks of a conference in display order
+  static async findByConference(conferenceId: string, includeInactive: boolean = false): Promise<Track[]> {
+    const query = `
+      SELECT * FROM tracks
+      WHERE conference_id = $1 ${includeInactive ? '' : 'AND is_active = true'}
+      ORDER BY sort_order, code
+    `;
+    const result = await Database.query(query, [conferenceId]);
+
+    return result.rows.map((row: any) => this.mapRowToTrack(row));
+  }
+
+  // List the tracks of the active conference in display order
+  static async findForActiveConference(includeInactive: boolean = false): Promise<Track[]> {
+    const query = `
+      SELECT * FROM tracks
+      WHERE conference_id = active_conference_id() ${includeInactive ? '' : 'AND is_active = true'}
+      ORDER BY sort_order, code
+    `;
+    const result = await Database.query(query);
+
+    return result.rows.map((row: any) => this.mapRowToTrack(row));
+  }
+
+  // Find track by ID
+  static async findById(id: string): Promise<Track | null> {
+    const query = 'SELECT * FROM tracks WHERE id = $1';
+    const result = await Database.query(query, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToTrack(result.rows[0]);
+  }
+
+  // Find a track of an edition by its code, the active conference by default
+  static async findByCode(code: SessionType, conferenceId?: string): Promise<Track | null> {
+    const query = 'SELECT * FROM tracks WHERE conference_id = COALESCE($2::uuid, active_conference_id()) AND code = $1';
+    const result = await Database.query(query, [code, conferenceId || null]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToTrack(result.rows[0]);
+  }
+
+  // Codes among the given ones that are not open tracks of the active conference
+  static async findUnknownCodes(codes: SessionType[]): Promise<SessionType[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT code FROM tracks
+      WHERE conference_id = active_conference_id() AND is_active = true AND code = ANY($1::text[])
+    `;
+    const result = await Database.query(query, [codes]);
+    const known = new Set(result.rows.map((row: any) => row.code));
+
+    return codes.filter(code => !known.has(code));
+  }
+
+  // Create a new track
+  static async create(conferenceId: string, trackData: CreateTrackRequest): Promise<Track> {
+    const query = `
+      INSERT INTO tracks (
+        conference_id, code, name, description, guidelines, color, chairs, sort_order, is_active
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7::jsonb,
+        COALESCE($8, (SELECT COALESCE(MAX(sort_order), 0) + 1 FROM tracks WHERE conference_id = $1)),
+        COALESCE($9, true)
+      )
+      RETURNING *
+    `;
+
+    const result = await Database.query(query, [
+      conferenceId,
+      trackData.code,
+      trackData.name,
+      trackData.description || null,
+      trackData.guidelines || null,
+      trackData.color || DEFAULT_TRACK_COLOR,
+      JSON.stringify(trackData.chairs || []),
+      trackData.sortOrder ?? null,
+      trackData.isActive ?? null
+    ]);
+
+    return this.mapRowToTrack(result.rows[0]);
+  }
+
+  // Update a track; a new code is carried over to submissions, sessions and selections
+  static async update(id: string, updateData: UpdateTrackRequest): Promise<Track | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    Object.entries(updateData).forEach(([key, value]) => {
+      if (value !== undefined) {
+        const dbField = this.camelToSnakeCase(key);
+        fields.push(`${dbField} = $${paramCount}`);
+        // JSONB arrays must be serialized, pg would send them as Postgres arrays
+        values.push(key === 'chairs' ? JSON.stringify(value) : value);
+        paramCount++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    const query = `
+      UPDATE tracks
+      SET ${fields.join(', ')}
+      WHERE id = $${paramCount}
+      RETURNING *
+    `;
+    values.push(id);
+
+    const result = await Database.query(query, values);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToTrack(result.rows[0]);
+  }
+
+  // Number of submissions, sessions and attendee selections filed under a track
+  static async countUsage(id: string): Promise<number> {
+    const query = `
+      SELECT
+        (SELECT COUNT(*) FROM submissions s WHERE s.conference_id = t.conference_id AND s.session_type = t.code)
+        + (SELECT COUNT(*) FROM sessions se WHERE se.conference_id = t.conference_id AND se.type = t.code)
+        + (SELECT COUNT(*) FROM user_sessions us WHERE us.conference_id = t.conference_id AND us.session_type = t.code)
+        AS usage
+      FROM tracks t
+      WHERE t.id = $1
+    `;
+    const result = await Database.query(query, [id]);
+
+    return result.rows.length > 0 ? parseInt(result.rows[0].usage) : 0;
+  }
+
+  // Delete a track that nothing refers to
+  static async delete(id: string): Promise<boolean> {
+    const query = 'DELETE FROM tracks WHERE id = $1';
+    const result = await Database.query(query, [id]);
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private static mapRowToTrack(row: any): Track {
+    return {
+      id: row.id,
+      conferenceId: row.conference_id,
+      code: row.code,
+      name: row.name,
+      description: row.description || undefined,
+      guidelines: row.guidelines || undefined,
+      color: row.color,
+      chairs: row.chairs || [],
+      sortOrder: row.sort_order,
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static camelToSnakeCase(str: string): string {
+    return str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  }
+}
@@ -9,8 +9,16 @@ import {
   SessionType,
   ParticipantType,
   UserRole,
-  PaymentStatus
+  ConferenceRegistration
 } from '../types/index.js';
+import { RegistrationRepository } from './RegistrationRepository.js';
+
+// Users with their registration for the current edition, if any
+const USER_SELECT = `
+  SELECT u.*, r.payment_status, r.registration_fee, r.id IS NOT NULL AS is_registered
+  FROM users u
+  LEFT JOIN conference_registrations r ON r.user_id = u.id AND r.conference_id = active_conference_id()
+`;
 
 export class UserRepository {
   // Create a new user
@@ -18,9 +26,9 @@ export class UserRepository {
     const query = `
       INSERT INTO users (
         email, password_hash, first_name, last_name, affiliation, country,
-        participant_type, bio, expertise, registration_fee
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      RETURNING *
+        participant_type, bio, expertise, orcid, organization_id, department
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING id
     `;
     
     const values = [
@@ -33,25 +41,34 @@ export class UserRepository {
       userData.participantType,
       userData.bio || null,
       userData.expertise || [],
-      0 // Will be calculated based on participant type and conference fees
+      userData.orcid || null,
+      userData.organizationId || null,
+      userData.department || null
     ];
 
     return Database.transaction(async (client: PoolClient) => {
       const result = await client.query(query, values);
-      const user = this.mapRowToUser(result.rows[0]);
+      const userId = result.rows[0].id;
+
+      // New accounts are registered for the current edition
+      const current = await client.query('SELECT active_conference_id() AS id');
+      if (current.rows[0].id) {
+        await RegistrationRepository.create(current.rows[0].id, userId, userData.participantType, client);
+      }
 
       // Insert selected sessions
       if (userData.selectedSessions && userData.selectedSessions.length > 0) {
-        await this.addUserSessions(client, user.id, userData.selectedSessions);
+        await this.addUserSessions(client, userId, userData.selectedSessions);
       }
 
-      return user;
+      const created = await client.query(`${USER_SELECT} WHERE u.id = $1`, [userId]);
+      return this.mapRowToUser(created.rows[0]);
     });
   }
 
   // Find user by ID
   static async findById(id: string): Promise<User | null> {
-    const query = 'SELECT * FROM users WHERE id = $1 AND is_active = true';
+    const query = `${USER_SELECT} WHERE u.id = $1 AND u.is_active = true`;
     const result = await Database.query(query, [id]);
     
     if (result.rows.length === 0) {
@@ -63,7 +80,7 @@ export class UserRepository {
 
   // Find user by email
   static async findByEmail(email: string): Promise<User | null> {
-    const query = 'SELECT * FROM users WHERE email = $1 AND is_active = true';
+    const query = `${USER_SELECT} WHERE u.email = $1 AND u.is_active = true`;
     const result = await Database.query(query, [email]);
     
     if (result.rows.length === 0) {
@@ -94,35 +111,55 @@ export class UserRepository {
       return user;
     }
 
-    return Database.transaction(async (client: PoolClient) => {
-      let user: User | null = null;
-
+    const updated = await Database.transaction(async (client: PoolClient) => {
       // Update user fields if any
       if (fields.length > 0) {
         const query = `
           UPDATE users 
           SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP
           WHERE id = $${paramCount} AND is_active = true
-          RETURNING *
         `;
         values.push(id);
 
         const result = await client.query(query, values);
-        if (result.rows.length === 0) {
-          return null;
+        if (result.rowCount === 0) {
+          return false;
         }
-        user = this.mapRowToUser(result.rows[0]);
       }
 
       // Update selected sessions if provided
       if (updateData.selectedSessions) {
         await this.updateUserSessions(client, id, updateData.selectedSessions);
-        if (!user) {
-          user = await this.findById(id);
-        }
       }
 
-      return user;
+      return true;
+    });
+
+    return updated ? this.findById(id) : null;
+  }
+
+  // Register an existing user for the current edition with its own session picks
+  static async registerForCurrentEdition(
+    userId: string,
+    participantType: ParticipantType,
+    sessions: SessionType[]
+  ): Promise<ConferenceRegistration | null> {
+    return Database.transaction(async (client: PoolClient) => {
+      const current = await client.query('SELECT active_conference_id() AS id');
+      if (!current.rows[0].id) {
+        return null;
+      }
+
+      const registration = await RegistrationRepository.create(current.rows[0].id, userId, participantType, client);
+
+      // The account carries the participant type of its latest registration
+      await client.query(
+        'UPDATE users SET participant_type = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [participantType, userId]
+      );
+      await this.addUserSessions(client, userId, sessions);
+
+      return registration;
     });
   }
 
@@ -137,14 +174,17 @@ export class UserRepository {
     return this.mapUserToResponse(user, sessions);
   }
 
-  // Get user sessions
-  static async getUserSessions(userId: string): Promise<SessionType[]> {
-    const query = 'SELECT session_type FROM user_sessions WHERE user_id = $1';
-    const result = await Database.query(query, [userId]);
+  // Get user sessions for an edition, the current one by default
+  static async getUserSessions(userId: string, conferenceId?: string): Promise<SessionType[]> {
+    const query = `
+      SELECT session_type FROM user_sessions
+      WHERE user_id = $1 AND conference_id = COALESCE($2::uuid, active_conference_id())
+    `;
+    const result = await Database.query(query, [userId, conferenceId || null]);
     return result.rows.map(row => row.session_type);
   }
 
-  // Add user sessions
+  // Add user sessions for the current edition
   private static async addUserSessions(client: PoolClient, userId: string, sessions: SessionType[]): Promise<void> {
     if (sessions.length === 0) return;
 
@@ -155,16 +195,16 @@ export class UserRepository {
     const query = `
       INSERT INTO user_sessions (user_id, session_type) 
       VALUES ${values}
-      ON CONFLICT (user_id, session_type) DO NOTHING
+      ON CONFLICT (user_id, conference_id, session_type) DO NOTHING
     `;
 
     await client.query(query, [userId, ...sessions]);
   }
 
-  // Update user sessions (replace all)
+  // Update user sessions for the current edition (replace all)
   private static async updateUserSessions(client: PoolClient, userId: string, sessions: SessionType[]): Promise<void> {
-    // Delete existing sessions
-    await client.query('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
+    // Delete existing sessions; past editions keep theirs
+    await client.query('DELETE FROM user_sessions WHERE user_id = $1 AND conference_id = active_conference_id()', [userId]);
     
     // Add new sessions
     if (sessions.length > 0) {
@@ -172,38 +212,20 @@ export class UserRepository {
     }
   }
 
-  // Update payment status
-  static async updatePaymentStatus(id: string, paymentStatus: PaymentStatus): Promise<User | null> {
-    const query = `
-      UPDATE users 
-      SET payment_status = $1, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2 AND is_active = true
-      RETURNING *
-    `;
-
-    const result = await Database.query(query, [paymentStatus, id]);
-    if (result.rows.length === 0) {
-      return null;
-    }
-
-    return this.mapRowToUser(result.rows[0]);
-  }
-
   // Update user role
   static async updateRole(id: string, role: UserRole): Promise<User | null> {
     const query = `
       UPDATE users 
       SET role = $1, updated_at = CURRENT_TIMESTAMP
       WHERE id = $2 AND is_active = true
-      RETURNING *
     `;
 
     const result = await Database.query(query, [role, id]);
-    if (result.rows.length === 0) {
+    if (result.rowCount === 0) {
       return null;
     }
 
-    return this.mapRowToUser(result.rows[0]);
+    return this.findById(id);
   }
 
   // Deactivate user (soft delete)
@@ -220,14 +242,14 @@ export class UserRepository {
 
   // Get users by role
   static async findByRole(role: UserRole): Promise<User[]> {
-    const query = 'SELECT * FROM users WHERE role = $1 AND is_active = true ORDER BY created_at DESC';
+    const query = `${USER_SELECT} WHERE u.role = $1 AND u.is_active = true ORDER BY u.created_at DESC`;
     const result = await Database.query(query, [role]);
     return result.rows.map(this.mapRowToUser);
   }
 
   // Get users by participant type
   static async findByParticipantType(participantType: ParticipantType): Promise<User[]> {
-    const query = 'SELECT * FROM users WHERE participant_type = $1 AND is_active = true ORDER BY created_at DESC';
+    const query = `${USER_SELECT} WHERE u.participant_type = $1 AND u.is_active = true ORDER BY u.created_at DESC`;
     const result = await Database.query(query, [participantType]);
     return result.rows.map(this.mapRowToUser);
   }
@@ -238,15 +260,14 @@ export class UserRepository {
       UPDATE users 
       SET password_hash = $1, updated_at = CURRENT_TIMESTAMP
       WHERE id = $2 AND is_active = true
-      RETURNING *
     `;
 
     const result = await Database.query(query, [passwordHash, id]);
-    if (result.rows.length === 0) {
+    if (result.rowCount === 0) {
       return null;
     }
 
-    return this.mapRowToUser(result.rows[0]);
+    return this.findById(id);
   }
 
   // Helper methods
@@ -259,14 +280,18 @@ export class UserRepository {
       lastName: row.last_name,
       affiliation: row.affiliation,
       country: row.country,
+      orcid: row.orcid || undefined,
+      organizationId: row.organization_id || undefined,
+      department: row.department || undefined,
       participantType: row.participant_type,
       role: row.role,
       registrationDate: row.registration_date,
       isActive: row.is_active,
       bio: row.bio,
       expertise: row.expertise || [],
-      paymentStatus: row.payment_status,
-      registrationFee: parseFloat(row.registration_fee),
+      isRegistered: row.is_registered === true,
+      paymentStatus: row.payment_status || 'not_paid',
+      registrationFee: row.registration_fee != null ? parseFloat(row.registration_fee) : 0,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -280,12 +305,16 @@ export class UserRepository {
       lastName: user.lastName,
       affiliation: user.affiliation,
       country: user.country,
+      orcid: user.orcid,
+      organizationId: user.organizationId,
+      department: user.department,
       participantType: user.participantType,
       role: user.role,
       registrationDate: user.registrationDate,
       isActive: user.isActive,
       bio: user.bio,
       expertise: user.expertise,
+      isRegistered: user.isRegistered,
       paymentStatus: user.paymentStatus,
       registrationFee: user.registrationFee,
       selectedSessions: sessions,
@@ -0,0 +1,134 @@
+import { Database } from '../database/connection.js';
+import {
+  SubmissionStatus,
+  SubmissionWithdrawal,
+  WithdrawalStatus
+} from '../types/index.js';
+
+export class WithdrawalRepository {
+  // Record a withdrawal request; confirmed requests are kept for reporting
+  static async create(data: {
+    submissionId: string;
+    requestedBy: string;
+    reason: string;
+    status: WithdrawalStatus;
+    submissionStatus: SubmissionStatus;
+  }): Promise<SubmissionWithdrawal> {
+    const query = `
+      INSERT INTO submission_withdrawals (submission_id, requested_by, reason, status, submission_status)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    const result = await Database.query(query, [
+      data.submissionId,
+      data.requestedBy,
+      data.reason,
+      data.status,
+      data.submissionStatus
+    ]);
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  // Find a single withdrawal request
+  static async findById(id: string): Promise<SubmissionWithdrawal | null> {
+    const result = await Database.query('SELECT * FROM submission_withdrawals WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  // Find the open request for a submission, if any
+  static async findPendingBySubmission(submissionId: string): Promise<SubmissionWithdrawal | null> {
+    const query = `
+      SELECT * FROM submission_withdrawals
+      WHERE submission_id = $1 AND status = 'pending'
+    `;
+    const result = await Database.query(query, [submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  // Most recent request for a submission, whatever its outcome
+  static async findLatestBySubmission(submissionId: string): Promise<SubmissionWithdrawal | null> {
+    const query = `
+      SELECT * FROM submission_withdrawals
+      WHERE submission_id = $1
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const result = await Database.query(query, [submissionId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  // List an edition's withdrawal requests with submission titles and requesters
+  static async findAll(conferenceId: string, status?: WithdrawalStatus): Promise<SubmissionWithdrawal[]> {
+    const query = `
+      SELECT w.*,
+        s.title AS submission_title,
+        u.first_name || ' ' || u.last_name AS requested_by_name,
+        u.email AS requested_by_email
+      FROM submission_withdrawals w
+      JOIN submissions s ON w.submission_id = s.id
+      LEFT JOIN users u ON w.requested_by = u.id
+      WHERE s.conference_id = $1 ${status ? 'AND w.status = $2' : ''}
+      ORDER BY w.created_at DESC
+    `;
+    const result = await Database.query(query, status ? [conferenceId, status] : [conferenceId]);
+
+    return result.rows.map(this.mapRowToWithdrawal);
+  }
+
+  // Record an admin's decision on a pending request
+  static async resolve(
+    id: string,
+    status: Exclude<WithdrawalStatus, 'pending'>,
+    reviewedBy: string,
+    adminNotes?: string
+  ): Promise<SubmissionWithdrawal | null> {
+    const query = `
+      UPDATE submission_withdrawals
+      SET status = $1, reviewed_by = $2, reviewed_at = CURRENT_TIMESTAMP, admin_notes = $3
+      WHERE id = $4 AND status = 'pending'
+      RETURNING *
+    `;
+    const result = await Database.query(query, [status, reviewedBy, adminNotes || null, id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWithdrawal(result.rows[0]);
+  }
+
+  private static mapRowToWithdrawal(row: any): SubmissionWithdrawal {
+    return {
+      id: row.id,
+      submissionId: row.submission_id,
+      requestedBy: row.requested_by || undefined,
+      reason: row.reason,
+      status: row.status,
+      submissionStatus: row.submission_status,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at || undefined,
+      adminNotes: row.admin_notes || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      submissionTitle: row.submission_title || undefined,
+      requestedByName: row.requested_by_name || undefined,
+      requestedByEmail: row.requested_by_email || undefined,
+    };
+  }
+}
@@ -2,10 +2,21 @@
 export { UserRepository } from './UserRepository.js';
 export { SubmissionRepository } from './SubmissionRepository.js';
 export { ReviewRepository } from './ReviewRepository.js';
+export { ManuscriptVersionRepository } from './ManuscriptVersionRepository.js';
 export { PaymentRepository } from './PaymentRepository.js';
 export { ConferenceRepository } from './ConferenceRepository.js';
 export { SessionRepository } from './SessionRepository.js';
+export { SessionPolicyRepository } from './SessionPolicyRepository.js';
+export { DeadlineExtensionRepository } from './DeadlineExtensionRepository.js';
+export { OrganizationRepository } from './OrganizationRepository.js';
+export { SimilarityRepository } from './SimilarityRepository.js';
+export { WithdrawalRepository } from './WithdrawalRepository.js';
+export { SubmissionFileRepository } from './SubmissionFileRepository.js';
 export { PaymentInstructionsRepository } from './PaymentInstructionsRepository.js';
+export { DecisionRepository } from './DecisionRepository.js';
+export { PresentationProposalRepository } from './PresentationProposalRepository.js';
+export { TrackRepository } from './TrackRepository.js';
+export { RegistrationRepository } from './RegistrationRepository.js';
 
 // Export validation schemas
 export * from './validation.js';
\ No newline at end of file
@@ -1,5 +1,14 @@
 import Joi from 'joi';
 import { validateAbstractMarkdown } from '../utils/markdown.js';
+import { normalizeOrcid } from '../utils/orcid.js';
+import { GLOBAL_SUBMISSION_LIMITS } from '../utils/sessionPolicy.js';
+import { normalizeConflicts } from '../utils/conflicts.js';
+import { MAX_ABSTRACT_REFERENCES, normalizeDoi, normalizeReferences } from '../utils/abstractReferences.js';
+import { ABSTRACT_FIGURE_RULES } from '../utils/abstractFigures.js';
+import { TRACK_CODE_PATTERN, TRACK_COLOR_PATTERN, MAX_TRACK_CHAIRS, normalizeTrackChairs } from '../utils/tracks.js';
+import { MAX_CLONE_OFFSET_DAYS } from '../utils/editionClone.js';
+import { MAX_RUBRIC_CRITERIA, RUBRIC_CRITERION_KEY_PATTERN } from '../utils/reviewRubric.js';
+import { MAX_REVIEWERS_PER_PAPER, MAX_REVIEWER_LOAD } from '../utils/autoAssignment.js';
 
 // Common validation patterns
 export const commonValidation = {
@@ -18,6 +27,52 @@ export const commonValidation = {
   optionalDate: Joi.date().iso().optional(),
 };
 
+// ORCID iD with checksum verification; normalized to the 0000-0000-0000-0000 form
+export const orcidValidation = Joi.string().trim().custom((value, helpers) => {
+  const orcid = normalizeOrcid(value);
+  if (!orcid) {
+    return helpers.error('any.invalid');
+  }
+  return orcid;
+}).messages({
+  'any.invalid': 'ORCID iD must be a valid 16-digit identifier such as 0000-0002-1825-0097'
+});
+
+// Structured affiliation fields shared by user and author schemas
+const structuredAffiliationFields = {
+  organizationId: Joi.string().uuid().allow(null).optional(),
+  institution: Joi.string().max(255).allow('').optional(),
+  department: Joi.string().max(255).allow('').optional(),
+  city: Joi.string().max(100).allow('').optional(),
+  country: Joi.string().max(100).allow('').optional(),
+};
+
+// Conflict-of-interest declaration; normalized so stored entries compare consistently
+const conflictDeclarationValidation = Joi.object({
+  people: Joi.array().items(Joi.object({
+    name: Joi.string().max(100).allow('').required(),
+    email: Joi.string().email().allow('').optional(),
+  })).max(50).default([]),
+  institutions: Joi.array().items(Joi.string().max(255).allow('')).max(50).default([]),
+  emailDomains: Joi.array().items(Joi.string().max(255).pattern(/^[@*.]*[a-z0-9-]+(\.[a-z0-9-]+)+$/i).allow('')).max(50).default([])
+    .messages({ 'string.pattern.base': 'Email domains must look like example.org' }),
+}).custom(value => normalizeConflicts(value));
+
+// Structured abstract references; DOIs may be pasted as links and are stored bare
+const abstractReferencesValidation = Joi.array().items(Joi.object({
+  authors: Joi.string().max(1000).allow('').required(),
+  title: Joi.string().max(500).allow('').required(),
+  source: Joi.string().max(300).allow('').optional(),
+  year: Joi.number().integer().min(1500).max(new Date().getFullYear() + 1).allow(null).optional(),
+  doi: Joi.string().max(255).allow('').custom((value, helpers) => {
+    if (value && !normalizeDoi(value)) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  }).optional().messages({ 'any.invalid': 'DOI must look like 10.1000/xyz123' }),
+  url: Joi.string().max(500).uri({ scheme: ['http', 'https'] }).allow('').optional(),
+})).max(MAX_ABSTRACT_REFERENCES).custom(value => normalizeReferences(value));
+
 // Enum validations
 export const enumValidation = {
   participantType: Joi.string().valid(
@@ -28,9 +83,12 @@ export const enumValidation = {
     'sponsor', 'government_representative'
   ).required(),
   userRole: Joi.string().valid('participant', 'presenter', 'organizer', 'reviewer', 'admin').required(),
-  sessionType: Joi.string().valid('CHE', 'CSE', 'BIO', 'MST', 'PFD').required(),
+  // Only the code format is checked here; whether the track exists is checked against the catalogue
+  sessionType: Joi.string().trim().uppercase().pattern(TRACK_CODE_PATTERN).required()
+    .messages({ 'string.pattern.base': '{{#label}} must be a track code such as CHE' }),
   presentationType: Joi.string().valid('oral', 'poster').required(),
   reviewRecommendation: Joi.string().valid('accept', 'reject', 'minor_revision', 'major_revision').required(),
+  reviewMode: Joi.string().valid('none', 'single_blind', 'double_blind').required(),
   paymentMethod: Joi.string().valid('bank_transfer', 'credit_card', 'other').required(),
   paymentStatus: Joi.string().valid('pending', 'verified', 'rejected').required(),
 };
@@ -44,6 +102,9 @@ export const userValidation = {
     lastName: commonValidation.name,
     affiliation: commonValidation.requiredText,
     country: commonValidation.requiredText,
+    orcid: orcidValidation.optional(),
+    organizationId: structuredAffiliationFields.organizationId,
+    department: structuredAffiliationFields.department,
     participantType: enumValidation.participantType,
     selectedSessions: Joi.array().items(enumValidation.sessionType).min(1).required(),
     bio: commonValidation.optionalText,
@@ -55,11 +116,19 @@ export const userValidation = {
     lastName: commonValidation.name.optional(),
     affiliation: commonValidation.requiredText.optional(),
     country: commonValidation.requiredText.optional(),
+    orcid: orcidValidation.allow(null).optional(),
+    organizationId: structuredAffiliationFields.organizationId,
+    department: structuredAffiliationFields.department.allow(null),
     bio: commonValidation.optionalText,
     expertise: Joi.array().items(Joi.string().min(1)).optional(),
     selectedSessions: Joi.array().items(enumValidation.sessionType).min(1).optional(),
   }),
 
+  registerForConference: Joi.object({
+    participantType: enumValidation.participantType,
+    selectedSessions: Joi.array().items(enumValidation.sessionType).min(1).required(),
+  }),
+
   login: Joi.object({
     email: commonValidation.email,
     password: Joi.string().required(),
@@ -98,8 +167,12 @@ export const submissionValidation = {
       email: commonValidation.email,
       isCorresponding: Joi.boolean().required(),
       authorOrder: Joi.number().integer().min(1).required(),
+      orcid: orcidValidation.allow('').optional(),
+      ...structuredAffiliationFields,
     })).min(1).required(),
     correspondingAuthor: commonValidation.email,
+    conflicts: conflictDeclarationValidation.optional(),
+    abstractReferences: abstractReferencesValidation.optional(),
   }),
 
   updateSubmission: Joi.object({
@@ -114,8 +187,46 @@ export const submissionValidation = {
       email: commonValidation.email,
       isCorresponding: Joi.boolean().required(),
       authorOrder: Joi.number().integer().min(1).required(),
+      orcid: orcidValidation.allow('').optional(),
+      ...structuredAffiliationFields,
     })).min(1).optional(),
     correspondingAuthor: commonValidation.email.optional(),
+    conflicts: conflictDeclarationValidation.optional(),
+    abstractReferences: abstractReferencesValidation.optional(),
+  }),
+
+  // Drafts are validated loosely; the full createSubmission rules apply on finalize
+  saveDraft: Joi.object({
+    title: Joi.string().max(500).allow('').optional(),
+    abstract: Joi.string().max(20000).allow('').optional(),
+    keywords: Joi.array().items(Joi.string().max(50).allow('')).max(10).optional(),
+    sessionType: enumValidation.sessionType.optional().allow(null),
+    presentationType: enumValidation.presentationType.optional().allow(null),
+    authors: Joi.array().items(Joi.object({
+      name: Joi.string().max(100).allow('').required(),
+      affiliation: Joi.string().max(255).allow('').required(),
+      email: Joi.string().max(255).allow('').required(),
+      isCorresponding: Joi.boolean().default(false),
+      authorOrder: Joi.number().integer().min(1).required(),
+      orcid: Joi.string().max(40).allow('').optional(),
+      ...structuredAffiliationFields,
+    })).max(20).optional(),
+    correspondingAuthor: Joi.string().max(255).allow('').optional(),
+    conflicts: conflictDeclarationValidation.optional(),
+    abstractReferences: abstractReferencesValidation.optional(),
+  }),
+
+  requestRevision: Joi.object({
+    revisionType: Joi.string().valid('minor_revision', 'major_revision').required(),
+    deadline: Joi.date().iso().greater('now').required(),
+    adminNotes: Joi.string().max(5000).optional(),
+  }),
+
+  submitRevision: Joi.object({
+    title: Joi.string().min(10).max(500).optional(),
+    abstract: markdownAbstractValidation.optional(),
+    keywords: Joi.array().items(Joi.string().min(2).max(50)).min(3).max(10).optional(),
+    responseLetter: Joi.string().min(20).max(20000).required(),
   }),
 };
 
@@ -137,6 +248,36 @@ export const reviewValidation = {
   assignReviewer: Joi.object({
     submissionId: commonValidation.uuid,
     reviewerId: commonValidation.uuid,
+    overrideConflict: Joi.object({
+      reason: Joi.string().trim().min(10).max(1000).required(),
+    }).optional(),
+  }),
+
+  autoAssign: Joi.object({
+    reviewersPerPaper: Joi.number().integer().min(1).max(MAX_REVIEWERS_PER_PAPER).default(3),
+    maxLoad: Joi.number().integer().min(1).max(MAX_REVIEWER_LOAD).default(8),
+    requireSessionExpertise: Joi.boolean().default(true),
+  }),
+
+  commitAutoAssignment: Joi.object({
+    reviewersPerPaper: Joi.number().integer().min(1).max(MAX_REVIEWERS_PER_PAPER).required(),
+    maxLoad: Joi.number().integer().min(1).max(MAX_REVIEWER_LOAD).required(),
+    assignments: Joi.array().items(Joi.object({
+      submissionId: commonValidation.uuid,
+      reviewerId: commonValidation.uuid,
+    })).min(1).max(5000).required(),
+  }),
+
+  saveRubric: Joi.object({
+    sessionType: Joi.string().pattern(TRACK_CODE_PATTERN).allow(null).optional(),
+    name: Joi.string().trim().min(1).max(255).required(),
+    criteria: Joi.array().items(Joi.object({
+      key: Joi.string().pattern(RUBRIC_CRITERION_KEY_PATTERN).required()
+        .messages({ 'string.pattern.base': 'Criterion keys must be lowercase letters, digits and underscores' }),
+      label: Joi.string().trim().min(1).max(100).required(),
+      description: Joi.string().trim().max(500).allow('').optional(),
+      weight: Joi.number().positive().max(100).required(),
+    })).min(1).max(MAX_RUBRIC_CRITERIA).unique('key').required(),
   }),
 };
 
@@ -193,10 +334,162 @@ export const conferenceValidation = {
     venue: commonValidation.requiredText.optional(),
     registrationDeadline: commonValidation.date.optional(),
     submissionDeadline: commonValidation.date.optional(),
+    submissionGraceMinutes: Joi.number().integer().min(0).max(10080).optional(),
     isActive: Joi.boolean().optional(),
+    reviewMode: enumValidation.reviewMode.optional(),
+  }),
+
+  cloneConference: Joi.object({
+    name: Joi.string().min(5).max(255).required(),
+    description: commonValidation.optionalText,
+    venue: commonValidation.requiredText.optional(),
+    dateOffsetDays: Joi.number().integer().min(-MAX_CLONE_OFFSET_DAYS).max(MAX_CLONE_OFFSET_DAYS).required(),
+    dryRun: Joi.boolean().default(false),
+  }),
+
+  emailSettings: Joi.object({
+    fromName: Joi.string().max(255).allow('').optional(),
+    replyTo: Joi.string().email().allow('').optional(),
+  }),
+};
+
+// Deadline extension validation schemas
+export const deadlineExtensionValidation = {
+  createExtension: Joi.object({
+    userId: Joi.string().uuid().optional(),
+    submissionId: Joi.string().uuid().optional(),
+    extendedUntil: Joi.date().iso().greater('now').required(),
+    reason: Joi.string().min(5).max(1000).required(),
+  }).xor('userId', 'submissionId'),
+};
+
+// Submission withdrawal validation schemas
+export const withdrawalValidation = {
+  requestWithdrawal: Joi.object({
+    reason: Joi.string().min(10).max(1000).required(),
+  }),
+
+  reviewWithdrawal: Joi.object({
+    decision: Joi.string().valid('confirmed', 'rejected').required(),
+    adminNotes: Joi.string().max(1000).allow('').optional(),
+  }),
+};
+
+// Presentation type reassignment schemas (committee proposal, author consent)
+export const presentationProposalValidation = {
+  createProposal: Joi.object({
+    proposedType: Joi.string().valid('oral', 'poster').required(),
+    adminNotes: Joi.string().max(1000).allow('').optional(),
+  }),
+
+  respondProposal: Joi.object({
+    decision: Joi.string().valid('accept', 'decline').required(),
+    comment: Joi.string().max(1000).allow('').when('decision', {
+      is: 'decline',
+      then: Joi.string().min(5).required(),
+    }),
+  }),
+};
+
+// Program committee bulk decision schemas
+const decisionCriteriaSchema = Joi.object({
+  sessionTypes: Joi.array().items(enumValidation.sessionType).optional(),
+  statuses: Joi.array().items(Joi.string().valid('submitted', 'under_review', 'revision_requested', 'revised')).optional(),
+  minAverageScore: Joi.number().min(1).max(10).optional(),
+  maxAverageScore: Joi.number().min(1).max(10).when('minAverageScore', {
+    is: Joi.exist(),
+    then: Joi.number().min(Joi.ref('minAverageScore')),
+  }).optional(),
+  minCompletedReviews: Joi.number().integer().min(0).optional(),
+  consensus: Joi.array().items(Joi.string().valid('accept', 'reject', 'revision', 'split', 'none')).optional(),
+});
+
+export const decisionValidation = {
+  criteria: decisionCriteriaSchema,
+
+  createBatch: Joi.object({
+    submissionIds: Joi.array().items(Joi.string().uuid()).min(1).max(1000).unique().required(),
+    decision: Joi.string().valid('accepted', 'rejected').required(),
+    adminNotes: Joi.string().max(2000).allow('').optional(),
+    criteria: decisionCriteriaSchema.optional(),
+  }),
+};
+
+// Supplementary submission file schemas (slot rules decide which visibilities apply)
+export const submissionFileValidation = {
+  updateFile: Joi.object({
+    visibility: Joi.string().valid('reviewers', 'public', 'organizers').optional(),
+    description: Joi.string().max(500).allow('').optional(),
+  }).min(1),
+
+  abstractFigureCaption: Joi.object({
+    caption: Joi.string().max(ABSTRACT_FIGURE_RULES.maxCaptionLength).allow('').required(),
   }),
 };
 
+// Organization validation schemas (admin-curated affiliation list)
+export const organizationValidation = {
+  createOrganization: Joi.object({
+    name: Joi.string().min(2).max(255).required(),
+    shortName: Joi.string().max(50).allow('').optional(),
+    aliases: Joi.array().items(Joi.string().min(1).max(255)).max(20).optional(),
+    city: Joi.string().max(100).allow('').optional(),
+    country: Joi.string().max(100).allow('').optional(),
+  }),
+
+  updateOrganization: Joi.object({
+    name: Joi.string().min(2).max(255).optional(),
+    shortName: Joi.string().max(50).allow('').optional(),
+    aliases: Joi.array().items(Joi.string().min(1).max(255)).max(20).optional(),
+    city: Joi.string().max(100).allow('').optional(),
+    country: Joi.string().max(100).allow('').optional(),
+  }).min(1),
+};
+
+// Session policy validation; policies stay within the global submission limits
+export const sessionPolicyValidation = {
+  updateSessionPolicy: Joi.object({
+    minAbstractWords: Joi.number().integer().min(0).max(GLOBAL_SUBMISSION_LIMITS.maxAbstractWords).optional(),
+    maxAbstractWords: Joi.number().integer().min(1).max(GLOBAL_SUBMISSION_LIMITS.maxAbstractWords).optional(),
+    minKeywords: Joi.number().integer().min(GLOBAL_SUBMISSION_LIMITS.minKeywords).max(GLOBAL_SUBMISSION_LIMITS.maxKeywords).optional(),
+    maxKeywords: Joi.number().integer().min(GLOBAL_SUBMISSION_LIMITS.minKeywords).max(GLOBAL_SUBMISSION_LIMITS.maxKeywords).optional(),
+    allowedPresentationTypes: Joi.array().items(Joi.string().valid('oral', 'poster')).min(1).unique().optional(),
+  }).min(1),
+};
+
+// Track catalogue schemas
+const trackChairSchema = Joi.object({
+  name: Joi.string().max(200).allow('').required(),
+  email: Joi.string().email().allow('').optional(),
+  affiliation: Joi.string().max(300).allow('').optional(),
+});
+
+const trackFields = {
+  name: Joi.string().trim().min(2).max(255),
+  description: Joi.string().max(2000).allow('').optional(),
+  guidelines: Joi.string().max(5000).allow('').optional(),
+  color: Joi.string().pattern(TRACK_COLOR_PATTERN).optional()
+    .messages({ 'string.pattern.base': 'Color must be a hex color such as #1976d2' }),
+  chairs: Joi.array().items(trackChairSchema).max(MAX_TRACK_CHAIRS).optional()
+    .custom(value => normalizeTrackChairs(value)),
+  sortOrder: Joi.number().integer().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+};
+
+export const trackValidation = {
+  createTrack: Joi.object({
+    ...trackFields,
+    code: enumValidation.sessionType,
+    name: trackFields.name.required(),
+  }),
+
+  updateTrack: Joi.object({
+    ...trackFields,
+    code: enumValidation.sessionType.optional(),
+    name: trackFields.name.optional(),
+  }).min(1),
+};
+
 // Pagination validation
 export const paginationValidation = Joi.object({
   page: Joi.number().integer().min(1).default(1),
@@ -205,6 +498,18 @@ export const paginationValidation = Joi.object({
   sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
 });
 
+// Submission search query (list filters are comma-separated)
+export const submissionSearchValidation = Joi.object({
+  q: Joi.string().max(200).allow('').optional(),
+  sessionType: Joi.string().max(100).optional(),
+  status: Joi.string().max(200).optional(),
+  presentationType: Joi.string().max(50).optional(),
+  keywords: Joi.string().max(1000).optional(),
+  sort: Joi.string().valid('relevance', 'newest', 'title').default('relevance'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
 // File upload validation
 export const fileValidation = {
   manuscript: {
@@ -215,6 +520,10 @@ export const fileValidation = {
     allowedTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg'],
     maxSize: 5 * 1024 * 1024, // 5MB
   },
+  abstractFigure: {
+    allowedTypes: ABSTRACT_FIGURE_RULES.mimeTypes,
+    maxSize: ABSTRACT_FIGURE_RULES.maxSize,
+  },
 };
 
 // Validation helper functions
@@ -352,4 +661,4 @@ export function validatePaymentData(data: any): ValidationResult {
   }
   
   return { isValid: true };
-}
\ No newline at end of file
+}
@@ -1,13 +1,15 @@
 import { Router } from 'express';
 import { AbstractBookController } from '../controllers/AbstractBookController.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
 
 const router = Router();
 const abstractBookController = new AbstractBookController();
 
-// All routes require admin authentication
+// All routes require admin authentication and work on the selected edition
 router.use(authenticate);
 router.use(requireAdmin);
+router.use(resolveConference);
 
 // Preview abstract book data (metadata and summary)
 router.get('/preview', abstractBookController.previewAbstractBook.bind(abstractBookController));
@@ -21,6 +23,9 @@ router.post('/save', abstractBookController.saveAbstractBook.bind(abstractBookCo
 // Get default template for customization
 router.get('/template/default', abstractBookController.getDefaultTemplate.bind(abstractBookController));
 
+// Save the template as this edition's default
+router.put('/template', abstractBookController.saveTemplate.bind(abstractBookController));
+
 // Get available filter options
 router.get('/filters', abstractBookController.getFilterOptions.bind(abstractBookController));
 
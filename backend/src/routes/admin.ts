@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/AdminController.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
 
 const router = Router();
 
@@ -8,6 +9,9 @@ const router = Router();
 router.use(authenticate);
 router.use(requireAdmin);
 
+// Admin routes work on the edition picked with X-Conference-Id, the current one by default
+router.use(resolveConference);
+
 // User management routes
 router.get('/users', AdminController.getAllUsers);
 router.get('/users/statistics', AdminController.getUserStatistics);
@@ -21,6 +25,32 @@ router.get('/reviews/progress', AdminController.getReviewProgress);
 router.post('/reviews/send-reminders', AdminController.sendReviewReminders);
 router.get('/monitoring/dashboard', AdminController.getMonitoringDashboard);
 
+// Near-duplicate detection routes
+router.get('/submissions/similarity', AdminController.getSimilarityFlags);
+router.post('/submissions/similarity/scan', AdminController.scanSimilarity);
+router.get('/submissions/similarity/diff', AdminController.getSimilarityDiff);
+router.patch('/submissions/similarity/:flagId', AdminController.reviewSimilarityFlag);
+
+// Submission withdrawal requests
+router.get('/submissions/withdrawals', AdminController.getWithdrawals);
+router.patch('/submissions/withdrawals/:withdrawalId', AdminController.reviewWithdrawal);
+
+// Presentation type reassignment proposals
+router.get('/submissions/presentation-proposals', AdminController.getPresentationProposals);
+router.post('/submissions/:submissionId/presentation-proposal', AdminController.proposePresentationType);
+
+// Program committee bulk decisions
+router.post('/decisions/candidates', AdminController.getDecisionCandidates);
+router.get('/decisions/batches', AdminController.getDecisionBatches);
+router.post('/decisions/batches', AdminController.createDecisionBatch);
+router.get('/decisions/batches/:batchId/preview', AdminController.previewDecisionBatch);
+router.post('/decisions/batches/:batchId/release', AdminController.releaseDecisionBatch);
+
+// Submission deadline extensions
+router.get('/deadlines/extensions', AdminController.getDeadlineExtensions);
+router.post('/deadlines/extensions', AdminController.grantDeadlineExtension);
+router.delete('/deadlines/extensions/:extensionId', AdminController.revokeDeadlineExtension);
+
 // System configuration and maintenance routes
 router.get('/system/health', AdminController.getSystemHealth);
 router.get('/system/config', AdminController.getSystemConfig);
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/OrganizationController.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { validateRequest, commonValidationSchemas } from '../middleware/validation.js';
+import { organizationValidation } from '../models/validation.js';
+
+const router = Router();
+
+// Affiliation picker for authors and users
+router.get('/', authenticate, OrganizationController.getOrganizations);
+
+// Admin-only routes for curating the organization list
+router.post('/', 
+  authenticate, 
+  requireAdmin, 
+  validateRequest(organizationValidation.createOrganization), 
+  OrganizationController.createOrganization
+);
+router.put('/:id', 
+  authenticate, 
+  requireAdmin, 
+  validateRequest(commonValidationSchemas.uuid, 'params'), 
+  validateRequest(organizationValidation.updateOrganization), 
+  OrganizationController.updateOrganization
+);
+router.delete('/:id', 
+  authenticate, 
+  requireAdmin, 
+  validateRequest(commonValidationSchemas.uuid, 'params'), 
+  OrganizationController.deleteOrganization
+);
+
+export default router;
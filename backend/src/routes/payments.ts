@@ -1,6 +1,7 @@
 import express from 'express';
 import { PaymentController } from '../controllers/PaymentController.js';
 import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
 import { FileService } from '../services/FileService.js';
 import { 
   validateRequest, 
@@ -31,14 +32,15 @@ router.use(limitRequestSize(5 * 1024 * 1024)); // 5MB limit for payment proof up
 
 // User routes
 // Get payment information and instructions for authenticated user
-router.get('/info', authenticate, PaymentController.getPaymentInfo);
+router.get('/info', authenticate, resolveConference, PaymentController.getPaymentInfo);
 
 // Get payment status and history for authenticated user
-router.get('/status', authenticate, PaymentController.getPaymentStatus);
+router.get('/status', authenticate, resolveConference, PaymentController.getPaymentStatus);
 
 // Submit proof of payment with file upload
 router.post('/submit-proof', 
   authenticate,
+  resolveConference,
   rateLimitConfigs.fileUpload,
   fileService.getPaymentProofMulterConfig().single('proofFile'),
   validateFileUpload('paymentProof'),
@@ -57,6 +59,7 @@ router.get('/proof/:paymentId/download',
 router.get('/admin/pending', 
   authenticate, 
   requireAdmin,
+  resolveConference,
   validateRequest(paginationValidation, 'query'),
   PaymentController.getPendingPayments
 );
@@ -65,6 +68,7 @@ router.get('/admin/pending',
 router.get('/admin/all', 
   authenticate, 
   requireAdmin,
+  resolveConference,
   validateRequest(paginationValidation, 'query'),
   PaymentController.getAllPayments
 );
@@ -72,7 +76,8 @@ router.get('/admin/all',
 // Get payment statistics
 router.get('/admin/statistics', 
   authenticate, 
-  requireAdmin, 
+  requireAdmin,
+  resolveConference,
   PaymentController.getPaymentStatistics
 );
 
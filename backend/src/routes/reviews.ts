@@ -1,17 +1,33 @@
 import express from 'express';
 import { ReviewController } from '../controllers/ReviewController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
+import { validateRequest } from '../middleware/validation.js';
+import { reviewValidation } from '../models/validation.js';
 
 const router = express.Router();
 
 // Admin routes for reviewer assignment
 router.get('/reviewers', authenticate, authorize('admin', 'organizer'), ReviewController.getReviewers);
-router.get('/submissions/available', authenticate, authorize('admin', 'organizer'), ReviewController.getSubmissionsForAssignment);
-router.post('/assign', authenticate, authorize('admin', 'organizer'), ReviewController.assignReviewer);
-router.get('/assignments', authenticate, authorize('admin', 'organizer'), ReviewController.getAllAssignments);
+router.get('/submissions/available', authenticate, authorize('admin', 'organizer'), resolveConference, ReviewController.getSubmissionsForAssignment);
+router.post('/assign', authenticate, authorize('admin', 'organizer'), validateRequest(reviewValidation.assignReviewer), ReviewController.assignReviewer);
+router.get('/assignments', authenticate, authorize('admin', 'organizer'), resolveConference, ReviewController.getAllAssignments);
 router.delete('/assignments/:reviewId', authenticate, authorize('admin', 'organizer'), ReviewController.removeAssignment);
 router.get('/suggestions/:submissionId', authenticate, authorize('admin', 'organizer'), ReviewController.getAssignmentSuggestions);
 
+// Text affinity of reviewer profiles to the submissions of the managed edition
+router.get('/affinity', authenticate, authorize('admin', 'organizer'), resolveConference, ReviewController.getAffinityMatrix);
+router.post('/affinity/recompute', authenticate, authorize('admin'), resolveConference, ReviewController.recomputeAffinity);
+
+// Batch assignment of the managed edition: compute a proposal, then store it as edited
+router.post('/auto-assign/proposal', authenticate, authorize('admin'), resolveConference, validateRequest(reviewValidation.autoAssign), ReviewController.proposeAutoAssignment);
+router.post('/auto-assign/commit', authenticate, authorize('admin'), resolveConference, validateRequest(reviewValidation.commitAutoAssignment), ReviewController.commitAutoAssignment);
+
+// Admin routes for the review rubrics of the managed edition
+router.get('/rubrics', authenticate, authorize('admin'), resolveConference, ReviewController.getRubrics);
+router.put('/rubrics', authenticate, authorize('admin'), resolveConference, ReviewController.saveRubric);
+router.delete('/rubrics/:rubricId', authenticate, authorize('admin'), ReviewController.deleteRubric);
+
 // Reviewer routes
 router.get('/reviewer/:reviewerId/assignments', authenticate, authorize('reviewer', 'admin', 'organizer'), ReviewController.getReviewerAssignments);
 
@@ -20,7 +36,7 @@ router.get('/:reviewId', authenticate, authorize('reviewer', 'admin', 'organizer
 router.put('/:reviewId', authenticate, authorize('reviewer', 'admin', 'organizer'), ReviewController.submitReview);
 
 // Admin monitoring routes
-router.get('/progress/overview', authenticate, authorize('admin', 'organizer'), ReviewController.getReviewProgress);
+router.get('/progress/overview', authenticate, authorize('admin', 'organizer'), resolveConference, ReviewController.getReviewProgress);
 router.get('/submission/:submissionId/reviews', authenticate, authorize('admin', 'organizer'), ReviewController.getSubmissionReviews);
 
 export default router;
\ No newline at end of file
@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { SessionController } from '../controllers/SessionController.js';
-import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { authenticate, optionalAuth, requireAdmin } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
 
 const router = Router();
 
+// Submission policies are public so the submission form can apply them; admins may read other editions
+router.get('/policies', optionalAuth, resolveConference, SessionController.getSessionPolicies);
+router.put('/policies/:sessionType', authenticate, requireAdmin, resolveConference, SessionController.updateSessionPolicy);
+
 // Admin-only routes for session management
 router.post('/conference/:conferenceId', authenticate, requireAdmin, SessionController.createSession);
 router.put('/:id', authenticate, requireAdmin, SessionController.updateSession);
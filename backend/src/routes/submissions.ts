@@ -1,6 +1,7 @@
-import express from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import { SubmissionController } from '../controllers/SubmissionController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
+import { resolveConference } from '../middleware/conference.js';
 import { 
   validateRequest, 
   rateLimitConfigs, 
@@ -10,28 +11,92 @@ import {
   validateFileUpload,
   commonValidationSchemas
 } from '../middleware/validation.js';
-import { submissionValidation, paginationValidation } from '../models/validation.js';
+import {
+  submissionValidation,
+  paginationValidation,
+  withdrawalValidation,
+  presentationProposalValidation,
+  submissionFileValidation,
+  submissionSearchValidation,
+  enumValidation
+} from '../models/validation.js';
+import { SUBMISSION_FILE_SLOTS } from '../utils/submissionFiles.js';
+import { SubmissionFileSlot } from '../types/submission.js';
 import Joi from 'joi';
 
 const router = express.Router();
 const submissionController = new SubmissionController();
 
+const MB = 1024 * 1024;
+const limitSubmissionRequestSize = limitRequestSize(10 * MB); // 10MB limit for requests and manuscript uploads
+
+// File slot uploads are checked against their slot's own limit instead of the general one
+const isFileSlotUpload = (req: Request): boolean =>
+  req.method === 'POST' && /^\/[^/]+\/files\/[^/]+\/?$/.test(req.path);
+
+const limitFileSlotRequestSize = (req: Request, res: Response, next: NextFunction) =>
+  limitRequestSize(SUBMISSION_FILE_SLOTS[req.params.slot as SubmissionFileSlot].maxSize + MB)(req, res, next); // Plus multipart overhead
+
 // Validation schemas for submission endpoints
 const submissionValidationSchemas = {
   create: submissionValidation.createSubmission,
   update: submissionValidation.updateSubmission,
+  saveDraft: submissionValidation.saveDraft,
   updateStatus: Joi.object({
-    status: Joi.string().valid('submitted', 'under_review', 'accepted', 'rejected').required(),
+    status: Joi.string().valid('under_review', 'accepted', 'rejected').required(),
+    reason: Joi.string().max(500).optional(),
     adminNotes: Joi.string().max(1000).optional(),
+    proposedPresentationType: Joi.string().valid('oral', 'poster').optional(),
   }),
+  requestRevision: submissionValidation.requestRevision,
+  submitRevision: submissionValidation.submitRevision,
+  withdraw: withdrawalValidation.requestWithdrawal,
+  respondPresentationProposal: presentationProposalValidation.respondProposal,
   sessionType: Joi.object({
-    sessionType: Joi.string().valid('CHE', 'CSE', 'BIO', 'MST', 'PFD').required(),
+    sessionType: enumValidation.sessionType,
+  }),
+  authorParams: Joi.object({
+    id: Joi.string().uuid().required(),
+    authorId: Joi.string().uuid().required(),
+  }),
+  authorPermissions: Joi.object({
+    canEdit: Joi.boolean().required(),
+  }),
+  acceptAuthorInvite: Joi.object({
+    token: Joi.string().required(),
+  }),
+  manuscriptParams: Joi.object({
+    submissionId: Joi.string().uuid().required(),
   }),
+  manuscriptVersionParams: Joi.object({
+    submissionId: Joi.string().uuid().required(),
+    versionId: Joi.string().uuid().required(),
+  }),
+  // The manuscript slot has its own versioned endpoints
+  fileSlotParams: Joi.object({
+    id: Joi.string().uuid().required(),
+    slot: Joi.string().valid('poster', 'slides', 'supplementary').required(),
+  }),
+  fileParams: Joi.object({
+    id: Joi.string().uuid().required(),
+    fileId: Joi.string().uuid().required(),
+  }),
+  publicFileParams: Joi.object({
+    fileId: Joi.string().uuid().required(),
+  }),
+  updateFile: submissionFileValidation.updateFile,
+  abstractFigureCaption: submissionFileValidation.abstractFigureCaption,
 };
 
 // Apply security middleware to all routes
 router.use(securityMiddleware());
-router.use(limitRequestSize(10 * 1024 * 1024)); // 10MB limit for file uploads
+router.use((req, res, next) => isFileSlotUpload(req) ? next() : limitSubmissionRequestSize(req, res, next));
+
+// Public route - download a file its authors shared publicly (e.g. a poster)
+router.get('/files/:fileId/public', 
+  validateRequest(submissionValidationSchemas.publicFileParams, 'params'),
+  submissionController.downloadPublicSubmissionFile.bind(submissionController)
+);
 
 // Protected routes - require authentication
 router.use(authenticate);
@@ -44,19 +109,56 @@ router.post('/',
   submissionController.createSubmission.bind(submissionController)
 );
 
-// Get user's submissions
+// Start a draft submission (no deadline check until finalized)
+router.post('/drafts', 
+  validateContentType(['application/json']),
+  validateRequest(submissionValidationSchemas.saveDraft),
+  submissionController.createDraft.bind(submissionController)
+);
+
+// Autosave a draft submission (owner only)
+router.put('/:id/draft', 
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.saveDraft),
+  submissionController.saveDraft.bind(submissionController)
+);
+
+// Finalize a draft into a submitted abstract (owner only)
+router.post('/:id/finalize', 
+  rateLimitConfigs.submission,
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.finalizeSubmission.bind(submissionController)
+);
+
+// Accept a co-author invitation and link the submission to the current account
+router.post('/author-invites/accept', 
+  validateContentType(['application/json']),
+  validateRequest(submissionValidationSchemas.acceptAuthorInvite),
+  submissionController.acceptAuthorInvite.bind(submissionController)
+);
+
+// Get user's submissions (own and co-authored)
 router.get('/my-submissions', 
   validateRequest(paginationValidation, 'query'),
   submissionController.getUserSubmissions.bind(submissionController)
 );
 
-// Get specific submission by ID (user must own it or be admin/reviewer)
+// Full-text search with facets and highlighted snippets (admin/organizer/reviewer)
+router.get('/search', 
+  authorize('admin', 'organizer', 'reviewer'),
+  resolveConference,
+  validateRequest(submissionSearchValidation, 'query'),
+  submissionController.searchSubmissions.bind(submissionController)
+);
+
+// Get specific submission by ID (user must own or co-author it, or be admin/reviewer)
 router.get('/:id', 
   validateRequest(commonValidationSchemas.uuid, 'params'),
   submissionController.getSubmissionById.bind(submissionController)
 );
 
-// Update submission (user must own it and submission must be editable)
+// Update submission (user must own it or hold edit rights, and submission must be editable)
 router.put('/:id', 
   rateLimitConfigs.submission,
   validateContentType(['application/json']),
@@ -65,15 +167,45 @@ router.put('/:id',
   submissionController.updateSubmission.bind(submissionController)
 );
 
-// Delete submission (user must own it and submission must be deletable)
+// Delete a draft submission (owner only; finalized submissions are withdrawn instead)
 router.delete('/:id', 
   validateRequest(commonValidationSchemas.uuid, 'params'),
   submissionController.deleteSubmission.bind(submissionController)
 );
 
+// Withdraw a submission with a reason (submitting user or corresponding author);
+// needs admin confirmation once review has started
+router.post('/:id/withdraw', 
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.withdraw),
+  submissionController.withdrawSubmission.bind(submissionController)
+);
+
+// Get the latest withdrawal request for a submission
+router.get('/:id/withdrawal', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getWithdrawal.bind(submissionController)
+);
+
+// Get the latest presentation type proposal for a submission
+router.get('/:id/presentation-proposal', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getPresentationProposal.bind(submissionController)
+);
+
+// Accept or decline the committee's proposed presentation type (submitting user or corresponding author)
+router.post('/:id/presentation-proposal/respond', 
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.respondPresentationProposal),
+  submissionController.respondToPresentationProposal.bind(submissionController)
+);
+
 // Admin/Reviewer routes
 router.get('/', 
   authorize('admin', 'reviewer'),
+  resolveConference,
   validateRequest(paginationValidation, 'query'),
   submissionController.getAllSubmissions.bind(submissionController)
 );
@@ -87,39 +219,158 @@ router.patch('/:id/status',
   submissionController.updateSubmissionStatus.bind(submissionController)
 );
 
+// Request a minor/major revision after a review round (admin only)
+router.post('/:id/revision-request', 
+  authorize('admin'),
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.requestRevision),
+  submissionController.requestRevision.bind(submissionController)
+);
+
+// Submit a revision with a response to reviewers (owner only)
+router.post('/:id/revisions', 
+  rateLimitConfigs.submission,
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.submitRevision),
+  submissionController.submitRevision.bind(submissionController)
+);
+
+// Get revision rounds for a submission
+router.get('/:id/revisions', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getRevisions.bind(submissionController)
+);
+
+// Get status change timeline for a submission
+router.get('/:id/history', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getStatusHistory.bind(submissionController)
+);
+
+// Grant or revoke a co-author's edit rights (submitting user or corresponding author)
+router.patch('/:id/authors/:authorId/permissions', 
+  validateContentType(['application/json']),
+  validateRequest(submissionValidationSchemas.authorParams, 'params'),
+  validateRequest(submissionValidationSchemas.authorPermissions),
+  submissionController.setAuthorEditPermission.bind(submissionController)
+);
+
+// Invite a co-author to link the submission to their account
+router.post('/:id/authors/:authorId/invite', 
+  rateLimitConfigs.submission,
+  validateRequest(submissionValidationSchemas.authorParams, 'params'),
+  submissionController.inviteAuthor.bind(submissionController)
+);
+
 // Get submissions by session type (admin/reviewer)
 router.get('/session/:sessionType', 
   authorize('admin', 'reviewer'),
+  resolveConference,
   validateRequest(submissionValidationSchemas.sessionType, 'params'),
   validateRequest(paginationValidation, 'query'),
   submissionController.getSubmissionsBySession.bind(submissionController)
 );
 
 // Get submission statistics (admin only)
-router.get('/stats/overview', authorize('admin'), submissionController.getSubmissionStatistics.bind(submissionController));
+router.get('/stats/overview', authorize('admin'), resolveConference, submissionController.getSubmissionStatistics.bind(submissionController));
 
 // Manuscript management routes
 router.post('/:submissionId/manuscript', 
   rateLimitConfigs.fileUpload,
-  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.manuscriptParams, 'params'),
   submissionController.getUploadMiddleware(), 
   validateFileUpload('manuscript'),
   submissionController.uploadManuscript.bind(submissionController)
 );
 
 router.get('/:submissionId/manuscript/info', 
-  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.manuscriptParams, 'params'),
   submissionController.getManuscriptInfo.bind(submissionController)
 );
 
 router.get('/:submissionId/manuscript/download', 
-  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.manuscriptParams, 'params'),
   submissionController.downloadManuscript.bind(submissionController)
 );
 
 router.delete('/:submissionId/manuscript', 
-  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.manuscriptParams, 'params'),
   submissionController.deleteManuscript.bind(submissionController)
 );
 
+// Manuscript version history
+router.get('/:submissionId/manuscript/versions', 
+  validateRequest(submissionValidationSchemas.manuscriptParams, 'params'),
+  submissionController.getManuscriptVersions.bind(submissionController)
+);
+
+router.get('/:submissionId/manuscript/versions/:versionId/download', 
+  validateRequest(submissionValidationSchemas.manuscriptVersionParams, 'params'),
+  submissionController.downloadManuscriptVersion.bind(submissionController)
+);
+
+router.patch('/:submissionId/manuscript/versions/:versionId/camera-ready', 
+  validateRequest(submissionValidationSchemas.manuscriptVersionParams, 'params'),
+  submissionController.markCameraReady.bind(submissionController)
+);
+
+// Supplementary files (poster, slides, supplementary material) with per-file visibility
+router.get('/:id/files', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getSubmissionFiles.bind(submissionController)
+);
+
+router.post('/:id/files/:slot', 
+  rateLimitConfigs.fileUpload,
+  validateRequest(submissionValidationSchemas.fileSlotParams, 'params'),
+  limitFileSlotRequestSize,
+  submissionController.getSubmissionFileUploadMiddleware(),
+  submissionController.uploadSubmissionFile.bind(submissionController)
+);
+
+router.patch('/:id/files/:fileId', 
+  validateContentType(['application/json']),
+  validateRequest(submissionValidationSchemas.fileParams, 'params'),
+  validateRequest(submissionValidationSchemas.updateFile),
+  submissionController.updateSubmissionFile.bind(submissionController)
+);
+
+router.delete('/:id/files/:fileId', 
+  validateRequest(submissionValidationSchemas.fileParams, 'params'),
+  submissionController.deleteSubmissionFile.bind(submissionController)
+);
+
+router.get('/:id/files/:fileId/download', 
+  validateRequest(submissionValidationSchemas.fileParams, 'params'),
+  submissionController.downloadSubmissionFile.bind(submissionController)
+);
+
+// Abstract figure (one captioned PNG/JPEG image shown with the abstract)
+router.get('/:id/abstract-figure', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getAbstractFigure.bind(submissionController)
+);
+
+router.post('/:id/abstract-figure', 
+  rateLimitConfigs.fileUpload,
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.getAbstractFigureUploadMiddleware(),
+  validateFileUpload('abstractFigure'),
+  submissionController.uploadAbstractFigure.bind(submissionController)
+);
+
+router.patch('/:id/abstract-figure', 
+  validateContentType(['application/json']),
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  validateRequest(submissionValidationSchemas.abstractFigureCaption),
+  submissionController.updateAbstractFigureCaption.bind(submissionController)
+);
+
+router.delete('/:id/abstract-figure', 
+  validateRequest(commonValidationSchemas.uuid, 'params'),
+  submissionController.deleteAbstractFigure.bind(submissionController)
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { TrackController } from '../controllers/TrackController.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+// The catalogue is public so registration and submission forms can list the open tracks
+router.get('/', TrackController.getTracks);
+
+// Admin-only routes for the track catalogue
+router.get('/conference/:conferenceId', authenticate, requireAdmin, TrackController.getConferenceTracks);
+router.post('/conference/:conferenceId', authenticate, requireAdmin, TrackController.createTrack);
+router.put('/:id', authenticate, requireAdmin, TrackController.updateTrack);
+router.delete('/:id', authenticate, requireAdmin, TrackController.deleteTrack);
+
+export default router;
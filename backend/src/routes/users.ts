@@ -21,6 +21,21 @@ router.get('/session-types', UserController.getSessionTypes);
  */
 router.get('/preferences', authenticate, UserController.getPreferences);
 
+/**
+ * @route   GET /api/users/registrations
+ * @desc    Get the conference editions the user registered for
+ * @access  Private
+ */
+router.get('/registrations', authenticate, UserController.getRegistrations);
+
+/**
+ * @route   POST /api/users/registrations
+ * @desc    Register for the current conference edition
+ * @access  Private
+ * @body    { participantType, selectedSessions: SessionType[] }
+ */
+router.post('/registrations', authenticate, UserController.registerForConference);
+
 /**
  * @route   PUT /api/users/profile
  * @desc    Update user profile
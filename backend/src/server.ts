@@ -15,6 +15,8 @@ import authRoutes from './routes/auth.js'
 import userRoutes from './routes/users.js'
 import conferenceRoutes from './routes/conference.js'
 import sessionRoutes from './routes/sessions.js'
+import trackRoutes from './routes/tracks.js'
+import organizationRoutes from './routes/organizations.js'
 import submissionRoutes from './routes/submissions.js'
 import reviewRoutes from './routes/reviews.js'
 import paymentRoutes from './routes/payments.js'
@@ -87,6 +89,8 @@ app.use('/api/auth', bruteForceProtection(), authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/conference', conferenceRoutes);
 app.use('/api/sessions', sessionRoutes);
+app.use('/api/tracks', trackRoutes);
+app.use('/api/organizations', organizationRoutes);
 app.use('/api/submissions', fileUploadSecurity, submissionRoutes);
 app.use('/api/reviews', reviewRoutes);
 app.use('/api/payments', fileUploadSecurity, paymentRoutes);
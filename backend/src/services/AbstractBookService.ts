@@ -1,10 +1,35 @@
 import { SubmissionRepository } from '../models/SubmissionRepository.js';
 import { ConferenceRepository } from '../models/ConferenceRepository.js';
+import { TrackRepository } from '../models/TrackRepository.js';
 import { SubmissionResponse, AuthorResponse } from '../types/submission.js';
 import { SessionType, PresentationType, SubmissionStatus } from '../types/database.js';
-import { marked } from 'marked';
+import { numberAffiliations } from '../utils/affiliations.js';
+import { markdownToHtml } from '../utils/markdown.js';
+import { formatReference, referencesToHtml } from '../utils/abstractReferences.js';
+import { fitImage, readImageDimensions } from '../utils/abstractFigures.js';
+import { getTrackName } from '../utils/tracks.js';
+import { FileService } from './FileService.js';
 import puppeteer from 'puppeteer';
-import { Document, Packer, Paragraph, TextRun, AlignmentType, BorderStyle, PageBreak } from 'docx';
+import { JSDOM } from 'jsdom';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  TextRun,
+  AlignmentType,
+  BorderStyle,
+  PageBreak,
+  ImageRun,
+  Math as DocxMath,
+  MathComponent,
+  MathRun,
+  MathFraction,
+  MathSuperScript,
+  MathSubScript,
+  MathSubSuperScript,
+  MathRadical
+} from 'docx';
 
 export interface AbstractBookFilters {
   sessionTypes?: SessionType[];
@@ -47,6 +72,12 @@ export interface AbstractBookEntry {
   formattedAffiliations: string;
   sessionName: string;
   presentationTypeLabel: string;
+  // Abstract figure read from storage, embedded in every output format
+  figure?: {
+    data: Buffer;
+    mimeType: string;
+    caption?: string;
+  };
 }
 
 export interface AbstractBookData {
@@ -71,16 +102,19 @@ export interface AbstractBookData {
 
 export class AbstractBookService {
   private conferenceRepository: ConferenceRepository;
+  private fileService: FileService;
 
   constructor() {
     this.conferenceRepository = new ConferenceRepository();
+    this.fileService = new FileService();
   }
 
   /**
-   * Collect and filter abstracts for the abstract book
+   * Collect and filter abstracts for the abstract book of an edition, the current one by default
    */
-  async collectAbstracts(filters: AbstractBookFilters = {}): Promise<AbstractBookData> {
+  async collectAbstracts(filters: AbstractBookFilters = {}, conferenceId?: string): Promise<AbstractBookData> {
     try {
+      const editionId = conferenceId || await ConferenceRepository.findCurrentId();
       // Get all accepted submissions by default, or filter by status
       const status = filters.status || 'accepted';
       let submissions: SubmissionResponse[] = [];
@@ -89,14 +123,17 @@ export class AbstractBookService {
       if (filters.sessionTypes && filters.sessionTypes.length > 0) {
         // Get submissions for specific session types
         for (const sessionType of filters.sessionTypes) {
-          const sessionSubmissions = await SubmissionRepository.findBySessionType(sessionType);
+          const sessionSubmissions = await SubmissionRepository.findBySessionType(sessionType, editionId || undefined);
           submissions.push(...sessionSubmissions.filter(s => s.status === status));
         }
       } else {
         // Get all submissions with the specified status
-        submissions = await SubmissionRepository.findByStatus(status);
+        submissions = await SubmissionRepository.findByStatus(status, editionId || undefined);
       }
 
+      // Withdrawn papers stay in the database for reporting but never reach the book
+      submissions = submissions.filter(s => s.status !== 'withdrawn');
+
       // Filter by presentation type if specified
       if (filters.presentationTypes && filters.presentationTypes.length > 0) {
         submissions = submissions.filter(s => 
@@ -104,29 +141,39 @@ export class AbstractBookService {
         );
       }
 
-      // Sort submissions by session type, then by title
+      // Sessions follow the order of the track catalogue; tracks closed since still print
+      const tracks = editionId ? await TrackRepository.findByConference(editionId, true) : [];
+      const sessionOrder = tracks.map(track => track.code);
+      for (const submission of submissions) {
+        if (!sessionOrder.includes(submission.sessionType)) {
+          sessionOrder.push(submission.sessionType);
+        }
+      }
+
+      // Sort submissions by session, then by title
       submissions.sort((a, b) => {
         if (a.sessionType !== b.sessionType) {
-          return a.sessionType.localeCompare(b.sessionType);
+          return sessionOrder.indexOf(a.sessionType) - sessionOrder.indexOf(b.sessionType);
         }
         return a.title.localeCompare(b.title);
       });
 
       // Get conference information
-      const conference = await ConferenceRepository.findActiveConference();
+      const conference = editionId ? await ConferenceRepository.findById(editionId) : null;
       const conferenceTitle = conference?.name || 'International Conference';
 
       // Process submissions into abstract book entries
       const abstractEntries: AbstractBookEntry[] = [];
-      const sessionBreakdown: Record<SessionType, number> = {
-        CHE: 0, CSE: 0, BIO: 0, MST: 0, PFD: 0
-      };
+      const sessionBreakdown: Record<SessionType, number> = Object.fromEntries(
+        sessionOrder.map(sessionType => [sessionType, 0])
+      );
       const presentationBreakdown: Record<PresentationType, number> = {
         oral: 0, poster: 0
       };
 
       for (const submission of submissions) {
-        const entry = this.formatAbstractEntry(submission);
+        const entry = this.formatAbstractEntry(submission, getTrackName(tracks, submission.sessionType));
+        entry.figure = await this.loadFigure(submission);
         abstractEntries.push(entry);
         
         sessionBreakdown[submission.sessionType]++;
@@ -136,14 +183,14 @@ export class AbstractBookService {
       // Group abstracts by session
       const sections: { [sessionType: string]: { name: string; abstracts: AbstractBookEntry[] } } = {};
       
-      for (const sessionType of ['CHE', 'CSE', 'BIO', 'MST', 'PFD'] as SessionType[]) {
+      for (const sessionType of sessionOrder) {
         const sessionAbstracts = abstractEntries.filter(entry => 
           entry.submission.sessionType === sessionType
         );
         
         if (sessionAbstracts.length > 0) {
           sections[sessionType] = {
-            name: this.getSessionName(sessionType),
+            name: getTrackName(tracks, sessionType),
             abstracts: sessionAbstracts
           };
         }
@@ -184,84 +231,86 @@ export class AbstractBookService {
   /**
    * Format a submission into an abstract book entry
    */
-  private formatAbstractEntry(submission: SubmissionResponse): AbstractBookEntry {
+  private formatAbstractEntry(submission: SubmissionResponse, sessionName: string): AbstractBookEntry {
     // Format authors
     const sortedAuthors = submission.authors.sort((a, b) => a.authorOrder - b.authorOrder);
-    const formattedAuthors = this.formatAuthors(sortedAuthors);
-    const formattedAffiliations = this.formatAffiliations(sortedAuthors);
+    const { affiliations, authorAffiliations } = numberAffiliations(sortedAuthors);
+    const formattedAuthors = this.formatAuthors(sortedAuthors, authorAffiliations);
+    const formattedAffiliations = this.formatAffiliations(affiliations);
 
     return {
       submission,
       formattedAuthors,
       formattedAffiliations,
-      sessionName: this.getSessionName(submission.sessionType),
+      sessionName,
       presentationTypeLabel: submission.presentationType === 'oral' ? 'Oral Presentation' : 'Poster Presentation'
     };
   }
 
   /**
-   * Format authors for display
+   * Read a submission's abstract figure; a missing file leaves the abstract without it
+   */
+  private async loadFigure(submission: SubmissionResponse): Promise<AbstractBookEntry['figure']> {
+    if (!submission.abstractFigurePath || !submission.abstractFigureMimeType) {
+      return undefined;
+    }
+
+    const data = await this.fileService.readAbstractFigure(submission.abstractFigurePath);
+    if (!data) {
+      console.warn(`Abstract figure missing for submission ${submission.id}`);
+      return undefined;
+    }
+
+    return {
+      data,
+      mimeType: submission.abstractFigureMimeType,
+      caption: submission.abstractFigureCaption
+    };
+  }
+
+  /**
+   * Format authors for display, marking each with its affiliation number
    */
-  private formatAuthors(authors: AuthorResponse[]): string {
+  private formatAuthors(authors: AuthorResponse[], authorAffiliations: number[]): string {
     return authors.map((author, index) => {
       const name = author.name;
       const isCorresponding = author.isCorresponding;
-      const superscript = index + 1;
+      const superscript = authorAffiliations[index];
       
       return `${name}${superscript}${isCorresponding ? '*' : ''}`;
     }).join(', ');
   }
 
   /**
-   * Format affiliations for display
+   * Format numbered affiliations for display
    */
-  private formatAffiliations(authors: AuthorResponse[]): string {
-    const uniqueAffiliations = new Map<string, number[]>();
-    
-    authors.forEach((author, index) => {
-      const affiliation = author.affiliation;
-      if (!uniqueAffiliations.has(affiliation)) {
-        uniqueAffiliations.set(affiliation, []);
-      }
-      uniqueAffiliations.get(affiliation)!.push(index + 1);
-    });
-
-    return Array.from(uniqueAffiliations.entries())
-      .map(([affiliation, indices]) => `${indices.join(',')}${affiliation}`)
+  private formatAffiliations(affiliations: string[]): string {
+    return affiliations
+      .map((affiliation, index) => `${index + 1}${affiliation}`)
       .join('; ');
   }
 
-  /**
-   * Get session name from session type
-   */
-  private getSessionName(sessionType: SessionType): string {
-    const sessionNames: Record<SessionType, string> = {
-      CHE: 'Computational Chemistry',
-      CSE: 'High Performance Computing/Computer Science/Engineering',
-      BIO: 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
-      MST: 'Mathematics and Statistics',
-      PFD: 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics'
-    };
-    return sessionNames[sessionType];
-  }
-
 
 
   /**
-   * Create default template for abstract book
+   * Create default template for abstract book, starting from the edition's saved template.
+   * Title, dates and venue on the cover always come from the edition itself.
    */
-  async createDefaultTemplate(): Promise<AbstractBookTemplate> {
-    const conference = await ConferenceRepository.findActiveConference();
+  async createDefaultTemplate(conferenceId?: string): Promise<AbstractBookTemplate> {
+    const currentId = conferenceId || await ConferenceRepository.findCurrentId();
+    const conference = currentId ? await ConferenceRepository.findById(currentId) : null;
+    const saved = (conference?.abstractBookTemplate || {}) as Partial<AbstractBookTemplate>;
     
     return {
-      title: 'Abstract Book',
-      subtitle: 'Conference Proceedings',
+      title: saved.title || 'Abstract Book',
+      subtitle: saved.subtitle ?? 'Conference Proceedings',
       coverPage: {
         conferenceTitle: conference?.name || 'International Conference',
-        conferenceSubtitle: conference?.description || '',
+        conferenceSubtitle: saved.coverPage?.conferenceSubtitle ?? (conference?.description || ''),
         dates: conference ? this.formatConferenceDates(conference.startDate, conference.endDate) : '',
         venue: conference?.venue || '',
-        organizers: ['Conference Organizing Committee']
+        organizers: saved.coverPage?.organizers || ['Conference Organizing Committee'],
+        logo: saved.coverPage?.logo
       },
       styling: {
         fontFamily: 'Times New Roman, serif',
@@ -269,17 +318,31 @@ export class AbstractBookService {
         lineHeight: '1.5',
         margins: '2.5cm',
         headerColor: '#2c3e50',
-        accentColor: '#3498db'
+        accentColor: '#3498db',
+        ...saved.styling
       },
       sections: {
         includeTableOfContents: true,
         includeSessionSeparators: true,
         includeAuthorIndex: true,
-        includeKeywordIndex: true
+        includeKeywordIndex: true,
+        ...saved.sections
       }
     };
   }
 
+  /**
+   * Save a template as an edition's default, the current one unless given; null restores the built-in one
+   */
+  async saveTemplate(template: AbstractBookTemplate | null, conferenceId?: string): Promise<void> {
+    const currentId = conferenceId || await ConferenceRepository.findCurrentId();
+    if (!currentId) {
+      throw new Error('No active conference found');
+    }
+
+    await ConferenceRepository.updateAbstractBookTemplate(currentId, template ? { ...template } : null);
+  }
+
   /**
    * Format conference dates for display
    */
@@ -449,6 +512,55 @@ export class AbstractBookService {
             margin-bottom: 10px;
         }
         
+        /* Math is printed from its MathML, which browsers and the PDF renderer lay out natively;
+           KaTeX's visual copy needs its web fonts and stylesheet, so it is hidden */
+        .katex-html {
+            display: none;
+        }
+        
+        .katex-display {
+            display: block;
+            text-align: center;
+            margin: 8px 0;
+        }
+        
+        .katex-error {
+            color: #cc0000;
+        }
+        
+        .abstract-figure {
+            text-align: center;
+            margin: 10px 0;
+            page-break-inside: avoid;
+        }
+        
+        .abstract-figure img {
+            max-width: 100%;
+            max-height: 9cm;
+        }
+        
+        .abstract-figure figcaption {
+            font-size: 10pt;
+            margin-top: 5px;
+        }
+        
+        .abstract-references-title {
+            font-size: 10pt;
+            font-weight: bold;
+            margin-top: 10px;
+        }
+        
+        .abstract-references {
+            font-size: 9pt;
+            margin: 5px 0 10px;
+            padding-left: 20px;
+        }
+        
+        .abstract-references a {
+            color: inherit;
+            word-break: break-all;
+        }
+        
         .abstract-keywords {
             font-size: 10pt;
             color: #666;
@@ -588,10 +700,11 @@ export class AbstractBookService {
    * Generate HTML for a single abstract
    */
   private generateAbstractHTML(entry: AbstractBookEntry): string {
-    const { submission, formattedAuthors, formattedAffiliations, presentationTypeLabel } = entry;
+    const { submission, formattedAuthors, formattedAffiliations, presentationTypeLabel, figure } = entry;
     
     // Convert markdown to HTML if needed
-    const abstractContent = submission.abstractHtml || marked(submission.abstract);
+    const abstractContent = submission.abstractHtml || markdownToHtml(submission.abstract);
+    const references = submission.abstractReferences || [];
 
     return `
     <div class="abstract-entry">
@@ -600,6 +713,16 @@ export class AbstractBookService {
         <div class="abstract-authors">${formattedAuthors}</div>
         <div class="abstract-affiliations">${formattedAffiliations}</div>
         <div class="abstract-content">${abstractContent}</div>
+        ${figure ? `
+        <figure class="abstract-figure">
+            <img src="data:${figure.mimeType};base64,${figure.data.toString('base64')}" alt="Figure 1">
+            <figcaption><strong>Figure 1.</strong> ${this.escapeHtml(figure.caption || '')}</figcaption>
+        </figure>
+        ` : ''}
+        ${references.length > 0 ? `
+        <div class="abstract-references-title">References</div>
+        ${referencesToHtml(references)}
+        ` : ''}
         ${submission.keywords.length > 0 ? `
         <div class="abstract-keywords">
             <strong>Keywords:</strong> ${submission.keywords.join(', ')}
@@ -1017,7 +1140,7 @@ export class AbstractBookService {
    * Generate DOCX content for a single abstract
    */
   private generateDOCXAbstract(entry: AbstractBookEntry): Paragraph[] {
-    const { submission, formattedAuthors, formattedAffiliations, presentationTypeLabel } = entry;
+    const { submission, formattedAuthors, formattedAffiliations, presentationTypeLabel, figure } = entry;
     
     const paragraphs: Paragraph[] = [];
 
@@ -1060,14 +1183,53 @@ export class AbstractBookService {
       })
     );
 
-    // Abstract content (convert from HTML/markdown to plain text)
-    const abstractText = this.htmlToPlainText(submission.abstractHtml || marked(submission.abstract));
-    paragraphs.push(
-      new Paragraph({
-        text: abstractText,
-        style: 'abstractContent'
-      })
-    );
+    // Abstract content, with math kept as Word equations
+    paragraphs.push(...this.htmlToDOCXParagraphs(submission.abstractHtml || markdownToHtml(submission.abstract)));
+
+    // Figure, scaled to the text width, with its caption
+    const dimensions = figure ? readImageDimensions(figure.data) : null;
+    if (figure && dimensions) {
+      paragraphs.push(
+        new Paragraph({
+          children: [
+            new ImageRun({
+              type: figure.mimeType === 'image/png' ? 'png' : 'jpg',
+              data: figure.data,
+              transformation: fitImage(dimensions, 450, 340),
+              altText: { name: 'Figure 1', description: figure.caption || 'Figure 1', title: 'Figure 1' }
+            })
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { before: 100, after: 100 }
+        }),
+        new Paragraph({
+          children: [
+            new TextRun({ text: 'Figure 1. ', bold: true, size: 20 }),
+            new TextRun({ text: figure.caption || '', size: 20 })
+          ],
+          alignment: AlignmentType.CENTER,
+          spacing: { after: 200 }
+        })
+      );
+    }
+
+    // Numbered reference list
+    const references = submission.abstractReferences || [];
+    if (references.length > 0) {
+      paragraphs.push(
+        new Paragraph({
+          children: [new TextRun({ text: 'References', bold: true, size: 20 })],
+          spacing: { before: 100, after: 60 }
+        }),
+        ...references.map((reference, index) =>
+          new Paragraph({
+            children: [new TextRun({ text: `${index + 1}. ${formatReference(reference)}`, size: 18 })],
+            indent: { left: 360, hanging: 360 },
+            spacing: { after: 40 }
+          })
+        )
+      );
+    }
 
     // Keywords
     if (submission.keywords.length > 0) {
@@ -1146,20 +1308,126 @@ export class AbstractBookService {
   }
 
   /**
-   * Convert HTML to plain text for DOCX
+   * Escape user-entered text placed into the HTML output
    */
-  private htmlToPlainText(html: string): string {
-    // Simple HTML to text conversion
-    return html
-      .replace(/<[^>]*>/g, '') // Remove HTML tags
-      .replace(/&nbsp;/g, ' ') // Replace non-breaking spaces
-      .replace(/&amp;/g, '&') // Replace HTML entities
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Convert abstract HTML to DOCX paragraphs: one per block, bold/italic kept,
+   * and KaTeX output turned into native Word equations from its MathML
+   */
+  private htmlToDOCXParagraphs(html: string): Paragraph[] {
+    const { window } = new JSDOM(html);
+    const paragraphs: Paragraph[] = [];
+    let runs: ParagraphChild[] = [];
+
+    const flush = () => {
+      if (runs.length > 0) {
+        paragraphs.push(new Paragraph({ children: runs, style: 'abstractContent' }));
+        runs = [];
+      }
+    };
+
+    const walk = (node: Node, format: { bold?: boolean; italics?: boolean }) => {
+      if (node.nodeType === window.Node.TEXT_NODE) {
+        const text = (node.textContent || '').replace(/\s+/g, ' ');
+        if (text.trim() || runs.length > 0) {
+          runs.push(new TextRun({ text, ...format }));
+        }
+        return;
+      }
+      if (node.nodeType !== window.Node.ELEMENT_NODE) {
+        return;
+      }
+
+      const element = node as Element;
+      const tag = element.tagName.toLowerCase();
+      const math = element.querySelector('math');
+
+      if (element.classList.contains('katex-display') && math) {
+        flush();
+        paragraphs.push(new Paragraph({
+          children: [new DocxMath({ children: this.mathmlToDOCX(math) })],
+          alignment: AlignmentType.CENTER,
+          style: 'abstractContent'
+        }));
+        return;
+      }
+      if (element.classList.contains('katex') && math) {
+        runs.push(new DocxMath({ children: this.mathmlToDOCX(math) }));
+        return;
+      }
+      if (tag === 'br') {
+        runs.push(new TextRun({ text: '', break: 1 }));
+        return;
+      }
+
+      const isBlock = /^(p|h[1-6]|li|blockquote|pre|div)$/.test(tag);
+      if (isBlock) flush();
+      const childFormat = {
+        bold: format.bold || /^(strong|b|h[1-6])$/.test(tag),
+        italics: format.italics || /^(em|i)$/.test(tag)
+      };
+      element.childNodes.forEach(child => walk(child, childFormat));
+      if (isBlock) flush();
+    };
+
+    walk(window.document.body, {});
+    flush();
+    return paragraphs;
+  }
+
+  /**
+   * Map a MathML element to Word equation components.
+   * Unknown layout elements (mrow, mstyle, mpadded, ...) contribute their children.
+   */
+  private mathmlToDOCX(element: Element): MathComponent[] {
+    const children = Array.from(element.children);
+    const part = (child?: Element): MathComponent[] => {
+      const components = child ? this.mathmlToDOCX(child) : [];
+      return components.length > 0 ? components : [new MathRun('')];
+    };
+
+    switch (element.tagName.toLowerCase()) {
+      case 'mi':
+      case 'mn':
+      case 'mo':
+      case 'mtext':
+      case 'ms':
+        return [new MathRun(element.textContent || '')];
+      case 'mspace':
+        return [new MathRun(' ')];
+      case 'annotation':
+      case 'mphantom':
+        return [];
+      case 'mfrac':
+        return [new MathFraction({ numerator: part(children[0]), denominator: part(children[1]) })];
+      case 'msup':
+      case 'mover':
+        return [new MathSuperScript({ children: part(children[0]), superScript: part(children[1]) })];
+      case 'msub':
+      case 'munder':
+        return [new MathSubScript({ children: part(children[0]), subScript: part(children[1]) })];
+      case 'msubsup':
+      case 'munderover':
+        return [new MathSubSuperScript({
+          children: part(children[0]),
+          subScript: part(children[1]),
+          superScript: part(children[2])
+        })];
+      case 'msqrt':
+        return [new MathRadical({ children: children.flatMap(child => this.mathmlToDOCX(child)) })];
+      case 'mroot':
+        return [new MathRadical({ children: part(children[0]), degree: part(children[1]) })];
+      default:
+        return children.flatMap(child => this.mathmlToDOCX(child));
+    }
   }
 
   /**
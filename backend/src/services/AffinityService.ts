@@ -0,0 +1,102 @@
+import {
+  AffinityRepository,
+  AffinityReviewerProfile,
+  AffinitySubmissionText,
+  AffinityRun
+} from '../models/AffinityRepository.js';
+import { tokenize } from '../utils/similarity.js';
+import { buildAffinityMatrix, AffinityEntry } from '../utils/affinity.js';
+import { pairKey } from '../utils/autoAssignment.js';
+
+export interface AffinityMatrix {
+  run: AffinityRun;
+  entries: AffinityEntry[];
+}
+
+export class AffinityService {
+  // Recomputations in progress, so an edition is never recomputed twice at once
+  private running = new Map<string, Promise<AffinityRun>>();
+
+  private submissionTokens(submission: AffinitySubmissionText): string[] {
+    return tokenize([submission.title, submission.abstract, ...submission.keywords].join(' '));
+  }
+
+  private reviewerTokens(profile: AffinityReviewerProfile): string[] {
+    return tokenize([profile.bio, ...profile.expertise, profile.pastAbstracts].join(' '));
+  }
+
+  private async compute(conferenceId: string): Promise<AffinityRun> {
+    const computedAt = await AffinityRepository.readClock();
+    const [submissions, reviewers] = await Promise.all([
+      AffinityRepository.findSubmissionTexts(conferenceId),
+      AffinityRepository.findReviewerProfiles(conferenceId)
+    ]);
+
+    const entries = buildAffinityMatrix(
+      submissions.map(submission => ({ id: submission.id, tokens: this.submissionTokens(submission) })),
+      reviewers.map(reviewer => ({ id: reviewer.id, tokens: this.reviewerTokens(reviewer) }))
+    );
+
+    return AffinityRepository.replaceMatrix(conferenceId, entries, {
+      submissionCount: submissions.length,
+      reviewerCount: reviewers.length
+    }, computedAt);
+  }
+
+  /**
+   * Recompute the affinity of every active reviewer to every finalized submission of an edition
+   */
+  async recompute(conferenceId: string): Promise<AffinityRun> {
+    const running = this.running.get(conferenceId);
+    if (running) {
+      return running;
+    }
+
+    const run = this.compute(conferenceId).finally(() => this.running.delete(conferenceId));
+    this.running.set(conferenceId, run);
+    return run;
+  }
+
+  /**
+   * Recompute the matrix of an edition now if it is missing or stale
+   */
+  async ensureFresh(conferenceId: string): Promise<void> {
+    const run = await AffinityRepository.findRun(conferenceId);
+    if (!run || run.isStale) {
+      await this.recompute(conferenceId);
+    }
+  }
+
+  /**
+   * Start recomputing a missing or stale matrix without waiting for it; reads keep using the
+   * cached matrix meanwhile
+   */
+  async refreshInBackground(conferenceId: string): Promise<void> {
+    const run = await AffinityRepository.findRun(conferenceId);
+    if (!run || run.isStale) {
+      this.recompute(conferenceId).catch(error => console.error('Reviewer affinity refresh error:', error));
+    }
+  }
+
+  /**
+   * Cached matrix of an edition, recomputed first when missing or stale
+   */
+  async getMatrix(conferenceId: string): Promise<AffinityMatrix> {
+    await this.ensureFresh(conferenceId);
+    const [run, entries] = await Promise.all([
+      AffinityRepository.findRun(conferenceId),
+      AffinityRepository.findMatrix(conferenceId)
+    ]);
+    return { run: run!, entries };
+  }
+
+  /**
+   * Affinities of an edition by submission-reviewer pair
+   */
+  async getAffinityMap(conferenceId: string): Promise<Map<string, AffinityEntry>> {
+    const { entries } = await this.getMatrix(conferenceId);
+    return new Map(entries.map(entry => [pairKey(entry.submissionId, entry.reviewerId), entry]));
+  }
+}
+
+export const affinityService = new AffinityService();
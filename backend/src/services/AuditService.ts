@@ -162,7 +162,75 @@ export class AuditService {
     });
   }
 
+  public async logLateSubmissionAttempt(
+    userId: string,
+    userEmail: string,
+    action: string,
+    submissionId: string | undefined,
+    outcome: { status: string; allowed: boolean; deadline: Date; effectiveDeadline: Date },
+    ip: string,
+    requestId?: string
+  ): Promise<void> {
+    await this.logEvent({
+      userId,
+      userEmail,
+      action: `late_${action}`,
+      resource: 'submission',
+      resourceId: submissionId,
+      ip,
+      requestId,
+      severity: outcome.allowed ? 'low' : 'medium',
+      category: 'data',
+      details: outcome,
+    });
+  }
+
   // Admin events
+  public async logDeadlineExtension(adminId: string, adminEmail: string, extensionId: string, action: 'grant' | 'revoke', details: any, ip: string, requestId?: string): Promise<void> {
+    await this.logEvent({
+      userId: adminId,
+      userEmail: adminEmail,
+      action: `deadline_extension_${action}`,
+      resource: 'deadline_extension',
+      resourceId: extensionId,
+      ip,
+      requestId,
+      severity: 'medium',
+      category: 'admin',
+      details,
+    });
+  }
+
+  public async logDecisionBatch(adminId: string, adminEmail: string, batchId: string, action: 'apply' | 'release', details: any, ip: string, requestId?: string): Promise<void> {
+    await this.logEvent({
+      userId: adminId,
+      userEmail: adminEmail,
+      action: `decision_batch_${action}`,
+      resource: 'decision_batch',
+      resourceId: batchId,
+      ip,
+      requestId,
+      severity: 'high',
+      category: 'admin',
+      details,
+    });
+  }
+
+  public async logConflictOverride(adminId: string, adminEmail: string, overrideId: string, details: any, ip: string, requestId?: string): Promise<void> {
+    await this.logEvent({
+      userId: adminId,
+      userEmail: adminEmail,
+      action: 'conflict_of_interest_override',
+      resource: 'conflict_override',
+      resourceId: overrideId,
+      ip,
+      requestId,
+      severity: 'high',
+      category: 'admin',
+      details,
+    });
+  }
+
   public async logUserRoleChange(adminId: string, adminEmail: string, targetUserId: string, oldRole: string, newRole: string, ip: string, requestId?: string): Promise<void> {
     await this.logEvent({
       userId: adminId,
@@ -0,0 +1,69 @@
+import { PoolClient } from 'pg';
+import { EmailService } from './EmailService.js';
+import { Database } from '../database/connection.js';
+import { ReviewRepository } from '../models/ReviewRepository.js';
+import { checkCommit } from '../utils/autoAssignment.js';
+import { CommitAutoAssignmentRequest, CommitAutoAssignmentResult } from '../types/index.js';
+
+// Reviewers get two weeks from the assignment
+const REVIEW_PERIOD_DAYS = 14;
+
+export class AutoAssignmentService {
+  private emailService: EmailService;
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Store the assignments of an edited proposal in one transaction. Every pair is checked again
+   * against the current assignments, loads and conflicts; pairs that no longer fit are skipped
+   * with the reason. Reviewers are emailed once the assignments are stored.
+   */
+  async commit(conferenceId: string, request: CommitAutoAssignmentRequest): Promise<CommitAutoAssignmentResult> {
+    const { result, submissions, reviewers } = await Database.transaction(async (client: PoolClient) => {
+      await ReviewRepository.lockAutoAssignment(client, conferenceId);
+      const pool = await ReviewRepository.getAutoAssignmentPool(conferenceId, client);
+      const { accepted, skipped } = checkCommit(
+        request.assignments,
+        pool.submissions,
+        pool.reviewers,
+        request,
+        pool.conflictedPairs
+      );
+
+      const submissions = new Map(pool.submissions.map(submission => [submission.id, submission]));
+      const assigned = await ReviewRepository.assignReviewers(client, accepted.map(pair => ({
+        ...pair,
+        round: submissions.get(pair.submissionId)!.revisionRound
+      })));
+
+      return {
+        result: { assigned, skipped },
+        submissions,
+        reviewers: new Map(pool.reviewers.map(reviewer => [reviewer.id, reviewer]))
+      };
+    });
+
+    const deadline = new Date();
+    deadline.setDate(deadline.getDate() + REVIEW_PERIOD_DAYS);
+
+    for (const review of result.assigned) {
+      const reviewer = reviewers.get(review.reviewerId)!;
+      try {
+        await this.emailService.sendReviewAssignmentEmail(
+          reviewer.email,
+          reviewer.name,
+          submissions.get(review.submissionId)!,
+          deadline
+        );
+      } catch (emailError) {
+        console.error('Failed to send review assignment email:', emailError);
+      }
+    }
+
+    return result;
+  }
+}
+
+export const autoAssignmentService = new AutoAssignmentService();
@@ -116,13 +116,15 @@ export class CacheService {
 
   // Cache keys for different data types
   public static keys = {
-    conference: (id?: string) => id ? `conference:${id}` : 'conference:info',
+    conference: (id?: string, section?: string) =>
+      id ? `conference:${id}${section ? `:${section}` : ''}` : 'conference:info',
     sessions: () => 'conference:sessions',
     userProfile: (userId: string) => `user:profile:${userId}`,
     submissions: (userId: string) => `user:submissions:${userId}`,
     submissionStats: () => 'admin:submission:stats',
     userStats: () => 'admin:user:stats',
-    paymentInstructions: () => 'payment:instructions',
+    paymentInstructions: (conferenceId?: string) =>
+      conferenceId ? `payment:instructions:${conferenceId}` : 'payment:instructions',
     abstractBook: (format: string, sessionType?: string) => 
       `abstract:book:${format}${sessionType ? `:${sessionType}` : ''}`,
   };
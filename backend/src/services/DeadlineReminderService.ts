@@ -14,9 +14,8 @@ export class DeadlineReminderService {
    */
   async sendSubmissionDeadlineReminders(): Promise<void> {
     try {
-      // Get active conference with submission deadline
-      const conferences = await ConferenceRepository.findAll();
-      const conference = conferences.find(c => c.isActive);
+      // Get the current edition with its submission deadline
+      const conference = await ConferenceRepository.findActiveConference();
       if (!conference || !conference.submissionDeadline) {
         console.log('No active conference with submission deadline found');
         return;
@@ -31,17 +30,19 @@ export class DeadlineReminderService {
         return;
       }
 
-      // Get users who haven't submitted abstracts yet (presenters and speakers)
+      // Get presenters and speakers registered for this edition who haven't submitted abstracts yet
       const query = `
-        SELECT DISTINCT u.id, u.email, u.first_name, u.last_name, u.participant_type
-        FROM users u
-        LEFT JOIN submissions s ON u.id = s.user_id
-        WHERE u.participant_type IN ('oral_presenter', 'poster_presenter', 'keynote_speaker', 'panelist')
+        SELECT DISTINCT u.id, u.email, u.first_name, u.last_name, r.participant_type
+        FROM conference_registrations r
+        JOIN users u ON u.id = r.user_id
+        LEFT JOIN submissions s ON u.id = s.user_id AND s.conference_id = r.conference_id AND s.status <> 'draft'
+        WHERE r.conference_id = $1
+          AND r.participant_type IN ('oral_presenter', 'poster_presenter', 'keynote_speaker', 'panelist')
           AND u.is_active = true
           AND s.id IS NULL
       `;
 
-      const result = await Database.query(query);
+      const result = await Database.query(query, [conference.id]);
       const usersWithoutSubmissions = result.rows;
 
       console.log(`Sending submission deadline reminders to ${usersWithoutSubmissions.length} users (${daysUntilDeadline} days remaining)`);
@@ -70,9 +71,8 @@ export class DeadlineReminderService {
    */
   async sendRegistrationDeadlineReminders(): Promise<void> {
     try {
-      // Get active conference with registration deadline
-      const conferences = await ConferenceRepository.findAll();
-      const conference = conferences.find(c => c.isActive);
+      // Get the current edition with its registration deadline
+      const conference = await ConferenceRepository.findActiveConference();
       if (!conference || !conference.registrationDeadline) {
         console.log('No active conference with registration deadline found');
         return;
@@ -87,15 +87,17 @@ export class DeadlineReminderService {
         return;
       }
 
-      // Get users who haven't completed registration (no payment verified)
+      // Get users registered for this edition who haven't completed payment
       const query = `
-        SELECT id, email, first_name, last_name, participant_type, payment_status
-        FROM users
-        WHERE payment_status IN ('not_paid', 'payment_submitted', 'payment_rejected')
-          AND is_active = true
+        SELECT u.id, u.email, u.first_name, u.last_name, r.participant_type, r.payment_status
+        FROM conference_registrations r
+        JOIN users u ON u.id = r.user_id
+        WHERE r.conference_id = $1
+          AND r.payment_status IN ('not_paid', 'payment_submitted', 'payment_rejected')
+          AND u.is_active = true
       `;
 
-      const result = await Database.query(query);
+      const result = await Database.query(query, [conference.id]);
       const incompleteRegistrations = result.rows;
 
       console.log(`Sending registration deadline reminders to ${incompleteRegistrations.length} users (${daysUntilDeadline} days remaining)`);
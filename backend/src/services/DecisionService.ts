@@ -0,0 +1,148 @@
+import { PoolClient } from 'pg';
+import { EmailService } from './EmailService.js';
+import { Database } from '../database/connection.js';
+import { DecisionRepository } from '../models/DecisionRepository.js';
+import { SubmissionRepository } from '../models/SubmissionRepository.js';
+import { canTransition } from '../utils/submissionStatus.js';
+import {
+  CreateDecisionBatchRequest,
+  DecisionBatch,
+  DecisionBatchItem,
+  DecisionEmailPreview,
+  SubmissionStatus
+} from '../types/index.js';
+
+export interface SkippedDecision {
+  submissionId: string;
+  title?: string;
+  status?: SubmissionStatus;
+  reason: string;
+}
+
+export class DecisionService {
+  private emailService: EmailService;
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Apply an accept or reject decision to every selected submission of an edition in one
+   * transaction and record it as a held batch. Submissions whose status cannot take the decision
+   * are skipped; no author is emailed until the batch is released.
+   */
+  async applyDecision(conferenceId: string, request: CreateDecisionBatchRequest, createdBy: string): Promise<{
+    batch: DecisionBatch | null;
+    skipped: SkippedDecision[];
+  }> {
+    return Database.transaction(async (client: PoolClient) => {
+      const submissions = await DecisionRepository.lockSubmissions(client, conferenceId, request.submissionIds);
+      const found = new Map(submissions.map(submission => [submission.id, submission]));
+
+      const skipped: SkippedDecision[] = [];
+      const items: Array<{ submissionId: string; previousStatus: SubmissionStatus }> = [];
+
+      for (const submissionId of request.submissionIds) {
+        const submission = found.get(submissionId);
+        if (!submission) {
+          skipped.push({ submissionId, reason: 'Submission not found' });
+          continue;
+        }
+
+        if (!canTransition(submission.status, request.decision)) {
+          skipped.push({
+            submissionId,
+            title: submission.title,
+            status: submission.status,
+            reason: `Cannot change status from ${submission.status} to ${request.decision}`
+          });
+          continue;
+        }
+
+        await SubmissionRepository.transitionStatus(client, submissionId, request.decision, {
+          changedBy: createdBy,
+          reason: 'Program committee decision',
+          adminNotes: request.adminNotes
+        });
+        items.push({ submissionId, previousStatus: submission.status });
+      }
+
+      if (items.length === 0) {
+        return { batch: null, skipped };
+      }
+
+      const batch = await DecisionRepository.createBatch(client, {
+        conferenceId,
+        decision: request.decision,
+        criteria: request.criteria || {},
+        adminNotes: request.adminNotes,
+        createdBy,
+        items
+      });
+
+      return { batch, skipped };
+    });
+  }
+
+  /**
+   * Render the email each author in the batch will receive on release
+   */
+  previewBatch(batch: DecisionBatch, items: DecisionBatchItem[]): DecisionEmailPreview[] {
+    return items.map(item => {
+      const template = this.emailService.previewSubmissionStatusUpdate(
+        item.authorName || 'Author',
+        { id: item.submissionId, title: item.submissionTitle },
+        batch.decision,
+        batch.adminNotes
+      );
+
+      return {
+        submissionId: item.submissionId,
+        submissionTitle: item.submissionTitle || '',
+        to: item.authorEmail || '',
+        subject: template.subject,
+        html: template.html,
+        text: template.text
+      };
+    });
+  }
+
+  /**
+   * Send the held decision emails of a batch. Items already notified are left alone, so a
+   * release can be repeated to retry authors whose email failed.
+   */
+  async releaseBatch(batch: DecisionBatch, items: DecisionBatchItem[], releasedBy: string): Promise<{
+    sent: number;
+    failed: number;
+  }> {
+    await DecisionRepository.markReleased(batch.id, releasedBy);
+
+    let sent = 0;
+    let failed = 0;
+
+    for (const item of items) {
+      if (item.notifiedAt || !item.authorEmail) {
+        continue;
+      }
+
+      try {
+        await this.emailService.sendSubmissionStatusUpdate(
+          item.authorEmail,
+          item.authorName || 'Author',
+          { id: item.submissionId, title: item.submissionTitle },
+          batch.decision,
+          batch.adminNotes
+        );
+        await DecisionRepository.markItemNotified(item.id);
+        sent++;
+      } catch (emailError) {
+        console.error('Failed to send decision email:', emailError);
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+}
+
+export const decisionService = new DecisionService();
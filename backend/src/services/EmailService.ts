@@ -1,6 +1,6 @@
 import nodemailer from 'nodemailer';
 import { createClient } from 'redis';
-import { User } from '../types/index.js';
+import { User, PresentationTypeProposal, Track, EmailSettings } from '../types/index.js';
 import { emailTemplates, emailConfig } from '../templates/emailTemplates.js';
 
 export interface EmailConfig {
@@ -46,7 +46,12 @@ export type EmailType =
   | 'payment_rejection'
   | 'review_assignment'
   | 'review_reminder'
-  | 'deadline_reminder';
+  | 'deadline_reminder'
+  | 'revision_request'
+  | 'revision_review_request'
+  | 'coauthor_invitation'
+  | 'submission_withdrawn'
+  | 'presentation_type_proposal';
 
 export class EmailService {
   private transporter: nodemailer.Transporter;
@@ -296,8 +301,8 @@ export class EmailService {
   /**
    * Send welcome email after email verification
    */
-  async sendWelcomeEmail(user: User): Promise<string> {
-    const template = this.getWelcomeEmailTemplate(user);
+  async sendWelcomeEmail(user: User, tracks: Pick<Track, 'code' | 'name'>[]): Promise<string> {
+    const template = this.getWelcomeEmailTemplate(user, tracks);
     
     return await this.sendEmail({
       to: user.email,
@@ -369,6 +374,18 @@ export class EmailService {
     });
   }
 
+  /**
+   * Render a submission status update email without queueing it, for review before release
+   */
+  previewSubmissionStatusUpdate(
+    userName: string,
+    submission: any,
+    newStatus: string,
+    adminNotes?: string
+  ): EmailTemplate {
+    return this.getSubmissionStatusUpdateTemplate(userName, submission, newStatus, adminNotes);
+  }
+
   /**
    * Send manuscript upload confirmation email
    */
@@ -502,6 +519,138 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send revision request email to the submitting author
+   */
+  async sendRevisionRequestEmail(
+    userEmail: string, 
+    userName: string, 
+    submission: any, 
+    revisionType: string, 
+    deadline: Date, 
+    reviewerComments: string[], 
+    adminNotes?: string
+  ): Promise<string> {
+    const template = this.getRevisionRequestTemplate(userName, submission, revisionType, deadline, reviewerComments, adminNotes);
+    
+    return await this.sendEmail({
+      to: userEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      type: 'revision_request',
+      priority: 7, // Medium-high priority, the author has a deadline
+      data: { submissionId: submission.id, userName, revisionType, deadline }
+    });
+  }
+
+  /**
+   * Send re-review request email for a revised submission
+   */
+  async sendRevisionReviewRequestEmail(
+    reviewerEmail: string, 
+    reviewerName: string, 
+    submission: any, 
+    round: number, 
+    responseLetter: string, 
+    deadline: Date
+  ): Promise<string> {
+    const template = this.getRevisionReviewRequestTemplate(reviewerName, submission, round, responseLetter, deadline);
+    
+    return await this.sendEmail({
+      to: reviewerEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      type: 'revision_review_request',
+      priority: 7, // Medium-high priority for review assignments
+      data: { submissionId: submission.id, reviewerName, round, deadline }
+    });
+  }
+
+  /**
+   * Invite a co-author to link their account to a submission
+   */
+  async sendCoAuthorInvitationEmail(
+    authorEmail: string, 
+    authorName: string, 
+    inviterName: string, 
+    submission: any, 
+    inviteToken: string
+  ): Promise<string> {
+    const inviteUrl = `${this.baseUrl}/submissions?coauthorInvite=${encodeURIComponent(inviteToken)}`;
+    const template = this.getCoAuthorInvitationTemplate(authorName, inviterName, submission, inviteUrl);
+    
+    return await this.sendEmail({
+      to: authorEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      type: 'coauthor_invitation',
+      priority: 5,
+      data: { submissionId: submission.id, authorEmail }
+    });
+  }
+
+  /**
+   * Tell an assigned reviewer that a submission was withdrawn
+   */
+  async sendSubmissionWithdrawnEmail(
+    reviewerEmail: string, 
+    reviewerName: string, 
+    submission: any, 
+    reviewCompleted: boolean
+  ): Promise<string> {
+    const template = this.getSubmissionWithdrawnTemplate(reviewerName, submission, reviewCompleted);
+    
+    return await this.sendEmail({
+      to: reviewerEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      type: 'submission_withdrawn',
+      priority: 5,
+      data: { submissionId: submission.id, reviewerName }
+    });
+  }
+
+  /**
+   * Ask the submitting author to accept or decline a change of presentation type
+   */
+  async sendPresentationTypeProposalEmail(
+    authorEmail: string, 
+    authorName: string, 
+    submission: any, 
+    proposal: PresentationTypeProposal
+  ): Promise<string> {
+    const respondUrl = `${this.baseUrl}/submissions?presentationProposal=${submission.id}`;
+    const template = this.getPresentationTypeProposalTemplate(authorName, submission, proposal, respondUrl);
+    
+    return await this.sendEmail({
+      to: authorEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      type: 'presentation_type_proposal',
+      priority: 7,
+      data: { submissionId: submission.id, proposalId: proposal.id }
+    });
+  }
+
+  /**
+   * Sender overrides of the current edition; mail still goes out when they cannot be read
+   */
+  private async getEmailSettings(): Promise<EmailSettings> {
+    try {
+      // Loaded lazily so the service does not pull in the database layer up front
+      const { ConferenceRepository } = await import('../models/ConferenceRepository.js');
+      return await ConferenceRepository.getEmailSettings();
+    } catch (error) {
+      console.error('Failed to load email settings:', error);
+      return {};
+    }
+  }
+
   /**
    * Direct email sending method (bypasses queue)
    */
@@ -512,8 +661,10 @@ export class EmailService {
     text: string;
   }): Promise<void> {
     try {
+      const settings = await this.getEmailSettings();
       await this.transporter.sendMail({
-        from: this.fromEmail,
+        from: settings.fromName ? { name: settings.fromName, address: this.fromEmail } : this.fromEmail,
+        replyTo: settings.replyTo || undefined,
         to: options.to,
         subject: options.subject,
         html: options.html,
@@ -704,7 +855,7 @@ export class EmailService {
   /**
    * Welcome email template
    */
-  private getWelcomeEmailTemplate(user: User): EmailTemplate {
+  private getWelcomeEmailTemplate(user: User, tracks: Pick<Track, 'code' | 'name'>[]): EmailTemplate {
     const subject = 'Welcome to the International Conference!';
     
     const html = `
@@ -733,11 +884,7 @@ export class EmailService {
             
             <h3>Conference Sessions Available:</h3>
             <ul>
-              <li><strong>CHE</strong> - Computational Chemistry</li>
-              <li><strong>CSE</strong> - High Performance Computing/Computer Science/Engineering</li>
-              <li><strong>BIO</strong> - Computational Biology/Bioinformatics/Biochemistry/Biophysics</li>
-              <li><strong>MST</strong> - Mathematics and Statistics</li>
-              <li><strong>PFD</strong> - Computational Physics/Computational Fluid Dynamics/Solid Mechanics</li>
+              ${tracks.map(track => `<li><strong>${track.code}</strong> - ${track.name}</li>`).join('\n              ')}
             </ul>
             
             <p style="text-align: center;">
@@ -763,11 +910,7 @@ export class EmailService {
       Welcome to the International Conference community! We're excited to have you join us.
       
       Conference Sessions Available:
-      - CHE - Computational Chemistry
-      - CSE - High Performance Computing/Computer Science/Engineering  
-      - BIO - Computational Biology/Bioinformatics/Biochemistry/Biophysics
-      - MST - Mathematics and Statistics
-      - PFD - Computational Physics/Computational Fluid Dynamics/Solid Mechanics
+      ${tracks.map(track => `- ${track.code} - ${track.name}`).join('\n      ')}
       
       Access your dashboard at: ${this.baseUrl}/dashboard
       
@@ -957,14 +1100,20 @@ export class EmailService {
       'under_review': 'Your submission is now under review',
       'accepted': '🎉 Congratulations! Your submission has been accepted',
       'rejected': 'Your submission was not accepted',
-      'submitted': 'Your submission has been received'
+      'submitted': 'Your submission has been received',
+      'revision_requested': 'Revisions have been requested for your submission',
+      'revised': 'Your revised submission has been received',
+      'withdrawn': 'Your submission has been withdrawn'
     };
 
     const statusColors: Record<string, string> = {
       'under_review': '#f39c12',
       'accepted': '#27ae60',
       'rejected': '#e74c3c',
-      'submitted': '#3498db'
+      'submitted': '#3498db',
+      'revision_requested': '#e67e22',
+      'revised': '#16a085',
+      'withdrawn': '#7f8c8d'
     };
 
     const subject = `Submission Status Update: ${submission.title}`;
@@ -1443,6 +1592,461 @@ export class EmailService {
     return { subject, html, text };
   }
 
+  /**
+   * Revision request template
+   */
+  private getRevisionRequestTemplate(
+    userName: string, 
+    submission: any, 
+    revisionType: string, 
+    deadline: Date, 
+    reviewerComments: string[], 
+    adminNotes?: string
+  ): EmailTemplate {
+    const revisionLabel = revisionType === 'major_revision' ? 'Major Revision' : 'Minor Revision';
+    const subject = `${revisionLabel} Requested - ${submission.title}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Revision Requested</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #e67e22; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .info-box { background-color: #ecf0f1; padding: 15px; margin: 15px 0; border-left: 4px solid #3498db; }
+          .deadline-box { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .review-box { background-color: #ffffff; border: 1px solid #ddd; padding: 15px; margin: 10px 0; border-radius: 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #e67e22; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>✏️ ${revisionLabel} Requested</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${userName},</h2>
+            <p>The reviewers have evaluated your submission and the committee asks you to revise it before a final decision is made.</p>
+            
+            <div class="info-box">
+              <h3>Submission Details:</h3>
+              <p><strong>Title:</strong> ${submission.title}</p>
+              <p><strong>Submission ID:</strong> ${submission.id}</p>
+              <p><strong>Decision:</strong> ${revisionLabel}</p>
+            </div>
+            
+            ${adminNotes ? `
+            <div class="info-box">
+              <h3>Notes from the Committee:</h3>
+              <p>${adminNotes}</p>
+            </div>
+            ` : ''}
+            
+            ${reviewerComments.length > 0 ? `
+            <h3>Reviewer Comments:</h3>
+            ${reviewerComments.map((comment, index) => `
+            <div class="review-box">
+              <p><strong>Reviewer ${index + 1}:</strong></p>
+              <p>${comment}</p>
+            </div>
+            `).join('')}
+            ` : ''}
+            
+            <div class="deadline-box">
+              <h3>⏰ Revision Deadline:</h3>
+              <p><strong>${deadline.toLocaleDateString()} at ${deadline.toLocaleTimeString()}</strong></p>
+              <p>Please upload your revised abstract and manuscript together with a response to the reviewers by this date.</p>
+            </div>
+            
+            <p style="text-align: center;">
+              <a href="${this.baseUrl}/submissions" class="button">Submit Revision</a>
+            </p>
+          </div>
+          <div class="footer">
+            <p>International Conference Organization<br>
+            Questions? Contact us at submissions@conference.org</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      ${revisionLabel} Requested
+      
+      Hello ${userName},
+      
+      The reviewers have evaluated your submission and the committee asks you to revise it before a final decision is made.
+      
+      Submission Details:
+      - Title: ${submission.title}
+      - Submission ID: ${submission.id}
+      - Decision: ${revisionLabel}
+      ${adminNotes ? `
+      Notes from the Committee:
+      ${adminNotes}
+      ` : ''}
+      ${reviewerComments.map((comment, index) => `
+      Reviewer ${index + 1}:
+      ${comment}
+      `).join('')}
+      Revision Deadline: ${deadline.toLocaleDateString()} at ${deadline.toLocaleTimeString()}
+      Please upload your revised abstract and manuscript together with a response to the reviewers by this date.
+      
+      Submit your revision at: ${this.baseUrl}/submissions
+      
+      International Conference Organization
+      Questions? Contact us at submissions@conference.org
+    `;
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Revised submission re-review template
+   */
+  private getRevisionReviewRequestTemplate(
+    reviewerName: string, 
+    submission: any, 
+    round: number, 
+    responseLetter: string, 
+    deadline: Date
+  ): EmailTemplate {
+    const subject = `Revised Submission Ready for Review (Round ${round}) - ${submission.title}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Revised Submission</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #16a085; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .info-box { background-color: #ecf0f1; padding: 15px; margin: 15px 0; border-left: 4px solid #3498db; }
+          .response-box { background-color: #ffffff; border: 1px solid #ddd; padding: 15px; margin: 15px 0; border-radius: 5px; white-space: pre-wrap; }
+          .deadline-box { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #16a085; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔁 Revised Submission - Round ${round}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${reviewerName},</h2>
+            <p>The authors of a submission you reviewed have submitted a revised version. As a reviewer of the previous round, you are asked to review it again.</p>
+            
+            <div class="info-box">
+              <h3>Submission Details:</h3>
+              <p><strong>Title:</strong> ${submission.title}</p>
+              <p><strong>Submission ID:</strong> ${submission.id}</p>
+              <p><strong>Review Round:</strong> ${round}</p>
+            </div>
+            
+            <h3>Authors' Response to Reviewers:</h3>
+            <div class="response-box">${responseLetter}</div>
+            
+            <div class="deadline-box">
+              <h3>⏰ Review Deadline:</h3>
+              <p><strong>${deadline.toLocaleDateString()} at ${deadline.toLocaleTimeString()}</strong></p>
+            </div>
+            
+            <p style="text-align: center;">
+              <a href="${this.baseUrl}/reviews" class="button">Review Revision</a>
+            </p>
+            
+            <p>Thank you for your continued contribution to the review process!</p>
+          </div>
+          <div class="footer">
+            <p>International Conference Organization<br>
+            Questions? Contact us at reviews@conference.org</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Revised Submission - Round ${round}
+      
+      Hello ${reviewerName},
+      
+      The authors of a submission you reviewed have submitted a revised version. As a reviewer of the previous round, you are asked to review it again.
+      
+      Submission Details:
+      - Title: ${submission.title}
+      - Submission ID: ${submission.id}
+      - Review Round: ${round}
+      
+      Authors' Response to Reviewers:
+      ${responseLetter}
+      
+      Review Deadline: ${deadline.toLocaleDateString()} at ${deadline.toLocaleTimeString()}
+      
+      Access your review dashboard at: ${this.baseUrl}/reviews
+      
+      Thank you for your continued contribution to the review process!
+      
+      International Conference Organization
+      Questions? Contact us at reviews@conference.org
+    `;
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Co-author invitation template
+   */
+  private getCoAuthorInvitationTemplate(
+    authorName: string, 
+    inviterName: string, 
+    submission: any, 
+    inviteUrl: string
+  ): EmailTemplate {
+    const subject = `You are listed as a co-author - ${submission.title}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Co-author Invitation</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2980b9; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .info-box { background-color: #ecf0f1; padding: 15px; margin: 15px 0; border-left: 4px solid #3498db; }
+          .button { display: inline-block; padding: 12px 24px; background-color: #2980b9; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>👥 Co-author Invitation</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${authorName},</h2>
+            <p>${inviterName} has listed you as a co-author on a conference submission. Link your conference account to follow its progress.</p>
+            
+            <div class="info-box">
+              <h3>Submission Details:</h3>
+              <p><strong>Title:</strong> ${submission.title}</p>
+              <p><strong>Submission ID:</strong> ${submission.id}</p>
+            </div>
+            
+            <p>Sign in (or register) and open the link below. The submission will then appear under "My Submissions".</p>
+            
+            <p style="text-align: center;">
+              <a href="${inviteUrl}" class="button">Link My Account</a>
+            </p>
+            
+            <p>This invitation expires in 30 days.</p>
+          </div>
+          <div class="footer">
+            <p>International Conference Organization<br>
+            Questions? Contact us at submissions@conference.org</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Co-author Invitation
+      
+      Hello ${authorName},
+      
+      ${inviterName} has listed you as a co-author on a conference submission. Link your conference account to follow its progress.
+      
+      Submission Details:
+      - Title: ${submission.title}
+      - Submission ID: ${submission.id}
+      
+      Sign in (or register) and open this link: ${inviteUrl}
+      The submission will then appear under "My Submissions".
+      
+      This invitation expires in 30 days.
+      
+      International Conference Organization
+      Questions? Contact us at submissions@conference.org
+    `;
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Submission withdrawn notice for reviewers
+   */
+  private getSubmissionWithdrawnTemplate(reviewerName: string, submission: any, reviewCompleted: boolean): EmailTemplate {
+    const subject = `Submission Withdrawn - ${submission.title}`;
+    const assignmentNote = reviewCompleted
+      ? 'Thank you for the review you already completed; it is kept on record.'
+      : 'Your pending review assignment for this submission has been closed and no further action is needed.';
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Submission Withdrawn</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #7f8c8d; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .info-box { background-color: #ecf0f1; padding: 15px; margin: 15px 0; border-left: 4px solid #7f8c8d; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Submission Withdrawn</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${reviewerName},</h2>
+            <p>The authors have withdrawn a submission you were assigned to review.</p>
+            
+            <div class="info-box">
+              <h3>Submission Details:</h3>
+              <p><strong>Title:</strong> ${submission.title}</p>
+              <p><strong>Submission ID:</strong> ${submission.id}</p>
+            </div>
+            
+            <p>${assignmentNote}</p>
+          </div>
+          <div class="footer">
+            <p>International Conference Organization<br>
+            Questions? Contact us at reviews@conference.org</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Submission Withdrawn
+      
+      Hello ${reviewerName},
+      
+      The authors have withdrawn a submission you were assigned to review.
+      
+      Submission Details:
+      - Title: ${submission.title}
+      - Submission ID: ${submission.id}
+      
+      ${assignmentNote}
+      
+      International Conference Organization
+      Questions? Contact us at reviews@conference.org
+    `;
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Presentation type proposal for the submitting author
+   */
+  private getPresentationTypeProposalTemplate(
+    authorName: string, 
+    submission: any, 
+    proposal: PresentationTypeProposal, 
+    respondUrl: string
+  ): EmailTemplate {
+    const subject = `Proposed ${proposal.proposedType} presentation - ${submission.title}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Presentation Type Proposal</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #27ae60; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background-color: #f9f9f9; }
+          .info-box { background-color: #ecf0f1; padding: 15px; margin: 15px 0; border-left: 4px solid #3498db; }
+          .notes-box { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; margin: 15px 0; border-radius: 5px; }
+          .button { display: inline-block; padding: 12px 24px; color: white; text-decoration: none; border-radius: 5px; margin: 20px 10px; }
+          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Presentation Type Proposal</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${authorName},</h2>
+            <p>The program committee would like to include your accepted submission as a <strong>${proposal.proposedType}</strong> presentation instead of the <strong>${proposal.currentType}</strong> presentation you submitted.</p>
+            
+            <div class="info-box">
+              <h3>Submission Details:</h3>
+              <p><strong>Title:</strong> ${submission.title}</p>
+              <p><strong>Submission ID:</strong> ${submission.id}</p>
+            </div>
+            
+            ${proposal.adminNotes ? `
+            <div class="notes-box">
+              <h3>Committee Notes:</h3>
+              <p>${proposal.adminNotes}</p>
+            </div>
+            ` : ''}
+            
+            <p>Your presentation type only changes if you agree. If you decline, the committee will reconsider your submission together with your comment.</p>
+            
+            <p style="text-align: center;">
+              <a href="${respondUrl}&response=accept" class="button" style="background-color: #27ae60;">Accept ${proposal.proposedType}</a>
+              <a href="${respondUrl}&response=decline" class="button" style="background-color: #7f8c8d;">Decline</a>
+            </p>
+          </div>
+          <div class="footer">
+            <p>International Conference Organization<br>
+            Questions? Contact us at submissions@conference.org</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Presentation Type Proposal
+      
+      Hello ${authorName},
+      
+      The program committee would like to include your accepted submission as a ${proposal.proposedType} presentation instead of the ${proposal.currentType} presentation you submitted.
+      
+      Submission Details:
+      - Title: ${submission.title}
+      - Submission ID: ${submission.id}
+      
+      ${proposal.adminNotes ? `Committee Notes: ${proposal.adminNotes}` : ''}
+      
+      Your presentation type only changes if you agree. If you decline, the committee will reconsider your submission together with your comment.
+      
+      Accept: ${respondUrl}&response=accept
+      Decline: ${respondUrl}&response=decline
+      
+      International Conference Organization
+      Questions? Contact us at submissions@conference.org
+    `;
+
+    return { subject, html, text };
+  }
+
   /**
    * Review reminder template
    */
@@ -4,6 +4,14 @@ import fs from 'fs/promises';
 import { Request } from 'express';
 import crypto from 'crypto';
 import { CompressionService } from './CompressionService.js';
+import {
+  SUBMISSION_FILE_SLOTS,
+  MAX_SUBMISSION_FILE_SIZE,
+  validateSlotFile,
+  matchesFileSignature
+} from '../utils/submissionFiles.js';
+import { ABSTRACT_FIGURE_RULES, readImageDimensions } from '../utils/abstractFigures.js';
+import { SubmissionFileSlot } from '../types/index.js';
 
 export interface FileUploadResult {
   filename: string;
@@ -21,10 +29,12 @@ export interface FileValidationError {
 export class FileService {
   private static readonly UPLOAD_DIR = 'uploads/manuscripts';
   private static readonly PAYMENT_UPLOAD_DIR = 'uploads/payment_proofs';
-  private static readonly MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+  private static readonly SUBMISSION_FILES_DIR = 'uploads/submission_files';
+  private static readonly ABSTRACT_FIGURE_DIR = 'uploads/abstract_figures';
+  private static readonly MAX_FILE_SIZE = SUBMISSION_FILE_SLOTS.manuscript.maxSize; // 10MB
   private static readonly MAX_PAYMENT_FILE_SIZE = 5 * 1024 * 1024; // 5MB for payment proofs
-  private static readonly ALLOWED_MIME_TYPES = ['application/pdf'];
-  private static readonly ALLOWED_EXTENSIONS = ['.pdf'];
+  private static readonly ALLOWED_MIME_TYPES = SUBMISSION_FILE_SLOTS.manuscript.mimeTypes;
+  private static readonly ALLOWED_EXTENSIONS = SUBMISSION_FILE_SLOTS.manuscript.extensions;
   private static readonly PAYMENT_ALLOWED_MIME_TYPES = [
     'application/pdf',
     'image/jpeg',
@@ -47,6 +57,15 @@ export class FileService {
     }
   }
 
+  // Ensure a directory exists
+  private async ensureDirectory(dir: string): Promise<void> {
+    try {
+      await fs.access(dir);
+    } catch {
+      await fs.mkdir(dir, { recursive: true });
+    }
+  }
+
   // Ensure payment upload directory exists
   private async ensurePaymentUploadDirectory(): Promise<void> {
     try {
@@ -148,6 +167,81 @@ export class FileService {
     }
   }
 
+  // Configure multer for supplementary file uploads; the slot comes from the route
+  public getSubmissionFileMulterConfig(): multer.Multer {
+    const storage = multer.diskStorage({
+      destination: async (_req, _file, cb) => {
+        await this.ensureDirectory(FileService.SUBMISSION_FILES_DIR);
+        cb(null, FileService.SUBMISSION_FILES_DIR);
+      },
+      filename: (_req, file, cb) => {
+        const timestamp = Date.now();
+        const randomString = crypto.randomBytes(8).toString('hex');
+        const extension = path.extname(file.originalname).toLowerCase();
+        cb(null, `temp_${timestamp}_${randomString}${extension}`);
+      }
+    });
+
+    return multer({
+      storage,
+      limits: {
+        fileSize: MAX_SUBMISSION_FILE_SIZE,
+        files: 1
+      },
+      fileFilter: (req, file, cb) => {
+        const slot = req.params.slot as SubmissionFileSlot;
+        if (!SUBMISSION_FILE_SLOTS[slot]) {
+          cb(new Error('Unknown file slot'));
+          return;
+        }
+        const validationError = validateSlotFile(slot, { originalName: file.originalname, mimeType: file.mimetype });
+        if (validationError) {
+          cb(new Error(validationError.message));
+          return;
+        }
+        cb(null, true);
+      }
+    });
+  }
+
+  // Check an uploaded supplementary file against its slot's size limit and expected file header
+  public async validateUploadedSlotFile(
+    filePath: string,
+    slot: SubmissionFileSlot,
+    originalName: string
+  ): Promise<FileValidationError | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      const rule = SUBMISSION_FILE_SLOTS[slot];
+
+      if (stats.size > rule.maxSize) {
+        return {
+          code: 'FILE_TOO_LARGE',
+          message: `File size exceeds maximum allowed size of ${rule.maxSize / (1024 * 1024)}MB`
+        };
+      }
+
+      const buffer = Buffer.alloc(16);
+      const fileHandle = await fs.open(filePath, 'r');
+      const { bytesRead } = await fileHandle.read(buffer, 0, 16, 0);
+      await fileHandle.close();
+
+      const extension = path.extname(originalName).toLowerCase();
+      if (!matchesFileSignature(extension, buffer.subarray(0, bytesRead))) {
+        return extension === '.pdf'
+          ? { code: 'INVALID_PDF_FORMAT', message: 'File is not a valid PDF document' }
+          : { code: 'INVALID_FILE_FORMAT', message: `File content does not match the ${extension} format` };
+      }
+
+      return null;
+    } catch (error) {
+      return {
+        code: 'FILE_VALIDATION_ERROR',
+        message: 'Failed to validate uploaded file'
+      };
+    }
+  }
+
   // Get file info
   public async getFileInfo(filePath: string): Promise<{
     exists: boolean;
@@ -215,6 +309,32 @@ export class FileService {
     return compressedPath;
   }
 
+  // Move a supplementary file into the submission's folder, prefixed with its slot
+  public async organizeSubmissionFile(
+    tempPath: string,
+    submissionId: string,
+    slot: SubmissionFileSlot,
+    originalName: string
+  ): Promise<string> {
+    const submissionDir = path.join(FileService.SUBMISSION_FILES_DIR, submissionId);
+    await this.ensureDirectory(submissionDir);
+
+    const timestamp = Date.now();
+    const randomString = crypto.randomBytes(4).toString('hex');
+    const extension = path.extname(originalName).toLowerCase();
+    const organizedPath = path.join(submissionDir, `${slot}_${timestamp}_${randomString}${extension}`);
+
+    await fs.rename(tempPath, organizedPath);
+
+    return organizedPath;
+  }
+
+  // Calculate SHA-256 checksum of a file
+  public async calculateChecksum(filePath: string): Promise<string> {
+    const buffer = await fs.readFile(filePath);
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
   // Get relative path for database storage
   public getRelativePath(absolutePath: string): string {
     const uploadsIndex = absolutePath.indexOf('uploads/');
@@ -233,7 +353,8 @@ export class FileService {
   }
 
   // Enhanced virus scanning and security checks
-  public async scanForViruses(filePath: string): Promise<{ clean: boolean; threat?: string }> {
+  // allowedSignatures lists headers the declared format legitimately starts with (e.g. ZIP for .xlsx)
+  public async scanForViruses(filePath: string, allowedSignatures: string[] = []): Promise<{ clean: boolean; threat?: string }> {
     // This is a placeholder for virus scanning
     // In production, you would integrate with services like:
     // - ClamAV
@@ -270,6 +391,9 @@ export class FileService {
       ];
 
       for (const pattern of suspiciousPatterns) {
+        if (allowedSignatures.includes(pattern)) {
+          continue;
+        }
         if (content.toLowerCase().includes(pattern)) {
           return { clean: false, threat: 'Suspicious file signature detected' };
         }
@@ -537,4 +661,132 @@ export class FileService {
       };
     }
   }
+  // Abstract figure file handling methods
+
+  // Configure multer for abstract figure uploads (one PNG or JPEG image)
+  public getAbstractFigureMulterConfig(): multer.Multer {
+    const storage = multer.diskStorage({
+      destination: async (_req, _file, cb) => {
+        await this.ensureDirectory(FileService.ABSTRACT_FIGURE_DIR);
+        cb(null, FileService.ABSTRACT_FIGURE_DIR);
+      },
+      filename: (_req, file, cb) => {
+        const timestamp = Date.now();
+        const randomString = crypto.randomBytes(8).toString('hex');
+        const extension = path.extname(file.originalname).toLowerCase();
+        cb(null, `temp_${timestamp}_${randomString}${extension}`);
+      }
+    });
+
+    return multer({
+      storage,
+      limits: {
+        fileSize: ABSTRACT_FIGURE_RULES.maxSize,
+        files: 1
+      },
+      fileFilter: (_req, file, cb) => {
+        const validationError = this.validateAbstractFigureFile(file);
+        if (validationError) {
+          cb(new Error(validationError.message));
+          return;
+        }
+        cb(null, true);
+      }
+    });
+  }
+
+  // Validate abstract figure file
+  private validateAbstractFigureFile(file: Express.Multer.File): FileValidationError | null {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!ABSTRACT_FIGURE_RULES.extensions.includes(extension)) {
+      return {
+        code: 'INVALID_FILE_TYPE',
+        message: 'Only PNG and JPEG images are allowed for abstract figures'
+      };
+    }
+
+    if (!ABSTRACT_FIGURE_RULES.mimeTypes.includes(file.mimetype)) {
+      return {
+        code: 'INVALID_MIME_TYPE',
+        message: 'Invalid file type. Only PNG and JPEG images are allowed'
+      };
+    }
+
+    return null;
+  }
+
+  // Validate uploaded abstract figure: size, image header and pixel dimensions
+  public async validateUploadedAbstractFigure(filePath: string): Promise<FileValidationError | null> {
+    try {
+      const stats = await fs.stat(filePath);
+
+      if (stats.size > ABSTRACT_FIGURE_RULES.maxSize) {
+        return {
+          code: 'FILE_TOO_LARGE',
+          message: `File size exceeds maximum allowed size of ${ABSTRACT_FIGURE_RULES.maxSize / (1024 * 1024)}MB`
+        };
+      }
+
+      // JPEG frame headers can follow sizeable metadata segments
+      const buffer = Buffer.alloc(64 * 1024);
+      const fileHandle = await fs.open(filePath, 'r');
+      const { bytesRead } = await fileHandle.read(buffer, 0, buffer.length, 0);
+      await fileHandle.close();
+
+      const header = buffer.subarray(0, bytesRead);
+      const extension = path.extname(filePath).toLowerCase();
+      if (!matchesFileSignature(extension, header)) {
+        return {
+          code: extension === '.png' ? 'INVALID_PNG_FORMAT' : 'INVALID_JPEG_FORMAT',
+          message: `File is not a valid ${extension === '.png' ? 'PNG' : 'JPEG'} image`
+        };
+      }
+
+      const dimensions = readImageDimensions(header);
+      if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+        return {
+          code: 'INVALID_IMAGE',
+          message: 'Image dimensions could not be read'
+        };
+      }
+
+      if (dimensions.width > ABSTRACT_FIGURE_RULES.maxDimension || dimensions.height > ABSTRACT_FIGURE_RULES.maxDimension) {
+        return {
+          code: 'IMAGE_TOO_LARGE',
+          message: `Images may be at most ${ABSTRACT_FIGURE_RULES.maxDimension} pixels wide or high`
+        };
+      }
+
+      return null;
+    } catch (error) {
+      return {
+        code: 'FILE_VALIDATION_ERROR',
+        message: 'Failed to validate uploaded abstract figure'
+      };
+    }
+  }
+
+  // Move an abstract figure into its submission's folder
+  public async organizeAbstractFigure(tempPath: string, submissionId: string): Promise<string> {
+    const submissionDir = path.join(FileService.ABSTRACT_FIGURE_DIR, submissionId);
+    await this.ensureDirectory(submissionDir);
+
+    const timestamp = Date.now();
+    const randomString = crypto.randomBytes(4).toString('hex');
+    const extension = path.extname(tempPath).toLowerCase();
+    const organizedPath = path.join(submissionDir, `figure_${timestamp}_${randomString}${extension}`);
+
+    await fs.rename(tempPath, organizedPath);
+
+    return organizedPath;
+  }
+
+  // Read a stored abstract figure, or null if the file is gone
+  public async readAbstractFigure(relativePath: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.getAbsolutePath(relativePath));
+    } catch {
+      return null;
+    }
+  }
 }
\ No newline at end of file
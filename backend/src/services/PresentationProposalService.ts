@@ -0,0 +1,43 @@
+import { EmailService } from './EmailService.js';
+import { PresentationProposalRepository } from '../models/PresentationProposalRepository.js';
+import { UserRepository } from '../models/UserRepository.js';
+import { PresentationType, PresentationTypeProposal, Submission } from '../types/index.js';
+
+export class PresentationProposalService {
+  private emailService: EmailService;
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Propose another presentation type for an accepted submission and email the submitting
+   * author a link to accept or decline it. The submission keeps its type until they accept.
+   */
+  async propose(submission: Submission, proposal: {
+    proposedType: PresentationType;
+    proposedBy?: string;
+    adminNotes?: string;
+  }): Promise<PresentationTypeProposal> {
+    const created = await PresentationProposalRepository.create({
+      submissionId: submission.id,
+      currentType: submission.presentationType,
+      proposedType: proposal.proposedType,
+      proposedBy: proposal.proposedBy,
+      adminNotes: proposal.adminNotes
+    });
+
+    try {
+      const author = await UserRepository.findById(submission.userId);
+      if (author) {
+        await this.emailService.sendPresentationTypeProposalEmail(author.email, author.firstName, submission, created);
+      }
+    } catch (emailError) {
+      console.error('Failed to send presentation type proposal email:', emailError);
+    }
+
+    return created;
+  }
+}
+
+export const presentationProposalService = new PresentationProposalService();
@@ -0,0 +1,141 @@
+import { SimilarityRepository, SimilarityCorpusEntry } from '../models/SimilarityRepository.js';
+import {
+  tokenize,
+  shingle,
+  minhash,
+  estimateJaccard,
+  jaccard,
+  combineScores,
+  diffText,
+  SimilarityScores,
+  DiffSegment
+} from '../utils/similarity.js';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = parseFloat(process.env.SIMILARITY_THRESHOLD || '0.5');
+
+// MinHash estimates are noisy; compare exactly whenever the estimate comes this close
+const CANDIDATE_MARGIN = 0.15;
+
+interface Fingerprint {
+  entry: SimilarityCorpusEntry;
+  titleShingles: Set<string>;
+  abstractShingles: Set<string>;
+  signature: number[];
+}
+
+export interface SimilarityMatch extends SimilarityScores {
+  submissionId: string;
+  similarSubmissionId: string;
+}
+
+export interface SimilarityDiff {
+  left: SimilarityCorpusEntry;
+  right: SimilarityCorpusEntry;
+  scores: SimilarityScores;
+  titleDiff: DiffSegment[];
+  abstractDiff: DiffSegment[];
+}
+
+export class SimilarityService {
+  private fingerprint(entry: SimilarityCorpusEntry): Fingerprint {
+    const abstractShingles = shingle(tokenize(entry.abstract));
+    return {
+      entry,
+      titleShingles: shingle(tokenize(entry.title)),
+      abstractShingles,
+      signature: minhash(abstractShingles)
+    };
+  }
+
+  private compare(a: Fingerprint, b: Fingerprint, threshold: number): SimilarityScores | null {
+    const estimate = estimateJaccard(a.signature, b.signature);
+    const titleScore = jaccard(a.titleShingles, b.titleShingles);
+
+    // Skip the exact comparison unless the abstract estimate or the title could reach the threshold
+    if (estimate < threshold - CANDIDATE_MARGIN && combineScores(titleScore, estimate + CANDIDATE_MARGIN).score < threshold) {
+      return null;
+    }
+
+    const scores = combineScores(titleScore, jaccard(a.abstractShingles, b.abstractShingles));
+    return scores.score >= threshold ? scores : null;
+  }
+
+  /**
+   * Compare one submission against every other finalized submission and record flagged pairs
+   */
+  async checkSubmission(submissionId: string, threshold: number = DEFAULT_SIMILARITY_THRESHOLD): Promise<SimilarityMatch[]> {
+    const corpus = await SimilarityRepository.findCorpus();
+    const target = corpus.find(entry => entry.id === submissionId);
+    if (!target) {
+      return [];
+    }
+
+    const targetPrint = this.fingerprint(target);
+    const matches: SimilarityMatch[] = [];
+
+    for (const entry of corpus) {
+      if (entry.id === submissionId) continue;
+
+      const scores = this.compare(targetPrint, this.fingerprint(entry), threshold);
+      if (scores) {
+        matches.push({ submissionId, similarSubmissionId: entry.id, ...scores });
+      }
+    }
+
+    for (const match of matches) {
+      await SimilarityRepository.upsertFlag(match.submissionId, match.similarSubmissionId, match);
+    }
+    await SimilarityRepository.clearOpenFlags(submissionId, matches.map(match => match.similarSubmissionId));
+
+    return matches;
+  }
+
+  /**
+   * Compare every pair of finalized submissions and record flagged pairs
+   */
+  async scanAll(threshold: number = DEFAULT_SIMILARITY_THRESHOLD): Promise<{ compared: number; flagged: number }> {
+    const prints = (await SimilarityRepository.findCorpus()).map(entry => this.fingerprint(entry));
+    let flagged = 0;
+
+    for (let i = 0; i < prints.length; i++) {
+      for (let j = i + 1; j < prints.length; j++) {
+        const scores = this.compare(prints[i], prints[j], threshold);
+        if (scores) {
+          await SimilarityRepository.upsertFlag(prints[i].entry.id, prints[j].entry.id, scores);
+          flagged++;
+        }
+      }
+    }
+
+    return { compared: (prints.length * (prints.length - 1)) / 2, flagged };
+  }
+
+  /**
+   * Side-by-side comparison of two submissions
+   */
+  async getDiff(leftId: string, rightId: string): Promise<SimilarityDiff | null> {
+    const [left, right] = await Promise.all([
+      SimilarityRepository.findCorpusEntry(leftId),
+      SimilarityRepository.findCorpusEntry(rightId)
+    ]);
+    if (!left || !right) {
+      return null;
+    }
+
+    const leftPrint = this.fingerprint(left);
+    const rightPrint = this.fingerprint(right);
+
+    return {
+      left,
+      right,
+      scores: combineScores(
+        jaccard(leftPrint.titleShingles, rightPrint.titleShingles),
+        jaccard(leftPrint.abstractShingles, rightPrint.abstractShingles)
+      ),
+      titleDiff: diffText(left.title, right.title),
+      abstractDiff: diffText(left.abstract, right.abstract)
+    };
+  }
+}
+
+export const similarityService = new SimilarityService();
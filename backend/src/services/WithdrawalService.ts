@@ -0,0 +1,49 @@
+import { PoolClient } from 'pg';
+import { EmailService } from './EmailService.js';
+import { Database } from '../database/connection.js';
+import { SubmissionRepository } from '../models/SubmissionRepository.js';
+import { ReviewRepository } from '../models/ReviewRepository.js';
+import { Submission } from '../types/index.js';
+
+export class WithdrawalService {
+  private emailService: EmailService;
+
+  constructor() {
+    this.emailService = new EmailService();
+  }
+
+  /**
+   * Move a submission to withdrawn, close its unfinished review assignments and notify
+   * every assigned reviewer. The submission and its completed reviews are kept for reporting.
+   */
+  async withdraw(submissionId: string, change: {
+    changedBy: string;
+    reason: string;
+    adminNotes?: string;
+  }): Promise<Submission | null> {
+    // An open assignment of a withdrawn submission could still be submitted, so both change together
+    const submission = await Database.transaction(async (client: PoolClient) => {
+      const withdrawn = await SubmissionRepository.transitionStatus(client, submissionId, 'withdrawn', change);
+      if (withdrawn) {
+        await ReviewRepository.closePendingAssignments(client, submissionId);
+      }
+      return withdrawn;
+    });
+    if (!submission) {
+      return null;
+    }
+
+    const reviewers = await ReviewRepository.getSubmissionReviewers(submissionId);
+    for (const reviewer of reviewers) {
+      try {
+        await this.emailService.sendSubmissionWithdrawnEmail(reviewer.email, reviewer.name, submission, reviewer.isCompleted);
+      } catch (emailError) {
+        console.error('Failed to send submission withdrawn email:', emailError);
+      }
+    }
+
+    return submission;
+  }
+}
+
+export const withdrawalService = new WithdrawalService();
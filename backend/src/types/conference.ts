@@ -1,4 +1,5 @@
-import { BaseEntity, SessionType, ParticipantType } from './database.js';
+import { BaseEntity, SessionType, ParticipantType, PresentationType, ReviewMode } from './database.js';
+import { ReviewRubric } from './review.js';
 
 export interface Conference extends BaseEntity {
   name: string;
@@ -8,7 +9,20 @@ export interface Conference extends BaseEntity {
   venue: string;
   registrationDeadline: Date;
   submissionDeadline: Date;
+  submissionGraceMinutes: number;
   isActive: boolean;
+  reviewMode: ReviewMode;
+  emailSettings: EmailSettings;
+  // Saved abstract book template; unset uses the built-in default
+  abstractBookTemplate?: Record<string, any>;
+  // Edition this one was cloned from
+  clonedFrom?: string;
+}
+
+// Per-edition overrides for outgoing email
+export interface EmailSettings {
+  fromName?: string;
+  replyTo?: string;
 }
 
 export interface Session extends BaseEntity {
@@ -18,6 +32,24 @@ export interface Session extends BaseEntity {
   description?: string;
 }
 
+export interface TrackChair {
+  name: string;
+  email?: string;
+  affiliation?: string;
+}
+
+export interface Track extends BaseEntity {
+  conferenceId: string;
+  code: SessionType;
+  name: string;
+  description?: string;
+  guidelines?: string;
+  color: string;
+  chairs: TrackChair[];
+  sortOrder: number;
+  isActive: boolean;
+}
+
 export interface SessionSchedule extends BaseEntity {
   sessionId: string;
   startTime: Date;
@@ -26,6 +58,41 @@ export interface SessionSchedule extends BaseEntity {
   description?: string;
 }
 
+export interface SessionPolicyRules {
+  minAbstractWords: number;
+  maxAbstractWords: number;
+  minKeywords: number;
+  maxKeywords: number;
+  allowedPresentationTypes: PresentationType[];
+}
+
+export interface SessionPolicy extends BaseEntity, SessionPolicyRules {
+  sessionType: SessionType;
+  updatedBy?: string;
+}
+
+export interface DeadlineExtension {
+  id: string;
+  conferenceId: string;
+  userId?: string;
+  submissionId?: string;
+  extendedUntil: Date;
+  reason: string;
+  grantedBy?: string;
+  createdAt: Date;
+  // Joined for admin listings
+  userName?: string;
+  userEmail?: string;
+  submissionTitle?: string;
+}
+
+export interface CreateDeadlineExtensionRequest {
+  userId?: string;
+  submissionId?: string;
+  extendedUntil: Date;
+  reason: string;
+}
+
 export interface RegistrationFee extends BaseEntity {
   conferenceId: string;
   participantType: ParticipantType;
@@ -68,7 +135,77 @@ export interface UpdateConferenceRequest {
   venue?: string;
   registrationDeadline?: Date;
   submissionDeadline?: Date;
+  submissionGraceMinutes?: number;
   isActive?: boolean;
+  reviewMode?: ReviewMode;
+}
+
+export type UpdateSessionPolicyRequest = Partial<SessionPolicyRules>;
+
+export interface CreateTrackRequest {
+  code: SessionType;
+  name: string;
+  description?: string;
+  guidelines?: string;
+  color?: string;
+  chairs?: TrackChair[];
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export type UpdateTrackRequest = Partial<CreateTrackRequest>;
+
+export interface CloneConferenceRequest {
+  name: string;
+  description?: string;
+  venue?: string;
+  // Whole days added to every date of the source edition; negative moves them back
+  dateOffsetDays: number;
+  // Only return the plan
+  dryRun?: boolean;
+}
+
+// Everything a clone creates, shown as the dry-run preview before anything is written
+export interface ConferenceClonePlan {
+  sourceConferenceId: string;
+  dateOffsetDays: number;
+  conference: {
+    name: string;
+    description?: string;
+    // Calendar dates as YYYY-MM-DD
+    startDate: string;
+    endDate: string;
+    venue: string;
+    registrationDeadline: Date;
+    submissionDeadline: Date;
+    submissionGraceMinutes: number;
+    reviewMode: ReviewMode;
+    emailSettings: EmailSettings;
+    abstractBookTemplate?: Record<string, any>;
+  };
+  tracks: Array<Omit<Track, keyof BaseEntity | 'conferenceId'>>;
+  sessions: Array<{
+    type: SessionType;
+    name: string;
+    description?: string;
+    schedules: Array<Omit<SessionScheduleResponse, 'id'>>;
+  }>;
+  registrationFees: Array<Omit<RegistrationFeeResponse, 'id'>>;
+  sessionPolicies: Array<SessionPolicyRules & { sessionType: SessionType }>;
+  paymentInstructions: Omit<PaymentInstructionsResponse, 'id'> | null;
+  reviewRubrics: Array<Pick<ReviewRubric, 'sessionType' | 'name' | 'criteria'>>;
+}
+
+// One edition in the list of all editions
+export interface ConferenceSummary {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  venue: string;
+  isActive: boolean;
+  // The edition new registrations and submissions go to
+  isCurrent: boolean;
 }
 
 export interface ConferenceResponse {
@@ -80,7 +217,11 @@ export interface ConferenceResponse {
   venue: string;
   registrationDeadline: Date;
   submissionDeadline: Date;
+  submissionGraceMinutes: number;
   isActive: boolean;
+  reviewMode: ReviewMode;
+  clonedFrom?: string;
+  tracks: Track[];
   sessions: SessionResponse[];
   registrationFees: RegistrationFeeResponse[];
   paymentInstructions?: PaymentInstructionsResponse;
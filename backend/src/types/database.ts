@@ -28,13 +28,18 @@ export type UserRole = 'participant' | 'presenter' | 'organizer' | 'reviewer' |
 
 export type PaymentStatus = 'not_paid' | 'payment_submitted' | 'payment_verified' | 'payment_rejected';
 
-export type SessionType = 'CHE' | 'CSE' | 'BIO' | 'MST' | 'PFD';
+// Code of a track in the conference's track catalogue (tracks.code), e.g. 'CHE'
+export type SessionType = string;
 
 export type PresentationType = 'oral' | 'poster';
 
-export type SubmissionStatus = 'submitted' | 'under_review' | 'accepted' | 'rejected';
+export type SubmissionStatus = 'draft' | 'submitted' | 'under_review' | 'revision_requested' | 'revised' | 'accepted' | 'rejected' | 'withdrawn';
 
 export type ReviewRecommendation = 'accept' | 'reject' | 'minor_revision' | 'major_revision';
+// Who sees whose identity during review, see migration 022
+export type ReviewMode = 'none' | 'single_blind' | 'double_blind';
+
+export type RevisionType = Extract<ReviewRecommendation, 'minor_revision' | 'major_revision'>;
 
 export type PaymentMethod = 'bank_transfer' | 'credit_card' | 'other';
 
@@ -7,6 +7,7 @@ export * from './submission.js';
 export * from './review.js';
 export * from './payment.js';
 export * from './conference.js';
+export * from './organization.js';
 
 // Export auth types
 export interface AuthenticatedRequest extends Request {
@@ -0,0 +1,27 @@
+import { BaseEntity } from './database.js';
+
+// Admin-curated institution that authors and users pick their affiliation from
+export interface Organization extends BaseEntity {
+  name: string;
+  shortName?: string;
+  aliases: string[];
+  city?: string;
+  country?: string;
+}
+
+// DTOs for API requests
+export interface CreateOrganizationRequest {
+  name: string;
+  shortName?: string;
+  aliases?: string[];
+  city?: string;
+  country?: string;
+}
+
+export interface UpdateOrganizationRequest {
+  name?: string;
+  shortName?: string;
+  aliases?: string[];
+  city?: string;
+  country?: string;
+}
@@ -2,6 +2,7 @@ import { BaseEntity, PaymentMethod, PaymentRecordStatus } from './database.js';
 
 export interface PaymentRecord extends BaseEntity {
   userId: string;
+  conferenceId: string;
   amount: number;
   currency: string;
   paymentMethod: PaymentMethod;
@@ -30,6 +31,7 @@ export interface UpdatePaymentStatusRequest {
 export interface PaymentResponse {
   id: string;
   userId: string;
+  conferenceId: string;
   amount: number;
   currency: string;
   paymentMethod: PaymentMethod;
@@ -1,4 +1,5 @@
-import { BaseEntity, ReviewRecommendation } from './database.js';
+import { BaseEntity, ReviewRecommendation, SessionType } from './database.js';
+import { ConflictMatch } from './submission.js';
 
 export interface Review extends BaseEntity {
   submissionId: string;
@@ -8,6 +9,14 @@ export interface Review extends BaseEntity {
   recommendation?: ReviewRecommendation;
   reviewDate: Date;
   isCompleted: boolean;
+  round: number;
+  manuscriptVersionId?: string;
+  // Set when the submission was withdrawn before the review was completed
+  closedAt?: Date;
+  // Rubric the review was scored with, its score per criterion key and their weighted mean
+  rubricId?: string;
+  criteriaScores?: Record<string, number>;
+  weightedScore?: number;
 }
 
 // DTOs for API requests/responses
@@ -22,6 +31,17 @@ export interface UpdateReviewRequest {
   score?: number;
   comments?: string;
   recommendation?: ReviewRecommendation;
+  rubricId?: string;
+  criteriaScores?: Record<string, number>;
+  weightedScore?: number;
+}
+
+export interface SubmitReviewRequest {
+  // Required when no rubric applies; otherwise derived from the criterion scores
+  score?: number;
+  criteriaScores?: Record<string, number>;
+  comments: string;
+  recommendation: ReviewRecommendation;
 }
 
 export interface ReviewResponse {
@@ -33,13 +53,112 @@ export interface ReviewResponse {
   recommendation?: ReviewRecommendation;
   reviewDate: Date;
   isCompleted: boolean;
+  round: number;
+  manuscriptVersionId?: string;
+  closedAt?: Date;
+  rubricId?: string;
+  criteriaScores?: Record<string, number>;
+  weightedScore?: number;
   createdAt: Date;
   updatedAt?: Date;
 }
 
+export interface RubricCriterion {
+  // Stable identifier the criterion scores of reviews are stored under
+  key: string;
+  label: string;
+  description?: string;
+  weight: number;
+}
+
+export interface ReviewRubric extends BaseEntity {
+  conferenceId: string;
+  // Track the rubric applies to; unset for the conference-wide rubric
+  sessionType?: SessionType;
+  name: string;
+  criteria: RubricCriterion[];
+  updatedBy?: string;
+}
+
+export interface SaveReviewRubricRequest {
+  sessionType?: SessionType | null;
+  name: string;
+  criteria: RubricCriterion[];
+}
+
+export interface CriterionReviewStats {
+  key: string;
+  label: string;
+  weight: number;
+  averageScore: number | null;
+  reviewCount: number;
+}
+
+export interface SubmissionReviewStats {
+  totalReviews: number;
+  completedReviews: number;
+  averageScore: number | null;
+  // Per-criterion results of the reviews scored with a rubric
+  criteria: CriterionReviewStats[];
+}
+
 export interface ReviewAssignmentRequest {
   submissionId: string;
   reviewerId: string;
+  // Assign despite a declared or detected conflict of interest (admins only)
+  overrideConflict?: {
+    reason: string;
+  };
+}
+
+// Settings of a batch assignment run over every under-reviewed submission of an edition
+export interface AutoAssignmentRequest {
+  reviewersPerPaper: number;
+  maxLoad: number;
+  requireSessionExpertise: boolean;
+}
+
+export interface AutoAssignmentProposalItem {
+  submissionId: string;
+  submissionTitle: string;
+  sessionType: string;
+  reviewerId: string;
+  reviewerName: string;
+  matchQuality: number;
+  matchReason: string;
+}
+
+// What the optimizer would assign; nothing is stored until the admin commits it
+export interface AutoAssignmentProposal {
+  settings: AutoAssignmentRequest;
+  assignments: AutoAssignmentProposalItem[];
+  unfilled: Array<{ submissionId: string; submissionTitle: string; missing: number }>;
+  reviewerLoads: Array<{ reviewerId: string; name: string; currentLoad: number; proposedLoad: number }>;
+  totalQuality: number;
+}
+
+// The limits of the proposal are checked again when it is stored
+export interface CommitAutoAssignmentRequest {
+  reviewersPerPaper: number;
+  maxLoad: number;
+  assignments: Array<{ submissionId: string; reviewerId: string }>;
+}
+
+export interface CommitAutoAssignmentResult {
+  assigned: ReviewResponse[];
+  skipped: Array<{ submissionId: string; reviewerId: string; reason: string }>;
+}
+
+// Recorded when an admin assigns a reviewer despite a conflict of interest
+export interface ConflictOverride {
+  id: string;
+  submissionId: string;
+  reviewerId: string;
+  reviewId?: string;
+  conflicts: ConflictMatch[];
+  reason: string;
+  overriddenBy?: string;
+  createdAt: Date;
 }
 
 export interface ReviewerAssignment {
@@ -1,4 +1,4 @@
-import { BaseEntity, SessionType, PresentationType, SubmissionStatus } from './database.js';
+import { BaseEntity, SessionType, PresentationType, SubmissionStatus, RevisionType, ReviewRecommendation } from './database.js';
 import { ReviewResponse } from './review.js';
 
 export interface Submission extends BaseEntity {
@@ -13,17 +13,66 @@ export interface Submission extends BaseEntity {
   submissionDate: Date;
   manuscriptPath?: string;
   correspondingAuthor: string;
+  revisionRound?: number;
+  revisionDeadline?: Date | null;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
+  abstractFigurePath?: string;
+  abstractFigureMimeType?: string;
+  abstractFigureCaption?: string;
 }
 
-export interface Author extends BaseEntity {
+// One entry of an abstract's reference list; not counted towards the abstract word limit
+export interface AbstractReference {
+  authors: string;
+  title: string;
+  // Journal, proceedings or book the work appeared in
+  source?: string;
+  year?: number;
+  doi?: string;
+  url?: string;
+}
+
+// People, institutions and email domains the authors do not want reviewing their submission
+export interface ConflictOfInterestDeclaration {
+  people: { name: string; email?: string }[];
+  institutions: string[];
+  emailDomains: string[];
+}
+
+// One conflict that applies to a given reviewer: declared by the authors (person, institution,
+// email_domain) or detected from the author list (authorship, shared_*, coauthorship)
+export interface ConflictMatch {
+  type: 'person' | 'institution' | 'email_domain' | 'authorship' | 'shared_affiliation' | 'shared_email_domain' | 'coauthorship';
+  value: string;
+  reason: string;
+}
+
+// Structured affiliation; organizationId links a curated organization
+export interface AuthorAffiliation {
+  organizationId?: string;
+  institution?: string;
+  department?: string;
+  city?: string;
+  country?: string;
+}
+
+export interface Author extends BaseEntity, AuthorAffiliation {
   submissionId: string;
   name: string;
   affiliation: string;
   email: string;
   isCorresponding: boolean;
   authorOrder: number;
+  orcid?: string;
+  userId?: string;
+  canEdit?: boolean;
+  invitedAt?: Date;
 }
 
+// How a user relates to a submission: the submitter, a co-author with edit rights, or a read-only co-author
+export type SubmissionAccessLevel = 'owner' | 'editor' | 'viewer';
+
 // DTOs for API requests/responses
 export interface CreateSubmissionRequest {
   title: string;
@@ -33,14 +82,30 @@ export interface CreateSubmissionRequest {
   presentationType: PresentationType;
   authors: CreateAuthorRequest[];
   correspondingAuthor: string;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
 }
 
-export interface CreateAuthorRequest {
+// Autosaved draft: every field is optional and may be incomplete
+export interface SaveDraftRequest {
+  title?: string;
+  abstract?: string;
+  keywords?: string[];
+  sessionType?: SessionType | null;
+  presentationType?: PresentationType | null;
+  authors?: CreateAuthorRequest[];
+  correspondingAuthor?: string;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
+}
+
+export interface CreateAuthorRequest extends AuthorAffiliation {
   name: string;
   affiliation: string;
   email: string;
   isCorresponding: boolean;
   authorOrder: number;
+  orcid?: string;
 }
 
 export interface UpdateSubmissionRequest {
@@ -51,6 +116,8 @@ export interface UpdateSubmissionRequest {
   presentationType?: PresentationType;
   authors?: CreateAuthorRequest[];
   correspondingAuthor?: string;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
 }
 
 export interface SubmissionResponse {
@@ -66,18 +133,278 @@ export interface SubmissionResponse {
   submissionDate: Date;
   manuscriptPath?: string;
   correspondingAuthor: string;
+  revisionRound?: number;
+  revisionDeadline?: Date | null;
   authors: AuthorResponse[];
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
+  abstractFigurePath?: string;
+  abstractFigureMimeType?: string;
+  abstractFigureCaption?: string;
+  accessLevel?: SubmissionAccessLevel;
   createdAt: Date;
   updatedAt?: Date;
 }
 
-export interface AuthorResponse {
+// Full-text search results with ts_headline snippets (matches wrapped in <mark>)
+export interface SubmissionSearchHit extends SubmissionResponse {
+  rank: number;
+  highlights: {
+    title: string;
+    abstract: string;
+  };
+}
+
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SubmissionSearchResult {
+  submissions: SubmissionSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  facets: {
+    keywords: SearchFacetCount[];
+    sessionType: SearchFacetCount[];
+    status: SearchFacetCount[];
+    presentationType: SearchFacetCount[];
+  };
+}
+
+export interface AuthorResponse extends AuthorAffiliation {
   id: string;
   name: string;
   affiliation: string;
   email: string;
   isCorresponding: boolean;
   authorOrder: number;
+  orcid?: string;
+  organizationName?: string;
+  userId?: string;
+  canEdit?: boolean;
+  invitedAt?: Date;
+}
+
+export interface ManuscriptVersion extends BaseEntity {
+  submissionId: string;
+  versionNumber: number;
+  filePath: string;
+  originalName: string;
+  fileSize?: number;
+  sha256?: string;
+  uploadedBy?: string;
+  changeNote?: string;
+  isCameraReady: boolean;
+}
+
+export interface SubmissionRevision extends BaseEntity {
+  submissionId: string;
+  round: number;
+  revisionType: RevisionType;
+  requestedBy?: string;
+  requestNotes?: string;
+  deadline: Date;
+  requestedAt: Date;
+  reviewedTitle: string;
+  reviewedAbstract: string;
+  reviewedManuscriptPath?: string;
+  responseLetter?: string;
+  submittedAt?: Date;
+}
+
+export interface RequestRevisionRequest {
+  revisionType: RevisionType;
+  deadline: Date;
+  adminNotes?: string;
+}
+
+export interface SubmitRevisionRequest {
+  title?: string;
+  abstract?: string;
+  keywords?: string[];
+  responseLetter: string;
+}
+
+export interface SubmissionStatusHistoryEntry {
+  id: string;
+  submissionId: string;
+  fromStatus?: SubmissionStatus;
+  toStatus: SubmissionStatus;
+  changedBy?: string;
+  changedByName?: string;
+  changedByRole?: string;
+  reason?: string;
+  adminNotes?: string;
+  createdAt: Date;
+}
+
+export interface UpdateSubmissionStatusRequest {
+  status: SubmissionStatus;
+  reason?: string;
+  adminNotes?: string;
+  // Only with an acceptance: ask the authors to present in another format
+  proposedPresentationType?: PresentationType;
+}
+
+// Bulk program committee decisions; author emails are held until the batch is released
+export type DecisionStatus = Extract<SubmissionStatus, 'accepted' | 'rejected'>;
+export type RecommendationConsensus = 'accept' | 'reject' | 'revision' | 'split' | 'none';
+
+export interface DecisionCriteria {
+  sessionTypes?: SessionType[];
+  statuses?: SubmissionStatus[];
+  minAverageScore?: number;
+  maxAverageScore?: number;
+  minCompletedReviews?: number;
+  consensus?: RecommendationConsensus[];
+}
+
+export interface DecisionCandidate {
+  id: string;
+  title: string;
+  sessionType: SessionType;
+  status: SubmissionStatus;
+  averageScore: number | null;
+  completedReviews: number;
+  recommendations: ReviewRecommendation[];
+  consensus?: RecommendationConsensus;
+}
+
+export interface DecisionBatch {
+  id: string;
+  conferenceId: string;
+  decision: DecisionStatus;
+  criteria: DecisionCriteria;
+  adminNotes?: string;
+  createdBy?: string;
+  releasedBy?: string;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  // Joined data
+  createdByName?: string;
+  itemCount?: number;
+  notifiedCount?: number;
+}
+
+export interface DecisionBatchItem {
+  id: string;
+  batchId: string;
+  submissionId: string;
+  previousStatus: SubmissionStatus;
+  notifiedAt?: Date;
+  createdAt: Date;
+  // Joined data
+  submissionTitle?: string;
+  authorEmail?: string;
+  authorName?: string;
+}
+
+export interface CreateDecisionBatchRequest {
+  submissionIds: string[];
+  decision: DecisionStatus;
+  adminNotes?: string;
+  criteria?: DecisionCriteria;
+}
+
+export interface DecisionEmailPreview {
+  submissionId: string;
+  submissionTitle: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type WithdrawalStatus = 'pending' | 'confirmed' | 'rejected';
+
+// Author's request to withdraw a submission; confirmed immediately before review starts
+export interface SubmissionWithdrawal {
+  id: string;
+  submissionId: string;
+  requestedBy?: string;
+  reason: string;
+  status: WithdrawalStatus;
+  submissionStatus: SubmissionStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  adminNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Joined for admin listings
+  submissionTitle?: string;
+  requestedByName?: string;
+  requestedByEmail?: string;
+}
+
+export type PresentationProposalStatus = 'pending' | 'accepted' | 'declined';
+
+// Committee proposal to present an accepted submission in another format; applied only with the author's consent
+export interface PresentationTypeProposal {
+  id: string;
+  submissionId: string;
+  currentType: PresentationType;
+  proposedType: PresentationType;
+  status: PresentationProposalStatus;
+  proposedBy?: string;
+  adminNotes?: string;
+  respondedBy?: string;
+  respondedAt?: Date;
+  authorComment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Joined for admin listings
+  submissionTitle?: string;
+  sessionType?: SessionType;
+  authorName?: string;
+  authorEmail?: string;
+}
+
+export interface CreatePresentationProposalRequest {
+  proposedType: PresentationType;
+  adminNotes?: string;
+}
+
+export interface RespondPresentationProposalRequest {
+  decision: 'accept' | 'decline';
+  comment?: string;
+}
+
+export interface RequestWithdrawalRequest {
+  reason: string;
+}
+
+export interface ReviewWithdrawalRequest {
+  decision: 'confirmed' | 'rejected';
+  adminNotes?: string;
+}
+
+export type SubmissionFileSlot = 'manuscript' | 'poster' | 'slides' | 'supplementary';
+
+// Who besides the authors may download a file: assigned reviewers, everyone, or organizers only
+export type FileVisibility = 'reviewers' | 'public' | 'organizers';
+
+export interface SubmissionFile {
+  id: string;
+  submissionId: string;
+  slot: SubmissionFileSlot;
+  originalName: string;
+  filePath: string;
+  fileSize: number;
+  mimeType: string;
+  sha256: string;
+  visibility: FileVisibility;
+  description?: string;
+  uploadedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpdateSubmissionFileRequest {
+  visibility?: FileVisibility;
+  description?: string;
 }
 
 export interface SubmissionWithReviews extends SubmissionResponse {
@@ -85,4 +412,30 @@ export interface SubmissionWithReviews extends SubmissionResponse {
   averageScore?: number;
 }
 
-// ReviewResponse is imported from review types
\ No newline at end of file
+// ReviewResponse is imported from review types
+export type SimilarityFlagStatus = 'open' | 'dismissed' | 'confirmed';
+
+// Pair of submissions flagged as near-duplicates
+export interface SimilarityFlag {
+  id: string;
+  submissionId: string;
+  similarSubmissionId: string;
+  score: number;
+  titleScore: number;
+  abstractScore: number;
+  status: SimilarityFlagStatus;
+  detectedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  submission?: SimilarityFlagSubmission;
+  similarSubmission?: SimilarityFlagSubmission;
+}
+
+export interface SimilarityFlagSubmission {
+  id: string;
+  title: string;
+  sessionType: SessionType;
+  status: SubmissionStatus;
+  submitterName: string;
+  createdAt: Date;
+}
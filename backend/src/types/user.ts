@@ -7,16 +7,35 @@ export interface User extends BaseEntity {
   lastName: string;
   affiliation: string;
   country: string;
+  orcid?: string;
+  organizationId?: string;
+  department?: string;
   participantType: ParticipantType;
   role: UserRole;
   registrationDate: Date;
   isActive: boolean;
   bio?: string;
   expertise?: string[];
+  // Registration for the current edition; not_paid and 0 until the user registers for it
+  isRegistered: boolean;
   paymentStatus: PaymentStatus;
   registrationFee: number;
 }
 
+// A user's registration for one conference edition
+export interface ConferenceRegistration extends BaseEntity {
+  conferenceId: string;
+  userId: string;
+  participantType: ParticipantType;
+  paymentStatus: PaymentStatus;
+  registrationFee: number;
+  registeredAt: Date;
+  // Joined data
+  conferenceName?: string;
+  conferenceStartDate?: Date;
+  conferenceEndDate?: Date;
+}
+
 export interface UserSession extends BaseEntity {
   userId: string;
   sessionType: SessionType;
@@ -30,6 +49,9 @@ export interface CreateUserRequest {
   lastName: string;
   affiliation: string;
   country: string;
+  orcid?: string;
+  organizationId?: string;
+  department?: string;
   participantType: ParticipantType;
   selectedSessions: SessionType[];
   bio?: string;
@@ -41,11 +63,20 @@ export interface UpdateUserRequest {
   lastName?: string;
   affiliation?: string;
   country?: string;
+  orcid?: string | null;
+  organizationId?: string | null;
+  department?: string | null;
   bio?: string;
   expertise?: string[];
   selectedSessions?: SessionType[];
 }
 
+// Register an existing account for the current edition
+export interface RegisterForConferenceRequest {
+  participantType: ParticipantType;
+  selectedSessions: SessionType[];
+}
+
 export interface UserResponse {
   id: string;
   email: string;
@@ -53,12 +84,16 @@ export interface UserResponse {
   lastName: string;
   affiliation: string;
   country: string;
+  orcid?: string;
+  organizationId?: string;
+  department?: string;
   participantType: ParticipantType;
   role: UserRole;
   registrationDate: Date;
   isActive: boolean;
   bio?: string;
   expertise?: string[];
+  isRegistered: boolean;
   paymentStatus: PaymentStatus;
   registrationFee: number;
   selectedSessions: SessionType[];
@@ -0,0 +1,63 @@
+const MB = 1024 * 1024;
+
+/**
+ * Upload rules for the single optional figure an abstract may carry
+ */
+export const ABSTRACT_FIGURE_RULES = {
+  extensions: ['.png', '.jpg', '.jpeg'],
+  mimeTypes: ['image/png', 'image/jpeg'],
+  maxSize: 2 * MB,
+  // Larger images are almost always unscaled camera photos or screenshots
+  maxDimension: 6000,
+  maxCaptionLength: 300
+};
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixel size of a PNG or JPEG image from its header, or null when the data is neither
+ */
+export const readImageDimensions = (buffer: Buffer): ImageDimensions | null => {
+  // PNG: the IHDR chunk follows the 8-byte signature
+  if (buffer.length >= 24 && buffer.subarray(0, 8).toString('hex') === '89504e470d0a1a0a'
+    && buffer.toString('ascii', 12, 16) === 'IHDR') {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the marker segments up to the first start-of-frame
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return null;
+      }
+      const marker = buffer[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      const length = buffer.readUInt16BE(offset + 2);
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Scale an image down to fit a box, keeping its aspect ratio; small images keep their size
+ */
+export const fitImage = (dimensions: ImageDimensions, maxWidth: number, maxHeight: number): ImageDimensions => {
+  const scale = Math.min(1, maxWidth / dimensions.width, maxHeight / dimensions.height);
+  return {
+    width: Math.round(dimensions.width * scale),
+    height: Math.round(dimensions.height * scale)
+  };
+};
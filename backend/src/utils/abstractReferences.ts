@@ -0,0 +1,120 @@
+import type { AbstractReference } from '../types/index.js';
+
+// References sit outside the abstract text, so they never count towards its word limit
+export const MAX_ABSTRACT_REFERENCES = 20;
+
+const DOI_PATTERN = /^10\.\d{4,9}\/\S+$/;
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const clean = (value?: string): string => (value || '').trim().replace(/\s+/g, ' ');
+
+// End a citation part with exactly one full stop; initials and abbreviations already have one
+const sentence = (value: string): string => {
+  const trimmed = value.replace(/[\s,;:]+$/, '');
+  return /[.?!]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+const authorsWithYear = (reference: AbstractReference): string => {
+  const authors = reference.authors.replace(/[\s,;:]+$/, '');
+  if (!reference.year) {
+    return authors ? sentence(authors) : '';
+  }
+  return authors ? `${authors} (${reference.year}).` : `(${reference.year}).`;
+};
+
+/**
+ * Bare DOI (10.xxxx/...) from a DOI entered as a link, a "doi:" label or plain text,
+ * or undefined when it is not a DOI
+ */
+export const normalizeDoi = (value?: string): string | undefined => {
+  const doi = clean(value)
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
+    .replace(/^doi:\s*/i, '');
+  return DOI_PATTERN.test(doi) ? doi : undefined;
+};
+
+/**
+ * Tidy a reference list as entered by the authors: collapse whitespace, normalize DOIs,
+ * keep only http(s) links and drop entries without a title
+ */
+export const normalizeReferences = (references?: Partial<AbstractReference>[] | null): AbstractReference[] => {
+  const normalized: AbstractReference[] = [];
+
+  for (const reference of references || []) {
+    const title = clean(reference.title);
+    if (!title) continue;
+
+    const entry: AbstractReference = { authors: clean(reference.authors), title };
+    const source = clean(reference.source);
+    if (source) entry.source = source;
+    if (reference.year) entry.year = Number(reference.year);
+    const doi = normalizeDoi(reference.doi);
+    if (doi) entry.doi = doi;
+    const url = clean(reference.url);
+    if (/^https?:\/\//i.test(url)) entry.url = url;
+
+    normalized.push(entry);
+  }
+
+  return normalized.slice(0, MAX_ABSTRACT_REFERENCES);
+};
+
+/**
+ * Link a reader can follow: the DOI resolver if there is a DOI, otherwise the given URL
+ */
+export const getReferenceLink = (reference: AbstractReference): string | undefined => {
+  return reference.doi ? `https://doi.org/${reference.doi}` : reference.url;
+};
+
+/**
+ * Plain-text citation: Authors (Year). Title. Source. Link
+ */
+export const formatReference = (reference: AbstractReference): string => {
+  const parts: string[] = [];
+  const authors = authorsWithYear(reference);
+  if (authors) {
+    parts.push(authors);
+  }
+  parts.push(sentence(reference.title));
+  if (reference.source) {
+    parts.push(sentence(reference.source));
+  }
+  const link = getReferenceLink(reference);
+  if (link) {
+    parts.push(link);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Numbered reference list for the abstract book, with the source in italics and a live link
+ */
+export const referencesToHtml = (references: AbstractReference[]): string => {
+  if (references.length === 0) {
+    return '';
+  }
+
+  const items = references.map(reference => {
+    const authors = authorsWithYear(reference);
+    let html = authors ? `${escapeHtml(authors)} ` : '';
+    html += escapeHtml(sentence(reference.title));
+    if (reference.source) {
+      const source = sentence(reference.source);
+      html += ` <em>${escapeHtml(source.slice(0, -1))}</em>${source.slice(-1)}`;
+    }
+    const link = getReferenceLink(reference);
+    if (link) {
+      html += ` <a href="${escapeHtml(link)}">${escapeHtml(link)}</a>`;
+    }
+    return `<li>${html}</li>`;
+  });
+
+  return `<ol class="abstract-references">${items.join('')}</ol>`;
+};
@@ -0,0 +1,75 @@
+interface AffiliationParts {
+  institution?: string;
+  department?: string;
+  city?: string;
+  country?: string;
+}
+
+interface AffiliatedAuthor extends AffiliationParts {
+  affiliation: string;
+  organizationId?: string;
+  organizationName?: string;
+}
+
+export interface NumberedAffiliations {
+  // Affiliation labels in order of first appearance; label i is numbered i + 1
+  affiliations: string[];
+  // Affiliation number of each author, in the order the authors were given
+  authorAffiliations: number[];
+}
+
+const normalize = (value: string): string => {
+  return value.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.,;]+$/, '').trim();
+};
+
+/**
+ * Join structured affiliation parts into a single display line
+ */
+export const formatAffiliation = (parts: AffiliationParts): string => {
+  return [parts.department, parts.institution, parts.city, parts.country]
+    .map(part => part?.trim())
+    .filter((part): part is string => !!part)
+    .join(', ');
+};
+
+/**
+ * Display label for an author's affiliation.
+ * A curated organization name takes precedence over what the author typed.
+ */
+export const getAffiliationLabel = (author: AffiliatedAuthor): string => {
+  const institution = author.organizationName || author.institution;
+  const structured = formatAffiliation({ ...author, institution });
+  return structured || author.affiliation.trim();
+};
+
+/**
+ * Identity used to decide whether two authors share an affiliation.
+ * Authors linked to the same organization and department match regardless of spelling.
+ */
+export const getAffiliationKey = (author: AffiliatedAuthor): string => {
+  if (author.organizationId) {
+    return `org:${author.organizationId}|${normalize(author.department || '')}`;
+  }
+  return `text:${normalize(getAffiliationLabel(author))}`;
+};
+
+/**
+ * Number affiliations by first appearance in author order, one number per distinct affiliation
+ */
+export const numberAffiliations = (authors: AffiliatedAuthor[]): NumberedAffiliations => {
+  const numbers = new Map<string, number>();
+  const affiliations: string[] = [];
+
+  const authorAffiliations = authors.map(author => {
+    const key = getAffiliationKey(author);
+    let number = numbers.get(key);
+    if (number === undefined) {
+      affiliations.push(getAffiliationLabel(author));
+      number = affiliations.length;
+      numbers.set(key, number);
+    }
+    return number;
+  });
+
+  return { affiliations, authorAffiliations };
+};
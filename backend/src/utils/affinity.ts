@@ -0,0 +1,125 @@
+/**
+ * Text affinity between reviewers and submissions. Each side is a bag of tokens: a reviewer's
+ * bio, expertise and earlier abstracts, a submission's title, abstract and keywords. Both are
+ * weighted by TF-IDF over the combined corpus and compared by cosine similarity, so shared
+ * rare terms count for much more than shared common ones.
+ */
+
+// Terms reported to explain a score
+export const AFFINITY_TERMS_LIMIT = 5;
+
+// Single letters and bare numbers carry no topic
+const MIN_TERM_LENGTH = 2;
+
+export interface AffinityDocument {
+  id: string;
+  tokens: string[];
+}
+
+export interface AffinityEntry {
+  submissionId: string;
+  reviewerId: string;
+  // Cosine similarity in [0, 1]
+  score: number;
+  // Terms contributing most to the score, strongest first
+  terms: string[];
+}
+
+type TermVector = Map<string, number>;
+
+const isTerm = (token: string): boolean => token.length >= MIN_TERM_LENGTH && !/^\d+$/.test(token);
+
+const termCounts = (tokens: string[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    if (isTerm(token)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+  }
+  return counts;
+};
+
+/**
+ * Smoothed inverse document frequency of every term in the corpus
+ */
+export const inverseDocumentFrequency = (documents: Map<string, number>[]): Map<string, number> => {
+  const documentFrequency = new Map<string, number>();
+  for (const counts of documents) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const idf = new Map<string, number>();
+  for (const [term, frequency] of documentFrequency) {
+    idf.set(term, Math.log((1 + documents.length) / (1 + frequency)) + 1);
+  }
+  return idf;
+};
+
+// Sublinear term frequency so a term repeated throughout a long bio does not dominate, scaled to unit length
+const weigh = (counts: Map<string, number>, idf: Map<string, number>): TermVector => {
+  const vector: TermVector = new Map();
+  let norm = 0;
+  for (const [term, count] of counts) {
+    const weight = (1 + Math.log(count)) * (idf.get(term) || 0);
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  for (const [term, weight] of vector) {
+    vector.set(term, weight / norm);
+  }
+  return vector;
+};
+
+/**
+ * Affinity of every reviewer to every submission. Pairs without a shared term are left out,
+ * so a missing pair scores 0.
+ */
+export const buildAffinityMatrix = (
+  submissions: AffinityDocument[],
+  reviewers: AffinityDocument[]
+): AffinityEntry[] => {
+  const submissionCounts = submissions.map(submission => termCounts(submission.tokens));
+  const reviewerCounts = reviewers.map(reviewer => termCounts(reviewer.tokens));
+  const idf = inverseDocumentFrequency([...submissionCounts, ...reviewerCounts]);
+
+  // Reviewers by term, so each submission only visits reviewers sharing at least one term
+  const postings = new Map<string, Array<{ reviewer: number; weight: number }>>();
+  reviewerCounts.forEach((counts, reviewer) => {
+    for (const [term, weight] of weigh(counts, idf)) {
+      const list = postings.get(term) || [];
+      list.push({ reviewer, weight });
+      postings.set(term, list);
+    }
+  });
+
+  const entries: AffinityEntry[] = [];
+  submissionCounts.forEach((counts, s) => {
+    const contributions = new Map<number, Array<{ term: string; value: number }>>();
+    for (const [term, weight] of weigh(counts, idf)) {
+      for (const posting of postings.get(term) || []) {
+        const list = contributions.get(posting.reviewer) || [];
+        list.push({ term, value: weight * posting.weight });
+        contributions.set(posting.reviewer, list);
+      }
+    }
+
+    for (const [reviewer, shared] of contributions) {
+      const score = shared.reduce((sum, contribution) => sum + contribution.value, 0);
+      entries.push({
+        submissionId: submissions[s].id,
+        reviewerId: reviewers[reviewer].id,
+        score: Math.min(1, Math.round(score * 10000) / 10000),
+        terms: shared
+          .sort((a, b) => b.value - a.value || a.term.localeCompare(b.term))
+          .slice(0, AFFINITY_TERMS_LIMIT)
+          .map(contribution => contribution.term)
+      });
+    }
+  });
+
+  return entries;
+};
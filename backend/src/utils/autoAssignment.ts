@@ -0,0 +1,283 @@
+// Limits for a batch assignment run
+export const MAX_REVIEWERS_PER_PAPER = 10;
+export const MAX_REVIEWER_LOAD = 50;
+
+// Quality is scored in [0, 1]; costs are integers so ties resolve the same way every run
+const QUALITY_SCALE = 1000;
+// Each further assignment of a reviewer costs as much as 0.01 of match quality, spreading the load
+const LOAD_STEP_COST = 10;
+
+// Share of the match quality that comes from the track, the rest comes from the keywords
+const SESSION_WEIGHT = 0.4;
+const KEYWORD_WEIGHT = 0.6;
+
+export interface AutoAssignmentSubmission {
+  id: string;
+  sessionType: string;
+  keywords: string[];
+  // Reviewers already assigned in the current round
+  assignedReviewerIds: string[];
+}
+
+export interface AutoAssignmentReviewer {
+  id: string;
+  expertise: string[];
+  // Open assignments the reviewer already has
+  currentLoad: number;
+}
+
+export interface AutoAssignmentOptions {
+  reviewersPerPaper: number;
+  maxLoad: number;
+  // Only reviewers whose expertise lists the submission's track are eligible
+  requireSessionExpertise: boolean;
+}
+
+export interface MatchQuality {
+  quality: number;
+  sessionMatch: boolean;
+  matchedKeywords: string[];
+}
+
+export interface ProposedPair {
+  submissionId: string;
+  reviewerId: string;
+  quality: number;
+  sessionMatch: boolean;
+  matchedKeywords: string[];
+}
+
+export interface AssignmentPlan {
+  pairs: ProposedPair[];
+  // Submissions that still lack reviewers, with how many
+  unfilled: { submissionId: string; missing: number }[];
+  totalQuality: number;
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// Key of a submission-reviewer pair, e.g. in the set of conflicted pairs
+export const pairKey = (submissionId: string, reviewerId: string): string => `${submissionId}:${reviewerId}`;
+
+/**
+ * How well a reviewer's expertise fits a submission: expertise in its track counts for 40%,
+ * the share of its keywords the reviewer lists for the remaining 60%. A text affinity in
+ * [0, 1], when given, takes the place of the keyword share.
+ */
+export const scoreMatch = (
+  reviewer: AutoAssignmentReviewer,
+  submission: AutoAssignmentSubmission,
+  affinity?: number
+): MatchQuality => {
+  const expertise = new Set(reviewer.expertise.map(normalize));
+  const sessionMatch = expertise.has(normalize(submission.sessionType));
+  const keywords = Array.from(new Set(submission.keywords.map(normalize).filter(Boolean)));
+  const matchedKeywords = keywords.filter(keyword => expertise.has(keyword));
+  const keywordShare = keywords.length > 0 ? matchedKeywords.length / keywords.length : 0;
+
+  return {
+    quality: round2((sessionMatch ? SESSION_WEIGHT : 0) + KEYWORD_WEIGHT * (affinity ?? keywordShare)),
+    sessionMatch,
+    matchedKeywords
+  };
+};
+
+// Residual graph for min-cost flow; edge i and i ^ 1 are each other's reverse
+class FlowGraph {
+  private to: number[] = [];
+  private capacity: number[] = [];
+  private cost: number[] = [];
+  private adjacency: number[][];
+
+  constructor(nodeCount: number) {
+    this.adjacency = Array.from({ length: nodeCount }, () => []);
+  }
+
+  addEdge(from: number, to: number, capacity: number, cost: number): number {
+    const index = this.to.length;
+    this.to.push(to, from);
+    this.capacity.push(capacity, 0);
+    this.cost.push(cost, -cost);
+    this.adjacency[from].push(index);
+    this.adjacency[to].push(index + 1);
+    return index;
+  }
+
+  flowOn(edge: number): number {
+    return this.capacity[edge ^ 1];
+  }
+
+  // Successive shortest paths; every path carries one unit because reviewer edges have capacity one
+  run(source: number, sink: number): void {
+    const nodeCount = this.adjacency.length;
+
+    for (;;) {
+      const distance = new Array<number>(nodeCount).fill(Infinity);
+      const viaEdge = new Array<number>(nodeCount).fill(-1);
+      const queued = new Array<boolean>(nodeCount).fill(false);
+      const queue: number[] = [source];
+      distance[source] = 0;
+      queued[source] = true;
+
+      // Bellman-Ford with a queue; reverse edges carry negative costs
+      for (let head = 0; head < queue.length; head++) {
+        const node = queue[head];
+        queued[node] = false;
+        for (const edge of this.adjacency[node]) {
+          const next = this.to[edge];
+          if (this.capacity[edge] > 0 && distance[node] + this.cost[edge] < distance[next]) {
+            distance[next] = distance[node] + this.cost[edge];
+            viaEdge[next] = edge;
+            if (!queued[next]) {
+              queued[next] = true;
+              queue.push(next);
+            }
+          }
+        }
+      }
+
+      if (distance[sink] === Infinity) {
+        return;
+      }
+
+      for (let node = sink; node !== source; node = this.to[viaEdge[node] ^ 1]) {
+        this.capacity[viaEdge[node]] -= 1;
+        this.capacity[viaEdge[node] ^ 1] += 1;
+      }
+    }
+  }
+}
+
+/**
+ * Assign reviewers to every submission at once. The plan fills as many review slots as the
+ * loads and conflicts allow, and among those plans picks the one with the highest total
+ * match quality, preferring reviewers with fewer assignments when quality is equal.
+ * Conflicted pairs, reviewers already on a submission and, when required, reviewers
+ * without expertise in the track are never proposed. With text affinities by pair, a pair
+ * missing from them has no affinity.
+ */
+export const planAssignments = (
+  submissions: AutoAssignmentSubmission[],
+  reviewers: AutoAssignmentReviewer[],
+  options: AutoAssignmentOptions,
+  conflictedPairs: Set<string> = new Set(),
+  affinities?: Map<string, number>
+): AssignmentPlan => {
+  const source = 0;
+  const sink = submissions.length + reviewers.length + 1;
+  const graph = new FlowGraph(sink + 1);
+  const reviewerNode = (index: number) => submissions.length + 1 + index;
+
+  const needed = submissions.map(submission => Math.max(0, options.reviewersPerPaper - submission.assignedReviewerIds.length));
+  const candidates: Array<ProposedPair & { edge: number }> = [];
+
+  submissions.forEach((submission, s) => {
+    if (needed[s] === 0) return;
+    graph.addEdge(source, s + 1, needed[s], 0);
+
+    const assigned = new Set(submission.assignedReviewerIds);
+    reviewers.forEach((reviewer, r) => {
+      const key = pairKey(submission.id, reviewer.id);
+      if (assigned.has(reviewer.id) || conflictedPairs.has(key)) return;
+
+      const match = scoreMatch(reviewer, submission, affinities ? affinities.get(key) || 0 : undefined);
+      if (options.requireSessionExpertise && !match.sessionMatch) return;
+
+      const edge = graph.addEdge(s + 1, reviewerNode(r), 1, Math.round((1 - match.quality) * QUALITY_SCALE));
+      candidates.push({ submissionId: submission.id, reviewerId: reviewer.id, ...match, edge });
+    });
+  });
+
+  // One unit edge per free slot, each dearer than the last
+  reviewers.forEach((reviewer, r) => {
+    for (let load = reviewer.currentLoad; load < options.maxLoad; load++) {
+      graph.addEdge(reviewerNode(r), sink, 1, load * LOAD_STEP_COST);
+    }
+  });
+
+  graph.run(source, sink);
+
+  const pairs = candidates
+    .filter(candidate => graph.flowOn(candidate.edge) > 0)
+    .map(({ edge: _edge, ...pair }) => pair);
+
+  const filled = new Map<string, number>();
+  for (const pair of pairs) {
+    filled.set(pair.submissionId, (filled.get(pair.submissionId) || 0) + 1);
+  }
+
+  const unfilled = submissions
+    .map((submission, s) => ({ submissionId: submission.id, missing: needed[s] - (filled.get(submission.id) || 0) }))
+    .filter(entry => entry.missing > 0);
+
+  return {
+    pairs,
+    unfilled,
+    totalQuality: round2(pairs.reduce((sum, pair) => sum + pair.quality, 0))
+  };
+};
+
+export interface CommitPair {
+  submissionId: string;
+  reviewerId: string;
+}
+
+export interface SkippedPair extends CommitPair {
+  reason: string;
+}
+
+/**
+ * Check an edited proposal against the current assignments before it is stored. Pairs are taken
+ * in order and each accepted pair counts towards the limits of the ones after it; a pair is
+ * skipped when its submission is not open or already has its reviewers, or when the reviewer is
+ * inactive, already on the submission, in conflict with it or at the maximum load.
+ */
+export const checkCommit = (
+  pairs: CommitPair[],
+  submissions: AutoAssignmentSubmission[],
+  reviewers: AutoAssignmentReviewer[],
+  limits: Pick<AutoAssignmentOptions, 'reviewersPerPaper' | 'maxLoad'>,
+  conflictedPairs: Set<string> = new Set()
+): { accepted: CommitPair[]; skipped: SkippedPair[] } => {
+  const reviewerCounts = new Map(submissions.map(submission => [submission.id, submission.assignedReviewerIds.length]));
+  const assigned = new Set(submissions.flatMap(submission =>
+    submission.assignedReviewerIds.map(reviewerId => pairKey(submission.id, reviewerId))));
+  const loads = new Map(reviewers.map(reviewer => [reviewer.id, reviewer.currentLoad]));
+
+  const accepted: CommitPair[] = [];
+  const skipped: SkippedPair[] = [];
+  const seen = new Set<string>();
+
+  for (const { submissionId, reviewerId } of pairs) {
+    const key = pairKey(submissionId, reviewerId);
+    const skip = (reason: string) => skipped.push({ submissionId, reviewerId, reason });
+
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    if (!reviewerCounts.has(submissionId)) {
+      skip('Submission is not open for reviewer assignment in this edition');
+    } else if (!loads.has(reviewerId)) {
+      skip('Reviewer not found or inactive');
+    } else if (assigned.has(key)) {
+      skip('Reviewer is already assigned to this submission');
+    } else if (conflictedPairs.has(key)) {
+      // Conflicts can only be overridden one assignment at a time, with a reason
+      skip('Reviewer has a conflict of interest with this submission');
+    } else if (reviewerCounts.get(submissionId)! >= limits.reviewersPerPaper) {
+      skip(`Submission already has ${limits.reviewersPerPaper} reviewer(s)`);
+    } else if (loads.get(reviewerId)! >= limits.maxLoad) {
+      skip(`Reviewer already has ${limits.maxLoad} open assignment(s)`);
+    } else {
+      accepted.push({ submissionId, reviewerId });
+      reviewerCounts.set(submissionId, reviewerCounts.get(submissionId)! + 1);
+      loads.set(reviewerId, loads.get(reviewerId)! + 1);
+    }
+  }
+
+  return { accepted, skipped };
+};
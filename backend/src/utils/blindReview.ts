@@ -0,0 +1,41 @@
+import type { ReviewMode } from '../types/index.js';
+
+// Reviewers see who wrote a submission unless the review is double-blind
+export const hidesAuthorsFromReviewers = (mode: ReviewMode): boolean => mode === 'double_blind';
+
+// Fields that identify the authors of a submission
+type AuthorIdentity = 'userId' | 'correspondingAuthor' | 'authors' | 'conflicts';
+
+export type AnonymizedSubmission<T> = Omit<T, AuthorIdentity> & {
+  authors: [];
+  isAnonymized: true;
+};
+
+/**
+ * Submission as a double-blind reviewer sees it: without the submitter, the authors and
+ * their affiliations, the corresponding author or the conflict declaration.
+ */
+export const anonymizeSubmission = <T extends { userId: string; correspondingAuthor: string }>(
+  submission: T
+): AnonymizedSubmission<T> => {
+  const {
+    userId: _userId,
+    correspondingAuthor: _correspondingAuthor,
+    authors: _authors,
+    conflicts: _conflicts,
+    ...rest
+  } = submission as T & { authors?: unknown; conflicts?: unknown };
+
+  return { ...rest, authors: [], isAnonymized: true } as unknown as AnonymizedSubmission<T>;
+};
+
+const fileExtension = (fileName: string): string => (fileName.match(/\.[A-Za-z0-9]{1,8}$/)?.[0] || '').toLowerCase();
+
+// File name a double-blind reviewer downloads a manuscript under; the stored name may carry an author's name
+export const anonymousManuscriptName = (submissionId: string, fileName: string): string =>
+  `submission-${submissionId.slice(0, 8)}${fileExtension(fileName)}`;
+
+// Supplementary files are told apart by their slot and their own id, since a slot may hold several
+export const anonymousSubmissionFileName = (
+  file: { id: string; submissionId: string; slot: string; originalName: string }
+): string => `submission-${file.submissionId.slice(0, 8)}-${file.slot}-${file.id.slice(0, 8)}${fileExtension(file.originalName)}`;
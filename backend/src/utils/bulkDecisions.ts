@@ -0,0 +1,61 @@
+import type {
+  DecisionCandidate,
+  DecisionCriteria,
+  RecommendationConsensus,
+  ReviewRecommendation
+} from '../types/index.js';
+
+/**
+ * Summarize reviewer recommendations: unanimous accept or reject, all asking for a
+ * revision (minor or major), a split committee, or no completed reviews yet
+ */
+export const getRecommendationConsensus = (recommendations: ReviewRecommendation[]): RecommendationConsensus => {
+  if (recommendations.length === 0) {
+    return 'none';
+  }
+
+  const categories = new Set(recommendations.map(recommendation =>
+    recommendation === 'minor_revision' || recommendation === 'major_revision' ? 'revision' : recommendation
+  ));
+
+  return categories.size === 1 ? [...categories][0] as RecommendationConsensus : 'split';
+};
+
+/**
+ * Check a submission against the committee's selection filter. Score bounds are inclusive
+ * and never match submissions without a score.
+ */
+export const matchesDecisionCriteria = (
+  candidate: Pick<DecisionCandidate, 'sessionType' | 'status' | 'averageScore' | 'completedReviews' | 'recommendations'>,
+  criteria: DecisionCriteria
+): boolean => {
+  if (criteria.sessionTypes?.length && !criteria.sessionTypes.includes(candidate.sessionType)) {
+    return false;
+  }
+
+  if (criteria.statuses?.length && !criteria.statuses.includes(candidate.status)) {
+    return false;
+  }
+
+  if (criteria.minAverageScore !== undefined || criteria.maxAverageScore !== undefined) {
+    if (candidate.averageScore === null) {
+      return false;
+    }
+    if (criteria.minAverageScore !== undefined && candidate.averageScore < criteria.minAverageScore) {
+      return false;
+    }
+    if (criteria.maxAverageScore !== undefined && candidate.averageScore > criteria.maxAverageScore) {
+      return false;
+    }
+  }
+
+  if (criteria.minCompletedReviews !== undefined && candidate.completedReviews < criteria.minCompletedReviews) {
+    return false;
+  }
+
+  if (criteria.consensus?.length && !criteria.consensus.includes(getRecommendationConsensus(candidate.recommendations))) {
+    return false;
+  }
+
+  return true;
+};
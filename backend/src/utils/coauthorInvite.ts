@@ -0,0 +1,35 @@
+import jwt from 'jsonwebtoken';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+const INVITE_EXPIRES_IN = '30d';
+
+export interface CoAuthorInvite {
+  submissionId: string;
+  email: string;
+}
+
+/**
+ * Generate a token inviting the owner of an author email to link their account
+ */
+export const generateCoAuthorInviteToken = (submissionId: string, email: string): string => {
+  return jwt.sign(
+    { type: 'coauthor_invite', submissionId, email },
+    JWT_SECRET,
+    { expiresIn: INVITE_EXPIRES_IN }
+  );
+};
+
+/**
+ * Verify a co-author invite token and return the invited submission and email
+ */
+export const verifyCoAuthorInviteToken = (token: string): CoAuthorInvite | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    if (decoded.type !== 'coauthor_invite' || !decoded.submissionId || !decoded.email) {
+      return null;
+    }
+    return { submissionId: decoded.submissionId, email: decoded.email };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,216 @@
+import type { ConflictMatch, ConflictOfInterestDeclaration } from '../types/index.js';
+
+// Reviewer identity checked against a submission's conflict declaration and authors
+export interface ConflictCandidate {
+  id?: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  affiliation?: string;
+  organizationId?: string;
+  // Name, short name and aliases of the reviewer's curated organization
+  organizationNames?: string[];
+}
+
+// An author of the submission, or of another submission the reviewer co-wrote
+export interface ConflictAuthor {
+  name: string;
+  email?: string;
+  userId?: string;
+  organizationId?: string;
+  // Institution as entered, or the name of the curated organization
+  institution?: string;
+}
+
+// Shared mail providers say nothing about where someone works
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com',
+  'icloud.com', 'me.com', 'aol.com', 'protonmail.com', 'proton.me', 'gmx.com', 'gmx.de',
+  'mail.com', 'yandex.ru', 'mail.ru', 'qq.com', '163.com', '126.com'
+]);
+
+// Case, accent and punctuation insensitive form used for name and institution comparisons
+const normalizeText = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+const normalizeDomain = (value: string): string => {
+  return value.trim().toLowerCase().replace(/^[*@.]+/, '').replace(/\.+$/, '');
+};
+
+const getEmailDomain = (email: string): string => {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? '' : normalizeDomain(email.slice(at + 1));
+};
+
+/**
+ * Clean up a declaration as entered by the authors: trim values, lowercase emails and domains,
+ * drop empty entries and duplicates. A missing declaration becomes an empty one.
+ */
+export const normalizeConflicts = (declaration?: Partial<ConflictOfInterestDeclaration> | null): ConflictOfInterestDeclaration => {
+  const people: ConflictOfInterestDeclaration['people'] = [];
+  const seenPeople = new Set<string>();
+  for (const person of declaration?.people || []) {
+    const name = (person.name || '').trim().replace(/\s+/g, ' ');
+    const email = (person.email || '').trim().toLowerCase();
+    const key = email || normalizeText(name);
+    if (!key || seenPeople.has(key)) continue;
+    seenPeople.add(key);
+    people.push(email ? { name, email } : { name });
+  }
+
+  const institutions: string[] = [];
+  const seenInstitutions = new Set<string>();
+  for (const institution of declaration?.institutions || []) {
+    const value = institution.trim().replace(/\s+/g, ' ');
+    const key = normalizeText(value);
+    if (!key || seenInstitutions.has(key)) continue;
+    seenInstitutions.add(key);
+    institutions.push(value);
+  }
+
+  const emailDomains = Array.from(new Set(
+    (declaration?.emailDomains || []).map(normalizeDomain).filter(domain => domain.includes('.'))
+  ));
+
+  return { people, institutions, emailDomains };
+};
+
+export const hasConflictDeclarations = (declaration?: ConflictOfInterestDeclaration | null): boolean => {
+  return !!declaration && (
+    declaration.people.length > 0 || declaration.institutions.length > 0 || declaration.emailDomains.length > 0
+  );
+};
+
+/**
+ * Every entry of the declaration that applies to the candidate reviewer.
+ * People match by email or full name, institutions by the reviewer's organization names
+ * or as whole words of their free-text affiliation, and domains include their subdomains.
+ */
+export const findConflicts = (candidate: ConflictCandidate, declaration?: ConflictOfInterestDeclaration | null): ConflictMatch[] => {
+  if (!declaration || !hasConflictDeclarations(declaration)) {
+    return [];
+  }
+
+  const matches: ConflictMatch[] = [];
+  const email = candidate.email.trim().toLowerCase();
+  const fullNames = new Set([
+    normalizeText(`${candidate.firstName} ${candidate.lastName}`),
+    normalizeText(`${candidate.lastName} ${candidate.firstName}`)
+  ]);
+
+  for (const person of declaration.people) {
+    if (person.email && person.email.toLowerCase() === email) {
+      matches.push({ type: 'person', value: person.email, reason: `Author declared a conflict with ${person.name || person.email}` });
+    } else if (person.name && fullNames.has(normalizeText(person.name))) {
+      matches.push({ type: 'person', value: person.name, reason: `Author declared a conflict with ${person.name}` });
+    }
+  }
+
+  const organizationNames = (candidate.organizationNames || []).map(normalizeText).filter(Boolean);
+  const affiliation = ` ${normalizeText(candidate.affiliation || '')} `;
+  for (const institution of declaration.institutions) {
+    const key = normalizeText(institution);
+    if (organizationNames.includes(key) || affiliation.includes(` ${key} `)) {
+      matches.push({ type: 'institution', value: institution, reason: `Reviewer is affiliated with ${institution}` });
+    }
+  }
+
+  const domain = getEmailDomain(email);
+  for (const declared of declaration.emailDomains) {
+    if (domain === declared || domain.endsWith(`.${declared}`)) {
+      matches.push({ type: 'email_domain', value: declared, reason: `Reviewer email is in the ${declared} domain` });
+    }
+  }
+
+  return matches;
+};
+
+const isSameDomain = (a: string, b: string): boolean => {
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+};
+
+const isSamePerson = (candidate: { id?: string; email: string; firstName: string; lastName: string }, author: ConflictAuthor): boolean => {
+  if (candidate.id && author.userId) {
+    return candidate.id === author.userId;
+  }
+  if (author.email) {
+    return author.email.trim().toLowerCase() === candidate.email.trim().toLowerCase();
+  }
+  const name = normalizeText(author.name);
+  return name === normalizeText(`${candidate.firstName} ${candidate.lastName}`)
+    || name === normalizeText(`${candidate.lastName} ${candidate.firstName}`);
+};
+
+const isSameAuthor = (a: ConflictAuthor, b: ConflictAuthor): boolean => {
+  if (a.userId && b.userId) {
+    return a.userId === b.userId;
+  }
+  if (a.email && b.email) {
+    return a.email.trim().toLowerCase() === b.email.trim().toLowerCase();
+  }
+  return normalizeText(a.name) !== '' && normalizeText(a.name) === normalizeText(b.name);
+};
+
+/**
+ * Conflicts found without a declaration: the reviewer is one of the authors, shares an
+ * institution or an institutional email domain with an author, or has co-written another
+ * submission with one. coauthors are the other authors of the reviewer's own submissions.
+ */
+export const detectAuthorConflicts = (
+  candidate: ConflictCandidate,
+  authors: ConflictAuthor[],
+  coauthors: ConflictAuthor[] = []
+): ConflictMatch[] => {
+  const matches: ConflictMatch[] = [];
+  const seen = new Set<string>();
+  const add = (match: ConflictMatch) => {
+    const key = `${match.type}:${normalizeText(match.value)}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      matches.push(match);
+    }
+  };
+
+  const organizationNames = (candidate.organizationNames || []).map(normalizeText).filter(Boolean);
+  const affiliation = ` ${normalizeText(candidate.affiliation || '')} `;
+  const domain = getEmailDomain(candidate.email);
+
+  for (const author of authors) {
+    if (isSamePerson(candidate, author)) {
+      add({ type: 'authorship', value: author.name, reason: 'Reviewer is an author of this submission' });
+      continue;
+    }
+
+    const institution = normalizeText(author.institution || '');
+    if ((candidate.organizationId && candidate.organizationId === author.organizationId)
+      || (institution && (organizationNames.includes(institution) || affiliation.includes(` ${institution} `)))) {
+      add({
+        type: 'shared_affiliation',
+        value: author.institution || author.name,
+        reason: `Reviewer shares an affiliation with ${author.name}${author.institution ? ` (${author.institution})` : ''}`
+      });
+    }
+
+    const authorDomain = getEmailDomain(author.email || '');
+    if (domain && authorDomain && !PUBLIC_EMAIL_DOMAINS.has(domain) && !PUBLIC_EMAIL_DOMAINS.has(authorDomain)
+      && isSameDomain(domain, authorDomain)) {
+      add({
+        type: 'shared_email_domain',
+        value: authorDomain,
+        reason: `Reviewer and ${author.name} share the ${authorDomain} email domain`
+      });
+    }
+
+    if (coauthors.some(coauthor => isSameAuthor(coauthor, author))) {
+      add({ type: 'coauthorship', value: author.name, reason: `Reviewer has co-authored another submission with ${author.name}` });
+    }
+  }
+
+  return matches;
+};
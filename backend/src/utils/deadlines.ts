@@ -0,0 +1,51 @@
+export type DeadlineStatus = 'open' | 'grace' | 'extended' | 'closed';
+
+export interface DeadlineCheck {
+  status: DeadlineStatus;
+  allowed: boolean;
+  // Whether the attempt came after the published deadline, whatever the outcome
+  pastDeadline: boolean;
+  deadline: Date;
+  // Latest moment this user may still change the submission
+  effectiveDeadline: Date;
+}
+
+/**
+ * Decide whether a submission change is still accepted.
+ * The grace period follows the published deadline; an extension replaces both
+ * when it runs later.
+ */
+export const checkSubmissionDeadline = (
+  deadline: Date | string,
+  graceMinutes: number,
+  extensions: Array<Date | string>,
+  now: Date = new Date()
+): DeadlineCheck => {
+  const published = new Date(deadline);
+  const graceEnd = new Date(published.getTime() + Math.max(0, graceMinutes) * 60 * 1000);
+  const extendedUntil = extensions
+    .map(extension => new Date(extension))
+    .reduce<Date | null>((latest, extension) => (!latest || extension > latest ? extension : latest), null);
+
+  const effectiveDeadline = extendedUntil && extendedUntil > graceEnd ? extendedUntil : graceEnd;
+  const pastDeadline = now > published;
+
+  let status: DeadlineStatus;
+  if (!pastDeadline) {
+    status = 'open';
+  } else if (now <= graceEnd) {
+    status = 'grace';
+  } else if (extendedUntil && now <= extendedUntil) {
+    status = 'extended';
+  } else {
+    status = 'closed';
+  }
+
+  return {
+    status,
+    allowed: status !== 'closed',
+    pastDeadline,
+    deadline: published,
+    effectiveDeadline
+  };
+};
@@ -0,0 +1,131 @@
+import type {
+  CloneConferenceRequest,
+  Conference,
+  ConferenceClonePlan,
+  PaymentInstructionsResponse,
+  RegistrationFeeResponse,
+  ReviewRubric,
+  SessionPolicy,
+  SessionResponse,
+  Track
+} from '../types/index.js';
+
+// Ten years either way is plenty for "same time next year"
+export const MAX_CLONE_OFFSET_DAYS = 3660;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Configuration of the edition being cloned; participant data is never part of it
+export interface EditionCloneSource {
+  conference: Conference;
+  tracks: Track[];
+  sessions: SessionResponse[];
+  registrationFees: RegistrationFeeResponse[];
+  paymentInstructions: PaymentInstructionsResponse | null;
+  sessionPolicies: SessionPolicy[];
+  reviewRubrics: ReviewRubric[];
+}
+
+/**
+ * Move a point in time by whole days. Days are counted in UTC so the shift never
+ * depends on the server time zone.
+ */
+export const shiftTimestamp = (value: Date | string, offsetDays: number): Date =>
+  new Date(new Date(value).getTime() + offsetDays * DAY_MS);
+
+/**
+ * Move a calendar date by whole days and return it as YYYY-MM-DD. The driver reads DATE
+ * columns as local midnight, so the local calendar day is the one that counts.
+ */
+export const shiftCalendarDate = (value: Date | string, offsetDays: number): string => {
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+  const shifted = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays));
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Work out everything a clone creates: the source configuration with every date moved
+ * by the offset. Registrations, submissions, reviews and payments are left behind.
+ */
+export const buildClonePlan = (
+  source: EditionCloneSource,
+  request: CloneConferenceRequest
+): ConferenceClonePlan => {
+  const offset = request.dateOffsetDays;
+  const { conference } = source;
+
+  return {
+    sourceConferenceId: conference.id,
+    dateOffsetDays: offset,
+    conference: {
+      name: request.name,
+      description: request.description ?? conference.description,
+      startDate: shiftCalendarDate(conference.startDate, offset),
+      endDate: shiftCalendarDate(conference.endDate, offset),
+      venue: request.venue || conference.venue,
+      registrationDeadline: shiftTimestamp(conference.registrationDeadline, offset),
+      submissionDeadline: shiftTimestamp(conference.submissionDeadline, offset),
+      submissionGraceMinutes: conference.submissionGraceMinutes,
+      reviewMode: conference.reviewMode,
+      emailSettings: { ...conference.emailSettings },
+      abstractBookTemplate: conference.abstractBookTemplate
+    },
+    tracks: source.tracks.map(track => ({
+      code: track.code,
+      name: track.name,
+      description: track.description,
+      guidelines: track.guidelines,
+      color: track.color,
+      chairs: track.chairs.map(chair => ({ ...chair })),
+      sortOrder: track.sortOrder,
+      isActive: track.isActive
+    })),
+    sessions: source.sessions.map(session => ({
+      type: session.type,
+      name: session.name,
+      description: session.description,
+      schedules: session.schedules.map(schedule => ({
+        startTime: shiftTimestamp(schedule.startTime, offset),
+        endTime: shiftTimestamp(schedule.endTime, offset),
+        location: schedule.location,
+        description: schedule.description
+      }))
+    })),
+    registrationFees: source.registrationFees.map(fee => ({
+      participantType: fee.participantType,
+      earlyBirdFee: fee.earlyBirdFee,
+      regularFee: fee.regularFee,
+      lateFee: fee.lateFee,
+      currency: fee.currency,
+      earlyBirdDeadline: shiftTimestamp(fee.earlyBirdDeadline, offset),
+      lateRegistrationStart: shiftTimestamp(fee.lateRegistrationStart, offset)
+    })),
+    sessionPolicies: source.sessionPolicies.map(policy => ({
+      sessionType: policy.sessionType,
+      minAbstractWords: policy.minAbstractWords,
+      maxAbstractWords: policy.maxAbstractWords,
+      minKeywords: policy.minKeywords,
+      maxKeywords: policy.maxKeywords,
+      allowedPresentationTypes: [...policy.allowedPresentationTypes]
+    })),
+    paymentInstructions: source.paymentInstructions
+      ? {
+          bankName: source.paymentInstructions.bankName,
+          accountName: source.paymentInstructions.accountName,
+          accountNumber: source.paymentInstructions.accountNumber,
+          swiftCode: source.paymentInstructions.swiftCode,
+          routingNumber: source.paymentInstructions.routingNumber,
+          acceptedMethods: [...source.paymentInstructions.acceptedMethods],
+          instructions: source.paymentInstructions.instructions,
+          supportContact: source.paymentInstructions.supportContact
+        }
+      : null,
+    reviewRubrics: source.reviewRubrics.map(rubric => ({
+      sessionType: rubric.sessionType,
+      name: rubric.name,
+      criteria: rubric.criteria.map(criterion => ({ ...criterion }))
+    }))
+  };
+};
@@ -1,5 +1,7 @@
-import { marked } from 'marked';
+import { marked, TokenizerAndRendererExtension } from 'marked';
 import { JSDOM } from 'jsdom';
+import katex from 'katex';
+import 'katex/contrib/mhchem';
 
 // Configure marked options for consistent rendering
 marked.setOptions({
@@ -9,6 +11,80 @@ marked.setOptions({
   mangle: false
 });
 
+// $$...$$ on its own lines
+const BLOCK_MATH = /^\$\$([\s\S]+?)\$\$(?:\n+|$)/;
+// $$...$$ inside a paragraph
+const INLINE_DISPLAY_MATH = /^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$/;
+// $...$ with no space just inside the delimiters and no digit after the closing one, so "$5 and $10" stays text;
+// never spans a code span
+const INLINE_MATH = /^\$(?!\s)((?:\\[^`]|[^\\$\n`])+?)(?<!\s)\$(?!\d)/;
+
+/**
+ * Render a TeX expression to HTML with embedded MathML. Chemistry is written with mhchem, e.g. \ce{H2O}.
+ * Invalid TeX is shown as its source instead of failing the whole abstract.
+ */
+export const renderMath = (tex: string, displayMode: boolean): string => {
+  return katex.renderToString(tex, {
+    displayMode,
+    output: 'htmlAndMathml',
+    throwOnError: false,
+    trust: false
+  });
+};
+
+const mathExtensions: TokenizerAndRendererExtension[] = [
+  {
+    name: 'blockMath',
+    level: 'block',
+    start: (src: string) => src.match(/^\$\$/m)?.index,
+    tokenizer(src: string) {
+      const match = BLOCK_MATH.exec(src);
+      if (match) {
+        return { type: 'blockMath', raw: match[0], text: match[1].trim(), displayMode: true };
+      }
+      return undefined;
+    },
+    renderer: (token) => `${renderMath(token.text, true)}\n`
+  },
+  {
+    name: 'inlineMath',
+    level: 'inline',
+    start: (src: string) => src.indexOf('$') === -1 ? undefined : src.indexOf('$'),
+    tokenizer(src: string) {
+      const display = INLINE_DISPLAY_MATH.exec(src);
+      if (display) {
+        return { type: 'inlineMath', raw: display[0], text: display[1].trim(), displayMode: true };
+      }
+      const match = INLINE_MATH.exec(src);
+      if (match) {
+        return { type: 'inlineMath', raw: match[0], text: match[1], displayMode: false };
+      }
+      return undefined;
+    },
+    renderer: (token) => renderMath(token.text, token.displayMode)
+  }
+];
+
+marked.use({ extensions: mathExtensions });
+
+/**
+ * TeX expressions in the markdown that KaTeX cannot parse, with the parser's message
+ */
+export const findMathErrors = (markdown: string): string[] => {
+  if (!markdown) return [];
+
+  const errors: string[] = [];
+  marked.walkTokens(marked.lexer(markdown), (token: any) => {
+    if (token.type !== 'blockMath' && token.type !== 'inlineMath') return;
+    try {
+      katex.renderToString(token.text, { displayMode: token.displayMode, throwOnError: true });
+    } catch (error) {
+      errors.push(`${token.raw.trim()}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return errors;
+};
+
 /**
  * Convert markdown text to HTML (server-side)
  */
@@ -44,9 +120,11 @@ export const markdownToPlainText = (markdown: string): string => {
   if (!markdown) return '';
   
   try {
-    // Convert to HTML first, then strip tags using JSDOM
+    // Convert to HTML first, then strip tags using JSDOM.
+    // Math keeps only its MathML text, not the visual copy, spacing phantoms or the TeX annotation.
     const html = markdownToHtml(markdown);
     const dom = new JSDOM(html);
+    dom.window.document.querySelectorAll('.katex-html, annotation, mphantom').forEach(element => element.remove());
     return dom.window.document.body.textContent || '';
   } catch (error) {
     console.error('Error extracting plain text from markdown:', error);
@@ -62,6 +140,13 @@ export const markdownToPlainText = (markdown: string): string => {
   }
 };
 
+/**
+ * Count words in the rendered text of a markdown abstract
+ */
+export const countAbstractWords = (markdown: string): number => {
+  return markdownToPlainText(markdown).split(/\s+/).filter(word => word.length > 0).length;
+};
+
 /**
  * Validate markdown content for academic abstracts
  */
@@ -103,6 +188,11 @@ export const validateAbstractMarkdown = (markdown: string): {
     warnings.push('Consider including key results or findings.');
   }
   
+  // Math that does not parse would be printed as raw TeX in the abstract book
+  findMathErrors(markdown).forEach(error => {
+    warnings.push(`Math could not be rendered: ${error}`);
+  });
+
   // Check for excessive formatting
   const headerCount = (markdown.match(/^#+\s/gm) || []).length;
   if (headerCount > 5) {
@@ -0,0 +1,42 @@
+const ORCID_URL_PREFIX = /^https?:\/\/(www\.)?orcid\.org\//i;
+const ORCID_PATTERN = /^(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])$/;
+
+/**
+ * Compute the ISO 7064 MOD 11-2 check character for the first 15 digits of an ORCID iD
+ */
+export const computeOrcidCheckDigit = (baseDigits: string): string => {
+  let total = 0;
+  for (const digit of baseDigits) {
+    total = (total + parseInt(digit, 10)) * 2;
+  }
+
+  const result = (12 - (total % 11)) % 11;
+  return result === 10 ? 'X' : String(result);
+};
+
+/**
+ * Normalize an ORCID iD to the 0000-0000-0000-0000 form.
+ * Accepts the bare iD, the iD without hyphens, or the orcid.org URL.
+ * Returns null when the format or checksum is invalid.
+ */
+export const normalizeOrcid = (value: string): string | null => {
+  const trimmed = value.trim().replace(ORCID_URL_PREFIX, '').toUpperCase();
+  const match = trimmed.match(ORCID_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const digits = match.slice(1).join('');
+  if (computeOrcidCheckDigit(digits.slice(0, 15)) !== digits[15]) {
+    return null;
+  }
+
+  return match.slice(1).join('-');
+};
+
+/**
+ * Check whether a value is a well-formed ORCID iD with a valid checksum
+ */
+export const isValidOrcid = (value: string): boolean => {
+  return normalizeOrcid(value) !== null;
+};
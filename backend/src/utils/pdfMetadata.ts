@@ -0,0 +1,94 @@
+// Document information entries that name the people or tools behind a PDF
+const INFO_KEYS = ['Author', 'Creator'];
+
+// XMP properties carrying the same information
+const XMP_ELEMENTS = ['dc:creator', 'pdf:Author', 'xmp:CreatorTool'];
+const XMP_ATTRIBUTES = ['pdf:Author', 'xmp:CreatorTool'];
+
+// Index just past the literal string opening at start, honouring escapes and nested parentheses
+const findLiteralStringEnd = (pdf: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < pdf.length; i++) {
+    const char = pdf[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return -1;
+};
+
+const blank = (length: number): string => ' '.repeat(length);
+
+// Overwrite part of the text with padding of the same length
+const overwrite = (pdf: string, start: number, end: number, padding: string): string =>
+  pdf.slice(0, start) + padding + pdf.slice(end);
+
+const stripInfoEntries = (pdf: string): string => {
+  let result = pdf;
+  const pattern = new RegExp(`/(?:${INFO_KEYS.join('|')})(?=[\\s(<])\\s*`, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(result)) !== null) {
+    const valueStart = match.index + match[0].length;
+
+    if (result[valueStart] === '(') {
+      const end = findLiteralStringEnd(result, valueStart);
+      if (end > 0) {
+        result = overwrite(result, valueStart + 1, end - 1, blank(end - valueStart - 2));
+      }
+    } else if (result[valueStart] === '<' && result[valueStart + 1] !== '<') {
+      const end = result.indexOf('>', valueStart);
+      if (end > 0) {
+        // Hex strings keep their digits; 20 is a space in every PDF text encoding
+        const digits = end - valueStart - 1;
+        result = overwrite(result, valueStart + 1, end, '20'.repeat(Math.floor(digits / 2)) + (digits % 2 ? ' ' : ''));
+      }
+    }
+  }
+
+  return result;
+};
+
+const stripXmpProperties = (pdf: string): string => {
+  let result = pdf;
+
+  for (const element of XMP_ELEMENTS) {
+    const pattern = new RegExp(`(<${element}(?:\\s[^>]*)?>)([\\s\\S]*?)(</${element}>)`, 'g');
+    result = result.replace(pattern, (_match, open: string, content: string, close: string) =>
+      open + content.replace(/>([^<]*)</g, (_text, value: string) => `>${blank(value.length)}<`)
+        .replace(/^[^<]+|[^>]+$/g, value => blank(value.length)) + close
+    );
+  }
+
+  for (const attribute of XMP_ATTRIBUTES) {
+    const pattern = new RegExp(`(\\s${attribute}=)(["'])([^"']*)\\2`, 'g');
+    result = result.replace(pattern, (_match, name: string, quote: string, value: string) =>
+      name + quote + blank(value.length) + quote
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Blank the author and creator metadata of a PDF: the Author and Creator entries of the
+ * document information dictionary and their XMP counterparts. Values are overwritten
+ * with padding of the same byte length, so cross-reference offsets and stream lengths
+ * stay valid. Metadata inside compressed object streams is left as it is.
+ */
+export const stripPdfAuthorMetadata = (pdf: Buffer): Buffer => {
+  // latin1 maps every byte to one character and back, so binary content survives
+  const text = pdf.toString('latin1');
+  const stripped = stripXmpProperties(stripInfoEntries(text));
+
+  return Buffer.from(stripped, 'latin1');
+};
+
+export const isPdf = (pdf: Buffer): boolean => pdf.subarray(0, 5).toString('latin1') === '%PDF-';
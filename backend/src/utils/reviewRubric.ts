@@ -0,0 +1,54 @@
+import type { RubricCriterion } from '../types/index.js';
+
+// Criteria are scored on the same scale as the single overall score
+export const RUBRIC_SCORE_MIN = 1;
+export const RUBRIC_SCORE_MAX = 10;
+export const MAX_RUBRIC_CRITERIA = 20;
+
+// Criterion keys are stored in the reviews, so they stay plain identifiers
+export const RUBRIC_CRITERION_KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Check a reviewer's criterion scores against a rubric. Every criterion needs a whole
+ * score on the rubric scale and no other keys are accepted. Returns the problems found.
+ */
+export const validateCriteriaScores = (criteria: RubricCriterion[], scores: unknown): string[] => {
+  if (!scores || typeof scores !== 'object' || Array.isArray(scores)) {
+    return ['A score for every rubric criterion is required'];
+  }
+
+  const values = scores as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const criterion of criteria) {
+    const value = values[criterion.key];
+    if (value === undefined || value === null) {
+      errors.push(`${criterion.label} must be scored`);
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < RUBRIC_SCORE_MIN || value > RUBRIC_SCORE_MAX) {
+      errors.push(`${criterion.label} must be a whole number between ${RUBRIC_SCORE_MIN} and ${RUBRIC_SCORE_MAX}`);
+    }
+  }
+
+  const keys = new Set(criteria.map(criterion => criterion.key));
+  Object.keys(values)
+    .filter(key => !keys.has(key))
+    .forEach(key => errors.push(`"${key}" is not a criterion of this rubric`));
+
+  return errors;
+};
+
+/**
+ * Weighted mean of validated criterion scores, rounded to two decimals, and the whole
+ * 1-10 score kept for everything that reads a single score. Weights are relative, so
+ * they need not add up to 100.
+ */
+export const scoreReview = (
+  criteria: RubricCriterion[],
+  scores: Record<string, number>
+): { weightedScore: number; score: number } => {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const weightedSum = criteria.reduce((sum, criterion) => sum + criterion.weight * scores[criterion.key], 0);
+  const weightedScore = Math.round((weightedSum / totalWeight) * 100) / 100;
+
+  return { weightedScore, score: Math.round(weightedScore) };
+};
@@ -0,0 +1,93 @@
+import { PresentationType, SessionPolicyRules, SessionType } from '../types/index.js';
+
+// Hard limits of the submission schema; session policies can only tighten them
+export const GLOBAL_SUBMISSION_LIMITS = {
+  maxAbstractWords: 500,
+  minKeywords: 3,
+  maxKeywords: 10
+};
+
+export const DEFAULT_SESSION_POLICY: SessionPolicyRules = {
+  minAbstractWords: 0,
+  maxAbstractWords: GLOBAL_SUBMISSION_LIMITS.maxAbstractWords,
+  minKeywords: GLOBAL_SUBMISSION_LIMITS.minKeywords,
+  maxKeywords: GLOBAL_SUBMISSION_LIMITS.maxKeywords,
+  allowedPresentationTypes: ['oral', 'poster']
+};
+
+export type SessionPolicyRule =
+  | 'minAbstractWords'
+  | 'maxAbstractWords'
+  | 'minKeywords'
+  | 'maxKeywords'
+  | 'allowedPresentationTypes';
+
+export interface SessionPolicyViolation {
+  rule: SessionPolicyRule;
+  message: string;
+}
+
+export interface SessionPolicyCheckData {
+  // Words in the rendered abstract, see countAbstractWords in utils/markdown
+  abstractWords?: number;
+  keywords?: string[];
+  presentationType?: PresentationType | null;
+}
+
+const PRESENTATION_TYPE_NAMES: Record<PresentationType, string> = {
+  oral: 'oral',
+  poster: 'poster'
+};
+
+/**
+ * Check submission fields against a session's policy.
+ * Fields that are not provided are skipped, so partial updates only check what changed.
+ */
+export const checkSessionPolicy = (
+  sessionType: SessionType,
+  policy: SessionPolicyRules,
+  data: SessionPolicyCheckData
+): SessionPolicyViolation[] => {
+  const violations: SessionPolicyViolation[] = [];
+  const prefix = `${sessionType} session rule`;
+
+  if (data.abstractWords !== undefined) {
+    const words = data.abstractWords;
+    if (words > policy.maxAbstractWords) {
+      violations.push({
+        rule: 'maxAbstractWords',
+        message: `${prefix}: abstract must be at most ${policy.maxAbstractWords} words (currently ${words})`
+      });
+    } else if (words < policy.minAbstractWords) {
+      violations.push({
+        rule: 'minAbstractWords',
+        message: `${prefix}: abstract must be at least ${policy.minAbstractWords} words (currently ${words})`
+      });
+    }
+  }
+
+  if (data.keywords !== undefined) {
+    const count = data.keywords.length;
+    if (count < policy.minKeywords) {
+      violations.push({
+        rule: 'minKeywords',
+        message: `${prefix}: at least ${policy.minKeywords} keywords are required (currently ${count})`
+      });
+    } else if (count > policy.maxKeywords) {
+      violations.push({
+        rule: 'maxKeywords',
+        message: `${prefix}: at most ${policy.maxKeywords} keywords are allowed (currently ${count})`
+      });
+    }
+  }
+
+  if (data.presentationType && !policy.allowedPresentationTypes.includes(data.presentationType)) {
+    const allowed = policy.allowedPresentationTypes.map(type => PRESENTATION_TYPE_NAMES[type]).join(' or ');
+    violations.push({
+      rule: 'allowedPresentationTypes',
+      message: `${prefix}: only ${allowed} presentations are accepted`
+    });
+  }
+
+  return violations;
+};
@@ -0,0 +1,184 @@
+/**
+ * In-process text similarity for near-duplicate abstract detection.
+ * Texts are reduced to word shingles; MinHash signatures give a cheap Jaccard
+ * estimate for pre-filtering and exact Jaccard confirms candidate pairs.
+ */
+
+const SHINGLE_SIZE = 2;
+const MINHASH_SIZE = 64;
+const MAX_DIFF_CELLS = 4_000_000;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'which', 'with', 'we', 'our'
+]);
+
+export interface SimilarityScores {
+  titleScore: number;
+  abstractScore: number;
+  // Weighted towards the abstract; titles are short and often reused
+  score: number;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Lower-case word tokens with markdown syntax, punctuation and stopwords removed
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_#>~]/g, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token));
+};
+
+/**
+ * Overlapping word n-grams; texts shorter than one shingle become a single shingle
+ */
+export const shingle = (tokens: string[], size: number = SHINGLE_SIZE): Set<string> => {
+  const shingles = new Set<string>();
+  if (tokens.length === 0) {
+    return shingles;
+  }
+  if (tokens.length < size) {
+    shingles.add(tokens.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i <= tokens.length - size; i++) {
+    shingles.add(tokens.slice(i, i + size).join(' '));
+  }
+  return shingles;
+};
+
+// FNV-1a with a seed folded into the offset basis
+const hash32 = (value: string, seed: number): number => {
+  let hash = (0x811c9dc5 ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+};
+
+/**
+ * MinHash signature of a shingle set
+ */
+export const minhash = (shingles: Set<string>, size: number = MINHASH_SIZE): number[] => {
+  const signature = new Array<number>(size).fill(0xffffffff);
+  for (const value of shingles) {
+    for (let i = 0; i < size; i++) {
+      const hash = hash32(value, i + 1);
+      if (hash < signature[i]) {
+        signature[i] = hash;
+      }
+    }
+  }
+  return signature;
+};
+
+/**
+ * Estimate Jaccard similarity from two MinHash signatures of equal length
+ */
+export const estimateJaccard = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+};
+
+/**
+ * Exact Jaccard similarity of two sets
+ */
+export const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const value of smaller) {
+    if (larger.has(value)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+};
+
+/**
+ * Combine title and abstract similarity into a single score
+ */
+export const combineScores = (titleScore: number, abstractScore: number): SimilarityScores => {
+  return {
+    titleScore,
+    abstractScore,
+    score: 0.2 * titleScore + 0.8 * abstractScore
+  };
+};
+
+const diffUnits = (a: string[], b: string[], normalize: (unit: string) => string): DiffSegment[] => {
+  const n = a.length;
+  const m = b.length;
+  const keysA = a.map(normalize);
+  const keysB = b.map(normalize);
+
+  // Longest common subsequence table, filled from the end
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[at(i, j)] = keysA[i] === keysB[j]
+        ? table[at(i + 1, j + 1)] + 1
+        : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${text}`;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (keysA[i] === keysB[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < n) push('removed', a[i++]);
+  while (j < m) push('added', b[j++]);
+
+  return segments;
+};
+
+/**
+ * Word-level diff from `before` to `after`, falling back to sentences for very long texts
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  const wordsA = before.split(/\s+/).filter(word => word.length > 0);
+  const wordsB = after.split(/\s+/).filter(word => word.length > 0);
+  const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+  if ((wordsA.length + 1) * (wordsB.length + 1) <= MAX_DIFF_CELLS) {
+    return diffUnits(wordsA, wordsB, normalizeWord);
+  }
+
+  const sentences = (text: string) => text.split(/(?<=[.!?])\s+/).filter(sentence => sentence.length > 0);
+  return diffUnits(sentences(before), sentences(after), sentence => tokenize(sentence).join(' '));
+};
@@ -0,0 +1,64 @@
+import type { SubmissionAccessLevel, SubmissionStatus } from '../types/index.js';
+
+interface AccessSubmission {
+  userId: string;
+  status: SubmissionStatus;
+}
+
+interface AccessAuthor {
+  userId?: string;
+  isCorresponding: boolean;
+  canEdit?: boolean;
+}
+
+/**
+ * Resolve a user's access to a submission through ownership or a linked author row.
+ * Drafts stay private to the submitting user.
+ */
+export const getSubmissionAccess = (
+  submission: AccessSubmission,
+  authors: AccessAuthor[],
+  userId: string
+): SubmissionAccessLevel | null => {
+  if (submission.userId === userId) {
+    return 'owner';
+  }
+
+  if (submission.status === 'draft') {
+    return null;
+  }
+
+  const linkedAuthor = authors.find(author => author.userId === userId);
+  if (!linkedAuthor) {
+    return null;
+  }
+
+  return linkedAuthor.canEdit ? 'editor' : 'viewer';
+};
+
+/**
+ * Check whether a user may edit the submission's content
+ */
+export const canEditSubmission = (accessLevel: SubmissionAccessLevel | null): boolean => {
+  return accessLevel === 'owner' || accessLevel === 'editor';
+};
+
+/**
+ * Only the submitting user and a linked corresponding author may invite co-authors, grant edit
+ * rights or withdraw the submission
+ */
+export const canManageAuthors = (
+  submission: AccessSubmission,
+  authors: AccessAuthor[],
+  userId: string
+): boolean => {
+  if (submission.userId === userId) {
+    return true;
+  }
+
+  if (submission.status === 'draft') {
+    return false;
+  }
+
+  return authors.some(author => author.userId === userId && author.isCorresponding);
+};
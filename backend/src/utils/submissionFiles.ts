@@ -0,0 +1,174 @@
+import type { FileVisibility, SubmissionFileSlot, UserRole } from '../types/index.js';
+
+const MB = 1024 * 1024;
+
+export interface SubmissionFileSlotRule {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  maxSize: number;
+  maxFiles: number;
+  defaultVisibility: FileVisibility;
+  allowedVisibilities: FileVisibility[];
+  // Final presentation material is only collected once the submission is accepted
+  requiresAcceptance: boolean;
+}
+
+/**
+ * Upload rules per file slot. The manuscript slot is served by the versioned manuscript
+ * endpoints; the other slots are stored in submission_files.
+ */
+export const SUBMISSION_FILE_SLOTS: Record<SubmissionFileSlot, SubmissionFileSlotRule> = {
+  manuscript: {
+    label: 'Manuscript',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    maxSize: 10 * MB,
+    maxFiles: 1,
+    defaultVisibility: 'reviewers',
+    allowedVisibilities: ['reviewers'],
+    requiresAcceptance: false
+  },
+  poster: {
+    label: 'Poster',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    maxSize: 25 * MB,
+    maxFiles: 1,
+    defaultVisibility: 'public',
+    allowedVisibilities: ['public', 'reviewers', 'organizers'],
+    requiresAcceptance: true
+  },
+  slides: {
+    label: 'Presentation Slides',
+    extensions: ['.pdf', '.pptx'],
+    mimeTypes: [
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ],
+    maxSize: 50 * MB,
+    maxFiles: 1,
+    defaultVisibility: 'public',
+    allowedVisibilities: ['public', 'reviewers', 'organizers'],
+    requiresAcceptance: true
+  },
+  supplementary: {
+    label: 'Supplementary Material',
+    extensions: ['.pdf', '.csv', '.txt', '.json', '.xlsx', '.zip', '.png', '.jpg', '.jpeg', '.mp4'],
+    mimeTypes: [
+      'application/pdf',
+      'text/csv',
+      'text/plain',
+      'application/json',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/zip',
+      'application/x-zip-compressed',
+      'image/png',
+      'image/jpeg',
+      'video/mp4'
+    ],
+    maxSize: 100 * MB,
+    maxFiles: 10,
+    defaultVisibility: 'reviewers',
+    allowedVisibilities: ['reviewers', 'public', 'organizers'],
+    requiresAcceptance: false
+  }
+};
+
+export const SUBMISSION_FILE_SLOT_NAMES = Object.keys(SUBMISSION_FILE_SLOTS) as SubmissionFileSlot[];
+
+// Largest upload any slot accepts, used as the multer limit before the per-slot check
+export const MAX_SUBMISSION_FILE_SIZE = Math.max(...Object.values(SUBMISSION_FILE_SLOTS).map(rule => rule.maxSize));
+
+/**
+ * Leading bytes (hex) each binary format must start with. Plain-text formats have none.
+ * Office documents are ZIP containers.
+ */
+const FILE_SIGNATURES: Record<string, { offset: number; hex: string }> = {
+  '.pdf': { offset: 0, hex: '25504446' },
+  '.pptx': { offset: 0, hex: '504b0304' },
+  '.xlsx': { offset: 0, hex: '504b0304' },
+  '.zip': { offset: 0, hex: '504b0304' },
+  '.png': { offset: 0, hex: '89504e470d0a1a0a' },
+  '.jpg': { offset: 0, hex: 'ffd8ff' },
+  '.jpeg': { offset: 0, hex: 'ffd8ff' },
+  '.mp4': { offset: 4, hex: '66747970' }
+};
+
+export interface SubmissionFileCheck {
+  code: string;
+  message: string;
+}
+
+const formatSize = (bytes: number) => `${Math.round(bytes / MB)}MB`;
+
+/**
+ * Check a file's name, declared type and size against a slot's rules
+ */
+export const validateSlotFile = (
+  slot: SubmissionFileSlot,
+  file: { originalName: string; mimeType: string; size?: number }
+): SubmissionFileCheck | null => {
+  const rule = SUBMISSION_FILE_SLOTS[slot];
+  const dot = file.originalName.lastIndexOf('.');
+  const extension = dot >= 0 ? file.originalName.slice(dot).toLowerCase() : '';
+
+  if (!rule.extensions.includes(extension)) {
+    return {
+      code: 'INVALID_FILE_TYPE',
+      message: `${rule.label} files must be one of: ${rule.extensions.join(', ')}`
+    };
+  }
+
+  if (!rule.mimeTypes.includes(file.mimeType)) {
+    return {
+      code: 'INVALID_MIME_TYPE',
+      message: `Invalid file type for ${rule.label.toLowerCase()}`
+    };
+  }
+
+  if (file.size !== undefined && file.size > rule.maxSize) {
+    return {
+      code: 'FILE_TOO_LARGE',
+      message: `${rule.label} files may be at most ${formatSize(rule.maxSize)}`
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Signature a file with this extension is expected to start with, if any
+ */
+export const getExpectedSignature = (extension: string): string | undefined => {
+  return FILE_SIGNATURES[extension.toLowerCase()]?.hex;
+};
+
+/**
+ * Check that a file's leading bytes match the format its extension claims
+ */
+export const matchesFileSignature = (extension: string, header: Buffer): boolean => {
+  const signature = FILE_SIGNATURES[extension.toLowerCase()];
+  if (!signature) {
+    return true;
+  }
+  const length = signature.hex.length / 2;
+  return header.subarray(signature.offset, signature.offset + length).toString('hex') === signature.hex;
+};
+
+/**
+ * Authors and organizers see every file; assigned reviewers see reviewer and public files;
+ * anyone else only public files
+ */
+export const canViewSubmissionFile = (
+  visibility: FileVisibility,
+  viewer: { isAuthor: boolean; role?: UserRole; isAssignedReviewer: boolean }
+): boolean => {
+  if (viewer.isAuthor || viewer.role === 'admin' || viewer.role === 'organizer') {
+    return true;
+  }
+  if (visibility === 'public') {
+    return true;
+  }
+  return visibility === 'reviewers' && viewer.isAssignedReviewer;
+};
@@ -0,0 +1,123 @@
+import type { PresentationType, SessionType, SubmissionStatus } from '../types/index.js';
+
+export type SearchFacet = 'keywords' | 'sessionType' | 'status' | 'presentationType';
+export type SearchSort = 'relevance' | 'newest' | 'title';
+
+export interface SubmissionSearchParams {
+  q?: string;
+  sessionType?: SessionType[];
+  status?: SubmissionStatus[];
+  presentationType?: PresentationType[];
+  keywords?: string[];
+  // Edition to search; staff pick it, so it is never read from the query string
+  conferenceId?: string;
+  sort: SearchSort;
+  page: number;
+  limit: number;
+}
+
+const PRESENTATION_TYPES: PresentationType[] = ['oral', 'poster'];
+// Drafts stay private to their authors and are never searchable
+const SEARCHABLE_STATUSES: SubmissionStatus[] = [
+  'submitted', 'under_review', 'revision_requested', 'revised', 'accepted', 'rejected', 'withdrawn'
+];
+
+// Expressions match the GIN indexes from migration 002 so the planner can use them
+export const TITLE_VECTOR = "to_tsvector('english', s.title)";
+export const ABSTRACT_VECTOR = "to_tsvector('english', s.abstract)";
+
+export const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+export const ABSTRACT_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=35, MinWords=15, FragmentDelimiter=" … "';
+
+/**
+ * Split a comma-separated (or repeated) query parameter, keeping only allowed values
+ */
+export const parseListParam = <T extends string>(value: unknown, allowed?: readonly T[]): T[] => {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const items = raw
+    .map(item => String(item).trim())
+    .filter(item => item.length > 0) as T[];
+  const unique = Array.from(new Set(items));
+
+  return allowed ? unique.filter(item => allowed.includes(item)) : unique;
+};
+
+/**
+ * Normalize raw query parameters into search parameters
+ */
+export const parseSearchParams = (query: Record<string, unknown>): SubmissionSearchParams => {
+  const q = typeof query.q === 'string' ? query.q.trim() : '';
+  const sort = query.sort === 'newest' || query.sort === 'title' ? query.sort : 'relevance';
+
+  return {
+    q: q || undefined,
+    // Track codes come from the conference's catalogue; unknown codes simply match nothing
+    sessionType: parseListParam<SessionType>(query.sessionType),
+    status: parseListParam(query.status, SEARCHABLE_STATUSES),
+    presentationType: parseListParam(query.presentationType, PRESENTATION_TYPES),
+    keywords: parseListParam<string>(query.keywords).slice(0, 10),
+    sort,
+    page: Math.max(1, Number(query.page) || 1),
+    limit: Math.min(100, Math.max(1, Number(query.limit) || 20))
+  };
+};
+
+/**
+ * Build the WHERE clause for a search. The text query, when present, is always $1 so rank and
+ * headline expressions can reuse it. Facet counts pass their own facet as `exclude`, so each
+ * facet shows what selecting another value would return.
+ */
+export const buildSearchConditions = (
+  params: SubmissionSearchParams,
+  exclude?: SearchFacet
+): { where: string; values: any[] } => {
+  const conditions: string[] = ["s.status <> 'draft'"];
+  const values: any[] = [];
+  const addValue = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (params.q) {
+    const query = addValue(params.q);
+    conditions.push(
+      `(${TITLE_VECTOR} @@ websearch_to_tsquery('english', ${query}) OR ${ABSTRACT_VECTOR} @@ websearch_to_tsquery('english', ${query}))`
+    );
+  }
+
+  if (params.sessionType?.length && exclude !== 'sessionType') {
+    conditions.push(`s.session_type = ANY(${addValue(params.sessionType)}::text[])`);
+  }
+
+  if (params.status?.length && exclude !== 'status') {
+    conditions.push(`s.status = ANY(${addValue(params.status)}::submission_status[])`);
+  }
+
+  if (params.presentationType?.length && exclude !== 'presentationType') {
+    conditions.push(`s.presentation_type = ANY(${addValue(params.presentationType)}::presentation_type[])`);
+  }
+
+  if (params.keywords?.length && exclude !== 'keywords') {
+    conditions.push(`s.keywords @> ${addValue(params.keywords)}::text[]`);
+  }
+
+  if (params.conferenceId) {
+    conditions.push(`s.conference_id = ${addValue(params.conferenceId)}`);
+  }
+
+  return { where: `WHERE ${conditions.join(' AND ')}`, values };
+};
+
+/**
+ * ORDER BY clause for a search; relevance only applies when there is a text query
+ */
+export const getSearchOrder = (params: SubmissionSearchParams): string => {
+  if (params.sort === 'title') {
+    return 's.title ASC, s.created_at DESC';
+  }
+  if (params.sort === 'relevance' && params.q) {
+    return 'rank DESC, s.created_at DESC';
+  }
+  return 's.created_at DESC';
+};
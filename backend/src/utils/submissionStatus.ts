@@ -0,0 +1,41 @@
+import type { SubmissionStatus } from '../types/index.js';
+
+/**
+ * Allowed submission status transitions.
+ * Drafts only leave their state when the author finalizes them; rejected is a final
+ * decision and accepted submissions can only be withdrawn; revision_requested and
+ * revised are only entered through the revision request/resubmission endpoints and
+ * withdrawn only through the withdrawal endpoints.
+ */
+export const SUBMISSION_STATUS_TRANSITIONS: Record<SubmissionStatus, SubmissionStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['under_review', 'accepted', 'rejected', 'withdrawn'],
+  under_review: ['revision_requested', 'accepted', 'rejected', 'withdrawn'],
+  revision_requested: ['revised', 'rejected', 'withdrawn'],
+  revised: ['under_review', 'accepted', 'rejected', 'withdrawn'],
+  accepted: ['withdrawn'],
+  rejected: [],
+  withdrawn: []
+};
+
+/**
+ * Get the statuses a submission can move to from its current status
+ */
+export const getAllowedTransitions = (from: SubmissionStatus): SubmissionStatus[] => {
+  return SUBMISSION_STATUS_TRANSITIONS[from] || [];
+};
+
+/**
+ * Check whether a submission may move from one status to another
+ */
+export const canTransition = (from: SubmissionStatus, to: SubmissionStatus): boolean => {
+  return getAllowedTransitions(from).includes(to);
+};
+
+/**
+ * Once review has started (the submission left `submitted` or reviewers were assigned)
+ * an author's withdrawal request has to be confirmed by an admin
+ */
+export const withdrawalNeedsConfirmation = (status: SubmissionStatus, assignedReviewers: number): boolean => {
+  return status !== 'submitted' || assignedReviewers > 0;
+};
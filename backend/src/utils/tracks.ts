@@ -0,0 +1,51 @@
+import type { SessionType, Track, TrackChair } from '../types/index.js';
+
+// Short upper-case codes such as CHE or HPC-AI; they appear in submission IDs, filters and exports
+export const TRACK_CODE_PATTERN = /^[A-Z][A-Z0-9_-]{1,19}$/;
+export const TRACK_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+export const DEFAULT_TRACK_COLOR = '#1976d2';
+export const MAX_TRACK_CHAIRS = 10;
+
+const clean = (value?: string): string => (value || '').trim().replace(/\s+/g, ' ');
+
+/**
+ * Track code as stored: trimmed and upper-cased
+ */
+export const normalizeTrackCode = (value: string): SessionType => value.trim().toUpperCase();
+
+export const isTrackCode = (value: unknown): value is SessionType => {
+  return typeof value === 'string' && TRACK_CODE_PATTERN.test(value);
+};
+
+/**
+ * Tidy a chair list as entered by an admin: collapse whitespace, lower-case emails
+ * and drop entries without a name
+ */
+export const normalizeTrackChairs = (chairs?: Partial<TrackChair>[] | null): TrackChair[] => {
+  const normalized: TrackChair[] = [];
+
+  for (const chair of chairs || []) {
+    const name = clean(chair.name);
+    if (!name) continue;
+
+    const entry: TrackChair = { name };
+    const email = clean(chair.email).toLowerCase();
+    if (email) entry.email = email;
+    const affiliation = clean(chair.affiliation);
+    if (affiliation) entry.affiliation = affiliation;
+
+    normalized.push(entry);
+  }
+
+  return normalized.slice(0, MAX_TRACK_CHAIRS);
+};
+
+/**
+ * Display name of a track code; codes missing from the catalogue are shown as they are
+ */
+export const getTrackName = (tracks: Pick<Track, 'code' | 'name'>[], code: SessionType | null | undefined): string => {
+  if (!code) {
+    return '';
+  }
+  return tracks.find(track => track.code === code)?.name || code;
+};
@@ -206,6 +206,19 @@ export const AbstractBookGenerator: React.FC<AbstractBookGeneratorProps> = ({ on
     setPreview(null); // Clear preview when filters change
   };
 
+  // Keep the template for this edition, and for editions cloned from it
+  const handleSaveTemplate = async () => {
+    if (!template) return;
+
+    try {
+      setTemplate(await abstractBookApi.saveTemplate(template));
+      setSuccess('Template saved as the default for this edition');
+      setTemplateDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  };
+
   // Handle template changes
   const handleTemplateChange = (key: string, value: any) => {
     if (!template) return;
@@ -636,6 +649,9 @@ export const AbstractBookGenerator: React.FC<AbstractBookGeneratorProps> = ({ on
           <Button onClick={() => setTemplateDialogOpen(false)}>
             Cancel
           </Button>
+          <Button onClick={handleSaveTemplate} disabled={!template}>
+            Save as Edition Default
+          </Button>
           <Button onClick={() => setTemplateDialogOpen(false)} variant="contained">
             Apply Changes
           </Button>
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { CloudUpload, Delete, Save } from '@mui/icons-material';
+import { SubmissionResponse } from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+
+interface AbstractFigureManagerProps {
+  submission: SubmissionResponse;
+  readOnly?: boolean;
+  onFigureChange?: (changes: Pick<SubmissionResponse, 'abstractFigurePath' | 'abstractFigureMimeType' | 'abstractFigureCaption'>) => void;
+}
+
+const MAX_FIGURE_SIZE = 2 * 1024 * 1024;
+const MAX_CAPTION_LENGTH = 300;
+
+// The single optional figure shown with an abstract, printed as "Figure 1" in the abstract book
+const AbstractFigureManager: React.FC<AbstractFigureManagerProps> = ({ submission, readOnly = false, onFigureChange }) => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [caption, setCaption] = useState(submission.abstractFigureCaption || '');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasFigure = !!submission.abstractFigurePath;
+
+  // The image needs the auth header, so it is fetched as a blob
+  useEffect(() => {
+    setCaption(submission.abstractFigureCaption || '');
+    if (!hasFigure) {
+      setImageUrl(null);
+      return;
+    }
+
+    let url: string | null = null;
+    setLoading(true);
+    submissionApi.getAbstractFigure(submission.id)
+      .then((blob) => {
+        url = window.URL.createObjectURL(blob);
+        setImageUrl(url);
+      })
+      .catch(() => setError('Failed to load the figure'))
+      .finally(() => setLoading(false));
+
+    return () => {
+      if (url) window.URL.revokeObjectURL(url);
+    };
+  }, [submission.id, submission.abstractFigurePath]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_FIGURE_SIZE) {
+      setError('Figures may be at most 2 MB');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await submissionApi.uploadAbstractFigure(submission.id, file, caption.trim() || undefined);
+      if (response.success && response.data) {
+        onFigureChange?.(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to upload figure');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveCaption = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await submissionApi.updateAbstractFigureCaption(submission.id, caption.trim());
+      if (response.success && response.data) {
+        onFigureChange?.(response.data);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update caption');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Remove the figure from this abstract?')) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await submissionApi.deleteAbstractFigure(submission.id);
+      onFigureChange?.({ abstractFigurePath: undefined, abstractFigureMimeType: undefined, abstractFigureCaption: undefined });
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to remove figure');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!hasFigure && readOnly) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Box>
+          <Typography variant="subtitle1">Figure</Typography>
+          {!readOnly && (
+            <Typography variant="caption" color="text.secondary">
+              One optional PNG or JPEG image · up to 2 MB
+            </Typography>
+          )}
+        </Box>
+        {!readOnly && (
+          <Box display="flex" gap={1}>
+            <Button
+              component="label"
+              size="small"
+              variant="outlined"
+              startIcon={saving ? <CircularProgress size={16} /> : <CloudUpload />}
+              disabled={saving}
+            >
+              {hasFigure ? 'Replace' : 'Upload'}
+              <input type="file" hidden accept=".png,.jpg,.jpeg,image/png,image/jpeg" onChange={handleUpload} />
+            </Button>
+            {hasFigure && (
+              <Button size="small" color="error" startIcon={<Delete />} onClick={handleDelete} disabled={saving}>
+                Remove
+              </Button>
+            )}
+          </Box>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && (
+        <Box display="flex" justifyContent="center" p={2}>
+          <CircularProgress size={24} />
+        </Box>
+      )}
+
+      {imageUrl && (
+        <Box component="figure" sx={{ m: 0, textAlign: 'center' }}>
+          <Box component="img" src={imageUrl} alt="Figure 1" sx={{ maxWidth: '100%', maxHeight: 360 }} />
+          {readOnly && (
+            <Typography component="figcaption" variant="body2" sx={{ mt: 1 }}>
+              <strong>Figure 1.</strong> {submission.abstractFigureCaption}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {!readOnly && (
+        <Box display="flex" alignItems="flex-start" gap={1} mt={1}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Caption"
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            inputProps={{ maxLength: MAX_CAPTION_LENGTH }}
+            helperText={hasFigure ? 'Printed as "Figure 1." under the image' : 'Uploaded together with the image'}
+          />
+          {hasFigure && (
+            <Button
+              size="small"
+              startIcon={<Save />}
+              onClick={handleSaveCaption}
+              disabled={saving || caption.trim() === (submission.abstractFigureCaption || '')}
+              sx={{ mt: 0.5 }}
+            >
+              Save
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default AbstractFigureManager;
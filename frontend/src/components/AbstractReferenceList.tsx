@@ -0,0 +1,41 @@
+import React from 'react';
+import { Box, Typography, Link } from '@mui/material';
+import { AbstractReference } from '../types/submission';
+import { formatReference, getReferenceLink } from '../utils/abstractReferences';
+
+interface AbstractReferenceListProps {
+  references: AbstractReference[];
+}
+
+// Numbered reference list shown under an abstract
+const AbstractReferenceList: React.FC<AbstractReferenceListProps> = ({ references }) => {
+  if (references.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>References</Typography>
+      <Box component="ol" sx={{ m: 0, pl: 3 }}>
+        {references.map((reference, index) => {
+          const link = getReferenceLink(reference);
+          return (
+            <Typography component="li" variant="body2" key={index} sx={{ mb: 0.5 }}>
+              {formatReference(reference)}
+              {link && (
+                <>
+                  {' '}
+                  <Link href={link} target="_blank" rel="noopener noreferrer" sx={{ wordBreak: 'break-all' }}>
+                    {link}
+                  </Link>
+                </>
+              )}
+            </Typography>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default AbstractReferenceList;
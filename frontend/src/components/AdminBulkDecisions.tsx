@@ -0,0 +1,478 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  MenuItem,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  LinearProgress,
+  Pagination
+} from '@mui/material';
+import { FilterList, Gavel, Send, Visibility } from '@mui/icons-material';
+import {
+  SessionType,
+  DecisionBatch,
+  DecisionCandidate,
+  DecisionCriteria,
+  DecisionEmailPreview,
+  DecisionStatus,
+  RecommendationConsensus
+} from '../types/submission';
+import { adminMonitoringApi } from '../services/adminMonitoringApi';
+import { useTracks } from '../hooks/useTracks';
+
+const CONSENSUS_OPTIONS: { value: RecommendationConsensus; label: string }[] = [
+  { value: 'accept', label: 'All accept' },
+  { value: 'reject', label: 'All reject' },
+  { value: 'revision', label: 'All revision' },
+  { value: 'split', label: 'Split' },
+  { value: 'none', label: 'No reviews' }
+];
+
+const consensusColor = (consensus: RecommendationConsensus): 'success' | 'error' | 'warning' | 'default' => {
+  switch (consensus) {
+    case 'accept': return 'success';
+    case 'reject': return 'error';
+    case 'revision': return 'warning';
+    default: return 'default';
+  }
+};
+
+const parseScore = (value: string): number | undefined => (value === '' ? undefined : parseFloat(value));
+
+// Held batches and released batches with failed emails can still be sent
+const hasUnsentEmails = (batch: DecisionBatch): boolean =>
+  !batch.releasedAt || (batch.notifiedCount ?? 0) < (batch.itemCount ?? 0);
+
+const AdminBulkDecisions: React.FC = () => {
+  const [sessionTypes, setSessionTypes] = useState<SessionType[]>([]);
+  const { tracks } = useTracks();
+  const [consensus, setConsensus] = useState<RecommendationConsensus[]>([]);
+  const [minScore, setMinScore] = useState('');
+  const [maxScore, setMaxScore] = useState('');
+  const [minReviews, setMinReviews] = useState('');
+  const [appliedCriteria, setAppliedCriteria] = useState<DecisionCriteria>({});
+
+  const [candidates, setCandidates] = useState<DecisionCandidate[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [batches, setBatches] = useState<DecisionBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [decisionDialogOpen, setDecisionDialogOpen] = useState(false);
+  const [decision, setDecision] = useState<DecisionStatus>('accepted');
+  const [adminNotes, setAdminNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [previewBatch, setPreviewBatch] = useState<DecisionBatch | null>(null);
+  const [previewEmails, setPreviewEmails] = useState<DecisionEmailPreview[]>([]);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [releasing, setReleasing] = useState(false);
+
+  useEffect(() => {
+    loadData({});
+  }, []);
+
+  const loadData = async (criteria: DecisionCriteria) => {
+    try {
+      setLoading(true);
+      const [candidateData, batchData] = await Promise.all([
+        adminMonitoringApi.getDecisionCandidates(criteria),
+        adminMonitoringApi.getDecisionBatches()
+      ]);
+      setCandidates(candidateData);
+      setBatches(batchData);
+      setSelected([]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load decision data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApplyFilter = () => {
+    const criteria: DecisionCriteria = {
+      sessionTypes: sessionTypes.length > 0 ? sessionTypes : undefined,
+      consensus: consensus.length > 0 ? consensus : undefined,
+      minAverageScore: parseScore(minScore),
+      maxAverageScore: parseScore(maxScore),
+      minCompletedReviews: minReviews === '' ? undefined : parseInt(minReviews, 10)
+    };
+    setAppliedCriteria(criteria);
+    loadData(criteria);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    setSelected(prev => prev.length === candidates.length ? [] : candidates.map(candidate => candidate.id));
+  };
+
+  const handleApplyDecision = async () => {
+    try {
+      setSubmitting(true);
+      const result = await adminMonitoringApi.createDecisionBatch({
+        submissionIds: selected,
+        decision,
+        adminNotes: adminNotes || undefined,
+        criteria: appliedCriteria
+      });
+      setDecisionDialogOpen(false);
+      setAdminNotes('');
+      setSuccess(
+        `${result.batch.itemCount} submission(s) ${decision}. Author emails are held until you release the batch.` +
+        (result.skipped.length > 0 ? ` ${result.skipped.length} skipped: ${result.skipped.map(item => item.reason).join('; ')}` : '')
+      );
+      await loadData(appliedCriteria);
+    } catch (err: any) {
+      setError(err.message || 'Failed to apply decisions');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOpenPreview = async (batch: DecisionBatch) => {
+    try {
+      const data = await adminMonitoringApi.previewDecisionBatch(batch.id);
+      setPreviewBatch(batch);
+      setPreviewEmails(data.emails);
+      setPreviewIndex(0);
+    } catch (err: any) {
+      setError(err.message || 'Failed to preview decision emails');
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!previewBatch) return;
+
+    try {
+      setReleasing(true);
+      const result = await adminMonitoringApi.releaseDecisionBatch(previewBatch.id);
+      setPreviewBatch(null);
+      setSuccess(`Sent ${result.sent} decision email(s)` + (result.failed > 0 ? `, ${result.failed} failed and can be retried` : ''));
+      setBatches(await adminMonitoringApi.getDecisionBatches());
+    } catch (err: any) {
+      setError(err.message || 'Failed to release decision emails');
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  const currentEmail = previewEmails[previewIndex];
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>
+        Program Committee Decisions
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {/* Selection Filter */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} md={3}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Sessions"
+              value={sessionTypes}
+              onChange={(e) => setSessionTypes(e.target.value as unknown as SessionType[])}
+              SelectProps={{ multiple: true }}
+            >
+              {tracks.map((track) => (
+                <MenuItem key={track.code} value={track.code}>
+                  {track.code} - {track.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Recommendation consensus"
+              value={consensus}
+              onChange={(e) => setConsensus(e.target.value as unknown as RecommendationConsensus[])}
+              SelectProps={{ multiple: true }}
+            >
+              {CONSENSUS_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={4} md={1.5}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Min score"
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              inputProps={{ min: 1, max: 10, step: 0.5 }}
+            />
+          </Grid>
+          <Grid item xs={4} md={1.5}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Max score"
+              value={maxScore}
+              onChange={(e) => setMaxScore(e.target.value)}
+              inputProps={{ min: 1, max: 10, step: 0.5 }}
+            />
+          </Grid>
+          <Grid item xs={4} md={1.5}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Min reviews"
+              value={minReviews}
+              onChange={(e) => setMinReviews(e.target.value)}
+              inputProps={{ min: 0 }}
+            />
+          </Grid>
+          <Grid item xs={12} md={1.5}>
+            <Button fullWidth variant="outlined" startIcon={<FilterList />} onClick={handleApplyFilter}>
+              Filter
+            </Button>
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {/* Candidates */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle1">
+          {candidates.length} submission(s) awaiting a decision, {selected.length} selected
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<Gavel />}
+          disabled={selected.length === 0}
+          onClick={() => setDecisionDialogOpen(true)}
+        >
+          Decide Selected
+        </Button>
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer component={Paper} sx={{ mb: 4, maxHeight: 480 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  indeterminate={selected.length > 0 && selected.length < candidates.length}
+                  checked={candidates.length > 0 && selected.length === candidates.length}
+                  onChange={toggleAll}
+                />
+              </TableCell>
+              <TableCell>Title</TableCell>
+              <TableCell>Session</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Avg. Score</TableCell>
+              <TableCell align="right">Reviews</TableCell>
+              <TableCell>Consensus</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {candidates.map((candidate) => (
+              <TableRow key={candidate.id} hover onClick={() => toggleSelected(candidate.id)} sx={{ cursor: 'pointer' }}>
+                <TableCell padding="checkbox">
+                  <Checkbox checked={selected.includes(candidate.id)} />
+                </TableCell>
+                <TableCell sx={{ maxWidth: 420 }}>{candidate.title}</TableCell>
+                <TableCell>{candidate.sessionType}</TableCell>
+                <TableCell>
+                  <Chip label={candidate.status.replace(/_/g, ' ')} size="small" />
+                </TableCell>
+                <TableCell align="right">
+                  {candidate.averageScore !== null ? candidate.averageScore.toFixed(2) : '—'}
+                </TableCell>
+                <TableCell align="right">{candidate.completedReviews}</TableCell>
+                <TableCell>
+                  <Chip label={candidate.consensus} size="small" color={consensusColor(candidate.consensus)} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && candidates.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center">
+                  <Typography variant="body2" color="text.secondary">No submissions match the filter</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Decision Batches */}
+      <Typography variant="h6" gutterBottom>
+        Decision Batches
+      </Typography>
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Created</TableCell>
+              <TableCell>Decision</TableCell>
+              <TableCell align="right">Submissions</TableCell>
+              <TableCell>By</TableCell>
+              <TableCell>Emails</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {batches.map((batch) => (
+              <TableRow key={batch.id}>
+                <TableCell>{new Date(batch.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={batch.decision}
+                    size="small"
+                    color={batch.decision === 'accepted' ? 'success' : 'error'}
+                  />
+                </TableCell>
+                <TableCell align="right">{batch.itemCount}</TableCell>
+                <TableCell>{batch.createdByName || '—'}</TableCell>
+                <TableCell>
+                  {batch.releasedAt
+                    ? `Sent ${batch.notifiedCount}/${batch.itemCount}`
+                    : <Chip label="Held" size="small" color="warning" variant="outlined" />}
+                </TableCell>
+                <TableCell align="right">
+                  <Button size="small" startIcon={<Visibility />} onClick={() => handleOpenPreview(batch)}>
+                    {hasUnsentEmails(batch) ? 'Preview & Release' : 'View Emails'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {batches.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary">No decisions applied yet</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Apply Decision Dialog */}
+      <Dialog open={decisionDialogOpen} onClose={() => setDecisionDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Decide {selected.length} Submission(s)</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            label="Decision"
+            value={decision}
+            onChange={(e) => setDecision(e.target.value as DecisionStatus)}
+            sx={{ mt: 1, mb: 2 }}
+          >
+            <MenuItem value="accepted">Accept</MenuItem>
+            <MenuItem value="rejected">Reject</MenuItem>
+          </TextField>
+          <TextField
+            fullWidth
+            multiline
+            rows={4}
+            label="Notes to authors (optional)"
+            value={adminNotes}
+            onChange={(e) => setAdminNotes(e.target.value)}
+          />
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Statuses change immediately. Author emails are held until you preview and release the batch.
+          </Alert>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDecisionDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleApplyDecision} disabled={submitting}>
+            Apply Decision
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Email Preview Dialog */}
+      <Dialog open={!!previewBatch} onClose={() => setPreviewBatch(null)} maxWidth="md" fullWidth>
+        <DialogTitle>Decision Emails ({previewEmails.length})</DialogTitle>
+        <DialogContent>
+          {currentEmail ? (
+            <>
+              <Typography variant="body2"><strong>To:</strong> {currentEmail.to || 'No author email on file'}</Typography>
+              <Typography variant="body2" gutterBottom><strong>Subject:</strong> {currentEmail.subject}</Typography>
+              <Box
+                component="iframe"
+                title="Email preview"
+                sandbox=""
+                srcDoc={currentEmail.html}
+                sx={{ width: '100%', height: 420, border: 1, borderColor: 'divider', mt: 1 }}
+              />
+              {previewEmails.length > 1 && (
+                <Box display="flex" justifyContent="center" mt={2}>
+                  <Pagination
+                    count={previewEmails.length}
+                    page={previewIndex + 1}
+                    onChange={(_, page) => setPreviewIndex(page - 1)}
+                    size="small"
+                  />
+                </Box>
+              )}
+            </>
+          ) : (
+            <Typography color="text.secondary">This batch has no emails to send</Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPreviewBatch(null)}>Close</Button>
+          {previewBatch && hasUnsentEmails(previewBatch) && (
+            <Button
+              variant="contained"
+              startIcon={<Send />}
+              onClick={handleRelease}
+              disabled={releasing || previewEmails.length === 0}
+            >
+              {previewBatch.releasedAt ? 'Retry Unsent Emails' : 'Release Decisions'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminBulkDecisions;
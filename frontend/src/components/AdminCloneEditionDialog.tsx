@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  TextField,
+  Typography,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress
+} from '@mui/material';
+import { ConferenceClonePlan, ConferenceSummary } from '../types/conference';
+import { conferenceApi } from '../services/conferenceApi';
+
+interface AdminCloneEditionDialogProps {
+  open: boolean;
+  source?: ConferenceSummary;
+  onClose: () => void;
+  onCloned: (conferenceId: string) => void;
+}
+
+// 52 weeks keeps every date on the same weekday
+const DEFAULT_OFFSET_DAYS = 364;
+
+// "Conference 2025" becomes "Conference 2026"
+const suggestName = (name: string) => {
+  const year = name.match(/(19|20)\d{2}/);
+  return year ? name.replace(year[0], String(Number(year[0]) + 1)) : `${name} (copy)`;
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const AdminCloneEditionDialog: React.FC<AdminCloneEditionDialogProps> = ({ open, source, onClose, onCloned }) => {
+  const [name, setName] = useState('');
+  const [venue, setVenue] = useState('');
+  const [offsetDays, setOffsetDays] = useState(DEFAULT_OFFSET_DAYS);
+  const [plan, setPlan] = useState<ConferenceClonePlan | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && source) {
+      setName(suggestName(source.name));
+      setVenue('');
+      setOffsetDays(DEFAULT_OFFSET_DAYS);
+      setPlan(null);
+      setError(null);
+    }
+  }, [open, source]);
+
+  // The preview no longer matches once an input changes
+  useEffect(() => {
+    setPlan(null);
+  }, [name, venue, offsetDays]);
+
+  const request = () => ({
+    name: name.trim(),
+    ...(venue.trim() ? { venue: venue.trim() } : {}),
+    dateOffsetDays: offsetDays
+  });
+
+  const handlePreview = async () => {
+    if (!source) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      const result = await conferenceApi.cloneConference(source.id, { ...request(), dryRun: true });
+      setPlan(result.plan);
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError(details?.join('; ') || err.response?.data?.error?.message || err.message || 'Failed to preview the clone');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!source) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      const result = await conferenceApi.cloneConference(source.id, request());
+      if (result.conference) {
+        onCloned(result.conference.id);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to clone the edition');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const scheduleCount = plan?.sessions.reduce((total, session) => total + session.schedules.length, 0) || 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Clone {source?.name}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Copies tracks, sessions and schedules, registration fees, session policies, review rubrics, payment
+          instructions, email settings and the abstract book template. Registrations, submissions, reviews and payments stay
+          with the original edition. The new edition is created inactive.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              label="Venue"
+              value={venue}
+              onChange={(e) => setVenue(e.target.value)}
+              helperText="Leave empty to keep the current venue"
+            />
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Shift dates by (days)"
+              value={offsetDays}
+              onChange={(e) => setOffsetDays(parseInt(e.target.value, 10) || 0)}
+              helperText="364 days keeps every date on the same weekday next year"
+            />
+          </Grid>
+        </Grid>
+
+        {plan && (
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>Preview</Typography>
+            <Typography variant="body2">
+              <strong>{plan.conference.name}</strong>, {plan.conference.venue}
+            </Typography>
+            <Typography variant="body2">
+              {formatDate(plan.conference.startDate)} - {formatDate(plan.conference.endDate)}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Submissions close {formatDateTime(plan.conference.submissionDeadline)}, registration
+              closes {formatDateTime(plan.conference.registrationDeadline)}
+            </Typography>
+
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', my: 2 }}>
+              <Chip label={`${plan.tracks.length} tracks`} />
+              <Chip label={`${plan.sessions.length} sessions, ${scheduleCount} time slots`} />
+              <Chip label={`${plan.registrationFees.length} registration fees`} />
+              <Chip label={`${plan.sessionPolicies.length} session policies`} />
+              <Chip label={`${plan.reviewRubrics.length} review rubrics`} />
+              <Chip
+                label={plan.paymentInstructions ? 'Payment instructions' : 'No payment instructions'}
+                variant={plan.paymentInstructions ? 'filled' : 'outlined'}
+              />
+              <Chip
+                label={plan.conference.abstractBookTemplate ? 'Saved abstract book template' : 'Default abstract book template'}
+                variant="outlined"
+              />
+              {plan.conference.emailSettings.fromName && (
+                <Chip label={`Sender: ${plan.conference.emailSettings.fromName}`} variant="outlined" />
+              )}
+            </Box>
+
+            {plan.tracks.length > 0 && (
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                Tracks: {plan.tracks.map(track => track.code + (track.isActive ? '' : ' (closed)')).join(', ')}
+              </Typography>
+            )}
+
+            {plan.registrationFees.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Participant type</TableCell>
+                    <TableCell align="right">Regular fee</TableCell>
+                    <TableCell>Early bird until</TableCell>
+                    <TableCell>Late fee from</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {plan.registrationFees.map(fee => (
+                    <TableRow key={fee.participantType}>
+                      <TableCell>{fee.participantType.replace(/_/g, ' ')}</TableCell>
+                      <TableCell align="right">{fee.regularFee} {fee.currency}</TableCell>
+                      <TableCell>{formatDate(fee.earlyBirdDeadline)}</TableCell>
+                      <TableCell>{formatDate(fee.lateRegistrationStart)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={working}>Cancel</Button>
+        <Button onClick={handlePreview} disabled={working || !name.trim()}>
+          Preview
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleCreate}
+          disabled={working || !plan}
+          startIcon={working ? <CircularProgress size={16} /> : undefined}
+        >
+          Create Edition
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AdminCloneEditionDialog;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  MenuItem,
+  TextField,
+  Tooltip
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import {
+  adminSystemApi,
+  DeadlineExtension,
+  DeadlineExtensionList
+} from '../services/adminSystemApi';
+
+type ExtensionTarget = 'user' | 'submission';
+
+const emptyForm = {
+  target: 'user' as ExtensionTarget,
+  targetId: '',
+  extendedUntil: '',
+  reason: ''
+};
+
+const AdminDeadlineExtensions: React.FC = () => {
+  const [data, setData] = useState<DeadlineExtensionList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadExtensions = async () => {
+    try {
+      setLoading(true);
+      setData(await adminSystemApi.getDeadlineExtensions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deadline extensions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadExtensions();
+  }, []);
+
+  const handleGrant = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await adminSystemApi.grantDeadlineExtension({
+        ...(form.target === 'user' ? { userId: form.targetId.trim() } : { submissionId: form.targetId.trim() }),
+        extendedUntil: new Date(form.extendedUntil).toISOString(),
+        reason: form.reason.trim()
+      });
+      setDialogOpen(false);
+      setForm(emptyForm);
+      await loadExtensions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant deadline extension');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (extension: DeadlineExtension) => {
+    if (!window.confirm('Revoke this deadline extension?')) return;
+    try {
+      await adminSystemApi.revokeDeadlineExtension(extension.id);
+      await loadExtensions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke deadline extension');
+    }
+  };
+
+  const isExpired = (extension: DeadlineExtension) => new Date(extension.extendedUntil) < new Date();
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          {data && (
+            <Typography variant="body2" color="text.secondary">
+              Deadline {new Date(data.submissionDeadline).toLocaleString()}
+              {data.submissionGraceMinutes > 0 && ` plus a ${data.submissionGraceMinutes} minute grace period`}
+            </Typography>
+          )}
+        </Box>
+        <Button variant="contained" startIcon={<Add />} onClick={() => setDialogOpen(true)}>
+          Grant Extension
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" p={3}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Applies To</TableCell>
+                <TableCell>Extended Until</TableCell>
+                <TableCell>Reason</TableCell>
+                <TableCell>Granted</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data?.extensions.map((extension) => (
+                <TableRow key={extension.id} sx={isExpired(extension) ? { opacity: 0.5 } : undefined}>
+                  <TableCell>
+                    {extension.submissionId ? (
+                      <>
+                        <Typography variant="body2">{extension.submissionTitle}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          Submission · {extension.userName}
+                        </Typography>
+                      </>
+                    ) : (
+                      <>
+                        <Typography variant="body2">{extension.userName}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          All submissions · {extension.userEmail}
+                        </Typography>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>{new Date(extension.extendedUntil).toLocaleString()}</TableCell>
+                  <TableCell>{extension.reason}</TableCell>
+                  <TableCell>{new Date(extension.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Revoke">
+                      <IconButton size="small" color="error" onClick={() => handleRevoke(extension)}>
+                        <Delete />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {data?.extensions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} align="center">
+                    <Typography variant="body2" color="text.secondary">No deadline extensions granted</Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Grant Extension Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Grant Deadline Extension</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            <Grid item xs={12} md={4}>
+              <TextField
+                select
+                fullWidth
+                label="Applies To"
+                value={form.target}
+                onChange={(e) => setForm(prev => ({ ...prev, target: e.target.value as ExtensionTarget }))}
+              >
+                <MenuItem value="user">User</MenuItem>
+                <MenuItem value="submission">Submission</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid item xs={12} md={8}>
+              <TextField
+                fullWidth
+                label={form.target === 'user' ? 'User ID' : 'Submission ID'}
+                value={form.targetId}
+                onChange={(e) => setForm(prev => ({ ...prev, targetId: e.target.value }))}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                type="datetime-local"
+                label="Extended Until"
+                value={form.extendedUntil}
+                onChange={(e) => setForm(prev => ({ ...prev, extendedUntil: e.target.value }))}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                rows={3}
+                label="Reason"
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleGrant}
+            disabled={saving || !form.targetId.trim() || !form.extendedUntil || form.reason.trim().length < 5}
+          >
+            {saving ? <CircularProgress size={20} /> : 'Grant'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminDeadlineExtensions;
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { PlayArrow as ActivateIcon, ContentCopy as CloneIcon } from '@mui/icons-material';
+import { ConferenceSummary } from '../types/conference';
+import { conferenceApi } from '../services/conferenceApi';
+import AdminCloneEditionDialog from './AdminCloneEditionDialog';
+
+interface AdminEditionSwitcherProps {
+  // Managed edition; null follows the current one
+  value: string | null;
+  onChange: (conferenceId: string | null) => void;
+}
+
+const AdminEditionSwitcher: React.FC<AdminEditionSwitcherProps> = ({ value, onChange }) => {
+  const [conferences, setConferences] = useState<ConferenceSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activating, setActivating] = useState(false);
+  const [cloneOpen, setCloneOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConferences();
+  }, []);
+
+  const loadConferences = async () => {
+    try {
+      setLoading(true);
+      const data = await conferenceApi.getConferences();
+      setConferences(data);
+      // Forget an edition that no longer exists
+      if (value && !data.some(conference => conference.id === value)) {
+        onChange(null);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load conferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const current = conferences.find(conference => conference.isCurrent);
+  const selected = conferences.find(conference => conference.id === value) || current;
+
+  const handleActivate = async () => {
+    if (!selected || selected.isCurrent) return;
+    if (!window.confirm(
+      `Make "${selected.name}" the current edition? New registrations, submissions and payments will go to it.`
+    )) {
+      return;
+    }
+
+    try {
+      setActivating(true);
+      setError(null);
+      await conferenceApi.activateConference(selected.id);
+      onChange(null);
+      await loadConferences();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to activate conference');
+    } finally {
+      setActivating(false);
+    }
+  };
+
+  // Switch to the new edition so it can be set up before it goes live
+  const handleCloned = async (conferenceId: string) => {
+    setCloneOpen(false);
+    await loadConferences();
+    onChange(conferenceId);
+  };
+
+  if (loading && conferences.length === 0) {
+    return <CircularProgress size={24} />;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <FormControl size="small" sx={{ minWidth: 280 }}>
+        <InputLabel id="admin-edition-label">Edition</InputLabel>
+        <Select
+          labelId="admin-edition-label"
+          label="Edition"
+          value={selected?.id || ''}
+          onChange={(event) => {
+            const id = event.target.value as string;
+            onChange(id === current?.id ? null : id);
+          }}
+        >
+          {conferences.map(conference => (
+            <MenuItem key={conference.id} value={conference.id}>
+              {conference.name}
+              {conference.isCurrent ? ' (current)' : ''}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {selected && !selected.isCurrent && (
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={activating ? <CircularProgress size={16} /> : <ActivateIcon />}
+          onClick={handleActivate}
+          disabled={activating}
+        >
+          Make current
+        </Button>
+      )}
+
+      {selected && (
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<CloneIcon />}
+          onClick={() => setCloneOpen(true)}
+        >
+          Clone
+        </Button>
+      )}
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <AdminCloneEditionDialog
+        open={cloneOpen}
+        source={selected}
+        onClose={() => setCloneOpen(false)}
+        onCloned={handleCloned}
+      />
+    </Box>
+  );
+};
+
+export default AdminEditionSwitcher;
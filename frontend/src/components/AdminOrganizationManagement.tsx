@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Grid,
+  LinearProgress
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { Organization, OrganizationRequest } from '../types/organization';
+import { organizationApi } from '../services/organizationApi';
+
+const emptyForm = { name: '', shortName: '', aliases: '', city: '', country: '' };
+
+const AdminOrganizationManagement: React.FC = () => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Organization | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOrganizations(search);
+  }, [search]);
+
+  const loadOrganizations = async (query?: string) => {
+    try {
+      setLoading(true);
+      setOrganizations(await organizationApi.getOrganizations(query || undefined));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load organizations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (organization: Organization) => {
+    setEditing(organization);
+    setForm({
+      name: organization.name,
+      shortName: organization.shortName || '',
+      aliases: organization.aliases.join(', '),
+      city: organization.city || '',
+      country: organization.country || ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const data: OrganizationRequest = {
+      name: form.name.trim(),
+      shortName: form.shortName.trim(),
+      aliases: form.aliases.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0),
+      city: form.city.trim(),
+      country: form.country.trim()
+    };
+
+    try {
+      setSaving(true);
+      if (editing) {
+        await organizationApi.updateOrganization(editing.id, data);
+      } else {
+        await organizationApi.createOrganization(data);
+      }
+      setDialogOpen(false);
+      await loadOrganizations(search);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to save organization');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (organization: Organization) => {
+    if (!window.confirm(`Delete ${organization.name}? Authors keep their typed affiliation.`)) return;
+    try {
+      await organizationApi.deleteOrganization(organization.id);
+      await loadOrganizations(search);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to delete organization');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h5">Organizations</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+          Add Organization
+        </Button>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Authors pick their affiliation from this list. Short names and aliases are matched against
+        typed affiliations so the abstract book numbers each institution once.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TextField
+        size="small"
+        label="Search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        sx={{ mb: 2, minWidth: 300 }}
+      />
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Name</TableCell>
+              <TableCell>Short Name</TableCell>
+              <TableCell>Aliases</TableCell>
+              <TableCell>City</TableCell>
+              <TableCell>Country</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {organizations.map((organization) => (
+              <TableRow key={organization.id}>
+                <TableCell>{organization.name}</TableCell>
+                <TableCell>{organization.shortName || '-'}</TableCell>
+                <TableCell>
+                  {organization.aliases.map(alias => (
+                    <Chip key={alias} label={alias} size="small" sx={{ mr: 0.5, mb: 0.5 }} />
+                  ))}
+                </TableCell>
+                <TableCell>{organization.city || '-'}</TableCell>
+                <TableCell>{organization.country || '-'}</TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => openEdit(organization)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(organization)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && organizations.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary">No organizations found</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Organization' : 'Add Organization'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0.5 }}>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                required
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Short Name"
+                value={form.shortName}
+                onChange={(e) => setForm({ ...form, shortName: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Aliases"
+                helperText="Comma-separated"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="City"
+                value={form.city}
+                onChange={(e) => setForm({ ...form, city: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Country"
+                value={form.country}
+                onChange={(e) => setForm({ ...form, country: e.target.value })}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || form.name.trim().length < 2}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminOrganizationManagement;
@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Grid,
+  LinearProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  RemoveCircleOutline as RemoveIcon
+} from '@mui/icons-material';
+import { Track } from '../types/conference';
+import { ReviewRubric, RubricCriterion } from '../types/review';
+import { reviewRubricApi } from '../services/reviewRubricApi';
+import { trackApi } from '../services/trackApi';
+import { conferenceApi } from '../services/conferenceApi';
+import { getManagedConferenceId } from '../services/conferenceEdition';
+
+// Select value of the conference-wide rubric
+const CONFERENCE_WIDE = '';
+
+interface CriterionForm {
+  key: string;
+  label: string;
+  description: string;
+  weight: string;
+}
+
+const emptyCriterion: CriterionForm = { key: '', label: '', description: '', weight: '1' };
+
+// The committee's usual criteria, offered when a rubric is created
+const defaultCriteria: CriterionForm[] = [
+  { key: 'originality', label: 'Originality', description: '', weight: '25' },
+  { key: 'technical_soundness', label: 'Technical soundness', description: '', weight: '35' },
+  { key: 'relevance', label: 'Relevance to the session', description: '', weight: '25' },
+  { key: 'clarity', label: 'Clarity', description: '', weight: '15' }
+];
+
+// "Technical soundness" becomes "technical_soundness"
+const toCriterionKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 50);
+
+const AdminReviewRubrics: React.FC = () => {
+  const [rubrics, setRubrics] = useState<ReviewRubric[]>([]);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ReviewRubric | null>(null);
+  const [name, setName] = useState('');
+  const [sessionType, setSessionType] = useState(CONFERENCE_WIDE);
+  const [criteria, setCriteria] = useState<CriterionForm[]>(defaultCriteria);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRubrics();
+  }, []);
+
+  const loadRubrics = async () => {
+    try {
+      setLoading(true);
+      const conferenceId = getManagedConferenceId() || (await conferenceApi.getActiveConference()).id;
+      const [rubricList, trackList] = await Promise.all([
+        reviewRubricApi.getRubrics(),
+        trackApi.getConferenceTracks(conferenceId)
+      ]);
+      setRubrics(rubricList);
+      setTracks(trackList);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load review rubrics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scopeLabel = (rubric: ReviewRubric) => {
+    if (!rubric.sessionType) return 'All tracks';
+    const track = tracks.find(t => t.code === rubric.sessionType);
+    return track ? `${track.code} - ${track.name}` : rubric.sessionType;
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setName('');
+    // Suggest the first scope that has no rubric yet
+    const taken = new Set(rubrics.map(rubric => rubric.sessionType || CONFERENCE_WIDE));
+    setSessionType(taken.has(CONFERENCE_WIDE) ? tracks.find(track => !taken.has(track.code))?.code || CONFERENCE_WIDE : CONFERENCE_WIDE);
+    setCriteria(defaultCriteria);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rubric: ReviewRubric) => {
+    setEditing(rubric);
+    setName(rubric.name);
+    setSessionType(rubric.sessionType || CONFERENCE_WIDE);
+    setCriteria(rubric.criteria.map(criterion => ({
+      key: criterion.key,
+      label: criterion.label,
+      description: criterion.description || '',
+      weight: String(criterion.weight)
+    })));
+    setDialogOpen(true);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<CriterionForm>) => {
+    setCriteria(criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  // New criteria take their key from the label; saved keys stay so past scores keep their meaning
+  const isSavedKey = (key: string) => Boolean(editing?.criteria.some(criterion => criterion.key === key));
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + (parseFloat(criterion.weight) || 0), 0);
+
+  const handleSave = async () => {
+    const data: RubricCriterion[] = criteria.map(criterion => ({
+      key: criterion.key || toCriterionKey(criterion.label),
+      label: criterion.label.trim(),
+      ...(criterion.description.trim() ? { description: criterion.description.trim() } : {}),
+      weight: parseFloat(criterion.weight) || 0
+    }));
+
+    try {
+      setSaving(true);
+      await reviewRubricApi.saveRubric({
+        name: name.trim(),
+        sessionType: sessionType || null,
+        criteria: data
+      });
+      setDialogOpen(false);
+      await loadRubrics();
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError(details?.join('; ') || err.response?.data?.error?.message || err.message || 'Failed to save review rubric');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rubric: ReviewRubric) => {
+    if (!window.confirm(`Delete the rubric "${rubric.name}"?`)) return;
+    try {
+      await reviewRubricApi.deleteRubric(rubric.id);
+      await loadRubrics();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to delete review rubric');
+    }
+  };
+
+  const canSave = name.trim().length > 0
+    && criteria.length > 0
+    && criteria.every(criterion => criterion.label.trim() && (criterion.key || toCriterionKey(criterion.label)) && parseFloat(criterion.weight) > 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h5">Review Rubrics</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate} disabled={loading}>
+          Add Rubric
+        </Button>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Reviewers score each criterion from 1 to 10 and the overall score is their weighted mean. A track's
+        rubric takes precedence over the one for all tracks; without either, reviewers give a single score.
+        Rubrics that reviews were scored with can be edited but not deleted.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Applies to</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Criteria</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rubrics.map((rubric) => {
+              const weightSum = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+              return (
+                <TableRow key={rubric.id}>
+                  <TableCell>{scopeLabel(rubric)}</TableCell>
+                  <TableCell>{rubric.name}</TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                      {rubric.criteria.map(criterion => (
+                        <Chip
+                          key={criterion.key}
+                          size="small"
+                          variant="outlined"
+                          label={`${criterion.label} ${Math.round((criterion.weight / weightSum) * 100)}%`}
+                        />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">
+                    <IconButton size="small" onClick={() => openEdit(rubric)}>
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDelete(rubric)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {!loading && rubrics.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary">
+                    No rubrics defined; reviewers give a single 1-10 score
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editing ? 'Edit Rubric' : 'Add Rubric'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0.5 }}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                required
+                label="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <FormControl fullWidth disabled={Boolean(editing)}>
+                <InputLabel id="rubric-scope-label">Applies to</InputLabel>
+                <Select
+                  labelId="rubric-scope-label"
+                  label="Applies to"
+                  value={sessionType}
+                  onChange={(e) => setSessionType(e.target.value as string)}
+                >
+                  <MenuItem value={CONFERENCE_WIDE}>All tracks</MenuItem>
+                  {tracks.map(track => (
+                    <MenuItem key={track.code} value={track.code}>
+                      {track.code} - {track.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+
+            {criteria.map((criterion, index) => (
+              <React.Fragment key={index}>
+                <Grid item xs={12} sm={4}>
+                  <TextField
+                    fullWidth
+                    required
+                    size="small"
+                    label="Criterion"
+                    value={criterion.label}
+                    onChange={(e) => updateCriterion(index, {
+                      label: e.target.value,
+                      ...(isSavedKey(criterion.key) ? {} : { key: toCriterionKey(e.target.value) })
+                    })}
+                    helperText={criterion.key ? `Key: ${criterion.key}` : undefined}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={5}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Guidance for reviewers"
+                    value={criterion.description}
+                    onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={9} sm={2}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    type="number"
+                    label="Weight"
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: e.target.value })}
+                    helperText={totalWeight > 0 ? `${Math.round(((parseFloat(criterion.weight) || 0) / totalWeight) * 100)}%` : undefined}
+                  />
+                </Grid>
+                <Grid item xs={3} sm={1}>
+                  <IconButton
+                    onClick={() => setCriteria(criteria.filter((_, i) => i !== index))}
+                    disabled={criteria.length === 1}
+                  >
+                    <RemoveIcon />
+                  </IconButton>
+                </Grid>
+              </React.Fragment>
+            ))}
+
+            <Grid item xs={12}>
+              <Button startIcon={<AddIcon />} onClick={() => setCriteria([...criteria, emptyCriterion])}>
+                Add Criterion
+              </Button>
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || !canSave}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminReviewRubrics;
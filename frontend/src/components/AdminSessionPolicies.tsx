@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  LinearProgress
+} from '@mui/material';
+import { Save as SaveIcon } from '@mui/icons-material';
+import { SessionPolicyRules } from '../types/conference';
+import { SessionType } from '../types/submission';
+import { sessionPolicyApi } from '../services/sessionPolicyApi';
+import { useTracks } from '../hooks/useTracks';
+import { DEFAULT_SESSION_POLICY } from '../utils/validation';
+
+type PolicyNumberField = 'minAbstractWords' | 'maxAbstractWords' | 'minKeywords' | 'maxKeywords';
+
+const numberFields: { field: PolicyNumberField; label: string }[] = [
+  { field: 'minAbstractWords', label: 'Min words' },
+  { field: 'maxAbstractWords', label: 'Max words' },
+  { field: 'minKeywords', label: 'Min keywords' },
+  { field: 'maxKeywords', label: 'Max keywords' }
+];
+
+const AdminSessionPolicies: React.FC = () => {
+  const [edits, setEdits] = useState<Record<string, SessionPolicyRules>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingType, setSavingType] = useState<SessionType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const { openTracks, loading: tracksLoading } = useTracks();
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      const data = await sessionPolicyApi.getSessionPolicies();
+      setEdits(Object.fromEntries(data.map(policy => [policy.sessionType, {
+        minAbstractWords: policy.minAbstractWords,
+        maxAbstractWords: policy.maxAbstractWords,
+        minKeywords: policy.minKeywords,
+        maxKeywords: policy.maxKeywords,
+        allowedPresentationTypes: policy.allowedPresentationTypes
+      }])));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load session policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Tracks without a saved policy start from the global limits
+  const getRules = (sessionType: SessionType): SessionPolicyRules =>
+    edits[sessionType] || DEFAULT_SESSION_POLICY;
+
+  const updateEdit = (sessionType: SessionType, changes: Partial<SessionPolicyRules>) => {
+    setEdits({ ...edits, [sessionType]: { ...getRules(sessionType), ...changes } });
+  };
+
+  const togglePresentationType = (sessionType: SessionType, type: 'oral' | 'poster', checked: boolean) => {
+    const current = getRules(sessionType).allowedPresentationTypes;
+    updateEdit(sessionType, {
+      allowedPresentationTypes: checked ? [...current, type] : current.filter(item => item !== type)
+    });
+  };
+
+  const handleSave = async (sessionType: SessionType) => {
+    try {
+      setSavingType(sessionType);
+      setError(null);
+      await sessionPolicyApi.updateSessionPolicy(sessionType, getRules(sessionType));
+      setSuccess(`${sessionType} policy saved`);
+      await loadPolicies();
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError(details?.join('; ') || err.response?.data?.error?.message || err.message || 'Failed to save session policy');
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom>Session Policies</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Each session can tighten the global limits of 500 words and 3-10 keywords, and restrict
+        which presentation types it accepts. Changes apply to new submissions and edits.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {(loading || tracksLoading) && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Session</TableCell>
+              {numberFields.map(({ field, label }) => (
+                <TableCell key={field}>{label}</TableCell>
+              ))}
+              <TableCell>Presentation Types</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {openTracks.map((track) => {
+              const edit = getRules(track.code);
+
+              return (
+                <TableRow key={track.code}>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="bold">{track.code}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {track.name}
+                    </Typography>
+                  </TableCell>
+                  {numberFields.map(({ field }) => (
+                    <TableCell key={field}>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={edit[field]}
+                        onChange={(e) => updateEdit(track.code, { [field]: parseInt(e.target.value, 10) || 0 })}
+                        sx={{ width: 90 }}
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell>
+                    <FormGroup row>
+                      {(['oral', 'poster'] as const).map(type => (
+                        <FormControlLabel
+                          key={type}
+                          label={type}
+                          control={
+                            <Checkbox
+                              size="small"
+                              checked={edit.allowedPresentationTypes.includes(type)}
+                              onChange={(e) => togglePresentationType(track.code, type, e.target.checked)}
+                            />
+                          }
+                        />
+                      ))}
+                    </FormGroup>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Button
+                      size="small"
+                      variant="contained"
+                      startIcon={<SaveIcon />}
+                      onClick={() => handleSave(track.code)}
+                      disabled={savingType === track.code || edit.allowedPresentationTypes.length === 0}
+                    >
+                      Save
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default AdminSessionPolicies;
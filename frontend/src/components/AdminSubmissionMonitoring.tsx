@@ -41,8 +41,14 @@ import {
   ReviewProgress,
   MonitoringDashboard
 } from '../services/adminMonitoringApi';
+import SubmissionSearch from './SubmissionSearch';
+import SubmissionSimilarityFlags from './SubmissionSimilarityFlags';
+import SubmissionWithdrawals from './SubmissionWithdrawals';
+import PresentationTypeProposals from './PresentationTypeProposals';
+import { useTracks } from '../hooks/useTracks';
 
 const AdminSubmissionMonitoring: React.FC = () => {
+  const { getTrackName } = useTracks();
   const [submissionStats, setSubmissionStats] = useState<SubmissionStatistics | null>(null);
   const [reviewProgress, setReviewProgress] = useState<ReviewProgress | null>(null);
   const [dashboard, setDashboard] = useState<MonitoringDashboard | null>(null);
@@ -113,22 +119,13 @@ const AdminSubmissionMonitoring: React.FC = () => {
       case 'accepted': return 'success';
       case 'rejected': return 'error';
       case 'under_review': return 'warning';
+      case 'revision_requested': return 'secondary';
+      case 'revised': return 'info';
       case 'submitted': return 'info';
       default: return 'default';
     }
   };
 
-  const formatSessionType = (sessionType: string) => {
-    const sessionNames: Record<string, string> = {
-      'CHE': 'Computational Chemistry',
-      'CSE': 'Computer Science/Engineering',
-      'BIO': 'Biology/Bioinformatics',
-      'MST': 'Mathematics/Statistics',
-      'PFD': 'Physics/Fluid Dynamics'
-    };
-    return sessionNames[sessionType] || sessionType;
-  };
-
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -252,7 +249,7 @@ const AdminSubmissionMonitoring: React.FC = () => {
             {dashboard?.submissionOverview && Object.entries(dashboard.submissionOverview).map(([session, statuses]) => (
               <Box key={session} sx={{ mb: 2 }}>
                 <Typography variant="subtitle1" gutterBottom>
-                  {formatSessionType(session)}
+                  {getTrackName(session)}
                 </Typography>
                 <Box display="flex" gap={1} flexWrap="wrap">
                   {Object.entries(statuses).map(([status, count]) => (
@@ -363,7 +360,7 @@ const AdminSubmissionMonitoring: React.FC = () => {
                             Reviewer: {review.reviewer_name}
                           </Typography>
                           <Typography variant="body2" color="text.secondary">
-                            Session: {formatSessionType(review.session_type)}
+                            Session: {getTrackName(review.session_type)}
                           </Typography>
                           <Typography variant="body2" color="error">
                             {review.days_overdue} days overdue
@@ -419,6 +416,26 @@ const AdminSubmissionMonitoring: React.FC = () => {
             </List>
           </Paper>
         </Grid>
+
+        {/* Full-text Search */}
+        <Grid item xs={12}>
+          <SubmissionSearch />
+        </Grid>
+
+        {/* Near-duplicate Submissions */}
+        <Grid item xs={12}>
+          <SubmissionSimilarityFlags />
+        </Grid>
+
+        {/* Withdrawal Requests */}
+        <Grid item xs={12}>
+          <SubmissionWithdrawals />
+        </Grid>
+
+        {/* Presentation Type Proposals */}
+        <Grid item xs={12}>
+          <PresentationTypeProposals />
+        </Grid>
       </Grid>
 
       {/* Send Reminders Dialog */}
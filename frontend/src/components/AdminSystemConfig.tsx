@@ -27,7 +27,11 @@ import {
   List,
   ListItem,
   ListItemText,
-  Divider
+  Divider,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
 } from '@mui/material';
 import {
   Settings,
@@ -39,7 +43,8 @@ import {
   ExpandMore,
   Memory,
   Storage,
-  Computer
+  Computer,
+  Schedule
 } from '@mui/icons-material';
 import {
   adminSystemApi,
@@ -49,6 +54,20 @@ import {
   BackupMetadata,
   SystemLog
 } from '../services/adminSystemApi';
+import AdminDeadlineExtensions from './AdminDeadlineExtensions';
+import { ReviewMode } from '../types/conference';
+
+const REVIEW_MODE_LABELS: Record<ReviewMode, string> = {
+  none: 'Open review',
+  single_blind: 'Single-blind',
+  double_blind: 'Double-blind'
+};
+
+const REVIEW_MODE_DESCRIPTIONS: Record<ReviewMode, string> = {
+  none: 'Reviewers see the authors; nothing is anonymized',
+  single_blind: 'Reviewers see the authors; authors do not see the reviewers',
+  double_blind: 'Neither side sees the other; reviewers get anonymized submissions and manuscripts'
+};
 
 const AdminSystemConfig: React.FC = () => {
   const [health, setHealth] = useState<SystemHealth | null>(null);
@@ -343,7 +362,9 @@ const AdminSystemConfig: React.FC = () => {
                         endDate: config.conference.end_date,
                         venue: config.conference.venue,
                         registrationDeadline: config.conference.registration_deadline,
-                        submissionDeadline: config.conference.submission_deadline
+                        submissionDeadline: config.conference.submission_deadline,
+                        submissionGraceMinutes: config.conference.submission_grace_minutes,
+                        reviewMode: config.conference.review_mode
                       } : {},
                       paymentInstructions: config?.paymentInstructions ? {
                         bankName: config.paymentInstructions.bank_name,
@@ -353,7 +374,8 @@ const AdminSystemConfig: React.FC = () => {
                         routingNumber: config.paymentInstructions.routing_number,
                         instructions: config.paymentInstructions.instructions,
                         supportContact: config.paymentInstructions.support_contact
-                      } : {}
+                      } : {},
+                      emailSettings: { ...config?.conference?.email_settings }
                     });
                     setConfigDialogOpen(true);
                   }}
@@ -384,6 +406,31 @@ const AdminSystemConfig: React.FC = () => {
                       {new Date(config.conference.end_date).toLocaleDateString()}
                     </Typography>
                   </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" color="text.secondary">Submission Deadline</Typography>
+                    <Typography variant="body1">
+                      {new Date(config.conference.submission_deadline).toLocaleString()}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" color="text.secondary">Grace Period</Typography>
+                    <Typography variant="body1">
+                      {config.conference.submission_grace_minutes || 0} minutes
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" color="text.secondary">Review Mode</Typography>
+                    <Typography variant="body1">
+                      {REVIEW_MODE_LABELS[config.conference.review_mode || 'single_blind']}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Typography variant="subtitle2" color="text.secondary">Email Sender</Typography>
+                    <Typography variant="body1">
+                      {config.conference.email_settings?.fromName || 'Server default'}
+                      {config.conference.email_settings?.replyTo ? ` (replies to ${config.conference.email_settings.replyTo})` : ''}
+                    </Typography>
+                  </Grid>
                 </Grid>
               ) : (
                 <Alert severity="warning">No conference configuration found</Alert>
@@ -392,6 +439,21 @@ const AdminSystemConfig: React.FC = () => {
           </Accordion>
         </Grid>
 
+        {/* Deadline Extensions */}
+        <Grid item xs={12}>
+          <Accordion>
+            <AccordionSummary expandIcon={<ExpandMore />}>
+              <Box display="flex" alignItems="center">
+                <Schedule sx={{ mr: 2, color: 'info.main' }} />
+                <Typography variant="h6">Deadline Extensions</Typography>
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <AdminDeadlineExtensions />
+            </AccordionDetails>
+          </Accordion>
+        </Grid>
+
         {/* Backup & Maintenance */}
         <Grid item xs={12}>
           <Accordion>
@@ -529,6 +591,42 @@ const AdminSystemConfig: React.FC = () => {
                 sx={{ mb: 2 }}
               />
             </Grid>
+            <Grid item xs={12} md={6}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Submission Grace Period (minutes)"
+                value={editingConfig.conference?.submissionGraceMinutes ?? 0}
+                onChange={(e) => setEditingConfig(prev => ({
+                  ...prev,
+                  conference: { ...prev.conference, submissionGraceMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) }
+                }))}
+                helperText="Submissions are still accepted for this long after the deadline"
+                inputProps={{ min: 0, max: 10080 }}
+                sx={{ mb: 2 }}
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <FormControl fullWidth sx={{ mb: 2 }}>
+                <InputLabel id="review-mode-label">Review Mode</InputLabel>
+                <Select
+                  labelId="review-mode-label"
+                  label="Review Mode"
+                  value={editingConfig.conference?.reviewMode || 'single_blind'}
+                  onChange={(e) => setEditingConfig(prev => ({
+                    ...prev,
+                    conference: { ...prev.conference, reviewMode: e.target.value as ReviewMode }
+                  }))}
+                  renderValue={(value) => REVIEW_MODE_LABELS[value as ReviewMode]}
+                >
+                  {(Object.keys(REVIEW_MODE_LABELS) as ReviewMode[]).map(mode => (
+                    <MenuItem key={mode} value={mode}>
+                      <ListItemText primary={REVIEW_MODE_LABELS[mode]} secondary={REVIEW_MODE_DESCRIPTIONS[mode]} />
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
             <Grid item xs={12}>
               <TextField
                 fullWidth
@@ -545,6 +643,38 @@ const AdminSystemConfig: React.FC = () => {
             </Grid>
           </Grid>
 
+          <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+            Email Settings
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={6}>
+              <TextField
+                fullWidth
+                label="Sender Name"
+                value={editingConfig.emailSettings?.fromName || ''}
+                onChange={(e) => setEditingConfig(prev => ({
+                  ...prev,
+                  emailSettings: { ...prev.emailSettings, fromName: e.target.value }
+                }))}
+                helperText="Shown as the sender of every email this edition sends"
+                sx={{ mb: 2 }}
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <TextField
+                fullWidth
+                type="email"
+                label="Reply-To Address"
+                value={editingConfig.emailSettings?.replyTo || ''}
+                onChange={(e) => setEditingConfig(prev => ({
+                  ...prev,
+                  emailSettings: { ...prev.emailSettings, replyTo: e.target.value }
+                }))}
+                sx={{ mb: 2 }}
+              />
+            </Grid>
+          </Grid>
+
           <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
             Payment Instructions
           </Typography>
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Grid,
+  LinearProgress,
+  FormControlLabel,
+  Switch
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import { Track, TrackChair, TrackRequest } from '../types/conference';
+import { trackApi } from '../services/trackApi';
+import { conferenceApi } from '../services/conferenceApi';
+import { getManagedConferenceId } from '../services/conferenceEdition';
+import { useTracks } from '../hooks/useTracks';
+
+const emptyForm = {
+  code: '',
+  name: '',
+  description: '',
+  guidelines: '',
+  color: '#1976d2',
+  chairs: '',
+  sortOrder: '',
+  isActive: true
+};
+
+// Chairs are edited one per line as "Name | Affiliation | Email"
+const formatChairs = (chairs: TrackChair[]) =>
+  chairs.map(chair => {
+    const parts = [chair.name, chair.affiliation || '', chair.email || ''];
+    while (parts.length > 1 && !parts[parts.length - 1]) parts.pop();
+    return parts.join(' | ');
+  }).join('\n');
+
+const parseChairs = (text: string): TrackChair[] =>
+  text.split('\n')
+    .map(line => line.split('|').map(part => part.trim()))
+    .filter(([name]) => name.length > 0)
+    .map(([name, affiliation, email]) => ({
+      name,
+      ...(affiliation ? { affiliation } : {}),
+      ...(email ? { email } : {})
+    }));
+
+const AdminTrackManagement: React.FC = () => {
+  const [conferenceId, setConferenceId] = useState<string | null>(null);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Track | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { refresh } = useTracks();
+
+  useEffect(() => {
+    loadTracks();
+  }, []);
+
+  const loadTracks = async () => {
+    try {
+      setLoading(true);
+      const id = getManagedConferenceId() || (await conferenceApi.getActiveConference()).id;
+      setConferenceId(id);
+      setTracks(await trackApi.getConferenceTracks(id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load tracks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload this table and the catalogue shared by the rest of the app
+  const reload = async () => {
+    await loadTracks();
+    await refresh();
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (track: Track) => {
+    setEditing(track);
+    setForm({
+      code: track.code,
+      name: track.name,
+      description: track.description || '',
+      guidelines: track.guidelines || '',
+      color: track.color,
+      chairs: formatChairs(track.chairs),
+      sortOrder: String(track.sortOrder),
+      isActive: track.isActive
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!conferenceId) return;
+
+    const data: TrackRequest = {
+      code: form.code.trim().toUpperCase(),
+      name: form.name.trim(),
+      description: form.description.trim(),
+      guidelines: form.guidelines.trim(),
+      color: form.color,
+      chairs: parseChairs(form.chairs),
+      isActive: form.isActive,
+      ...(form.sortOrder !== '' ? { sortOrder: parseInt(form.sortOrder, 10) || 0 } : {})
+    };
+
+    try {
+      setSaving(true);
+      if (editing) {
+        await trackApi.updateTrack(editing.id, data);
+      } else {
+        await trackApi.createTrack(conferenceId, data);
+      }
+      setDialogOpen(false);
+      await reload();
+    } catch (err: any) {
+      const details = err.response?.data?.error?.details;
+      setError(details?.join('; ') || err.response?.data?.error?.message || err.message || 'Failed to save track');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (track: Track) => {
+    if (!window.confirm(`Delete the ${track.code} track?`)) return;
+    try {
+      await trackApi.deleteTrack(track.id);
+      await reload();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to delete track');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h5">Tracks</Typography>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate} disabled={!conferenceId}>
+          Add Track
+        </Button>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Authors file submissions and participants register under these tracks. Closed tracks stay on
+        existing submissions and sessions but no longer accept new ones; tracks in use cannot be deleted.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer component={Paper} variant="outlined">
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Code</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Chairs</TableCell>
+              <TableCell>Order</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {tracks.map((track) => (
+              <TableRow key={track.id}>
+                <TableCell>
+                  <Chip label={track.code} size="small" sx={{ backgroundColor: track.color, color: 'white' }} />
+                </TableCell>
+                <TableCell>{track.name}</TableCell>
+                <TableCell>{track.chairs.map(chair => chair.name).join(', ') || '-'}</TableCell>
+                <TableCell>{track.sortOrder}</TableCell>
+                <TableCell>
+                  <Chip
+                    label={track.isActive ? 'Open' : 'Closed'}
+                    size="small"
+                    color={track.isActive ? 'success' : 'default'}
+                    variant="outlined"
+                  />
+                </TableCell>
+                <TableCell align="right">
+                  <IconButton size="small" onClick={() => openEdit(track)}>
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton size="small" color="error" onClick={() => handleDelete(track)}>
+                    <DeleteIcon />
+                  </IconButton>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && tracks.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography variant="body2" color="text.secondary">No tracks defined</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Track' : 'Add Track'}</DialogTitle>
+        <DialogContent>
+          <Grid container spacing={2} sx={{ mt: 0.5 }}>
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                required
+                label="Code"
+                helperText={editing ? 'Renaming moves everything filed under it' : 'e.g. CHE'}
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={8}>
+              <TextField
+                fullWidth
+                required
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Submission Guidelines"
+                value={form.guidelines}
+                onChange={(e) => setForm({ ...form, guidelines: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Chairs"
+                helperText="One per line: Name | Affiliation | Email"
+                value={form.chairs}
+                onChange={(e) => setForm({ ...form, chairs: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={6} sm={4}>
+              <TextField
+                fullWidth
+                type="color"
+                label="Colour"
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={6} sm={4}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Order"
+                helperText={editing ? undefined : 'Defaults to last'}
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  />
+                }
+                label="Open"
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || form.code.trim().length < 2 || form.name.trim().length < 2}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AdminTrackManagement;
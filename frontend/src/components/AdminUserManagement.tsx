@@ -207,6 +207,9 @@ const AdminUserManagement: React.FC<AdminUserManagementProps> = () => {
                 <Typography variant="h4">
                   {statistics.totalUsers}
                 </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {statistics.registeredUsers} registered for this edition
+                </Typography>
               </CardContent>
             </Card>
           </Grid>
@@ -297,6 +300,20 @@ const AdminUserManagement: React.FC<AdminUserManagementProps> = () => {
               </Select>
             </FormControl>
           </Grid>
+          <Grid item xs={12} sm={6} md={2}>
+            <FormControl fullWidth>
+              <InputLabel>Registration</InputLabel>
+              <Select
+                value={filters.registered || ''}
+                label="Registration"
+                onChange={(e) => handleFilterChange('registered', e.target.value)}
+              >
+                <MenuItem value="">All Users</MenuItem>
+                <MenuItem value="true">Registered</MenuItem>
+                <MenuItem value="false">Not Registered</MenuItem>
+              </Select>
+            </FormControl>
+          </Grid>
           <Grid item xs={12} sm={6} md={2}>
             <Button
               variant="outlined"
@@ -0,0 +1,367 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Chip,
+  Grid,
+  IconButton,
+  LinearProgress,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { autoAssignmentApi } from '../services/autoAssignmentApi';
+import {
+  AutoAssignmentProposal,
+  AutoAssignmentProposalItem,
+  AutoAssignmentRequest,
+  CommitAutoAssignmentResult
+} from '../types/review';
+
+interface ReviewerOption {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface AutoAssignmentDialogProps {
+  open: boolean;
+  onClose: () => void;
+  reviewers: ReviewerOption[];
+  // Called after assignments were stored
+  onCommitted: () => void;
+}
+
+const defaultSettings: AutoAssignmentRequest = {
+  reviewersPerPaper: 3,
+  maxLoad: 8,
+  requireSessionExpertise: true
+};
+
+const qualityColor = (quality: number) => {
+  if (quality >= 0.7) return 'success';
+  if (quality >= 0.4) return 'warning';
+  return 'default';
+};
+
+const AutoAssignmentDialog: React.FC<AutoAssignmentDialogProps> = ({ open, onClose, reviewers, onCommitted }) => {
+  const [settings, setSettings] = useState<AutoAssignmentRequest>(defaultSettings);
+  const [proposal, setProposal] = useState<AutoAssignmentProposal | null>(null);
+  // The proposal as the admin edited it
+  const [rows, setRows] = useState<AutoAssignmentProposalItem[]>([]);
+  const [result, setResult] = useState<CommitAutoAssignmentResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reviewerName = (id: string) => {
+    const reviewer = reviewers.find(r => r.id === id);
+    return reviewer ? `${reviewer.firstName} ${reviewer.lastName}` : id;
+  };
+
+  const handleClose = () => {
+    setProposal(null);
+    setRows([]);
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const handlePropose = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(null);
+      const data = await autoAssignmentApi.propose(settings);
+      setProposal(data);
+      setRows(data.assignments);
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to compute the automatic assignment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // A reviewer the admin picks by hand has no computed match quality
+  const changeReviewer = (index: number, reviewerId: string) => {
+    setRows(rows.map((row, i) => (i === index
+      ? { ...row, reviewerId, reviewerName: reviewerName(reviewerId), matchQuality: 0, matchReason: 'Chosen by hand' }
+      : row)));
+  };
+
+  const handleCommit = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await autoAssignmentApi.commit({
+        reviewersPerPaper: proposal!.settings.reviewersPerPaper,
+        maxLoad: proposal!.settings.maxLoad,
+        assignments: rows.map(({ submissionId, reviewerId }) => ({ submissionId, reviewerId }))
+      });
+      setResult(data);
+      setProposal(null);
+      setRows([]);
+      onCommitted();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to store the reviewer assignments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Loads after the edits: the proposal's starting loads plus the rows now assigned
+  const editedLoads = proposal
+    ? Array.from(new Set(rows.map(row => row.reviewerId))).map(reviewerId => {
+        const base = proposal.reviewerLoads.find(load => load.reviewerId === reviewerId);
+        return {
+          reviewerId,
+          name: base?.name || reviewerName(reviewerId),
+          currentLoad: base?.currentLoad,
+          proposedLoad: (base?.currentLoad || 0) + rows.filter(row => row.reviewerId === reviewerId).length
+        };
+      }).sort((a, b) => b.proposedLoad - a.proposedLoad)
+    : [];
+
+  const duplicateKeys = new Set(
+    rows.map(row => `${row.submissionId}:${row.reviewerId}`)
+      .filter((key, index, keys) => keys.indexOf(key) !== index)
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Automatic Reviewer Assignment</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Assigns reviewers to every submission of this edition at once, filling as many review slots as
+          the reviewer loads allow and maximizing the total match between each reviewer's profile and
+          each submission's track and text. Conflicts of interest are never proposed. Review and edit the
+          proposal before storing it; nothing is assigned until you do.
+        </Typography>
+
+        <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+          <Grid item xs={6} sm={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Reviewers per paper"
+              value={settings.reviewersPerPaper}
+              onChange={(e) => setSettings({ ...settings, reviewersPerPaper: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              inputProps={{ min: 1, max: 10 }}
+            />
+          </Grid>
+          <Grid item xs={6} sm={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Maximum load per reviewer"
+              value={settings.maxLoad}
+              onChange={(e) => setSettings({ ...settings, maxLoad: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              helperText="Open assignments, including existing ones"
+              inputProps={{ min: 1, max: 50 }}
+            />
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={settings.requireSessionExpertise}
+                  onChange={(e) => setSettings({ ...settings, requireSessionExpertise: e.target.checked })}
+                />
+              }
+              label="Only reviewers with expertise in the track"
+            />
+          </Grid>
+          <Grid item xs={12} sm={2}>
+            <Button fullWidth variant="outlined" onClick={handlePropose} disabled={loading}>
+              {proposal ? 'Recompute' : 'Compute'}
+            </Button>
+          </Grid>
+        </Grid>
+
+        {loading && <LinearProgress sx={{ mb: 2 }} />}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <Alert severity={result.skipped.length > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {result.assigned.length} assignment(s) stored.
+            {result.skipped.length > 0 && (
+              <List dense>
+                {result.skipped.map((skipped, index) => (
+                  <ListItem key={index} disableGutters>
+                    <ListItemText primary={skipped.reason} secondary={reviewerName(skipped.reviewerId)} />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Alert>
+        )}
+
+        {proposal && (
+          <>
+            <Box display="flex" gap={1} mb={2} flexWrap="wrap">
+              <Chip label={`${rows.length} assignment(s)`} color="primary" />
+              <Chip label={`Total match quality: ${proposal.totalQuality.toFixed(2)}`} variant="outlined" />
+              {proposal.unfilled.length > 0 && (
+                <Chip label={`${proposal.unfilled.length} submission(s) short of reviewers`} color="warning" />
+              )}
+            </Box>
+
+            {proposal.unfilled.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Not enough eligible reviewers for:
+                <List dense>
+                  {proposal.unfilled.map(entry => (
+                    <ListItem key={entry.submissionId} disableGutters>
+                      <ListItemText primary={entry.submissionTitle} secondary={`${entry.missing} reviewer(s) missing`} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            <Grid container spacing={2}>
+              <Grid item xs={12} md={8}>
+                <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 480 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Submission</TableCell>
+                        <TableCell>Reviewer</TableCell>
+                        <TableCell>Match</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {rows.map((row, index) => (
+                        <TableRow
+                          key={index}
+                          selected={duplicateKeys.has(`${row.submissionId}:${row.reviewerId}`)}
+                        >
+                          <TableCell>
+                            <Typography variant="body2">{row.submissionTitle}</Typography>
+                            <Typography variant="caption" color="text.secondary">{row.sessionType}</Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              size="small"
+                              value={row.reviewerId}
+                              onChange={(e) => changeReviewer(index, e.target.value as string)}
+                              sx={{ minWidth: 180 }}
+                            >
+                              {reviewers.map(reviewer => (
+                                <MenuItem key={reviewer.id} value={reviewer.id}>
+                                  {reviewer.firstName} {reviewer.lastName}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Chip
+                              size="small"
+                              label={row.matchQuality.toFixed(2)}
+                              color={qualityColor(row.matchQuality)}
+                            />
+                            <Typography variant="caption" display="block" color="text.secondary">
+                              {row.matchReason}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <IconButton size="small" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                              <DeleteIcon />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      {rows.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} align="center">
+                            <Typography variant="body2" color="text.secondary">
+                              No assignments to propose
+                            </Typography>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+                {duplicateKeys.size > 0 && (
+                  <Typography variant="caption" color="warning.main">
+                    Highlighted rows assign the same reviewer twice; only the first is stored.
+                  </Typography>
+                )}
+                {editedLoads.some(load => load.proposedLoad > proposal.settings.maxLoad) && (
+                  <Typography variant="caption" color="error" display="block">
+                    Assignments beyond a reviewer's maximum load will be skipped when stored.
+                  </Typography>
+                )}
+              </Grid>
+
+              <Grid item xs={12} md={4}>
+                <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 480 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Reviewer</TableCell>
+                        <TableCell align="right">Load</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {editedLoads.map(load => (
+                        <TableRow key={load.reviewerId}>
+                          <TableCell>{load.name}</TableCell>
+                          <TableCell align="right">
+                            <Typography
+                              variant="body2"
+                              color={load.proposedLoad > proposal.settings.maxLoad ? 'error' : 'text.primary'}
+                            >
+                              {load.currentLoad ?? '?'} → {load.proposedLoad}
+                            </Typography>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+            </Grid>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Close</Button>
+        {proposal && (
+          <Button variant="contained" onClick={handleCommit} disabled={loading || rows.length === 0}>
+            Assign {rows.length} Reviewer(s)
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutoAssignmentDialog;
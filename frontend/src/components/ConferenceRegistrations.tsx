@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress
+} from '@mui/material';
+import { HowToReg as RegisterIcon } from '@mui/icons-material';
+import { ConferenceRegistration, ParticipantType, SessionType } from '../types/user';
+import { userApi } from '../services/userApi';
+import { useAuth } from '../hooks/useAuth';
+import { ParticipantTypeSelection, SessionSelection } from './Registration';
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+
+// Registration history, and a way for returning users to join the current edition
+const ConferenceRegistrations: React.FC = () => {
+  const { user, token, login } = useAuth();
+  const [registrations, setRegistrations] = useState<ConferenceRegistration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [registering, setRegistering] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [participantType, setParticipantType] = useState<ParticipantType | null>(user?.participantType || null);
+  const [selectedSessions, setSelectedSessions] = useState<SessionType[]>(user?.selectedSessions || []);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, []);
+
+  const loadRegistrations = async () => {
+    try {
+      setLoading(true);
+      setRegistrations(await userApi.getRegistrations());
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to load registrations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRegister = async () => {
+    if (!participantType || selectedSessions.length === 0) {
+      setError('Choose a participant type and at least one session');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const result = await userApi.registerForConference({ participantType, selectedSessions });
+      if (token) {
+        login(result.user, token);
+      }
+      setRegistering(false);
+      await loadRegistrations();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || err.message || 'Failed to register for the conference');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Conference Registrations
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      {!user.isRegistered && !registering && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" startIcon={<RegisterIcon />} onClick={() => setRegistering(true)}>
+              Register
+            </Button>
+          }
+        >
+          You are not registered for the current edition yet.
+        </Alert>
+      )}
+
+      {registering && (
+        <Box sx={{ mb: 3 }}>
+          <ParticipantTypeSelection selectedType={participantType} onTypeSelect={setParticipantType} />
+          <SessionSelection
+            selectedSessions={selectedSessions}
+            onSessionsChange={setSelectedSessions}
+            participantType={participantType}
+          />
+          <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+            <Button variant="contained" onClick={handleRegister} disabled={saving}>
+              Register for the current edition
+            </Button>
+            <Button variant="outlined" onClick={() => setRegistering(false)} disabled={saving}>
+              Cancel
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {!loading && registrations.length === 0 ? (
+        <Typography color="text.secondary">No registrations yet.</Typography>
+      ) : (
+        <List dense>
+          {registrations.map(registration => (
+            <ListItem key={registration.id} divider>
+              <ListItemText
+                primary={registration.conferenceName}
+                secondary={`${formatDate(registration.conferenceStartDate)} - ${formatDate(registration.conferenceEndDate)} · ${registration.participantType.replace(/_/g, ' ')}`}
+              />
+              <Chip
+                label={registration.paymentStatus.replace(/_/g, ' ').toUpperCase()}
+                color={registration.paymentStatus === 'payment_verified' ? 'success' : 'warning'}
+                variant="outlined"
+                size="small"
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default ConferenceRegistrations;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Box } from '@mui/material';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+// Render a search snippet whose matches are wrapped in <mark>, without injecting HTML
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Box key={index} component="mark" sx={{ backgroundColor: 'warning.light', px: 0.25 }}>
+            {part}
+          </Box>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
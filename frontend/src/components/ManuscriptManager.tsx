@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { ManuscriptUpload } from './ManuscriptUpload';
 import { submissionApi } from '../services/submissionApi';
-import { ManuscriptInfo, SubmissionResponse } from '../types/submission';
+import { ManuscriptInfo, ManuscriptVersion, SubmissionResponse } from '../types/submission';
 
 interface ManuscriptManagerProps {
   submission: SubmissionResponse;
@@ -19,12 +19,25 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [versions, setVersions] = useState<ManuscriptVersion[]>([]);
 
   // Load manuscript info on component mount
   useEffect(() => {
     loadManuscriptInfo();
+    loadVersions();
   }, [submission.id]);
 
+  const loadVersions = async () => {
+    try {
+      const response = await submissionApi.getManuscriptVersions(submission.id);
+      if (response.success && response.data) {
+        setVersions(response.data);
+      }
+    } catch (error: any) {
+      console.error('Error loading manuscript versions:', error);
+    }
+  };
+
   const loadManuscriptInfo = async () => {
     try {
       setLoading(true);
@@ -47,6 +60,7 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
 
   const handleUploadSuccess = (info: ManuscriptInfo) => {
     setManuscriptInfo(info);
+    loadVersions();
     setSuccess('Manuscript uploaded successfully!');
     setError(null);
     onManuscriptUpdate?.(info.hasManuscript);
@@ -82,11 +96,47 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
     }
   };
 
+  const handleDownloadVersion = async (version: ManuscriptVersion) => {
+    try {
+      setError(null);
+      const blob = await submissionApi.downloadManuscriptVersion(submission.id, version.id);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = version.originalName || `manuscript_${submission.id}_v${version.versionNumber}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Download error:', error);
+      setError('Failed to download manuscript version');
+    }
+  };
+
+  const handleMarkCameraReady = async (version: ManuscriptVersion) => {
+    try {
+      setError(null);
+      const response = await submissionApi.markCameraReady(submission.id, version.id);
+      if (response.success) {
+        setSuccess(`Version ${version.versionNumber} marked as camera-ready`);
+        loadVersions();
+        setTimeout(() => setSuccess(null), 5000);
+      } else {
+        setError(response.error?.message || 'Failed to mark camera-ready version');
+      }
+    } catch (error: any) {
+      console.error('Camera-ready error:', error);
+      setError(error.response?.data?.error?.message || 'Failed to mark camera-ready version');
+    }
+  };
+
   const handleDelete = async () => {
     if (!manuscriptInfo?.hasManuscript) return;
 
     const confirmed = window.confirm(
-      'Are you sure you want to delete this manuscript? This action cannot be undone.'
+      'Remove this manuscript from your submission? Earlier versions stay in the version history.'
     );
 
     if (!confirmed) return;
@@ -98,7 +148,8 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
       const response = await submissionApi.deleteManuscript(submission.id);
       if (response.success) {
         setManuscriptInfo({ hasManuscript: false, submissionId: submission.id });
-        setSuccess('Manuscript deleted successfully');
+        loadVersions();
+        setSuccess('Manuscript removed successfully');
         onManuscriptUpdate?.(false);
         
         // Clear success message after 5 seconds
@@ -115,7 +166,7 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
   };
 
   const canUploadManuscript = () => {
-    return ['submitted', 'under_review'].includes(submission.status) && !readOnly;
+    return ['submitted', 'under_review', 'revision_requested'].includes(submission.status) && !readOnly;
   };
 
   const canDeleteManuscript = () => {
@@ -179,12 +230,52 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
               className="btn btn-danger"
               disabled={isDeleting}
             >
-              {isDeleting ? 'Deleting...' : '🗑️ Delete Manuscript'}
+              {isDeleting ? 'Removing...' : '🗑️ Remove Manuscript'}
             </button>
           )}
         </div>
       )}
 
+      {versions.length > 0 && (
+        <div className="version-history">
+          <h4>Version History</h4>
+          {versions.map((version) => (
+            <div key={version.id} className="version-row">
+              <div className="version-info">
+                <div className="version-title">
+                  v{version.versionNumber} • {version.originalName}
+                  {version.isCurrent && <span className="badge badge-current">Current</span>}
+                  {version.isCameraReady && <span className="badge badge-camera-ready">Camera-ready</span>}
+                </div>
+                <div className="version-meta">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.sha256 && <span title={version.sha256}> • SHA-256 {version.sha256.substring(0, 12)}…</span>}
+                </div>
+                {version.changeNote && <div className="version-note">{version.changeNote}</div>}
+              </div>
+              <div className="version-actions">
+                <button
+                  type="button"
+                  onClick={() => handleDownloadVersion(version)}
+                  className="btn btn-link"
+                >
+                  📥 Download
+                </button>
+                {submission.status === 'accepted' && !readOnly && !version.isCameraReady && (
+                  <button
+                    type="button"
+                    onClick={() => handleMarkCameraReady(version)}
+                    className="btn btn-link"
+                  >
+                    ✅ Mark camera-ready
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {!canUploadManuscript() && (
         <div className="upload-restrictions">
           <div className="restriction-info">
@@ -209,7 +300,7 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
           <li>Recommended length: 4-8 pages</li>
           <li>Include all figures and tables</li>
           <li>Use standard academic formatting</li>
-          <li>You can replace your manuscript at any time before final review</li>
+          <li>Every upload is kept as a version; reviewers see the version current at their assignment</li>
         </ul>
       </div>
 
@@ -284,6 +375,67 @@ export const ManuscriptManager: React.FC<ManuscriptManagerProps> = ({
           flex-wrap: wrap;
         }
 
+        .version-history {
+          margin-top: 24px;
+        }
+
+        .version-history h4 {
+          margin: 0 0 12px 0;
+          color: #333;
+          font-size: 1rem;
+        }
+
+        .version-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 10px 0;
+          border-bottom: 1px solid #e1e5e9;
+        }
+
+        .version-title {
+          font-weight: 600;
+          color: #333;
+          font-size: 0.875rem;
+        }
+
+        .version-meta,
+        .version-note {
+          font-size: 0.8rem;
+          color: #666;
+        }
+
+        .version-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .badge {
+          margin-left: 8px;
+          padding: 2px 8px;
+          border-radius: 10px;
+          font-size: 0.7rem;
+          font-weight: 500;
+        }
+
+        .badge-current {
+          background-color: #cce5ff;
+          color: #004085;
+        }
+
+        .badge-camera-ready {
+          background-color: #d4edda;
+          color: #155724;
+        }
+
+        .btn-link {
+          color: #007bff;
+          background: none;
+          border: none;
+          padding: 4px 8px;
+        }
+
         .upload-restrictions {
           margin-top: 16px;
           padding: 12px;
@@ -19,6 +19,7 @@ export const ManuscriptUpload: React.FC<ManuscriptUploadProps> = ({
 }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File): FileValidationError | null => {
@@ -63,9 +64,10 @@ export const ManuscriptUpload: React.FC<ManuscriptUploadProps> = ({
     setIsUploading(true);
 
     try {
-      const response = await submissionApi.uploadManuscript(submissionId, file);
+      const response = await submissionApi.uploadManuscript(submissionId, file, changeNote.trim() || undefined);
       
       if (response.success && response.data) {
+        setChangeNote('');
         // Fetch updated manuscript info
         const infoResponse = await submissionApi.getManuscriptInfo(submissionId);
         if (infoResponse.success && infoResponse.data) {
@@ -148,6 +150,7 @@ export const ManuscriptUpload: React.FC<ManuscriptUploadProps> = ({
             <div className="file-info">
               <div className="filename">{manuscriptInfo.filename}</div>
               <div className="file-meta">
+                {manuscriptInfo.versionNumber && <span>Version {manuscriptInfo.versionNumber} • </span>}
                 {manuscriptInfo.size && formatFileSize(manuscriptInfo.size)}
                 {manuscriptInfo.uploadDate && (
                   <span> • Uploaded {new Date(manuscriptInfo.uploadDate).toLocaleDateString()}</span>
@@ -158,13 +161,22 @@ export const ManuscriptUpload: React.FC<ManuscriptUploadProps> = ({
           
           {!disabled && (
             <div className="manuscript-actions">
+              <input
+                type="text"
+                className="change-note"
+                placeholder="What changed in this version? (optional)"
+                value={changeNote}
+                maxLength={1000}
+                onChange={(e) => setChangeNote(e.target.value)}
+                disabled={isUploading}
+              />
               <button
                 type="button"
                 onClick={openFileDialog}
                 className="btn btn-secondary"
                 disabled={isUploading}
               >
-                {isUploading ? 'Uploading...' : 'Replace File'}
+                {isUploading ? 'Uploading...' : 'Upload New Version'}
               </button>
             </div>
           )}
@@ -242,6 +254,14 @@ export const ManuscriptUpload: React.FC<ManuscriptUploadProps> = ({
           gap: 10px;
         }
 
+        .change-note {
+          flex: 1;
+          padding: 8px 12px;
+          border: 1px solid #ced4da;
+          border-radius: 6px;
+          font-size: 0.875rem;
+        }
+
         .upload-zone {
           border: 2px dashed #dee2e6;
           border-radius: 8px;
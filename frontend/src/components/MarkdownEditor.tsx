@@ -2,7 +2,7 @@ import React, { useState, useCallback } from 'react';
 import MDEditor from '@uiw/react-md-editor';
 import { Box, Typography, Paper, Accordion, AccordionSummary, AccordionDetails, Chip } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
-import { marked } from 'marked';
+import { markdownToHtml } from '../utils/markdown';
 
 interface MarkdownEditorProps {
   value: string;
@@ -65,12 +65,12 @@ const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       ]
     },
     scientific: {
-      title: "Scientific Notation",
+      title: "Chemistry",
       examples: [
-        "H₂O (use Unicode subscripts)",
-        "E = mc² (use Unicode superscripts)",
-        "Temperature: 25°C",
-        "Concentration: 10⁻⁶ M"
+        "Formula: $\\ce{H2SO4}$",
+        "Ions: $\\ce{Cu^2+ + 2e- -> Cu}$",
+        "Equilibrium: $\\ce{N2 + 3H2 <=> 2NH3}$",
+        "Temperature: 25°C"
       ]
     },
     math: {
@@ -78,7 +78,8 @@ const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
       examples: [
         "Inline math: $E = mc^2$",
         "Block math:",
-        "$$\\int_{-\\infty}^{\\infty} e^{-x^2} dx = \\sqrt{\\pi}$$"
+        "$$\\int_{-\\infty}^{\\infty} e^{-x^2} dx = \\sqrt{\\pi}$$",
+        "Literal dollar sign: \\$"
       ]
     }
   };
@@ -192,14 +193,7 @@ const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               }
             }}
           >
-            <div 
-              dangerouslySetInnerHTML={{ 
-                __html: marked(value, { 
-                  breaks: true,
-                  gfm: true 
-                }) 
-              }} 
-            />
+            <div dangerouslySetInnerHTML={{ __html: markdownToHtml(value) }} />
           </Paper>
         </Box>
       )}
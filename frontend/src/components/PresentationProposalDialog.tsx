@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  TextField,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  CircularProgress
+} from '@mui/material';
+import { ArrowForward } from '@mui/icons-material';
+import { PresentationTypeProposal, PRESENTATION_TYPE_INFO } from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+
+interface PresentationProposalDialogProps {
+  open: boolean;
+  submissionId: string | null;
+  initialDecision?: 'accept' | 'decline';
+  onClose: () => void;
+  onResponded: (proposal: PresentationTypeProposal, message: string) => void;
+}
+
+// Let the submitting author accept or decline the committee's proposed presentation type
+const PresentationProposalDialog: React.FC<PresentationProposalDialogProps> = ({
+  open,
+  submissionId,
+  initialDecision,
+  onClose,
+  onResponded
+}) => {
+  const [proposal, setProposal] = useState<PresentationTypeProposal | null>(null);
+  const [decision, setDecision] = useState<'accept' | 'decline'>(initialDecision || 'accept');
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !submissionId) return;
+
+    setProposal(null);
+    setError(null);
+    setComment('');
+    setDecision(initialDecision || 'accept');
+    setLoading(true);
+    submissionApi.getPresentationProposal(submissionId)
+      .then((response) => {
+        if (response.success) {
+          setProposal(response.data || null);
+        }
+      })
+      .catch((err: any) => {
+        setError(err.response?.data?.error?.message || 'Failed to load the proposal');
+      })
+      .finally(() => setLoading(false));
+  }, [open, submissionId, initialDecision]);
+
+  const handleSubmit = async () => {
+    if (!submissionId) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await submissionApi.respondToPresentationProposal(submissionId, decision, comment.trim() || undefined);
+      if (response.success && response.data) {
+        onResponded(response.data, response.message || 'Your answer has been recorded');
+      } else {
+        setError(response.error?.message || 'Failed to send your answer');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to send your answer');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isPending = proposal?.status === 'pending';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Proposed Presentation Type</DialogTitle>
+      <DialogContent>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!loading && proposal && !isPending && (
+          <Alert severity="info">
+            You already {proposal.status} this proposal.
+          </Alert>
+        )}
+
+        {!loading && !proposal && !error && (
+          <Alert severity="info">There is no presentation type proposal for this submission.</Alert>
+        )}
+
+        {!loading && proposal && isPending && (
+          <>
+            <Typography variant="body2" paragraph>
+              The program committee accepted your submission and would like you to present it in a different format.
+              Your presentation type only changes if you agree.
+            </Typography>
+
+            <Box display="flex" alignItems="center" justifyContent="center" gap={2} my={2}>
+              <Typography variant="subtitle1">{PRESENTATION_TYPE_INFO[proposal.currentType].name}</Typography>
+              <ArrowForward color="action" />
+              <Typography variant="subtitle1" fontWeight="bold">{PRESENTATION_TYPE_INFO[proposal.proposedType].name}</Typography>
+            </Box>
+
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 2, textAlign: 'center' }}>
+              {PRESENTATION_TYPE_INFO[proposal.proposedType].description} ({PRESENTATION_TYPE_INFO[proposal.proposedType].duration})
+            </Typography>
+
+            {proposal.adminNotes && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                <strong>Committee notes:</strong> {proposal.adminNotes}
+              </Alert>
+            )}
+
+            <RadioGroup value={decision} onChange={(e) => setDecision(e.target.value as 'accept' | 'decline')}>
+              <FormControlLabel
+                value="accept"
+                control={<Radio />}
+                label={`Accept and present as ${proposal.proposedType}`}
+              />
+              <FormControlLabel
+                value="decline"
+                control={<Radio />}
+                label={`Decline and keep ${proposal.currentType}`}
+              />
+            </RadioGroup>
+
+            <TextField
+              fullWidth
+              multiline
+              rows={3}
+              label={decision === 'decline' ? 'Comment for the committee (required)' : 'Comment for the committee (optional)'}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              helperText={decision === 'decline' ? 'The committee will reconsider your submission with this comment' : undefined}
+              inputProps={{ maxLength: 1000 }}
+              sx={{ mt: 2 }}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{isPending ? 'Cancel' : 'Close'}</Button>
+        {isPending && (
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={submitting || (decision === 'decline' && comment.trim().length < 5)}
+          >
+            {decision === 'accept' ? 'Accept' : 'Decline'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PresentationProposalDialog;
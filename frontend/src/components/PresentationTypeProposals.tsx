@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  MenuItem,
+  TextField
+} from '@mui/material';
+import { SwapHoriz } from '@mui/icons-material';
+import {
+  PresentationProposalStatus,
+  PresentationType,
+  PresentationTypeProposal,
+  SubmissionSearchHit
+} from '../types/submission';
+import { adminMonitoringApi } from '../services/adminMonitoringApi';
+import { submissionApi } from '../services/submissionApi';
+
+const getProposalColor = (status: PresentationProposalStatus) => {
+  switch (status) {
+    case 'pending': return 'warning';
+    case 'accepted': return 'success';
+    case 'declined': return 'error';
+    default: return 'default';
+  }
+};
+
+const PresentationTypeProposals: React.FC = () => {
+  const [proposals, setProposals] = useState<PresentationTypeProposal[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PresentationProposalStatus | ''>('declined');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<SubmissionSearchHit[]>([]);
+  const [submissionId, setSubmissionId] = useState('');
+  const [adminNotes, setAdminNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadProposals = async () => {
+    try {
+      setLoading(true);
+      setProposals(await adminMonitoringApi.getPresentationProposals(statusFilter || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load presentation type proposals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProposals();
+  }, [statusFilter]);
+
+  // Only accepted submissions can be offered another format
+  useEffect(() => {
+    if (!dialogOpen) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await submissionApi.searchSubmissions({ q: query.trim(), status: ['accepted'], limit: 20 });
+        if (response.success && response.data) {
+          setMatches(response.data.submissions);
+        }
+      } catch (err) {
+        console.error('Failed to search accepted submissions:', err);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [dialogOpen, query]);
+
+  const openDialog = () => {
+    setQuery('');
+    setSubmissionId('');
+    setAdminNotes('');
+    setDialogOpen(true);
+  };
+
+  const selectedSubmission = matches.find(match => match.id === submissionId);
+  const proposedType: PresentationType | undefined = selectedSubmission
+    ? (selectedSubmission.presentationType === 'oral' ? 'poster' : 'oral')
+    : undefined;
+
+  const handlePropose = async () => {
+    if (!selectedSubmission || !proposedType) return;
+    try {
+      setSaving(true);
+      await adminMonitoringApi.proposePresentationType(selectedSubmission.id, proposedType, adminNotes.trim() || undefined);
+      setDialogOpen(false);
+      setStatusFilter('pending');
+      if (statusFilter === 'pending') {
+        await loadProposals();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to propose presentation type');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6">
+            Presentation Type Proposals
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Oral/poster changes take effect only once the authors accept; declined proposals return here with their comment
+          </Typography>
+        </Box>
+        <Box display="flex" gap={1}>
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PresentationProposalStatus | '')}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="pending">Awaiting author</MenuItem>
+            <MenuItem value="accepted">Accepted</MenuItem>
+            <MenuItem value="declined">Declined</MenuItem>
+          </TextField>
+          <Button variant="outlined" startIcon={<SwapHoriz />} onClick={openDialog}>
+            Propose Change
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer sx={{ maxHeight: 400 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Submission</TableCell>
+              <TableCell>Change</TableCell>
+              <TableCell>Author Comment</TableCell>
+              <TableCell>Proposed</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {proposals.map((proposal) => (
+              <TableRow key={proposal.id}>
+                <TableCell>
+                  <Typography variant="body2">{proposal.submissionTitle}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {proposal.authorName} · {proposal.sessionType}
+                  </Typography>
+                </TableCell>
+                <TableCell>{proposal.currentType} → {proposal.proposedType}</TableCell>
+                <TableCell sx={{ maxWidth: 320 }}>
+                  <Typography variant="body2">{proposal.authorComment || '—'}</Typography>
+                </TableCell>
+                <TableCell>{new Date(proposal.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Chip label={proposal.status} size="small" color={getProposalColor(proposal.status)} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && proposals.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  <Typography variant="body2" color="text.secondary">No presentation type proposals</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Propose Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Propose Presentation Type</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            size="small"
+            label="Search accepted submissions"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            sx={{ mt: 1, mb: 2 }}
+          />
+          <TextField
+            select
+            fullWidth
+            label="Submission"
+            value={submissionId}
+            onChange={(e) => setSubmissionId(e.target.value)}
+            sx={{ mb: 2 }}
+          >
+            {matches.map((match) => (
+              <MenuItem key={match.id} value={match.id}>
+                {match.title} ({match.presentationType})
+              </MenuItem>
+            ))}
+          </TextField>
+          {selectedSubmission && proposedType && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              The authors will be asked to present as {proposedType} instead of {selectedSubmission.presentationType}.
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Notes for the authors (optional)"
+            value={adminNotes}
+            onChange={(e) => setAdminNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handlePropose} disabled={saving || !selectedSubmission}>
+            Send Proposal
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default PresentationTypeProposals;
@@ -34,13 +34,7 @@ const ProgramGuide: React.FC<ProgramGuideProps> = ({ conference }) => {
   const [previewOpen, setPreviewOpen] = useState(false);
   const [generating, setGenerating] = useState(false);
 
-  const sessionNames: Record<string, string> = {
-    CHE: 'Computational Chemistry',
-    CSE: 'Computer Science & Engineering',
-    BIO: 'Computational Biology & Bioinformatics',
-    MST: 'Mathematics & Statistics',
-    PFD: 'Computational Physics & Fluid Dynamics',
-  };
+  const getTrack = (code: string) => (conference.tracks || []).find(track => track.code === code);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -134,7 +128,8 @@ const ProgramGuide: React.FC<ProgramGuideProps> = ({ conference }) => {
         ${conference.sessions.map(session => `
             <div class="session">
                 <h3>${session.name} (${session.type})</h3>
-                <p><strong>Track:</strong> ${sessionNames[session.type] || session.type}</p>
+                <p><strong>Track:</strong> ${getTrack(session.type)?.name || session.type}</p>
+                ${getTrack(session.type)?.chairs.length ? `<p><strong>Track chairs:</strong> ${getTrack(session.type)!.chairs.map(chair => chair.name).join(', ')}</p>` : ''}
                 ${session.description ? `<p>${session.description}</p>` : ''}
                 
                 ${session.schedules && session.schedules.length > 0 ? `
@@ -261,13 +256,17 @@ const ProgramGuide: React.FC<ProgramGuideProps> = ({ conference }) => {
                   primary={
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                       <Typography variant="subtitle1">{session.name}</Typography>
-                      <Chip label={session.type} size="small" />
+                      <Chip
+                        label={session.type}
+                        size="small"
+                        sx={{ bgcolor: getTrack(session.type)?.color, color: getTrack(session.type) ? 'white' : undefined }}
+                      />
                     </Box>
                   }
                   secondary={
                     <Box>
                       <Typography variant="body2" color="text.secondary">
-                        {sessionNames[session.type] || session.type}
+                        {getTrack(session.type)?.name || session.type}
                       </Typography>
                       {session.schedules && session.schedules.length > 0 && (
                         <Typography variant="caption" color="text.secondary">
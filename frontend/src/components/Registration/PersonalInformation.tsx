@@ -125,6 +125,16 @@ export const PersonalInformation: React.FC<PersonalInformationProps> = ({
             required
           />
         </Grid>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            fullWidth
+            label="ORCID iD"
+            value={data.orcid}
+            onChange={handleInputChange('orcid')}
+            error={!!errors.orcid}
+            helperText={errors.orcid || 'Optional, e.g. 0000-0002-1825-0097'}
+          />
+        </Grid>
         
         {isPresenterType && (
           <>
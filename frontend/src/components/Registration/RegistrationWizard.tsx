@@ -15,6 +15,7 @@ import { PersonalInformation } from './PersonalInformation';
 import { SessionSelection } from './SessionSelection';
 import { ReviewAndSubmit } from './ReviewAndSubmit';
 import { ParticipantType, SessionType } from '../../types/user';
+import { validationRules } from '../../utils/validation';
 
 const steps = [
   'Participant Type',
@@ -31,6 +32,7 @@ export interface RegistrationData {
   password: string;
   affiliation: string;
   country: string;
+  orcid: string;
   bio: string;
   expertise: string[];
   selectedSessions: SessionType[];
@@ -44,6 +46,7 @@ const initialData: RegistrationData = {
   password: '',
   affiliation: '',
   country: '',
+  orcid: '',
   bio: '',
   expertise: [],
   selectedSessions: [],
@@ -106,6 +109,10 @@ export const RegistrationWizard: React.FC<RegistrationWizardProps> = ({
         if (!registrationData.country.trim()) {
           newErrors.country = 'Country is required';
         }
+        const orcidError = validationRules.orcid(registrationData.orcid);
+        if (orcidError) {
+          newErrors.orcid = orcidError;
+        }
         break;
       
       case 2: // Session Selection
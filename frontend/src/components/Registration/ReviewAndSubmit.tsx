@@ -122,6 +122,12 @@ export const ReviewAndSubmit: React.FC<ReviewAndSubmitProps> = ({
                   <Typography variant="body2" color="text.secondary">Country</Typography>
                   <Typography variant="body1">{data.country}</Typography>
                 </Grid>
+                {data.orcid && (
+                  <Grid item xs={12} sm={6}>
+                    <Typography variant="body2" color="text.secondary">ORCID iD</Typography>
+                    <Typography variant="body1">{data.orcid}</Typography>
+                  </Grid>
+                )}
                 {data.bio && (
                   <Grid item xs={12}>
                     <Typography variant="body2" color="text.secondary">Bio</Typography>
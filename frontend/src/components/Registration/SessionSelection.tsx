@@ -9,48 +9,10 @@ import {
   CardContent,
   Alert,
   Chip,
+  CircularProgress,
 } from '@mui/material';
 import { SessionType, ParticipantType } from '../../types/user';
-
-interface SessionInfo {
-  type: SessionType;
-  name: string;
-  description: string;
-  topics: string[];
-}
-
-const sessions: SessionInfo[] = [
-  {
-    type: 'CHE',
-    name: 'Computational Chemistry',
-    description: 'Theoretical and computational approaches to chemical problems',
-    topics: ['Quantum Chemistry', 'Molecular Dynamics', 'Chemical Kinetics', 'Catalysis'],
-  },
-  {
-    type: 'CSE',
-    name: 'High Performance Computing/Computer Science/Engineering',
-    description: 'Advanced computing methods and engineering applications',
-    topics: ['Parallel Computing', 'Algorithm Design', 'Software Engineering', 'System Architecture'],
-  },
-  {
-    type: 'BIO',
-    name: 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
-    description: 'Computational approaches to biological and biochemical systems',
-    topics: ['Genomics', 'Protein Structure', 'Systems Biology', 'Biophysical Modeling'],
-  },
-  {
-    type: 'MST',
-    name: 'Mathematics and Statistics',
-    description: 'Mathematical modeling and statistical analysis methods',
-    topics: ['Applied Mathematics', 'Statistical Methods', 'Numerical Analysis', 'Data Science'],
-  },
-  {
-    type: 'PFD',
-    name: 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics',
-    description: 'Physics simulations and mechanical system modeling',
-    topics: ['Fluid Dynamics', 'Solid Mechanics', 'Plasma Physics', 'Materials Science'],
-  },
-];
+import { useTracks } from '../../hooks/useTracks';
 
 interface SessionSelectionProps {
   selectedSessions: SessionType[];
@@ -65,6 +27,8 @@ export const SessionSelection: React.FC<SessionSelectionProps> = ({
   participantType,
   error,
 }) => {
+  const { openTracks, loading, error: tracksError, getTrackName } = useTracks();
+
   const handleSessionToggle = (sessionType: SessionType) => {
     const isSelected = selectedSessions.includes(sessionType);
     if (isSelected) {
@@ -104,22 +68,34 @@ export const SessionSelection: React.FC<SessionSelectionProps> = ({
         </Alert>
       )}
 
+      {tracksError && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {tracksError}
+        </Alert>
+      )}
+
+      {loading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
       <FormGroup>
-        {sessions.map((session) => (
+        {openTracks.map((track) => (
           <Card
-            key={session.type}
+            key={track.code}
             sx={{
               mb: 2,
-              border: selectedSessions.includes(session.type) ? 2 : 1,
-              borderColor: selectedSessions.includes(session.type) ? 'primary.main' : 'divider',
+              border: selectedSessions.includes(track.code) ? 2 : 1,
+              borderColor: selectedSessions.includes(track.code) ? track.color : 'divider',
             }}
           >
             <CardContent>
               <FormControlLabel
                 control={
                   <Checkbox
-                    checked={selectedSessions.includes(session.type)}
-                    onChange={() => handleSessionToggle(session.type)}
+                    checked={selectedSessions.includes(track.code)}
+                    onChange={() => handleSessionToggle(track.code)}
                     color="primary"
                   />
                 }
@@ -127,24 +103,35 @@ export const SessionSelection: React.FC<SessionSelectionProps> = ({
                   <Box sx={{ ml: 1 }}>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                       <Typography variant="h6">
-                        {session.name}
+                        {track.name}
                       </Typography>
-                      <Chip label={session.type} size="small" color="primary" />
-                    </Box>
-                    <Typography variant="body2" color="text.secondary" paragraph>
-                      {session.description}
-                    </Typography>
-                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
-                      {session.topics.map((topic) => (
-                        <Chip
-                          key={topic}
-                          label={topic}
-                          size="small"
-                          variant="outlined"
-                          color="secondary"
-                        />
-                      ))}
+                      <Chip
+                        label={track.code}
+                        size="small"
+                        sx={{ backgroundColor: track.color, color: 'white' }}
+                      />
                     </Box>
+                    {track.description && (
+                      <Typography variant="body2" color="text.secondary" paragraph>
+                        {track.description}
+                      </Typography>
+                    )}
+                    {track.chairs.length > 0 && (
+                      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', alignItems: 'center' }}>
+                        <Typography variant="caption" color="text.secondary">
+                          Chairs:
+                        </Typography>
+                        {track.chairs.map((chair) => (
+                          <Chip
+                            key={chair.name}
+                            label={chair.affiliation ? `${chair.name} (${chair.affiliation})` : chair.name}
+                            size="small"
+                            variant="outlined"
+                            color="secondary"
+                          />
+                        ))}
+                      </Box>
+                    )}
                   </Box>
                 }
                 sx={{ alignItems: 'flex-start', width: '100%' }}
@@ -160,17 +147,14 @@ export const SessionSelection: React.FC<SessionSelectionProps> = ({
             Selected Sessions ({selectedSessions.length}):
           </Typography>
           <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
-            {selectedSessions.map((sessionType) => {
-              const session = sessions.find(s => s.type === sessionType);
-              return (
-                <Chip
-                  key={sessionType}
-                  label={`${sessionType} - ${session?.name}`}
-                  color="primary"
-                  onDelete={() => handleSessionToggle(sessionType)}
-                />
-              );
-            })}
+            {selectedSessions.map((sessionType) => (
+              <Chip
+                key={sessionType}
+                label={`${sessionType} - ${getTrackName(sessionType)}`}
+                color="primary"
+                onDelete={() => handleSessionToggle(sessionType)}
+              />
+            ))}
           </Box>
         </Box>
       )}
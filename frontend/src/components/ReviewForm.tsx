@@ -31,6 +31,9 @@ import {
   Visibility as ViewIcon,
   Download as DownloadIcon
 } from '@mui/icons-material';
+import { useTracks } from '../hooks/useTracks';
+import { ReviewRecommendation, ReviewRubric } from '../types/review';
+import { calculateWeightedScore, RUBRIC_SCORE_MAX, RUBRIC_SCORE_MIN } from '../utils/reviewRubric';
 
 interface SubmissionDetails {
   id: string;
@@ -47,6 +50,8 @@ interface SubmissionDetails {
     isCorresponding: boolean;
   }>;
   manuscriptPath?: string;
+  // Set under double-blind review, where the authors are withheld from reviewers
+  isAnonymized?: boolean;
 }
 
 interface Review {
@@ -55,17 +60,26 @@ interface Review {
   reviewerId: string;
   score?: number;
   comments?: string;
-  recommendation?: 'accept' | 'reject' | 'minor_revision' | 'major_revision';
+  recommendation?: ReviewRecommendation;
   isCompleted: boolean;
+  criteriaScores?: Record<string, number>;
+  weightedScore?: number;
+  // Criteria to score; without a rubric the review is a single score
+  rubric?: ReviewRubric | null;
 }
 
+// Starting point of every slider
+const DEFAULT_SCORE = 5;
+
 const ReviewForm: React.FC = () => {
+  const { getTrackColor } = useTracks();
   const { submissionId } = useParams<{ submissionId: string }>();
   const navigate = useNavigate();
   
   const [submission, setSubmission] = useState<SubmissionDetails | null>(null);
   const [review, setReview] = useState<Review | null>(null);
-  const [score, setScore] = useState<number>(5);
+  const [score, setScore] = useState<number>(DEFAULT_SCORE);
+  const [criteriaScores, setCriteriaScores] = useState<Record<string, number>>({});
   const [comments, setComments] = useState<string>('');
   const [recommendation, setRecommendation] = useState<string>('');
   const [loading, setLoading] = useState(false);
@@ -127,6 +141,12 @@ const ReviewForm: React.FC = () => {
               
               // Pre-fill form if review exists
               if (reviewDetails.score) setScore(reviewDetails.score);
+              if (reviewDetails.rubric) {
+                setCriteriaScores(Object.fromEntries(reviewDetails.rubric.criteria.map((criterion: { key: string }) => [
+                  criterion.key,
+                  reviewDetails.criteriaScores?.[criterion.key] ?? DEFAULT_SCORE
+                ])));
+              }
               if (reviewDetails.comments) setComments(reviewDetails.comments);
               if (reviewDetails.recommendation) setRecommendation(reviewDetails.recommendation);
             }
@@ -175,7 +195,7 @@ const ReviewForm: React.FC = () => {
           'Authorization': `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({
-          score,
+          ...(review.rubric ? { criteriaScores } : { score }),
           comments: comments.trim(),
           recommendation
         })
@@ -201,17 +221,6 @@ const ReviewForm: React.FC = () => {
     }
   };
 
-  const getSessionTypeColor = (sessionType: string) => {
-    const colors: Record<string, string> = {
-      'CHE': '#ff9800',
-      'CSE': '#2196f3',
-      'BIO': '#4caf50',
-      'MST': '#9c27b0',
-      'PFD': '#f44336'
-    };
-    return colors[sessionType] || '#757575';
-  };
-
   const getScoreColor = (score: number) => {
     if (score >= 8) return '#4caf50'; // Green
     if (score >= 6) return '#ff9800'; // Orange
@@ -237,6 +246,21 @@ const ReviewForm: React.FC = () => {
     }
   };
 
+  const rubric = review?.rubric;
+  // With a rubric the overall score is the weighted mean of the criterion scores
+  const overallScore = rubric ? calculateWeightedScore(rubric.criteria, criteriaScores) : score;
+  const totalWeight = rubric ? rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0) : 0;
+
+  const scoreSliderSx = (value: number) => ({
+    color: getScoreColor(value),
+    '& .MuiSlider-thumb': {
+      backgroundColor: getScoreColor(value),
+    },
+    '& .MuiSlider-track': {
+      backgroundColor: getScoreColor(value),
+    }
+  });
+
   if (submissionLoading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -291,7 +315,7 @@ const ReviewForm: React.FC = () => {
                 <Chip
                   label={submission.sessionType}
                   sx={{ 
-                    backgroundColor: getSessionTypeColor(submission.sessionType),
+                    backgroundColor: getTrackColor(submission.sessionType),
                     color: 'white'
                   }}
                 />
@@ -301,19 +325,28 @@ const ReviewForm: React.FC = () => {
                 />
               </Box>
 
-              <Typography variant="subtitle2" gutterBottom>
-                Authors:
-              </Typography>
-              <List dense>
-                {submission.authors.map((author, index) => (
-                  <ListItem key={index}>
-                    <ListItemText
-                      primary={author.name}
-                      secondary={`${author.affiliation}${author.isCorresponding ? ' (Corresponding)' : ''}`}
-                    />
-                  </ListItem>
-                ))}
-              </List>
+              {submission.isAnonymized ? (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  This conference uses double-blind review: the authors are not shown to you, and the
+                  manuscript is served without its author metadata.
+                </Alert>
+              ) : (
+                <>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Authors:
+                  </Typography>
+                  <List dense>
+                    {submission.authors.map((author, index) => (
+                      <ListItem key={index}>
+                        <ListItemText
+                          primary={author.name}
+                          secondary={`${author.affiliation}${author.isCorresponding ? ' (Corresponding)' : ''}`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </>
+              )}
 
               <Typography variant="subtitle2" gutterBottom>
                 Keywords:
@@ -380,33 +413,61 @@ const ReviewForm: React.FC = () => {
                 </Alert>
               )}
 
-              <Box mb={3}>
-                <Typography variant="subtitle2" gutterBottom>
-                  Score (1-10): {score} - {getScoreLabel(score)}
-                </Typography>
-                <Slider
-                  value={score}
-                  onChange={(_, newValue) => setScore(newValue as number)}
-                  min={1}
-                  max={10}
-                  step={1}
-                  marks
-                  disabled={review.isCompleted}
-                  sx={{
-                    color: getScoreColor(score),
-                    '& .MuiSlider-thumb': {
-                      backgroundColor: getScoreColor(score),
-                    },
-                    '& .MuiSlider-track': {
-                      backgroundColor: getScoreColor(score),
-                    }
-                  }}
-                />
-                <Box display="flex" justifyContent="space-between" mt={1}>
-                  <Typography variant="caption">Poor</Typography>
-                  <Typography variant="caption">Excellent</Typography>
+              {rubric ? (
+                <Box mb={3}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    {rubric.name}
+                  </Typography>
+                  {rubric.criteria.map(criterion => {
+                    const value = criteriaScores[criterion.key] ?? DEFAULT_SCORE;
+                    return (
+                      <Box key={criterion.key} mb={2}>
+                        <Typography variant="body2">
+                          {criterion.label} ({Math.round((criterion.weight / totalWeight) * 100)}%): {value}
+                        </Typography>
+                        {criterion.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {criterion.description}
+                          </Typography>
+                        )}
+                        <Slider
+                          value={value}
+                          onChange={(_, newValue) => setCriteriaScores({ ...criteriaScores, [criterion.key]: newValue as number })}
+                          min={RUBRIC_SCORE_MIN}
+                          max={RUBRIC_SCORE_MAX}
+                          step={1}
+                          marks
+                          disabled={review.isCompleted}
+                          sx={scoreSliderSx(value)}
+                        />
+                      </Box>
+                    );
+                  })}
+                  <Typography variant="subtitle2">
+                    Weighted score: {overallScore.toFixed(2)} - {getScoreLabel(overallScore)}
+                  </Typography>
                 </Box>
-              </Box>
+              ) : (
+                <Box mb={3}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Score (1-10): {score} - {getScoreLabel(score)}
+                  </Typography>
+                  <Slider
+                    value={score}
+                    onChange={(_, newValue) => setScore(newValue as number)}
+                    min={1}
+                    max={10}
+                    step={1}
+                    marks
+                    disabled={review.isCompleted}
+                    sx={scoreSliderSx(score)}
+                  />
+                  <Box display="flex" justifyContent="space-between" mt={1}>
+                    <Typography variant="caption">Poor</Typography>
+                    <Typography variant="caption">Excellent</Typography>
+                  </Box>
+                </Box>
+              )}
 
               <FormControl fullWidth sx={{ mb: 3 }}>
                 <InputLabel>Recommendation</InputLabel>
@@ -532,7 +593,14 @@ const ReviewForm: React.FC = () => {
           
           <Box mt={2}>
             <Typography variant="subtitle2">Review Summary:</Typography>
-            <Typography variant="body2">Score: {score}/10 ({getScoreLabel(score)})</Typography>
+            {rubric && rubric.criteria.map(criterion => (
+              <Typography key={criterion.key} variant="body2">
+                {criterion.label}: {criteriaScores[criterion.key] ?? DEFAULT_SCORE}/10
+              </Typography>
+            ))}
+            <Typography variant="body2">
+              {rubric ? 'Weighted score' : 'Score'}: {rubric ? overallScore.toFixed(2) : score}/10 ({getScoreLabel(overallScore)})
+            </Typography>
             <Typography variant="body2">Recommendation: {recommendation?.replace('_', ' ')}</Typography>
             <Typography variant="body2">Comments: {comments.length} characters</Typography>
           </Box>
@@ -34,6 +34,8 @@ import {
   Schedule as PendingIcon,
   Visibility as ViewIcon
 } from '@mui/icons-material';
+import { getConferenceHeaders } from '../services/conferenceEdition';
+import { CriterionReviewStats } from '../types/review';
 
 interface ReviewProgress {
   totalAssignments: number;
@@ -57,6 +59,8 @@ interface SubmissionReview {
     id: string;
     reviewerId: string;
     score?: number;
+    weightedScore?: number;
+    criteriaScores?: Record<string, number>;
     comments?: string;
     recommendation?: string;
     isCompleted: boolean;
@@ -66,6 +70,7 @@ interface SubmissionReview {
     totalReviews: number;
     completedReviews: number;
     averageScore: number | null;
+    criteria: CriterionReviewStats[];
   };
 }
 
@@ -89,7 +94,8 @@ const ReviewProgress: React.FC = () => {
     try {
       const response = await fetch('/api/reviews/progress/overview', {
         headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+          ...getConferenceHeaders()
         }
       });
 
@@ -423,6 +429,29 @@ const ReviewProgress: React.FC = () => {
                     </Typography>
                   </Grid>
                 </Grid>
+
+                {submissionReviews.stats.criteria.length > 0 && (
+                  <Table size="small" sx={{ mt: 2 }}>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Criterion</TableCell>
+                        <TableCell align="right">Weight</TableCell>
+                        <TableCell align="right">Average</TableCell>
+                        <TableCell align="right">Reviews</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {submissionReviews.stats.criteria.map(criterion => (
+                        <TableRow key={`${criterion.key}-${criterion.label}`}>
+                          <TableCell>{criterion.label}</TableCell>
+                          <TableCell align="right">{criterion.weight}</TableCell>
+                          <TableCell align="right">{criterion.averageScore?.toFixed(1) || 'N/A'}</TableCell>
+                          <TableCell align="right">{criterion.reviewCount}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
               </Box>
 
               <Divider sx={{ my: 2 }} />
@@ -451,8 +480,16 @@ const ReviewProgress: React.FC = () => {
                         review.isCompleted ? (
                           <Box mt={1}>
                             <Typography variant="body2">
-                              Score: {review.score}/10
+                              Score: {review.weightedScore?.toFixed(2) ?? review.score}/10
                             </Typography>
+                            {review.criteriaScores && (
+                              <Typography variant="caption" color="text.secondary" component="div">
+                                {submissionReviews.stats.criteria
+                                  .filter(criterion => review.criteriaScores?.[criterion.key] !== undefined)
+                                  .map(criterion => `${criterion.label}: ${review.criteriaScores?.[criterion.key]}`)
+                                  .join(', ')}
+                              </Typography>
+                            )}
                             {review.recommendation && (
                               <Chip
                                 label={formatRecommendation(review.recommendation)}
@@ -22,14 +22,25 @@ import {
   ListItemSecondaryAction,
   IconButton,
   Tooltip,
-  CircularProgress
+  CircularProgress,
+  TextField,
+  InputAdornment
 } from '@mui/material';
 import {
   Assignment as AssignmentIcon,
   Delete as DeleteIcon,
   Lightbulb as SuggestionIcon,
-  Person as PersonIcon
+  Person as PersonIcon,
+  Search as SearchIcon,
+  AutoFixHigh as AutoAssignIcon
 } from '@mui/icons-material';
+import { submissionApi } from '../services/submissionApi';
+import { ConflictMatch, SubmissionSearchHit } from '../types/submission';
+import { useAuth } from '../hooks/useAuth';
+import HighlightedText from './HighlightedText';
+import AutoAssignmentDialog from './AutoAssignmentDialog';
+import { useTracks } from '../hooks/useTracks';
+import { getConferenceHeaders } from '../services/conferenceEdition';
 
 interface Reviewer {
   id: string;
@@ -63,6 +74,7 @@ interface Assignment {
   authorName: string;
   assignedDate: string;
   isCompleted: boolean;
+  round: number;
 }
 
 interface AssignmentSuggestion {
@@ -70,12 +82,25 @@ interface AssignmentSuggestion {
   name: string;
   expertise: string[];
   affiliation: string;
-  matchScore: number;
+  // Text similarity of the reviewer's profile to the submission, 0-1
+  affinity: number;
+  // Shared terms that explain the affinity, strongest first
+  affinityTerms: string[];
   currentAssignments: number;
   matchReason: string;
+  // Conflicted reviewers are listed after the others
+  conflicts: ConflictMatch[];
 }
 
+// Conflicts the authors declared themselves, as opposed to those found from the author list
+const DECLARED_CONFLICT_TYPES: ConflictMatch['type'][] = ['person', 'institution', 'email_domain'];
+
+const conflictSource = (conflict: ConflictMatch) =>
+  DECLARED_CONFLICT_TYPES.includes(conflict.type) ? 'Declared by the authors' : 'Detected';
+
 const ReviewerAssignment: React.FC = () => {
+  const { getTrackColor } = useTracks();
+  const { user } = useAuth();
   const [reviewers, setReviewers] = useState<Reviewer[]>([]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
@@ -87,11 +112,41 @@ const ReviewerAssignment: React.FC = () => {
   const [suggestionsOpen, setSuggestionsOpen] = useState(false);
   const [suggestions, setSuggestions] = useState<AssignmentSuggestion[]>([]);
   const [suggestionsLoading, setSuggestionsLoading] = useState(false);
+  const [submissionQuery, setSubmissionQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SubmissionSearchHit[] | null>(null);
+  const [conflicts, setConflicts] = useState<ConflictMatch[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+  const [autoAssignOpen, setAutoAssignOpen] = useState(false);
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Narrow the submission list with full-text search once the user stops typing
+  useEffect(() => {
+    const query = submissionQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await submissionApi.searchSubmissions({ q: query, status: ['submitted'], limit: 50 });
+        if (response.success && response.data) {
+          setSearchResults(response.data.submissions);
+        }
+      } catch (err) {
+        setError('Failed to search submissions');
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [submissionQuery]);
+
+  const submissionOptions: Array<Submission & { titleHighlight?: string }> = searchResults
+    ? searchResults.map(result => ({ ...result, titleHighlight: result.highlights.title }))
+    : submissions;
+
   const fetchData = async () => {
     setLoading(true);
     try {
@@ -123,7 +178,8 @@ const ReviewerAssignment: React.FC = () => {
   const fetchSubmissions = async () => {
     const response = await fetch('/api/reviews/submissions/available', {
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        ...getConferenceHeaders()
       }
     });
     
@@ -136,7 +192,8 @@ const ReviewerAssignment: React.FC = () => {
   const fetchAssignments = async () => {
     const response = await fetch('/api/reviews/assignments', {
       headers: {
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
+        'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        ...getConferenceHeaders()
       }
     });
     
@@ -146,7 +203,7 @@ const ReviewerAssignment: React.FC = () => {
     }
   };
 
-  const handleAssignReviewer = async () => {
+  const handleAssignReviewer = async (overrideConflict?: { reason: string }) => {
     if (!selectedSubmission || !selectedReviewer) {
       setError('Please select both a submission and a reviewer');
       return;
@@ -164,18 +221,24 @@ const ReviewerAssignment: React.FC = () => {
         },
         body: JSON.stringify({
           submissionId: selectedSubmission,
-          reviewerId: selectedReviewer
+          reviewerId: selectedReviewer,
+          overrideConflict
         })
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        setSuccess('Reviewer assigned successfully');
+        setConflicts(null);
+        setSuccess(overrideConflict ? 'Reviewer assigned; the conflict override was recorded' : 'Reviewer assigned successfully');
         setSelectedSubmission('');
         setSelectedReviewer('');
         await fetchAssignments();
         await fetchSubmissions(); // Refresh to update available submissions
+      } else if (data.error?.code === 'CONFLICT_OF_INTEREST') {
+        // Declared or detected conflict; admins may override it with a reason
+        setOverrideReason('');
+        setConflicts(data.error.details || []);
       } else {
         setError(data.error?.message || 'Failed to assign reviewer');
       }
@@ -249,20 +312,9 @@ const ReviewerAssignment: React.FC = () => {
     setSuggestionsOpen(false);
   };
 
-  const getSessionTypeColor = (sessionType: string) => {
-    const colors: Record<string, string> = {
-      'CHE': '#ff9800',
-      'CSE': '#2196f3',
-      'BIO': '#4caf50',
-      'MST': '#9c27b0',
-      'PFD': '#f44336'
-    };
-    return colors[sessionType] || '#757575';
-  };
-
-  const getMatchScoreColor = (score: number) => {
-    if (score >= 3) return '#4caf50';
-    if (score >= 2) return '#ff9800';
+  const getAffinityColor = (affinity: number) => {
+    if (affinity >= 0.3) return '#4caf50';
+    if (affinity >= 0.1) return '#ff9800';
     return '#757575';
   };
 
@@ -276,9 +328,20 @@ const ReviewerAssignment: React.FC = () => {
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Reviewer Assignment System
-      </Typography>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h4" gutterBottom>
+          Reviewer Assignment System
+        </Typography>
+        {user?.role === 'admin' && (
+          <Button
+            variant="outlined"
+            startIcon={<AutoAssignIcon />}
+            onClick={() => setAutoAssignOpen(true)}
+          >
+            Auto-Assign
+          </Button>
+        )}
+      </Box>
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
@@ -302,6 +365,23 @@ const ReviewerAssignment: React.FC = () => {
                 Assign Reviewer
               </Typography>
 
+              <TextField
+                fullWidth
+                size="small"
+                placeholder="Search submissions by title or abstract"
+                value={submissionQuery}
+                onChange={(e) => setSubmissionQuery(e.target.value)}
+                helperText={searchResults ? `${searchResults.length} matching submission(s)` : undefined}
+                sx={{ mb: 2 }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon />
+                    </InputAdornment>
+                  )
+                }}
+              />
+
               <FormControl fullWidth sx={{ mb: 2 }}>
                 <InputLabel>Select Submission</InputLabel>
                 <Select
@@ -309,18 +389,20 @@ const ReviewerAssignment: React.FC = () => {
                   onChange={(e) => setSelectedSubmission(e.target.value)}
                   label="Select Submission"
                 >
-                  {submissions.map((submission) => (
+                  {submissionOptions.map((submission) => (
                     <MenuItem key={submission.id} value={submission.id}>
                       <Box>
                         <Typography variant="body2" fontWeight="bold">
-                          {submission.title}
+                          {submission.titleHighlight
+                            ? <HighlightedText text={submission.titleHighlight} />
+                            : submission.title}
                         </Typography>
                         <Box display="flex" gap={1} mt={0.5}>
                           <Chip
                             label={submission.sessionType}
                             size="small"
                             sx={{ 
-                              backgroundColor: getSessionTypeColor(submission.sessionType),
+                              backgroundColor: getTrackColor(submission.sessionType),
                               color: 'white'
                             }}
                           />
@@ -393,7 +475,7 @@ const ReviewerAssignment: React.FC = () => {
               <Button
                 variant="contained"
                 fullWidth
-                onClick={handleAssignReviewer}
+                onClick={() => handleAssignReviewer()}
                 disabled={loading || !selectedSubmission || !selectedReviewer}
               >
                 {loading ? <CircularProgress size={24} /> : 'Assign Reviewer'}
@@ -431,7 +513,7 @@ const ReviewerAssignment: React.FC = () => {
                             label={assignment.sessionType}
                             size="small"
                             sx={{ 
-                              backgroundColor: getSessionTypeColor(assignment.sessionType),
+                              backgroundColor: getTrackColor(assignment.sessionType),
                               color: 'white'
                             }}
                           />
@@ -440,6 +522,13 @@ const ReviewerAssignment: React.FC = () => {
                             size="small"
                             color={assignment.isCompleted ? 'success' : 'warning'}
                           />
+                          {assignment.round > 1 && (
+                            <Chip
+                              label={`Round ${assignment.round}`}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
                         </Box>
                       }
                     />
@@ -472,6 +561,50 @@ const ReviewerAssignment: React.FC = () => {
         </Grid>
       </Grid>
 
+      {/* Conflict of Interest Dialog */}
+      <Dialog open={!!conflicts} onClose={() => setConflicts(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Conflict of Interest</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" paragraph>
+            The selected reviewer has a conflict of interest with this submission:
+          </Typography>
+          <List dense>
+            {conflicts?.map((conflict, index) => (
+              <ListItem key={index}>
+                <ListItemText primary={conflict.reason} secondary={`${conflictSource(conflict)}: ${conflict.value}`} />
+              </ListItem>
+            ))}
+          </List>
+          {user?.role === 'admin' ? (
+            <TextField
+              fullWidth
+              multiline
+              rows={3}
+              label="Reason for overriding (recorded)"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              helperText="At least 10 characters"
+              sx={{ mt: 1 }}
+            />
+          ) : (
+            <Alert severity="info">Only administrators can override a conflict of interest.</Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConflicts(null)}>Cancel</Button>
+          {user?.role === 'admin' && (
+            <Button
+              variant="contained"
+              color="warning"
+              onClick={() => handleAssignReviewer({ reason: overrideReason.trim() })}
+              disabled={loading || overrideReason.trim().length < 10}
+            >
+              Override and Assign
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+
       {/* Suggestions Dialog */}
       <Dialog
         open={suggestionsOpen}
@@ -506,10 +639,10 @@ const ReviewerAssignment: React.FC = () => {
                       <Box mt={1}>
                         <Box display="flex" alignItems="center" gap={1} mb={1}>
                           <Chip
-                            label={`Match Score: ${suggestion.matchScore}`}
+                            label={`Affinity: ${Math.round(suggestion.affinity * 100)}%`}
                             size="small"
                             sx={{ 
-                              backgroundColor: getMatchScoreColor(suggestion.matchScore),
+                              backgroundColor: getAffinityColor(suggestion.affinity),
                               color: 'white'
                             }}
                           />
@@ -520,6 +653,15 @@ const ReviewerAssignment: React.FC = () => {
                         <Typography variant="caption" display="block">
                           Current assignments: {suggestion.currentAssignments}
                         </Typography>
+                        {suggestion.conflicts.length > 0 && (
+                          <Alert severity="warning" sx={{ mt: 1, py: 0 }}>
+                            {suggestion.conflicts.map((conflict, index) => (
+                              <Typography key={index} variant="caption" display="block">
+                                {conflict.reason} ({conflictSource(conflict).toLowerCase()})
+                              </Typography>
+                            ))}
+                          </Alert>
+                        )}
                         {suggestion.expertise.length > 0 && (
                           <Box display="flex" gap={0.5} mt={0.5} flexWrap="wrap">
                             {suggestion.expertise.slice(0, 4).map((exp, index) => (
@@ -540,6 +682,7 @@ const ReviewerAssignment: React.FC = () => {
                       variant="outlined"
                       size="small"
                       onClick={() => handleAssignFromSuggestion(suggestion.reviewerId)}
+                      disabled={suggestion.conflicts.some(conflict => conflict.type === 'authorship')}
                     >
                       Select
                     </Button>
@@ -563,6 +706,16 @@ const ReviewerAssignment: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <AutoAssignmentDialog
+        open={autoAssignOpen}
+        onClose={() => setAutoAssignOpen(false)}
+        reviewers={reviewers}
+        onCommitted={() => {
+          fetchAssignments();
+          fetchSubmissions();
+        }}
+      />
     </Box>
   );
 };
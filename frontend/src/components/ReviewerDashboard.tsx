@@ -28,6 +28,7 @@ import {
   CheckCircle as CompletedIcon,
   Schedule as PendingIcon
 } from '@mui/icons-material';
+import { useTracks } from '../hooks/useTracks';
 
 interface ReviewerAssignment {
   reviewId: string;
@@ -36,9 +37,12 @@ interface ReviewerAssignment {
   sessionType: string;
   presentationType: string;
   submissionStatus: string;
-  authorName: string;
+  // Withheld under double-blind review
+  authorName?: string;
   assignedDate: string;
   isCompleted: boolean;
+  // Closed when the submission was withdrawn before the review was completed
+  isClosed?: boolean;
 }
 
 interface SubmissionDetails {
@@ -56,9 +60,12 @@ interface SubmissionDetails {
     isCorresponding: boolean;
   }>;
   manuscriptPath?: string;
+  // Set under double-blind review, where the authors are withheld from reviewers
+  isAnonymized?: boolean;
 }
 
 const ReviewerDashboard: React.FC = () => {
+  const { getTrackColor } = useTracks();
   const [assignments, setAssignments] = useState<ReviewerAssignment[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -148,17 +155,6 @@ const ReviewerDashboard: React.FC = () => {
     window.location.href = `/review-submission/${submissionId}`;
   };
 
-  const getSessionTypeColor = (sessionType: string) => {
-    const colors: Record<string, string> = {
-      'CHE': '#ff9800',
-      'CSE': '#2196f3',
-      'BIO': '#4caf50',
-      'MST': '#9c27b0',
-      'PFD': '#f44336'
-    };
-    return colors[sessionType] || '#757575';
-  };
-
   const getStatusIcon = (isCompleted: boolean) => {
     return isCompleted ? (
       <CompletedIcon color="success" />
@@ -176,7 +172,7 @@ const ReviewerDashboard: React.FC = () => {
   };
 
   const completedAssignments = assignments.filter(a => a.isCompleted);
-  const pendingAssignments = assignments.filter(a => !a.isCompleted);
+  const pendingAssignments = assignments.filter(a => !a.isCompleted && !a.isClosed);
 
   if (loading && assignments.length === 0) {
     return (
@@ -291,7 +287,7 @@ const ReviewerDashboard: React.FC = () => {
                           {assignment.submissionTitle}
                         </Typography>
                         <Typography variant="body2" color="text.secondary">
-                          Author: {assignment.authorName}
+                          Author: {assignment.authorName || 'Anonymized (double-blind review)'}
                         </Typography>
                       </Box>
                     }
@@ -301,7 +297,7 @@ const ReviewerDashboard: React.FC = () => {
                           label={assignment.sessionType}
                           size="small"
                           sx={{ 
-                            backgroundColor: getSessionTypeColor(assignment.sessionType),
+                            backgroundColor: getTrackColor(assignment.sessionType),
                             color: 'white'
                           }}
                         />
@@ -361,7 +357,7 @@ const ReviewerDashboard: React.FC = () => {
                           {assignment.submissionTitle}
                         </Typography>
                         <Typography variant="body2" color="text.secondary">
-                          Author: {assignment.authorName}
+                          Author: {assignment.authorName || 'Anonymized (double-blind review)'}
                         </Typography>
                       </Box>
                     }
@@ -371,7 +367,7 @@ const ReviewerDashboard: React.FC = () => {
                           label={assignment.sessionType}
                           size="small"
                           sx={{ 
-                            backgroundColor: getSessionTypeColor(assignment.sessionType),
+                            backgroundColor: getTrackColor(assignment.sessionType),
                             color: 'white'
                           }}
                         />
@@ -446,7 +442,7 @@ const ReviewerDashboard: React.FC = () => {
                 <Chip
                   label={selectedSubmission.sessionType}
                   sx={{ 
-                    backgroundColor: getSessionTypeColor(selectedSubmission.sessionType),
+                    backgroundColor: getTrackColor(selectedSubmission.sessionType),
                     color: 'white'
                   }}
                 />
@@ -456,19 +452,28 @@ const ReviewerDashboard: React.FC = () => {
                 />
               </Box>
 
-              <Typography variant="subtitle2" gutterBottom>
-                Authors:
-              </Typography>
-              <List dense>
-                {selectedSubmission.authors.map((author, index) => (
-                  <ListItem key={index}>
-                    <ListItemText
-                      primary={author.name}
-                      secondary={`${author.affiliation}${author.isCorresponding ? ' (Corresponding)' : ''}`}
-                    />
-                  </ListItem>
-                ))}
-              </List>
+              {selectedSubmission.isAnonymized ? (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  This conference uses double-blind review: the authors are not shown to you, and the
+                  manuscript is served without its author metadata.
+                </Alert>
+              ) : (
+                <>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Authors:
+                  </Typography>
+                  <List dense>
+                    {selectedSubmission.authors.map((author, index) => (
+                      <ListItem key={index}>
+                        <ListItemText
+                          primary={author.name}
+                          secondary={`${author.affiliation}${author.isCorresponding ? ' (Corresponding)' : ''}`}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </>
+              )}
 
               <Divider sx={{ my: 2 }} />
 
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Chip,
+  Divider,
+  CircularProgress
+} from '@mui/material';
+import { format } from 'date-fns';
+import { SubmissionResponse, SubmissionRevision } from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+import MarkdownEditor from './MarkdownEditor';
+import { ManuscriptManager } from './ManuscriptManager';
+
+interface RevisionDialogProps {
+  open: boolean;
+  submission: SubmissionResponse | null;
+  onClose: () => void;
+  onRevisionSubmitted: (submission: SubmissionResponse) => void;
+}
+
+const RevisionDialog: React.FC<RevisionDialogProps> = ({
+  open,
+  submission,
+  onClose,
+  onRevisionSubmitted
+}) => {
+  const [title, setTitle] = useState('');
+  const [abstract, setAbstract] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [responseLetter, setResponseLetter] = useState('');
+  const [openRevision, setOpenRevision] = useState<SubmissionRevision | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !submission) return;
+
+    setTitle(submission.title);
+    setAbstract(submission.abstract);
+    setKeywords(submission.keywords.join(', '));
+    setResponseLetter('');
+    setError(null);
+    loadRevision(submission.id);
+  }, [open, submission]);
+
+  const loadRevision = async (submissionId: string) => {
+    try {
+      const response = await submissionApi.getRevisions(submissionId);
+      if (response.success && response.data) {
+        const pending = response.data.revisions.find(r => !r.submittedAt) || null;
+        setOpenRevision(pending);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load revision request');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!submission) return;
+
+    if (responseLetter.trim().length < 20) {
+      setError('Please provide a response to the reviewers (at least 20 characters)');
+      return;
+    }
+
+    const keywordList = keywords.split(',').map(k => k.trim()).filter(Boolean);
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await submissionApi.submitRevision(submission.id, {
+        title: title !== submission.title ? title : undefined,
+        abstract: abstract !== submission.abstract ? abstract : undefined,
+        keywords: keywordList.join(',') !== submission.keywords.join(',') ? keywordList : undefined,
+        responseLetter
+      });
+      if (response.success && response.data) {
+        onRevisionSubmitted(response.data.submission);
+      } else {
+        setError(response.error?.message || 'Failed to submit revision');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to submit revision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Submit Revision
+        {submission?.revisionRound && (
+          <Chip label={`Round ${submission.revisionRound}`} size="small" sx={{ ml: 2 }} />
+        )}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {submission?.revisionDeadline && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Revision deadline: {format(new Date(submission.revisionDeadline), 'MMM dd, yyyy HH:mm')}
+          </Alert>
+        )}
+
+        {openRevision && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              {openRevision.revisionType === 'major_revision' ? 'Major revision' : 'Minor revision'} requested
+              on {format(new Date(openRevision.requestedAt), 'MMM dd, yyyy')}
+            </Typography>
+            {openRevision.requestNotes && (
+              <Typography variant="body2" color="text.secondary">
+                {openRevision.requestNotes}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <TextField
+          label="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+
+        <Typography variant="subtitle2" gutterBottom>Revised Abstract</Typography>
+        <Box sx={{ mb: 2 }}>
+          <MarkdownEditor value={abstract} onChange={setAbstract} height={250} />
+        </Box>
+
+        <TextField
+          label="Keywords"
+          helperText="Separate keywords with commas"
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          label="Response to Reviewers"
+          helperText="Explain how each reviewer comment was addressed"
+          value={responseLetter}
+          onChange={(e) => setResponseLetter(e.target.value)}
+          fullWidth
+          multiline
+          minRows={6}
+          required
+          sx={{ mb: 2 }}
+        />
+
+        {submission && (
+          <ManuscriptManager submission={submission} readOnly={false} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={submitting}
+          startIcon={submitting ? <CircularProgress size={16} /> : undefined}
+        >
+          Submit Revision
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RevisionDialog;
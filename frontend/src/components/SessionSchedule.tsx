@@ -17,38 +17,26 @@ import {
   Divider,
   Alert,
 } from '@mui/material';
-import {
-  Science as ScienceIcon,
-  Computer as ComputerIcon,
-  Biotech as BiotechIcon,
-  Calculate as CalculateIcon,
-  Engineering as EngineeringIcon,
-} from '@mui/icons-material';
-import { Session, SessionType } from '../types/conference';
+import { Session, SessionType, Track } from '../types/conference';
 
 interface SessionScheduleProps {
   sessions: Session[];
+  tracks: Track[];
   conferenceId: string;
 }
 
-const SessionSchedule: React.FC<SessionScheduleProps> = ({ sessions }) => {
+const SessionSchedule: React.FC<SessionScheduleProps> = ({ sessions, tracks }) => {
   const [selectedTab, setSelectedTab] = useState(0);
 
-  const sessionIcons: Record<SessionType, React.ReactElement> = {
-    CHE: <ScienceIcon />,
-    CSE: <ComputerIcon />,
-    BIO: <BiotechIcon />,
-    MST: <CalculateIcon />,
-    PFD: <EngineeringIcon />,
-  };
+  const getTrack = (code: SessionType) => tracks.find(track => track.code === code);
 
-  const sessionNames: Record<SessionType, string> = {
-    CHE: 'Computational Chemistry',
-    CSE: 'Computer Science & Engineering',
-    BIO: 'Computational Biology & Bioinformatics',
-    MST: 'Mathematics & Statistics',
-    PFD: 'Computational Physics & Fluid Dynamics',
-  };
+  // Each session is marked with the colour of its track
+  const trackMarker = (code: SessionType) => (
+    <Box
+      component="span"
+      sx={{ width: 12, height: 12, borderRadius: '50%', flexShrink: 0, bgcolor: getTrack(code)?.color || 'grey.500' }}
+    />
+  );
 
   const formatTime = (timeString: string) => {
     return new Date(timeString).toLocaleTimeString('en-US', {
@@ -104,13 +92,13 @@ const SessionSchedule: React.FC<SessionScheduleProps> = ({ sessions }) => {
                 key={session.id}
                 label={
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                    {sessionIcons[session.type]}
+                    {trackMarker(session.type)}
                     <Box>
                       <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
                         {session.type}
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
-                        {sessionNames[session.type]}
+                        {getTrack(session.type)?.name || session.type}
                       </Typography>
                     </Box>
                   </Box>
@@ -130,7 +118,7 @@ const SessionSchedule: React.FC<SessionScheduleProps> = ({ sessions }) => {
               <Box>
                 <Box sx={{ mb: 3 }}>
                   <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-                    {sessionIcons[session.type]}
+                    {trackMarker(session.type)}
                     {session.name}
                   </Typography>
                   {session.description && (
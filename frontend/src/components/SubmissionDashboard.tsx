@@ -21,7 +21,10 @@ import {
   Menu,
   MenuItem,
   ListItemIcon,
-  ListItemText
+  Switch,
+  FormControlLabel,
+  ListItemText,
+  TextField
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -34,20 +37,42 @@ import {
   CheckCircle as CheckCircleIcon,
   Cancel as CancelIcon,
   HourglassEmpty as HourglassEmptyIcon,
-  AttachFile as AttachFileIcon
+  AttachFile as AttachFileIcon,
+  RateReview as RateReviewIcon,
+  Autorenew as AutorenewIcon,
+  Drafts as DraftsIcon,
+  People as PeopleIcon,
+  Send as SendIcon,
+  Block as WithdrawIcon
 } from '@mui/icons-material';
 import { format } from 'date-fns';
-import { SubmissionResponse, SESSION_INFO, PRESENTATION_TYPE_INFO } from '../types/submission';
+import {
+  SubmissionResponse,
+  SubmissionWithdrawal,
+  PresentationTypeProposal,
+  Author,
+  PRESENTATION_TYPE_INFO
+} from '../types/submission';
 import { submissionApi } from '../services/submissionApi';
+import { useTracks } from '../hooks/useTracks';
 import SubmissionForm from './SubmissionForm';
 import { ManuscriptManager } from './ManuscriptManager';
+import SubmissionFilesManager from './SubmissionFilesManager';
+import AbstractFigureManager from './AbstractFigureManager';
+import AbstractReferenceList from './AbstractReferenceList';
+import RevisionDialog from './RevisionDialog';
+import SubmissionStatusTimeline from './SubmissionStatusTimeline';
+import PresentationProposalDialog from './PresentationProposalDialog';
 import { markdownToHtml } from '../utils/markdown';
+import { useAuth } from '../hooks/useAuth';
 
 interface SubmissionDashboardProps {
   onCreateSubmission?: () => void;
 }
 
 const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmission }) => {
+  const { user } = useAuth();
+  const { getTrackName, getTrackColor } = useTracks();
   const [submissions, setSubmissions] = useState<SubmissionResponse[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,7 +80,14 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [withdrawDialogOpen, setWithdrawDialogOpen] = useState(false);
+  const [withdrawReason, setWithdrawReason] = useState('');
+  const [withdrawal, setWithdrawal] = useState<SubmissionWithdrawal | null>(null);
+  const [presentationProposal, setPresentationProposal] = useState<PresentationTypeProposal | null>(null);
+  const [proposalDialogOpen, setProposalDialogOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [revisionDialogOpen, setRevisionDialogOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [menuSubmissionId, setMenuSubmissionId] = useState<string | null>(null);
   const [manuscriptStatuses, setManuscriptStatuses] = useState<Record<string, boolean>>({});
@@ -94,6 +126,36 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
     setSelectedSubmission(submission);
     setViewDialogOpen(true);
     handleMenuClose();
+    loadWithdrawal(submission);
+    loadPresentationProposal(submission);
+  };
+
+  // Show a pending or declined withdrawal request in the details dialog
+  const loadWithdrawal = async (submission: SubmissionResponse) => {
+    setWithdrawal(null);
+    if (submission.status === 'draft') return;
+    try {
+      const response = await submissionApi.getWithdrawal(submission.id);
+      if (response.success) {
+        setWithdrawal(response.data || null);
+      }
+    } catch (err) {
+      console.error('Failed to load withdrawal request:', err);
+    }
+  };
+
+  // Show an open or answered presentation type proposal for accepted submissions
+  const loadPresentationProposal = async (submission: SubmissionResponse) => {
+    setPresentationProposal(null);
+    if (submission.status !== 'accepted') return;
+    try {
+      const response = await submissionApi.getPresentationProposal(submission.id);
+      if (response.success) {
+        setPresentationProposal(response.data || null);
+      }
+    } catch (err) {
+      console.error('Failed to load presentation type proposal:', err);
+    }
   };
 
   const handleEdit = (submission: SubmissionResponse) => {
@@ -108,6 +170,65 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
     handleMenuClose();
   };
 
+  const handleWithdraw = (submission: SubmissionResponse) => {
+    setSelectedSubmission(submission);
+    setWithdrawReason('');
+    setWithdrawDialogOpen(true);
+    handleMenuClose();
+  };
+
+  const handleRevise = (submission: SubmissionResponse) => {
+    setSelectedSubmission(submission);
+    setRevisionDialogOpen(true);
+    handleMenuClose();
+  };
+
+  const updateSelectedAuthor = (authorId: string, changes: Partial<Author>) => {
+    if (!selectedSubmission) return;
+    const updated = {
+      ...selectedSubmission,
+      authors: selectedSubmission.authors.map(a => a.id === authorId ? { ...a, ...changes } : a)
+    };
+    setSelectedSubmission(updated);
+    setSubmissions(prev => prev.map(s => s.id === updated.id ? updated : s));
+  };
+
+  const handleToggleAuthorEdit = async (author: Author, canEditAuthor: boolean) => {
+    if (!selectedSubmission || !author.id) return;
+    try {
+      const response = await submissionApi.setAuthorEditPermission(selectedSubmission.id, author.id, canEditAuthor);
+      if (response.success) {
+        updateSelectedAuthor(author.id, { canEdit: canEditAuthor });
+      } else {
+        setError(response.error?.message || 'Failed to update author permissions');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update author permissions');
+    }
+  };
+
+  const handleInviteAuthor = async (author: Author) => {
+    if (!selectedSubmission || !author.id) return;
+    try {
+      const response = await submissionApi.inviteAuthor(selectedSubmission.id, author.id);
+      if (response.success) {
+        updateSelectedAuthor(author.id, { invitedAt: new Date() });
+      } else {
+        setError(response.error?.message || 'Failed to send invitation');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to send invitation');
+    }
+  };
+
+  const handleRevisionSubmitted = (revisedSubmission: SubmissionResponse) => {
+    setSubmissions(prev => 
+      prev.map(s => s.id === revisedSubmission.id ? revisedSubmission : s)
+    );
+    setRevisionDialogOpen(false);
+    setSelectedSubmission(null);
+  };
+
   const confirmDelete = async () => {
     if (!selectedSubmission) return;
 
@@ -125,6 +246,30 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
     }
   };
 
+  const confirmWithdraw = async () => {
+    if (!selectedSubmission) return;
+
+    try {
+      const response = await submissionApi.withdrawSubmission(selectedSubmission.id, withdrawReason.trim());
+      if (response.success && response.data) {
+        if (response.data.submission) {
+          setSubmissions(prev => 
+            prev.map(s => s.id === selectedSubmission.id ? { ...s, status: 'withdrawn' } : s)
+          );
+          setNotice(`"${selectedSubmission.title}" has been withdrawn`);
+        } else {
+          setNotice(`Withdrawal of "${selectedSubmission.title}" requested. Review has started, so an administrator will confirm it.`);
+        }
+        setWithdrawDialogOpen(false);
+        setSelectedSubmission(null);
+      } else {
+        setError(response.error?.message || 'Failed to withdraw submission');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to withdraw submission');
+    }
+  };
+
   const handleSubmissionUpdated = (updatedSubmission: SubmissionResponse) => {
     setSubmissions(prev => 
       prev.map(s => s.id === updatedSubmission.id ? updatedSubmission : s)
@@ -133,9 +278,20 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
     setSelectedSubmission(null);
   };
 
+  // Drafts are autosaved while the form is open, so insert or replace by ID
+  const upsertSubmission = (submission: SubmissionResponse) => {
+    setSubmissions(prev => 
+      prev.some(s => s.id === submission.id)
+        ? prev.map(s => s.id === submission.id ? submission : s)
+        : [submission, ...prev]
+    );
+  };
+
   const handleSubmissionCreated = (newSubmission: SubmissionResponse) => {
-    setSubmissions(prev => [newSubmission, ...prev]);
+    upsertSubmission(newSubmission);
     setCreateDialogOpen(false);
+    setEditDialogOpen(false);
+    setSelectedSubmission(null);
     onCreateSubmission?.();
   };
 
@@ -148,8 +304,11 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'draft': return 'default';
       case 'submitted': return 'primary';
       case 'under_review': return 'warning';
+      case 'revision_requested': return 'secondary';
+      case 'revised': return 'info';
       case 'accepted': return 'success';
       case 'rejected': return 'error';
       default: return 'default';
@@ -158,20 +317,50 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
 
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case 'draft': return <DraftsIcon />;
       case 'submitted': return <ScheduleIcon />;
       case 'under_review': return <HourglassEmptyIcon />;
+      case 'revision_requested': return <RateReviewIcon />;
+      case 'revised': return <AutorenewIcon />;
       case 'accepted': return <CheckCircleIcon />;
       case 'rejected': return <CancelIcon />;
+      case 'withdrawn': return <WithdrawIcon />;
       default: return null;
     }
   };
 
+  // Co-authors without edit rights get read-only access
+  const hasEditRights = (submission: SubmissionResponse) => {
+    return submission.accessLevel !== 'viewer';
+  };
+
+  const isOwner = (submission: SubmissionResponse) => {
+    return !submission.accessLevel || submission.accessLevel === 'owner';
+  };
+
+  const canManageAuthors = (submission: SubmissionResponse) => {
+    return isOwner(submission) ||
+      submission.authors.some(a => a.isCorresponding && !!user && a.userId === user.id);
+  };
+
   const canEdit = (submission: SubmissionResponse) => {
-    return submission.status === 'submitted';
+    if (!hasEditRights(submission)) return false;
+    return submission.status === 'draft' || submission.status === 'submitted';
   };
 
+  // Only drafts are deleted; finalized submissions are withdrawn so reviews are kept
   const canDelete = (submission: SubmissionResponse) => {
-    return submission.status === 'submitted' || submission.status === 'rejected';
+    return isOwner(submission) && submission.status === 'draft';
+  };
+
+  const canWithdraw = (submission: SubmissionResponse) => {
+    if (!canManageAuthors(submission)) return false;
+    return ['submitted', 'under_review', 'revision_requested', 'revised', 'accepted'].includes(submission.status);
+  };
+
+  const canRevise = (submission: SubmissionResponse) => {
+    if (!hasEditRights(submission) || submission.status !== 'revision_requested') return false;
+    return !submission.revisionDeadline || new Date(submission.revisionDeadline) > new Date();
   };
 
   if (loading) {
@@ -202,6 +391,12 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
         </Alert>
       )}
 
+      {notice && (
+        <Alert severity="info" sx={{ mb: 3 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
       {submissions.length === 0 ? (
         <Paper sx={{ p: 4, textAlign: 'center' }}>
           <Typography variant="h6" color="text.secondary" gutterBottom>
@@ -227,10 +422,18 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
                     <Chip
                       icon={getStatusIcon(submission.status)}
-                      label={submission.status.replace('_', ' ').toUpperCase()}
+                      label={submission.status.replace(/_/g, ' ').toUpperCase()}
                       color={getStatusColor(submission.status) as any}
                       size="small"
                     />
+                    {!isOwner(submission) && (
+                      <Chip
+                        icon={<PeopleIcon />}
+                        label={submission.accessLevel === 'editor' ? 'Co-author (editor)' : 'Co-author'}
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
                     <IconButton
                       size="small"
                       onClick={(e) => handleMenuOpen(e, submission.id)}
@@ -246,21 +449,25 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                     WebkitLineClamp: 2,
                     WebkitBoxOrient: 'vertical'
                   }}>
-                    {submission.title}
+                    {submission.title || 'Untitled draft'}
                   </Typography>
 
                   <Box sx={{ mb: 2 }}>
-                    <Chip
-                      label={`${submission.sessionType} - ${SESSION_INFO[submission.sessionType]?.name}`}
-                      size="small"
-                      variant="outlined"
-                      sx={{ mr: 1, mb: 1 }}
-                    />
-                    <Chip
-                      label={PRESENTATION_TYPE_INFO[submission.presentationType]?.name}
-                      size="small"
-                      variant="outlined"
-                    />
+                    {submission.sessionType && (
+                      <Chip
+                        label={`${submission.sessionType} - ${getTrackName(submission.sessionType)}`}
+                        size="small"
+                        variant="outlined"
+                        sx={{ mr: 1, mb: 1, borderColor: getTrackColor(submission.sessionType) }}
+                      />
+                    )}
+                    {submission.presentationType && (
+                      <Chip
+                        label={PRESENTATION_TYPE_INFO[submission.presentationType]?.name}
+                        size="small"
+                        variant="outlined"
+                      />
+                    )}
                   </Box>
 
                   <Typography variant="body2" color="text.secondary" gutterBottom>
@@ -272,9 +479,23 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                   </Typography>
 
                   <Typography variant="caption" color="text.secondary">
-                    Submitted: {format(new Date(submission.submissionDate), 'MMM dd, yyyy')}
+                    {submission.submissionDate
+                      ? `Submitted: ${format(new Date(submission.submissionDate), 'MMM dd, yyyy')}`
+                      : `Draft last saved: ${format(new Date(submission.updatedAt || submission.createdAt), 'MMM dd, yyyy HH:mm')}`}
                   </Typography>
 
+                  {submission.status === 'revision_requested' && submission.revisionDeadline && (
+                    <Typography variant="caption" color="secondary" display="block">
+                      Revision due: {format(new Date(submission.revisionDeadline), 'MMM dd, yyyy')}
+                    </Typography>
+                  )}
+
+                  {(submission.revisionRound || 1) > 1 && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Review round {submission.revisionRound}
+                    </Typography>
+                  )}
+
                   {(submission.manuscriptPath || manuscriptStatuses[submission.id]) && (
                     <Box sx={{ mt: 1 }}>
                       <Chip
@@ -305,6 +526,16 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                       Edit
                     </Button>
                   )}
+                  {canRevise(submission) && (
+                    <Button
+                      size="small"
+                      color="secondary"
+                      startIcon={<RateReviewIcon />}
+                      onClick={() => handleRevise(submission)}
+                    >
+                      Submit Revision
+                    </Button>
+                  )}
                 </CardActions>
               </Card>
             </Grid>
@@ -336,6 +567,16 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
           </MenuItem>
         )}
 
+        {menuSubmissionId && canRevise(submissions.find(s => s.id === menuSubmissionId)!) && (
+          <MenuItem onClick={() => {
+            const submission = submissions.find(s => s.id === menuSubmissionId);
+            if (submission) handleRevise(submission);
+          }}>
+            <ListItemIcon><RateReviewIcon /></ListItemIcon>
+            <ListItemText>Submit Revision</ListItemText>
+          </MenuItem>
+        )}
+
         {menuSubmissionId && canDelete(submissions.find(s => s.id === menuSubmissionId)!) && (
           <MenuItem onClick={() => {
             const submission = submissions.find(s => s.id === menuSubmissionId);
@@ -345,6 +586,16 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
             <ListItemText>Delete</ListItemText>
           </MenuItem>
         )}
+
+        {menuSubmissionId && canWithdraw(submissions.find(s => s.id === menuSubmissionId)!) && (
+          <MenuItem onClick={() => {
+            const submission = submissions.find(s => s.id === menuSubmissionId);
+            if (submission) handleWithdraw(submission);
+          }}>
+            <ListItemIcon><WithdrawIcon /></ListItemIcon>
+            <ListItemText>Withdraw</ListItemText>
+          </MenuItem>
+        )}
       </Menu>
 
       {/* View Dialog */}
@@ -354,7 +605,7 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
           {selectedSubmission && (
             <Chip
               icon={getStatusIcon(selectedSubmission.status)}
-              label={selectedSubmission.status.replace('_', ' ').toUpperCase()}
+              label={selectedSubmission.status.replace(/_/g, ' ').toUpperCase()}
               color={getStatusColor(selectedSubmission.status) as any}
               size="small"
               sx={{ ml: 2 }}
@@ -364,6 +615,40 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
         <DialogContent>
           {selectedSubmission && (
             <Box>
+              {withdrawal?.status === 'pending' && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Withdrawal requested on {format(new Date(withdrawal.createdAt), 'MMM dd, yyyy')} and awaiting administrator confirmation.
+                </Alert>
+              )}
+              {withdrawal?.status === 'rejected' && selectedSubmission.status !== 'withdrawn' && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  Your withdrawal request was declined{withdrawal.adminNotes ? `: ${withdrawal.adminNotes}` : '.'}
+                </Alert>
+              )}
+              {presentationProposal?.status === 'pending' && (
+                <Alert
+                  severity="info"
+                  sx={{ mb: 2 }}
+                  action={
+                    <Button color="inherit" size="small" onClick={() => setProposalDialogOpen(true)}>
+                      Respond
+                    </Button>
+                  }
+                >
+                  The program committee proposes presenting this submission as {presentationProposal.proposedType} instead of {presentationProposal.currentType}.
+                </Alert>
+              )}
+              {presentationProposal?.status === 'declined' && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  You declined presenting as {presentationProposal.proposedType}; the program committee is reconsidering your submission.
+                </Alert>
+              )}
+              {selectedSubmission.status === 'withdrawn' && withdrawal?.reason && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Withdrawn: {withdrawal.reason}
+                </Alert>
+              )}
+
               <Typography variant="h6" gutterBottom>
                 {selectedSubmission.title}
               </Typography>
@@ -371,7 +656,7 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
               <Grid container spacing={2} sx={{ mb: 3 }}>
                 <Grid item xs={6}>
                   <Typography variant="body2" color="text.secondary">
-                    <strong>Session:</strong> {selectedSubmission.sessionType} - {SESSION_INFO[selectedSubmission.sessionType]?.name}
+                    <strong>Session:</strong> {selectedSubmission.sessionType} - {getTrackName(selectedSubmission.sessionType)}
                   </Typography>
                 </Grid>
                 <Grid item xs={6}>
@@ -381,7 +666,9 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                 </Grid>
                 <Grid item xs={6}>
                   <Typography variant="body2" color="text.secondary">
-                    <strong>Submitted:</strong> {format(new Date(selectedSubmission.submissionDate), 'MMM dd, yyyy HH:mm')}
+                    <strong>Submitted:</strong> {selectedSubmission.submissionDate
+                      ? format(new Date(selectedSubmission.submissionDate), 'MMM dd, yyyy HH:mm')
+                      : 'Not yet submitted (draft)'}
                   </Typography>
                 </Grid>
                 <Grid item xs={6}>
@@ -399,10 +686,45 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                   <Typography variant="body2">
                     <strong>{author.name}</strong>
                     {author.isCorresponding && <Chip label="Corresponding" size="small" sx={{ ml: 1 }} />}
+                    {author.userId && <Chip label="Registered" size="small" color="success" variant="outlined" sx={{ ml: 1 }} />}
                   </Typography>
                   <Typography variant="caption" color="text.secondary">
                     {author.affiliation} • {author.email}
+                    {author.orcid && (
+                      <> • ORCID <a href={`https://orcid.org/${author.orcid}`} target="_blank" rel="noopener noreferrer">{author.orcid}</a></>
+                    )}
                   </Typography>
+                  {canManageAuthors(selectedSubmission) && selectedSubmission.status !== 'draft' && author.userId !== selectedSubmission.userId && (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {author.userId ? (
+                        <FormControlLabel
+                          control={
+                            <Switch
+                              size="small"
+                              checked={!!author.canEdit}
+                              onChange={(e) => handleToggleAuthorEdit(author, e.target.checked)}
+                            />
+                          }
+                          label={<Typography variant="caption">Can edit</Typography>}
+                        />
+                      ) : (
+                        <>
+                          <Button
+                            size="small"
+                            startIcon={<SendIcon />}
+                            onClick={() => handleInviteAuthor(author)}
+                          >
+                            {author.invitedAt ? 'Resend Invite' : 'Invite'}
+                          </Button>
+                          {author.invitedAt && (
+                            <Typography variant="caption" color="text.secondary">
+                              Invited {format(new Date(author.invitedAt), 'MMM dd, yyyy')}
+                            </Typography>
+                          )}
+                        </>
+                      )}
+                    </Box>
+                  )}
                 </Box>
               ))}
 
@@ -424,10 +746,34 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                 ) : (
                   <div dangerouslySetInnerHTML={{ __html: markdownToHtml(selectedSubmission.abstract) }} />
                 )}
+                <Box sx={{ mt: 2 }}>
+                  <AbstractFigureManager
+                    submission={selectedSubmission}
+                    readOnly={!canEdit(selectedSubmission)}
+                    onFigureChange={(changes) => {
+                      const updated = { ...selectedSubmission, ...changes };
+                      setSelectedSubmission(updated);
+                      upsertSubmission(updated);
+                    }}
+                  />
+                </Box>
+                {(selectedSubmission.abstractReferences || []).length > 0 && (
+                  <Box sx={{ mt: 2 }}>
+                    <AbstractReferenceList references={selectedSubmission.abstractReferences || []} />
+                  </Box>
+                )}
               </Paper>
 
               <Divider sx={{ my: 2 }} />
 
+              <Typography variant="subtitle1" gutterBottom>Status History</Typography>
+              <SubmissionStatusTimeline
+                submissionId={selectedSubmission.id}
+                currentStatus={selectedSubmission.status}
+              />
+
+              <Divider sx={{ my: 2 }} />
+
               <ManuscriptManager
                 submission={selectedSubmission}
                 onManuscriptUpdate={(hasManuscript) => 
@@ -435,6 +781,13 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                 }
                 readOnly={false}
               />
+
+              <Divider sx={{ my: 2 }} />
+
+              <SubmissionFilesManager
+                submission={selectedSubmission}
+                readOnly={!hasEditRights(selectedSubmission)}
+              />
             </Box>
           )}
         </DialogContent>
@@ -464,20 +817,30 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
                 title: selectedSubmission.title,
                 abstract: selectedSubmission.abstract,
                 keywords: selectedSubmission.keywords,
-                sessionType: selectedSubmission.sessionType,
-                presentationType: selectedSubmission.presentationType,
+                sessionType: selectedSubmission.sessionType || undefined,
+                presentationType: selectedSubmission.presentationType || undefined,
                 authors: selectedSubmission.authors.map(a => ({
                   name: a.name,
                   affiliation: a.affiliation,
                   email: a.email,
                   isCorresponding: a.isCorresponding,
-                  authorOrder: a.authorOrder
+                  authorOrder: a.authorOrder,
+                  orcid: a.orcid || '',
+                  organizationId: a.organizationId || null,
+                  institution: a.organizationName || a.institution || a.affiliation,
+                  department: a.department || '',
+                  city: a.city || '',
+                  country: a.country || ''
                 })),
-                correspondingAuthor: selectedSubmission.correspondingAuthor
+                correspondingAuthor: selectedSubmission.correspondingAuthor,
+                conflicts: selectedSubmission.conflicts,
+                abstractReferences: selectedSubmission.abstractReferences
               }}
-              isEditing={true}
+              isEditing={selectedSubmission.status !== 'draft'}
               submissionId={selectedSubmission.id}
-              onSubmissionCreated={handleSubmissionUpdated}
+              draftId={selectedSubmission.status === 'draft' ? selectedSubmission.id : undefined}
+              onDraftSaved={upsertSubmission}
+              onSubmissionCreated={selectedSubmission.status === 'draft' ? handleSubmissionCreated : handleSubmissionUpdated}
               onCancel={() => setEditDialogOpen(false)}
             />
           )}
@@ -488,18 +851,60 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
       <Dialog open={createDialogOpen} onClose={() => setCreateDialogOpen(false)} maxWidth="lg" fullWidth>
         <DialogContent sx={{ p: 0 }}>
           <SubmissionForm
+            onDraftSaved={upsertSubmission}
             onSubmissionCreated={handleSubmissionCreated}
             onCancel={() => setCreateDialogOpen(false)}
           />
         </DialogContent>
       </Dialog>
 
+      {/* Revision Dialog */}
+      <RevisionDialog
+        open={revisionDialogOpen}
+        submission={selectedSubmission}
+        onClose={() => setRevisionDialogOpen(false)}
+        onRevisionSubmitted={handleRevisionSubmitted}
+      />
+
+      {/* Withdraw Dialog */}
+      <Dialog open={withdrawDialogOpen} onClose={() => setWithdrawDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Withdraw Submission</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            Withdraw "{selectedSubmission?.title}" from the conference?
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Reviewers are notified and the abstract will not appear in the program. Once review has started an administrator has to confirm the withdrawal.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Reason"
+            value={withdrawReason}
+            onChange={(e) => setWithdrawReason(e.target.value)}
+            helperText="At least 10 characters"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setWithdrawDialogOpen(false)}>Cancel</Button>
+          <Button
+            onClick={confirmWithdraw}
+            color="error"
+            variant="contained"
+            disabled={withdrawReason.trim().length < 10}
+          >
+            Withdraw
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
         <DialogTitle>Confirm Deletion</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete the submission "{selectedSubmission?.title}"?
+            Are you sure you want to delete the draft "{selectedSubmission?.title}"?
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
             This action cannot be undone.
@@ -512,6 +917,22 @@ const SubmissionDashboard: React.FC<SubmissionDashboardProps> = ({ onCreateSubmi
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Presentation Type Proposal Dialog */}
+      <PresentationProposalDialog
+        open={proposalDialogOpen}
+        submissionId={selectedSubmission?.id || null}
+        onClose={() => setProposalDialogOpen(false)}
+        onResponded={(proposal, message) => {
+          setProposalDialogOpen(false);
+          setPresentationProposal(proposal);
+          if (proposal.status === 'accepted') {
+            setSelectedSubmission(prev => prev ? { ...prev, presentationType: proposal.proposedType } : prev);
+          }
+          setNotice(message);
+          loadSubmissions();
+        }}
+      />
     </Box>
   );
 };
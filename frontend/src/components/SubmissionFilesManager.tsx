@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  IconButton,
+  Alert,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Tooltip
+} from '@mui/material';
+import { CloudUpload, Delete, Download } from '@mui/icons-material';
+import {
+  SubmissionResponse,
+  SubmissionFile,
+  SubmissionFileSlot,
+  SubmissionFileSlotRule,
+  FileVisibility,
+  FILE_VISIBILITY_LABELS
+} from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+
+interface SubmissionFilesManagerProps {
+  submission: SubmissionResponse;
+  readOnly?: boolean;
+}
+
+const SLOT_ORDER: SubmissionFileSlot[] = ['poster', 'slides', 'supplementary'];
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const SubmissionFilesManager: React.FC<SubmissionFilesManagerProps> = ({ submission, readOnly = false }) => {
+  const [files, setFiles] = useState<SubmissionFile[]>([]);
+  const [slots, setSlots] = useState<Partial<Record<SubmissionFileSlot, SubmissionFileSlotRule>>>({});
+  const [uploadVisibility, setUploadVisibility] = useState<Partial<Record<SubmissionFileSlot, FileVisibility>>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploadingSlot, setUploadingSlot] = useState<SubmissionFileSlot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFiles = async () => {
+    try {
+      setLoading(true);
+      const response = await submissionApi.getSubmissionFiles(submission.id);
+      if (response.success && response.data) {
+        setFiles(response.data.files);
+        setSlots(response.data.slots);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load submission files');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFiles();
+  }, [submission.id]);
+
+  const isClosed = ['withdrawn', 'rejected'].includes(submission.status);
+
+  const canUpload = (slot: SubmissionFileSlot, rule: SubmissionFileSlotRule) => {
+    if (readOnly || isClosed) return false;
+    if (rule.requiresAcceptance && submission.status !== 'accepted') return false;
+    const count = files.filter(file => file.slot === slot).length;
+    return rule.maxFiles === 1 || count < rule.maxFiles;
+  };
+
+  const handleUpload = async (slot: SubmissionFileSlot, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const rule = slots[slot];
+    if (rule && file.size > rule.maxSize) {
+      setError(`${rule.label} files may be at most ${formatSize(rule.maxSize)}`);
+      return;
+    }
+
+    try {
+      setUploadingSlot(slot);
+      setError(null);
+      await submissionApi.uploadSubmissionFile(submission.id, slot, file, {
+        visibility: uploadVisibility[slot]
+      });
+      await loadFiles();
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to upload file');
+    } finally {
+      setUploadingSlot(null);
+    }
+  };
+
+  const handleVisibilityChange = async (file: SubmissionFile, visibility: FileVisibility) => {
+    try {
+      setError(null);
+      await submissionApi.updateSubmissionFile(submission.id, file.id, { visibility });
+      setFiles(prev => prev.map(item => item.id === file.id ? { ...item, visibility } : item));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to update file');
+    }
+  };
+
+  const handleDelete = async (file: SubmissionFile) => {
+    if (!window.confirm(`Remove ${file.originalName}?`)) return;
+    try {
+      setError(null);
+      await submissionApi.deleteSubmissionFile(submission.id, file.id);
+      setFiles(prev => prev.filter(item => item.id !== file.id));
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to delete file');
+    }
+  };
+
+  const handleDownload = async (file: SubmissionFile) => {
+    try {
+      setError(null);
+      const blob = await submissionApi.downloadSubmissionFile(submission.id, file.id);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.originalName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('Failed to download file');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom>
+        Additional Files
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {SLOT_ORDER.map((slot) => {
+        const rule = slots[slot];
+        if (!rule) return null;
+        const slotFiles = files.filter(file => file.slot === slot);
+        const editable = !readOnly && !isClosed;
+
+        return (
+          <Box key={slot} sx={{ mb: 2 }}>
+            <Box display="flex" justifyContent="space-between" alignItems="center">
+              <Box>
+                <Typography variant="subtitle2">{rule.label}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {rule.extensions.join(', ')} · up to {formatSize(rule.maxSize)}
+                  {rule.maxFiles > 1 && ` · ${rule.maxFiles} files`}
+                  {rule.requiresAcceptance && submission.status !== 'accepted' && ' · available once accepted'}
+                </Typography>
+              </Box>
+              {canUpload(slot, rule) && (
+                <Box display="flex" alignItems="center" gap={1}>
+                  {rule.allowedVisibilities.length > 1 && (
+                    <TextField
+                      select
+                      size="small"
+                      label="Visible to"
+                      value={uploadVisibility[slot] || rule.defaultVisibility}
+                      onChange={(e) => setUploadVisibility(prev => ({ ...prev, [slot]: e.target.value as FileVisibility }))}
+                      sx={{ minWidth: 150 }}
+                    >
+                      {rule.allowedVisibilities.map((visibility) => (
+                        <MenuItem key={visibility} value={visibility}>{FILE_VISIBILITY_LABELS[visibility]}</MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                  <Button
+                    component="label"
+                    size="small"
+                    variant="outlined"
+                    startIcon={uploadingSlot === slot ? <CircularProgress size={16} /> : <CloudUpload />}
+                    disabled={uploadingSlot !== null}
+                  >
+                    {rule.maxFiles === 1 && slotFiles.length > 0 ? 'Replace' : 'Upload'}
+                    <input
+                      type="file"
+                      hidden
+                      accept={rule.extensions.join(',')}
+                      onChange={(e) => handleUpload(slot, e)}
+                    />
+                  </Button>
+                </Box>
+              )}
+            </Box>
+
+            {slotFiles.length > 0 && (
+              <List dense>
+                {slotFiles.map((file) => (
+                  <ListItem
+                    key={file.id}
+                    secondaryAction={
+                      <Box display="flex" alignItems="center" gap={1}>
+                        {editable && rule.allowedVisibilities.length > 1 ? (
+                          <TextField
+                            select
+                            size="small"
+                            value={file.visibility}
+                            onChange={(e) => handleVisibilityChange(file, e.target.value as FileVisibility)}
+                            sx={{ minWidth: 150 }}
+                          >
+                            {rule.allowedVisibilities.map((visibility) => (
+                              <MenuItem key={visibility} value={visibility}>{FILE_VISIBILITY_LABELS[visibility]}</MenuItem>
+                            ))}
+                          </TextField>
+                        ) : (
+                          <Chip size="small" label={FILE_VISIBILITY_LABELS[file.visibility]} />
+                        )}
+                        <Tooltip title="Download">
+                          <IconButton size="small" onClick={() => handleDownload(file)}>
+                            <Download />
+                          </IconButton>
+                        </Tooltip>
+                        {editable && (
+                          <Tooltip title="Remove">
+                            <IconButton size="small" color="error" onClick={() => handleDelete(file)}>
+                              <Delete />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
+                    }
+                  >
+                    <ListItemText
+                      primary={file.originalName}
+                      secondary={`${formatSize(file.fileSize)} · ${new Date(file.createdAt).toLocaleDateString()}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default SubmissionFilesManager;
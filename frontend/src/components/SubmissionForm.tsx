@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -23,7 +23,8 @@ import {
   Dialog,
   DialogTitle,
   DialogContent,
-  DialogActions
+  DialogActions,
+  Autocomplete
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -38,16 +39,34 @@ import * as yup from 'yup';
 import MarkdownEditor from './MarkdownEditor';
 import { 
   CreateSubmissionRequest, 
-  SessionType, 
+  SubmissionResponse,
   PresentationType, 
-  SESSION_INFO, 
   PRESENTATION_TYPE_INFO 
 } from '../types/submission';
+import { Organization } from '../types/organization';
 import { submissionApi } from '../services/submissionApi';
-import { validateAbstractMarkdown } from '../utils/markdown';
+import { organizationApi } from '../services/organizationApi';
+import { sessionPolicyApi } from '../services/sessionPolicyApi';
+import { conferenceApi } from '../services/conferenceApi';
+import { useTracks } from '../hooks/useTracks';
+import { SessionPolicy, ReviewMode } from '../types/conference';
+import { validateAbstractMarkdown, countAbstractWords } from '../utils/markdown';
+import { normalizeOrcid, checkSessionPolicy, DEFAULT_SESSION_POLICY } from '../utils/validation';
+import { MAX_ABSTRACT_REFERENCES } from '../utils/abstractReferences';
+import { findAuthorNamesInText } from '../utils/blindReview';
 
 const steps = ['Basic Information', 'Abstract Content', 'Authors & Review'];
 
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+// Single affiliation line printed in the abstract book
+const formatAffiliation = (parts: { institution?: string; department?: string; city?: string; country?: string }) => {
+  return [parts.department, parts.institution, parts.city, parts.country]
+    .map(part => part?.trim())
+    .filter(part => !!part)
+    .join(', ');
+};
+
 const validationSchema = yup.object({
   title: yup.string()
     .min(10, 'Title must be at least 10 characters')
@@ -61,8 +80,8 @@ const validationSchema = yup.object({
     .of(yup.string().min(2, 'Keywords must be at least 2 characters'))
     .min(3, 'At least 3 keywords are required')
     .max(10, 'Maximum 10 keywords allowed'),
+  // Track codes come from the conference catalogue; the server rejects closed tracks
   sessionType: yup.string()
-    .oneOf(['CHE', 'CSE', 'BIO', 'MST', 'PFD'], 'Invalid session type')
     .required('Session type is required'),
   presentationType: yup.string()
     .oneOf(['oral', 'poster'], 'Invalid presentation type')
@@ -70,8 +89,10 @@ const validationSchema = yup.object({
   authors: yup.array()
     .of(yup.object({
       name: yup.string().min(2, 'Name must be at least 2 characters').required('Name is required'),
-      affiliation: yup.string().min(2, 'Affiliation is required').required('Affiliation is required'),
+      affiliation: yup.string().min(2, 'Institution is required').required('Institution is required'),
       email: yup.string().email('Invalid email').required('Email is required'),
+      orcid: yup.string()
+        .test('orcid', 'Invalid ORCID iD, e.g. 0000-0002-1825-0097', value => !value || !!normalizeOrcid(value)),
       isCorresponding: yup.boolean().required(),
       authorOrder: yup.number().min(1).required()
     }))
@@ -86,6 +107,8 @@ interface SubmissionFormProps {
   initialData?: Partial<CreateSubmissionRequest>;
   isEditing?: boolean;
   submissionId?: string;
+  draftId?: string;
+  onDraftSaved?: (draft: SubmissionResponse) => void;
 }
 
 const SubmissionForm: React.FC<SubmissionFormProps> = ({
@@ -93,7 +116,9 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
   onCancel,
   initialData,
   isEditing = false,
-  submissionId
+  submissionId,
+  draftId,
+  onDraftSaved
 }) => {
   const [activeStep, setActiveStep] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -105,6 +130,15 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
     warnings: string[];
   } | null>(null);
   const [previewOpen, setPreviewOpen] = useState(false);
+  const [currentDraftId, setCurrentDraftId] = useState<string | undefined>(draftId);
+  const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const lastSavedSnapshot = useRef<string | null>(null);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [sessionPolicies, setSessionPolicies] = useState<SessionPolicy[]>([]);
+  const [reviewMode, setReviewMode] = useState<ReviewMode | undefined>();
+  const { tracks, getTrack } = useTracks();
 
   const {
     control,
@@ -119,16 +153,24 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
       title: initialData?.title || '',
       abstract: initialData?.abstract || '',
       keywords: initialData?.keywords || [],
-      sessionType: initialData?.sessionType || 'CHE',
+      sessionType: initialData?.sessionType || '',
       presentationType: initialData?.presentationType || 'oral',
       authors: initialData?.authors || [{
         name: '',
         affiliation: '',
         email: '',
         isCorresponding: true,
-        authorOrder: 1
+        authorOrder: 1,
+        orcid: '',
+        organizationId: null,
+        institution: '',
+        department: '',
+        city: '',
+        country: ''
       }],
-      correspondingAuthor: initialData?.correspondingAuthor || ''
+      correspondingAuthor: initialData?.correspondingAuthor || '',
+      conflicts: initialData?.conflicts || { people: [], institutions: [], emailDomains: [] },
+      abstractReferences: initialData?.abstractReferences || []
     },
     mode: 'onChange'
   });
@@ -138,9 +180,40 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
     name: 'authors'
   });
 
+  const { fields: conflictPeopleFields, append: appendConflictPerson, remove: removeConflictPerson } = useFieldArray({
+    control,
+    name: 'conflicts.people'
+  });
+
+  const { fields: referenceFields, append: appendReference, remove: removeReference } = useFieldArray({
+    control,
+    name: 'abstractReferences'
+  });
+
   const watchedAbstract = watch('abstract');
   const watchedAuthors = watch('authors');
   const watchedSessionType = watch('sessionType');
+  const watchedKeywords = watch('keywords');
+  const watchedPresentationType = watch('presentationType');
+
+  // Open tracks, plus a closed one an existing draft or submission is already filed under
+  const selectableTracks = tracks.filter(track => track.isActive || track.code === initialData?.sessionType);
+  const selectedTrack = getTrack(watchedSessionType);
+
+  const sessionPolicy = sessionPolicies.find(policy => policy.sessionType === watchedSessionType)
+    || DEFAULT_SESSION_POLICY;
+  const policyViolations = useMemo(() => checkSessionPolicy(watchedSessionType, sessionPolicy, {
+    abstractWords: watchedAbstract ? countAbstractWords(watchedAbstract) : undefined,
+    keywords: watchedKeywords.length > 0 ? watchedKeywords : undefined,
+    presentationType: watchedPresentationType
+  }), [watchedSessionType, sessionPolicy, watchedAbstract, watchedKeywords, watchedPresentationType]);
+
+  // Under double-blind review the abstract must not give the authors away
+  const namesInAbstract = useMemo(() => (
+    reviewMode === 'double_blind'
+      ? findAuthorNamesInText(watchedAbstract, watchedAuthors.map(author => author.name))
+      : []
+  ), [reviewMode, watchedAbstract, watchedAuthors]);
 
   // Validate abstract when it changes
   useEffect(() => {
@@ -152,6 +225,33 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
     }
   }, [watchedAbstract]);
 
+  // Load the curated organization list for the affiliation picker
+  useEffect(() => {
+    searchOrganizations();
+  }, []);
+
+  // Per-session limits; the global limits apply until they load
+  useEffect(() => {
+    sessionPolicyApi.getSessionPolicies()
+      .then(setSessionPolicies)
+      .catch(error => console.error('Failed to load session policies:', error));
+  }, []);
+
+  useEffect(() => {
+    conferenceApi.getActiveConference()
+      .then(conference => setReviewMode(conference.reviewMode))
+      .catch(error => console.error('Failed to load the review mode:', error));
+  }, []);
+
+  const searchOrganizations = async (search?: string) => {
+    try {
+      setOrganizations(await organizationApi.getOrganizations(search));
+    } catch (error) {
+      // Free-text affiliations still work without the list
+      console.error('Failed to load organizations:', error);
+    }
+  };
+
   // Update corresponding author options when authors change
   useEffect(() => {
     const correspondingAuthors = watchedAuthors.filter(author => author.isCorresponding);
@@ -160,6 +260,55 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
     }
   }, [watchedAuthors, setValue]);
 
+  // Remember the initial values so an untouched form is never saved as a draft
+  useEffect(() => {
+    lastSavedSnapshot.current = JSON.stringify(getValues());
+  }, []);
+
+  // Periodically autosave new submissions as drafts
+  useEffect(() => {
+    if (isEditing) return;
+
+    const timer = setInterval(() => {
+      saveDraft();
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isEditing, currentDraftId]);
+
+  const saveDraft = async (): Promise<string | undefined> => {
+    const values = getValues();
+    const snapshot = JSON.stringify(values);
+    if (snapshot === lastSavedSnapshot.current) {
+      return currentDraftId;
+    }
+
+    setIsSavingDraft(true);
+    setDraftError(null);
+
+    try {
+      const response = currentDraftId
+        ? await submissionApi.saveDraft(currentDraftId, values)
+        : await submissionApi.createDraft(values);
+
+      if (response.success && response.data) {
+        lastSavedSnapshot.current = snapshot;
+        setCurrentDraftId(response.data.id);
+        setLastSavedAt(new Date());
+        onDraftSaved?.(response.data);
+        return response.data.id;
+      }
+
+      setDraftError(response.error?.message || 'Failed to save draft');
+    } catch (error: any) {
+      setDraftError(error.response?.data?.error?.message || 'Failed to save draft');
+    } finally {
+      setIsSavingDraft(false);
+    }
+
+    return undefined;
+  };
+
   const handleNext = () => {
     setActiveStep((prevStep) => prevStep + 1);
   };
@@ -171,7 +320,7 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
   const handleAddKeyword = () => {
     if (keywordInput.trim() && keywordInput.length >= 2) {
       const currentKeywords = getValues('keywords');
-      if (currentKeywords.length < 10 && !currentKeywords.includes(keywordInput.trim())) {
+      if (currentKeywords.length < sessionPolicy.maxKeywords && !currentKeywords.includes(keywordInput.trim())) {
         setValue('keywords', [...currentKeywords, keywordInput.trim()]);
         setKeywordInput('');
       }
@@ -190,10 +339,39 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
       affiliation: '',
       email: '',
       isCorresponding: false,
-      authorOrder: currentAuthors.length + 1
+      authorOrder: currentAuthors.length + 1,
+      orcid: '',
+      organizationId: null,
+      institution: '',
+      department: '',
+      city: '',
+      country: ''
     });
   };
 
+  // Keep the printed affiliation line in step with the structured fields
+  const syncAffiliation = (index: number) => {
+    const author = getValues(`authors.${index}`);
+    setValue(`authors.${index}.affiliation`, formatAffiliation(author), { shouldValidate: true });
+  };
+
+  const handleInstitutionChange = (index: number, value: string | Organization | null) => {
+    if (value && typeof value !== 'string') {
+      setValue(`authors.${index}.organizationId`, value.id);
+      setValue(`authors.${index}.institution`, value.name);
+      if (!getValues(`authors.${index}.city`) && value.city) {
+        setValue(`authors.${index}.city`, value.city);
+      }
+      if (!getValues(`authors.${index}.country`) && value.country) {
+        setValue(`authors.${index}.country`, value.country);
+      }
+    } else {
+      setValue(`authors.${index}.organizationId`, null);
+      setValue(`authors.${index}.institution`, value || '');
+    }
+    syncAffiliation(index);
+  };
+
   const handleRemoveAuthor = (index: number) => {
     if (authorFields.length > 1) {
       removeAuthor(index);
@@ -206,6 +384,11 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
   };
 
   const onSubmit = async (data: CreateSubmissionRequest) => {
+    if (policyViolations.length > 0) {
+      setSubmitError(policyViolations.join('; '));
+      return;
+    }
+
     setIsSubmitting(true);
     setSubmitError(null);
 
@@ -214,7 +397,13 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
       if (isEditing && submissionId) {
         response = await submissionApi.updateSubmission(submissionId, data);
       } else {
-        response = await submissionApi.createSubmission(data);
+        // Save the latest edits, then finalize the draft
+        const id = await saveDraft();
+        if (!id) {
+          setSubmitError('Failed to save draft before submitting');
+          return;
+        }
+        response = await submissionApi.finalizeSubmission(id);
       }
 
       if (response.success && response.data) {
@@ -259,14 +448,14 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                     <FormControl fullWidth error={!!errors.sessionType}>
                       <InputLabel>Conference Session</InputLabel>
                       <Select {...field} label="Conference Session">
-                        {Object.entries(SESSION_INFO).map(([key, info]) => (
-                          <MenuItem key={key} value={key}>
+                        {selectableTracks.map((track) => (
+                          <MenuItem key={track.code} value={track.code}>
                             <Box>
                               <Typography variant="body2" fontWeight="bold">
-                                {key} - {info.name}
+                                {track.code} - {track.name}
                               </Typography>
                               <Typography variant="caption" color="text.secondary">
-                                {info.description}
+                                {track.description}
                               </Typography>
                             </Box>
                           </MenuItem>
@@ -289,7 +478,11 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                       <InputLabel>Presentation Type</InputLabel>
                       <Select {...field} label="Presentation Type">
                         {Object.entries(PRESENTATION_TYPE_INFO).map(([key, info]) => (
-                          <MenuItem key={key} value={key}>
+                          <MenuItem
+                            key={key}
+                            value={key}
+                            disabled={!sessionPolicy.allowedPresentationTypes.includes(key as PresentationType)}
+                          >
                             <Box>
                               <Typography variant="body2" fontWeight="bold">
                                 {info.name}
@@ -310,14 +503,27 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
               </Grid>
             </Grid>
 
-            {watchedSessionType && (
+            {selectedTrack && (
               <Card sx={{ mt: 2, bgcolor: 'info.light', color: 'info.contrastText' }}>
                 <CardContent>
                   <Typography variant="h6" gutterBottom>
-                    {SESSION_INFO[watchedSessionType as SessionType].name}
+                    {selectedTrack.name}
                   </Typography>
-                  <Typography variant="body2">
-                    {SESSION_INFO[watchedSessionType as SessionType].guidelines}
+                  {selectedTrack.guidelines && (
+                    <Typography variant="body2">
+                      {selectedTrack.guidelines}
+                    </Typography>
+                  )}
+                  {selectedTrack.chairs.length > 0 && (
+                    <Typography variant="body2" sx={{ mt: 1 }}>
+                      Track chairs: {selectedTrack.chairs.map(chair => chair.name).join(', ')}
+                    </Typography>
+                  )}
+                  <Typography variant="body2" sx={{ mt: 1 }}>
+                    Abstracts up to {sessionPolicy.maxAbstractWords} words
+                    {sessionPolicy.minAbstractWords > 0 && ` (at least ${sessionPolicy.minAbstractWords})`},
+                    {' '}{sessionPolicy.minKeywords}-{sessionPolicy.maxKeywords} keywords,
+                    {' '}{sessionPolicy.allowedPresentationTypes.join(' or ')} presentations.
                   </Typography>
                 </CardContent>
               </Card>
@@ -353,7 +559,7 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                   onClick={handleAddKeyword}
                   variant="outlined"
                   startIcon={<AddIcon />}
-                  disabled={!keywordInput.trim() || getValues('keywords').length >= 10}
+                  disabled={!keywordInput.trim() || getValues('keywords').length >= sessionPolicy.maxKeywords}
                 >
                   Add
                 </Button>
@@ -362,7 +568,7 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                 <FormHelperText error>{errors.keywords.message}</FormHelperText>
               )}
               <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                Add 3-10 keywords that describe your research. Press Enter or click Add.
+                Add {sessionPolicy.minKeywords}-{sessionPolicy.maxKeywords} keywords that describe your research. Press Enter or click Add.
               </Typography>
             </Box>
           </Box>
@@ -410,6 +616,107 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                 )}
               </Box>
             )}
+
+            {namesInAbstract.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                This conference uses double-blind review, but the abstract mentions{' '}
+                {namesInAbstract.join(', ')}. Reviewers will see the abstract as written, so remove
+                or anonymize author names (e.g. "our previous work" instead of a self-citation).
+              </Alert>
+            )}
+
+            <Divider sx={{ my: 3 }} />
+
+            <Typography variant="h6" gutterBottom>References</Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Optional, up to {MAX_ABSTRACT_REFERENCES} references. They are printed as a numbered list under the abstract
+              and do not count towards the word limit. A figure can be added from the submission view once the abstract is saved.
+            </Typography>
+
+            {referenceFields.map((field, index) => (
+              <Card key={field.id} variant="outlined" sx={{ mb: 2, p: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="subtitle2">[{index + 1}]</Typography>
+                  <IconButton onClick={() => removeReference(index)} color="error" size="small">
+                    <DeleteIcon />
+                  </IconButton>
+                </Box>
+                <Grid container spacing={2}>
+                  <Grid item xs={12}>
+                    <Controller
+                      name={`abstractReferences.${index}.authors`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} fullWidth size="small" label="Authors" placeholder="Smith, J.; Doe, A." />
+                      )}
+                    />
+                  </Grid>
+                  <Grid item xs={12}>
+                    <Controller
+                      name={`abstractReferences.${index}.title`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} fullWidth size="small" label="Title" />
+                      )}
+                    />
+                  </Grid>
+                  <Grid item xs={12} md={9}>
+                    <Controller
+                      name={`abstractReferences.${index}.source`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} value={field.value || ''} fullWidth size="small" label="Journal, proceedings or book" />
+                      )}
+                    />
+                  </Grid>
+                  <Grid item xs={12} md={3}>
+                    <Controller
+                      name={`abstractReferences.${index}.year`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                          fullWidth
+                          size="small"
+                          type="number"
+                          label="Year"
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Controller
+                      name={`abstractReferences.${index}.doi`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} value={field.value || ''} fullWidth size="small" label="DOI" placeholder="10.1000/xyz123" />
+                      )}
+                    />
+                  </Grid>
+                  <Grid item xs={12} md={6}>
+                    <Controller
+                      name={`abstractReferences.${index}.url`}
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} value={field.value || ''} fullWidth size="small" label="URL (if no DOI)" />
+                      )}
+                    />
+                  </Grid>
+                </Grid>
+              </Card>
+            ))}
+
+            <Button
+              onClick={() => appendReference({ authors: '', title: '', source: '', year: null, doi: '', url: '' })}
+              variant="outlined"
+              size="small"
+              startIcon={<AddIcon />}
+              disabled={referenceFields.length >= MAX_ABSTRACT_REFERENCES}
+            >
+              Add Reference
+            </Button>
           </Box>
         );
 
@@ -467,22 +774,88 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                     />
                   </Grid>
 
-                  <Grid item xs={12}>
+                  <Grid item xs={12} md={6}>
                     <Controller
-                      name={`authors.${index}.affiliation`}
+                      name={`authors.${index}.orcid`}
                       control={control}
                       render={({ field }) => (
                         <TextField
                           {...field}
+                          value={field.value || ''}
                           fullWidth
-                          label="Affiliation"
-                          error={!!errors.authors?.[index]?.affiliation}
-                          helperText={errors.authors?.[index]?.affiliation?.message}
+                          label="ORCID iD (optional)"
+                          placeholder="0000-0000-0000-0000"
+                          error={!!errors.authors?.[index]?.orcid}
+                          helperText={errors.authors?.[index]?.orcid?.message}
+                        />
+                      )}
+                    />
+                  </Grid>
+
+                  <Grid item xs={12} md={6}>
+                    <Controller
+                      name={`authors.${index}.institution`}
+                      control={control}
+                      render={({ field }) => (
+                        <Autocomplete
+                          freeSolo
+                          options={organizations}
+                          getOptionLabel={(option) => typeof option === 'string' ? option : option.name}
+                          renderOption={(props, option) => (
+                            <li {...props} key={option.id}>
+                              {option.name}{option.shortName ? ` (${option.shortName})` : ''}
+                            </li>
+                          )}
+                          inputValue={field.value || ''}
+                          onInputChange={(_, value, reason) => {
+                            if (reason === 'input') {
+                              handleInstitutionChange(index, value);
+                              if (value.length >= 2) searchOrganizations(value);
+                            }
+                          }}
+                          onChange={(_, value) => handleInstitutionChange(index, value)}
+                          renderInput={(params) => (
+                            <TextField
+                              {...params}
+                              label="Institution"
+                              error={!!errors.authors?.[index]?.affiliation}
+                              helperText={errors.authors?.[index]?.affiliation?.message || 'Pick from the list when your institution appears'}
+                            />
+                          )}
                         />
                       )}
                     />
                   </Grid>
 
+                  {(['department', 'city', 'country'] as const).map((part) => (
+                    <Grid item xs={12} md={4} key={part}>
+                      <Controller
+                        name={`authors.${index}.${part}`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            value={field.value || ''}
+                            onChange={(e) => {
+                              field.onChange(e.target.value);
+                              syncAffiliation(index);
+                            }}
+                            fullWidth
+                            label={part.charAt(0).toUpperCase() + part.slice(1)}
+                          />
+                        )}
+                      />
+                    </Grid>
+                  ))}
+
+                  {watchedAuthors[index]?.affiliation && (
+                    <Grid item xs={12}>
+                      <Typography variant="caption" color="text.secondary">
+                        Printed as: {watchedAuthors[index].affiliation}
+                      </Typography>
+                    </Grid>
+                  )}
+
                   <Grid item xs={12}>
                     <Controller
                       name={`authors.${index}.isCorresponding`}
@@ -539,6 +912,97 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
                 </FormControl>
               )}
             />
+
+            <Divider sx={{ my: 3 }} />
+
+            <Typography variant="h6" gutterBottom>Conflicts of Interest</Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Reviewers matching these people, institutions or email domains will not be assigned to your submission.
+              This list is only visible to you, your co-authors and the program committee.
+            </Typography>
+
+            {conflictPeopleFields.map((field, index) => (
+              <Grid container spacing={2} key={field.id} sx={{ mb: 1 }} alignItems="center">
+                <Grid item xs={12} md={5}>
+                  <Controller
+                    name={`conflicts.people.${index}.name`}
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} fullWidth size="small" label="Name" />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={10} md={6}>
+                  <Controller
+                    name={`conflicts.people.${index}.email`}
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} value={field.value || ''} fullWidth size="small" label="Email (optional)" />
+                    )}
+                  />
+                </Grid>
+                <Grid item xs={2} md={1}>
+                  <IconButton onClick={() => removeConflictPerson(index)} color="error" size="small">
+                    <DeleteIcon />
+                  </IconButton>
+                </Grid>
+              </Grid>
+            ))}
+
+            <Button
+              onClick={() => appendConflictPerson({ name: '', email: '' })}
+              variant="outlined"
+              size="small"
+              startIcon={<AddIcon />}
+              sx={{ mb: 2 }}
+            >
+              Add Person
+            </Button>
+
+            <Controller
+              name="conflicts.institutions"
+              control={control}
+              render={({ field }) => (
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  options={organizations.map(organization => organization.name)}
+                  value={field.value || []}
+                  onChange={(_, value) => field.onChange(value)}
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="Institutions"
+                      helperText="Press Enter after each institution"
+                      margin="normal"
+                    />
+                  )}
+                />
+              )}
+            />
+
+            <Controller
+              name="conflicts.emailDomains"
+              control={control}
+              render={({ field }) => (
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  options={[]}
+                  value={field.value || []}
+                  onChange={(_, value) => field.onChange(value)}
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="Email domains"
+                      placeholder="example.org"
+                      helperText="Subdomains are included, e.g. example.org also covers chem.example.org"
+                      margin="normal"
+                    />
+                  )}
+                />
+              )}
+            />
           </Box>
         );
 
@@ -567,9 +1031,25 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
         </Alert>
       )}
 
+      {draftError && (
+        <Alert severity="warning" sx={{ mb: 3 }} onClose={() => setDraftError(null)}>
+          {draftError}
+        </Alert>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit)}>
         {renderStepContent(activeStep)}
 
+        {policyViolations.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {policyViolations.map((violation, index) => (
+                <li key={index}>{violation}</li>
+              ))}
+            </ul>
+          </Alert>
+        )}
+
         <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 4 }}>
           <Box>
             {onCancel && (
@@ -584,7 +1064,24 @@ const SubmissionForm: React.FC<SubmissionFormProps> = ({
             )}
           </Box>
 
-          <Box>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            {!isEditing && (
+              <>
+                <Typography variant="caption" color="text.secondary" sx={{ mr: 2 }}>
+                  {isSavingDraft
+                    ? 'Saving draft...'
+                    : lastSavedAt && `Draft saved at ${lastSavedAt.toLocaleTimeString()}`}
+                </Typography>
+                <Button
+                  onClick={() => saveDraft()}
+                  startIcon={<SaveIcon />}
+                  disabled={isSavingDraft || isSubmitting}
+                  sx={{ mr: 1 }}
+                >
+                  Save Draft
+                </Button>
+              </>
+            )}
             {activeStep === steps.length - 1 ? (
               <>
                 <Button
@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  Chip,
+  Alert,
+  LinearProgress,
+  MenuItem,
+  TextField,
+  InputAdornment
+} from '@mui/material';
+import { Search } from '@mui/icons-material';
+import {
+  PresentationType,
+  SessionType,
+  SubmissionStatus,
+  SubmissionSearchFacet,
+  SubmissionSearchResult,
+  SubmissionSearchSort
+} from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+import HighlightedText from './HighlightedText';
+
+const FACET_LABELS: Record<SubmissionSearchFacet, string> = {
+  sessionType: 'Session',
+  status: 'Status',
+  presentationType: 'Presentation',
+  keywords: 'Keywords'
+};
+
+const FACET_ORDER: SubmissionSearchFacet[] = ['sessionType', 'status', 'presentationType', 'keywords'];
+
+type SelectedFacets = Record<SubmissionSearchFacet, string[]>;
+
+const emptySelection: SelectedFacets = {
+  sessionType: [],
+  status: [],
+  presentationType: [],
+  keywords: []
+};
+
+const SubmissionSearch: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [selected, setSelected] = useState<SelectedFacets>(emptySelection);
+  const [sort, setSort] = useState<SubmissionSearchSort>('relevance');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(10);
+  const [results, setResults] = useState<SubmissionSearchResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedQuery, selected, sort]);
+
+  useEffect(() => {
+    const runSearch = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await submissionApi.searchSubmissions({
+          q: debouncedQuery,
+          sessionType: selected.sessionType as SessionType[],
+          status: selected.status as SubmissionStatus[],
+          presentationType: selected.presentationType as PresentationType[],
+          keywords: selected.keywords,
+          sort,
+          page: page + 1,
+          limit: rowsPerPage
+        });
+        if (response.success && response.data) {
+          setResults(response.data);
+        }
+      } catch (err: any) {
+        setError(err.response?.data?.error?.message || 'Failed to search submissions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    runSearch();
+  }, [debouncedQuery, selected, sort, page, rowsPerPage]);
+
+  const toggleFacet = (facet: SubmissionSearchFacet, value: string) => {
+    setSelected(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(value)
+        ? prev[facet].filter(item => item !== value)
+        : [...prev[facet], value]
+    }));
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Search Submissions
+      </Typography>
+
+      <Grid container spacing={2} sx={{ mb: 2 }}>
+        <Grid item xs={12} md={9}>
+          <TextField
+            fullWidth
+            size="small"
+            placeholder='Search titles and abstracts, e.g. "density functional" -solvent'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search />
+                </InputAdornment>
+              )
+            }}
+          />
+        </Grid>
+        <Grid item xs={12} md={3}>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Sort by"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as SubmissionSearchSort)}
+          >
+            <MenuItem value="relevance">Relevance</MenuItem>
+            <MenuItem value="newest">Newest</MenuItem>
+            <MenuItem value="title">Title</MenuItem>
+          </TextField>
+        </Grid>
+      </Grid>
+
+      {results && (
+        <Box sx={{ mb: 2 }}>
+          {FACET_ORDER.map((facet) => results.facets[facet].length > 0 && (
+            <Box key={facet} display="flex" alignItems="center" flexWrap="wrap" gap={0.5} mb={1}>
+              <Typography variant="caption" color="text.secondary" sx={{ minWidth: 90 }}>
+                {FACET_LABELS[facet]}
+              </Typography>
+              {results.facets[facet].map((bucket) => (
+                <Chip
+                  key={bucket.value}
+                  size="small"
+                  label={`${bucket.value.replace(/_/g, ' ')} (${bucket.count})`}
+                  color={selected[facet].includes(bucket.value) ? 'primary' : 'default'}
+                  variant={selected[facet].includes(bucket.value) ? 'filled' : 'outlined'}
+                  onClick={() => toggleFacet(facet, bucket.value)}
+                />
+              ))}
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Submission</TableCell>
+              <TableCell>Session</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Submitted</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {results?.submissions.map((submission) => (
+              <TableRow key={submission.id}>
+                <TableCell sx={{ maxWidth: 520 }}>
+                  <Typography variant="body2" fontWeight="bold">
+                    <HighlightedText text={submission.highlights.title} />
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" component="div">
+                    <HighlightedText text={submission.highlights.abstract} />
+                  </Typography>
+                  {submission.keywords.length > 0 && (
+                    <Box display="flex" gap={0.5} mt={0.5} flexWrap="wrap">
+                      {submission.keywords.map((keyword) => (
+                        <Chip key={keyword} label={keyword} size="small" variant="outlined" />
+                      ))}
+                    </Box>
+                  )}
+                </TableCell>
+                <TableCell>{submission.sessionType}</TableCell>
+                <TableCell>
+                  <Chip label={submission.status.replace(/_/g, ' ')} size="small" />
+                </TableCell>
+                <TableCell>{submission.submissionDate ? new Date(submission.submissionDate).toLocaleDateString() : '—'}</TableCell>
+              </TableRow>
+            ))}
+            {!loading && results?.submissions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} align="center">
+                  <Typography variant="body2" color="text.secondary">No matching submissions</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {results && (
+        <TablePagination
+          component="div"
+          count={results.total}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[10, 25, 50]}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
+      )}
+    </Paper>
+  );
+};
+
+export default SubmissionSearch;
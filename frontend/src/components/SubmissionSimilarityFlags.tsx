@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  CircularProgress,
+  MenuItem,
+  TextField
+} from '@mui/material';
+import { CompareArrows, Refresh } from '@mui/icons-material';
+import {
+  adminMonitoringApi,
+  DiffSegment,
+  SimilarityDiff,
+  SimilarityFlag,
+  SimilarityFlagStatus
+} from '../services/adminMonitoringApi';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const getScoreColor = (score: number) => {
+  if (score >= 0.8) return 'error';
+  if (score >= 0.6) return 'warning';
+  return 'default';
+};
+
+// Left column shows what only the first submission has, right column what only the second has
+const DiffColumn: React.FC<{
+  segments: DiffSegment[];
+  side: 'left' | 'right';
+  variant?: 'body2' | 'subtitle1';
+}> = ({ segments, side, variant = 'body2' }) => {
+  const hidden = side === 'left' ? 'added' : 'removed';
+  const highlight = side === 'left' ? 'error.light' : 'success.light';
+
+  return (
+    <Typography variant={variant} component="div" sx={{ lineHeight: 1.8, fontWeight: variant === 'subtitle1' ? 'bold' : undefined }}>
+      {segments
+        .filter(segment => segment.type !== hidden)
+        .map((segment, index) => (
+          <Box
+            key={index}
+            component="span"
+            sx={segment.type === 'equal' ? undefined : { bgcolor: highlight, borderRadius: 0.5, px: 0.25 }}
+          >
+            {segment.text}{' '}
+          </Box>
+        ))}
+    </Typography>
+  );
+};
+
+const SubmissionSimilarityFlags: React.FC = () => {
+  const [flags, setFlags] = useState<SimilarityFlag[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<SimilarityFlagStatus | ''>('open');
+  const [loading, setLoading] = useState(true);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const [selectedFlag, setSelectedFlag] = useState<SimilarityFlag | null>(null);
+  const [diff, setDiff] = useState<SimilarityDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+
+  const loadFlags = async () => {
+    try {
+      setLoading(true);
+      const result = await adminMonitoringApi.getSimilarityFlags(statusFilter || undefined);
+      setFlags(result.flags);
+      setThreshold(result.threshold);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load similarity flags');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFlags();
+  }, [statusFilter]);
+
+  const handleScan = async () => {
+    try {
+      setScanning(true);
+      setError(null);
+      const result = await adminMonitoringApi.scanSimilarity();
+      setSuccess(`Compared ${result.compared} submission pairs, ${result.flagged} above the threshold`);
+      await loadFlags();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to scan submissions');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const openDiff = async (flag: SimilarityFlag) => {
+    setSelectedFlag(flag);
+    setDiff(null);
+    try {
+      setDiffLoading(true);
+      setDiff(await adminMonitoringApi.getSimilarityDiff(flag.submissionId, flag.similarSubmissionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare submissions');
+      setSelectedFlag(null);
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const handleReview = async (status: SimilarityFlagStatus) => {
+    if (!selectedFlag) return;
+    try {
+      await adminMonitoringApi.reviewSimilarityFlag(selectedFlag.id, status);
+      setSelectedFlag(null);
+      await loadFlags();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update similarity flag');
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6">
+            Similar Submissions
+          </Typography>
+          {threshold !== null && (
+            <Typography variant="body2" color="text.secondary">
+              Pairs whose title and abstract overlap by at least {formatPercent(threshold)}
+            </Typography>
+          )}
+        </Box>
+        <Box display="flex" gap={2} alignItems="center">
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SimilarityFlagStatus | '')}
+            sx={{ minWidth: 140 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="open">Open</MenuItem>
+            <MenuItem value="confirmed">Confirmed</MenuItem>
+            <MenuItem value="dismissed">Dismissed</MenuItem>
+          </TextField>
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={scanning ? <CircularProgress size={16} /> : <Refresh />}
+            onClick={handleScan}
+            disabled={scanning}
+          >
+            Rescan
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <TableContainer sx={{ maxHeight: 400 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Submission</TableCell>
+              <TableCell>Similar To</TableCell>
+              <TableCell align="right">Score</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Compare</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {flags.map((flag) => (
+              <TableRow key={flag.id}>
+                <TableCell>
+                  <Typography variant="body2">{flag.submission?.title}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {flag.submission?.submitterName} · {flag.submission?.sessionType}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2">{flag.similarSubmission?.title}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {flag.similarSubmission?.submitterName} · {flag.similarSubmission?.sessionType}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">
+                  <Chip label={formatPercent(flag.score)} size="small" color={getScoreColor(flag.score)} />
+                </TableCell>
+                <TableCell>
+                  <Chip label={flag.status} size="small" variant="outlined" />
+                </TableCell>
+                <TableCell align="right">
+                  <Button size="small" startIcon={<CompareArrows />} onClick={() => openDiff(flag)}>
+                    Diff
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && flags.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  <Typography variant="body2" color="text.secondary">No similar submissions flagged</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Side-by-side Diff Dialog */}
+      <Dialog open={Boolean(selectedFlag)} onClose={() => setSelectedFlag(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          Compare Submissions
+          {diff && (
+            <Typography variant="body2" color="text.secondary">
+              Overall {formatPercent(diff.scores.score)} · Title {formatPercent(diff.scores.titleScore)} · Abstract {formatPercent(diff.scores.abstractScore)}
+            </Typography>
+          )}
+        </DialogTitle>
+        <DialogContent dividers>
+          {diffLoading && (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          )}
+          {diff && selectedFlag && (
+            <Grid container spacing={3}>
+              {(['left', 'right'] as const).map((side) => {
+                const info = side === 'left' ? selectedFlag.submission : selectedFlag.similarSubmission;
+                return (
+                  <Grid item xs={12} md={6} key={side}>
+                    <Typography variant="caption" color="text.secondary">
+                      {info?.submitterName} · {info?.sessionType} · {info && new Date(info.createdAt).toLocaleDateString()}
+                    </Typography>
+                    <Box mb={1}>
+                      <DiffColumn segments={diff.titleDiff} side={side} variant="subtitle1" />
+                    </Box>
+                    <DiffColumn segments={diff.abstractDiff} side={side} />
+                  </Grid>
+                );
+              })}
+            </Grid>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedFlag(null)}>Close</Button>
+          {selectedFlag?.status !== 'open' && (
+            <Button onClick={() => handleReview('open')}>Reopen</Button>
+          )}
+          <Button color="inherit" onClick={() => handleReview('dismissed')} disabled={selectedFlag?.status === 'dismissed'}>
+            Dismiss
+          </Button>
+          <Button variant="contained" color="error" onClick={() => handleReview('confirmed')} disabled={selectedFlag?.status === 'confirmed'}>
+            Confirm Duplicate
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default SubmissionSimilarityFlags;
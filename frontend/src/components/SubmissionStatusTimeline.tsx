@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  CircularProgress
+} from '@mui/material';
+import { format } from 'date-fns';
+import { SubmissionStatus, SubmissionStatusHistoryEntry } from '../types/submission';
+import { submissionApi } from '../services/submissionApi';
+
+interface SubmissionStatusTimelineProps {
+  submissionId: string;
+  currentStatus?: SubmissionStatus;
+}
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ').toUpperCase();
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'submitted': return 'primary';
+    case 'under_review': return 'warning';
+    case 'revision_requested': return 'secondary';
+    case 'revised': return 'info';
+    case 'accepted': return 'success';
+    case 'rejected': return 'error';
+    default: return 'default';
+  }
+};
+
+const SubmissionStatusTimeline: React.FC<SubmissionStatusTimelineProps> = ({
+  submissionId,
+  currentStatus
+}) => {
+  const [history, setHistory] = useState<SubmissionStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [submissionId, currentStatus]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await submissionApi.getStatusHistory(submissionId);
+      if (response.success && response.data) {
+        setHistory(response.data.history);
+      } else {
+        setError(response.error?.message || 'Failed to load status history');
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error?.message || 'Failed to load status history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No status changes recorded yet
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {history.map((entry, index) => (
+        <Box key={entry.id} sx={{ display: 'flex' }}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', mr: 2 }}>
+            <Box
+              sx={{
+                width: 12,
+                height: 12,
+                mt: 0.75,
+                borderRadius: '50%',
+                bgcolor: index === history.length - 1 ? 'primary.main' : 'grey.400'
+              }}
+            />
+            {index < history.length - 1 && (
+              <Box sx={{ flex: 1, width: 2, bgcolor: 'grey.300', my: 0.5 }} />
+            )}
+          </Box>
+          <Box sx={{ pb: 2, flex: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+              <Chip
+                label={formatStatus(entry.toStatus)}
+                color={getStatusColor(entry.toStatus) as any}
+                size="small"
+              />
+              <Typography variant="caption" color="text.secondary">
+                {format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm')}
+                {entry.changedByName && ` • ${entry.changedByName}`}
+              </Typography>
+            </Box>
+            {entry.reason && (
+              <Typography variant="body2" sx={{ mt: 0.5 }}>
+                {entry.reason}
+              </Typography>
+            )}
+            {entry.adminNotes && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5, whiteSpace: 'pre-wrap' }}>
+                {entry.adminNotes}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default SubmissionStatusTimeline;
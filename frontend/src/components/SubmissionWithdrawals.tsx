@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  MenuItem,
+  TextField
+} from '@mui/material';
+import { SubmissionWithdrawal, WithdrawalStatus } from '../types/submission';
+import { adminMonitoringApi } from '../services/adminMonitoringApi';
+
+const getDecisionColor = (status: WithdrawalStatus) => {
+  switch (status) {
+    case 'pending': return 'warning';
+    case 'confirmed': return 'default';
+    case 'rejected': return 'info';
+    default: return 'default';
+  }
+};
+
+const SubmissionWithdrawals: React.FC = () => {
+  const [withdrawals, setWithdrawals] = useState<SubmissionWithdrawal[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WithdrawalStatus | ''>('pending');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<SubmissionWithdrawal | null>(null);
+  const [adminNotes, setAdminNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadWithdrawals = async () => {
+    try {
+      setLoading(true);
+      setWithdrawals(await adminMonitoringApi.getWithdrawals(statusFilter || undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load withdrawal requests');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWithdrawals();
+  }, [statusFilter]);
+
+  const openDecision = (withdrawal: SubmissionWithdrawal) => {
+    setSelected(withdrawal);
+    setAdminNotes('');
+  };
+
+  const handleDecision = async (decision: 'confirmed' | 'rejected') => {
+    if (!selected) return;
+    try {
+      setSaving(true);
+      await adminMonitoringApi.reviewWithdrawal(selected.id, decision, adminNotes.trim() || undefined);
+      setSelected(null);
+      await loadWithdrawals();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update withdrawal request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6">
+            Withdrawal Requests
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Withdrawals requested after review started need confirmation
+          </Typography>
+        </Box>
+        <TextField
+          select
+          size="small"
+          label="Status"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as WithdrawalStatus | '')}
+          sx={{ minWidth: 140 }}
+        >
+          <MenuItem value="">All</MenuItem>
+          <MenuItem value="pending">Pending</MenuItem>
+          <MenuItem value="confirmed">Confirmed</MenuItem>
+          <MenuItem value="rejected">Declined</MenuItem>
+        </TextField>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer sx={{ maxHeight: 400 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Submission</TableCell>
+              <TableCell>Reason</TableCell>
+              <TableCell>Requested</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {withdrawals.map((withdrawal) => (
+              <TableRow key={withdrawal.id}>
+                <TableCell>
+                  <Typography variant="body2">{withdrawal.submissionTitle}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {withdrawal.requestedByName} · was {withdrawal.submissionStatus.replace(/_/g, ' ')}
+                  </Typography>
+                </TableCell>
+                <TableCell sx={{ maxWidth: 320 }}>
+                  <Typography variant="body2">{withdrawal.reason}</Typography>
+                </TableCell>
+                <TableCell>{new Date(withdrawal.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <Chip label={withdrawal.status} size="small" color={getDecisionColor(withdrawal.status)} />
+                </TableCell>
+                <TableCell align="right">
+                  {withdrawal.status === 'pending' && (
+                    <Button size="small" onClick={() => openDecision(withdrawal)}>
+                      Decide
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {!loading && withdrawals.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} align="center">
+                  <Typography variant="body2" color="text.secondary">No withdrawal requests</Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Decision Dialog */}
+      <Dialog open={Boolean(selected)} onClose={() => setSelected(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Withdrawal Request</DialogTitle>
+        <DialogContent>
+          {selected && (
+            <Box>
+              <Typography variant="subtitle1" gutterBottom>{selected.submissionTitle}</Typography>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Requested by {selected.requestedByName} ({selected.requestedByEmail})
+              </Typography>
+              <Typography variant="body2" sx={{ my: 2, whiteSpace: 'pre-wrap' }}>
+                {selected.reason}
+              </Typography>
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Confirming closes pending review assignments and notifies the assigned reviewers. Completed reviews are kept.
+              </Alert>
+              <TextField
+                fullWidth
+                multiline
+                rows={3}
+                label="Notes for the author (optional)"
+                value={adminNotes}
+                onChange={(e) => setAdminNotes(e.target.value)}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelected(null)}>Cancel</Button>
+          <Button color="inherit" onClick={() => handleDecision('rejected')} disabled={saving}>
+            Decline
+          </Button>
+          <Button variant="contained" color="error" onClick={() => handleDecision('confirmed')} disabled={saving}>
+            Confirm Withdrawal
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default SubmissionWithdrawals;
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Track, SessionType } from '../types/conference';
+import { trackApi } from '../services/trackApi';
+
+// Colour for codes missing from the catalogue, e.g. tracks deleted since
+const UNKNOWN_TRACK_COLOR = '#757575';
+
+// The catalogue rarely changes, so one request is shared by every component on the page
+let tracksRequest: Promise<Track[]> | null = null;
+
+const loadTracks = (force = false): Promise<Track[]> => {
+  if (!tracksRequest || force) {
+    tracksRequest = trackApi.getTracks().catch((error) => {
+      tracksRequest = null;
+      throw error;
+    });
+  }
+  return tracksRequest;
+};
+
+export const useTracks = () => {
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadTracks()
+      .then((data) => {
+        if (active) setTracks(data);
+      })
+      .catch(() => {
+        if (active) setError('Failed to load conference tracks');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  // Admin screens call this after changing the catalogue
+  const refresh = useCallback(async () => {
+    const data = await loadTracks(true);
+    setTracks(data);
+    return data;
+  }, []);
+
+  const getTrack = useCallback(
+    (code?: SessionType | null) => tracks.find(track => track.code === code),
+    [tracks]
+  );
+
+  const getTrackName = useCallback(
+    (code?: SessionType | null) => (code ? getTrack(code)?.name || code : ''),
+    [getTrack]
+  );
+
+  const getTrackColor = useCallback(
+    (code?: SessionType | null) => getTrack(code)?.color || UNKNOWN_TRACK_COLOR,
+    [getTrack]
+  );
+
+  return {
+    tracks,
+    // Tracks still accepting registrations and submissions
+    openTracks: tracks.filter(track => track.isActive),
+    loading,
+    error,
+    refresh,
+    getTrack,
+    getTrackName,
+    getTrackColor,
+  };
+};
@@ -11,11 +11,23 @@ import {
   People,
   Assignment,
   Settings,
-  Analytics
+  Analytics,
+  Business,
+  Rule,
+  Gavel,
+  Category,
+  Grading
 } from '@mui/icons-material';
 import AdminUserManagement from '../components/AdminUserManagement';
 import AdminSubmissionMonitoring from '../components/AdminSubmissionMonitoring';
 import AdminSystemConfig from '../components/AdminSystemConfig';
+import AdminOrganizationManagement from '../components/AdminOrganizationManagement';
+import AdminTrackManagement from '../components/AdminTrackManagement';
+import AdminSessionPolicies from '../components/AdminSessionPolicies';
+import AdminReviewRubrics from '../components/AdminReviewRubrics';
+import AdminBulkDecisions from '../components/AdminBulkDecisions';
+import AdminEditionSwitcher from '../components/AdminEditionSwitcher';
+import { getManagedConferenceId, setManagedConferenceId } from '../services/conferenceEdition';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -52,18 +64,28 @@ function a11yProps(index: number) {
 
 const AdminDashboard: React.FC = () => {
   const [tabValue, setTabValue] = useState(0);
+  const [edition, setEdition] = useState<string | null>(getManagedConferenceId());
 
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
+  const handleEditionChange = (conferenceId: string | null) => {
+    setManagedConferenceId(conferenceId);
+    setEdition(conferenceId);
+  };
+
   return (
     <Container maxWidth="xl" sx={{ py: 4 }}>
-      <Typography variant="h3" component="h1" gutterBottom>
-        Admin Dashboard
-      </Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+        <Typography variant="h3" component="h1" gutterBottom>
+          Admin Dashboard
+        </Typography>
+        <AdminEditionSwitcher value={edition} onChange={handleEditionChange} />
+      </Box>
       
-      <Paper sx={{ width: '100%', mt: 3 }}>
+      {/* Remount the panels so they reload for the picked edition */}
+      <Paper key={edition || 'current'} sx={{ width: '100%', mt: 3 }}>
         <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
           <Tabs 
             value={tabValue} 
@@ -87,10 +109,35 @@ const AdminDashboard: React.FC = () => {
               label="System Configuration" 
               {...a11yProps(2)} 
             />
+            <Tab 
+              icon={<Business />} 
+              label="Organizations" 
+              {...a11yProps(3)} 
+            />
+            <Tab 
+              icon={<Category />} 
+              label="Tracks" 
+              {...a11yProps(4)} 
+            />
+            <Tab 
+              icon={<Rule />} 
+              label="Session Policies" 
+              {...a11yProps(5)} 
+            />
+            <Tab 
+              icon={<Grading />} 
+              label="Review Rubrics" 
+              {...a11yProps(6)} 
+            />
+            <Tab 
+              icon={<Gavel />} 
+              label="Decisions" 
+              {...a11yProps(7)} 
+            />
             <Tab 
               icon={<Analytics />} 
               label="Analytics" 
-              {...a11yProps(3)} 
+              {...a11yProps(8)} 
             />
           </Tabs>
         </Box>
@@ -108,6 +155,26 @@ const AdminDashboard: React.FC = () => {
         </TabPanel>
         
         <TabPanel value={tabValue} index={3}>
+          <AdminOrganizationManagement />
+        </TabPanel>
+        
+        <TabPanel value={tabValue} index={4}>
+          <AdminTrackManagement />
+        </TabPanel>
+        
+        <TabPanel value={tabValue} index={5}>
+          <AdminSessionPolicies />
+        </TabPanel>
+        
+        <TabPanel value={tabValue} index={6}>
+          <AdminReviewRubrics />
+        </TabPanel>
+        
+        <TabPanel value={tabValue} index={7}>
+          <AdminBulkDecisions />
+        </TabPanel>
+        
+        <TabPanel value={tabValue} index={8}>
           <Typography variant="h5" gutterBottom>
             Analytics & Reports
           </Typography>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import {
   Container,
@@ -11,6 +11,10 @@ import {
   Alert,
   CircularProgress,
   Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
 } from '@mui/material';
 import {
   Event as EventIcon,
@@ -19,19 +23,28 @@ import {
   Assignment as AssignmentIcon,
 } from '@mui/icons-material';
 import { conferenceApi } from '../services/conferenceApi';
-import { Conference } from '../types/conference';
+import { Conference, ConferenceSummary } from '../types/conference';
 import SessionSchedule from '../components/SessionSchedule';
 import RegistrationInfo from '../components/RegistrationInfo';
 import ProgramGuide from '../components/ProgramGuide';
 
 const ConferenceInfo: React.FC = () => {
+  // Past edition being browsed; null shows the current one
+  const [editionId, setEditionId] = useState<string | null>(null);
+
+  const { data: editions = [] } = useQuery<ConferenceSummary[]>({
+    queryKey: ['conferences'],
+    queryFn: conferenceApi.getConferences,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
   const {
     data: conference,
     isLoading,
     error,
   } = useQuery<Conference>({
-    queryKey: ['activeConference'],
-    queryFn: conferenceApi.getActiveConference,
+    queryKey: editionId ? ['conference', editionId] : ['activeConference'],
+    queryFn: () => editionId ? conferenceApi.getConferenceById(editionId) : conferenceApi.getActiveConference(),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
@@ -86,6 +99,30 @@ const ConferenceInfo: React.FC = () => {
 
   return (
     <Container maxWidth="lg" sx={{ py: 4 }}>
+      {editions.length > 1 && (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 260 }}>
+            <InputLabel id="conference-edition-label">Edition</InputLabel>
+            <Select
+              labelId="conference-edition-label"
+              label="Edition"
+              value={conference.id}
+              onChange={(event) => {
+                const id = event.target.value as string;
+                setEditionId(editions.find(edition => edition.id === id)?.isCurrent ? null : id);
+              }}
+            >
+              {editions.map(edition => (
+                <MenuItem key={edition.id} value={edition.id}>
+                  {edition.name}
+                  {edition.isCurrent ? ' (current)' : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+      )}
+
       {/* Conference Header */}
       <Box sx={{ mb: 4, textAlign: 'center' }}>
         <Typography variant="h2" component="h1" gutterBottom>
@@ -167,6 +204,7 @@ const ConferenceInfo: React.FC = () => {
         <Grid item xs={12}>
           <SessionSchedule 
             sessions={conference.sessions}
+            tracks={conference.tracks || []}
             conferenceId={conference.id}
           />
         </Grid>
@@ -59,6 +59,7 @@ export default function Login() {
           role: 'participant' as const,
           registrationDate: new Date(),
           isActive: true,
+          isRegistered: true,
           paymentStatus: 'not_paid' as const,
           registrationFee: 100,
           selectedSessions: ['CHE' as const],
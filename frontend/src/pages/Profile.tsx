@@ -14,6 +14,8 @@ import {
 import { Save, Edit, Cancel } from '@mui/icons-material';
 import { useAuth } from '../hooks/useAuth';
 import { useNotification } from '../hooks/useNotification';
+import { validationRules } from '../utils/validation';
+import ConferenceRegistrations from '../components/ConferenceRegistrations';
 
 export default function Profile() {
   const { user } = useAuth();
@@ -26,6 +28,7 @@ export default function Profile() {
     lastName: user?.lastName || '',
     affiliation: user?.affiliation || '',
     country: user?.country || '',
+    orcid: user?.orcid || '',
     bio: user?.bio || '',
     expertise: user?.expertise || [],
   });
@@ -38,6 +41,12 @@ export default function Profile() {
   };
 
   const handleSave = async () => {
+    const orcidError = validationRules.orcid(formData.orcid);
+    if (orcidError) {
+      showError(orcidError);
+      return;
+    }
+
     setLoading(true);
     try {
       // TODO: Implement actual API call
@@ -57,6 +66,7 @@ export default function Profile() {
       lastName: user?.lastName || '',
       affiliation: user?.affiliation || '',
       country: user?.country || '',
+      orcid: user?.orcid || '',
       bio: user?.bio || '',
       expertise: user?.expertise || [],
     });
@@ -165,6 +175,18 @@ export default function Profile() {
               variant={isEditing ? "outlined" : "filled"}
             />
           </Grid>
+          <Grid item xs={12} sm={6}>
+            <TextField
+              fullWidth
+              label="ORCID iD"
+              name="orcid"
+              value={formData.orcid}
+              onChange={handleInputChange}
+              disabled={!isEditing}
+              variant={isEditing ? "outlined" : "filled"}
+              placeholder="0000-0000-0000-0000"
+            />
+          </Grid>
           <Grid item xs={12}>
             <TextField
               fullWidth
@@ -247,6 +269,10 @@ export default function Profile() {
             ))}
           </Box>
         </Box>
+
+        <Divider sx={{ my: 3 }} />
+
+        <ConferenceRegistrations />
       </Paper>
     </Container>
   );
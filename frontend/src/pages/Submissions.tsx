@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Box,
   Container,
@@ -16,7 +17,9 @@ import {
 } from '@mui/icons-material';
 import SubmissionDashboard from '../components/SubmissionDashboard';
 import SubmissionForm from '../components/SubmissionForm';
-import { SESSION_INFO } from '../types/submission';
+import PresentationProposalDialog from '../components/PresentationProposalDialog';
+import { submissionApi } from '../services/submissionApi';
+import { useTracks } from '../hooks/useTracks';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -42,6 +45,44 @@ function TabPanel(props: TabPanelProps) {
 
 const Submissions: React.FC = () => {
   const [activeTab, setActiveTab] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [inviteResult, setInviteResult] = useState<{ severity: 'success' | 'error'; message: string } | null>(null);
+  const [dashboardKey, setDashboardKey] = useState(0);
+  const { openTracks } = useTracks();
+  const [proposalLink, setProposalLink] = useState<{ submissionId: string; decision?: 'accept' | 'decline' } | null>(null);
+
+  // Accept a co-author invitation arriving from the emailed link
+  useEffect(() => {
+    const inviteToken = searchParams.get('coauthorInvite');
+    if (!inviteToken) return;
+
+    setSearchParams({}, { replace: true });
+    submissionApi.acceptAuthorInvite(inviteToken)
+      .then((response) => {
+        if (response.success && response.data) {
+          setInviteResult({ severity: 'success', message: `"${response.data.title}" has been added to your submissions.` });
+          setDashboardKey(key => key + 1);
+        } else {
+          setInviteResult({ severity: 'error', message: response.error?.message || 'Failed to accept invitation' });
+        }
+      })
+      .catch((err: any) => {
+        setInviteResult({ severity: 'error', message: err.response?.data?.error?.message || 'Failed to accept invitation' });
+      });
+  }, [searchParams, setSearchParams]);
+
+  // Answer a presentation type proposal arriving from the emailed accept/decline link
+  useEffect(() => {
+    const submissionId = searchParams.get('presentationProposal');
+    if (!submissionId) return;
+
+    const response = searchParams.get('response');
+    setSearchParams({}, { replace: true });
+    setProposalLink({
+      submissionId,
+      decision: response === 'accept' || response === 'decline' ? response : undefined
+    });
+  }, [searchParams, setSearchParams]);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
@@ -62,6 +103,12 @@ const Submissions: React.FC = () => {
           Submit and manage your research abstracts for the International Conference
         </Typography>
 
+        {inviteResult && (
+          <Alert severity={inviteResult.severity} sx={{ mb: 3 }} onClose={() => setInviteResult(null)}>
+            {inviteResult.message}
+          </Alert>
+        )}
+
         <Paper sx={{ width: '100%' }}>
           <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
             <Tabs value={activeTab} onChange={handleTabChange} aria-label="submission tabs">
@@ -87,7 +134,7 @@ const Submissions: React.FC = () => {
           </Box>
 
           <TabPanel value={activeTab} index={0}>
-            <SubmissionDashboard onCreateSubmission={() => setActiveTab(1)} />
+            <SubmissionDashboard key={dashboardKey} onCreateSubmission={() => setActiveTab(1)} />
           </TabPanel>
 
           <TabPanel value={activeTab} index={1}>
@@ -114,20 +161,29 @@ const Submissions: React.FC = () => {
                 Conference Sessions
               </Typography>
               <Typography variant="body1" paragraph>
-                The conference is organized into five main academic sessions. Please select the most appropriate session for your research:
+                The conference is organized into {openTracks.length} academic sessions. Please select the most appropriate session for your research:
               </Typography>
 
-              {Object.entries(SESSION_INFO).map(([key, info]) => (
-                <Paper key={key} sx={{ p: 3, mb: 2 }} variant="outlined">
+              {openTracks.map((track) => (
+                <Paper key={track.code} sx={{ p: 3, mb: 2, borderLeft: 4, borderLeftColor: track.color }} variant="outlined">
                   <Typography variant="h6" gutterBottom>
-                    {key} - {info.name}
-                  </Typography>
-                  <Typography variant="body2" paragraph>
-                    {info.description}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    <strong>Guidelines:</strong> {info.guidelines}
+                    {track.code} - {track.name}
                   </Typography>
+                  {track.description && (
+                    <Typography variant="body2" paragraph>
+                      {track.description}
+                    </Typography>
+                  )}
+                  {track.guidelines && (
+                    <Typography variant="body2" color="text.secondary">
+                      <strong>Guidelines:</strong> {track.guidelines}
+                    </Typography>
+                  )}
+                  {track.chairs.length > 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                      <strong>Track chairs:</strong> {track.chairs.map(chair => chair.name).join(', ')}
+                    </Typography>
+                  )}
                 </Paper>
               ))}
 
@@ -242,6 +298,18 @@ const Submissions: React.FC = () => {
             </Box>
           </TabPanel>
         </Paper>
+
+        <PresentationProposalDialog
+          open={!!proposalLink}
+          submissionId={proposalLink?.submissionId || null}
+          initialDecision={proposalLink?.decision}
+          onClose={() => setProposalLink(null)}
+          onResponded={(_, message) => {
+            setProposalLink(null);
+            setInviteResult({ severity: 'success', message });
+            setDashboardKey(key => key + 1);
+          }}
+        />
       </Box>
     </Container>
   );
@@ -180,6 +180,22 @@ class AbstractBookApi {
     return result.data;
   }
 
+  async saveTemplate(template: AbstractBookTemplate | null): Promise<AbstractBookTemplate> {
+    const response = await fetch(`${API_BASE_URL}/abstract-book/template`, {
+      method: 'PUT',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ template })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to save template');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
   async getFilterOptions(): Promise<FilterOptions> {
     const response = await fetch(`${API_BASE_URL}/abstract-book/filters`, {
       method: 'GET',
@@ -1,3 +1,18 @@
+import {
+  DecisionBatch,
+  DecisionCandidate,
+  DecisionCriteria,
+  DecisionEmailPreview,
+  DecisionStatus,
+  PresentationProposalStatus,
+  PresentationType,
+  PresentationTypeProposal,
+  SkippedDecision,
+  SubmissionWithdrawal,
+  WithdrawalStatus
+} from '../types/submission';
+import { getConferenceHeaders } from './conferenceEdition';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 export interface SubmissionStatistics {
@@ -62,6 +77,49 @@ export interface MonitoringDashboard {
   };
 }
 
+export type SimilarityFlagStatus = 'open' | 'dismissed' | 'confirmed';
+
+export interface SimilarityFlagSubmission {
+  id: string;
+  title: string;
+  sessionType: string;
+  status: string;
+  submitterName: string;
+  createdAt: string;
+}
+
+export interface SimilarityFlag {
+  id: string;
+  submissionId: string;
+  similarSubmissionId: string;
+  score: number;
+  titleScore: number;
+  abstractScore: number;
+  status: SimilarityFlagStatus;
+  detectedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  submission?: SimilarityFlagSubmission;
+  similarSubmission?: SimilarityFlagSubmission;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SimilarityDiff {
+  left: { id: string; title: string; abstract: string };
+  right: { id: string; title: string; abstract: string };
+  scores: {
+    score: number;
+    titleScore: number;
+    abstractScore: number;
+  };
+  titleDiff: DiffSegment[];
+  abstractDiff: DiffSegment[];
+}
+
 export interface SendRemindersRequest {
   reviewerIds: string[];
   message?: string;
@@ -73,6 +131,7 @@ class AdminMonitoringApi {
     return {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
+      ...getConferenceHeaders(),
     };
   }
 
@@ -140,6 +199,227 @@ class AdminMonitoringApi {
     const result = await response.json();
     return result.data;
   }
+
+  async getSimilarityFlags(status?: SimilarityFlagStatus): Promise<{
+    flags: SimilarityFlag[];
+    threshold: number;
+  }> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/similarity${query}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch similarity flags');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async scanSimilarity(): Promise<{ compared: number; flagged: number; threshold: number }> {
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/similarity/scan`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to scan submissions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getSimilarityDiff(leftId: string, rightId: string): Promise<SimilarityDiff> {
+    const response = await fetch(
+      `${API_BASE_URL}/admin/submissions/similarity/diff?left=${leftId}&right=${rightId}`,
+      {
+        method: 'GET',
+        headers: this.getAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to compare submissions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async reviewSimilarityFlag(flagId: string, status: SimilarityFlagStatus): Promise<SimilarityFlag> {
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/similarity/${flagId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to update similarity flag');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getWithdrawals(status?: WithdrawalStatus): Promise<SubmissionWithdrawal[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/withdrawals${query}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch withdrawal requests');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async reviewWithdrawal(
+    withdrawalId: string,
+    decision: 'confirmed' | 'rejected',
+    adminNotes?: string
+  ): Promise<SubmissionWithdrawal> {
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/withdrawals/${withdrawalId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ decision, adminNotes }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to update withdrawal request');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+  async getPresentationProposals(status?: PresentationProposalStatus): Promise<PresentationTypeProposal[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/presentation-proposals${query}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch presentation type proposals');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async proposePresentationType(
+    submissionId: string,
+    proposedType: PresentationType,
+    adminNotes?: string
+  ): Promise<PresentationTypeProposal> {
+    const response = await fetch(`${API_BASE_URL}/admin/submissions/${submissionId}/presentation-proposal`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ proposedType, adminNotes }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to propose presentation type');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getDecisionCandidates(criteria: DecisionCriteria): Promise<DecisionCandidate[]> {
+    const response = await fetch(`${API_BASE_URL}/admin/decisions/candidates`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(criteria),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch decision candidates');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async getDecisionBatches(): Promise<DecisionBatch[]> {
+    const response = await fetch(`${API_BASE_URL}/admin/decisions/batches`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch decision batches');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async createDecisionBatch(data: {
+    submissionIds: string[];
+    decision: DecisionStatus;
+    adminNotes?: string;
+    criteria?: DecisionCriteria;
+  }): Promise<{ batch: DecisionBatch; skipped: SkippedDecision[] }> {
+    const response = await fetch(`${API_BASE_URL}/admin/decisions/batches`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to apply decisions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async previewDecisionBatch(batchId: string): Promise<{ batch: DecisionBatch; emails: DecisionEmailPreview[] }> {
+    const response = await fetch(`${API_BASE_URL}/admin/decisions/batches/${batchId}/preview`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to preview decision emails');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async releaseDecisionBatch(batchId: string): Promise<{ batch: DecisionBatch; sent: number; failed: number }> {
+    const response = await fetch(`${API_BASE_URL}/admin/decisions/batches/${batchId}/release`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to release decision emails');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
 }
 
 export const adminMonitoringApi = new AdminMonitoringApi();
\ No newline at end of file
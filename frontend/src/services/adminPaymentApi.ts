@@ -1,4 +1,5 @@
 import { PaymentRecord } from '../types/payment';
+import { getConferenceHeaders } from './conferenceEdition';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -35,6 +36,7 @@ class AdminPaymentApiService {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': token ? `Bearer ${token}` : '',
+        ...getConferenceHeaders(),
         ...options.headers,
       },
     });
@@ -1,3 +1,6 @@
+import { getConferenceHeaders } from './conferenceEdition';
+import { ReviewMode } from '../types/conference';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 export interface SystemHealth {
@@ -38,6 +41,12 @@ export interface SystemHealth {
   };
 }
 
+// Sender overrides for the edition's outgoing email
+export interface EmailSettings {
+  fromName?: string;
+  replyTo?: string;
+}
+
 export interface SystemConfig {
   conference: {
     id: string;
@@ -48,6 +57,9 @@ export interface SystemConfig {
     venue: string;
     registration_deadline: string;
     submission_deadline: string;
+    submission_grace_minutes: number;
+    email_settings: EmailSettings;
+    review_mode: ReviewMode;
     created_at: string;
     updated_at: string;
   } | null;
@@ -88,6 +100,8 @@ export interface UpdateConfigRequest {
     venue?: string;
     registrationDeadline?: string;
     submissionDeadline?: string;
+    submissionGraceMinutes?: number;
+    reviewMode?: ReviewMode;
   };
   paymentInstructions?: {
     bankName?: string;
@@ -98,6 +112,7 @@ export interface UpdateConfigRequest {
     instructions?: string;
     supportContact?: string;
   };
+  emailSettings?: EmailSettings;
 }
 
 export interface BackupMetadata {
@@ -113,6 +128,33 @@ export interface BackupMetadata {
   applicationVersion: string;
 }
 
+export interface DeadlineExtension {
+  id: string;
+  conferenceId: string;
+  userId?: string;
+  submissionId?: string;
+  extendedUntil: string;
+  reason: string;
+  grantedBy: string;
+  createdAt: string;
+  userName?: string;
+  userEmail?: string;
+  submissionTitle?: string;
+}
+
+export interface DeadlineExtensionList {
+  submissionDeadline: string;
+  submissionGraceMinutes: number;
+  extensions: DeadlineExtension[];
+}
+
+export interface GrantDeadlineExtensionRequest {
+  userId?: string;
+  submissionId?: string;
+  extendedUntil: string;
+  reason: string;
+}
+
 export interface SystemLog {
   timestamp: string;
   level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
@@ -126,6 +168,7 @@ class AdminSystemApi {
     return {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
+      ...getConferenceHeaders(),
     };
   }
 
@@ -202,6 +245,49 @@ class AdminSystemApi {
     const result = await response.json();
     return result.data.logs;
   }
+
+  async getDeadlineExtensions(): Promise<DeadlineExtensionList> {
+    const response = await fetch(`${API_BASE_URL}/admin/deadlines/extensions`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to fetch deadline extensions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async grantDeadlineExtension(extension: GrantDeadlineExtensionRequest): Promise<DeadlineExtension> {
+    const response = await fetch(`${API_BASE_URL}/admin/deadlines/extensions`, {
+      method: 'POST',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify(extension),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.details?.join(', ') || error.error?.message || 'Failed to grant deadline extension');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+
+  async revokeDeadlineExtension(extensionId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/admin/deadlines/extensions/${extensionId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to revoke deadline extension');
+    }
+  }
 }
 
 export const adminSystemApi = new AdminSystemApi();
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { UserResponse, UserRole, PaymentStatus } from '../types/user';
+import { getConferenceHeaders } from './conferenceEdition';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -8,6 +9,8 @@ export interface UserFilters {
   role?: UserRole;
   participantType?: string;
   paymentStatus?: PaymentStatus;
+  // 'true' or 'false' to filter on registration for the managed edition
+  registered?: string;
   search?: string;
 }
 
@@ -23,6 +26,7 @@ export interface UserListResponse {
 
 export interface UserStatistics {
   totalUsers: number;
+  registeredUsers: number;
   roleDistribution: Record<string, number>;
   participantTypeDistribution: Record<string, number>;
   paymentStatusDistribution: Record<string, number>;
@@ -42,6 +46,7 @@ class AdminUserApi {
     return {
       'Content-Type': 'application/json',
       ...(token && { Authorization: `Bearer ${token}` }),
+      ...getConferenceHeaders(),
     };
   }
 
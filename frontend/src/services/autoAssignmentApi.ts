@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { ApiResponse } from '../types/conference';
+import {
+  AutoAssignmentProposal,
+  AutoAssignmentRequest,
+  CommitAutoAssignmentRequest,
+  CommitAutoAssignmentResult
+} from '../types/review';
+import { getConferenceHeaders } from './conferenceEdition';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token and the managed edition to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  Object.assign(config.headers, getConferenceHeaders());
+  return config;
+});
+
+export const autoAssignmentApi = {
+  // Compute reviewers for every open submission of the managed edition; nothing is stored (admin only)
+  propose: async (settings: AutoAssignmentRequest): Promise<AutoAssignmentProposal> => {
+    const response = await api.post<ApiResponse<AutoAssignmentProposal>>('/reviews/auto-assign/proposal', settings);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to compute the automatic assignment');
+    }
+    return response.data.data;
+  },
+
+  // Store the proposal as edited; pairs that are no longer valid come back as skipped (admin only)
+  commit: async (request: CommitAutoAssignmentRequest): Promise<CommitAutoAssignmentResult> => {
+    const response = await api.post<ApiResponse<CommitAutoAssignmentResult>>('/reviews/auto-assign/commit', request);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to store the reviewer assignments');
+    }
+    return response.data.data;
+  },
+};
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Conference, Session, RegistrationFee, PaymentInstructions, ApiResponse } from '../types/conference';
+import { Conference, ConferenceSummary, CloneConferenceRequest, ConferenceClonePlan, Session, RegistrationFee, PaymentInstructions, ApiResponse } from '../types/conference';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -10,7 +10,25 @@ const api = axios.create({
   },
 });
 
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 export const conferenceApi = {
+  // List every edition, newest first
+  getConferences: async (): Promise<ConferenceSummary[]> => {
+    const response = await api.get<ApiResponse<ConferenceSummary[]>>('/conference');
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch conferences');
+    }
+    return response.data.data;
+  },
+
   // Get active conference with all details
   getActiveConference: async (): Promise<Conference> => {
     const response = await api.get<ApiResponse<Conference>>('/conference/active');
@@ -29,6 +47,30 @@ export const conferenceApi = {
     return response.data.data;
   },
 
+  // Make an edition the current one (admin only)
+  activateConference: async (id: string): Promise<Conference> => {
+    const response = await api.post<ApiResponse<Conference>>(`/conference/${id}/activate`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to activate conference');
+    }
+    return response.data.data;
+  },
+
+  // Clone an edition with its dates shifted (admin only); a dry run only returns the plan
+  cloneConference: async (
+    id: string,
+    request: CloneConferenceRequest
+  ): Promise<{ plan: ConferenceClonePlan; conference?: Conference }> => {
+    const response = await api.post<ApiResponse<{ plan: ConferenceClonePlan; conference?: Conference }>>(
+      `/conference/${id}/clone`,
+      request
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to clone conference');
+    }
+    return response.data.data;
+  },
+
   // Get conference sessions
   getConferenceSessions: async (conferenceId: string): Promise<Session[]> => {
     const response = await api.get<ApiResponse<Session[]>>(`/conference/${conferenceId}/sessions`);
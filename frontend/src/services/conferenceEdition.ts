@@ -0,0 +1,20 @@
+// Edition picked in the admin dashboard. Staff requests carry it in a header;
+// without one the backend falls back to the current edition.
+export const CONFERENCE_HEADER = 'X-Conference-Id';
+
+const STORAGE_KEY = 'adminConferenceId';
+
+export const getManagedConferenceId = (): string | null => localStorage.getItem(STORAGE_KEY);
+
+export const setManagedConferenceId = (conferenceId: string | null): void => {
+  if (conferenceId) {
+    localStorage.setItem(STORAGE_KEY, conferenceId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const getConferenceHeaders = (): Record<string, string> => {
+  const conferenceId = getManagedConferenceId();
+  return conferenceId ? { [CONFERENCE_HEADER]: conferenceId } : {};
+};
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { Organization, OrganizationRequest } from '../types/organization';
+import { ApiResponse } from '../types/conference';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const organizationApi = {
+  // Search the curated organization list
+  getOrganizations: async (search?: string): Promise<Organization[]> => {
+    const response = await api.get<ApiResponse<Organization[]>>('/organizations', {
+      params: search ? { search } : undefined,
+    });
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch organizations');
+    }
+    return response.data.data;
+  },
+
+  // Create organization (admin only)
+  createOrganization: async (data: OrganizationRequest): Promise<Organization> => {
+    const response = await api.post<ApiResponse<Organization>>('/organizations', data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to create organization');
+    }
+    return response.data.data;
+  },
+
+  // Update organization (admin only)
+  updateOrganization: async (id: string, data: Partial<OrganizationRequest>): Promise<Organization> => {
+    const response = await api.put<ApiResponse<Organization>>(`/organizations/${id}`, data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to update organization');
+    }
+    return response.data.data;
+  },
+
+  // Delete organization (admin only)
+  deleteOrganization: async (id: string): Promise<void> => {
+    const response = await api.delete<ApiResponse<void>>(`/organizations/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error?.message || 'Failed to delete organization');
+    }
+  },
+};
@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { ApiResponse } from '../types/conference';
+import { ReviewRubric, SaveReviewRubricRequest } from '../types/review';
+import { getConferenceHeaders } from './conferenceEdition';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token and the managed edition to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  Object.assign(config.headers, getConferenceHeaders());
+  return config;
+});
+
+export const reviewRubricApi = {
+  // Get the review rubrics of the managed edition (admin only)
+  getRubrics: async (): Promise<ReviewRubric[]> => {
+    const response = await api.get<ApiResponse<ReviewRubric[]>>('/reviews/rubrics');
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch review rubrics');
+    }
+    return response.data.data;
+  },
+
+  // Save the conference-wide rubric or a track's rubric (admin only)
+  saveRubric: async (data: SaveReviewRubricRequest): Promise<ReviewRubric> => {
+    const response = await api.put<ApiResponse<ReviewRubric>>('/reviews/rubrics', data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to save review rubric');
+    }
+    return response.data.data;
+  },
+
+  // Delete a rubric no review was scored with (admin only)
+  deleteRubric: async (id: string): Promise<void> => {
+    await api.delete(`/reviews/rubrics/${id}`);
+  },
+};
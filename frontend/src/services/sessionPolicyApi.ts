@@ -0,0 +1,40 @@
+import axios from 'axios';
+import { ApiResponse, SessionPolicy, SessionPolicyRules, SessionType } from '../types/conference';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const sessionPolicyApi = {
+  // Get submission policies for all sessions
+  getSessionPolicies: async (): Promise<SessionPolicy[]> => {
+    const response = await api.get<ApiResponse<SessionPolicy[]>>('/sessions/policies');
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch session policies');
+    }
+    return response.data.data;
+  },
+
+  // Update a session's submission policy (admin only)
+  updateSessionPolicy: async (sessionType: SessionType, data: Partial<SessionPolicyRules>): Promise<SessionPolicy> => {
+    const response = await api.put<ApiResponse<SessionPolicy>>(`/sessions/policies/${sessionType}`, data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to update session policy');
+    }
+    return response.data.data;
+  },
+};
@@ -1,5 +1,27 @@
 import axios from 'axios';
-import { CreateSubmissionRequest, UpdateSubmissionRequest, SubmissionResponse } from '../types/submission';
+import {
+  CreateSubmissionRequest,
+  UpdateSubmissionRequest,
+  SubmissionResponse,
+  SubmissionRevision,
+  SubmitRevisionRequest,
+  RevisionType,
+  ManuscriptVersion,
+  SubmissionStatus,
+  SubmissionStatusHistoryEntry,
+  SaveDraftRequest,
+  SubmissionWithdrawal,
+  PresentationType,
+  PresentationTypeProposal,
+  SubmissionFile,
+  SubmissionFileSlot,
+  SubmissionFileSlotRule,
+  FileVisibility,
+  SubmissionSearchParams,
+  SubmissionSearchResult,
+  Author
+} from '../types/submission';
+import { getConferenceHeaders } from './conferenceEdition';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -17,6 +39,7 @@ api.interceptors.request.use((config) => {
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+  Object.assign(config.headers, getConferenceHeaders());
   return config;
 });
 
@@ -57,6 +80,24 @@ export const submissionApi = {
     return response.data;
   },
 
+  // Start a draft submission
+  async createDraft(draftData: SaveDraftRequest): Promise<ApiResponse<SubmissionResponse>> {
+    const response = await api.post('/submissions/drafts', draftData);
+    return response.data;
+  },
+
+  // Autosave an existing draft
+  async saveDraft(id: string, draftData: SaveDraftRequest): Promise<ApiResponse<SubmissionResponse>> {
+    const response = await api.put(`/submissions/${id}/draft`, draftData);
+    return response.data;
+  },
+
+  // Finalize a draft into a submitted abstract
+  async finalizeSubmission(id: string): Promise<ApiResponse<SubmissionResponse>> {
+    const response = await api.post(`/submissions/${id}/finalize`);
+    return response.data;
+  },
+
   // Get user's submissions
   async getUserSubmissions(): Promise<ApiResponse<SubmissionResponse[]>> {
     const response = await api.get('/submissions/my-submissions');
@@ -81,6 +122,37 @@ export const submissionApi = {
     return response.data;
   },
 
+  // Withdraw a submission; returns a pending request when an admin has to confirm it
+  async withdrawSubmission(id: string, reason: string): Promise<ApiResponse<{
+    withdrawal: SubmissionWithdrawal;
+    submission?: SubmissionResponse;
+  }>> {
+    const response = await api.post(`/submissions/${id}/withdraw`, { reason });
+    return response.data;
+  },
+
+  // Get the latest withdrawal request
+  async getWithdrawal(id: string): Promise<ApiResponse<SubmissionWithdrawal | null>> {
+    const response = await api.get(`/submissions/${id}/withdrawal`);
+    return response.data;
+  },
+
+  // Get the latest presentation type proposal
+  async getPresentationProposal(id: string): Promise<ApiResponse<PresentationTypeProposal | null>> {
+    const response = await api.get(`/submissions/${id}/presentation-proposal`);
+    return response.data;
+  },
+
+  // Accept or decline the committee's proposed presentation type
+  async respondToPresentationProposal(
+    id: string,
+    decision: 'accept' | 'decline',
+    comment?: string
+  ): Promise<ApiResponse<PresentationTypeProposal>> {
+    const response = await api.post(`/submissions/${id}/presentation-proposal/respond`, { decision, comment });
+    return response.data;
+  },
+
   // Get all submissions (admin/reviewer)
   async getAllSubmissions(params?: {
     page?: number;
@@ -92,9 +164,70 @@ export const submissionApi = {
     return response.data;
   },
 
+  // Full-text search with facet counts and highlighted snippets (admin/organizer/reviewer)
+  async searchSubmissions(params: SubmissionSearchParams): Promise<ApiResponse<SubmissionSearchResult>> {
+    const response = await api.get('/submissions/search', {
+      params: {
+        q: params.q || undefined,
+        sessionType: params.sessionType?.join(',') || undefined,
+        status: params.status?.join(',') || undefined,
+        presentationType: params.presentationType?.join(',') || undefined,
+        keywords: params.keywords?.join(',') || undefined,
+        sort: params.sort,
+        page: params.page,
+        limit: params.limit,
+      },
+    });
+    return response.data;
+  },
+
   // Update submission status (admin)
-  async updateSubmissionStatus(id: string, status: string, adminNotes?: string): Promise<ApiResponse<SubmissionResponse>> {
-    const response = await api.patch(`/submissions/${id}/status`, { status, adminNotes });
+  async updateSubmissionStatus(
+    id: string,
+    status: string,
+    adminNotes?: string,
+    reason?: string,
+    proposedPresentationType?: PresentationType
+  ): Promise<ApiResponse<SubmissionResponse>> {
+    const response = await api.patch(`/submissions/${id}/status`, { status, adminNotes, reason, proposedPresentationType });
+    return response.data;
+  },
+
+  // Request a revision after a review round (admin)
+  async requestRevision(id: string, revisionType: RevisionType, deadline: string, adminNotes?: string): Promise<ApiResponse<{
+    submission: SubmissionResponse;
+    revision: SubmissionRevision;
+  }>> {
+    const response = await api.post(`/submissions/${id}/revision-request`, { revisionType, deadline, adminNotes });
+    return response.data;
+  },
+
+  // Submit a revision with a response to reviewers
+  async submitRevision(id: string, revisionData: SubmitRevisionRequest): Promise<ApiResponse<{
+    submission: SubmissionResponse;
+    revision: SubmissionRevision;
+  }>> {
+    const response = await api.post(`/submissions/${id}/revisions`, revisionData);
+    return response.data;
+  },
+
+  // Get revision rounds
+  async getRevisions(id: string): Promise<ApiResponse<{
+    currentRound: number;
+    revisionDeadline?: Date | null;
+    revisions: SubmissionRevision[];
+  }>> {
+    const response = await api.get(`/submissions/${id}/revisions`);
+    return response.data;
+  },
+
+  // Get status change timeline
+  async getStatusHistory(id: string): Promise<ApiResponse<{
+    currentStatus: SubmissionStatus;
+    allowedTransitions?: SubmissionStatus[];
+    history: SubmissionStatusHistoryEntry[];
+  }>> {
+    const response = await api.get(`/submissions/${id}/history`);
     return response.data;
   },
 
@@ -132,16 +265,20 @@ export const submissionApi = {
 
   // Manuscript management methods
 
-  // Upload manuscript
-  async uploadManuscript(submissionId: string, file: File): Promise<ApiResponse<{
+  // Upload manuscript (creates a new version)
+  async uploadManuscript(submissionId: string, file: File, changeNote?: string): Promise<ApiResponse<{
     submissionId: string;
     manuscriptPath: string;
     originalName: string;
     size: number;
     uploadDate: Date;
+    version: ManuscriptVersion;
   }>> {
     const formData = new FormData();
     formData.append('manuscript', file);
+    if (changeNote) {
+      formData.append('changeNote', changeNote);
+    }
 
     const response = await api.post(`/submissions/${submissionId}/manuscript`, formData, {
       headers: {
@@ -176,5 +313,144 @@ export const submissionApi = {
   async deleteManuscript(submissionId: string): Promise<ApiResponse<void>> {
     const response = await api.delete(`/submissions/${submissionId}/manuscript`);
     return response.data;
+  },
+
+  // Get manuscript version history
+  async getManuscriptVersions(submissionId: string): Promise<ApiResponse<ManuscriptVersion[]>> {
+    const response = await api.get(`/submissions/${submissionId}/manuscript/versions`);
+    return response.data;
+  },
+
+  // Download a specific manuscript version
+  async downloadManuscriptVersion(submissionId: string, versionId: string): Promise<Blob> {
+    const response = await api.get(`/submissions/${submissionId}/manuscript/versions/${versionId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Mark a manuscript version as camera-ready
+  async markCameraReady(submissionId: string, versionId: string): Promise<ApiResponse<ManuscriptVersion>> {
+    const response = await api.patch(`/submissions/${submissionId}/manuscript/versions/${versionId}/camera-ready`);
+    return response.data;
+  },
+
+  // List supplementary files visible to the current user, with the rules of each slot
+  async getSubmissionFiles(submissionId: string): Promise<ApiResponse<{
+    files: SubmissionFile[];
+    slots: Record<SubmissionFileSlot, SubmissionFileSlotRule>;
+  }>> {
+    const response = await api.get(`/submissions/${submissionId}/files`);
+    return response.data;
+  },
+
+  // Upload a poster, slides or supplementary file
+  async uploadSubmissionFile(
+    submissionId: string,
+    slot: SubmissionFileSlot,
+    file: File,
+    options?: { visibility?: FileVisibility; description?: string }
+  ): Promise<ApiResponse<SubmissionFile>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options?.visibility) {
+      formData.append('visibility', options.visibility);
+    }
+    if (options?.description) {
+      formData.append('description', options.description);
+    }
+
+    const response = await api.post(`/submissions/${submissionId}/files/${slot}`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Change a supplementary file's visibility or description
+  async updateSubmissionFile(
+    submissionId: string,
+    fileId: string,
+    updates: { visibility?: FileVisibility; description?: string }
+  ): Promise<ApiResponse<SubmissionFile>> {
+    const response = await api.patch(`/submissions/${submissionId}/files/${fileId}`, updates);
+    return response.data;
+  },
+
+  // Remove a supplementary file
+  async deleteSubmissionFile(submissionId: string, fileId: string): Promise<ApiResponse<void>> {
+    const response = await api.delete(`/submissions/${submissionId}/files/${fileId}`);
+    return response.data;
+  },
+
+  // Download a supplementary file
+  async downloadSubmissionFile(submissionId: string, fileId: string): Promise<Blob> {
+    const response = await api.get(`/submissions/${submissionId}/files/${fileId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Fetch the abstract figure image
+  async getAbstractFigure(submissionId: string): Promise<Blob> {
+    const response = await api.get(`/submissions/${submissionId}/abstract-figure`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Upload or replace the abstract figure (PNG or JPEG) with its caption
+  async uploadAbstractFigure(submissionId: string, file: File, caption?: string): Promise<ApiResponse<{
+    abstractFigurePath: string;
+    abstractFigureMimeType: string;
+    abstractFigureCaption?: string;
+  }>> {
+    const formData = new FormData();
+    formData.append('figure', file);
+    if (caption) {
+      formData.append('caption', caption);
+    }
+
+    const response = await api.post(`/submissions/${submissionId}/abstract-figure`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Change the abstract figure caption
+  async updateAbstractFigureCaption(submissionId: string, caption: string): Promise<ApiResponse<{
+    abstractFigurePath: string;
+    abstractFigureMimeType: string;
+    abstractFigureCaption?: string;
+  }>> {
+    const response = await api.patch(`/submissions/${submissionId}/abstract-figure`, { caption });
+    return response.data;
+  },
+
+  // Remove the abstract figure
+  async deleteAbstractFigure(submissionId: string): Promise<ApiResponse<void>> {
+    const response = await api.delete(`/submissions/${submissionId}/abstract-figure`);
+    return response.data;
+  },
+
+  // Grant or revoke a co-author's edit rights
+  async setAuthorEditPermission(submissionId: string, authorId: string, canEdit: boolean): Promise<ApiResponse<Author>> {
+    const response = await api.patch(`/submissions/${submissionId}/authors/${authorId}/permissions`, { canEdit });
+    return response.data;
+  },
+
+  // Invite a co-author to link the submission to their account
+  async inviteAuthor(submissionId: string, authorId: string): Promise<ApiResponse<void>> {
+    const response = await api.post(`/submissions/${submissionId}/authors/${authorId}/invite`);
+    return response.data;
+  },
+
+  // Accept a co-author invitation from an emailed link
+  async acceptAuthorInvite(token: string): Promise<ApiResponse<{ submissionId: string; title: string }>> {
+    const response = await api.post('/submissions/author-invites/accept', { token });
+    return response.data;
   }
-};
\ No newline at end of file
+};
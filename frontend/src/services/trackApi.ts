@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { ApiResponse, Track, TrackRequest } from '../types/conference';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const trackApi = {
+  // Get the tracks of the active conference, closed ones included
+  getTracks: async (): Promise<Track[]> => {
+    const response = await api.get<ApiResponse<Track[]>>('/tracks');
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch tracks');
+    }
+    return response.data.data;
+  },
+
+  // Get every track of a conference, including closed ones (admin only)
+  getConferenceTracks: async (conferenceId: string): Promise<Track[]> => {
+    const response = await api.get<ApiResponse<Track[]>>(`/tracks/conference/${conferenceId}`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch tracks');
+    }
+    return response.data.data;
+  },
+
+  // Add a track to a conference (admin only)
+  createTrack: async (conferenceId: string, data: TrackRequest): Promise<Track> => {
+    const response = await api.post<ApiResponse<Track>>(`/tracks/conference/${conferenceId}`, data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to create track');
+    }
+    return response.data.data;
+  },
+
+  // Update a track (admin only)
+  updateTrack: async (id: string, data: Partial<TrackRequest>): Promise<Track> => {
+    const response = await api.put<ApiResponse<Track>>(`/tracks/${id}`, data);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to update track');
+    }
+    return response.data.data;
+  },
+
+  // Delete a track nothing is filed under (admin only)
+  deleteTrack: async (id: string): Promise<void> => {
+    await api.delete(`/tracks/${id}`);
+  },
+};
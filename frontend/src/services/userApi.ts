@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { ApiResponse } from '../types/conference';
+import { ConferenceRegistration, RegisterForConferenceRequest, UserResponse } from '../types/user';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+const api = axios.create({
+  baseURL: API_BASE_URL,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+// Add auth token to requests
+api.interceptors.request.use((config) => {
+  const token = localStorage.getItem('authToken');
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+export const userApi = {
+  // List the editions the current user registered for, newest first
+  getRegistrations: async (): Promise<ConferenceRegistration[]> => {
+    const response = await api.get<ApiResponse<{ registrations: ConferenceRegistration[] }>>('/users/registrations');
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to fetch registrations');
+    }
+    return response.data.data.registrations;
+  },
+
+  // Register the current user for the current edition
+  registerForConference: async (
+    data: RegisterForConferenceRequest
+  ): Promise<{ registration: ConferenceRegistration; user: UserResponse }> => {
+    const response = await api.post<ApiResponse<{ registration: ConferenceRegistration; user: UserResponse }>>(
+      '/users/registrations',
+      data
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to register for the conference');
+    }
+    return response.data.data;
+  },
+};
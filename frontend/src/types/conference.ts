@@ -1,4 +1,10 @@
-export type SessionType = 'CHE' | 'CSE' | 'BIO' | 'MST' | 'PFD';
+import { ReviewRubric } from './review';
+
+// Code of a track in the conference's track catalogue, e.g. 'CHE'
+export type SessionType = string;
+
+// Who knows whom during review: open, reviewers anonymous, or both sides anonymous
+export type ReviewMode = 'none' | 'single_blind' | 'double_blind';
 
 export type ParticipantType = 
   // Presenters/Speakers
@@ -24,6 +30,38 @@ export type ParticipantType =
   | 'sponsor'
   | 'government_representative';
 
+export interface TrackChair {
+  name: string;
+  email?: string;
+  affiliation?: string;
+}
+
+export interface Track {
+  id: string;
+  conferenceId: string;
+  code: SessionType;
+  name: string;
+  description?: string;
+  guidelines?: string;
+  color: string;
+  chairs: TrackChair[];
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface TrackRequest {
+  code: SessionType;
+  name: string;
+  description?: string;
+  guidelines?: string;
+  color?: string;
+  chairs?: TrackChair[];
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
 export interface SessionSchedule {
   id: string;
   startTime: string;
@@ -40,6 +78,20 @@ export interface Session {
   schedules: SessionSchedule[];
 }
 
+export interface SessionPolicyRules {
+  minAbstractWords: number;
+  maxAbstractWords: number;
+  minKeywords: number;
+  maxKeywords: number;
+  allowedPresentationTypes: ('oral' | 'poster')[];
+}
+
+export interface SessionPolicy extends SessionPolicyRules {
+  id: string;
+  sessionType: SessionType;
+  updatedAt: string;
+}
+
 export interface RegistrationFee {
   id: string;
   participantType: ParticipantType;
@@ -72,7 +124,11 @@ export interface Conference {
   venue: string;
   registrationDeadline: string;
   submissionDeadline: string;
+  submissionGraceMinutes?: number;
+  reviewMode?: ReviewMode;
   isActive: boolean;
+  clonedFrom?: string;
+  tracks: Track[];
   sessions: Session[];
   registrationFees: RegistrationFee[];
   paymentInstructions?: PaymentInstructions;
@@ -80,6 +136,51 @@ export interface Conference {
   updatedAt?: string;
 }
 
+export interface ConferenceSummary {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  venue: string;
+  isActive: boolean;
+  // The edition new registrations and submissions go to
+  isCurrent: boolean;
+}
+
+export interface CloneConferenceRequest {
+  name: string;
+  description?: string;
+  venue?: string;
+  // Whole days added to every date of the source edition
+  dateOffsetDays: number;
+  dryRun?: boolean;
+}
+
+// What a clone creates; the dry run returns it without writing anything
+export interface ConferenceClonePlan {
+  sourceConferenceId: string;
+  dateOffsetDays: number;
+  conference: {
+    name: string;
+    description?: string;
+    startDate: string;
+    endDate: string;
+    venue: string;
+    registrationDeadline: string;
+    submissionDeadline: string;
+    submissionGraceMinutes: number;
+    reviewMode: ReviewMode;
+    emailSettings: { fromName?: string; replyTo?: string };
+    abstractBookTemplate?: Record<string, any>;
+  };
+  tracks: Omit<Track, 'id' | 'conferenceId' | 'createdAt' | 'updatedAt'>[];
+  sessions: Array<Omit<Session, 'id' | 'schedules'> & { schedules: Omit<SessionSchedule, 'id'>[] }>;
+  registrationFees: Omit<RegistrationFee, 'id'>[];
+  sessionPolicies: Array<SessionPolicyRules & { sessionType: SessionType }>;
+  paymentInstructions: Omit<PaymentInstructions, 'id'> | null;
+  reviewRubrics: Array<Pick<ReviewRubric, 'sessionType' | 'name' | 'criteria'>>;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -0,0 +1,19 @@
+// Admin-curated institution used for structured author affiliations
+export interface Organization {
+  id: string;
+  name: string;
+  shortName?: string;
+  aliases: string[];
+  city?: string;
+  country?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface OrganizationRequest {
+  name: string;
+  shortName?: string;
+  aliases?: string[];
+  city?: string;
+  country?: string;
+}
@@ -4,6 +4,7 @@ export type PaymentRecordStatus = 'pending' | 'verified' | 'rejected';
 
 export interface PaymentRecord {
   id: string;
+  conferenceId: string;
   userId: string;
   amount: number;
   currency: string;
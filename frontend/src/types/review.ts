@@ -0,0 +1,76 @@
+import { SessionType } from './submission';
+
+export type ReviewRecommendation = 'accept' | 'reject' | 'minor_revision' | 'major_revision';
+
+export interface RubricCriterion {
+  // Stable identifier the criterion scores of reviews are stored under
+  key: string;
+  label: string;
+  description?: string;
+  weight: number;
+}
+
+export interface ReviewRubric {
+  id: string;
+  conferenceId: string;
+  // Track the rubric applies to; unset for the conference-wide rubric
+  sessionType?: SessionType;
+  name: string;
+  criteria: RubricCriterion[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SaveReviewRubricRequest {
+  sessionType?: SessionType | null;
+  name: string;
+  criteria: RubricCriterion[];
+}
+
+export interface CriterionReviewStats {
+  key: string;
+  label: string;
+  weight: number;
+  averageScore: number | null;
+  reviewCount: number;
+}
+
+// Settings of a batch assignment run over the managed edition
+export interface AutoAssignmentRequest {
+  reviewersPerPaper: number;
+  maxLoad: number;
+  // Only reviewers whose expertise lists the submission's track are proposed
+  requireSessionExpertise: boolean;
+}
+
+export interface AutoAssignmentProposalItem {
+  submissionId: string;
+  submissionTitle: string;
+  sessionType: SessionType;
+  reviewerId: string;
+  reviewerName: string;
+  // 0-1; track expertise counts 40%, text affinity of the reviewer profile 60%
+  matchQuality: number;
+  matchReason: string;
+}
+
+// What the optimizer would assign; nothing is stored until it is committed
+export interface AutoAssignmentProposal {
+  settings: AutoAssignmentRequest;
+  assignments: AutoAssignmentProposalItem[];
+  unfilled: Array<{ submissionId: string; submissionTitle: string; missing: number }>;
+  reviewerLoads: Array<{ reviewerId: string; name: string; currentLoad: number; proposedLoad: number }>;
+  totalQuality: number;
+}
+
+// The limits of the proposal are checked again when it is stored
+export interface CommitAutoAssignmentRequest {
+  reviewersPerPaper: number;
+  maxLoad: number;
+  assignments: Array<{ submissionId: string; reviewerId: string }>;
+}
+
+export interface CommitAutoAssignmentResult {
+  assigned: Array<{ id: string; submissionId: string; reviewerId: string }>;
+  skipped: Array<{ submissionId: string; reviewerId: string; reason: string }>;
+}
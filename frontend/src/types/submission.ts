@@ -1,22 +1,67 @@
-export type SessionType = 'CHE' | 'CSE' | 'BIO' | 'MST' | 'PFD';
+// Code of a track in the conference's track catalogue, e.g. 'CHE'
+export type SessionType = string;
 export type PresentationType = 'oral' | 'poster';
-export type SubmissionStatus = 'submitted' | 'under_review' | 'accepted' | 'rejected';
+export type SubmissionStatus = 'draft' | 'submitted' | 'under_review' | 'revision_requested' | 'revised' | 'accepted' | 'rejected' | 'withdrawn';
+export type RevisionType = 'minor_revision' | 'major_revision';
 
-export interface Author {
+// Structured affiliation; organizationId links an admin-curated organization
+export interface AuthorAffiliation {
+  organizationId?: string | null;
+  institution?: string;
+  department?: string;
+  city?: string;
+  country?: string;
+}
+
+export interface Author extends AuthorAffiliation {
   id?: string;
   name: string;
   affiliation: string;
   email: string;
   isCorresponding: boolean;
   authorOrder: number;
+  orcid?: string;
+  organizationName?: string;
+  userId?: string;
+  canEdit?: boolean;
+  invitedAt?: Date | null;
 }
 
-export interface CreateAuthorRequest {
+export type SubmissionAccessLevel = 'owner' | 'editor' | 'viewer';
+
+export interface CreateAuthorRequest extends AuthorAffiliation {
   name: string;
   affiliation: string;
   email: string;
   isCorresponding: boolean;
   authorOrder: number;
+  orcid?: string;
+}
+
+// People, institutions and email domains the authors do not want reviewing their submission
+export interface ConflictOfInterestDeclaration {
+  people: { name: string; email?: string }[];
+  institutions: string[];
+  emailDomains: string[];
+}
+
+// One entry of an abstract's reference list; not counted towards the abstract word limit
+export interface AbstractReference {
+  authors: string;
+  title: string;
+  // Journal, proceedings or book the work appeared in
+  source?: string;
+  year?: number | null;
+  doi?: string;
+  url?: string;
+}
+
+// One conflict that applies to a given reviewer: declared by the authors (person, institution,
+// email_domain) or detected from the author list (authorship, shared_*, coauthorship)
+export interface ConflictMatch {
+  type: 'person' | 'institution' | 'email_domain' | 'authorship' | 'shared_affiliation' | 'shared_email_domain' | 'coauthorship';
+  value: string;
+  reason: string;
 }
 
 export interface CreateSubmissionRequest {
@@ -27,6 +72,8 @@ export interface CreateSubmissionRequest {
   presentationType: PresentationType;
   authors: CreateAuthorRequest[];
   correspondingAuthor: string;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
 }
 
 export interface UpdateSubmissionRequest {
@@ -37,6 +84,8 @@ export interface UpdateSubmissionRequest {
   presentationType?: PresentationType;
   authors?: CreateAuthorRequest[];
   correspondingAuthor?: string;
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
 }
 
 export interface SubmissionResponse {
@@ -49,53 +98,180 @@ export interface SubmissionResponse {
   sessionType: SessionType;
   presentationType: PresentationType;
   status: SubmissionStatus;
-  submissionDate: Date;
+  submissionDate: Date | null;
   manuscriptPath?: string;
   correspondingAuthor: string;
+  revisionRound?: number;
+  revisionDeadline?: Date | null;
   authors: Author[];
+  conflicts?: ConflictOfInterestDeclaration;
+  abstractReferences?: AbstractReference[];
+  abstractFigurePath?: string;
+  abstractFigureMimeType?: string;
+  abstractFigureCaption?: string;
+  accessLevel?: SubmissionAccessLevel;
   createdAt: Date;
   updatedAt?: Date;
 }
 
-export interface SessionInfo {
-  type: SessionType;
-  name: string;
-  description: string;
-  guidelines?: string;
+// Full-text search (highlights wrap matched terms in <mark>)
+export type SubmissionSearchFacet = 'keywords' | 'sessionType' | 'status' | 'presentationType';
+export type SubmissionSearchSort = 'relevance' | 'newest' | 'title';
+
+export interface SubmissionSearchHit extends SubmissionResponse {
+  rank: number;
+  highlights: {
+    title: string;
+    abstract: string;
+  };
 }
 
-export const SESSION_INFO: Record<SessionType, SessionInfo> = {
-  CHE: {
-    type: 'CHE',
-    name: 'Computational Chemistry',
-    description: 'Research in computational methods for chemical systems, molecular modeling, and quantum chemistry.',
-    guidelines: 'Focus on computational approaches to chemical problems, including molecular dynamics, quantum calculations, and chemical informatics.'
-  },
-  CSE: {
-    type: 'CSE',
-    name: 'High Performance Computing/Computer Science/Engineering',
-    description: 'Research in high-performance computing, computer science algorithms, and computational engineering.',
-    guidelines: 'Include work on parallel computing, algorithms, software engineering, and computational methods in engineering.'
-  },
-  BIO: {
-    type: 'BIO',
-    name: 'Computational Biology/Bioinformatics/Biochemistry/Biophysics',
-    description: 'Research in computational biology, bioinformatics tools, and computational approaches to biological systems.',
-    guidelines: 'Cover computational methods in biology, genomics, proteomics, systems biology, and biophysical modeling.'
-  },
-  MST: {
-    type: 'MST',
-    name: 'Mathematics and Statistics',
-    description: 'Research in mathematical modeling, statistical methods, and computational mathematics.',
-    guidelines: 'Include mathematical modeling, statistical analysis, numerical methods, and applied mathematics.'
-  },
-  PFD: {
-    type: 'PFD',
-    name: 'Computational Physics/Computational Fluid Dynamics/Solid Mechanics',
-    description: 'Research in computational physics, fluid dynamics simulations, and solid mechanics modeling.',
-    guidelines: 'Focus on computational methods in physics, CFD simulations, finite element analysis, and materials modeling.'
-  }
-};
+export interface SearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SubmissionSearchParams {
+  q?: string;
+  sessionType?: SessionType[];
+  status?: SubmissionStatus[];
+  presentationType?: PresentationType[];
+  keywords?: string[];
+  sort?: SubmissionSearchSort;
+  page?: number;
+  limit?: number;
+}
+
+export interface SubmissionSearchResult {
+  submissions: SubmissionSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  facets: Record<SubmissionSearchFacet, SearchFacetCount[]>;
+}
+
+export interface SubmissionRevision {
+  id: string;
+  submissionId: string;
+  round: number;
+  revisionType: RevisionType;
+  requestNotes?: string;
+  deadline: Date;
+  requestedAt: Date;
+  reviewedTitle: string;
+  reviewedAbstract: string;
+  reviewedManuscriptPath?: string;
+  responseLetter?: string;
+  submittedAt?: Date;
+}
+
+// Autosaved drafts may be incomplete
+export type SaveDraftRequest = Partial<CreateSubmissionRequest>;
+
+export interface SubmissionStatusHistoryEntry {
+  id: string;
+  submissionId: string;
+  fromStatus?: SubmissionStatus;
+  toStatus: SubmissionStatus;
+  changedByName?: string;
+  changedByRole?: string;
+  reason?: string;
+  adminNotes?: string;
+  createdAt: Date;
+}
+
+export type WithdrawalStatus = 'pending' | 'confirmed' | 'rejected';
+
+export interface SubmissionWithdrawal {
+  id: string;
+  submissionId: string;
+  reason: string;
+  status: WithdrawalStatus;
+  submissionStatus: SubmissionStatus;
+  reviewedAt?: string;
+  adminNotes?: string;
+  createdAt: string;
+  submissionTitle?: string;
+  requestedByName?: string;
+  requestedByEmail?: string;
+}
+
+export type PresentationProposalStatus = 'pending' | 'accepted' | 'declined';
+
+export interface PresentationTypeProposal {
+  id: string;
+  submissionId: string;
+  currentType: PresentationType;
+  proposedType: PresentationType;
+  status: PresentationProposalStatus;
+  adminNotes?: string;
+  respondedAt?: string;
+  authorComment?: string;
+  createdAt: string;
+  submissionTitle?: string;
+  sessionType?: SessionType;
+  authorName?: string;
+  authorEmail?: string;
+}
+
+export type DecisionStatus = 'accepted' | 'rejected';
+export type RecommendationConsensus = 'accept' | 'reject' | 'revision' | 'split' | 'none';
+
+export interface DecisionCriteria {
+  sessionTypes?: SessionType[];
+  statuses?: SubmissionStatus[];
+  minAverageScore?: number;
+  maxAverageScore?: number;
+  minCompletedReviews?: number;
+  consensus?: RecommendationConsensus[];
+}
+
+export interface DecisionCandidate {
+  id: string;
+  title: string;
+  sessionType: SessionType;
+  status: SubmissionStatus;
+  averageScore: number | null;
+  completedReviews: number;
+  recommendations: string[];
+  consensus: RecommendationConsensus;
+}
+
+export interface DecisionBatch {
+  id: string;
+  conferenceId: string;
+  decision: DecisionStatus;
+  criteria: DecisionCriteria;
+  adminNotes?: string;
+  releasedAt?: string;
+  createdAt: string;
+  createdByName?: string;
+  itemCount?: number;
+  notifiedCount?: number;
+}
+
+export interface SkippedDecision {
+  submissionId: string;
+  title?: string;
+  status?: SubmissionStatus;
+  reason: string;
+}
+
+export interface DecisionEmailPreview {
+  submissionId: string;
+  submissionTitle: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SubmitRevisionRequest {
+  title?: string;
+  abstract?: string;
+  keywords?: string[];
+  responseLetter: string;
+}
 
 export const PRESENTATION_TYPE_INFO = {
   oral: {
@@ -118,6 +294,24 @@ export interface ManuscriptInfo {
   size?: number;
   mimetype?: string;
   uploadDate?: Date;
+  versionId?: string;
+  versionNumber?: number;
+  sha256?: string;
+  isCameraReady?: boolean;
+}
+
+export interface ManuscriptVersion {
+  id: string;
+  submissionId: string;
+  versionNumber: number;
+  originalName: string;
+  fileSize?: number;
+  sha256?: string;
+  uploadedBy?: string;
+  changeNote?: string;
+  isCameraReady: boolean;
+  isCurrent: boolean;
+  createdAt: Date;
 }
 
 export interface ManuscriptUploadResult {
@@ -128,6 +322,42 @@ export interface ManuscriptUploadResult {
   uploadDate: Date;
 }
 
+// Supplementary files attached alongside the manuscript
+export type SubmissionFileSlot = 'poster' | 'slides' | 'supplementary';
+export type FileVisibility = 'reviewers' | 'public' | 'organizers';
+
+export interface SubmissionFile {
+  id: string;
+  submissionId: string;
+  slot: SubmissionFileSlot;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  sha256: string;
+  visibility: FileVisibility;
+  description?: string;
+  uploadedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmissionFileSlotRule {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  maxSize: number;
+  maxFiles: number;
+  defaultVisibility: FileVisibility;
+  allowedVisibilities: FileVisibility[];
+  requiresAcceptance: boolean;
+}
+
+export const FILE_VISIBILITY_LABELS: Record<FileVisibility, string> = {
+  reviewers: 'Reviewers',
+  public: 'Public',
+  organizers: 'Organizers only'
+};
+
 export interface FileValidationError {
   code: string;
   message: string;
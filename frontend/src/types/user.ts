@@ -28,7 +28,8 @@ export type UserRole = 'participant' | 'presenter' | 'organizer' | 'reviewer' |
 
 export type PaymentStatus = 'not_paid' | 'payment_submitted' | 'payment_verified' | 'payment_rejected';
 
-export type SessionType = 'CHE' | 'CSE' | 'BIO' | 'MST' | 'PFD';
+// Code of a track in the conference's track catalogue, e.g. 'CHE'
+export type SessionType = string;
 
 export interface UserResponse {
   id: string;
@@ -37,12 +38,17 @@ export interface UserResponse {
   lastName: string;
   affiliation: string;
   country: string;
+  orcid?: string;
+  organizationId?: string;
+  department?: string;
   participantType: ParticipantType;
   role: UserRole;
   registrationDate: Date;
   isActive: boolean;
   bio?: string;
   expertise?: string[];
+  // Whether the user is registered for the current edition
+  isRegistered: boolean;
   paymentStatus: PaymentStatus;
   registrationFee: number;
   selectedSessions: SessionType[];
@@ -57,6 +63,7 @@ export interface CreateUserRequest {
   lastName: string;
   affiliation: string;
   country: string;
+  orcid?: string;
   participantType: ParticipantType;
   selectedSessions: SessionType[];
   bio?: string;
@@ -68,11 +75,32 @@ export interface UpdateUserRequest {
   lastName?: string;
   affiliation?: string;
   country?: string;
+  orcid?: string | null;
   bio?: string;
   expertise?: string[];
   selectedSessions?: SessionType[];
 }
 
+export interface ConferenceRegistration {
+  id: string;
+  conferenceId: string;
+  userId: string;
+  participantType: ParticipantType;
+  paymentStatus: PaymentStatus;
+  registrationFee: number;
+  registeredAt: string;
+  conferenceName?: string;
+  conferenceStartDate?: string;
+  conferenceEndDate?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface RegisterForConferenceRequest {
+  participantType: ParticipantType;
+  selectedSessions: SessionType[];
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
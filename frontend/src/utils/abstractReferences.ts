@@ -0,0 +1,35 @@
+import { AbstractReference } from '../types/submission';
+
+// References sit outside the abstract text, so they never count towards its word limit
+export const MAX_ABSTRACT_REFERENCES = 20;
+
+// End a citation part with exactly one full stop; initials and abbreviations already have one
+const sentence = (value: string): string => {
+  const trimmed = value.trim().replace(/[\s,;:]+$/, '');
+  return /[.?!]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+/**
+ * Link a reader can follow: the DOI resolver if there is a DOI, otherwise the given URL
+ */
+export const getReferenceLink = (reference: AbstractReference): string | undefined => {
+  return reference.doi ? `https://doi.org/${reference.doi}` : reference.url || undefined;
+};
+
+/**
+ * Citation text without its link: Authors (Year). Title. Source.
+ */
+export const formatReference = (reference: AbstractReference): string => {
+  const parts: string[] = [];
+  const authors = (reference.authors || '').trim().replace(/[\s,;:]+$/, '');
+  if (authors) {
+    parts.push(reference.year ? `${authors} (${reference.year}).` : sentence(authors));
+  } else if (reference.year) {
+    parts.push(`(${reference.year}).`);
+  }
+  parts.push(sentence(reference.title));
+  if (reference.source) {
+    parts.push(sentence(reference.source));
+  }
+  return parts.join(' ');
+};
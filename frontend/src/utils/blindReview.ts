@@ -0,0 +1,30 @@
+// Initials and particles such as "de" or "Li" are too short to flag without false alarms
+const MIN_NAME_PART_LENGTH = 3;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match that also works for accented letters
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+
+/**
+ * Author names that appear in the text, by full name or surname. Under double-blind review
+ * the abstract goes to reviewers as written, so these would reveal who the authors are.
+ */
+export const findAuthorNamesInText = (text: string, names: string[]): string[] => {
+  if (!text) return [];
+
+  const found = new Set<string>();
+  for (const name of names) {
+    const fullName = name.trim().replace(/\s+/g, ' ');
+    if (fullName.length < MIN_NAME_PART_LENGTH) continue;
+
+    const parts = fullName.split(' ');
+    const surname = parts[parts.length - 1];
+    if (containsWord(text, fullName) || (surname.length >= MIN_NAME_PART_LENGTH && containsWord(text, surname))) {
+      found.add(fullName);
+    }
+  }
+
+  return Array.from(found);
+};
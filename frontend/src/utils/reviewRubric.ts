@@ -0,0 +1,13 @@
+import { RubricCriterion } from '../types/review';
+
+// Criteria are scored on the same 1-10 scale as the overall score
+export const RUBRIC_SCORE_MIN = 1;
+export const RUBRIC_SCORE_MAX = 10;
+
+// Weighted mean of the criterion scores, rounded to two decimals as the server does
+export const calculateWeightedScore = (criteria: RubricCriterion[], scores: Record<string, number>): number => {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight <= 0) return 0;
+  const weightedSum = criteria.reduce((sum, criterion) => sum + criterion.weight * (scores[criterion.key] ?? 0), 0);
+  return Math.round((weightedSum / totalWeight) * 100) / 100;
+};
@@ -1,4 +1,5 @@
 // Client-side validation utilities
+import { SessionPolicyRules, SessionType } from '../types/conference';
 
 export interface ValidationError {
   field: string;
@@ -18,9 +19,27 @@ export const validationPatterns = {
   uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i,
   name: /^[a-zA-Z\s\-']{2,100}$/,
   phone: /^\+?[\d\s\-\(\)]{10,20}$/,
+  orcid: /^(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])$/,
   url: /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/,
 };
 
+// Normalize an ORCID iD (bare, unhyphenated or orcid.org URL) and verify its MOD 11-2 checksum
+export function normalizeOrcid(value: string): string | null {
+  const trimmed = value.trim().replace(/^https?:\/\/(www\.)?orcid\.org\//i, '').toUpperCase();
+  const match = trimmed.match(validationPatterns.orcid);
+  if (!match) return null;
+
+  const digits = match.slice(1).join('');
+  let total = 0;
+  for (const digit of digits.slice(0, 15)) {
+    total = (total + parseInt(digit, 10)) * 2;
+  }
+  const result = (12 - (total % 11)) % 11;
+  const checkDigit = result === 10 ? 'X' : String(result);
+
+  return checkDigit === digits[15] ? match.slice(1).join('-') : null;
+}
+
 // Validation rules
 export const validationRules = {
   required: (value: any) => {
@@ -52,6 +71,14 @@ export const validationRules = {
     return null;
   },
 
+  orcid: (value: string) => {
+    if (!value) return null;
+    if (!normalizeOrcid(value)) {
+      return 'Please enter a valid ORCID iD, e.g. 0000-0002-1825-0097';
+    }
+    return null;
+  },
+
   confirmPassword: (value: string, originalPassword: string) => {
     if (!value) return null;
     if (value !== originalPassword) {
@@ -458,6 +485,48 @@ export function escapeHtml(unsafe: string): string {
     .replace(/'/g, '&#039;');
 }
 
+// Limits used when a session has no policy; mirrors the backend submission schema
+export const DEFAULT_SESSION_POLICY: SessionPolicyRules = {
+  minAbstractWords: 0,
+  maxAbstractWords: 500,
+  minKeywords: 3,
+  maxKeywords: 10,
+  allowedPresentationTypes: ['oral', 'poster']
+};
+
+// Check submission fields against a session's policy; messages match the backend
+export function checkSessionPolicy(
+  sessionType: SessionType,
+  policy: SessionPolicyRules,
+  data: { abstractWords?: number; keywords?: string[]; presentationType?: string | null }
+): string[] {
+  const messages: string[] = [];
+  const prefix = `${sessionType} session rule`;
+
+  if (data.abstractWords !== undefined) {
+    if (data.abstractWords > policy.maxAbstractWords) {
+      messages.push(`${prefix}: abstract must be at most ${policy.maxAbstractWords} words (currently ${data.abstractWords})`);
+    } else if (data.abstractWords < policy.minAbstractWords) {
+      messages.push(`${prefix}: abstract must be at least ${policy.minAbstractWords} words (currently ${data.abstractWords})`);
+    }
+  }
+
+  if (data.keywords !== undefined) {
+    const count = data.keywords.length;
+    if (count < policy.minKeywords) {
+      messages.push(`${prefix}: at least ${policy.minKeywords} keywords are required (currently ${count})`);
+    } else if (count > policy.maxKeywords) {
+      messages.push(`${prefix}: at most ${policy.maxKeywords} keywords are allowed (currently ${count})`);
+    }
+  }
+
+  if (data.presentationType && !policy.allowedPresentationTypes.includes(data.presentationType as 'oral' | 'poster')) {
+    messages.push(`${prefix}: only ${policy.allowedPresentationTypes.join(' or ')} presentations are accepted`);
+  }
+
+  return messages;
+}
+
 // Markdown validation for abstracts
 export function validateMarkdown(markdown: string): { isValid: boolean; errors: string[]; warnings: string[] } {
   const errors: string[] = [];